@@ -7,6 +7,12 @@ import { Toaster } from '@/components/ui/sonner'
 // Lazy load pages for better performance
 const Import = lazy(() => import('./pages/Import').then(module => ({ default: module.Import })))
 const Leads = lazy(() => import('./pages/Leads').then(module => ({ default: module.Leads })))
+const Costs = lazy(() => import('./pages/Costs').then(module => ({ default: module.Costs })))
+const Quality = lazy(() => import('./pages/Quality').then(module => ({ default: module.Quality })))
+const Evaluation = lazy(() => import('./pages/Evaluation').then(module => ({ default: module.Evaluation })))
+const CaseStudies = lazy(() => import('./pages/CaseStudies').then(module => ({ default: module.CaseStudies })))
+const FewShotExamples = lazy(() => import('./pages/FewShotExamples').then(module => ({ default: module.FewShotExamples })))
+const PromptTemplates = lazy(() => import('./pages/PromptTemplates').then(module => ({ default: module.PromptTemplates })))
 const Settings = lazy(() => import('./components/settings/Settings').then(module => ({ default: module.Settings })))
 const ElectronBridgeTest = lazy(() => import('./components/test/ElectronBridgeTest').then(module => ({ default: module.ElectronBridgeTest })))
 
@@ -26,6 +32,12 @@ function App() {
             <Route path="/" element={<Layout />}>
               <Route index element={<Leads />} />
               <Route path="import" element={<Import />} />
+              <Route path="templates" element={<PromptTemplates />} />
+              <Route path="case-studies" element={<CaseStudies />} />
+              <Route path="examples" element={<FewShotExamples />} />
+              <Route path="costs" element={<Costs />} />
+              <Route path="quality" element={<Quality />} />
+              <Route path="evaluation" element={<Evaluation />} />
               <Route path="settings" element={<Settings />} />
               <Route path="test" element={<ElectronBridgeTest />} />
             </Route>
@@ -34,6 +34,10 @@ vi.mock('../../services/templateService', () => ({
   templateService: {
     validateLeadData: vi.fn(),
     generatePrompt: vi.fn().mockReturnValue('Generated prompt for lead'),
+    generatePromptParts: vi.fn().mockReturnValue({
+      promptPrefix: 'Template instructions',
+      prompt: 'Generated prompt for lead'
+    }),
     validateGeneratedContent: vi.fn().mockReturnValue(true)
   }
 }))
@@ -119,6 +123,7 @@ describe('Claude IPC Integration Tests', () => {
       expect(result.content).toEqual(mockClaudeResponse)
       expect(mockClaudeApi.generateContent).toHaveBeenCalledWith({
         prompt: 'Generated prompt for lead',
+        promptPrefix: 'Template instructions',
         leadData: mockLeadData,
         modelId: undefined,
         systemPrompt: undefined,
@@ -160,7 +165,8 @@ describe('Claude IPC Integration Tests', () => {
       expect(mockClaudeApi.generateContent).toHaveBeenCalledWith(
         expect.objectContaining({
           systemPrompt: expect.stringContaining('# Makeshapes Cold Email System'),
-          prompt: expect.stringContaining('Tell me about this lead')
+          prompt: expect.stringContaining('Tell me about this lead'),
+          promptPrefix: undefined
         })
       )
     })
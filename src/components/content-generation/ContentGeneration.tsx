@@ -40,6 +40,7 @@ import {
   FileText,
   Image,
   Trash2,
+  CheckCircle,
 } from 'lucide-react'
 import {
   contentGenerationService,
@@ -48,20 +49,40 @@ import {
 import { contentStorage } from '@/utils/contentStorage'
 import type { LeadData, ColumnMapping } from '@/types/lead'
 import type { ClaudeResponse } from '@/services/claudeService'
+import type { StreamedSnippet } from '@/main/services/sequenceOutput'
 import { createClaudeService } from '@/services/claudeService'
 import {
   estimateTokens,
+  estimateAttachmentTokens,
+  ESTIMATED_SEQUENCE_OUTPUT_TOKENS,
   MODEL_PRICING,
   calculatePrice,
   formatPrice,
 } from '@/utils/tokenCounter'
 import type { FileAttachment } from '@/utils/fileHandler'
-import { processFile, formatFileSize } from '@/utils/fileHandler'
+import { processFile, formatFileSize, describeAttachments } from '@/utils/fileHandler'
+import { buildSystemPrompt } from '@/utils/systemPrompt'
 import {
   type PlainTextContent,
   convertFromHtmlContent,
+  htmlToPlainText,
 } from '@/utils/contentConverter'
 import PlainTextEditor from './PlainTextEditor'
+import SnippetRewrite from './SnippetRewrite'
+import SnippetVariants from './SnippetVariants'
+import SnippetApproval from './SnippetApproval'
+import {
+  type SequenceTouchpoint,
+  type SnippetField,
+  type TouchpointContent,
+  emptySnippets,
+  sequenceFields,
+  snippetField,
+  touchpointContentType,
+} from '@/utils/sequenceDefinition'
+import type { GeneratedContentRecord, RevisionInfo } from '@/types/api'
+import { templateService } from '@/services/templateService'
+import { useCaseStudies } from '@/hooks/useCaseStudies'
 
 // Utility function for consistent localStorage key generation
 function getLocalStorageKey(lead: LeadData): string {
@@ -75,108 +96,107 @@ interface ContentGenerationProps {
   columnMapping?: ColumnMapping
   onStatusUpdate?: (leadId: string, status: LeadData['status']) => void
   onContentUpdate?: (content: ClaudeResponse | null) => void
+  // Whether every touchpoint of the sequence is approved, so it can be exported
+  onApprovalChange?: (approved: boolean) => void
+  // Called once edits reach the database, so the revision history can refresh
+  onContentSaved?: () => void
+  // Bump to reload the content from the database, e.g. after a revert
+  reloadKey?: number
 }
 
 interface SnippetConfig {
-  key: keyof ClaudeResponse
+  key: SnippetField
   label: string
   description: string
   isHtml: boolean
+  isSubject: boolean
   timeline: string
+  touchpointNumber: number
+  contentType: TouchpointContent['content_type']
+  // Snippet slot a kept B variant is exported in, if the touchpoint is A/B tested
+  variantKey?: SnippetField
 }
 
-const SNIPPETS: SnippetConfig[] = [
-  {
-    key: 'snippet1',
-    label: 'Email Subject',
-    description: 'Day 1 - Initial outreach subject line',
-    isHtml: false,
-    timeline: 'Day 1',
-  },
-  {
-    key: 'snippet2',
-    label: 'Email Body',
-    description: 'Day 1 - Initial outreach email body',
-    isHtml: true,
-    timeline: 'Day 1',
-  },
-  {
-    key: 'snippet3',
-    label: 'LinkedIn Message',
-    description: 'Day 2-3 - LinkedIn connection message',
-    isHtml: false,
-    timeline: 'Day 2-3',
-  },
-  {
-    key: 'snippet4',
-    label: 'Bump Email',
-    description: 'Day 5 - Email bump (reply to original)',
-    isHtml: true,
-    timeline: 'Day 5',
-  },
-  {
-    key: 'snippet5',
-    label: 'Follow-up Email',
-    description: 'Day 9-10 - Follow-up with Shapeshifters panel angle',
-    isHtml: true,
-    timeline: 'Day 9-10',
-  },
-  {
-    key: 'snippet6',
-    label: 'Second Bump',
-    description: 'Day 13 - Bump with panel discussion offer',
-    isHtml: true,
-    timeline: 'Day 13',
-  },
-  {
-    key: 'snippet7',
-    label: 'Breakup Email',
-    description: 'Day 20 - Final graceful breakup email',
-    isHtml: true,
-    timeline: 'Day 20',
-  },
-]
+function toSnippetConfig(touchpoint: SequenceTouchpoint, index: number): SnippetConfig {
+  return {
+    key: snippetField(touchpoint.slot),
+    label: touchpoint.label,
+    description: touchpoint.instructions,
+    isHtml: touchpoint.format === 'html',
+    isSubject: touchpoint.part === 'subject',
+    timeline: `Day ${touchpoint.dayOffset}`,
+    touchpointNumber: index + 1,
+    contentType: touchpointContentType(touchpoint),
+    ...(touchpoint.variantSlot ? { variantKey: snippetField(touchpoint.variantSlot) } : {}),
+  }
+}
 
 export function ContentGeneration({
   lead,
   columnMapping,
   onStatusUpdate,
   onContentUpdate,
+  onApprovalChange,
+  onContentSaved,
+  reloadKey = 0,
 }: ContentGenerationProps) {
   // Feature flag for enhanced editing (Story 1.5)
   const useEnhancedEditing =
     import.meta.env.VITE_ENABLE_ENHANCED_EDITING === 'true'
 
   const [isGenerating, setIsGenerating] = useState(false)
+  // Operation id of the in-flight generation, used to cancel it
+  const [generationOperationId, setGenerationOperationId] = useState<
+    string | null
+  >(null)
   const [content, setContent] = useState<ClaudeResponse | null>(null)
+  // Snippets received so far while a generation streams in
+  const [streamedSnippets, setStreamedSnippets] = useState<
+    Partial<Record<keyof ClaudeResponse, StreamedSnippet>>
+  >({})
   const [editingSnippet, setEditingSnippet] = useState<string | null>(null)
   const [editedContent, setEditedContent] = useState<Partial<ClaudeResponse>>(
     {}
   )
+  // Text each snippet had before its rewrites, most recent last
+  const [rewriteHistory, setRewriteHistory] = useState<
+    Partial<Record<SnippetField, string[]>>
+  >({})
+  // A/B variants per snippet, rejected ones left out
+  const [variants, setVariants] = useState<
+    Partial<Record<SnippetField, GeneratedContentRecord[]>>
+  >({})
+  // Stored touchpoint rows with their review state
+  const [touchpoints, setTouchpoints] = useState<
+    Partial<Record<SnippetField, GeneratedContentRecord>>
+  >({})
   // const [viewMode, setViewMode] = useState<'preview' | 'edit'>('preview')
   const [error, setError] = useState<string | null>(null)
   const [customPrompt, setCustomPrompt] = useState('')
   const [systemPrompt, setSystemPrompt] = useState('')
   const [isEditingSystemPrompt, setIsEditingSystemPrompt] = useState(false)
   const [editedSystemPrompt, setEditedSystemPrompt] = useState('')
-  const [selectedModel, setSelectedModel] = useState('claude-sonnet-4-20250514')
-  const [fileAttachments, setFileAttachments] = useState<FileAttachment[]>([])
+  // Shared with bulk generation, so batches use the model and files chosen here
+  const [selectedModel, setSelectedModel] = useState(
+    () => contentGenerationService.getGenerationSettings().modelId
+  )
+  const [fileAttachments, setFileAttachments] = useState<FileAttachment[]>(
+    () => contentGenerationService.getGenerationSettings().attachments
+  )
   const [isDragging, setIsDragging] = useState(false)
   const [generationMode, setGenerationMode] = useState<GenerationMode>('claude')
+  // Touchpoints of the email-sequence template, in the order they are sent
+  const sequence = useMemo(() => templateService.getSequence(), [])
+  const snippets = useMemo(() => sequence.map(toSnippetConfig), [sequence])
 
   // Enhanced editing state (Story 1.5)
   const [editingMode, setEditingMode] = useState<'html' | 'plaintext'>(
     'plaintext'
   )
-  const [plainTextContent, setPlainTextContent] = useState<PlainTextContent>({
-    snippet1: '',
-    snippet2: '',
-    snippet3: '',
-    snippet4: '',
-    snippet5: '',
-    snippet6: '',
-    snippet7: '',
-  })
+  const [plainTextContent, setPlainTextContent] = useState<PlainTextContent>(() =>
+    emptySnippets(sequence)
+  )
+  const hasPlainText = Object.values(plainTextContent).some(Boolean)
   const [showJsonOutput, setShowJsonOutput] = useState(false)
 
   // Calculate token counts and pricing
@@ -186,42 +206,12 @@ export function ContentGeneration({
     const userTokens = estimateTokens(customPrompt)
 
     // Add tokens for file attachments - much lower with Files API
-    let attachmentTokens = 0
-    if (fileAttachments.length > 0) {
-      fileAttachments.forEach((file) => {
-        if (file.file_id) {
-          // With Files API, we only pay for file references, not the full content
-          if (file.type.startsWith('image/')) {
-            // Files API charges for image analysis, estimated ~10-50 tokens per image
-            attachmentTokens += 20
-          } else if (file.type === 'application/pdf') {
-            // PDF analysis through Files API, estimated ~50-200 tokens depending on content
-            const sizeInKB = file.size / 1024
-            attachmentTokens += Math.min(Math.ceil(sizeInKB / 20), 200) // Max 200 tokens per PDF
-          }
-        } else if (!file.uploading) {
-          // File upload failed, but still show old base64 estimates to warn user
-          if (file.type.startsWith('image/')) {
-            const sizeInKB = file.size / 1024
-            if (sizeInKB < 100) {
-              attachmentTokens += 750
-            } else if (sizeInKB < 500) {
-              attachmentTokens += 1500
-            } else {
-              attachmentTokens += 3000
-            }
-          } else if (file.type === 'application/pdf') {
-            attachmentTokens += Math.ceil((file.size / 1024 / 100) * 500)
-          }
-        }
-        // Files that are uploading don't count towards tokens yet
-      })
-    }
+    const attachmentTokens = estimateAttachmentTokens(fileAttachments)
 
     // Total input tokens (system prompt is handled more efficiently by Claude)
     const inputTokens = systemTokens + userTokens + attachmentTokens
     // Estimate output tokens (7 blocks, roughly 1000 tokens total)
-    const estimatedOutputTokens = 1000
+    const estimatedOutputTokens = ESTIMATED_SEQUENCE_OUTPUT_TOKENS
     const pricing = calculatePrice(
       inputTokens,
       estimatedOutputTokens,
@@ -285,6 +275,20 @@ export function ContentGeneration({
     [lead, columnMapping]
   )
 
+  // Who the linter expects the content to mention, and what its peer
+  // proof may draw on
+  const caseStudies = useCaseStudies()
+  const lintLead = useMemo(
+    () => ({
+      first_name: getFieldValue('first_name'),
+      last_name: getFieldValue('last_name'),
+      company: getFieldValue('company'),
+      custom_prompt: customPrompt,
+      caseStudies,
+    }),
+    [getFieldValue, customPrompt, caseStudies]
+  )
+
   // Load existing content when lead changes
   useEffect(() => {
     const loadExistingContent = async () => {
@@ -335,6 +339,9 @@ export function ContentGeneration({
         )
         setContent(existingContent)
         onContentUpdate?.(existingContent)
+        if (useEnhancedEditing) {
+          setPlainTextContent(convertFromHtmlContent(existingContent, sequence))
+        }
 
         // ALWAYS save database content to localStorage to ensure it's available across modal open/close
         const localStorageKey = getLocalStorageKey(lead)
@@ -365,389 +372,93 @@ export function ContentGeneration({
     }
 
     loadExistingContent()
+  }, [lead.id, reloadKey])
+
+  const loadTouchpoints = useCallback(async (): Promise<
+    Partial<Record<SnippetField, GeneratedContentRecord>>
+  > => {
+    if (!Number.isFinite(parseInt(String(lead.id)))) return {}
+
+    const records = await contentStorage.getTouchpoints(String(lead.id))
+    const byField = Object.fromEntries(
+      records.map((record) => [record.snippet_field, record])
+    ) as Partial<Record<SnippetField, GeneratedContentRecord>>
+    setTouchpoints(byField)
+    return byField
+  }, [lead.id])
+
+  useEffect(() => {
+    setTouchpoints({})
+    loadTouchpoints()
+  }, [loadTouchpoints, reloadKey])
+
+  const allTouchpointsApproved = useMemo(
+    () =>
+      sequenceFields(sequence).every(
+        (field) => touchpoints[field]?.status === 'approved'
+      ),
+    [sequence, touchpoints]
+  )
+
+  useEffect(() => {
+    onApprovalChange?.(allTouchpointsApproved)
+  }, [allTouchpointsApproved, onApprovalChange])
+
+  // Variants still in play; replacing a touchpoint's text rejects its variants
+  const loadVariants = useCallback(async () => {
+    if (!Number.isFinite(parseInt(String(lead.id)))) return
+
+    const records = await contentStorage.getVariants(String(lead.id))
+    const grouped: Partial<Record<SnippetField, GeneratedContentRecord[]>> = {}
+    records
+      .filter((record) => record.status !== 'rejected')
+      .forEach((record) => {
+        const field = record.snippet_field as SnippetField
+        grouped[field] = [...(grouped[field] || []), record]
+      })
+    setVariants(grouped)
   }, [lead.id])
 
+  useEffect(() => {
+    setVariants({})
+    loadVariants()
+  }, [loadVariants])
+
   // Convert HTML to plain text when enhanced editing is enabled and we have content but no plain text
   useEffect(() => {
     if (
       useEnhancedEditing &&
       content &&
-      !plainTextContent.snippet1 &&
-      !plainTextContent.snippet2
+      !hasPlainText
     ) {
       console.log(
         '🔄 [ContentGeneration] Converting HTML to plain text for enhanced editing'
       )
-      const plainText = convertFromHtmlContent(content)
+      const plainText = convertFromHtmlContent(content, sequence)
       setPlainTextContent(plainText)
       setEditingMode('plaintext')
       setShowJsonOutput(false)
     }
-  }, [
-    useEnhancedEditing,
-    content,
-    plainTextContent.snippet1,
-    plainTextContent.snippet2,
-  ])
+  }, [useEnhancedEditing, content, hasPlainText, sequence])
+
+  useEffect(() => {
+    contentGenerationService.setGenerationSettings({
+      modelId: selectedModel,
+      attachments: fileAttachments,
+    })
+  }, [selectedModel, fileAttachments])
 
   // Initialize system prompt
   useEffect(() => {
     // Set default system prompt
-    const defaultSystemPrompt = `# Makeshapes Cold Email Sequence Generator - System Prompt
-
-## PRIORITY INSTRUCTION
-If the user provides any context or information in their prompt, ALWAYS prioritize and use that information above any generic templates or assumptions. The user's input contains critical personalization details that must be incorporated into the email sequence.
-
-## Your Role
-You are an expert B2B sales copywriter specializing in enterprise Learning & Development solutions. You generate personalized 6-touchpoint email sequences for Makeshapes, a digital learning platform that enables group learning at scale without facilitators.
-
-## Company Context: Makeshapes
-
-### What We Sell: On-Demand Group Learning Platform
-Makeshapes is a digital platform that enables large organizations to deliver discussion-rich group learning experiences at scale WITHOUT facilitators. We solve the "training trade-off" - organizations no longer have to choose between impactful-but-expensive facilitated training OR scalable-but-boring(passive) e-learning.
-
-### The Problem We Solve
-- **The Training Trade-off**: Organizations are forced to choose between:
-  - High-impact facilitated training (expensive, slow, limited reach)
-  - Scalable digital self-paced solutions such as e-learning (passive, boring, low engagement, poor retention)
-- **Magical Dissemination Theory**: Training only senior leaders with impactful facilitated experiences and hoping knowledge "trickles down" (it doesn't)
-- **Hybrid Work Challenges**: Remote/hybrid teams can't access traditional in-person group learning
-- **Inconsistent Delivery**: Train-the-trainer approaches lead to variable quality and messaging
-- **Faster Delivery**: Traditional approaches whether leveraging facilitators or train-the-trainer delivery are too slow to meet the fast changing needs of modern organisations
-
-### Our Unique Solution: Auto-Facilitated Group Learning
-- **Platform auto-facilitates** using a simple all-in-one format that does not require a facilitator
-- **Leader-led delivery**: Empower any leader or manager to host impactful learning without the need for prep or confidence to facilitate and engage a group
-- **peer-to-peer experiences**: provide structured and consistent experiences that can be delivered to groups of peers where the platform guides the group
-- **Microlearning for teams**: enable short sharp experiences as little as 15-minutes group sessions instead of all-day workshops
-- **Rollout organisation-wide**: Roll out to entire organization simultaneously without needing to utilise train-the-trainer or an army of facilitators
-- **Simple reporting**: Simply track participation and engagement from group learning with analytics dashboard or integration into your existing systems
-
-### Key Differentiators
-- **Group learning without facilitators**: Structured, discussion-rich experiences at unlimited scale
-- **Consistent delivery**: Same high-quality experience for 10 or 10,000 participants
-- **Hybrid-friendly**: Works equally well for in-person, remote, or mixed groups
-- **Rapid deployment**: Roll out to entire organizations in days, not months
-- **Rich insights**: Generate rich insights from granular interaction data and participant inputs across cohorts
-- **Cost transformation**: Significantly reduce training costs through a reduced resource requirement and simpler logistics
-- **Engagement breakthrough**: Gain visibility of participant engagement in group learning
-- **Psychological safety**: Anonymous responses, aggregated results, break options
-
-### Use-cases
-Critical capability rollouts ( for example mental health literacy, AI fundamentals, fundamental leadership skills)
-Significantly more effective approach to train-the-trainer
-Learning circles and peer-to-peer huddles ( for example as part of a leadership program)
-Just-in-time learning for teams to support team development and timely access to capability uplift ( for example, how to give effective feedback, making decisions, Active listening).
-critical communications rollouts ( for example new organisational values, product updates)
-Leader-led experiences and team plays
-Structured team conversations and rituals ( for example, team health checks, my user manual, project pre-Mortems etc.)
-Engaging Inductions and on boarding
-
-### Proven Results & Case Studies
-
-**Zespri International (Global Kiwifruit Company):**
-- Delivered mental health "circuit breaker" to 700 employees across 25 countries in just 5 DAYS
-- 80% participation rate (vs typical 20-30% for e-learning)
-- Multiple languages with local subtitles
-- Quote: "Without Makeshapes the learning wouldn't have had the impact that it did. The platform is seamless."
-
-**Global Mining Company:**
-- Trained 2,500 leaders across 5 languages simultaneously
-- 87% participation rate
-- 20% improvement in health literacy scores
-- 18% increase in mental health conversations
-- 16% rise in support interventions
-
-**Westpac Bank (Financial Services):**
-- Increased the capacity of learning designers by 300%
-- Empowered leaders to deliver powerful contextualised learning in a simple easy to deliver format
-- Supported the sharing of tacit knowledge and experience between team members
-- Maintained consistency across all locations and delivery
-
-**One NZ (Telecommunications):**
-Makeshapes enabled One NZ to overcome the limitations of traditional training by providing an interactive and collaborative social learning platform.
-The platform delivered consistent training across a large and geographically dispersed workforce, ensuring a unified message for all employees.
-It fostered a more inclusive learning environment, encouraging broader participation from employees who might not typically speak up.
-Makeshapes' user-friendly and auto-facilitation features empowered team leaders without formal training experience to host effective learning sessions.
-The platform provided valuable data and completion tracking, allowing One NZ to measure engagement and continuously improve its learning programs.
-It seamlessly integrated with One NZ's existing systems, making learning resources easily accessible and encouraging employee participation.
-By shifting from passive e-learning to dynamic group experiences, Makeshapes helped cultivate a culture of continuous and collaborative learning essential for future workforce needs.
-
-## Target Buyer Profile
-
-### Company Characteristics:
-- **Size**: 2,500-10,000+ employees (enterprise scale)
-- **Structure**: Complex, dispersed, multi-location operations
-- **Work Model**: Hybrid, remote, or mixed workforce
-- **Challenge**: Need to train large populations quickly, effectively and consistently
-
-### Industries We Excel In:
-- **Financial Services**: Banks, insurance (soft skills, social learning, digital transformation, onboarding)
-- **Technology**: Software, SaaS companies (rapid scaling, continuous learning)
-- **Healthcare**: Hospitals, health systems (safety training, protocol rollouts)
-- **Mining/Manufacturing**: Global operations (safety, leadership development)
-- **Telecommunications**: Dispersed workforce (soft skills, customer service, product communication)
-
-### Key Buyer Personas:
-- **VP/Director of L&D**: Struggling with scale vs impact trade-off
-- **Head of HR/People**: Need culture change at scale
-- **Transformation Leaders**: Need to lift capability or shift mindsets as scale
-- **Safety/Compliance Officers**: Ensure consistent training delivery
-- **Functional Leaders**: Department heads with specific training needs
-
-### Trigger Events & Pain Points:
-- **M&A Integration**: Need to align cultures and processes quickly
-- **Rapid Expansion**: Onboarding thousands of new hires
-- **Digital Transformation**: Reskilling entire workforce
-- **Regulatory Changes**: Impactful compliance training at scale
-- **Culture Initiatives**: DEI, wellbeing, leadership development
-- **Leadership development**: fundamentals, emerging leaders, peer-to-peer learning
-- **Hybrid Work Transition**: Training dispersed teams
-- **Budget Pressure**: Do more with less, reduce training costs
-
-## Platform Features That Matter to Buyers:
-- **1-Click Access**: No apps, downloads, or complex IT integration
-- **Enterprise Security**: AES-256 encryption, GDPR/CCPA compliant
-- **Real-time Analytics**: Track participation, measure outcomes, gather insights
-- **Drag-and-drop Authoring**: Create experiences without technical skills
-- **Interactive Elements**: Polls, voting, card sorts, breakouts
-- **Background Music**: Sets tone and energy for sessions
-- **Multi-language Support**: Global rollout capability
-- **LMS Integration**: Works with existing L&D ecosystem
-
-## How Makeshapes Changes the Game:
-1. **From Months to Days**: Deploy training to thousands in 5 days vs 6+ months
-2. **From 20% to 80% participation**: 4x improvement in engagement
-3. **From Inconsistent to Uniform**: Every group gets the same quality experience
-4. **From Top-down to Everyone**: No more "magical dissemination" hoping knowledge trickles down
-
-## PROSPECT DETAILS:
-- Name: ${getFieldValue('contact') || 'N/A'}
-- Company: ${getFieldValue('company') || 'N/A'}
-- Title: ${getFieldValue('title') || 'N/A'}
-- Email: ${getFieldValue('email') || 'N/A'}
-- Industry: ${getFieldValue('industry') || 'Technology'}
-- LinkedIn: ${getFieldValue('linkedin') || 'N/A'}
-
-## Email Sequence Structure & Requirements
-
-### Touchpoint Schedule
-- Day 1: Initial cold email (problem recognition)
-- Day 2-3: LinkedIn connection request
-- Day 5: Email bump (reply to original)
-- Day 9-10: Follow-up email (new angle - Shapeshifters podcast/panel)
-- Day 13: Email bump to follow-up
-- Day 20: Final breakup email
-
-Generate exactly 7 content snippets:
-1. **snippet1**: Day 1 Email SUBJECT LINE (36-50 characters, format: [Company Name]'s [specific challenge/opportunity])
-2. **snippet2**: Day 1 Email BODY (HTML with <div> tags, 150-200 words)
-3. **snippet3**: Day 2-3 LinkedIn message (plain text, under 300 characters)
-4. **snippet4**: Day 5 Bump email (HTML formatted, short: "Any thoughts, [Name]? Best, Dan")
-5. **snippet5**: Day 9-10 Follow-up email (HTML, 150-200 words, mention Shapeshifters panel)
-6. **snippet6**: Day 13 Bump email (HTML, mention panel discussion and demo link)
-7. **snippet7**: Day 20 Breakup email (HTML, 150-200 words, graceful exit)
-
-### Writing Rules
-
-**Subject Line Requirements:**
-- Length: 36-50 characters maximum
-- Format: [Company Name]'s [specific challenge/opportunity]
-- NO questions, exclamation points, or generic phrases
-
-**Email Structure (150-200 words):**
-- Opening Hook (25 words): Reference specific trigger/recent news
-- Peer Proof (75 words): Similar company example with metrics
-- Their ROI (50 words): Quantify potential impact for them
-- Soft CTA (25 words): Exploratory question, not meeting request
-
-**Proven Opening Patterns:**
-1. "I noticed the incredible work you're doing with [program]. Curious how you're approaching [specific element]?"
-2. "I've been hearing from leaders in [industry] that [challenge] is a top priority..."
-3. "I noticed [specific context]. It got me wondering how you're handling [challenge] at [company]..."
-4. "Given your experience with [initiative], I'd be curious to get your feedback on [new approach]..."
-
-### Language Requirements
-
-**NEVER Use (Spam Triggers):**
-- Financial: free, discount, save money, cheap, guarantee
-- Urgency: urgent, limited time, act now, deadline
-- Hype: amazing, revolutionary, breakthrough, game-changing
-- Aggressive: buy now, sign up, click here
-
-**ALWAYS Use Instead:**
-- "Explore" not "Buy"
-- "Worth considering" not "Act now"
-- "Measurable improvement" not "Amazing results"
-- "Investment" not "Price/Cost"
-
-### Personalization Requirements
-Each email MUST include:
-- Exact company name (as officially used)
-- Specific trigger event or context
-- Employee count or scale reference
-- Problem alignment
-
-## Processing Instructions
-
-1. **FIRST - Check for user-provided context:**
-   - Any specific information about the prospect
-   - Recent news, posts, or activities mentioned
-   - Specific challenges or initiatives
-   - Personal details or connections
-   - USE THIS INFORMATION AS THE PRIMARY BASIS FOR PERSONALIZATION
-
-2. **Analyze the input for:**
-   - Company specifics (size, industry, initiatives)
-   - Personal details (role, interests, recent activity)
-   - Trigger events or timely opportunities
-   - Relevant pain points
-
-2. **Select the most relevant:**
-   - Makeshapes case study or metrics
-   - Peer company comparison
-   - Value propositions (2-3 per email)
-   - Opening pattern for Day 1
-
-4. **Maintain progression:**
-   - Day 1: Problem recognition
-   - Day 9-10: New opportunity (panel/podcast)
-   - Day 20: Graceful exit
-
-5. **Quality check:**
-   - No spam trigger words
-   - Specific personalization in each touchpoint
-   - Metrics and peer examples included
-   - Professional but conversational tone
-
-## CRITICAL OUTPUT FORMAT REQUIREMENTS - FOLLOW EXACTLY
-
-🚨 **MANDATORY RULES - NO EXCEPTIONS:**
-
-1. **START YOUR RESPONSE IMMEDIATELY WITH ---BLOCK---**
-2. **NO EXPLANATIONS, NO APOLOGIES, NO INTRODUCTIONS**
-3. **NO JSON FORMAT EVER**
-4. **EXACTLY 7 BLOCKS SEPARATED BY ---BLOCK---**
-5. **NO FIELD NAMES OR LABELS**
-
-**DO NOT OUTPUT JSON!** Output plain text blocks ONLY.
-
-You MUST output exactly 7 text blocks separated by "---BLOCK---" delimiter.
-DO NOT output JSON format. DO NOT include field names like "snippet1" or "email".
-Just output the raw content blocks separated by ---BLOCK---
-
-**YOUR RESPONSE MUST START WITH:** ---BLOCK---
-
-**Block 1:** Subject line only (36-50 characters)
-
-**Block 2:** Day 1 Email
-- Open with personalisation context/event/trigger
-- Make statement in search of problem alignment (relevance)
-- Share reason for reaching out being related to the work we do in this problem area
-- where possible mention a similar company/industry or organisation profile we are supporting or have helped
-- End with exploratory question
-
-**Block 3:** LinkedIn Message (under 300 characters)
-"Hey [Name], I noticed [specific context] and was hoping to connect. [Brief value mention]. Best—Dan"
-
-**Block 4:** Day 5 Bump
-"Any thoughts, [Name]?
-
-Best,
-Dan"
-
-**Block 5:** Day 9-10 Follow-up
-- Start: "A quick follow-up thought here..."
-- Mention Shapeshifters podcast and panel discussions
-- Different angle from Day 1
-- Invite to panel discussion
-
-**Block 6:** Day 13 Bump
-"Hi [Name], Just a friendly bump here. If the panel discussion interests you, I can connect you with Mike who's coordinating it.
-
-P.S. If you're curious about our approach we enable, here's a demo experience you can take for a spin: [https://app.makeshapes.com/s/ltsu/jiz-hei-qcv]
-
-Best,
-Dan"
-
-**Block 7:** Day 20 Breakup
-- Start: "Just wanted to float this to the top of your inbox one last time..."
-- Acknowledge timing may not be right
-- Leave door open for future
-- Professional and understanding tone
-
-## CRITICAL OUTPUT RULES - MUST FOLLOW:
-
-🚨 **FINAL REMINDER - ABSOLUTELY MANDATORY:**
-
-- **YOUR FIRST WORD MUST BE: ---BLOCK---**
-- **NO EXPLANATORY TEXT BEFORE THE BLOCKS**
-- **NO APOLOGIES OR CONTEXT**
-- **DO NOT OUTPUT JSON FORMAT**
-- Start your response with "---BLOCK---" immediately
-- Output ONLY the content, no field names or JSON structure
-- Separate each block with "---BLOCK---" on its own line
-- Write email bodies in plain text with paragraph breaks (double newline)
-- Do NOT include HTML tags - they will be added automatically
-- Do NOT include block numbers, labels, or field names in the output
-- Do NOT wrap the output in JSON or any other format
-
-**EXAMPLE START OF CORRECT RESPONSE:**
----BLOCK---
-Your first subject line here
----BLOCK---
-Your first email content here...
-
-## Example Input → Output
-
-**Input:** "John Smith, VP L&D at Optimum (10,000 employees), rolling out new approach to CX (Customer Experience) to their frontline workforce, specifically mentioning train the trainer as the approached delivery"
-
-**CORRECT Output Format (NOT JSON, just plain text blocks):**
----BLOCK---
-New customer experience launch at Optimum 
----BLOCK---
-Hi John,
-
-I spotted a post you made last week about the new customer experience program being rolled out to your frontline workforce at Optimum. I was particularly curious seeing your mention of the train-the-trainer which was what prompted me to reach out. 
-
-We have been working with large telcos to solve some of the challenges associated with this type of delivery. Specifically complexities that come when needing to support impactful and consistent training across a workforce that bridges retail and call centre environments. 
-
-I'd love to share a little more if you are open to a conversation?
-
-Best,
-Dan
-
----BLOCK---
-Hey John, I noticed the new customer experience program being rolled out at Optimum via Train-the-trainer. Curious to connect. Best—Dan
----BLOCK---
-Any thoughts, John?
-
-Best,
-Dan
----BLOCK---
-A quick follow-up thought here...
-Alongside our new Shapeshifters podcast (https://www.makeshapes.com/shapeshifters), we are pulling together a series of panel discussions with senior learning leaders on topical learning and transformation challenges. 
-Thinking about your past experience and the fact you are leading the Customer experience rollout at Optimum, I thought you would be a great fit. Is this something you would be interested in? 
-Best,
-Dan
----BLOCK---
-Hi John, Just a friendly bump here. If the panel discussion interests you, I can connect you with Mike who's coordinating it.
-
-P.S. If you're curious about our approach, here's a demo experience: https://app.makeshapes.com/s/ltsu/jiz-hei-qcv
-
-Best,
-Dan
----BLOCK---
-Just wanted to float this to the top of your inbox one last time...
-
-I realize the timing might not be right with everything on your plate at Optimum. Rolling out CX at the scale you are is no small feat.
-
-If things change or you'd like to explore how other Telcos have tackled similar challenges, I'm here. 
-
-Wishing you success with the rollout.
-
-Best,
-Dan`
+    const defaultSystemPrompt = buildSystemPrompt({
+      name: getFieldValue('contact'),
+      company: getFieldValue('company'),
+      title: getFieldValue('title'),
+      email: getFieldValue('email'),
+      industry: getFieldValue('industry'),
+      linkedin: getFieldValue('linkedin'),
+    })
 
     setSystemPrompt(defaultSystemPrompt)
     setEditedSystemPrompt(defaultSystemPrompt)
@@ -779,6 +490,12 @@ Dan`
     setIsGenerating(true)
     setError(null)
 
+    // Restored if the generation is cancelled, so the lead is never left in "generating"
+    const previousStatus = lead.status
+    const operationId = `claude:generateContentStream:${crypto.randomUUID()}`
+    setGenerationOperationId(operationId)
+    setStreamedSnippets({})
+
     // Debug: Log when generation starts
     console.log('🚀 Starting content generation for lead:', lead.email)
     console.log('📝 Custom prompt:', customPrompt)
@@ -790,31 +507,8 @@ Dan`
 
     try {
       // Build prompt with file references or base64 data as fallback
-      let userPrompt = customPrompt
-      const fileIds: string[] = []
-
-      if (fileAttachments.length > 0) {
-        userPrompt += '\n\n--- ATTACHED FILES ---\n'
-        fileAttachments.forEach((file, index) => {
-          if (file.file_id) {
-            // Use Files API reference
-            fileIds.push(file.file_id)
-            if (file.type.startsWith('image/')) {
-              userPrompt += `\n[Image ${index + 1}: ${file.name}]\n`
-            } else if (file.type === 'application/pdf') {
-              userPrompt += `\n[PDF ${index + 1}: ${file.name}]\n`
-            }
-          } else if (!file.uploading) {
-            // Fallback to base64 embedding
-            if (file.type.startsWith('image/')) {
-              userPrompt += `\n[Image ${index + 1}: ${file.name}]\n`
-              userPrompt += file.data + '\n'
-            } else if (file.type === 'application/pdf') {
-              userPrompt += `\n[PDF ${index + 1}: ${file.name} - Note: PDF content needs to be extracted separately]\n`
-            }
-          }
-        })
-      }
+      const { note, fileIds } = describeAttachments(fileAttachments)
+      const userPrompt = customPrompt + note
 
       // Create full prompt with system prompt for processing
       const fullPromptWithSystem = `${systemPrompt}\n\n${userPrompt}`
@@ -890,7 +584,10 @@ Dan`
         'email-sequence',
         selectedModel,
         validNumericId,
-        systemPrompt
+        systemPrompt,
+        operationId,
+        (update) =>
+          setStreamedSnippets((prev) => ({ ...prev, [update.field]: update }))
       )
 
       // Debug: Log the raw result from Claude
@@ -902,13 +599,14 @@ Dan`
 
         setContent(result.content)
         onContentUpdate?.(result.content)
+        Promise.all([loadTouchpoints(), loadVariants()]).then(() => onContentSaved?.())
 
         // Enhanced editing: Convert HTML content to plain text for editing (Story 1.5)
         if (useEnhancedEditing) {
           console.log(
             '🔄 [Enhanced Editing] Converting HTML content to plain text...'
           )
-          const plainText = convertFromHtmlContent(result.content)
+          const plainText = convertFromHtmlContent(result.content, sequence)
           setPlainTextContent(plainText)
           setEditingMode('plaintext')
           setShowJsonOutput(false)
@@ -934,6 +632,38 @@ Dan`
           '💾 [ContentGeneration] Content saved to localStorage with key:',
           localStorageKey
         )
+      } else if (result.status === 'cancelled') {
+        console.log(
+          '⏹️ Generation cancelled, restoring lead status to:',
+          previousStatus
+        )
+        onStatusUpdate?.(
+          lead.id,
+          previousStatus === 'generating' ? 'imported' : previousStatus
+        )
+
+        // Stopped mid-stream: keep what was written so it can be edited or regenerated
+        if (result.content) {
+          setContent(result.content)
+          onContentUpdate?.(result.content)
+
+          if (useEnhancedEditing) {
+            setPlainTextContent(convertFromHtmlContent(result.content, sequence))
+            setEditingMode('plaintext')
+            setShowJsonOutput(false)
+          }
+
+          localStorage.setItem(
+            getLocalStorageKey(lead),
+            JSON.stringify({
+              ...result.content,
+              generatedAt: new Date().toISOString(),
+            })
+          )
+          toast.info('Generation stopped - partial output kept')
+        } else {
+          toast.info('Generation cancelled')
+        }
       } else {
         console.error('❌ Generation failed:', result.error)
         setError(result.error || 'Failed to generate content')
@@ -975,10 +705,23 @@ Dan`
       onStatusUpdate?.(lead.id, 'imported')
     } finally {
       setIsGenerating(false)
+      setGenerationOperationId(null)
+      setStreamedSnippets({})
       console.log('🏁 Content generation process completed')
     }
   }
 
+  const cancelGeneration = async () => {
+    if (!generationOperationId || !window.api) return
+
+    console.log('⏹️ Cancelling generation:', generationOperationId)
+    try {
+      await window.api.cancel(generationOperationId)
+    } catch (error) {
+      console.error('Failed to cancel generation:', error)
+    }
+  }
+
   // Custom prompt starts empty - no default initialization
 
   // File handling functions
@@ -1511,7 +1254,7 @@ Dan`
     const raw = content?.[snippetKey as keyof ClaudeResponse] || ''
 
     // Find the snippet configuration to check if it's HTML
-    const snippetConfig = SNIPPETS.find((s) => s.key === snippetKey)
+    const snippetConfig = snippets.find((s) => s.key === snippetKey)
     const isHtmlField = snippetConfig?.isHtml || false
 
     // Only apply HTML formatting to HTML fields
@@ -1529,7 +1272,7 @@ Dan`
     const edited = editedContent[snippetKey as keyof ClaudeResponse]
 
     // Find the snippet configuration to check if it's HTML
-    const snippetConfig = SNIPPETS.find((s) => s.key === snippetKey)
+    const snippetConfig = snippets.find((s) => s.key === snippetKey)
     const isHtmlField = snippetConfig?.isHtml || false
 
     // Only apply HTML formatting to HTML fields
@@ -1537,9 +1280,76 @@ Dan`
       ? ensureHtml(String(edited || ''))
       : String(edited || '')
 
+    storeSnippet(snippetKey, valueToStore)
+    setEditingSnippet(null)
+  }
+
+  // Edits send a touchpoint back to draft, so an approved lead drops back to drafted
+  const refreshApproval = useCallback(async () => {
+    const [byField] = await Promise.all([loadTouchpoints(), loadVariants()])
+    const approved = sequenceFields(sequence).every(
+      (field) => byField[field]?.status === 'approved'
+    )
+    if (!approved && lead.status === 'approved') {
+      onStatusUpdate?.(lead.id, 'drafted')
+      templateService.loadFewShotExamples()
+    }
+    onContentSaved?.()
+  }, [loadTouchpoints, loadVariants, sequence, lead.id, lead.status, onStatusUpdate, onContentSaved])
+
+  const setTouchpointStatus = async (
+    snippet: SnippetConfig,
+    status: NonNullable<GeneratedContentRecord['status']>
+  ) => {
+    const record = touchpoints[snippet.key]
+    if (!record?.id) return false
+
+    if (!(await contentStorage.updateContentStatus(record.id, status))) {
+      toast.error(`Could not update ${snippet.label}`)
+      return false
+    }
+
+    const updated: Partial<Record<SnippetField, GeneratedContentRecord>> = {
+      ...touchpoints,
+      [snippet.key]: { ...record, status },
+    }
+    setTouchpoints(updated)
+
+    const approved = sequenceFields(sequence).every(
+      (field) => updated[field]?.status === 'approved'
+    )
+    if (approved) {
+      onStatusUpdate?.(lead.id, 'approved')
+      toast.success('Every touchpoint approved, ready to export')
+    } else if (lead.status === 'approved') {
+      onStatusUpdate?.(lead.id, 'drafted')
+    }
+    // A sequence approved unedited becomes a few-shot example, and leaves the
+    // pool when it stops being approved, so the next generation sees the change
+    if (approved || lead.status === 'approved') {
+      templateService.loadFewShotExamples()
+    }
+    return true
+  }
+
+  const storeSnippet = (
+    snippetKey: string,
+    valueToStore: string,
+    revision: RevisionInfo = { source: 'manual' }
+  ) => {
+    storeSnippets({ [snippetKey]: valueToStore }, revision)
+  }
+
+  // Replace snippets and save the content to localStorage and the database
+  const storeSnippets = (
+    values: Partial<Record<string, string>>,
+    revision: RevisionInfo = { source: 'manual' }
+  ) => {
+    if (!content) return
+
     const updatedContent = {
       ...content,
-      [snippetKey]: valueToStore,
+      ...values,
     }
 
     setContent(updatedContent)
@@ -1561,16 +1371,13 @@ Dan`
     const numericId = parseInt(String(lead.id))
     if (Number.isFinite(numericId)) {
       contentStorage
-        .persistContentToStorage(
-          String(numericId),
-          updatedContent,
-          1 // touchpoint number
-        )
+        .persistContentToStorage(String(numericId), updatedContent, undefined, sequence, revision)
         .then(() => {
           console.log(
             '✅ Content persisted to database for lead ID:',
             numericId
           )
+          return refreshApproval()
         })
         .catch((error) => {
           console.error('Failed to persist to database:', error)
@@ -1581,8 +1388,6 @@ Dan`
         lead.id
       )
     }
-
-    setEditingSnippet(null)
     toast.success('Content saved')
   }
 
@@ -1634,13 +1439,7 @@ Dan`
       ),
       tags: String((lead as Record<string, unknown>)?.tags || ''),
       industry: String((lead as Record<string, unknown>)?.industry || ''),
-      snippet1: plainTextContent.snippet1,
-      snippet2: plainTextContent.snippet2,
-      snippet3: plainTextContent.snippet3,
-      snippet4: plainTextContent.snippet4,
-      snippet5: plainTextContent.snippet5,
-      snippet6: plainTextContent.snippet6,
-      snippet7: plainTextContent.snippet7,
+      ...plainTextContent,
     }
     setContent(updated)
     onContentUpdate?.(updated)
@@ -1657,15 +1456,189 @@ Dan`
         await contentStorage.persistContentToStorage(
           String(numericId),
           updated,
-          1
+          undefined,
+          sequence,
+          { source: 'manual' }
         )
         console.log('✅ Plain text edits persisted to DB for lead:', numericId)
+        await refreshApproval()
       } catch (err) {
         console.error('Failed to persist plain text edits to DB:', err)
       }
     }
     toast.success('Content saved')
-  }, [lead, onContentUpdate, plainTextContent])
+  }, [lead, onContentUpdate, plainTextContent, sequence, refreshApproval])
+
+  // Ask Claude for a new version of one snippet, with the whole sequence as context
+  const requestRewrite = (
+    field: SnippetField,
+    instruction: string,
+    current: Partial<Record<SnippetField, string>>
+  ) => {
+    const numericId = parseInt(String(lead.id))
+    return contentGenerationService.rewriteSnippet({
+      field,
+      instruction,
+      snippets: current,
+      sequence,
+      leadData: {
+        first_name: getFieldValue('first_name'),
+        last_name: getFieldValue('last_name'),
+        title: getFieldValue('title'),
+        company: getFieldValue('company'),
+        industry: getFieldValue('industry'),
+      },
+      modelId: selectedModel,
+      systemPrompt: systemPrompt || undefined,
+      leadId: Number.isFinite(numericId) ? numericId : undefined,
+    })
+  }
+
+  const rewriteSnippet = async (snippet: SnippetConfig, instruction: string) => {
+    if (!content) return false
+
+    try {
+      const { text, generationRunId } = await requestRewrite(snippet.key, instruction, content)
+      setRewriteHistory((prev) => ({
+        ...prev,
+        [snippet.key]: [...(prev[snippet.key] || []), content[snippet.key]],
+      }))
+      storeSnippet(snippet.key, text, { source: 'rewrite', generationRunId })
+      toast.success(`${snippet.label} rewritten`)
+      return true
+    } catch (error) {
+      toast.error(
+        `Rewrite failed: ${error instanceof Error ? error.message : String(error)}`
+      )
+      return false
+    }
+  }
+
+  const undoRewrite = (snippet: SnippetConfig) => {
+    const history = rewriteHistory[snippet.key] || []
+    if (history.length === 0) return
+
+    setRewriteHistory((prev) => ({
+      ...prev,
+      [snippet.key]: history.slice(0, -1),
+    }))
+    storeSnippet(snippet.key, history[history.length - 1])
+  }
+
+  const generateVariants = async (
+    snippet: SnippetConfig,
+    count: number,
+    instruction?: string
+  ) => {
+    const numericId = parseInt(String(lead.id))
+    if (!content || !Number.isFinite(numericId)) {
+      toast.error('Variants need a saved lead with generated content')
+      return false
+    }
+
+    try {
+      const { variants: alternatives, generationRunId } = await contentGenerationService.generateVariants({
+        field: snippet.key,
+        count,
+        instruction,
+        snippets: content,
+        sequence,
+        leadData: {
+          first_name: getFieldValue('first_name'),
+          last_name: getFieldValue('last_name'),
+          title: getFieldValue('title'),
+          company: getFieldValue('company'),
+          industry: getFieldValue('industry'),
+        },
+        modelId: selectedModel,
+        systemPrompt: systemPrompt || undefined,
+        leadId: numericId,
+      })
+
+      // The current text competes as a variant unless an earlier round already kept it
+      const current = content[snippet.key]
+      const kept = (variants[snippet.key] || []).filter(
+        (variant) => variant.status === 'approved'
+      )
+      const includeCurrent =
+        current && !kept.some((variant) => variant.content === current)
+
+      const stored = await contentStorage.saveVariants({
+        lead_id: numericId,
+        touchpoint_number: snippet.touchpointNumber,
+        content_type: snippet.contentType,
+        snippet_field: snippet.key,
+        contents: includeCurrent ? [current, ...alternatives] : alternatives,
+        generation_run_id: generationRunId,
+      })
+      if (!stored) throw new Error('Variants could not be saved')
+
+      setVariants((prev) => ({ ...prev, [snippet.key]: [...kept, ...stored] }))
+      toast.success(`${alternatives.length} variant(s) of ${snippet.label} ready`)
+      return true
+    } catch (error) {
+      toast.error(
+        `Variant generation failed: ${error instanceof Error ? error.message : String(error)}`
+      )
+      return false
+    }
+  }
+
+  // One kept variant is the winner; a second one goes to the touchpoint's A/B slot
+  const keepVariants = async (snippet: SnippetConfig, ids: number[]) => {
+    const choices = ids
+      .map((id) => (variants[snippet.key] || []).find((variant) => variant.id === id))
+      .filter((variant): variant is GeneratedContentRecord => !!variant)
+    if (choices.length === 0 || (choices.length > 1 && !snippet.variantKey)) {
+      return false
+    }
+
+    const [winner, second] = choices
+    const updated = await contentStorage.keepVariants(
+      String(lead.id),
+      snippet.key,
+      [
+        { id: winner.id!, exported_field: snippet.key },
+        ...(second ? [{ id: second.id!, exported_field: snippet.variantKey! }] : []),
+      ]
+    )
+    if (!updated) {
+      toast.error('Could not save the variant choice')
+      return false
+    }
+
+    setVariants((prev) => ({
+      ...prev,
+      [snippet.key]: updated.filter((variant) => variant.status !== 'rejected'),
+    }))
+    // Without a kept B variant the A/B slot is cleared, so export repeats the winner.
+    // Kept variants are Claude's text as written, not an edit of it.
+    storeSnippets(
+      {
+        [snippet.key]: winner.content,
+        ...(snippet.variantKey ? { [snippet.variantKey]: second?.content || '' } : {}),
+      },
+      { source: 'ai', generationRunId: winner.generation_run_id }
+    )
+    return true
+  }
+
+  // Plain text editing keeps its own undo history; this only fetches the new text
+  const handlePlainTextRewrite = async (
+    field: SnippetField,
+    instruction: string
+  ) => {
+    try {
+      const { text: rewritten } = await requestRewrite(field, instruction, plainTextContent)
+      const isHtml = snippets.find((s) => s.key === field)?.isHtml
+      return isHtml ? htmlToPlainText(rewritten) : rewritten
+    } catch (error) {
+      toast.error(
+        `Rewrite failed: ${error instanceof Error ? error.message : String(error)}`
+      )
+      return null
+    }
+  }
 
   const renderContent = (snippet: SnippetConfig) => {
     const snippetContent = content?.[snippet.key]
@@ -1692,6 +1665,13 @@ Dan`
               </CardDescription>
             </div>
             <div className="flex items-center gap-1">
+              {!isEditing && touchpoints[snippet.key] && (
+                <SnippetApproval
+                  label={snippet.label}
+                  status={touchpoints[snippet.key]!.status || 'draft'}
+                  onChange={(status) => setTouchpointStatus(snippet, status)}
+                />
+              )}
               {!isEditing && (
                 <>
                   <Button
@@ -1751,7 +1731,7 @@ Dan`
                   placeholder="Edit the content here..."
                   aria-label={`Edit ${snippet.label}`}
                 />
-              ) : snippet.key === 'snippet1' ? (
+              ) : snippet.isSubject ? (
                 // Email Subject - single line input
                 <Input
                   value={String(editedContent[snippet.key] || '')}
@@ -1802,6 +1782,21 @@ Dan`
                   {String(displayContent)}
                 </div>
               )}
+              <SnippetRewrite
+                label={snippet.label}
+                onRewrite={(instruction) => rewriteSnippet(snippet, instruction)}
+                onUndo={() => undoRewrite(snippet)}
+                canUndo={(rewriteHistory[snippet.key] || []).length > 0}
+              />
+              <SnippetVariants
+                label={snippet.label}
+                variants={variants[snippet.key] || []}
+                canKeepTwo={!!snippet.variantKey}
+                onGenerate={(count, instruction) =>
+                  generateVariants(snippet, count, instruction)
+                }
+                onKeep={(ids) => keepVariants(snippet, ids)}
+              />
             </div>
           )}
         </CardContent>
@@ -1855,6 +1850,46 @@ Dan`
               Creating personalized email sequence for{' '}
               {getFieldValue('contact') || 'this lead'}
             </p>
+            {generationOperationId && (
+              <Button
+                variant="outline"
+                size="sm"
+                className="mt-4 gap-2"
+                onClick={cancelGeneration}
+              >
+                <X className="h-4 w-4" />
+                {Object.keys(streamedSnippets).length > 0 ? 'Stop' : 'Cancel'}
+              </Button>
+            )}
+            {Object.keys(streamedSnippets).length > 0 && (
+              <div className="mt-6 space-y-3 text-left">
+                {snippets.filter((snippet) => streamedSnippets[snippet.key]).map(
+                  (snippet) => {
+                    const streamed = streamedSnippets[snippet.key]!
+                    return (
+                      <div key={snippet.key} className="border rounded p-3">
+                        <div className="flex items-center gap-2 mb-1">
+                          {streamed.complete ? (
+                            <CheckCircle className="h-3 w-3 text-green-600" />
+                          ) : (
+                            <Loader2 className="h-3 w-3 animate-spin" />
+                          )}
+                          <span className="text-sm font-medium">
+                            {snippet.label}
+                          </span>
+                          <Badge variant="outline" className="text-xs">
+                            {snippet.timeline}
+                          </Badge>
+                        </div>
+                        <p className="text-sm text-muted-foreground whitespace-pre-wrap">
+                          {streamed.text}
+                        </p>
+                      </div>
+                    )
+                  }
+                )}
+              </div>
+            )}
           </div>
         )}
 
@@ -1897,15 +1932,7 @@ Dan`
 
                     // Enhanced editing: Reset plain text content
                     if (useEnhancedEditing) {
-                      setPlainTextContent({
-                        snippet1: '',
-                        snippet2: '',
-                        snippet3: '',
-                        snippet4: '',
-                        snippet5: '',
-                        snippet6: '',
-                        snippet7: '',
-                      })
+                      setPlainTextContent(emptySnippets(sequence))
                       setEditingMode('plaintext')
                       setShowJsonOutput(false)
                     }
@@ -1944,9 +1971,12 @@ Dan`
                   <PlainTextEditor
                     content={plainTextContent}
                     onChange={handlePlainTextContentChange}
+                    sequence={sequence}
+                    onRewrite={handlePlainTextRewrite}
+                    lead={lintLead}
                   />
                 ) : (
-                  <div className="space-y-4">{SNIPPETS.map(renderContent)}</div>
+                  <div className="space-y-4">{snippets.map(renderContent)}</div>
                 )}
                 {/* Persist bar for plaintext mode */}
                 {editingMode === 'plaintext' && (
@@ -1959,7 +1989,7 @@ Dan`
                 )}
               </div>
             ) : (
-              <div className="space-y-4">{SNIPPETS.map(renderContent)}</div>
+              <div className="space-y-4">{snippets.map(renderContent)}</div>
             )}
 
             {/* Approval and JSON Output Section */}
@@ -1987,7 +2017,7 @@ Dan`
                           </div>
 
                           {/* HTML Source for each snippet */}
-                          {SNIPPETS.filter((snippet) => snippet.isHtml).map(
+                          {snippets.filter((snippet) => snippet.isHtml).map(
                             (snippet) => {
                               const displayContent =
                                 editingSnippet === snippet.key
@@ -2043,7 +2073,7 @@ Dan`
                       </div>
 
                       {/* HTML Source for each snippet */}
-                      {SNIPPETS.filter((snippet) => snippet.isHtml).map(
+                      {snippets.filter((snippet) => snippet.isHtml).map(
                         (snippet) => {
                           const displayContent =
                             editingSnippet === snippet.key
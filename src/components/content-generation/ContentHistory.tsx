@@ -0,0 +1,206 @@
+/**
+ * Revision history of a lead's touchpoints: every saved version with who
+ * wrote it, a word diff against the version before it, and a revert action.
+ */
+
+import { useCallback, useEffect, useMemo, useState } from 'react'
+import { Badge } from '@/components/ui/badge'
+import { Button } from '@/components/ui/button'
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from '@/components/ui/card'
+import { toast } from 'sonner'
+import { ChevronDown, ChevronUp, History, Loader2, RotateCcw } from 'lucide-react'
+import { contentStorage } from '@/utils/contentStorage'
+import { htmlToPlainText } from '@/utils/contentConverter'
+import { diffWords } from '@/utils/wordDiff'
+import { snippetField } from '@/utils/sequenceDefinition'
+import type { SequenceTouchpoint } from '@/utils/sequenceDefinition'
+import type { ContentRevisionRecord, RevisionSource } from '@/types/api'
+
+const SOURCE_LABELS: Record<RevisionSource, string> = {
+  ai: 'AI',
+  manual: 'Manual',
+  rewrite: 'Rewrite',
+}
+
+interface ContentHistoryProps {
+  leadId: string
+  sequence: SequenceTouchpoint[]
+  // Bump to reload the history after content was saved
+  refreshKey?: number
+  // Called after a revert changed a touchpoint, so the editor can reload
+  onReverted?: () => void
+}
+
+function RevisionDiff({ before, after }: { before: string; after: string }) {
+  const parts = useMemo(
+    () => diffWords(htmlToPlainText(before), htmlToPlainText(after)),
+    [before, after]
+  )
+
+  return (
+    <p className="whitespace-pre-wrap text-sm">
+      {parts.map((part, index) =>
+        part.type === 'same' ? (
+          <span key={index}>{part.text}</span>
+        ) : part.type === 'added' ? (
+          <ins key={index} className="bg-green-100 text-green-900 no-underline">
+            {part.text}
+          </ins>
+        ) : (
+          <del key={index} className="bg-red-100 text-red-900">
+            {part.text}
+          </del>
+        )
+      )}
+    </p>
+  )
+}
+
+export function ContentHistory({
+  leadId,
+  sequence,
+  refreshKey = 0,
+  onReverted,
+}: ContentHistoryProps) {
+  const [isOpen, setIsOpen] = useState(false)
+  const [revisions, setRevisions] = useState<ContentRevisionRecord[]>([])
+  const [isLoading, setIsLoading] = useState(false)
+  const [revertingId, setRevertingId] = useState<number | null>(null)
+
+  const loadRevisions = useCallback(async () => {
+    setIsLoading(true)
+    try {
+      setRevisions(await contentStorage.getRevisions(leadId))
+    } finally {
+      setIsLoading(false)
+    }
+  }, [leadId])
+
+  useEffect(() => {
+    if (isOpen) loadRevisions()
+  }, [isOpen, loadRevisions, refreshKey])
+
+  // Revisions arrive newest first; group them per touchpoint in sequence order
+  const groups = useMemo(
+    () =>
+      sequence
+        .map((touchpoint) => ({
+          touchpoint,
+          revisions: revisions.filter(
+            (revision) => revision.snippet_field === snippetField(touchpoint.slot)
+          ),
+        }))
+        .filter((group) => group.revisions.length > 0),
+    [sequence, revisions]
+  )
+
+  const revert = async (revision: ContentRevisionRecord) => {
+    setRevertingId(revision.id!)
+    try {
+      const result = await contentStorage.revertRevision(revision.id!)
+      if (result === false) {
+        toast.error('Could not revert the content')
+        return
+      }
+      if (result === null) {
+        toast.info('The touchpoint already has this text')
+        return
+      }
+      toast.success('Content reverted')
+      onReverted?.()
+      await loadRevisions()
+    } finally {
+      setRevertingId(null)
+    }
+  }
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-center justify-between">
+          <div>
+            <CardTitle className="text-lg flex items-center gap-2">
+              <History className="h-4 w-4" />
+              Content History
+            </CardTitle>
+            <CardDescription>
+              Every saved version of each touchpoint, with what changed
+            </CardDescription>
+          </div>
+          <Button
+            variant="ghost"
+            size="sm"
+            onClick={() => setIsOpen(!isOpen)}
+            aria-label={isOpen ? 'Hide content history' : 'Show content history'}
+          >
+            {isOpen ? <ChevronUp className="h-4 w-4" /> : <ChevronDown className="h-4 w-4" />}
+          </Button>
+        </div>
+      </CardHeader>
+
+      {isOpen && (
+        <CardContent className="space-y-4">
+          {isLoading && revisions.length === 0 ? (
+            <div className="flex items-center gap-2 text-sm text-muted-foreground">
+              <Loader2 className="h-3 w-3 animate-spin" />
+              Loading history...
+            </div>
+          ) : groups.length === 0 ? (
+            <p className="text-sm text-muted-foreground">
+              No saved versions yet.
+            </p>
+          ) : (
+            groups.map(({ touchpoint, revisions: fieldRevisions }) => (
+              <div key={touchpoint.slot} className="space-y-2">
+                <h4 className="text-sm font-medium">{touchpoint.label}</h4>
+                {fieldRevisions.map((revision, index) => {
+                  const previous = fieldRevisions[index + 1]
+                  return (
+                    <div key={revision.id} className="space-y-2 rounded border p-2">
+                      <div className="flex flex-wrap items-center gap-2 text-xs text-muted-foreground">
+                        <Badge variant="outline">{SOURCE_LABELS[revision.source]}</Badge>
+                        {revision.author && <span>{revision.author}</span>}
+                        <span>
+                          {revision.created_at
+                            ? new Date(revision.created_at).toLocaleString()
+                            : ''}
+                        </span>
+                        {revision.reverted_from && (
+                          <span>Reverted to version #{revision.reverted_from}</span>
+                        )}
+                        <Button
+                          variant="outline"
+                          size="sm"
+                          className="ml-auto h-7"
+                          onClick={() => revert(revision)}
+                          disabled={index === 0 || revertingId !== null}
+                          aria-label={`Revert ${touchpoint.label} to version #${revision.id}`}
+                        >
+                          {revertingId === revision.id ? (
+                            <Loader2 className="h-3 w-3 mr-1 animate-spin" />
+                          ) : (
+                            <RotateCcw className="h-3 w-3 mr-1" />
+                          )}
+                          {index === 0 ? 'Current' : 'Revert'}
+                        </Button>
+                      </div>
+                      <RevisionDiff before={previous?.content || ''} after={revision.content} />
+                    </div>
+                  )
+                })}
+              </div>
+            ))
+          )}
+        </CardContent>
+      )}
+    </Card>
+  )
+}
+
+export default ContentHistory
@@ -10,11 +10,13 @@ import { Badge } from '@/components/ui/badge'
 import { Loader2, FileCode, AlertCircle, CheckCircle } from 'lucide-react'
 import {
   type PlainTextContent,
+  type SenderSignature,
   convertToHtmlContent,
   validatePlainText,
 } from '@/utils/contentConverter'
 import { TemplateService } from '@/services/templateService'
 import type { ClaudeResponse } from '@/services/claudeService'
+import type { SequenceTouchpoint } from '@/utils/sequenceDefinition'
 
 interface ConversionButtonProps {
   plainTextContent: PlainTextContent
@@ -24,6 +26,8 @@ interface ConversionButtonProps {
   onStatusChange?: () => void
   disabled?: boolean
   className?: string
+  sequence?: SequenceTouchpoint[] // touchpoint layout; defaults to the bundled sequence
+  sender?: SenderSignature | null // signs each email body; unsigned without one
 }
 
 interface ConversionState {
@@ -41,6 +45,8 @@ export function ConversionButton({
   onStatusChange,
   disabled = false,
   className = '',
+  sequence,
+  sender,
 }: ConversionButtonProps) {
   const [state, setState] = useState<ConversionState>({
     isConverting: false,
@@ -60,7 +66,7 @@ export function ConversionButton({
     try {
       // Step 1: Validate plain text content first
       console.log('🔍 [ConversionButton] Validating plain text content...')
-      const plainTextValidation = validatePlainText(plainTextContent)
+      const plainTextValidation = validatePlainText(plainTextContent, sequence)
 
       if (!plainTextValidation.isValid) {
         const errorMessages = plainTextValidation.errors.map(
@@ -78,7 +84,12 @@ export function ConversionButton({
 
       // Step 2: Convert plain text to HTML format
       console.log('🔄 [ConversionButton] Converting plain text to HTML...')
-      const htmlContent = convertToHtmlContent(plainTextContent, leadData)
+      const htmlContent = convertToHtmlContent(
+        plainTextContent,
+        leadData,
+        sequence,
+        sender
+      )
       console.log('✅ [ConversionButton] Conversion completed')
 
       // Step 3: Run full HTML validation using existing templateService logic
@@ -86,7 +97,8 @@ export function ConversionButton({
       const templateService = new TemplateService()
       const isHtmlValid = templateService.validateGeneratedContent(
         htmlContent,
-        'email-sequence'
+        'email-sequence',
+        sequence
       )
 
       if (!isHtmlValid) {
@@ -131,7 +143,7 @@ export function ConversionButton({
         htmlValidationErrors: ['Unexpected error during conversion'],
       }))
     }
-  }, [plainTextContent, leadData, onConversionComplete, onShowJson])
+  }, [plainTextContent, leadData, onConversionComplete, onShowJson, sequence, sender])
 
   const handleReset = useCallback(() => {
     setState({
@@ -0,0 +1,202 @@
+/**
+ * Audit trail of a lead's generation calls: the prompt, system prompt, files,
+ * model, raw response and parsed output of each, for debugging an output or
+ * sending the same request again.
+ */
+
+import { useCallback, useEffect, useState } from 'react'
+import {
+  Sheet,
+  SheetContent,
+  SheetDescription,
+  SheetHeader,
+  SheetTitle,
+} from '@/components/ui/sheet'
+import { Badge } from '@/components/ui/badge'
+import { Button } from '@/components/ui/button'
+import { toast } from 'sonner'
+import { Copy, FileSearch, Loader2 } from 'lucide-react'
+import type { GenerationRunRecord, GenerationRunStatus } from '@/types/api'
+
+const STATUS_VARIANTS: Record<GenerationRunStatus, 'secondary' | 'destructive' | 'outline'> = {
+  succeeded: 'secondary',
+  failed: 'destructive',
+  partial: 'outline',
+}
+
+interface GenerationDetailsProps {
+  leadId: number
+  // Bump to reload the runs after content was generated
+  refreshKey?: number
+}
+
+// Stored JSON, indented for reading; left as is if it does not parse
+function formatJson(value?: string | null): string {
+  if (!value) return ''
+  try {
+    return JSON.stringify(JSON.parse(value), null, 2)
+  } catch {
+    return value
+  }
+}
+
+function RunSection({ title, children }: { title: string; children?: string | null }) {
+  if (!children) return null
+
+  return (
+    <details className="rounded border">
+      <summary className="cursor-pointer px-3 py-2 text-sm font-medium">{title}</summary>
+      <pre className="max-h-96 overflow-auto whitespace-pre-wrap break-words border-t bg-muted/40 p-3 text-xs">
+        {children}
+      </pre>
+    </details>
+  )
+}
+
+export function GenerationDetails({ leadId, refreshKey = 0 }: GenerationDetailsProps) {
+  const [isOpen, setIsOpen] = useState(false)
+  const [runs, setRuns] = useState<GenerationRunRecord[]>([])
+  const [selectedId, setSelectedId] = useState<number | null>(null)
+  const [isLoading, setIsLoading] = useState(false)
+
+  const loadRuns = useCallback(async () => {
+    setIsLoading(true)
+    try {
+      const response = await window.api.generationRuns.getForLead(leadId)
+      if (!response.success) {
+        console.error('Failed to load generation runs:', response.error)
+        return
+      }
+      setRuns(response.data)
+      // Start on the run the current touchpoints came from
+      const current = response.data.find((run) => run.is_current) || response.data[0]
+      setSelectedId(current?.id ?? null)
+    } finally {
+      setIsLoading(false)
+    }
+  }, [leadId])
+
+  useEffect(() => {
+    if (isOpen) loadRuns()
+  }, [isOpen, loadRuns, refreshKey])
+
+  const selected = runs.find((run) => run.id === selectedId)
+
+  const copyRequest = async (run: GenerationRunRecord) => {
+    try {
+      await navigator.clipboard.writeText(formatJson(run.request))
+      toast.success('Request copied')
+    } catch (error) {
+      console.error('Failed to copy request:', error)
+      toast.error('Could not copy the request')
+    }
+  }
+
+  return (
+    <>
+      <Button variant="outline" size="sm" onClick={() => setIsOpen(true)}>
+        <FileSearch className="mr-2 h-4 w-4" />
+        Show generation details
+      </Button>
+
+      <Sheet open={isOpen} onOpenChange={setIsOpen}>
+        <SheetContent side="right" className="min-w-[640px] overflow-y-auto">
+          <SheetHeader>
+            <SheetTitle>Generation Details</SheetTitle>
+            <SheetDescription>
+              What was sent to Claude for this lead and what came back
+            </SheetDescription>
+          </SheetHeader>
+
+          <div className="space-y-4 p-4">
+            {isLoading && runs.length === 0 ? (
+              <div className="flex items-center gap-2 text-sm text-muted-foreground">
+                <Loader2 className="h-3 w-3 animate-spin" />
+                Loading generation runs...
+              </div>
+            ) : runs.length === 0 ? (
+              <p className="text-sm text-muted-foreground">
+                No generation runs recorded for this lead.
+              </p>
+            ) : (
+              <>
+                <div className="space-y-1">
+                  {runs.map((run) => (
+                    <button
+                      key={run.id}
+                      type="button"
+                      onClick={() => setSelectedId(run.id!)}
+                      className={`flex w-full items-center gap-2 rounded border px-3 py-2 text-left text-xs ${
+                        run.id === selectedId ? 'border-primary bg-muted' : ''
+                      }`}
+                    >
+                      <span>{run.created_at ? new Date(run.created_at).toLocaleString() : ''}</span>
+                      <span className="text-muted-foreground">{run.model_id}</span>
+                      <span className="text-muted-foreground">{run.operation}</span>
+                      <Badge variant={STATUS_VARIANTS[run.status]} className="ml-auto">
+                        {run.status}
+                      </Badge>
+                      {run.is_current && <Badge>Current</Badge>}
+                    </button>
+                  ))}
+                </div>
+
+                {selected && (
+                  <div className="space-y-3">
+                    <div className="grid grid-cols-2 gap-2 text-xs">
+                      <div>
+                        <span className="text-muted-foreground">Model: </span>
+                        {selected.model_id}
+                      </div>
+                      <div>
+                        <span className="text-muted-foreground">Duration: </span>
+                        {selected.duration_ms != null ? `${(selected.duration_ms / 1000).toFixed(1)}s` : 'n/a'}
+                      </div>
+                      <div>
+                        <span className="text-muted-foreground">Tokens: </span>
+                        {selected.input_tokens.toLocaleString()} in, {selected.output_tokens.toLocaleString()} out
+                      </div>
+                      <div>
+                        <span className="text-muted-foreground">Cache: </span>
+                        {selected.cache_read_input_tokens.toLocaleString()} read,{' '}
+                        {selected.cache_creation_input_tokens.toLocaleString()} written
+                      </div>
+                      {selected.file_ids.length > 0 && (
+                        <div className="col-span-2 break-all">
+                          <span className="text-muted-foreground">Files: </span>
+                          {selected.file_ids.join(', ')}
+                        </div>
+                      )}
+                    </div>
+
+                    {selected.error && (
+                      <p className="rounded border border-red-200 bg-red-50 p-2 text-xs text-red-700">
+                        {selected.error}
+                      </p>
+                    )}
+
+                    <RunSection title="System prompt">{selected.system_prompt}</RunSection>
+                    <RunSection title="Shared instructions">{selected.prompt_prefix}</RunSection>
+                    <RunSection title="Lead prompt">{selected.prompt}</RunSection>
+                    <RunSection title="Raw response">{formatJson(selected.raw_response)}</RunSection>
+                    <RunSection title="Parsed output">{formatJson(selected.parsed_output)}</RunSection>
+                    <RunSection title="Request">{formatJson(selected.request)}</RunSection>
+
+                    {selected.request && (
+                      <Button variant="outline" size="sm" onClick={() => copyRequest(selected)}>
+                        <Copy className="mr-2 h-4 w-4" />
+                        Copy request JSON
+                      </Button>
+                    )}
+                  </div>
+                )}
+              </>
+            )}
+          </div>
+        </SheetContent>
+      </Sheet>
+    </>
+  )
+}
+
+export default GenerationDetails
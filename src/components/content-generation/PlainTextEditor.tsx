@@ -3,26 +3,53 @@
  * Story 1.5: Enhanced Content Editing Workflow with Plain Text UI
  */
 
-import { useState, useCallback, useEffect, useRef } from 'react'
+import { useState, useCallback, useEffect, useMemo, useRef } from 'react'
 import { Input } from '@/components/ui/input'
 import { Textarea } from '@/components/ui/textarea'
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
 import { Badge } from '@/components/ui/badge'
-import { AlertCircle } from 'lucide-react'
+import { AlertCircle, AlertTriangle, Info } from 'lucide-react'
 import {
   type PlainTextContent,
   type LightValidationResult,
   validatePlainText,
 } from '@/utils/contentConverter'
+import {
+  describeLengthLimits,
+  resolveSequence,
+  snippetField,
+  type SequenceTouchpoint,
+  type SnippetField,
+} from '@/utils/sequenceDefinition'
+import {
+  lintContent,
+  type LintIssue,
+  type LintLead,
+  type LintSeverity,
+} from '@/utils/contentLinter'
+import { useContentLintConfig } from '@/hooks/useContentLintConfig'
+import SnippetRewrite from './SnippetRewrite'
+
+const LINT_STYLES: Record<LintSeverity, { icon: typeof AlertCircle; className: string }> = {
+  error: { icon: AlertCircle, className: 'text-destructive' },
+  warning: { icon: AlertTriangle, className: 'text-amber-600' },
+  info: { icon: Info, className: 'text-muted-foreground' },
+}
 
 interface PlainTextEditorProps {
   content: PlainTextContent
-  onChange: (field: keyof PlainTextContent, value: string) => void
+  onChange: (field: SnippetField, value: string) => void
+  // Touchpoints to edit; the default sequence when omitted
+  sequence?: SequenceTouchpoint[]
+  // Rewrites one field; resolves to its new plain text, or null when the rewrite failed
+  onRewrite?: (field: SnippetField, instruction: string) => Promise<string | null>
+  // Lead the content is written to, so the linter can check personalization
+  lead?: LintLead
   className?: string
 }
 
 interface FieldConfig {
-  key: keyof PlainTextContent
+  key: SnippetField
   label: string
   description: string
   timeline: string
@@ -32,77 +59,56 @@ interface FieldConfig {
   minLength?: number
 }
 
-const FIELD_CONFIGS: FieldConfig[] = [
-  {
-    key: 'snippet1',
-    label: 'Email Subject',
-    description: 'Day 1 - Initial outreach subject line',
-    timeline: 'Day 1',
-    isSingleLine: true,
-    placeholder: 'Enter subject line (36-50 characters)...',
-    minLength: 36,
-    maxLength: 50,
-  },
-  {
-    key: 'snippet2',
-    label: 'Email Body',
-    description: 'Day 1 - Initial outreach email body',
-    timeline: 'Day 1',
-    isSingleLine: false,
-    placeholder: 'Enter email body...\n\nUse line breaks for paragraphs.',
-  },
-  {
-    key: 'snippet3',
-    label: 'LinkedIn Message',
-    description: 'Day 2-3 - LinkedIn connection message',
-    timeline: 'Day 2-3',
-    isSingleLine: true,
-    placeholder: 'Enter LinkedIn message (max 300 characters)...',
-    maxLength: 300,
-  },
-  {
-    key: 'snippet4',
-    label: 'Bump Email',
-    description: 'Day 7 - Follow-up email',
-    timeline: 'Day 7',
-    isSingleLine: false,
-    placeholder: 'Enter bump email content...',
-  },
-  {
-    key: 'snippet5',
-    label: 'Follow-up Email',
-    description: 'Day 12 - Second follow-up email',
-    timeline: 'Day 12',
-    isSingleLine: false,
-    placeholder: 'Enter follow-up email content...',
-  },
-  {
-    key: 'snippet6',
-    label: 'Bump Email 2',
-    description: 'Day 17 - Third follow-up email',
-    timeline: 'Day 17',
-    isSingleLine: false,
-    placeholder: 'Enter second bump email content...',
-  },
-  {
-    key: 'snippet7',
-    label: 'Breakup Email',
-    description: 'Day 25 - Final breakup email',
-    timeline: 'Day 25',
-    isSingleLine: false,
-    placeholder: 'Enter breakup email content...',
-  },
-]
+function toFieldConfig(touchpoint: SequenceTouchpoint): FieldConfig {
+  const limits = describeLengthLimits(touchpoint)
+  const channel = touchpoint.channel === 'linkedin' ? 'LinkedIn' : 'Email'
+  const name =
+    touchpoint.part === 'subject' ? 'subject line' : touchpoint.label.toLowerCase()
+
+  return {
+    key: snippetField(touchpoint.slot),
+    label: touchpoint.label,
+    description: `Day ${touchpoint.dayOffset} - ${channel} ${touchpoint.part === 'subject' ? 'subject line' : 'message'}`,
+    timeline: `Day ${touchpoint.dayOffset}`,
+    isSingleLine: touchpoint.format === 'text',
+    placeholder:
+      touchpoint.format === 'text'
+        ? `Enter ${name}${limits ? ` (${limits})` : ''}...`
+        : `Enter ${name}...\n\nUse line breaks for paragraphs.`,
+    minLength: touchpoint.minLength,
+    maxLength: touchpoint.maxLength,
+  }
+}
 
 export function PlainTextEditor({
   content,
   onChange,
+  sequence,
+  onRewrite,
+  lead,
   className = '',
 }: PlainTextEditorProps) {
+  const fieldConfigs = useMemo(
+    () => resolveSequence(sequence).map(toFieldConfig),
+    [sequence]
+  )
+  const lintConfig = useContentLintConfig()
+  const lintIssues = useMemo(() => {
+    const byField: Partial<Record<SnippetField, LintIssue[]>> = {}
+    lintContent(content, sequence, lead, lintConfig).forEach((issue) => {
+      byField[issue.field] = [...(byField[issue.field] || []), issue]
+    })
+    return byField
+  }, [content, sequence, lead, lintConfig])
+
   const [validation, setValidation] = useState<LightValidationResult>({
     isValid: true,
     errors: [],
   })
+  // Text each field had before its rewrites, most recent last
+  const [rewriteHistory, setRewriteHistory] = useState<
+    Partial<Record<SnippetField, string[]>>
+  >({})
 
   // 🐛 DEBUG: Add tracking refs
   const renderCount = useRef(0)
@@ -121,7 +127,7 @@ export function PlainTextEditor({
       contentKeys: Object.keys(content),
       contentLengths: Object.keys(content).reduce(
         (acc, key) => {
-          acc[key] = content[key as keyof PlainTextContent]?.length || 0
+          acc[key] = content[key as SnippetField]?.length || 0
           return acc
         },
         {} as Record<string, number>
@@ -129,13 +135,13 @@ export function PlainTextEditor({
       timestamp: Date.now(),
     })
 
-    lastProps.current = { content, onChange, className }
+    lastProps.current = { content, onChange, sequence, onRewrite, lead, className }
   })
 
   // Handle field value change - updates parent state directly
   const handleFieldChange = useCallback(
     (
-      field: keyof PlainTextContent,
+      field: SnippetField,
       value: string,
       event?: React.ChangeEvent<HTMLInputElement | HTMLTextAreaElement>
     ) => {
@@ -179,12 +185,44 @@ export function PlainTextEditor({
     [onChange, content]
   )
 
+  const handleRewrite = useCallback(
+    async (field: SnippetField, instruction: string) => {
+      if (!onRewrite) return false
+
+      const previous = content[field] || ''
+      const rewritten = await onRewrite(field, instruction)
+      if (rewritten === null) return false
+
+      setRewriteHistory((prev) => ({
+        ...prev,
+        [field]: [...(prev[field] || []), previous],
+      }))
+      onChange(field, rewritten)
+      return true
+    },
+    [onRewrite, onChange, content]
+  )
+
+  const handleUndoRewrite = useCallback(
+    (field: SnippetField) => {
+      const history = rewriteHistory[field] || []
+      if (history.length === 0) return
+
+      setRewriteHistory((prev) => ({ ...prev, [field]: history.slice(0, -1) }))
+      onChange(field, history[history.length - 1])
+    },
+    [rewriteHistory, onChange]
+  )
+
   // Validate content and update validation state
-  const validateContent = useCallback((newContent: PlainTextContent) => {
-    const result = validatePlainText(newContent)
-    setValidation(result)
-    return result
-  }, [])
+  const validateContent = useCallback(
+    (newContent: PlainTextContent) => {
+      const result = validatePlainText(newContent, sequence)
+      setValidation(result)
+      return result
+    },
+    [sequence]
+  )
 
   // Validate content whenever it changes
   useEffect(() => {
@@ -201,7 +239,7 @@ export function PlainTextEditor({
 
   // Get character count info for field
   const getCharacterInfo = useCallback(
-    (field: keyof PlainTextContent, config: FieldConfig) => {
+    (field: SnippetField, config: FieldConfig) => {
       const value = content[field] || ''
       const length = value.length
       const error = getFieldError(field)
@@ -231,7 +269,7 @@ export function PlainTextEditor({
 
   return (
     <div className={`space-y-4 ${className}`}>
-      {FIELD_CONFIGS.map((config) => {
+      {fieldConfigs.map((config) => {
         const value = content[config.key] || ''
         const error = getFieldError(config.key)
         const charInfo = getCharacterInfo(config.key, config)
@@ -271,6 +309,19 @@ export function PlainTextEditor({
                   {error.message}
                 </p>
               )}
+              {(lintIssues[config.key] || []).map((issue) => {
+                const { icon: Icon, className: color } = LINT_STYLES[issue.severity]
+                return (
+                  <p
+                    key={issue.rule}
+                    className={`text-xs flex items-center gap-1 ${color}`}
+                    data-severity={issue.severity}
+                  >
+                    <Icon className="h-3 w-3" />
+                    {issue.message}
+                  </p>
+                )
+              })}
             </CardHeader>
             <CardContent>
               {config.isSingleLine ? (
@@ -293,6 +344,19 @@ export function PlainTextEditor({
                   className={`min-h-[120px] resize-y ${error ? 'border-destructive' : ''}`}
                 />
               )}
+              {onRewrite && (
+                <div className="mt-2">
+                  <SnippetRewrite
+                    label={config.label}
+                    onRewrite={(instruction) =>
+                      handleRewrite(config.key, instruction)
+                    }
+                    onUndo={() => handleUndoRewrite(config.key)}
+                    canUndo={(rewriteHistory[config.key] || []).length > 0}
+                    disabled={!value.trim()}
+                  />
+                </div>
+              )}
             </CardContent>
           </Card>
         )
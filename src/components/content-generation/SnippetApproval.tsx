@@ -0,0 +1,76 @@
+/**
+ * Review state of one touchpoint: its draft/approved/rejected badge with
+ * approve and reject actions. Export waits until every touchpoint is approved.
+ */
+
+import { useState } from 'react'
+import { Badge } from '@/components/ui/badge'
+import { Button } from '@/components/ui/button'
+import { Check, Loader2, X } from 'lucide-react'
+import type { GeneratedContentRecord } from '@/types/api'
+
+type ContentStatus = NonNullable<GeneratedContentRecord['status']>
+
+const STATUS_BADGES: Record<ContentStatus, { label: string; variant: 'outline' | 'default' | 'destructive' }> = {
+  draft: { label: 'Draft', variant: 'outline' },
+  approved: { label: 'Approved', variant: 'default' },
+  rejected: { label: 'Rejected', variant: 'destructive' },
+}
+
+interface SnippetApprovalProps {
+  label: string
+  status: ContentStatus
+  // Resolves to false when the status could not be saved
+  onChange: (status: ContentStatus) => Promise<boolean>
+  disabled?: boolean
+}
+
+export function SnippetApproval({
+  label,
+  status,
+  onChange,
+  disabled = false,
+}: SnippetApprovalProps) {
+  const [isSaving, setIsSaving] = useState(false)
+  const badge = STATUS_BADGES[status]
+
+  const update = async (next: ContentStatus) => {
+    setIsSaving(true)
+    try {
+      await onChange(next)
+    } finally {
+      setIsSaving(false)
+    }
+  }
+
+  return (
+    <div className="flex items-center gap-1">
+      <Badge variant={badge.variant} className="text-xs">
+        {isSaving && <Loader2 className="h-3 w-3 mr-1 animate-spin" />}
+        {badge.label}
+      </Badge>
+      <Button
+        variant="ghost"
+        size="sm"
+        onClick={() => update('approved')}
+        disabled={disabled || isSaving || status === 'approved'}
+        className="h-8 w-8 p-0"
+        aria-label={`Approve ${label}`}
+      >
+        <Check className="h-3 w-3" />
+      </Button>
+      <Button
+        variant="ghost"
+        size="sm"
+        onClick={() => update('rejected')}
+        disabled={disabled || isSaving || status === 'rejected'}
+        className="h-8 w-8 p-0"
+        aria-label={`Reject ${label}`}
+      >
+        <X className="h-3 w-3" />
+      </Button>
+    </div>
+  )
+}
+
+export default SnippetApproval
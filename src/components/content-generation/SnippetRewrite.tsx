@@ -0,0 +1,121 @@
+/**
+ * Per-snippet rewrite control: asks Claude to rewrite one snippet with a
+ * short instruction and offers an undo back to the previous text.
+ */
+
+import { useState } from 'react'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Loader2, Undo2, Wand2 } from 'lucide-react'
+
+const QUICK_INSTRUCTIONS = ['Shorter', 'Less salesy', 'More casual', 'More specific']
+
+interface SnippetRewriteProps {
+  label: string
+  // Resolves to false when the rewrite failed, keeping the instruction open
+  onRewrite: (instruction: string) => Promise<boolean>
+  onUndo?: () => void
+  canUndo?: boolean
+  disabled?: boolean
+}
+
+export function SnippetRewrite({
+  label,
+  onRewrite,
+  onUndo,
+  canUndo = false,
+  disabled = false,
+}: SnippetRewriteProps) {
+  const [isOpen, setIsOpen] = useState(false)
+  const [instruction, setInstruction] = useState('')
+  const [isRewriting, setIsRewriting] = useState(false)
+
+  const rewrite = async (text: string) => {
+    if (!text.trim()) return
+
+    setIsRewriting(true)
+    try {
+      if (await onRewrite(text.trim())) {
+        setInstruction('')
+        setIsOpen(false)
+      }
+    } finally {
+      setIsRewriting(false)
+    }
+  }
+
+  return (
+    <div className="space-y-2">
+      <div className="flex items-center gap-2">
+        <Button
+          variant="ghost"
+          size="sm"
+          onClick={() => setIsOpen(!isOpen)}
+          disabled={disabled || isRewriting}
+          aria-label={`Rewrite ${label}`}
+        >
+          {isRewriting ? (
+            <Loader2 className="h-3 w-3 mr-1 animate-spin" />
+          ) : (
+            <Wand2 className="h-3 w-3 mr-1" />
+          )}
+          Rewrite
+        </Button>
+        {canUndo && (
+          <Button
+            variant="ghost"
+            size="sm"
+            onClick={onUndo}
+            disabled={isRewriting}
+            aria-label={`Undo rewrite of ${label}`}
+          >
+            <Undo2 className="h-3 w-3 mr-1" />
+            Undo
+          </Button>
+        )}
+      </div>
+
+      {isOpen && (
+        <div className="space-y-2 rounded-md border p-3">
+          <div className="flex flex-wrap gap-2">
+            {QUICK_INSTRUCTIONS.map((quick) => (
+              <Button
+                key={quick}
+                variant="outline"
+                size="sm"
+                onClick={() => rewrite(quick)}
+                disabled={isRewriting}
+              >
+                {quick}
+              </Button>
+            ))}
+          </div>
+          <form
+            className="flex gap-2"
+            onSubmit={(e) => {
+              e.preventDefault()
+              rewrite(instruction)
+            }}
+          >
+            <Input
+              value={instruction}
+              onChange={(e) => setInstruction(e.target.value)}
+              placeholder="e.g. mention their Series B"
+              disabled={isRewriting}
+              aria-label={`Rewrite instruction for ${label}`}
+            />
+            <Button
+              type="submit"
+              size="sm"
+              disabled={isRewriting || !instruction.trim()}
+            >
+              Rewrite
+            </Button>
+          </form>
+        </div>
+      )}
+    </div>
+  )
+}
+
+export default SnippetRewrite
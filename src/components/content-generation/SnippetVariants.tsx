@@ -0,0 +1,169 @@
+/**
+ * A/B variants for one snippet: asks Claude for alternatives, then lets the
+ * reviewer pick a winner or keep two variants for an A/B test.
+ */
+
+import { useState } from 'react'
+import { Badge } from '@/components/ui/badge'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Loader2, Split, Trophy } from 'lucide-react'
+import { htmlToPlainText } from '@/utils/contentConverter'
+import { MAX_SNIPPET_VARIANTS } from '@/utils/sequenceDefinition'
+import type { GeneratedContentRecord } from '@/types/api'
+
+const SELECT_CLASS = 'h-9 px-2 border border-input rounded-md bg-transparent text-sm'
+
+interface SnippetVariantsProps {
+  label: string
+  variants: GeneratedContentRecord[]
+  // Two variants can only be kept when the touchpoint has an A/B slot
+  canKeepTwo: boolean
+  // Resolve to false when the request failed, keeping the form open
+  onGenerate: (count: number, instruction?: string) => Promise<boolean>
+  // Ids in order: the first becomes version A, a second one version B
+  onKeep: (ids: number[]) => Promise<boolean>
+  disabled?: boolean
+}
+
+export function SnippetVariants({
+  label,
+  variants,
+  canKeepTwo,
+  onGenerate,
+  onKeep,
+  disabled = false,
+}: SnippetVariantsProps) {
+  const [isOpen, setIsOpen] = useState(false)
+  const [count, setCount] = useState(2)
+  const [instruction, setInstruction] = useState('')
+  const [selected, setSelected] = useState<number[]>([])
+  const [isBusy, setIsBusy] = useState(false)
+
+  const run = async (action: () => Promise<boolean>) => {
+    setIsBusy(true)
+    try {
+      if (await action()) {
+        setSelected([])
+        setInstruction('')
+      }
+    } finally {
+      setIsBusy(false)
+    }
+  }
+
+  const toggle = (id: number) => {
+    setSelected((prev) =>
+      prev.includes(id) ? prev.filter((other) => other !== id) : [...prev, id]
+    )
+  }
+
+  return (
+    <div className="space-y-2">
+      <Button
+        variant="ghost"
+        size="sm"
+        onClick={() => setIsOpen(!isOpen)}
+        disabled={disabled}
+        aria-label={`A/B variants of ${label}`}
+      >
+        <Split className="h-3 w-3 mr-1" />
+        Variants{variants.length > 0 && ` (${variants.length})`}
+      </Button>
+
+      {isOpen && (
+        <div className="space-y-3 rounded-md border p-3">
+          <form
+            className="flex gap-2"
+            onSubmit={(e) => {
+              e.preventDefault()
+              run(() => onGenerate(count, instruction.trim() || undefined))
+            }}
+          >
+            <select
+              className={SELECT_CLASS}
+              value={count}
+              onChange={(e) => setCount(parseInt(e.target.value, 10))}
+              disabled={isBusy}
+              aria-label="Number of alternatives"
+            >
+              {Array.from({ length: MAX_SNIPPET_VARIANTS }, (_, i) => i + 1).map((n) => (
+                <option key={n} value={n}>
+                  {n} alternative{n > 1 ? 's' : ''}
+                </option>
+              ))}
+            </select>
+            <Input
+              value={instruction}
+              onChange={(e) => setInstruction(e.target.value)}
+              placeholder="Optional angle, e.g. lead with a question"
+              disabled={isBusy}
+              aria-label={`Variant instruction for ${label}`}
+            />
+            <Button type="submit" size="sm" disabled={isBusy}>
+              {isBusy && <Loader2 className="h-3 w-3 mr-1 animate-spin" />}
+              Generate
+            </Button>
+          </form>
+
+          {variants.length > 0 && (
+            <div className="space-y-2">
+              {variants.map((variant) => (
+                <label
+                  key={variant.id}
+                  className="flex items-start gap-2 rounded border p-2 text-sm cursor-pointer"
+                >
+                  <input
+                    type="checkbox"
+                    className="mt-1"
+                    checked={selected.includes(variant.id!)}
+                    onChange={() => toggle(variant.id!)}
+                    disabled={isBusy}
+                    aria-label={`Select variant ${variant.variant_label}`}
+                  />
+                  <Badge variant="outline">{variant.variant_label}</Badge>
+                  <span className="flex-1 whitespace-pre-wrap">
+                    {htmlToPlainText(variant.content)}
+                  </span>
+                  {variant.status === 'approved' && (
+                    <Badge variant="secondary">
+                      Kept{variant.exported_field && ` in ${variant.exported_field}`}
+                    </Badge>
+                  )}
+                </label>
+              ))}
+
+              <div className="flex flex-wrap items-center gap-2">
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={() => run(() => onKeep(selected))}
+                  disabled={isBusy || selected.length !== 1}
+                >
+                  <Trophy className="h-3 w-3 mr-1" />
+                  Use as winner
+                </Button>
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={() => run(() => onKeep(selected))}
+                  disabled={isBusy || selected.length !== 2 || !canKeepTwo}
+                >
+                  <Split className="h-3 w-3 mr-1" />
+                  Keep both for A/B
+                </Button>
+                {!canKeepTwo && (
+                  <span className="text-xs text-muted-foreground">
+                    Set an A/B slot for this touchpoint in the sequence to keep two variants.
+                  </span>
+                )}
+              </div>
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  )
+}
+
+export default SnippetVariants
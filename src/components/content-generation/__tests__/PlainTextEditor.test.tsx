@@ -281,4 +281,17 @@ describe('PlainTextEditor', () => {
     expect(screen.getByText('Click to add email body...')).toBeInTheDocument()
     expect(screen.getByText('Click to add linkedin message...')).toBeInTheDocument()
   })
-})
\ No newline at end of file
+
+  it('shows lint issues under the snippet they belong to', () => {
+    render(
+      <PlainTextEditor
+        content={{ ...mockContent, snippet2: 'Act now, {{FIRST_NAME}}!' }}
+        onChange={mockOnChange}
+        lead={{ first_name: 'Jane', company: 'Acme' }}
+      />
+    )
+
+    expect(screen.getByText('Spam trigger word: act now')).toHaveAttribute('data-severity', 'warning')
+    expect(screen.getByText('Unresolved {{FIRST_NAME}}')).toHaveAttribute('data-severity', 'error')
+  })
+})
@@ -10,6 +10,7 @@ import { Badge } from '@/components/ui/badge'
 import { AlertCircle, Users, Loader2 } from 'lucide-react'
 import type { WoodpeckerCampaign } from '@/main/services/woodpeckerService'
 import { Button } from '../ui/button'
+import { CreateCampaignDialog } from './CreateCampaignDialog'
 
 interface CampaignSelectorProps {
   value?: string
@@ -111,6 +112,15 @@ export function CampaignSelector({
     onValueChange(selectedValue, selectedCampaign || null)
   }
 
+  const handleCampaignCreated = (campaign: WoodpeckerCampaign) => {
+    console.log('🆕 CampaignSelector: Campaign created:', campaign)
+    setAllCampaigns((prev) => [
+      campaign,
+      ...prev.filter((c) => c.campaign_id !== campaign.campaign_id),
+    ])
+    onValueChange(campaign.campaign_id.toString(), campaign)
+  }
+
   const getStatusColor = (status: string) => {
     switch (status.toLowerCase()) {
       case 'active':
@@ -153,77 +163,83 @@ export function CampaignSelector({
   }
 
   return (
-    <Select
-      value={value}
-      onValueChange={handleValueChange}
-      disabled={disabled || loading}
-    >
-      <SelectTrigger className={className} size="sm">
-        <div className="flex items-center gap-2 min-w-0 flex-1">
-          {loading && (
-            <Loader2 className="h-4 w-4 animate-spin flex-shrink-0" />
-          )}
-          <SelectValue
-            placeholder={loading ? 'Loading campaigns...' : placeholder}
-            className="truncate min-w-0 flex-1"
-          />
-        </div>
-      </SelectTrigger>
-      <SelectContent>
-        {campaigns.length === 0 && !loading ? (
-          <div className="p-4 text-center text-sm text-gray-500">
-            No campaigns available
+    <div className="flex items-center gap-2">
+      <Select
+        value={value}
+        onValueChange={handleValueChange}
+        disabled={disabled || loading}
+      >
+        <SelectTrigger className={className} size="sm">
+          <div className="flex items-center gap-2 min-w-0 flex-1">
+            {loading && (
+              <Loader2 className="h-4 w-4 animate-spin flex-shrink-0" />
+            )}
+            <SelectValue
+              placeholder={loading ? 'Loading campaigns...' : placeholder}
+              className="truncate min-w-0 flex-1"
+            />
           </div>
-        ) : (
-          <>
-            {campaigns.map((campaign) => (
-              <SelectItem
-                key={campaign.campaign_id}
-                value={campaign.campaign_id.toString()}
-                className="py-2"
-              >
-                <div className="flex items-center justify-between w-full pr-6">
-                  <div className="flex-1 min-w-0">
-                    <div className="flex items-center gap-2">
-                      <span className="font-medium text-sm">
-                        {campaign.name} - {campaign.campaign_id}
-                      </span>
-                      <Badge
-                        variant="outline"
-                        className={`text-xs px-2 py-0.5 ${getStatusColor(campaign.status)}`}
-                      >
-                        {campaign.status}
-                      </Badge>
-                    </div>
-                    {campaign.prospects_count !== undefined && (
-                      <div className="flex items-center gap-1 text-xs text-gray-500 mt-1">
-                        <Users className="h-3 w-3" />
-                        <span>
-                          {formatProspectCount(campaign.prospects_count)}
+        </SelectTrigger>
+        <SelectContent>
+          {campaigns.length === 0 && !loading ? (
+            <div className="p-4 text-center text-sm text-gray-500">
+              No campaigns available
+            </div>
+          ) : (
+            <>
+              {campaigns.map((campaign) => (
+                <SelectItem
+                  key={campaign.campaign_id}
+                  value={campaign.campaign_id.toString()}
+                  className="py-2"
+                >
+                  <div className="flex items-center justify-between w-full pr-6">
+                    <div className="flex-1 min-w-0">
+                      <div className="flex items-center gap-2">
+                        <span className="font-medium text-sm">
+                          {campaign.name} - {campaign.campaign_id}
                         </span>
+                        <Badge
+                          variant="outline"
+                          className={`text-xs px-2 py-0.5 ${getStatusColor(campaign.status)}`}
+                        >
+                          {campaign.status}
+                        </Badge>
                       </div>
-                    )}
+                      {campaign.prospects_count !== undefined && (
+                        <div className="flex items-center gap-1 text-xs text-gray-500 mt-1">
+                          <Users className="h-3 w-3" />
+                          <span>
+                            {formatProspectCount(campaign.prospects_count)}
+                          </span>
+                        </div>
+                      )}
+                    </div>
                   </div>
+                </SelectItem>
+              ))}
+              {displayedCount < allCampaigns.length && (
+                <div className="p-2 border-t">
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    onClick={handleLoadMore}
+                    className="w-full text-xs text-muted-foreground hover:text-foreground"
+                  >
+                    Load more campaigns ({allCampaigns.length - displayedCount}{' '}
+                    remaining)
+                  </Button>
                 </div>
-              </SelectItem>
-            ))}
-            {displayedCount < allCampaigns.length && (
-              <div className="p-2 border-t">
-                <Button
-                  variant="ghost"
-                  size="sm"
-                  onClick={handleLoadMore}
-                  className="w-full text-xs text-muted-foreground hover:text-foreground"
-                >
-                  Load more campaigns ({allCampaigns.length - displayedCount}{' '}
-                  remaining)
-                </Button>
-              </div>
-            )}
-          </>
-        )}
-      </SelectContent>
-    </Select>
+              )}
+            </>
+          )}
+        </SelectContent>
+      </Select>
+      <CreateCampaignDialog
+        onCreated={handleCampaignCreated}
+        disabled={disabled || loading}
+      />
+    </div>
   )
 }
 
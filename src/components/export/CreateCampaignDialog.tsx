@@ -0,0 +1,207 @@
+import { useState, useMemo } from 'react'
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from '@/components/ui/dialog'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { Badge } from '@/components/ui/badge'
+import { Loader2, Plus, Mail, Linkedin, AlertCircle } from 'lucide-react'
+import { toast } from 'sonner'
+import { templateService } from '@/services/templateService'
+import { toCampaignSequence } from '@/utils/sequenceDefinition'
+import { useSenderProfiles } from '@/hooks/useSenderProfiles'
+import SenderSelect from '@/components/senders/SenderSelect'
+import type { WoodpeckerCampaign } from '@/main/services/woodpeckerService'
+
+interface CreateCampaignDialogProps {
+  onCreated: (campaign: WoodpeckerCampaign) => void
+  disabled?: boolean
+}
+
+// Woodpecker custom field placeholder for a snippet, e.g. {{SNIPPET_2}}
+const toPlaceholder = (field: string) =>
+  field.replace(/^snippet(\d+)$/i, '{{SNIPPET_$1}}')
+
+export function CreateCampaignDialog({
+  onCreated,
+  disabled = false,
+}: CreateCampaignDialogProps) {
+  const [open, setOpen] = useState(false)
+  const [name, setName] = useState('')
+  const [creating, setCreating] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+  // The campaign sends from this sender's Woodpecker mailbox, when it has one
+  const senders = useSenderProfiles()
+  const [senderId, setSenderId] = useState<number | null>(null)
+  const sender = senders.find((profile) => profile.id === senderId)
+
+  const steps = useMemo(
+    () => toCampaignSequence(templateService.getSequence()),
+    []
+  )
+
+  const handleOpenChange = (nextOpen: boolean) => {
+    if (creating) return
+    setOpen(nextOpen)
+    if (nextOpen) {
+      setName(`Outreach ${new Date().toLocaleDateString()}`)
+      setSenderId(senders.find((profile) => profile.is_default)?.id ?? null)
+      setError(null)
+    }
+  }
+
+  const handleCreate = async () => {
+    if (!name.trim()) {
+      setError('Campaign name is required')
+      return
+    }
+
+    setCreating(true)
+    setError(null)
+    try {
+      const response = await window.api.woodpecker.createCampaign({
+        name: name.trim(),
+        steps: steps.map((step) => ({
+          day: step.day,
+          channel: step.channel,
+          ...(step.subject ? { subject: toPlaceholder(step.subject) } : {}),
+          body: toPlaceholder(step.body),
+          ...(step.variant
+            ? {
+                variant: {
+                  ...(step.variant.subject
+                    ? { subject: toPlaceholder(step.variant.subject) }
+                    : {}),
+                  body: toPlaceholder(step.variant.body),
+                },
+              }
+            : {}),
+        })),
+        ...(sender?.woodpecker_email_account_id
+          ? { emailAccountIds: [sender.woodpecker_email_account_id] }
+          : {}),
+      })
+
+      if (!response.success) {
+        throw new Error(response.error?.message || 'Failed to create campaign')
+      }
+
+      toast.success(`Campaign "${response.data.name}" created`)
+      onCreated(response.data)
+      setOpen(false)
+    } catch (err) {
+      const message =
+        err instanceof Error ? err.message : 'Failed to create campaign'
+      console.error('❌ CreateCampaignDialog: Failed to create campaign:', err)
+      setError(message)
+    } finally {
+      setCreating(false)
+    }
+  }
+
+  return (
+    <Dialog open={open} onOpenChange={handleOpenChange}>
+      <DialogTrigger asChild>
+        <Button variant="outline" size="sm" disabled={disabled}>
+          <Plus className="h-4 w-4 mr-1" />
+          New campaign
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="max-w-lg">
+        <DialogHeader>
+          <DialogTitle>New Woodpecker campaign</DialogTitle>
+          <DialogDescription>
+            Steps are filled from each prospect's generated snippets, so the
+            campaign is ready for export as soon as it is created.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="space-y-2">
+            <Label htmlFor="campaign-name">Campaign name</Label>
+            <Input
+              id="campaign-name"
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+              disabled={creating}
+            />
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="campaign-sender">Send from</Label>
+            <SenderSelect
+              id="campaign-sender"
+              value={senderId}
+              onChange={setSenderId}
+              emptyLabel="Woodpecker's default mailbox"
+              disabled={creating}
+              className="w-full"
+            />
+            {sender && !sender.woodpecker_email_account_id && (
+              <p className="text-xs text-muted-foreground">
+                {sender.name} has no Woodpecker mailbox set, so Woodpecker's
+                default is used
+              </p>
+            )}
+          </div>
+
+          <div className="space-y-2">
+            <Label>Steps</Label>
+            <div className="border rounded-md divide-y">
+              {steps.map((step) => (
+                <div
+                  key={step.day}
+                  className="flex items-center gap-3 px-3 py-2 text-sm"
+                >
+                  <Badge variant="outline" className="w-16 justify-center">
+                    Day {step.day}
+                  </Badge>
+                  {step.channel === 'email' ? (
+                    <Mail className="h-4 w-4 text-muted-foreground" />
+                  ) : (
+                    <Linkedin className="h-4 w-4 text-muted-foreground" />
+                  )}
+                  <span className="font-mono text-xs">
+                    {step.subject && `${toPlaceholder(step.subject)} / `}
+                    {toPlaceholder(step.body)}
+                  </span>
+                  {step.variant && <Badge variant="secondary">A/B</Badge>}
+                </div>
+              ))}
+            </div>
+          </div>
+
+          {error && (
+            <div className="flex items-center gap-2 p-3 border border-red-200 rounded-md bg-red-50 text-sm text-red-800">
+              <AlertCircle className="h-4 w-4 text-red-600" />
+              {error}
+            </div>
+          )}
+        </div>
+
+        <DialogFooter>
+          <Button
+            variant="outline"
+            onClick={() => handleOpenChange(false)}
+            disabled={creating}
+          >
+            Cancel
+          </Button>
+          <Button onClick={handleCreate} disabled={creating || !name.trim()}>
+            {creating && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+            {creating ? 'Creating...' : 'Create campaign'}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  )
+}
+
+export default CreateCampaignDialog
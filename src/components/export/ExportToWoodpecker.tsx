@@ -1,4 +1,4 @@
-import { useState, useCallback } from 'react';
+import { useState, useCallback, useEffect, useRef } from 'react';
 import {
   Dialog,
   DialogContent,
@@ -19,6 +19,7 @@ import {
   Upload,
   AlertTriangle,
   RefreshCw,
+  Square,
 } from 'lucide-react';
 import { toast } from 'sonner';
 import CampaignSelector from './CampaignSelector';
@@ -26,20 +27,23 @@ import {
   formatMultipleProspects,
   validateWoodpeckerProspect,
 } from '@/utils/woodpeckerFormatter';
+import { templateService } from '@/services/templateService';
 import type { LeadData } from '@/types/lead';
-import type { WoodpeckerCampaign, WoodpeckerExportProgress } from '@/main/services/woodpeckerService';
+import type { WoodpeckerCampaign } from '@/main/services/woodpeckerService';
+import type { ExportJobProgress } from '@/types/api';
 
 interface ExportToWoodpeckerProps {
   leads: LeadData[];
   getGeneratedContent: (leadId: string) => any;
   trigger?: React.ReactNode;
-  onExportComplete?: (success: boolean, results?: WoodpeckerExportProgress) => void;
+  onExportComplete?: (success: boolean, results?: ExportJobProgress) => void;
 }
 
 interface ExportState {
   status: 'idle' | 'confirming' | 'exporting' | 'completed' | 'error';
   selectedCampaign: WoodpeckerCampaign | null;
-  progress: WoodpeckerExportProgress | null;
+  jobId: number | null;
+  progress: ExportJobProgress | null;
   error: string | null;
   duplicateProspects: string[];
   validationErrors: Array<{ email: string; errors: string[] }>;
@@ -55,12 +59,92 @@ export function ExportToWoodpecker({
   const [state, setState] = useState<ExportState>({
     status: 'idle',
     selectedCampaign: null,
+    jobId: null,
     progress: null,
     error: null,
     duplicateProspects: [],
     validationErrors: [],
   });
 
+  // Latest job id, read from the progress subscription without re-subscribing
+  const jobIdRef = useRef<number | null>(null);
+  jobIdRef.current = state.jobId;
+
+  // Operation ids jobs report progress under, needed to cancel them. Recorded for
+  // every job because the first update can arrive before startExportJob resolves.
+  const operationIdsRef = useRef(new Map<number, string>());
+
+  const handleJobProgress = useCallback((progress: ExportJobProgress) => {
+    if (progress.jobId !== jobIdRef.current) return;
+
+    console.log('📈 ExportToWoodpecker: Progress update:', progress);
+
+    if (progress.status === 'completed') {
+      setState(prev => ({ ...prev, status: 'completed', progress }));
+      toast.success(
+        `Export completed! ${progress.succeeded} prospects added to campaign.`,
+        {
+          description: progress.failed > 0 ? `${progress.failed} failed to export` : undefined,
+        }
+      );
+      onExportComplete?.(true, progress);
+    } else if (progress.status === 'failed') {
+      const errorMessage = progress.lastError || 'Export job failed';
+      setState(prev => ({ ...prev, status: 'error', progress, error: errorMessage }));
+      toast.error('Export failed', { description: errorMessage });
+      onExportComplete?.(false, progress);
+    } else if (progress.status === 'cancelled') {
+      setState(prev => ({
+        ...prev,
+        status: 'error',
+        progress,
+        error: `Export cancelled. ${progress.succeeded} prospects were already added to the campaign.`,
+      }));
+      toast.info('Export cancelled');
+      onExportComplete?.(false, progress);
+    } else {
+      setState(prev => ({ ...prev, progress }));
+    }
+  }, [onExportComplete]);
+
+  // The export runs in the main process; the dialog only listens to it
+  useEffect(() => {
+    if (!open) return;
+    const subscriptionId = window.api.progress.subscribe(progress => {
+      if (progress.operation === 'woodpecker:export' && progress.data) {
+        const jobProgress = progress.data as ExportJobProgress;
+        operationIdsRef.current.set(jobProgress.jobId, progress.operationId);
+        handleJobProgress(jobProgress);
+      }
+    });
+    return () => window.api.progress.unsubscribe(subscriptionId);
+  }, [open, handleJobProgress]);
+
+  // Reattach to a job that is still running, e.g. after the dialog was closed
+  useEffect(() => {
+    if (!open || state.status !== 'idle') return;
+
+    let cancelled = false;
+    window.api.woodpecker.getActiveExportJobs().then(response => {
+      if (cancelled || !response.success || response.data.length === 0) return;
+
+      const job = response.data[0];
+      console.log('🔗 ExportToWoodpecker: Reattaching to running export job:', job);
+      setState(prev => ({
+        ...prev,
+        status: 'exporting',
+        jobId: job.jobId,
+        progress: job,
+      }));
+    }).catch(error => {
+      console.warn('⚠️ ExportToWoodpecker: Failed to look up running export jobs:', error);
+    });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [open, state.status]);
+
 
   const handleCampaignSelect = useCallback(async (_campaignId: string, campaign: WoodpeckerCampaign | null) => {
     console.log('🎯 ExportToWoodpecker: Campaign selected:', {
@@ -84,7 +168,9 @@ export function ExportToWoodpecker({
     // Check for duplicates and validate prospects
     try {
       console.log('📋 ExportToWoodpecker: Formatting prospects for validation...');
-      const prospects = formatMultipleProspects(leads, getGeneratedContent);
+      const prospects = formatMultipleProspects(leads, getGeneratedContent, {
+        sequence: templateService.getSequence(),
+      });
       console.log('✅ ExportToWoodpecker: Formatted prospects:', {
         count: prospects.length,
         prospects: prospects
@@ -160,71 +246,58 @@ export function ExportToWoodpecker({
 
     try {
       console.log('📋 ExportToWoodpecker: Formatting prospects for export...');
-      const prospects = formatMultipleProspects(leads, getGeneratedContent);
+      const prospects = formatMultipleProspects(leads, getGeneratedContent, {
+        sequence: templateService.getSequence(),
+      });
       console.log('✅ ExportToWoodpecker: Formatted prospects:', {
         totalCount: prospects.length,
         prospects: prospects
       });
 
-      // Filter out invalid prospects
+      // Filter out invalid prospects, keeping each one paired with its lead
       console.log('🔍 ExportToWoodpecker: Filtering valid prospects...');
-      const validProspects = prospects.filter(prospect => {
-        const validation = validateWoodpeckerProspect(prospect);
-        if (!validation.isValid) {
-          console.warn('⚠️ ExportToWoodpecker: Invalid prospect:', {
-            email: prospect.email,
-            errors: validation.errors
-          });
-        }
-        return validation.isValid;
-      });
+      const items = prospects
+        .map((prospect, index) => ({ leadId: Number(leads[index].id), prospect }))
+        .filter(({ prospect }) => {
+          const validation = validateWoodpeckerProspect(prospect);
+          if (!validation.isValid) {
+            console.warn('⚠️ ExportToWoodpecker: Invalid prospect:', {
+              email: prospect.email,
+              errors: validation.errors
+            });
+          }
+          return validation.isValid;
+        })
+        .map(({ leadId, prospect }) => (Number.isInteger(leadId) ? { leadId, prospect } : { prospect }));
 
       console.log('📊 ExportToWoodpecker: Valid prospects after filtering:', {
-        validCount: validProspects.length,
-        invalidCount: prospects.length - validProspects.length,
-        validProspects: validProspects
+        validCount: items.length,
+        invalidCount: prospects.length - items.length,
       });
 
-      if (validProspects.length === 0) {
+      if (items.length === 0) {
         console.error('❌ ExportToWoodpecker: No valid prospects to export');
         throw new Error('No valid prospects to export');
       }
 
-      console.log(`📡 ExportToWoodpecker: Calling API via IPC to add ${validProspects.length} prospects to campaign ${state.selectedCampaign.campaign_id}`);
-      const response = await window.api.woodpecker.addProspects({
-        prospects: validProspects,
+      console.log(`📡 ExportToWoodpecker: Starting export job for ${items.length} prospects to campaign ${state.selectedCampaign.campaign_id}`);
+      const response = await window.api.woodpecker.startExportJob({
         campaignId: state.selectedCampaign.campaign_id,
-        force: false,
-        onProgress: (currentProgress) => {
-          console.log('📈 ExportToWoodpecker: Progress update:', currentProgress);
-          setState(prev => ({
-            ...prev,
-            progress: currentProgress,
-          }));
-        }
+        campaignName: state.selectedCampaign.name,
+        items,
       });
 
       if (!response.success) {
-        throw new Error(response.error || 'Failed to add prospects to campaign')
+        throw new Error(response.error?.message || 'Failed to start export');
       }
 
-      const progress = response.data;
-
-      console.log('✅ ExportToWoodpecker: Export completed successfully:', progress);
+      console.log('✅ ExportToWoodpecker: Export job started:', response.data);
+      jobIdRef.current = response.data.jobId;
       setState(prev => ({
         ...prev,
-        status: 'completed',
-        progress,
+        jobId: response.data.jobId,
+        progress: response.data,
       }));
-
-      toast.success(
-        `Export completed! ${progress.succeeded} prospects added to campaign.`,
-        {
-          description: progress.failed > 0 ? `${progress.failed} failed to export` : undefined,
-        }
-      );
-
-      onExportComplete?.(true, progress);
     } catch (error) {
       const errorMessage = error instanceof Error ? error.message : 'Unknown error occurred';
       console.error('❌ ExportToWoodpecker: Export failed:', {
@@ -247,11 +320,13 @@ export function ExportToWoodpecker({
     }
   }, [state.selectedCampaign, leads, getGeneratedContent, onExportComplete]);
 
+  // Closing never stops the job; reopening the dialog reattaches to it
   const handleClose = () => {
     setOpen(false);
     setState({
       status: 'idle',
       selectedCampaign: null,
+      jobId: null,
       progress: null,
       error: null,
       duplicateProspects: [],
@@ -259,10 +334,37 @@ export function ExportToWoodpecker({
     });
   };
 
-  const handleRetry = () => {
+  const handleCancelExport = async () => {
+    const operationId = state.jobId ? operationIdsRef.current.get(state.jobId) : undefined;
+    if (!operationId) return;
+
+    const response = await window.api.cancel(operationId);
+    if (!response.success || !response.data.cancelled) {
+      toast.error('Export could not be cancelled', {
+        description: response.success ? 'The export has already finished' : response.error.message,
+      });
+    }
+  };
+
+  const handleRetry = async () => {
+    // A failed job keeps its unsent prospects, so pick it up where it stopped
+    if (state.jobId) {
+      const response = await window.api.woodpecker.resumeExportJob(state.jobId);
+      if (response.success) {
+        setState(prev => ({
+          ...prev,
+          status: 'exporting',
+          progress: response.data,
+          error: null,
+        }));
+        return;
+      }
+    }
+
     setState(prev => ({
       ...prev,
       status: 'confirming',
+      jobId: null,
       error: null,
     }));
   };
@@ -467,7 +569,7 @@ export function ExportToWoodpecker({
           <DialogDescription>
             {state.status === 'idle' && 'Select a Woodpecker campaign to export your prospects.'}
             {state.status === 'confirming' && 'Review the export details before proceeding.'}
-            {state.status === 'exporting' && 'Please wait while we export your prospects...'}
+            {state.status === 'exporting' && 'Exporting in the background. You can close this dialog and come back later.'}
             {state.status === 'completed' && 'Your prospects have been exported successfully.'}
             {state.status === 'error' && 'An error occurred during export.'}
           </DialogDescription>
@@ -511,10 +613,16 @@ export function ExportToWoodpecker({
           )}
 
           {state.status === 'exporting' && (
-            <Button variant="outline" onClick={handleClose} disabled>
-              <Loader2 className="h-4 w-4 mr-2 animate-spin" />
-              Exporting...
-            </Button>
+            <>
+              <Button variant="outline" onClick={handleCancelExport}>
+                <Square className="h-4 w-4 mr-2" />
+                Cancel export
+              </Button>
+              <Button variant="outline" onClick={handleClose}>
+                <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+                Run in background
+              </Button>
+            </>
           )}
 
           {(state.status === 'completed' || state.status === 'error') && (
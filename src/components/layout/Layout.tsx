@@ -1,8 +1,20 @@
+import { useEffect } from 'react'
 import { Outlet } from 'react-router-dom'
 import { Header } from './Header'
 import { Navigation } from './Navigation'
+import { templateService } from '@/services/templateService'
 
 export function Layout() {
+  // Generation uses the saved prompt templates rather than the bundled ones,
+  // draws peer proof from the case-study library and shows approved
+  // sequences as examples
+  useEffect(() => {
+    if (!window.api) return
+    templateService.loadFromDatabase()
+    templateService.loadCaseStudies()
+    templateService.loadFewShotExamples()
+  }, [])
+
   return (
     <div className="min-h-screen bg-background">
       <Header />
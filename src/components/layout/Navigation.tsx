@@ -4,6 +4,12 @@ import { cn } from '@/lib/utils'
 const navigationItems = [
   { to: '/', label: 'Leads' },
   { to: '/import', label: 'Import' },
+  { to: '/templates', label: 'Templates' },
+  { to: '/case-studies', label: 'Case Studies' },
+  { to: '/examples', label: 'Examples' },
+  { to: '/costs', label: 'Costs' },
+  { to: '/quality', label: 'Quality' },
+  { to: '/evaluation', label: 'Evaluation' },
   { to: '/settings', label: 'Settings' },
   { to: '/test', label: 'Bridge Test' },
 ]
@@ -0,0 +1,101 @@
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog'
+import { Button } from '@/components/ui/button'
+import { AlertCircle, Loader2 } from 'lucide-react'
+import { MODEL_PRICING, formatPrice } from '@/utils/tokenCounter'
+import type { GenerationPreflight } from '@/services/contentGenerationService'
+
+interface GenerationPreflightDialogProps {
+  open: boolean
+  onOpenChange: (open: boolean) => void
+  preflight: GenerationPreflight | null
+  error?: string | null
+  confirming?: boolean
+  onConfirm: () => void
+}
+
+export function GenerationPreflightDialog({
+  open,
+  onOpenChange,
+  preflight,
+  error,
+  confirming = false,
+  onConfirm,
+}: GenerationPreflightDialogProps) {
+  const estimate = preflight?.estimate
+  const budget = preflight?.budget
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-lg">
+        <DialogHeader>
+          <DialogTitle>Generate in batch</DialogTitle>
+          <DialogDescription>
+            Projected from the filled-in prompt of each lead and{' '}
+            {estimate ? MODEL_PRICING[estimate.modelId]?.displayName || estimate.modelId : 'the selected model'}{' '}
+            batch pricing. Actual spend is recorded once results arrive.
+          </DialogDescription>
+        </DialogHeader>
+
+        {!preflight && !error ? (
+          <div className="flex items-center justify-center h-24">
+            <Loader2 className="h-6 w-6 animate-spin" />
+          </div>
+        ) : (
+          <div className="space-y-4 text-sm">
+            {estimate && (
+              <div className="grid grid-cols-2 gap-2 rounded-md border p-3">
+                <span className="text-muted-foreground">Leads</span>
+                <span className="text-right">{estimate.leadCount}</span>
+                <span className="text-muted-foreground">Input tokens</span>
+                <span className="text-right">{estimate.inputTokens.toLocaleString()}</span>
+                <span className="text-muted-foreground">Output tokens</span>
+                <span className="text-right">~{estimate.outputTokens.toLocaleString()}</span>
+                <span className="text-muted-foreground">Per lead</span>
+                <span className="text-right">{formatPrice(estimate.perLeadCost)}</span>
+                <span className="font-medium">Projected cost</span>
+                <span className="text-right font-medium">{formatPrice(estimate.totalCost)}</span>
+              </div>
+            )}
+
+            {budget?.monthly && (
+              <p className="text-muted-foreground">
+                Monthly budget: {formatPrice(budget.monthly.remainingUsd)} of{' '}
+                {formatPrice(budget.monthly.limitUsd)} left
+              </p>
+            )}
+            {budget?.imports.map((status) => (
+              <p key={status.importId} className="text-muted-foreground">
+                {status.filename || `Import ${status.importId}`}: {formatPrice(status.remainingUsd)} of{' '}
+                {formatPrice(status.limitUsd)} left, covers {status.affordableLeads} of {status.leadCount} lead(s)
+              </p>
+            ))}
+
+            {(error || (budget && !budget.allowed)) && (
+              <div className="flex items-center gap-2 p-3 border border-red-200 rounded-md bg-red-50 text-sm text-red-800">
+                <AlertCircle className="h-4 w-4 text-red-600" />
+                {error || budget?.reason}
+              </div>
+            )}
+          </div>
+        )}
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)} disabled={confirming}>
+            Cancel
+          </Button>
+          <Button onClick={onConfirm} disabled={!budget?.allowed || confirming}>
+            {confirming && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+            {estimate ? `Generate ${estimate.leadCount} lead(s)` : 'Generate'}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  )
+}
@@ -31,12 +31,24 @@ import { Trash2, Copy, Download, ChevronDown, ChevronUp } from 'lucide-react'
 import { useState, useEffect, useMemo, useCallback, memo } from 'react'
 import type { ClaudeResponse } from '@/services/claudeService'
 import ConversionButton from '@/components/content-generation/ConversionButton'
+import ContentHistory from '@/components/content-generation/ContentHistory'
+import GenerationDetails from '@/components/content-generation/GenerationDetails'
 import {
   type PlainTextContent,
   convertFromHtmlContent,
 } from '@/utils/contentConverter'
 import type { GeneratedContent } from '@/utils/woodpeckerFormatter'
+import { emptySnippets, sequenceFields } from '@/utils/sequenceDefinition'
+import { templateService } from '@/services/templateService'
+import { contentStorage } from '@/utils/contentStorage'
 import { Link } from 'react-router-dom'
+import type { CampaignSyncRecord, SenderProfileRecord } from '@/types/api'
+import SenderSelect from '@/components/senders/SenderSelect'
+
+// Export/engagement tracking fields shown in their own card, not as lead data
+const TRACKING_FIELDS = ['woodpecker_campaign_id', 'export_date', 'engagement_synced_at']
+// Shown as the sender picker in the header
+const SENDER_FIELDS = ['sender_id']
 
 // Utility function for consistent localStorage key generation
 function getLocalStorageKey(lead: LeadData): string {
@@ -66,22 +78,24 @@ const LeadDetail = memo(function LeadDetail({
     useState<ClaudeResponse | null>(null)
   const [copySuccess, setCopySuccess] = useState(false)
   const [selectedCampaignId, setSelectedCampaignId] =
-    useState<string>('2356837')
+    useState<string>('')
   const [selectedCampaignName, setSelectedCampaignName] = useState<string>('')
   const [isExporting, setIsExporting] = useState(false)
+  // Export waits until every touchpoint of the sequence is approved
+  const [touchpointsApproved, setTouchpointsApproved] = useState(false)
+  // Bumped when saved content changes (history reloads) or changes outside the editor (editor reloads)
+  const [savedVersion, setSavedVersion] = useState(0)
+  const [reloadVersion, setReloadVersion] = useState(0)
   const [woodpeckerService] = useState(() => new WoodpeckerService())
   const [showAdditionalInfo, setShowAdditionalInfo] = useState(false)
+  const [campaignSync, setCampaignSync] = useState<CampaignSyncRecord | null>(
+    null
+  )
 
   // ConversionButton state
-  const [plainTextContent, setPlainTextContent] = useState<PlainTextContent>({
-    snippet1: '',
-    snippet2: '',
-    snippet3: '',
-    snippet4: '',
-    snippet5: '',
-    snippet6: '',
-    snippet7: '',
-  })
+  const [plainTextContent, setPlainTextContent] = useState<PlainTextContent>(() =>
+    emptySnippets(templateService.getSequence())
+  )
 
   // Extract Woodpecker standard fields and additional data
   const { woodpeckerFields, additionalData } = useMemo(() => {
@@ -90,7 +104,7 @@ const LeadDetail = memo(function LeadDetail({
     const additional: Record<string, string> = {}
 
     Object.entries(lead).forEach(([key, value]) => {
-      if (['id', 'status', 'selected'].includes(key) || !value) return
+      if (['id', 'status', 'selected', ...TRACKING_FIELDS, ...SENDER_FIELDS].includes(key) || !value) return
 
       if (standardFieldNames.includes(key as WoodpeckerField)) {
         woodpecker[key] = String(value)
@@ -129,13 +143,78 @@ const LeadDetail = memo(function LeadDetail({
     }
   }, [open, lead.id, woodpeckerFields.email, lead])
 
+  // The lead's own sender choice, and the profile it resolves to after the
+  // import's sender and the default
+  const [senderId, setSenderId] = useState<number | null>(null)
+  const [sender, setSender] = useState<SenderProfileRecord | null>(null)
+  const numericLeadId = parseInt(String(lead.id))
+
+  const loadSender = useCallback(async () => {
+    if (!Number.isFinite(numericLeadId) || !window.api?.senderProfiles) {
+      setSender(null)
+      return
+    }
+    const response = await window.api.senderProfiles.getForLead(numericLeadId)
+    setSender(response.success ? response.data : null)
+  }, [numericLeadId])
+
+  useEffect(() => {
+    if (!open) return
+    setSenderId(Number(lead.sender_id) || null)
+    loadSender().catch((error) => {
+      console.error('Failed to load sender profile:', error)
+    })
+  }, [open, lead.sender_id, loadSender])
+
+  const handleSenderChange = useCallback(
+    async (nextSenderId: number | null) => {
+      const response = await window.api.leads.update(numericLeadId, {
+        sender_id: nextSenderId,
+      })
+      if (!response.success) {
+        toast.error('Failed to change the sender')
+        return
+      }
+      setSenderId(nextSenderId)
+      await loadSender()
+    },
+    [numericLeadId, loadSender]
+  )
+
+  // Load the per-campaign "last synced" state for exported leads
+  useEffect(() => {
+    const campaignId = lead.woodpecker_campaign_id
+    if (!open || !campaignId || !window.api?.woodpecker) {
+      setCampaignSync(null)
+      return
+    }
+
+    window.api.woodpecker
+      .getSyncStatus(String(campaignId))
+      .then((response) => {
+        if (response.success && response.data && !Array.isArray(response.data)) {
+          setCampaignSync(response.data)
+        } else {
+          setCampaignSync(null)
+        }
+      })
+      .catch((error) => {
+        console.error('Failed to load campaign sync status:', error)
+        setCampaignSync(null)
+      })
+  }, [open, lead.woodpecker_campaign_id])
+
   // Convert generated content to plain text when available
+  const hasPlainText = Object.values(plainTextContent).some(Boolean)
   useEffect(() => {
-    if (generatedContent && !plainTextContent.snippet1) {
-      const plainText = convertFromHtmlContent(generatedContent)
+    if (generatedContent && !hasPlainText) {
+      const plainText = convertFromHtmlContent(
+        generatedContent,
+        templateService.getSequence()
+      )
       setPlainTextContent(plainText)
     }
-  }, [generatedContent, plainTextContent.snippet1])
+  }, [generatedContent, hasPlainText])
 
   // ConversionButton handlers
   const handleConversionComplete = useCallback(
@@ -155,6 +234,24 @@ const LeadDetail = memo(function LeadDetail({
         localStorageKey
       )
 
+      // Keep the converted text as a revision so it can be compared and reverted
+      const numericId = parseInt(String(lead.id))
+      if (Number.isFinite(numericId)) {
+        contentStorage
+          .persistContentToStorage(
+            String(numericId),
+            htmlContent,
+            undefined,
+            templateService.getSequence(),
+            { source: 'manual' }
+          )
+          .then((saved) => {
+            if (!saved) return
+            setReloadVersion((version) => version + 1)
+            setSavedVersion((version) => version + 1)
+          })
+      }
+
       // Update lead status if callback provided
       onStatusUpdate?.(lead.id, 'approved')
       toast.success('Content approved and converted to HTML format')
@@ -162,6 +259,18 @@ const LeadDetail = memo(function LeadDetail({
     [onStatusUpdate, lead]
   )
 
+  const handleContentSaved = useCallback(() => {
+    setSavedVersion((version) => version + 1)
+  }, [])
+
+  // A revert puts the touchpoint back to draft, so the editor reloads it from the database
+  const handleReverted = useCallback(() => {
+    setReloadVersion((version) => version + 1)
+    if (lead.status === 'approved') {
+      onStatusUpdate?.(lead.id, 'drafted')
+    }
+  }, [lead.id, lead.status, onStatusUpdate])
+
   const handleApprovalStatusChange = useCallback(() => {
     console.log('✅ Updating lead status to "approved" for lead ID:', lead.id)
     onStatusUpdate?.(lead.id, 'approved')
@@ -173,18 +282,13 @@ const LeadDetail = memo(function LeadDetail({
     (htmlContent: ClaudeResponse | null) => {
       setGeneratedContent(htmlContent)
       if (htmlContent) {
-        const plainText = convertFromHtmlContent(htmlContent)
+        const plainText = convertFromHtmlContent(
+          htmlContent,
+          templateService.getSequence()
+        )
         setPlainTextContent(plainText)
       } else {
-        setPlainTextContent({
-          snippet1: '',
-          snippet2: '',
-          snippet3: '',
-          snippet4: '',
-          snippet5: '',
-          snippet6: '',
-          snippet7: '',
-        })
+        setPlainTextContent(emptySnippets(templateService.getSequence()))
       }
     },
     []
@@ -210,16 +314,13 @@ const LeadDetail = memo(function LeadDetail({
     }
 
     if (generatedContent) {
-      return {
-        ...baseData,
-        snippet1: generatedContent.snippet1 || '',
-        snippet2: generatedContent.snippet2 || '',
-        snippet3: generatedContent.snippet3 || '',
-        snippet4: generatedContent.snippet4 || '',
-        snippet5: generatedContent.snippet5 || '',
-        snippet6: generatedContent.snippet6 || '',
-        snippet7: generatedContent.snippet7 || '',
-      }
+      const snippets = Object.fromEntries(
+        sequenceFields(templateService.getSequence()).map((field) => [
+          field,
+          generatedContent[field] || '',
+        ])
+      )
+      return { ...baseData, ...snippets }
     }
 
     return baseData
@@ -262,6 +363,11 @@ const LeadDetail = memo(function LeadDetail({
       return
     }
 
+    if (!touchpointsApproved) {
+      toast.error('Approve every touchpoint before exporting')
+      return
+    }
+
     setIsExporting(true)
 
     try {
@@ -296,7 +402,8 @@ const LeadDetail = memo(function LeadDetail({
         (leadId): GeneratedContent | undefined =>
           leadId === lead.id && generatedContent
             ? (generatedContent as unknown as GeneratedContent)
-            : undefined
+            : undefined,
+        { sequence: templateService.getSequence() }
       )
       console.log('✅ LeadDetail: Formatted prospects:', prospects)
       console.log('🔍 LeadDetail: First prospect details:', {
@@ -367,11 +474,24 @@ const LeadDetail = memo(function LeadDetail({
         return 'bg-green-100 text-green-800'
       case 'exported':
         return 'bg-gray-100 text-gray-800'
+      case 'opened':
+        return 'bg-indigo-100 text-indigo-800'
+      case 'replied':
+      case 'interested':
+        return 'bg-green-100 text-green-800'
+      case 'autoreplied':
+        return 'bg-purple-100 text-purple-800'
+      case 'bounced':
+      case 'blacklisted':
+        return 'bg-red-100 text-red-800'
       default:
         return 'bg-gray-100 text-gray-800'
     }
   }
 
+  const formatTimestamp = (value?: string | boolean) =>
+    value ? new Date(String(value)).toLocaleString() : 'Never'
+
   return (
     <Sheet open={open} onOpenChange={onOpenChange}>
       <SheetContent side="right" className="min-w-[700px] overflow-y-auto">
@@ -410,6 +530,18 @@ const LeadDetail = memo(function LeadDetail({
                 <Badge className={getStatusColor(lead.status)}>
                   {lead.status}
                 </Badge>
+                {Number.isFinite(numericLeadId) && (
+                  <SenderSelect
+                    value={senderId}
+                    onChange={handleSenderChange}
+                    emptyLabel={
+                      sender && !senderId
+                        ? `Import/default sender (${sender.name})`
+                        : 'Import/default sender'
+                    }
+                    className="h-7 text-xs"
+                  />
+                )}
               </div>
             </div>
           </div>
@@ -489,13 +621,80 @@ const LeadDetail = memo(function LeadDetail({
             )}
           </Card>
 
+          {lead.woodpecker_campaign_id && (
+            <Card>
+              <CardHeader>
+                <CardTitle className="text-lg">Woodpecker Engagement</CardTitle>
+                <CardDescription>
+                  Prospect state synced back from campaign{' '}
+                  {String(lead.woodpecker_campaign_id)}
+                </CardDescription>
+              </CardHeader>
+              <CardContent>
+                <div className="grid md:grid-cols-2 gap-4 text-sm">
+                  <div className="space-y-1">
+                    <label className="font-medium text-muted-foreground">
+                      Engagement
+                    </label>
+                    <div>
+                      <Badge className={getStatusColor(lead.status)}>
+                        {lead.status}
+                      </Badge>
+                    </div>
+                  </div>
+                  <div className="space-y-1">
+                    <label className="font-medium text-muted-foreground">
+                      Exported
+                    </label>
+                    <div>{formatTimestamp(lead.export_date)}</div>
+                  </div>
+                  <div className="space-y-1">
+                    <label className="font-medium text-muted-foreground">
+                      Lead last synced
+                    </label>
+                    <div>{formatTimestamp(lead.engagement_synced_at)}</div>
+                  </div>
+                  <div className="space-y-1">
+                    <label className="font-medium text-muted-foreground">
+                      Campaign last synced
+                    </label>
+                    <div>{formatTimestamp(campaignSync?.last_synced_at)}</div>
+                    {campaignSync?.last_error && (
+                      <div className="text-xs text-red-600">
+                        Last sync failed: {campaignSync.last_error}
+                      </div>
+                    )}
+                  </div>
+                </div>
+              </CardContent>
+            </Card>
+          )}
+
           <ContentGeneration
             lead={{ ...lead, ...woodpeckerFields }}
             columnMapping={columnMapping}
             onStatusUpdate={onStatusUpdate}
             onContentUpdate={handleContentUpdate}
+            onApprovalChange={setTouchpointsApproved}
+            onContentSaved={handleContentSaved}
+            reloadKey={reloadVersion}
           />
 
+          {Number.isFinite(parseInt(String(lead.id))) && (
+            <ContentHistory
+              leadId={String(lead.id)}
+              sequence={templateService.getSequence()}
+              refreshKey={savedVersion}
+              onReverted={handleReverted}
+            />
+          )}
+
+          {Number.isFinite(numericLeadId) && (
+            <div className="flex justify-end">
+              <GenerationDetails leadId={numericLeadId} refreshKey={savedVersion} />
+            </div>
+          )}
+
           {/* JSON Preview Section */}
         </div>
 
@@ -504,40 +703,28 @@ const LeadDetail = memo(function LeadDetail({
             lead.status === 'approved' ||
             lead.status === 'exported') && (
             <>
-              {/* Determine if any plaintext content exists to enable Approve */}
-              {(() => {
-                const hasAnyPlainText = Boolean(
-                  plainTextContent.snippet1 ||
-                    plainTextContent.snippet2 ||
-                    plainTextContent.snippet3 ||
-                    plainTextContent.snippet4 ||
-                    plainTextContent.snippet5 ||
-                    plainTextContent.snippet6 ||
-                    plainTextContent.snippet7
-                )
-                return (
-                  <ConversionButton
-                    plainTextContent={plainTextContent}
-                    leadData={{
-                      first_name: woodpeckerFields.first_name || 'There',
-                      last_name: woodpeckerFields.last_name || '',
-                      company: woodpeckerFields.company || '',
-                      title: woodpeckerFields.title || '',
-                      email: woodpeckerFields.email || '',
-                      industry:
-                        additionalData.Industry ||
-                        woodpeckerFields.industry ||
-                        'Technology',
-                      linkedin_url: woodpeckerFields.linkedin_url || '',
-                      tags: `#${additionalData.Department || 'Business'} #${woodpeckerFields.company?.replace(/\s+/g, '')} #${(additionalData.Title || woodpeckerFields.title || '').replace(/\s+/g, '')}`,
-                    }}
-                    onConversionComplete={handleConversionComplete}
-                    onShowJson={() => {}}
-                    onStatusChange={handleApprovalStatusChange}
-                    disabled={!hasAnyPlainText}
-                  />
-                )
-              })()}
+              <ConversionButton
+                plainTextContent={plainTextContent}
+                leadData={{
+                  first_name: woodpeckerFields.first_name || 'There',
+                  last_name: woodpeckerFields.last_name || '',
+                  company: woodpeckerFields.company || '',
+                  title: woodpeckerFields.title || '',
+                  email: woodpeckerFields.email || '',
+                  industry:
+                    additionalData.Industry ||
+                    woodpeckerFields.industry ||
+                    'Technology',
+                  linkedin_url: woodpeckerFields.linkedin_url || '',
+                  tags: `#${additionalData.Department || 'Business'} #${woodpeckerFields.company?.replace(/\s+/g, '')} #${(additionalData.Title || woodpeckerFields.title || '').replace(/\s+/g, '')}`,
+                }}
+                onConversionComplete={handleConversionComplete}
+                onShowJson={() => {}}
+                onStatusChange={handleApprovalStatusChange}
+                disabled={!hasPlainText}
+                sequence={templateService.getSequence()}
+                sender={sender}
+              />
               {lead.status === 'approved' ? (
                 <Card>
                   <CardHeader>
@@ -574,7 +761,13 @@ const LeadDetail = memo(function LeadDetail({
                             disabled={
                               isExporting ||
                               !selectedCampaignId ||
-                              !generatedContent
+                              !generatedContent ||
+                              !touchpointsApproved
+                            }
+                            title={
+                              touchpointsApproved
+                                ? undefined
+                                : 'Approve every touchpoint before exporting'
                             }
                             className="gap-2"
                           >
@@ -601,7 +794,8 @@ const LeadDetail = memo(function LeadDetail({
             </>
           )}
           <div className="flex gap-2 justify-end w-full">
-            {lead.status === 'exported' && (
+            {(lead.status === 'exported' ||
+              (!!lead.woodpecker_campaign_id && lead.status !== 'deleted')) && (
               <Button
                 variant="destructive"
                 onClick={() => {
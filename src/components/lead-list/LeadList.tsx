@@ -28,8 +28,21 @@ interface LeadListProps {
   onLeadDetail?: (lead: LeadData) => void
   onStatusUpdate?: (leadId: string, status: LeadData['status']) => void
   onDeleteLead?: (leadId: string) => void
+  // Latest batch generation error per lead id, shown next to failed leads
+  generationErrors?: Record<string, string>
 }
 
+// Statuses a lead can hold once it has been pushed to Woodpecker
+const POST_EXPORT_STATUSES = new Set<LeadStatus>([
+  'exported',
+  'opened',
+  'replied',
+  'interested',
+  'autoreplied',
+  'bounced',
+  'blacklisted',
+])
+
 type SortField = string
 type SortDirection = 'asc' | 'desc'
 
@@ -45,6 +58,7 @@ const LeadList = memo(function LeadList({
   onLeadSelect,
   onLeadDetail,
   onDeleteLead,
+  generationErrors,
 }: LeadListProps) {
   const [searchTerm, setSearchTerm] = useState('')
   const [statusFilter, setStatusFilter] = useState<LeadStatus | 'all'>('all')
@@ -179,6 +193,16 @@ const LeadList = memo(function LeadList({
         return 'bg-yellow-100 text-yellow-800'
       case 'exported':
         return 'bg-gray-100 text-gray-800'
+      case 'opened':
+        return 'bg-indigo-100 text-indigo-800'
+      case 'replied':
+      case 'interested':
+        return 'bg-green-100 text-green-800'
+      case 'autoreplied':
+        return 'bg-purple-100 text-purple-800'
+      case 'bounced':
+      case 'blacklisted':
+        return 'bg-red-100 text-red-800'
       default:
         return 'bg-gray-100 text-gray-800'
     }
@@ -290,6 +314,12 @@ const LeadList = memo(function LeadList({
             <option value="drafted">Drafted</option>
             <option value="approved">Approved</option>
             <option value="exported">Exported</option>
+            <option value="opened">Opened</option>
+            <option value="replied">Replied</option>
+            <option value="interested">Interested</option>
+            <option value="autoreplied">Auto-replied</option>
+            <option value="bounced">Bounced</option>
+            <option value="blacklisted">Blacklisted</option>
             <option value="deleted">Deleted</option>
           </select>
         </div>
@@ -343,9 +373,24 @@ const LeadList = memo(function LeadList({
                     />
                   </TableCell>
                   <TableCell>
-                    <Badge className={getStatusColor(lead.status)}>
+                    <Badge
+                      className={getStatusColor(lead.status)}
+                      title={
+                        lead.engagement_synced_at
+                          ? `Synced from Woodpecker ${new Date(String(lead.engagement_synced_at)).toLocaleString()}`
+                          : undefined
+                      }
+                    >
                       {lead.status}
                     </Badge>
+                    {lead.status === 'failed' && generationErrors?.[lead.id] && (
+                      <div
+                        className="mt-1 max-w-[160px] truncate text-xs text-red-600"
+                        title={generationErrors[lead.id]}
+                      >
+                        {generationErrors[lead.id]}
+                      </div>
+                    )}
                   </TableCell>
                   {displayColumns.map(({ key, getDisplayValue }) => (
                     <TableCell key={key}>
@@ -382,7 +427,7 @@ const LeadList = memo(function LeadList({
                           <Sparkles className="h-4 w-4" />
                         </Button>
                       )}
-                      {lead.status === 'exported' && (
+                      {POST_EXPORT_STATUSES.has(lead.status) && (
                         <Button
                           size="sm"
                           variant="destructive"
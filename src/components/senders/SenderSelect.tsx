@@ -0,0 +1,45 @@
+import { useSenderProfiles } from '@/hooks/useSenderProfiles'
+import { cn } from '@/lib/utils'
+
+interface SenderSelectProps {
+  id?: string
+  value: number | null
+  onChange: (senderId: number | null) => void
+  // Label of the "no sender chosen" option, e.g. what the lead falls back to
+  emptyLabel?: string
+  disabled?: boolean
+  className?: string
+}
+
+export function SenderSelect({
+  id,
+  value,
+  onChange,
+  emptyLabel = 'Default sender',
+  disabled = false,
+  className,
+}: SenderSelectProps) {
+  const profiles = useSenderProfiles()
+
+  return (
+    <select
+      id={id}
+      className={cn('h-9 px-2 border border-input rounded-md bg-transparent text-sm', className)}
+      value={value ?? ''}
+      onChange={(e) => onChange(e.target.value ? Number(e.target.value) : null)}
+      disabled={disabled || profiles.length === 0}
+      aria-label="Sender"
+    >
+      <option value="">{profiles.length === 0 ? 'No sender profiles yet' : emptyLabel}</option>
+      {profiles.map((profile) => (
+        <option key={profile.id} value={profile.id}>
+          {profile.name}
+          {profile.title ? ` – ${profile.title}` : ''}
+          {profile.is_default ? ' (default)' : ''}
+        </option>
+      ))}
+    </select>
+  )
+}
+
+export default SenderSelect
@@ -0,0 +1,159 @@
+import { useEffect, useState } from 'react'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Textarea } from '@/components/ui/textarea'
+import { Checkbox } from '@/components/ui/checkbox'
+import { Label } from '@/components/ui/label'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import { toast } from 'sonner'
+import { Loader2, RotateCcw, Save } from 'lucide-react'
+import {
+  DEFAULT_LINT_CONFIG,
+  LINT_RULE_LABELS,
+  resolveLintConfig,
+  type ContentLintConfig,
+  type LintRuleId,
+  type LintSeverity,
+} from '@/utils/contentLinter'
+
+const SELECT_CLASS = 'h-9 px-2 border border-input rounded-md bg-transparent text-sm'
+
+const SEVERITIES: LintSeverity[] = ['error', 'warning', 'info']
+
+// Numeric settings shown next to a rule
+const NUMBER_SETTINGS: Partial<Record<LintRuleId, Array<{ key: string; label: string }>>> = {
+  links: [{ key: 'max', label: 'Max links' }],
+  allCaps: [{ key: 'minLength', label: 'Min letters' }],
+  exclamations: [{ key: 'max', label: 'Max marks' }],
+  readingLevel: [{ key: 'maxGrade', label: 'Max grade' }],
+  subjectLength: [
+    { key: 'minLength', label: 'Min characters' },
+    { key: 'maxLength', label: 'Max characters' },
+  ],
+}
+
+// Word lists, edited one entry per line
+const LIST_SETTINGS: Partial<Record<LintRuleId, { key: string; label: string }>> = {
+  spamWords: { key: 'words', label: 'Trigger words and phrases' },
+  unresolvedVariables: { key: 'allowed', label: 'Variables Woodpecker fills in (e.g. FIRST_NAME)' },
+}
+
+export function ContentLintSettings() {
+  const [config, setConfig] = useState<ContentLintConfig>(DEFAULT_LINT_CONFIG)
+  const [isSaving, setIsSaving] = useState(false)
+
+  useEffect(() => {
+    window.api.settings
+      .getContentLint()
+      .then((saved) => setConfig(resolveLintConfig(saved)))
+      .catch((error) => console.error('Failed to load lint settings:', error))
+  }, [])
+
+  const updateRule = (rule: LintRuleId, changes: Record<string, unknown>) => {
+    setConfig((prev) => ({ ...prev, [rule]: { ...prev[rule], ...changes } }))
+  }
+
+  const save = async () => {
+    // Lists keep blank lines while they are edited; drop them when saving
+    const cleaned = { ...config }
+    for (const [rule, list] of Object.entries(LIST_SETTINGS) as Array<[LintRuleId, { key: string }]>) {
+      const entries = (config[rule] as unknown as Record<string, string[]>)[list.key]
+      Object.assign(cleaned, {
+        [rule]: { ...config[rule], [list.key]: entries.map((entry) => entry.trim()).filter(Boolean) },
+      })
+    }
+
+    setIsSaving(true)
+    try {
+      await window.api.settings.updateContentLint(cleaned)
+      setConfig(cleaned)
+      toast.success('Lint rules saved')
+    } catch (error) {
+      toast.error('Failed to save lint rules')
+      console.error('Failed to save lint rules:', error)
+    } finally {
+      setIsSaving(false)
+    }
+  }
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Content Linter</CardTitle>
+        <CardDescription>
+          Deliverability and quality checks shown under each snippet in the plain text editor
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {(Object.keys(LINT_RULE_LABELS) as LintRuleId[]).map((rule) => {
+          const settings = config[rule] as ContentLintConfig[LintRuleId] & Record<string, unknown>
+          const list = LIST_SETTINGS[rule]
+          return (
+            <div key={rule} className="space-y-2 rounded border p-3">
+              <div className="flex flex-wrap items-center gap-3">
+                <Checkbox
+                  id={`lint-${rule}`}
+                  checked={settings.enabled}
+                  onCheckedChange={(checked) => updateRule(rule, { enabled: checked === true })}
+                />
+                <Label htmlFor={`lint-${rule}`} className="flex-1">
+                  {LINT_RULE_LABELS[rule]}
+                </Label>
+                {(NUMBER_SETTINGS[rule] || []).map(({ key, label }) => (
+                  <Input
+                    key={key}
+                    type="number"
+                    min="0"
+                    className="w-28"
+                    value={String(settings[key])}
+                    onChange={(e) => updateRule(rule, { [key]: Math.max(0, Number(e.target.value) || 0) })}
+                    disabled={!settings.enabled}
+                    aria-label={label}
+                    title={label}
+                  />
+                ))}
+                <select
+                  className={SELECT_CLASS}
+                  value={settings.severity}
+                  onChange={(e) => updateRule(rule, { severity: e.target.value as LintSeverity })}
+                  disabled={!settings.enabled}
+                  aria-label={`${LINT_RULE_LABELS[rule]} severity`}
+                >
+                  {SEVERITIES.map((severity) => (
+                    <option key={severity} value={severity}>
+                      {severity}
+                    </option>
+                  ))}
+                </select>
+              </div>
+              {list && (
+                <Textarea
+                  value={(settings[list.key] as string[]).join('\n')}
+                  onChange={(e) =>
+                    updateRule(rule, { [list.key]: e.target.value.split('\n') })
+                  }
+                  disabled={!settings.enabled}
+                  placeholder="One per line"
+                  aria-label={list.label}
+                  className="min-h-[80px] text-sm"
+                />
+              )}
+            </div>
+          )
+        })}
+        <div className="flex justify-end gap-2">
+          <Button variant="ghost" onClick={() => setConfig(DEFAULT_LINT_CONFIG)} disabled={isSaving}>
+            <RotateCcw className="mr-2 h-4 w-4" />
+            Reset to Defaults
+          </Button>
+          <Button onClick={save} disabled={isSaving} variant="outline">
+            {isSaving ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <Save className="mr-2 h-4 w-4" />}
+            Save Lint Rules
+          </Button>
+        </div>
+      </CardContent>
+    </Card>
+  )
+}
+
+export default ContentLintSettings
@@ -0,0 +1,234 @@
+import { useCallback, useEffect, useState } from 'react'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Textarea } from '@/components/ui/textarea'
+import { Checkbox } from '@/components/ui/checkbox'
+import { Label } from '@/components/ui/label'
+import { Badge } from '@/components/ui/badge'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import { toast } from 'sonner'
+import { Loader2, Pencil, Plus, Save, Trash2 } from 'lucide-react'
+import { senderSignature } from '@/utils/contentConverter'
+import type { SenderProfileInput, SenderProfileRecord } from '@/types/api'
+
+interface SenderDraft {
+  name: string
+  title: string
+  signature: string
+  calendar_link: string
+  tone_notes: string
+  woodpecker_email_account_id: string
+  is_default: boolean
+}
+
+const EMPTY_DRAFT: SenderDraft = {
+  name: '',
+  title: '',
+  signature: '',
+  calendar_link: '',
+  tone_notes: '',
+  woodpecker_email_account_id: '',
+  is_default: false,
+}
+
+function toDraft(profile: SenderProfileRecord): SenderDraft {
+  return {
+    name: profile.name,
+    title: profile.title || '',
+    signature: profile.signature || '',
+    calendar_link: profile.calendar_link || '',
+    tone_notes: profile.tone_notes || '',
+    woodpecker_email_account_id: profile.woodpecker_email_account_id ? String(profile.woodpecker_email_account_id) : '',
+    is_default: profile.is_default,
+  }
+}
+
+function toInput(draft: SenderDraft): SenderProfileInput {
+  return {
+    ...draft,
+    woodpecker_email_account_id: Number(draft.woodpecker_email_account_id) || null,
+  }
+}
+
+export function SenderProfilesSettings() {
+  const [profiles, setProfiles] = useState<SenderProfileRecord[]>([])
+  const [editingId, setEditingId] = useState<number | null>(null)
+  const [draft, setDraft] = useState<SenderDraft>(EMPTY_DRAFT)
+  const [isSaving, setIsSaving] = useState(false)
+
+  const loadProfiles = useCallback(async () => {
+    const response = await window.api.senderProfiles.getAll()
+    if (response.success) {
+      setProfiles(response.data)
+    } else {
+      console.error('Failed to load sender profiles:', response.error)
+    }
+  }, [])
+
+  useEffect(() => {
+    loadProfiles()
+  }, [loadProfiles])
+
+  const resetForm = () => {
+    setEditingId(null)
+    setDraft(EMPTY_DRAFT)
+  }
+
+  const save = async () => {
+    setIsSaving(true)
+    try {
+      const response = editingId
+        ? await window.api.senderProfiles.update(editingId, toInput(draft))
+        : await window.api.senderProfiles.create(toInput(draft))
+      if (!response.success) {
+        toast.error(response.error?.message || 'Failed to save sender profile')
+        return
+      }
+      toast.success(editingId ? 'Sender profile saved' : `Added ${draft.name.trim()}`)
+      resetForm()
+      await loadProfiles()
+    } finally {
+      setIsSaving(false)
+    }
+  }
+
+  const remove = async (profile: SenderProfileRecord) => {
+    if (!window.confirm(`Delete ${profile.name}? Leads assigned to them fall back to the default sender.`)) return
+
+    const response = await window.api.senderProfiles.delete(profile.id!)
+    if (response.success) {
+      if (editingId === profile.id) resetForm()
+      await loadProfiles()
+    } else {
+      toast.error(response.error?.message || 'Failed to delete sender profile')
+    }
+  }
+
+  const update = (changes: Partial<SenderDraft>) => setDraft((prev) => ({ ...prev, ...changes }))
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Sender Profiles</CardTitle>
+        <CardDescription>
+          Who sequences are sent from. Imports and leads are assigned a sender; the default covers the rest.
+          Prompts can use {'{{sender_name}}'}, {'{{sender_title}}'}, {'{{sender_calendar_link}}'} and {'{{sender_tone}}'}
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {profiles.map((profile) => (
+          <div key={profile.id} className="flex items-start justify-between gap-3 rounded border p-3">
+            <div className="space-y-1 text-sm">
+              <div className="flex items-center gap-2 font-medium">
+                {profile.name}
+                {profile.title && <span className="font-normal text-muted-foreground">{profile.title}</span>}
+                {profile.is_default && <Badge variant="secondary">Default</Badge>}
+              </div>
+              <pre className="whitespace-pre-wrap font-sans text-xs text-muted-foreground">
+                {senderSignature(profile)}
+              </pre>
+            </div>
+            <div className="flex shrink-0 gap-1">
+              <Button
+                variant="ghost"
+                size="sm"
+                onClick={() => {
+                  setEditingId(profile.id!)
+                  setDraft(toDraft(profile))
+                }}
+                aria-label={`Edit ${profile.name}`}
+              >
+                <Pencil className="h-4 w-4" />
+              </Button>
+              <Button variant="ghost" size="sm" onClick={() => remove(profile)} aria-label={`Delete ${profile.name}`}>
+                <Trash2 className="h-4 w-4" />
+              </Button>
+            </div>
+          </div>
+        ))}
+
+        <div className="space-y-3 rounded border p-3">
+          <div className="grid grid-cols-2 gap-3">
+            <div className="space-y-1">
+              <Label htmlFor="sender-name">Name</Label>
+              <Input id="sender-name" value={draft.name} onChange={(e) => update({ name: e.target.value })} />
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="sender-title">Title</Label>
+              <Input id="sender-title" value={draft.title} onChange={(e) => update({ title: e.target.value })} />
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="sender-calendar">Calendar link</Label>
+              <Input
+                id="sender-calendar"
+                value={draft.calendar_link}
+                onChange={(e) => update({ calendar_link: e.target.value })}
+                placeholder="https://cal.com/..."
+              />
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="sender-mailbox">Woodpecker mailbox ID</Label>
+              <Input
+                id="sender-mailbox"
+                type="number"
+                min="1"
+                value={draft.woodpecker_email_account_id}
+                onChange={(e) => update({ woodpecker_email_account_id: e.target.value })}
+                placeholder="Used for new campaigns"
+              />
+            </div>
+          </div>
+          <div className="space-y-1">
+            <Label htmlFor="sender-signature">Signature</Label>
+            <Textarea
+              id="sender-signature"
+              value={draft.signature}
+              onChange={(e) => update({ signature: e.target.value })}
+              placeholder={'Leave empty to sign off with "Best," and the name and title'}
+              className="min-h-[80px] text-sm"
+            />
+          </div>
+          <div className="space-y-1">
+            <Label htmlFor="sender-tone">Tone notes</Label>
+            <Textarea
+              id="sender-tone"
+              value={draft.tone_notes}
+              onChange={(e) => update({ tone_notes: e.target.value })}
+              placeholder="e.g. Warm and direct, no jargon"
+              className="min-h-[60px] text-sm"
+            />
+          </div>
+          <div className="flex items-center justify-between">
+            <div className="flex items-center gap-2">
+              <Checkbox
+                id="sender-default"
+                checked={draft.is_default}
+                onCheckedChange={(checked) => update({ is_default: checked === true })}
+              />
+              <Label htmlFor="sender-default">Default sender</Label>
+            </div>
+            <div className="flex gap-2">
+              {editingId && (
+                <Button variant="ghost" onClick={resetForm} disabled={isSaving}>
+                  Cancel
+                </Button>
+              )}
+              <Button onClick={save} disabled={isSaving || !draft.name.trim()} variant="outline">
+                {isSaving ? (
+                  <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                ) : editingId ? (
+                  <Save className="mr-2 h-4 w-4" />
+                ) : (
+                  <Plus className="mr-2 h-4 w-4" />
+                )}
+                {editingId ? 'Save Sender' : 'Add Sender'}
+              </Button>
+            </div>
+          </div>
+        </div>
+      </CardContent>
+    </Card>
+  )
+}
+
+export default SenderProfilesSettings
@@ -5,6 +5,10 @@ import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/com
 import { Label } from '@/components/ui/label'
 import { toast } from 'sonner'
 import { Check, X, Loader2, Eye, EyeOff, Save, Download, Upload, Database, AlertTriangle } from 'lucide-react'
+import { formatPrice } from '@/utils/tokenCounter'
+import type { BudgetStatus } from '@/types/api'
+import ContentLintSettings from './ContentLintSettings'
+import SenderProfilesSettings from './SenderProfilesSettings'
 
 export function Settings() {
   const [claudeApiKey, setClaudeApiKey] = useState('')
@@ -25,10 +29,15 @@ export function Settings() {
   const [databaseInfo, setDatabaseInfo] = useState<any>(null)
   const [isExporting, setIsExporting] = useState(false)
   const [isImporting, setIsImporting] = useState(false)
+  const [monthlyLimit, setMonthlyLimit] = useState('')
+  const [perImportLimit, setPerImportLimit] = useState('')
+  const [budgetStatus, setBudgetStatus] = useState<BudgetStatus | null>(null)
+  const [isSavingBudgets, setIsSavingBudgets] = useState(false)
 
   useEffect(() => {
     loadExistingKeys()
     loadDatabaseInfo()
+    loadBudgets()
   }, [])
 
   const loadExistingKeys = async () => {
@@ -49,6 +58,41 @@ export function Settings() {
     }
   }
 
+  const loadBudgets = async () => {
+    try {
+      const response = await window.api.usage.getBudgetStatus()
+      if (response.success) {
+        setBudgetStatus(response.data)
+        setMonthlyLimit(response.data.budgets.monthlyLimitUsd?.toString() || '')
+        setPerImportLimit(response.data.budgets.perImportLimitUsd?.toString() || '')
+      }
+    } catch (error) {
+      console.error('Failed to load budgets:', error)
+    }
+  }
+
+  const saveBudgets = async () => {
+    const parse = (value: string) => (value.trim() === '' ? null : Number(value))
+    const budgets = { monthlyLimitUsd: parse(monthlyLimit), perImportLimitUsd: parse(perImportLimit) }
+
+    if (Object.values(budgets).some(value => value !== null && (!Number.isFinite(value) || value < 0))) {
+      toast.error('Budgets must be positive amounts in USD')
+      return
+    }
+
+    setIsSavingBudgets(true)
+    try {
+      await window.api.settings.updateBudgets(budgets)
+      toast.success('Budgets saved')
+      await loadBudgets()
+    } catch (error) {
+      toast.error('Failed to save budgets')
+      console.error('Failed to save budgets:', error)
+    } finally {
+      setIsSavingBudgets(false)
+    }
+  }
+
   const formatFileSize = (bytes: number) => {
     if (bytes < 1024) return `${bytes} B`
     if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`
@@ -329,6 +373,59 @@ export function Settings() {
           </Button>
         </div>
 
+        {/* Spend Budgets */}
+        <Card>
+          <CardHeader>
+            <CardTitle>Spend Budgets</CardTitle>
+            <CardDescription>
+              Bulk generation will not start when its projected cost exceeds a cap. Leave a field empty for no limit.
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            {budgetStatus?.monthly && (
+              <div className="text-sm text-muted-foreground bg-muted p-3 rounded">
+                This month: {formatPrice(budgetStatus.monthly.spentUsd)} spent, {formatPrice(budgetStatus.monthly.remainingUsd)} left
+              </div>
+            )}
+            <div className="grid grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label htmlFor="monthly-budget">Monthly budget (USD)</Label>
+                <Input
+                  id="monthly-budget"
+                  type="number"
+                  min="0"
+                  step="0.01"
+                  value={monthlyLimit}
+                  onChange={(e) => setMonthlyLimit(e.target.value)}
+                  placeholder="No limit"
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="import-budget">Budget per import (USD)</Label>
+                <Input
+                  id="import-budget"
+                  type="number"
+                  min="0"
+                  step="0.01"
+                  value={perImportLimit}
+                  onChange={(e) => setPerImportLimit(e.target.value)}
+                  placeholder="No limit"
+                />
+              </div>
+            </div>
+            <div className="flex justify-end">
+              <Button onClick={saveBudgets} disabled={isSavingBudgets} variant="outline">
+                {isSavingBudgets ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <Save className="mr-2 h-4 w-4" />}
+                Save Budgets
+              </Button>
+            </div>
+          </CardContent>
+        </Card>
+
+        <SenderProfilesSettings />
+
+        <ContentLintSettings />
+
         {/* Database Management */}
         <Card>
           <CardHeader>
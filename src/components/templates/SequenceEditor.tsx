@@ -0,0 +1,212 @@
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table'
+import { Plus, Trash2 } from 'lucide-react'
+import {
+  type SequenceTouchpoint,
+  MAX_SNIPPET_SLOTS,
+} from '@/utils/sequenceDefinition'
+
+interface SequenceEditorProps {
+  sequence: SequenceTouchpoint[]
+  onChange: (sequence: SequenceTouchpoint[]) => void
+  errors?: string[]
+}
+
+const SELECT_CLASS = 'h-9 px-2 border border-input rounded-md bg-transparent text-sm'
+
+// Optional lengths and slots are cleared rather than stored as 0
+function toOptional(value: string): number | undefined {
+  const length = parseInt(value, 10)
+  return Number.isFinite(length) && length > 0 ? length : undefined
+}
+
+function nextTouchpoint(sequence: SequenceTouchpoint[]): SequenceTouchpoint {
+  const used = new Set(
+    sequence.flatMap((touchpoint) => [touchpoint.slot, touchpoint.variantSlot])
+  )
+  const slot =
+    Array.from({ length: MAX_SNIPPET_SLOTS }, (_, i) => i + 1).find(
+      (candidate) => !used.has(candidate)
+    ) ?? MAX_SNIPPET_SLOTS
+  const last = sequence[sequence.length - 1]
+
+  return {
+    slot,
+    label: 'Follow-up Email',
+    channel: 'email',
+    part: 'body',
+    dayOffset: last ? last.dayOffset + 3 : 1,
+    format: 'html',
+    instructions: '',
+  }
+}
+
+/**
+ * Table editor for the touchpoints of a sequence: one row per snippet, in the
+ * order they are sent.
+ */
+export function SequenceEditor({ sequence, onChange, errors = [] }: SequenceEditorProps) {
+  const update = (index: number, changes: Partial<SequenceTouchpoint>) => {
+    onChange(
+      sequence.map((touchpoint, i) =>
+        i === index ? { ...touchpoint, ...changes } : touchpoint
+      )
+    )
+  }
+
+  const remove = (index: number) => {
+    onChange(sequence.filter((_, i) => i !== index))
+  }
+
+  return (
+    <div className="space-y-2">
+      <Table>
+        <TableHeader>
+          <TableRow>
+            <TableHead className="w-20">Day</TableHead>
+            <TableHead>Label</TableHead>
+            <TableHead>Channel</TableHead>
+            <TableHead>Part</TableHead>
+            <TableHead className="w-20">Snippet</TableHead>
+            <TableHead className="w-20">A/B slot</TableHead>
+            <TableHead>Format</TableHead>
+            <TableHead className="w-20">Min</TableHead>
+            <TableHead className="w-20">Max</TableHead>
+            <TableHead>Instructions</TableHead>
+            <TableHead className="w-10" />
+          </TableRow>
+        </TableHeader>
+        <TableBody>
+          {sequence.map((touchpoint, index) => (
+            <TableRow key={index}>
+              <TableCell>
+                <Input
+                  type="number"
+                  min={0}
+                  value={touchpoint.dayOffset}
+                  onChange={(e) => update(index, { dayOffset: parseInt(e.target.value, 10) || 0 })}
+                  aria-label="Day offset"
+                />
+              </TableCell>
+              <TableCell>
+                <Input
+                  value={touchpoint.label}
+                  onChange={(e) => update(index, { label: e.target.value })}
+                  aria-label="Label"
+                />
+              </TableCell>
+              <TableCell>
+                <select
+                  className={SELECT_CLASS}
+                  value={touchpoint.channel}
+                  onChange={(e) => update(index, { channel: e.target.value as SequenceTouchpoint['channel'] })}
+                  aria-label="Channel"
+                >
+                  <option value="email">Email</option>
+                  <option value="linkedin">LinkedIn</option>
+                </select>
+              </TableCell>
+              <TableCell>
+                <select
+                  className={SELECT_CLASS}
+                  value={touchpoint.part}
+                  onChange={(e) => update(index, { part: e.target.value as SequenceTouchpoint['part'] })}
+                  aria-label="Part"
+                >
+                  <option value="body">Body</option>
+                  <option value="subject">Subject</option>
+                </select>
+              </TableCell>
+              <TableCell>
+                <Input
+                  type="number"
+                  min={1}
+                  max={MAX_SNIPPET_SLOTS}
+                  value={touchpoint.slot}
+                  onChange={(e) => update(index, { slot: parseInt(e.target.value, 10) || 0 })}
+                  aria-label="Snippet slot"
+                />
+              </TableCell>
+              <TableCell>
+                <Input
+                  type="number"
+                  min={1}
+                  max={MAX_SNIPPET_SLOTS}
+                  value={touchpoint.variantSlot ?? ''}
+                  onChange={(e) => update(index, { variantSlot: toOptional(e.target.value) })}
+                  placeholder="None"
+                  aria-label="Variant slot"
+                />
+              </TableCell>
+              <TableCell>
+                <select
+                  className={SELECT_CLASS}
+                  value={touchpoint.format}
+                  onChange={(e) => update(index, { format: e.target.value as SequenceTouchpoint['format'] })}
+                  aria-label="Format"
+                >
+                  <option value="html">HTML</option>
+                  <option value="text">Plain text</option>
+                </select>
+              </TableCell>
+              <TableCell>
+                <Input
+                  type="number"
+                  min={0}
+                  value={touchpoint.minLength ?? ''}
+                  onChange={(e) => update(index, { minLength: toOptional(e.target.value) })}
+                  aria-label="Minimum length"
+                />
+              </TableCell>
+              <TableCell>
+                <Input
+                  type="number"
+                  min={0}
+                  value={touchpoint.maxLength ?? ''}
+                  onChange={(e) => update(index, { maxLength: toOptional(e.target.value) })}
+                  aria-label="Maximum length"
+                />
+              </TableCell>
+              <TableCell>
+                <Input
+                  value={touchpoint.instructions}
+                  onChange={(e) => update(index, { instructions: e.target.value })}
+                  aria-label="Instructions"
+                />
+              </TableCell>
+              <TableCell>
+                <Button variant="ghost" size="sm" onClick={() => remove(index)} aria-label="Remove touchpoint">
+                  <Trash2 className="h-4 w-4" />
+                </Button>
+              </TableCell>
+            </TableRow>
+          ))}
+        </TableBody>
+      </Table>
+      {errors.length > 0 && (
+        <ul className="text-xs text-destructive space-y-1">
+          {errors.map((error) => (
+            <li key={error}>{error}</li>
+          ))}
+        </ul>
+      )}
+      <Button
+        variant="outline"
+        size="sm"
+        onClick={() => onChange([...sequence, nextTouchpoint(sequence)])}
+        disabled={sequence.length >= MAX_SNIPPET_SLOTS}
+      >
+        <Plus className="mr-2 h-4 w-4" />
+        Add Touchpoint
+      </Button>
+    </div>
+  )
+}
@@ -0,0 +1,226 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import Database from 'better-sqlite3';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { initializeDatabase, closeDatabase } from '../init';
+import { setAppDataPath } from '../config';
+import { CREATE_TABLES_SQL, CURRENT_SCHEMA_VERSION } from '../schema';
+
+// Imports table as shipped before sender profiles (schema 12.0.0 and earlier)
+const V2_IMPORTS_SQL = `
+  CREATE TABLE imports (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    filename TEXT NOT NULL,
+    import_date DATETIME DEFAULT CURRENT_TIMESTAMP,
+    status TEXT NOT NULL CHECK (status IN ('pending', 'processing', 'completed', 'failed')),
+    lead_count INTEGER DEFAULT 0,
+    error_messages TEXT,
+    created_at DATETIME DEFAULT CURRENT_TIMESTAMP
+  )
+`;
+
+// Leads table as shipped in schema 2.0.0
+const V2_LEADS_SQL = `
+  CREATE TABLE leads (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    import_id INTEGER NOT NULL,
+    -- Core Woodpecker fields
+    first_name TEXT,
+    last_name TEXT,
+    company TEXT,
+    email TEXT,
+    title TEXT,
+    phone TEXT,
+    website TEXT,
+    linkedin_url TEXT,
+    -- Location fields
+    address TEXT,
+    city TEXT,
+    state TEXT,
+    country TEXT,
+    -- Additional Woodpecker fields
+    industry TEXT,
+    tags TEXT,
+    -- Custom snippets (1-15)
+    snippet1 TEXT,
+    snippet2 TEXT,
+    snippet3 TEXT,
+    snippet4 TEXT,
+    snippet5 TEXT,
+    snippet6 TEXT,
+    snippet7 TEXT,
+    snippet8 TEXT,
+    snippet9 TEXT,
+    snippet10 TEXT,
+    snippet11 TEXT,
+    snippet12 TEXT,
+    snippet13 TEXT,
+    snippet14 TEXT,
+    snippet15 TEXT,
+    -- Legacy field for truly custom data
+    additional_fields TEXT, -- JSON string for any non-standard fields
+    -- Status and tracking
+    status TEXT DEFAULT 'imported' CHECK (status IN ('imported', 'generating', 'drafted', 'approved', 'exported', 'failed', 'deleted')),
+    woodpecker_campaign_id TEXT,
+    export_date DATETIME,
+    created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+    FOREIGN KEY (import_id) REFERENCES imports(id) ON DELETE CASCADE
+  )
+`;
+
+// Generated content table as shipped before template versions (schema 6.0.0 and earlier)
+const V2_GENERATED_CONTENT_SQL = `
+  CREATE TABLE generated_content (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    lead_id INTEGER NOT NULL,
+    touchpoint_number INTEGER NOT NULL,
+    content TEXT NOT NULL,
+    content_type TEXT NOT NULL CHECK (content_type IN ('email', 'subject', 'template')),
+    template_id TEXT,
+    status TEXT DEFAULT 'draft' CHECK (status IN ('draft', 'approved', 'rejected')),
+    generated_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+    approved_at DATETIME,
+    FOREIGN KEY (lead_id) REFERENCES leads(id) ON DELETE CASCADE
+  )
+`;
+
+describe('Schema upgrades', () => {
+  const testDir = fs.mkdtempSync(path.join(os.tmpdir(), 'schema-upgrades-'));
+  const dbPath = path.join(testDir, 'leads.db');
+
+  beforeEach(() => {
+    setAppDataPath(testDir);
+    for (const suffix of ['', '-shm', '-wal']) {
+      fs.rmSync(`${dbPath}${suffix}`, { force: true });
+    }
+
+    const db = new Database(dbPath);
+    db.pragma('foreign_keys = ON');
+    db.exec(V2_IMPORTS_SQL);
+    db.exec(V2_LEADS_SQL);
+    db.exec(V2_GENERATED_CONTENT_SQL);
+    db.exec(CREATE_TABLES_SQL.app_metadata);
+    db.prepare('INSERT INTO app_metadata (key, value) VALUES (?, ?)').run('schema_version', '2.0.0');
+    db.prepare('INSERT INTO app_metadata (key, value) VALUES (?, ?)').run('last_migration', '2.0.0');
+    db.prepare("INSERT INTO imports (id, filename, status) VALUES (1, 'old.csv', 'completed')").run();
+    db.prepare("INSERT INTO leads (id, import_id, email, status, woodpecker_campaign_id) VALUES (1, 1, 'a@test.com', 'exported', '123')").run();
+    db.prepare("INSERT INTO generated_content (lead_id, touchpoint_number, content, content_type) VALUES (1, 1, '{}', 'email')").run();
+    db.close();
+  });
+
+  it('should upgrade a v2 database to the current version', () => {
+    const db = initializeDatabase();
+
+    const version = db.prepare('SELECT value FROM app_metadata WHERE key = ?').get('schema_version') as { value: string };
+    expect(version.value).toBe(CURRENT_SCHEMA_VERSION);
+
+    const lead = db.prepare('SELECT * FROM leads WHERE id = 1').get() as Record<string, unknown>;
+    expect(lead.email).toBe('a@test.com');
+    expect(lead.woodpecker_campaign_id).toBe('123');
+    expect(lead).toHaveProperty('engagement_synced_at');
+    expect(lead).toHaveProperty('sender_id');
+    expect(db.prepare('SELECT * FROM imports WHERE id = 1').get()).toHaveProperty('sender_id', null);
+
+    closeDatabase(db);
+  });
+
+  it('should keep generated content attached to rebuilt leads', () => {
+    const db = initializeDatabase();
+
+    const content = db.prepare('SELECT COUNT(*) as count FROM generated_content WHERE lead_id = 1').get() as { count: number };
+    expect(content.count).toBe(1);
+
+    const violations = db.prepare('PRAGMA foreign_key_check').all();
+    expect(violations).toHaveLength(0);
+
+    closeDatabase(db);
+  });
+
+  it('should clear free-text template ids when generated content starts referencing template versions', () => {
+    const old = new Database(dbPath);
+    old.prepare("UPDATE generated_content SET template_id = 'template-123'").run();
+    old.close();
+
+    const db = initializeDatabase();
+
+    const content = db.prepare('SELECT template_id FROM generated_content WHERE lead_id = 1').get() as { template_id: number | null };
+    expect(content.template_id).toBeNull();
+    expect(db.prepare('PRAGMA foreign_key_check(generated_content)').all()).toHaveLength(0);
+
+    closeDatabase(db);
+  });
+
+  it('should allow engagement statuses after upgrading', () => {
+    const db = initializeDatabase();
+
+    expect(() => {
+      db.prepare("UPDATE leads SET status = 'replied' WHERE id = 1").run();
+    }).not.toThrow();
+
+    closeDatabase(db);
+  });
+
+  it('should split the latest sequence of each lead into touchpoint rows', () => {
+    const old = new Database(dbPath);
+    old.prepare("UPDATE generated_content SET content = ?, status = 'approved'").run(JSON.stringify({ snippet1: 'Old subject' }));
+    old.prepare("INSERT INTO generated_content (lead_id, touchpoint_number, content, content_type, status) VALUES (1, 1, ?, 'email', 'approved')")
+      .run(JSON.stringify({ email: 'a@test.com', snippet1: 'Subject', snippet2: '<div>Body</div>', snippet3: 'Connect?' }));
+    old.close();
+
+    const db = initializeDatabase();
+
+    const rows = db.prepare('SELECT * FROM generated_content WHERE lead_id = 1 ORDER BY touchpoint_number').all() as Record<string, unknown>[];
+    expect(rows.map(row => [row.touchpoint_number, row.snippet_field, row.content_type, row.content, row.status])).toEqual([
+      [1, 'snippet1', 'subject', 'Subject', 'approved'],
+      [2, 'snippet2', 'email', '<div>Body</div>', 'approved'],
+      [3, 'snippet3', 'linkedin', 'Connect?', 'approved']
+    ]);
+
+    closeDatabase(db);
+  });
+
+  it('should add the A/B variant columns to generated content', () => {
+    const db = initializeDatabase();
+
+    const columns = (db.prepare('PRAGMA table_info(generated_content)').all() as { name: string }[]).map(c => c.name);
+    expect(columns).toEqual(expect.arrayContaining(['snippet_field', 'variant_label', 'exported_field']));
+
+    closeDatabase(db);
+  });
+
+  it('should link generated content to generation runs', () => {
+    const db = initializeDatabase();
+
+    const columns = (db.prepare('PRAGMA table_info(generated_content)').all() as { name: string }[]).map(c => c.name);
+    expect(columns).toContain('generation_run_id');
+    expect(db.prepare('SELECT generation_run_id FROM generated_content').all()).toEqual([
+      expect.objectContaining({ generation_run_id: null }),
+    ]);
+    expect(db.prepare("SELECT name FROM sqlite_master WHERE type = 'table' AND name = 'generation_runs'").get()).toBeDefined();
+
+    closeDatabase(db);
+  });
+
+  it('should record snippet rewrites and variants as generation runs', () => {
+    const db = initializeDatabase();
+
+    expect(() => {
+      db.prepare("INSERT INTO generation_runs (lead_id, operation, model_id, prompt, status) VALUES (1, 'rewrite', 'm', 'p', 'succeeded')").run();
+      db.prepare("INSERT INTO generation_runs (lead_id, operation, model_id, prompt, status) VALUES (1, 'variants', 'm', 'p', 'succeeded')").run();
+    }).not.toThrow();
+
+    closeDatabase(db);
+  });
+
+  it('should add the few-shot example curation table', () => {
+    const db = initializeDatabase();
+
+    expect(db.prepare('SELECT * FROM few_shot_examples').all()).toEqual([]);
+    expect(() => {
+      db.prepare("INSERT INTO few_shot_examples (lead_id, status) VALUES (1, 'pinned')").run();
+    }).not.toThrow();
+
+    closeDatabase(db);
+  });
+});
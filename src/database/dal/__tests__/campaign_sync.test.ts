@@ -0,0 +1,105 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { CampaignSyncDAL } from '../campaign_sync';
+import { LeadsDAL } from '../leads';
+import { ImportsDAL } from '../imports';
+import { initializeDatabase, closeDatabase } from '../../init';
+import { setAppDataPath } from '../../config';
+import { dbPool } from '../../utils';
+
+describe('CampaignSyncDAL', () => {
+  const testDir = fs.mkdtempSync(path.join(os.tmpdir(), 'campaign-sync-'));
+  let importId: number;
+
+  beforeEach(() => {
+    dbPool.closeAll();
+    setAppDataPath(testDir);
+    for (const suffix of ['', '-shm', '-wal']) {
+      fs.rmSync(path.join(testDir, `leads.db${suffix}`), { force: true });
+    }
+    closeDatabase(initializeDatabase());
+
+    importId = ImportsDAL.create({ filename: 'test.csv', status: 'completed' }).id!;
+  });
+
+  afterEach(() => {
+    dbPool.closeAll();
+  });
+
+  describe('recordSync', () => {
+    it('should create sync state for a new campaign', () => {
+      const result = CampaignSyncDAL.recordSync('123', {
+        prospectsSeen: 10,
+        leadsUpdated: 3,
+        syncedAt: '2024-01-01T00:00:00.000Z'
+      });
+
+      expect(result.campaign_id).toBe('123');
+      expect(result.last_synced_at).toBe('2024-01-01T00:00:00.000Z');
+      expect(result.prospects_seen).toBe(10);
+      expect(result.leads_updated).toBe(3);
+      expect(result.last_error).toBeNull();
+    });
+
+    it('should overwrite previous results and clear errors', () => {
+      CampaignSyncDAL.recordError('123', 'Woodpecker API error: HTTP 500');
+      const result = CampaignSyncDAL.recordSync('123', { prospectsSeen: 5, leadsUpdated: 1 });
+
+      expect(result.prospects_seen).toBe(5);
+      expect(result.last_error).toBeNull();
+      expect(CampaignSyncDAL.getAll()).toHaveLength(1);
+    });
+  });
+
+  describe('recordError', () => {
+    it('should keep the last successful sync time', () => {
+      CampaignSyncDAL.recordSync('123', {
+        prospectsSeen: 10,
+        leadsUpdated: 3,
+        syncedAt: '2024-01-01T00:00:00.000Z'
+      });
+
+      const result = CampaignSyncDAL.recordError('123', 'timeout');
+
+      expect(result.last_error).toBe('timeout');
+      expect(result.last_synced_at).toBe('2024-01-01T00:00:00.000Z');
+    });
+  });
+
+  describe('getByCampaign', () => {
+    it('should return null for a campaign that was never synced', () => {
+      expect(CampaignSyncDAL.getByCampaign('999')).toBeNull();
+    });
+  });
+
+  describe('lead engagement', () => {
+    it('should accept post-export engagement statuses', () => {
+      const lead = LeadsDAL.create({ import_id: importId, email: 'a@test.com' });
+      LeadsDAL.updateWoodpeckerCampaign(lead.id!, '123');
+
+      const updated = LeadsDAL.updateEngagement(lead.id!, {
+        status: 'replied',
+        woodpecker_prospect_id: 42,
+        syncedAt: '2024-01-02T00:00:00.000Z'
+      });
+
+      expect(updated?.status).toBe('replied');
+      expect(updated?.woodpecker_prospect_id).toBe(42);
+      expect(updated?.engagement_synced_at).toBe('2024-01-02T00:00:00.000Z');
+    });
+
+    it('should list campaign leads regardless of engagement status', () => {
+      const first = LeadsDAL.create({ import_id: importId, email: 'a@test.com' });
+      const second = LeadsDAL.create({ import_id: importId, email: 'b@test.com' });
+      LeadsDAL.create({ import_id: importId, email: 'c@test.com' });
+      LeadsDAL.updateWoodpeckerCampaign(first.id!, '123');
+      LeadsDAL.updateWoodpeckerCampaign(second.id!, '456');
+      LeadsDAL.updateEngagement(first.id!, { status: 'opened' });
+
+      expect(LeadsDAL.getExportedCampaignIds()).toEqual(['123', '456']);
+      expect(LeadsDAL.getCampaignLeads('123').map(lead => lead.email)).toEqual(['a@test.com']);
+    });
+  });
+});
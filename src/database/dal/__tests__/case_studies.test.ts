@@ -0,0 +1,80 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { CaseStudiesDAL } from '../case_studies';
+import { initializeDatabase, closeDatabase } from '../../init';
+import { setAppDataPath } from '../../config';
+import { dbPool } from '../../utils';
+
+describe('CaseStudiesDAL', () => {
+  const testDir = fs.mkdtempSync(path.join(os.tmpdir(), 'case-studies-dal-'));
+
+  beforeEach(() => {
+    dbPool.closeAll();
+    setAppDataPath(testDir);
+    for (const suffix of ['', '-shm', '-wal']) {
+      fs.rmSync(path.join(testDir, `leads.db${suffix}`), { force: true });
+    }
+    closeDatabase(initializeDatabase());
+  });
+
+  afterEach(() => {
+    dbPool.closeAll();
+  });
+
+  describe('create', () => {
+    it('should trim fields and store blank optional fields as null', () => {
+      const caseStudy = CaseStudiesDAL.create({
+        customer: ' Northwind Bank ',
+        industry: '  ',
+        metric: '',
+        wording: 'Northwind cut new hire ramp time with our platform.'
+      });
+
+      expect(caseStudy).toEqual(expect.objectContaining({
+        customer: 'Northwind Bank',
+        industry: null,
+        metric: null,
+        active: true
+      }));
+    });
+  });
+
+  describe('getForIndustry', () => {
+    it('should return matching and cross-industry proof points, industry matches first', () => {
+      CaseStudiesDAL.create({ customer: 'Contoso', industry: null, wording: 'Used across the company.' });
+      CaseStudiesDAL.create({ customer: 'Northwind Bank', industry: 'Financial Services', wording: 'Faster onboarding.' });
+      CaseStudiesDAL.create({ customer: 'Fabrikam Health', industry: 'Healthcare', wording: 'Protocol training.' });
+      const inactive = CaseStudiesDAL.create({ customer: 'Adatum', industry: 'Financial Services', wording: 'Old pilot.' });
+      CaseStudiesDAL.update(inactive.id!, { active: false });
+
+      expect(CaseStudiesDAL.getForIndustry(' financial services').map(study => study.customer)).toEqual([
+        'Northwind Bank',
+        'Contoso'
+      ]);
+      expect(CaseStudiesDAL.getForIndustry(null).map(study => study.customer)).toEqual(['Contoso']);
+    });
+  });
+
+  describe('update and delete', () => {
+    it('should update only the given fields and leave inactive entries out of getAll', () => {
+      const caseStudy = CaseStudiesDAL.create({
+        customer: 'Northwind Bank',
+        industry: 'Financial Services',
+        metric: '40% faster ramp time',
+        wording: 'Faster onboarding.'
+      });
+
+      const updated = CaseStudiesDAL.update(caseStudy.id!, { metric: '35% faster ramp time', active: false });
+
+      expect(updated).toEqual(expect.objectContaining({ metric: '35% faster ramp time', wording: 'Faster onboarding.', active: false }));
+      expect(CaseStudiesDAL.getAll()).toEqual([]);
+      expect(CaseStudiesDAL.getAll(true)).toHaveLength(1);
+      expect(CaseStudiesDAL.update(9999, { metric: 'x' })).toBeNull();
+
+      expect(CaseStudiesDAL.delete(caseStudy.id!)).toBe(true);
+      expect(CaseStudiesDAL.getById(caseStudy.id!)).toBeNull();
+    });
+  });
+});
@@ -0,0 +1,121 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { ContentRevisionsDAL } from '../content_revisions';
+import { GeneratedContentDAL } from '../generated_content';
+import { LeadsDAL } from '../leads';
+import { ImportsDAL } from '../imports';
+import { NotFoundError } from '../errors';
+import { initializeDatabase, closeDatabase } from '../../init';
+import { setAppDataPath } from '../../config';
+import { dbPool } from '../../utils';
+
+describe('ContentRevisionsDAL', () => {
+  const testDir = fs.mkdtempSync(path.join(os.tmpdir(), 'content-revisions-dal-'));
+  let leadId: number;
+
+  const touchpoint = (slot: number, content: string) => ({
+    touchpoint_number: slot,
+    content_type: slot === 1 ? 'subject' as const : 'email' as const,
+    snippet_field: `snippet${slot}` as const,
+    content
+  });
+
+  beforeEach(() => {
+    dbPool.closeAll();
+    setAppDataPath(testDir);
+    for (const suffix of ['', '-shm', '-wal']) {
+      fs.rmSync(path.join(testDir, `leads.db${suffix}`), { force: true });
+    }
+    closeDatabase(initializeDatabase());
+
+    const importRecord = ImportsDAL.create({
+      filename: 'test.csv',
+      status: 'pending'
+    });
+    const leadRecord = LeadsDAL.create({
+      import_id: importRecord.id!,
+      company: 'Test Company',
+      email: 'test@example.com'
+    });
+    leadId = leadRecord.id!;
+  });
+
+  afterEach(() => {
+    dbPool.closeAll();
+  });
+
+  describe('saveSequence', () => {
+    it('should record a revision for new and changed touchpoints only', () => {
+      GeneratedContentDAL.saveSequence(leadId, [touchpoint(1, 'Subject'), touchpoint(2, 'Body')], undefined, {
+        source: 'ai',
+        author: 'claude-sonnet-4'
+      });
+      GeneratedContentDAL.saveSequence(leadId, [touchpoint(1, 'Subject'), touchpoint(2, 'Edited body')], undefined, {
+        source: 'manual',
+        author: 'jane'
+      });
+
+      const revisions = ContentRevisionsDAL.getByLead(leadId);
+
+      expect(revisions.map(revision => [revision.snippet_field, revision.content, revision.source, revision.author])).toEqual([
+        ['snippet2', 'Edited body', 'manual', 'jane'],
+        ['snippet2', 'Body', 'ai', 'claude-sonnet-4'],
+        ['snippet1', 'Subject', 'ai', 'claude-sonnet-4']
+      ]);
+      expect(ContentRevisionsDAL.getByLead(leadId, 'snippet1')).toHaveLength(1);
+    });
+  });
+
+  describe('revert', () => {
+    it('should restore the text as a new draft revision', () => {
+      const [, body] = GeneratedContentDAL.saveSequence(leadId, [touchpoint(1, 'Subject'), touchpoint(2, 'Body')]);
+      const [original] = ContentRevisionsDAL.getByLead(leadId, 'snippet2');
+      GeneratedContentDAL.saveSequence(leadId, [touchpoint(1, 'Subject'), touchpoint(2, 'Edited body')]);
+      GeneratedContentDAL.updateStatus(body.id!, 'approved');
+
+      const revision = ContentRevisionsDAL.revert(original.id!, 'jane');
+
+      expect(revision).toEqual(expect.objectContaining({
+        snippet_field: 'snippet2',
+        content: 'Body',
+        source: 'manual',
+        author: 'jane',
+        reverted_from: original.id
+      }));
+      expect(GeneratedContentDAL.getById(body.id!)).toEqual(expect.objectContaining({ content: 'Body', status: 'draft' }));
+      expect(ContentRevisionsDAL.getByLead(leadId, 'snippet2')).toHaveLength(3);
+    });
+
+    it('should reject variants kept for the text it replaces', () => {
+      GeneratedContentDAL.saveSequence(leadId, [touchpoint(1, 'Subject')]);
+      const [original] = ContentRevisionsDAL.getByLead(leadId);
+      const [, kept] = GeneratedContentDAL.createVariants({
+        lead_id: leadId,
+        touchpoint_number: 1,
+        content_type: 'subject',
+        snippet_field: 'snippet1',
+        contents: ['Subject', 'Kept subject']
+      });
+      GeneratedContentDAL.keepVariants(leadId, 'snippet1', [{ id: kept.id!, exported_field: 'snippet1' }]);
+      GeneratedContentDAL.saveSequence(leadId, [touchpoint(1, 'Kept subject')], undefined, { source: 'ai' });
+
+      ContentRevisionsDAL.revert(original.id!);
+
+      expect(GeneratedContentDAL.getById(kept.id!)).toEqual(expect.objectContaining({ status: 'rejected', exported_field: null }));
+    });
+
+    it('should do nothing when the touchpoint already has that text', () => {
+      GeneratedContentDAL.saveSequence(leadId, [touchpoint(1, 'Subject')]);
+      const [current] = ContentRevisionsDAL.getByLead(leadId);
+
+      expect(ContentRevisionsDAL.revert(current.id!)).toBeNull();
+      expect(ContentRevisionsDAL.getByLead(leadId)).toHaveLength(1);
+    });
+
+    it('should throw for an unknown revision', () => {
+      expect(() => ContentRevisionsDAL.revert(999)).toThrow(NotFoundError);
+    });
+  });
+});
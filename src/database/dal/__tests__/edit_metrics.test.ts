@@ -0,0 +1,135 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { EditMetricsDAL } from '../edit_metrics';
+import { GeneratedContentDAL } from '../generated_content';
+import { PromptTemplatesDAL } from '../prompt_templates';
+import { LeadsDAL } from '../leads';
+import { ImportsDAL } from '../imports';
+import { initializeDatabase, closeDatabase } from '../../init';
+import { setAppDataPath } from '../../config';
+import { dbPool } from '../../utils';
+
+describe('EditMetricsDAL', () => {
+  const testDir = fs.mkdtempSync(path.join(os.tmpdir(), 'edit-metrics-dal-'));
+  let importId: number;
+  let templateId: number;
+  let firstVersionId: number;
+
+  const touchpoint = (slot: number, content: string) => ({
+    touchpoint_number: slot,
+    content_type: slot === 1 ? 'subject' as const : 'email' as const,
+    snippet_field: `snippet${slot}` as const,
+    content
+  });
+
+  // Generate a lead's subject and body, apply the rep's edits, then approve both
+  const approveLead = (
+    industry: string,
+    versionId: number,
+    edits: { subject?: string; body?: string } = {},
+    modelId = 'claude-sonnet-4'
+  ) => {
+    const lead = LeadsDAL.create({ import_id: importId, company: 'Acme', email: `${Math.random()}@acme.com`, industry });
+    GeneratedContentDAL.saveSequence(
+      lead.id!,
+      [touchpoint(1, 'Quick question'), touchpoint(2, '<div>Hi Jane, loved your talk.</div>')],
+      versionId,
+      { source: 'ai', author: modelId }
+    );
+    const rows = GeneratedContentDAL.saveSequence(lead.id!, [
+      touchpoint(1, edits.subject ?? 'Quick question'),
+      touchpoint(2, edits.body ?? '<div>Hi Jane, loved your talk.</div>')
+    ]);
+    rows.forEach(row => GeneratedContentDAL.updateStatus(row.id!, 'approved'));
+    return lead.id!;
+  };
+
+  beforeEach(() => {
+    dbPool.closeAll();
+    setAppDataPath(testDir);
+    for (const suffix of ['', '-shm', '-wal']) {
+      fs.rmSync(path.join(testDir, `leads.db${suffix}`), { force: true });
+    }
+    closeDatabase(initializeDatabase());
+
+    importId = ImportsDAL.create({ filename: 'test.csv', status: 'pending' }).id!;
+    const template = PromptTemplatesDAL.ensure({
+      name: 'email-sequence',
+      template: 'Write to {{first_name}}',
+      variables: ['first_name']
+    });
+    templateId = template.id;
+    firstVersionId = template.current.id!;
+  });
+
+  afterEach(() => {
+    dbPool.closeAll();
+  });
+
+  describe('getSnippetMetrics', () => {
+    it('should count the words changed between the AI text and the approved text', () => {
+      const leadId = approveLead('SaaS', firstVersionId, { body: '<div>Hi Jane, really loved your pricing talk.</div>' });
+
+      expect(EditMetricsDAL.getSnippetMetrics()).toEqual([
+        expect.objectContaining({ lead_id: leadId, snippet_field: 'snippet1', edit_distance: 0, unchanged: true }),
+        expect.objectContaining({
+          lead_id: leadId,
+          snippet_field: 'snippet2',
+          edit_distance: 2,
+          unchanged: false,
+          template_name: 'email-sequence',
+          template_version: 1,
+          model_id: 'claude-sonnet-4',
+          industry: 'SaaS'
+        })
+      ]);
+    });
+
+    it('should leave out touchpoints that are not approved or have no AI revision', () => {
+      const lead = LeadsDAL.create({ import_id: importId, company: 'Acme', email: 'rep@acme.com' });
+      const [subject] = GeneratedContentDAL.saveSequence(lead.id!, [touchpoint(1, 'Written by hand')]);
+      GeneratedContentDAL.updateStatus(subject.id!, 'approved');
+      GeneratedContentDAL.saveSequence(lead.id!, [touchpoint(1, 'Written by hand'), touchpoint(2, 'Draft')], undefined, {
+        source: 'ai',
+        author: 'claude-sonnet-4'
+      });
+
+      expect(EditMetricsDAL.getSnippetMetrics()).toEqual([]);
+    });
+  });
+
+  describe('getSummary', () => {
+    it('should compare each template version with the one before it', () => {
+      approveLead('SaaS', firstVersionId, { subject: 'A quick question' });
+      approveLead('SaaS', firstVersionId);
+      const secondVersion = PromptTemplatesDAL.createVersion(templateId, {
+        template: 'Write briefly to {{first_name}}',
+        variables: ['first_name']
+      })!;
+      approveLead('Retail', secondVersion.id!);
+
+      const rows = EditMetricsDAL.getSummary('template');
+
+      expect(rows.map(row => [row.label, row.approved, row.unchanged, row.unchanged_rate, row.rate_change])).toEqual([
+        ['email-sequence v1', 4, 3, 0.75, null],
+        ['email-sequence v2', 2, 2, 1, 0.25]
+      ]);
+      expect(rows[0].avg_edit_distance).toBe(0.75);
+    });
+
+    it('should group by model and industry', () => {
+      approveLead('SaaS', firstVersionId, {}, 'claude-opus-4');
+      approveLead('saas ', firstVersionId, { body: 'Rewritten' }, 'claude-sonnet-4');
+
+      expect(EditMetricsDAL.getSummary('model').map(row => [row.key, row.unchanged])).toEqual([
+        ['claude-opus-4', 2],
+        ['claude-sonnet-4', 1]
+      ]);
+      expect(EditMetricsDAL.getSummary('industry').map(row => [row.key, row.approved, row.unchanged])).toEqual([
+        ['saas', 4, 3]
+      ]);
+    });
+  });
+});
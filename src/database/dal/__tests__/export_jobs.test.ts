@@ -0,0 +1,97 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { ExportJobsDAL } from '../export_jobs';
+import { LeadsDAL } from '../leads';
+import { ImportsDAL } from '../imports';
+import { initializeDatabase, closeDatabase } from '../../init';
+import { setAppDataPath } from '../../config';
+import { dbPool } from '../../utils';
+
+describe('ExportJobsDAL', () => {
+  const testDir = fs.mkdtempSync(path.join(os.tmpdir(), 'export-jobs-'));
+  let importId: number;
+
+  beforeEach(() => {
+    dbPool.closeAll();
+    setAppDataPath(testDir);
+    for (const suffix of ['', '-shm', '-wal']) {
+      fs.rmSync(path.join(testDir, `leads.db${suffix}`), { force: true });
+    }
+    closeDatabase(initializeDatabase());
+
+    importId = ImportsDAL.create({ filename: 'test.csv', status: 'completed' }).id!;
+  });
+
+  afterEach(() => {
+    dbPool.closeAll();
+  });
+
+  const createJob = (leadIds: number[]) =>
+    ExportJobsDAL.createJob(
+      { campaign_id: 123, campaign_name: 'Test campaign' },
+      leadIds.map((leadId, index) => ({
+        lead_id: leadId,
+        email: `lead${index}@test.com`,
+        prospect: { email: `lead${index}@test.com`, first_name: 'Test' }
+      }))
+    );
+
+  describe('createJob', () => {
+    it('should persist the job with all of its items pending', () => {
+      const lead = LeadsDAL.create({ import_id: importId, email: 'lead0@test.com' });
+      const job = createJob([lead.id!]);
+
+      expect(job.status).toBe('pending');
+      expect(job.total_items).toBe(1);
+
+      const items = ExportJobsDAL.getItems(job.id!, 'pending');
+      expect(items).toHaveLength(1);
+      expect(JSON.parse(items[0].prospect)).toEqual({ email: 'lead0@test.com', first_name: 'Test' });
+    });
+  });
+
+  describe('recordBatchResults', () => {
+    it('should store per-prospect results and mark exported leads', () => {
+      const first = LeadsDAL.create({ import_id: importId, email: 'lead0@test.com', status: 'approved' });
+      const second = LeadsDAL.create({ import_id: importId, email: 'lead1@test.com', status: 'approved' });
+      const job = createJob([first.id!, second.id!]);
+      const [firstItem, secondItem] = ExportJobsDAL.getItems(job.id!);
+
+      ExportJobsDAL.recordBatchResults(job.id!, [
+        { id: firstItem.id!, status: 'succeeded', api_status: 'OK', woodpecker_prospect_id: 77 },
+        { id: secondItem.id!, status: 'failed', api_status: 'ERROR', error: 'Invalid email' }
+      ]);
+
+      const exported = LeadsDAL.getById(first.id!);
+      expect(exported?.status).toBe('exported');
+      expect(exported?.woodpecker_campaign_id).toBe('123');
+      expect(exported?.woodpecker_prospect_id).toBe(77);
+      expect(LeadsDAL.getById(second.id!)?.status).toBe('approved');
+
+      const progress = ExportJobsDAL.getProgress(job.id!);
+      expect(progress).toEqual(expect.objectContaining({
+        current: 2,
+        total: 2,
+        succeeded: 1,
+        failed: 1,
+        errors: [{ email: 'lead1@test.com', error: 'Invalid email' }]
+      }));
+      expect(ExportJobsDAL.getItems(job.id!, 'pending')).toHaveLength(0);
+    });
+  });
+
+  describe('getUnfinished', () => {
+    it('should only return pending and running jobs', () => {
+      const pending = createJob([]);
+      const running = createJob([]);
+      const done = createJob([]);
+      ExportJobsDAL.markRunning(running.id!);
+      ExportJobsDAL.finish(done.id!, 'completed');
+
+      expect(ExportJobsDAL.getUnfinished().map(job => job.id)).toEqual([pending.id, running.id]);
+      expect(ExportJobsDAL.getById(done.id!)?.completed_at).toBeTruthy();
+    });
+  });
+});
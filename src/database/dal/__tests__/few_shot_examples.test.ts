@@ -0,0 +1,126 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { FewShotExamplesDAL } from '../few_shot_examples';
+import { GeneratedContentDAL } from '../generated_content';
+import { LeadsDAL } from '../leads';
+import { ImportsDAL } from '../imports';
+import { initializeDatabase, closeDatabase } from '../../init';
+import { setAppDataPath } from '../../config';
+import { dbPool } from '../../utils';
+
+describe('FewShotExamplesDAL', () => {
+  const testDir = fs.mkdtempSync(path.join(os.tmpdir(), 'few-shot-examples-dal-'));
+  let importId: number;
+
+  const touchpoint = (slot: number, content: string) => ({
+    touchpoint_number: slot,
+    content_type: slot === 1 ? 'subject' as const : 'email' as const,
+    snippet_field: `snippet${slot}` as const,
+    content
+  });
+
+  // Generate a lead's subject and body, apply the rep's edits, then approve the touchpoints
+  const generateLead = (
+    industry: string,
+    options: { body?: string; approve?: 'all' | 'subject' } = {}
+  ) => {
+    const lead = LeadsDAL.create({ import_id: importId, company: 'Acme', email: `${Math.random()}@acme.com`, industry, title: 'VP of Sales' });
+    GeneratedContentDAL.saveSequence(
+      lead.id!,
+      [touchpoint(1, 'Quick question'), touchpoint(2, '<div>Hi Jane, loved your talk.</div>')],
+      undefined,
+      { source: 'ai', author: 'claude-sonnet-4' }
+    );
+    const rows = GeneratedContentDAL.saveSequence(lead.id!, [
+      touchpoint(1, 'Quick question'),
+      touchpoint(2, options.body ?? '<div>Hi Jane, loved your talk.</div>')
+    ]);
+    rows
+      .filter(row => options.approve !== 'subject' || row.snippet_field === 'snippet1')
+      .forEach(row => GeneratedContentDAL.updateStatus(row.id!, 'approved'));
+    return lead.id!;
+  };
+
+  beforeEach(() => {
+    dbPool.closeAll();
+    setAppDataPath(testDir);
+    for (const suffix of ['', '-shm', '-wal']) {
+      fs.rmSync(path.join(testDir, `leads.db${suffix}`), { force: true });
+    }
+    closeDatabase(initializeDatabase());
+
+    importId = ImportsDAL.create({ filename: 'test.csv', status: 'pending' }).id!;
+  });
+
+  afterEach(() => {
+    dbPool.closeAll();
+  });
+
+  describe('getAll', () => {
+    it('should offer only sequences approved in full without edits', () => {
+      const unedited = generateLead('SaaS');
+      generateLead('SaaS', { body: '<div>Hi Jane, really loved your talk.</div>' });
+      generateLead('SaaS', { approve: 'subject' });
+
+      expect(FewShotExamplesDAL.getAll()).toEqual([
+        expect.objectContaining({
+          lead_id: unedited,
+          industry: 'SaaS',
+          title: 'VP of Sales',
+          status: 'auto',
+          snippets: { snippet1: 'Quick question', snippet2: '<div>Hi Jane, loved your talk.</div>' }
+        })
+      ]);
+    });
+
+    it('should offer a sequence whose snippet was replaced by a kept A/B variant', () => {
+      const leadId = generateLead('SaaS');
+      const rows = GeneratedContentDAL.saveSequence(
+        leadId,
+        [touchpoint(1, 'Loved your talk, Jane'), touchpoint(2, '<div>Hi Jane, loved your talk.</div>')],
+        undefined,
+        { source: 'ai' }
+      );
+      rows.forEach(row => GeneratedContentDAL.updateStatus(row.id!, 'approved'));
+
+      expect(FewShotExamplesDAL.getAll().map(example => example.snippets.snippet1)).toEqual(['Loved your talk, Jane']);
+    });
+
+    it('should list pinned examples first and limit the automatic ones to the most recent', () => {
+      const first = generateLead('SaaS');
+      const second = generateLead('Retail');
+      const third = generateLead('Healthcare');
+      FewShotExamplesDAL.setStatus(first, 'pinned');
+
+      expect(FewShotExamplesDAL.getAll({ recentLimit: 1 }).map(example => [example.lead_id, example.status])).toEqual([
+        [first, 'pinned'],
+        [third, 'auto']
+      ]);
+      expect(FewShotExamplesDAL.getAll().map(example => example.lead_id)).toEqual([first, third, second]);
+    });
+  });
+
+  describe('setStatus', () => {
+    it('should leave excluded and retired examples out unless asked for', () => {
+      const excluded = generateLead('SaaS');
+      const retired = generateLead('SaaS');
+      FewShotExamplesDAL.setStatus(excluded, 'excluded');
+      FewShotExamplesDAL.setStatus(retired, 'retired');
+
+      expect(FewShotExamplesDAL.getAll()).toEqual([]);
+      expect(FewShotExamplesDAL.getAll({ includeInactive: true }).map(example => example.status).sort()).toEqual([
+        'excluded',
+        'retired'
+      ]);
+
+      FewShotExamplesDAL.setStatus(retired, 'auto');
+      expect(FewShotExamplesDAL.getAll().map(example => example.lead_id)).toEqual([retired]);
+    });
+
+    it('should not record a status for an unknown lead', () => {
+      expect(FewShotExamplesDAL.setStatus(9999, 'pinned')).toBe(false);
+    });
+  });
+});
@@ -2,6 +2,8 @@ import { describe, it, expect, beforeEach, afterEach } from 'vitest';
 import { GeneratedContentDAL, GeneratedContentRecord } from '../generated_content';
 import { LeadsDAL } from '../leads';
 import { ImportsDAL } from '../imports';
+import { PromptTemplatesDAL } from '../prompt_templates';
+import { GenerationRunsDAL } from '../generation_runs';
 import { initializeDatabase, closeDatabase } from '../../init';
 import { getDatabase } from '../../init';
 
@@ -34,12 +36,17 @@ describe('GeneratedContentDAL', () => {
 
   describe('create', () => {
     it('should create a new content record', () => {
+      const template = PromptTemplatesDAL.ensure({
+        name: 'welcome',
+        template: 'Write to {{first_name}}',
+        variables: ['first_name']
+      });
       const contentData = {
         lead_id: leadId,
         touchpoint_number: 1,
         content: 'Hello {{contact_name}}, I hope this email finds you well.',
         content_type: 'email' as const,
-        template_id: 'template-123'
+        template_id: template.current.id
       };
 
       const result = GeneratedContentDAL.create(contentData);
@@ -50,6 +57,7 @@ describe('GeneratedContentDAL', () => {
       expect(result.touchpoint_number).toBe(1);
       expect(result.content).toBe('Hello {{contact_name}}, I hope this email finds you well.');
       expect(result.content_type).toBe('email');
+      expect(result.template_id).toBe(template.current.id);
       expect(result.status).toBe('draft');
       expect(result.generated_at).toBeDefined();
     });
@@ -559,4 +567,171 @@ describe('GeneratedContentDAL', () => {
       expect(updatedContent2!.approved_at).toBeDefined();
     });
   });
+
+  describe('touchpoints', () => {
+    const touchpoint = (slot: number, content: string) => ({
+      touchpoint_number: slot,
+      content_type: slot === 1 ? 'subject' as const : 'email' as const,
+      snippet_field: `snippet${slot}` as const,
+      content
+    });
+
+    it('should store one draft row per touchpoint', () => {
+      const rows = GeneratedContentDAL.saveSequence(leadId, [touchpoint(1, 'Subject'), touchpoint(2, 'Body')]);
+
+      expect(rows.map(row => [row.snippet_field, row.content, row.status])).toEqual([
+        ['snippet1', 'Subject', 'draft'],
+        ['snippet2', 'Body', 'draft']
+      ]);
+      expect(GeneratedContentDAL.getApproval(leadId)).toEqual({ total: 2, pending: ['snippet1', 'snippet2'] });
+    });
+
+    it('should keep approvals of unchanged touchpoints and reset edited ones', () => {
+      const [subject, body] = GeneratedContentDAL.saveSequence(leadId, [touchpoint(1, 'Subject'), touchpoint(2, 'Body')]);
+      GeneratedContentDAL.updateStatus(subject.id!, 'approved');
+      GeneratedContentDAL.updateStatus(body.id!, 'approved');
+      expect(GeneratedContentDAL.getApproval(leadId).pending).toEqual([]);
+
+      const rows = GeneratedContentDAL.saveSequence(leadId, [touchpoint(1, 'Subject'), touchpoint(2, 'Edited body')]);
+
+      expect(rows[0]).toEqual(expect.objectContaining({ id: subject.id, status: 'approved' }));
+      expect(rows[1]).toEqual(expect.objectContaining({ id: body.id, content: 'Edited body', status: 'draft', approved_at: null }));
+      expect(GeneratedContentDAL.getApproval(leadId).pending).toEqual(['snippet2']);
+    });
+
+    it('should drop touchpoints no longer in the sequence and reject their variants', () => {
+      GeneratedContentDAL.saveSequence(leadId, [touchpoint(1, 'Subject'), touchpoint(2, 'Body')]);
+      GeneratedContentDAL.createVariants({
+        lead_id: leadId,
+        touchpoint_number: 2,
+        content_type: 'email',
+        snippet_field: 'snippet2',
+        contents: ['Other body']
+      });
+
+      const rows = GeneratedContentDAL.saveSequence(leadId, [touchpoint(1, 'Subject')]);
+
+      expect(rows.map(row => row.snippet_field)).toEqual(['snippet1']);
+      expect(GeneratedContentDAL.getVariants(leadId, 'snippet2').map(v => v.status)).toEqual(['rejected']);
+    });
+
+    it('should report a lead without touchpoints as not ready', () => {
+      expect(GeneratedContentDAL.getApproval(leadId)).toEqual({ total: 0, pending: [] });
+    });
+  });
+
+  describe('variants', () => {
+    const touchpoint = (slot: number, content: string) => ({
+      touchpoint_number: slot,
+      content_type: 'subject' as const,
+      snippet_field: `snippet${slot}` as const,
+      content
+    });
+    const createVariants = (contents: string[]) => GeneratedContentDAL.createVariants({
+      lead_id: leadId,
+      touchpoint_number: 1,
+      content_type: 'subject',
+      snippet_field: 'snippet1',
+      contents
+    });
+
+    it('should store variants as labelled sibling rows', () => {
+      GeneratedContentDAL.create({ lead_id: leadId, touchpoint_number: 1, content: '{}', content_type: 'email' });
+
+      const variants = createVariants(['Current subject', 'Another subject']);
+
+      expect(variants.map(v => v.variant_label)).toEqual(['A', 'B']);
+      expect(variants.every(v => v.status === 'draft' && v.snippet_field === 'snippet1')).toBe(true);
+      expect(GeneratedContentDAL.getVariants(leadId)).toHaveLength(2);
+      expect(GeneratedContentDAL.getByLead(leadId)).toHaveLength(3);
+    });
+
+    it('should replace undecided variants but keep decided ones', () => {
+      const [first] = createVariants(['Current subject', 'Another subject']);
+      GeneratedContentDAL.keepVariants(leadId, 'snippet1', [{ id: first.id!, exported_field: 'snippet1' }]);
+
+      const next = createVariants(['Third subject']);
+
+      expect(next[0].variant_label).toBe('C');
+      expect(GeneratedContentDAL.getVariants(leadId, 'snippet1').map(v => v.status)).toEqual(['approved', 'rejected', 'draft']);
+    });
+
+    it('should record the slot each kept variant is exported in and reject the rest', () => {
+      const [a, b, c] = createVariants(['A subject', 'B subject', 'C subject']);
+
+      const result = GeneratedContentDAL.keepVariants(leadId, 'snippet1', [
+        { id: a.id!, exported_field: 'snippet1' },
+        { id: c.id!, exported_field: 'snippet8' }
+      ]);
+
+      const byId = new Map(result.map(v => [v.id, v]));
+      expect(byId.get(a.id)!.exported_field).toBe('snippet1');
+      expect(byId.get(c.id)!.exported_field).toBe('snippet8');
+      expect(byId.get(c.id)!.approved_at).toBeTruthy();
+      expect(byId.get(b.id)!.status).toBe('rejected');
+      expect(byId.get(b.id)!.exported_field).toBeNull();
+    });
+
+    it('should keep kept variants while the winner is the touchpoint and reject them once it is regenerated', () => {
+      GeneratedContentDAL.saveSequence(leadId, [touchpoint(1, 'Current subject')]);
+      const [, b, c] = createVariants(['Current subject', 'B subject', 'C subject']);
+      GeneratedContentDAL.keepVariants(leadId, 'snippet1', [
+        { id: b.id!, exported_field: 'snippet1' },
+        { id: c.id!, exported_field: 'snippet8' }
+      ]);
+
+      // Keeping writes the winner into the touchpoint, as the editor does
+      GeneratedContentDAL.saveSequence(leadId, [touchpoint(1, 'B subject')], undefined, { source: 'ai' });
+      expect(GeneratedContentDAL.getVariants(leadId, 'snippet1').map(v => [v.status, v.exported_field])).toEqual([
+        ['rejected', null],
+        ['approved', 'snippet1'],
+        ['approved', 'snippet8']
+      ]);
+
+      GeneratedContentDAL.saveSequence(leadId, [touchpoint(1, 'Regenerated subject')], undefined, { source: 'ai' });
+      expect(GeneratedContentDAL.getVariants(leadId, 'snippet1').map(v => [v.status, v.exported_field])).toEqual([
+        ['rejected', null],
+        ['rejected', null],
+        ['rejected', null]
+      ]);
+    });
+
+    it('should link new variants to the run that wrote them', () => {
+      const run = (operation: 'generate' | 'variants') =>
+        GenerationRunsDAL.record({ lead_id: leadId, operation, model_id: 'claude-sonnet-4', prompt: 'p', status: 'succeeded' }).id!;
+      const generated = run('generate');
+      const variantsRun = run('variants');
+      GeneratedContentDAL.saveSequence(
+        leadId,
+        [{ touchpoint_number: 1, content_type: 'subject', snippet_field: 'snippet1', content: 'Current subject' }],
+        undefined,
+        { source: 'ai', generationRunId: generated }
+      );
+
+      const variants = GeneratedContentDAL.createVariants({
+        lead_id: leadId,
+        touchpoint_number: 1,
+        content_type: 'subject',
+        snippet_field: 'snippet1',
+        contents: ['Current subject', 'Another subject'],
+        generation_run_id: variantsRun
+      });
+
+      expect(variants.map(v => v.generation_run_id)).toEqual([generated, variantsRun]);
+    });
+
+    it('should not keep a variant of another snippet', () => {
+      const other = GeneratedContentDAL.createVariants({
+        lead_id: leadId,
+        touchpoint_number: 2,
+        content_type: 'email',
+        snippet_field: 'snippet2',
+        contents: ['<div>Body</div>']
+      });
+
+      expect(() => GeneratedContentDAL.keepVariants(leadId, 'snippet1', [{ id: other[0].id!, exported_field: 'snippet1' }]))
+        .toThrow('Record not found');
+      expect(GeneratedContentDAL.getById(other[0].id!)!.status).toBe('draft');
+    });
+  });
 });
@@ -0,0 +1,143 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { GenerationBatchesDAL } from '../generation_batches';
+import { GeneratedContentDAL } from '../generated_content';
+import { LeadsDAL } from '../leads';
+import { ImportsDAL } from '../imports';
+import { initializeDatabase, closeDatabase } from '../../init';
+import { setAppDataPath } from '../../config';
+import { dbPool } from '../../utils';
+
+describe('GenerationBatchesDAL', () => {
+  const testDir = fs.mkdtempSync(path.join(os.tmpdir(), 'generation-batches-dal-'));
+  let importId: number;
+
+  beforeEach(() => {
+    dbPool.closeAll();
+    setAppDataPath(testDir);
+    for (const suffix of ['', '-shm', '-wal']) {
+      fs.rmSync(path.join(testDir, `leads.db${suffix}`), { force: true });
+    }
+    closeDatabase(initializeDatabase());
+
+    importId = ImportsDAL.create({ filename: 'test.csv', status: 'completed' }).id!;
+  });
+
+  afterEach(() => {
+    dbPool.closeAll();
+  });
+
+  const createBatch = (leadIds: number[]) =>
+    GenerationBatchesDAL.createBatch(
+      { model_id: 'claude-sonnet-4-20250514' },
+      leadIds.map(leadId => ({
+        lead_id: leadId,
+        custom_id: `lead-${leadId}`,
+        request: { prompt: 'Write a sequence', leadData: { email: `lead${leadId}@test.com` } }
+      }))
+    );
+
+  describe('createBatch', () => {
+    it('should persist the batch with its items pending and leads generating', () => {
+      const lead = LeadsDAL.create({ import_id: importId, email: 'lead0@test.com' });
+      const batch = createBatch([lead.id!]);
+
+      expect(batch.status).toBe('pending');
+      expect(batch.total_items).toBe(1);
+      expect(GenerationBatchesDAL.getItems(batch.id!, 'pending')).toHaveLength(1);
+      expect(LeadsDAL.getById(lead.id!)?.status).toBe('generating');
+    });
+  });
+
+  describe('recordResults', () => {
+    it('should write generated content for succeeded items and fail the rest', () => {
+      const first = LeadsDAL.create({ import_id: importId, email: 'lead0@test.com' });
+      const second = LeadsDAL.create({ import_id: importId, email: 'lead1@test.com' });
+      const batch = createBatch([first.id!, second.id!]);
+      const [firstItem, secondItem] = GenerationBatchesDAL.getItems(batch.id!);
+
+      GenerationBatchesDAL.recordResults(batch.id!, [
+        {
+          id: firstItem.id!,
+          status: 'succeeded',
+          touchpoints: [
+            { touchpoint_number: 1, content_type: 'subject', snippet_field: 'snippet1', content: 'Subject' },
+            { touchpoint_number: 2, content_type: 'email', snippet_field: 'snippet2', content: 'Body' }
+          ]
+        },
+        { id: secondItem.id!, status: 'failed', error: 'Overloaded' }
+      ]);
+
+      const [content, body] = GeneratedContentDAL.getTouchpoints(first.id!);
+      expect(content).toEqual(expect.objectContaining({ snippet_field: 'snippet1', content: 'Subject', status: 'draft' }));
+      expect(body).toEqual(expect.objectContaining({ snippet_field: 'snippet2', content: 'Body', touchpoint_number: 2 }));
+      expect(GenerationBatchesDAL.getItems(batch.id!)[0].content_id).toBe(content.id);
+      expect(LeadsDAL.getById(first.id!)?.status).toBe('drafted');
+      expect(LeadsDAL.getById(second.id!)?.status).toBe('failed');
+
+      expect(GenerationBatchesDAL.getProgress(batch.id!)).toEqual(expect.objectContaining({
+        current: 2,
+        succeeded: 1,
+        failed: 1,
+        failures: [{ leadId: second.id, error: 'Overloaded' }]
+      }));
+    });
+
+    it('should reject A/B variants kept for the text a result replaces', () => {
+      const lead = LeadsDAL.create({ import_id: importId, email: 'lead0@test.com' });
+      GeneratedContentDAL.saveSequence(lead.id!, [
+        { touchpoint_number: 1, content_type: 'subject', snippet_field: 'snippet1', content: 'Subject' }
+      ]);
+      const [a, b] = GeneratedContentDAL.createVariants({
+        lead_id: lead.id!,
+        touchpoint_number: 1,
+        content_type: 'subject',
+        snippet_field: 'snippet1',
+        contents: ['Subject', 'Other subject']
+      });
+      GeneratedContentDAL.keepVariants(lead.id!, 'snippet1', [
+        { id: a.id!, exported_field: 'snippet1' },
+        { id: b.id!, exported_field: 'snippet8' }
+      ]);
+      const batch = createBatch([lead.id!]);
+
+      GenerationBatchesDAL.recordResults(batch.id!, [
+        {
+          id: GenerationBatchesDAL.getItems(batch.id!)[0].id!,
+          status: 'succeeded',
+          touchpoints: [{ touchpoint_number: 1, content_type: 'subject', snippet_field: 'snippet1', content: 'New subject' }]
+        }
+      ]);
+
+      expect(GeneratedContentDAL.getVariants(lead.id!, 'snippet1').map(v => [v.status, v.exported_field])).toEqual([
+        ['rejected', null],
+        ['rejected', null]
+      ]);
+    });
+  });
+
+  describe('finish', () => {
+    it('should fail pending items with the batch error', () => {
+      const lead = LeadsDAL.create({ import_id: importId, email: 'lead0@test.com' });
+      const batch = createBatch([lead.id!]);
+
+      GenerationBatchesDAL.finish(batch.id!, 'failed', 'Invalid API key');
+
+      expect(GenerationBatchesDAL.getProgress(batch.id!)?.failures).toEqual([{ leadId: lead.id, error: 'Invalid API key' }]);
+      expect(LeadsDAL.getById(lead.id!)?.status).toBe('failed');
+    });
+
+    it('should release leads of a cancelled batch', () => {
+      const lead = LeadsDAL.create({ import_id: importId, email: 'lead0@test.com' });
+      const batch = createBatch([lead.id!]);
+
+      GenerationBatchesDAL.finish(batch.id!, 'cancelled');
+
+      expect(GenerationBatchesDAL.getItems(batch.id!, 'pending')).toHaveLength(1);
+      expect(LeadsDAL.getById(lead.id!)?.status).toBe('imported');
+      expect(GenerationBatchesDAL.getUnfinished()).toHaveLength(0);
+    });
+  });
+});
@@ -0,0 +1,123 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { GenerationRunsDAL } from '../generation_runs';
+import { GeneratedContentDAL } from '../generated_content';
+import { LeadsDAL } from '../leads';
+import { ImportsDAL } from '../imports';
+import { initializeDatabase, closeDatabase } from '../../init';
+import { setAppDataPath } from '../../config';
+import { dbPool } from '../../utils';
+
+describe('GenerationRunsDAL', () => {
+  const testDir = fs.mkdtempSync(path.join(os.tmpdir(), 'generation-runs-dal-'));
+  let leadId: number;
+
+  const run = (overrides: Partial<Parameters<typeof GenerationRunsDAL.record>[0]> = {}) =>
+    GenerationRunsDAL.record({
+      lead_id: leadId,
+      operation: 'generate',
+      model_id: 'claude-sonnet-4-20250514',
+      prompt: 'Write to Jane at Acme',
+      status: 'succeeded',
+      ...overrides
+    });
+
+  beforeEach(() => {
+    dbPool.closeAll();
+    setAppDataPath(testDir);
+    for (const suffix of ['', '-shm', '-wal']) {
+      fs.rmSync(path.join(testDir, `leads.db${suffix}`), { force: true });
+    }
+    closeDatabase(initializeDatabase());
+
+    const importRecord = ImportsDAL.create({ filename: 'test.csv', status: 'pending' });
+    leadId = LeadsDAL.create({ import_id: importRecord.id!, email: 'jane@acme.com' }).id!;
+  });
+
+  afterEach(() => {
+    dbPool.closeAll();
+  });
+
+  describe('record', () => {
+    it('should store the request and responses as JSON', () => {
+      const recorded = run({
+        prompt_prefix: 'Shared instructions',
+        file_ids: ['file_1'],
+        request: { model: 'claude-sonnet-4-20250514', max_tokens: 4000 },
+        raw_response: [{ content: [{ type: 'text', text: 'Hi Jane' }] }],
+        input_tokens: 1200,
+        output_tokens: 300,
+        duration_ms: 4200
+      });
+
+      expect(recorded).toEqual(expect.objectContaining({
+        lead_id: leadId,
+        prompt_prefix: 'Shared instructions',
+        file_ids: ['file_1'],
+        input_tokens: 1200,
+        cache_read_input_tokens: 0,
+        duration_ms: 4200
+      }));
+      expect(JSON.parse(recorded.request!)).toEqual({ model: 'claude-sonnet-4-20250514', max_tokens: 4000 });
+      expect(JSON.parse(recorded.raw_response!)[0].content[0].text).toBe('Hi Jane');
+      expect(recorded.parsed_output).toBeNull();
+    });
+
+    it('should keep runs for unknown leads without a lead', () => {
+      const recorded = run({ lead_id: 9999, status: 'failed', error: 'Overloaded' });
+
+      expect(recorded.lead_id).toBeNull();
+      expect(recorded.error).toBe('Overloaded');
+    });
+  });
+
+  describe('getForLead', () => {
+    it('should flag the run the saved touchpoints came from', () => {
+      const first = run();
+      const second = run({ operation: 'stream' });
+      GeneratedContentDAL.saveSequence(leadId, [
+        { touchpoint_number: 1, content_type: 'subject', snippet_field: 'snippet1', content: 'Subject' }
+      ], undefined, { source: 'ai', generationRunId: first.id });
+
+      const runs = GenerationRunsDAL.getForLead(leadId);
+
+      expect(runs.map(({ id, is_current }) => ({ id, is_current }))).toEqual([
+        { id: second.id, is_current: false },
+        { id: first.id, is_current: true }
+      ]);
+    });
+
+    it('should keep the generation run through manual edits', () => {
+      const generated = run();
+      const touchpoints = [
+        { touchpoint_number: 1, content_type: 'subject' as const, snippet_field: 'snippet1' as const, content: 'Subject' },
+        { touchpoint_number: 2, content_type: 'email' as const, snippet_field: 'snippet2' as const, content: 'Body' }
+      ];
+      GeneratedContentDAL.saveSequence(leadId, touchpoints, undefined, { source: 'ai', generationRunId: generated.id });
+      GeneratedContentDAL.saveSequence(leadId, [touchpoints[0], { ...touchpoints[1], content: 'Edited body' }]);
+
+      expect(GeneratedContentDAL.getByLead(leadId).every(row => row.generation_run_id === generated.id)).toBe(true);
+      expect(GenerationRunsDAL.getForLead(leadId)[0].is_current).toBe(true);
+    });
+
+    it('should link a rewrite only from the touchpoint it changed', () => {
+      const generated = run();
+      const rewrite = run({ operation: 'rewrite' });
+      const touchpoints = [
+        { touchpoint_number: 1, content_type: 'subject' as const, snippet_field: 'snippet1' as const, content: 'Subject' },
+        { touchpoint_number: 2, content_type: 'email' as const, snippet_field: 'snippet2' as const, content: 'Body' }
+      ];
+      GeneratedContentDAL.saveSequence(leadId, touchpoints, undefined, { source: 'ai', generationRunId: generated.id });
+      GeneratedContentDAL.saveSequence(
+        leadId,
+        [touchpoints[0], { ...touchpoints[1], content: 'Shorter body' }],
+        undefined,
+        { source: 'rewrite', generationRunId: rewrite.id }
+      );
+
+      expect(GeneratedContentDAL.getTouchpoints(leadId).map(row => row.generation_run_id)).toEqual([generated.id, rewrite.id]);
+    });
+  });
+});
@@ -0,0 +1,94 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { GenerationUsageDAL } from '../generation_usage';
+import { LeadsDAL } from '../leads';
+import { ImportsDAL } from '../imports';
+import { initializeDatabase, closeDatabase } from '../../init';
+import { setAppDataPath } from '../../config';
+import { dbPool, withDatabase } from '../../utils';
+
+describe('GenerationUsageDAL', () => {
+  const testDir = fs.mkdtempSync(path.join(os.tmpdir(), 'generation-usage-dal-'));
+  let importId: number;
+  let leadId: number;
+
+  beforeEach(() => {
+    dbPool.closeAll();
+    setAppDataPath(testDir);
+    for (const suffix of ['', '-shm', '-wal']) {
+      fs.rmSync(path.join(testDir, `leads.db${suffix}`), { force: true });
+    }
+    closeDatabase(initializeDatabase());
+
+    importId = ImportsDAL.create({ filename: 'q4.csv', status: 'completed' }).id!;
+    leadId = LeadsDAL.create({ import_id: importId, email: 'lead0@test.com' }).id!;
+  });
+
+  afterEach(() => {
+    dbPool.closeAll();
+  });
+
+  const record = (overrides: Partial<Parameters<typeof GenerationUsageDAL.record>[0]> = {}) =>
+    GenerationUsageDAL.record({
+      lead_id: leadId,
+      model_id: 'claude-sonnet-4-20250514',
+      operation: 'generate',
+      input_tokens: 1000,
+      output_tokens: 500,
+      cost_usd: 0.0105,
+      ...overrides
+    });
+
+  describe('record', () => {
+    it('should link the usage to the import of its lead', () => {
+      const usage = record({ cache_read_input_tokens: 200 });
+
+      expect(usage.import_id).toBe(importId);
+      expect(usage.cache_read_input_tokens).toBe(200);
+      expect(usage.cache_creation_input_tokens).toBe(0);
+      expect(GenerationUsageDAL.getByLead(leadId)).toHaveLength(1);
+    });
+
+    it('should keep usage without a known lead', () => {
+      const usage = record({ lead_id: 9999 });
+
+      expect(usage.lead_id).toBeNull();
+      expect(usage.import_id).toBeNull();
+    });
+  });
+
+  describe('getSummary', () => {
+    it('should total spend per import', () => {
+      record();
+      record({ operation: 'repair', cost_usd: 0.002 });
+      record({ lead_id: null, cost_usd: 0.001 });
+
+      const rows = GenerationUsageDAL.getSummary('import');
+
+      expect(rows).toEqual([
+        expect.objectContaining({ key: String(importId), label: 'q4.csv', requests: 2, input_tokens: 2000, cost_usd: 0.0125 }),
+        expect.objectContaining({ key: 'none', label: 'No import', requests: 1 })
+      ]);
+    });
+
+    it('should total spend per model and per day', () => {
+      record();
+      record({ model_id: 'claude-3-5-haiku-20241022', cost_usd: 0.5 });
+      withDatabase(db => {
+        db.prepare("UPDATE generation_usage SET created_at = '2025-01-01 10:00:00' WHERE model_id = ?").run('claude-3-5-haiku-20241022');
+      });
+
+      expect(GenerationUsageDAL.getSummary('model').map(row => row.key)).toEqual([
+        'claude-3-5-haiku-20241022',
+        'claude-sonnet-4-20250514'
+      ]);
+
+      const days = GenerationUsageDAL.getSummary('day');
+      expect(days).toHaveLength(2);
+      expect(days[1]).toEqual(expect.objectContaining({ key: '2025-01-01', requests: 1, cost_usd: 0.5 }));
+      expect(GenerationUsageDAL.getSummary('day', { model_id: 'claude-sonnet-4-20250514' })).toHaveLength(1);
+    });
+  });
+});
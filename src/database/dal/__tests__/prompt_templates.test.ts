@@ -0,0 +1,123 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { PromptTemplatesDAL } from '../prompt_templates';
+import { GeneratedContentDAL } from '../generated_content';
+import { LeadsDAL } from '../leads';
+import { ImportsDAL } from '../imports';
+import { initializeDatabase, closeDatabase } from '../../init';
+import { setAppDataPath } from '../../config';
+import { dbPool } from '../../utils';
+import { DEFAULT_SEQUENCE } from '../../../utils/sequenceDefinition';
+
+describe('PromptTemplatesDAL', () => {
+  const testDir = fs.mkdtempSync(path.join(os.tmpdir(), 'prompt-templates-dal-'));
+
+  beforeEach(() => {
+    dbPool.closeAll();
+    setAppDataPath(testDir);
+    for (const suffix of ['', '-shm', '-wal']) {
+      fs.rmSync(path.join(testDir, `leads.db${suffix}`), { force: true });
+    }
+    closeDatabase(initializeDatabase());
+  });
+
+  afterEach(() => {
+    dbPool.closeAll();
+  });
+
+  const createTemplate = () =>
+    PromptTemplatesDAL.create({
+      name: 'email-sequence',
+      description: 'Cold outreach',
+      template: 'Write to {{first_name}} at {{company}}',
+      variables: ['first_name', 'company']
+    });
+
+  it('should create a template with its first version', () => {
+    const template = createTemplate();
+
+    expect(template.name).toBe('email-sequence');
+    expect(template.description).toBe('Cold outreach');
+    expect(template.current).toEqual(expect.objectContaining({
+      version: 1,
+      template: 'Write to {{first_name}} at {{company}}',
+      variables: ['first_name', 'company']
+    }));
+  });
+
+  it('should add a version per edit and leave earlier versions unchanged', () => {
+    const template = createTemplate();
+
+    const second = PromptTemplatesDAL.createVersion(template.id, {
+      template: 'Write briefly to {{first_name}}',
+      variables: ['first_name'],
+      notes: 'Shorter'
+    });
+    const unchanged = PromptTemplatesDAL.createVersion(template.id, {
+      template: 'Write briefly to {{first_name}}',
+      variables: ['first_name']
+    });
+
+    expect(second?.version).toBe(2);
+    expect(unchanged?.id).toBe(second?.id);
+    expect(PromptTemplatesDAL.getVersions(template.id).map(version => version.version)).toEqual([2, 1]);
+    expect(PromptTemplatesDAL.getVersion(template.current.id!)?.template).toBe('Write to {{first_name}} at {{company}}');
+    expect(PromptTemplatesDAL.getByName('email-sequence')?.current.version).toBe(2);
+  });
+
+  it('should roll back by saving an earlier version as the latest one', () => {
+    const template = createTemplate();
+    PromptTemplatesDAL.createVersion(template.id, { template: 'Bad edit', variables: [] });
+
+    const restored = PromptTemplatesDAL.rollback(template.id, 1);
+
+    expect(restored).toEqual(expect.objectContaining({
+      version: 3,
+      template: 'Write to {{first_name}} at {{company}}',
+      variables: ['first_name', 'company'],
+      notes: 'Rolled back to version 1'
+    }));
+    expect(PromptTemplatesDAL.rollback(template.id, 9)).toBeNull();
+  });
+
+  it('should version the sequence layout with the prompt', () => {
+    const template = createTemplate();
+    const sequence = DEFAULT_SEQUENCE.slice(0, 4);
+
+    const second = PromptTemplatesDAL.createVersion(template.id, {
+      template: template.current.template,
+      variables: template.current.variables,
+      sequence
+    });
+    const unchanged = PromptTemplatesDAL.createVersion(template.id, {
+      template: template.current.template,
+      variables: template.current.variables
+    });
+
+    expect(template.current.sequence).toBeNull();
+    expect(second?.version).toBe(2);
+    expect(second?.sequence).toEqual(sequence);
+    expect(unchanged?.id).toBe(second?.id);
+    expect(PromptTemplatesDAL.rollback(template.id, 1)?.sequence).toBeNull();
+  });
+
+  it('should keep generated content when its template is deleted', () => {
+    const template = createTemplate();
+    const importId = ImportsDAL.create({ filename: 'q4.csv', status: 'completed' }).id!;
+    const leadId = LeadsDAL.create({ import_id: importId, email: 'lead@test.com' }).id!;
+    const content = GeneratedContentDAL.create({
+      lead_id: leadId,
+      touchpoint_number: 1,
+      content: '{}',
+      content_type: 'email',
+      template_id: template.current.id
+    });
+
+    expect(PromptTemplatesDAL.delete(template.id)).toBe(true);
+
+    expect(PromptTemplatesDAL.getAll()).toHaveLength(0);
+    expect(GeneratedContentDAL.getById(content.id!)?.template_id).toBeNull();
+  });
+});
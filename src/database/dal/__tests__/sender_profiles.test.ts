@@ -0,0 +1,84 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { SenderProfilesDAL } from '../sender_profiles';
+import { ImportsDAL } from '../imports';
+import { LeadsDAL } from '../leads';
+import { initializeDatabase, closeDatabase } from '../../init';
+import { setAppDataPath } from '../../config';
+import { dbPool } from '../../utils';
+
+describe('SenderProfilesDAL', () => {
+  const testDir = fs.mkdtempSync(path.join(os.tmpdir(), 'sender-profiles-dal-'));
+
+  beforeEach(() => {
+    dbPool.closeAll();
+    setAppDataPath(testDir);
+    for (const suffix of ['', '-shm', '-wal']) {
+      fs.rmSync(path.join(testDir, `leads.db${suffix}`), { force: true });
+    }
+    closeDatabase(initializeDatabase());
+  });
+
+  afterEach(() => {
+    dbPool.closeAll();
+  });
+
+  describe('create', () => {
+    it('should make the first profile the default and keep a single default', () => {
+      const alex = SenderProfilesDAL.create({ name: ' Alex Kim ', title: '', calendar_link: 'https://cal.com/alex' });
+      expect(alex).toEqual(expect.objectContaining({ name: 'Alex Kim', title: null, is_default: true }));
+
+      const sam = SenderProfilesDAL.create({ name: 'Sam Lee' });
+      expect(sam.is_default).toBe(false);
+
+      SenderProfilesDAL.create({ name: 'Jo Park', is_default: true });
+      expect(SenderProfilesDAL.getAll().filter(profile => profile.is_default).map(profile => profile.name))
+        .toEqual(['Jo Park']);
+    });
+  });
+
+  describe('getForLead', () => {
+    it('should prefer the lead sender, then the import sender, then the default', () => {
+      const fallback = SenderProfilesDAL.create({ name: 'Default Sender' });
+      const importSender = SenderProfilesDAL.create({ name: 'Import Sender' });
+      const leadSender = SenderProfilesDAL.create({ name: 'Lead Sender' });
+
+      const plainImport = ImportsDAL.create({ filename: 'plain.csv', status: 'completed' });
+      const assignedImport = ImportsDAL.create({ filename: 'assigned.csv', status: 'completed', sender_id: importSender.id });
+      const plainLead = LeadsDAL.create({ import_id: plainImport.id!, email: 'a@example.com' });
+      const importLead = LeadsDAL.create({ import_id: assignedImport.id!, email: 'b@example.com' });
+      LeadsDAL.update(importLead.id!, { sender_id: null });
+      const ownLead = LeadsDAL.create({ import_id: assignedImport.id!, email: 'c@example.com' });
+      LeadsDAL.update(ownLead.id!, { sender_id: leadSender.id });
+
+      expect(SenderProfilesDAL.getForLead(plainLead.id!)?.id).toBe(fallback.id);
+      expect(SenderProfilesDAL.getForLead(importLead.id!)?.id).toBe(importSender.id);
+      expect(SenderProfilesDAL.getForLead(ownLead.id!)?.id).toBe(leadSender.id);
+    });
+
+    it('should fall back to the default once an assigned profile is deleted', () => {
+      const fallback = SenderProfilesDAL.create({ name: 'Default Sender' });
+      const other = SenderProfilesDAL.create({ name: 'Other Sender' });
+      const importRecord = ImportsDAL.create({ filename: 'leads.csv', status: 'completed', sender_id: other.id });
+      const lead = LeadsDAL.create({ import_id: importRecord.id!, email: 'a@example.com' });
+
+      expect(SenderProfilesDAL.delete(other.id!)).toBe(true);
+
+      expect(ImportsDAL.getById(importRecord.id!)?.sender_id).toBeNull();
+      expect(SenderProfilesDAL.getForLead(lead.id!)?.id).toBe(fallback.id);
+    });
+  });
+
+  describe('delete', () => {
+    it('should hand the default to the oldest remaining profile', () => {
+      const first = SenderProfilesDAL.create({ name: 'First' });
+      const second = SenderProfilesDAL.create({ name: 'Second' });
+
+      SenderProfilesDAL.delete(first.id!);
+
+      expect(SenderProfilesDAL.getDefault()?.id).toBe(second.id);
+    });
+  });
+});
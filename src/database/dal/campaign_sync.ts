@@ -0,0 +1,68 @@
+import { withDatabase } from '../utils';
+
+export interface CampaignSyncRecord {
+  campaign_id: string;
+  last_synced_at?: string;
+  prospects_seen?: number;
+  leads_updated?: number;
+  last_error?: string | null;
+}
+
+export class CampaignSyncDAL {
+  /**
+   * Record the outcome of a sync run for a campaign. A failed run keeps the
+   * previous last_synced_at so the UI still shows when data was last fresh.
+   */
+  static recordSync(
+    campaignId: string,
+    result: { prospectsSeen: number; leadsUpdated: number; syncedAt?: string }
+  ): CampaignSyncRecord {
+    return withDatabase(db => {
+      const stmt = db.prepare(`
+        INSERT INTO woodpecker_campaign_sync (campaign_id, last_synced_at, prospects_seen, leads_updated, last_error)
+        VALUES (?, ?, ?, ?, NULL)
+        ON CONFLICT(campaign_id) DO UPDATE SET
+          last_synced_at = excluded.last_synced_at,
+          prospects_seen = excluded.prospects_seen,
+          leads_updated = excluded.leads_updated,
+          last_error = NULL
+      `);
+
+      stmt.run(
+        campaignId,
+        result.syncedAt || new Date().toISOString(),
+        result.prospectsSeen,
+        result.leadsUpdated
+      );
+
+      return this.getByCampaign(campaignId)!;
+    });
+  }
+
+  static recordError(campaignId: string, error: string): CampaignSyncRecord {
+    return withDatabase(db => {
+      const stmt = db.prepare(`
+        INSERT INTO woodpecker_campaign_sync (campaign_id, last_error)
+        VALUES (?, ?)
+        ON CONFLICT(campaign_id) DO UPDATE SET last_error = excluded.last_error
+      `);
+
+      stmt.run(campaignId, error);
+      return this.getByCampaign(campaignId)!;
+    });
+  }
+
+  static getByCampaign(campaignId: string): CampaignSyncRecord | null {
+    return withDatabase(db => {
+      const stmt = db.prepare('SELECT * FROM woodpecker_campaign_sync WHERE campaign_id = ?');
+      return stmt.get(campaignId) as CampaignSyncRecord | undefined || null;
+    });
+  }
+
+  static getAll(): CampaignSyncRecord[] {
+    return withDatabase(db => {
+      const stmt = db.prepare('SELECT * FROM woodpecker_campaign_sync ORDER BY last_synced_at DESC');
+      return stmt.all() as CampaignSyncRecord[];
+    });
+  }
+}
@@ -0,0 +1,109 @@
+import { withDatabase, withTransaction } from '../utils';
+
+// A real customer result that generated content may cite as peer proof
+export interface CaseStudyRecord {
+  id?: number;
+  customer: string;
+  industry?: string | null; // null offers the proof point to every industry
+  metric?: string | null; // the result as it may be quoted, e.g. '40% faster ramp time'
+  wording: string; // approved way to describe the work
+  active: boolean;
+  created_at?: string;
+  updated_at?: string;
+}
+
+export type CaseStudyInput = Omit<CaseStudyRecord, 'id' | 'active' | 'created_at' | 'updated_at'> & {
+  active?: boolean;
+};
+
+type CaseStudyRow = Omit<CaseStudyRecord, 'active'> & { active: number };
+
+function toRecord(row: CaseStudyRow): CaseStudyRecord {
+  return { ...row, active: row.active === 1 };
+}
+
+function clean(value?: string | null): string | null {
+  return value?.trim() || null;
+}
+
+export class CaseStudiesDAL {
+  static create(input: CaseStudyInput): CaseStudyRecord {
+    return withDatabase(db => {
+      const result = db.prepare(`
+        INSERT INTO case_studies (customer, industry, metric, wording, active)
+        VALUES (?, ?, ?, ?, ?)
+      `).run(
+        input.customer.trim(),
+        clean(input.industry),
+        clean(input.metric),
+        input.wording.trim(),
+        input.active === false ? 0 : 1
+      );
+
+      return this.getById(result.lastInsertRowid as number)!;
+    });
+  }
+
+  static getById(id: number): CaseStudyRecord | null {
+    return withDatabase(db => {
+      const row = db.prepare('SELECT * FROM case_studies WHERE id = ?').get(id) as CaseStudyRow | undefined;
+      return row ? toRecord(row) : null;
+    });
+  }
+
+  // The whole library, by customer; inactive entries only when asked for
+  static getAll(includeInactive = false): CaseStudyRecord[] {
+    return withDatabase(db => {
+      const rows = db.prepare(`
+        SELECT * FROM case_studies
+        ${includeInactive ? '' : 'WHERE active = 1'}
+        ORDER BY customer COLLATE NOCASE, id
+      `).all() as CaseStudyRow[];
+      return rows.map(toRecord);
+    });
+  }
+
+  /**
+   * Active proof points for a lead's industry: those recorded for the same
+   * industry (ignoring case and surrounding spaces) first, then the ones
+   * that apply to every industry.
+   */
+  static getForIndustry(industry?: string | null): CaseStudyRecord[] {
+    return withDatabase(db => {
+      const rows = db.prepare(`
+        SELECT * FROM case_studies
+        WHERE active = 1
+          AND (industry IS NULL OR LOWER(TRIM(industry)) = LOWER(TRIM(?)))
+        ORDER BY industry IS NULL, customer COLLATE NOCASE, id
+      `).all(industry || '') as CaseStudyRow[];
+      return rows.map(toRecord);
+    });
+  }
+
+  static update(id: number, updates: Partial<CaseStudyInput>): CaseStudyRecord | null {
+    return withDatabase(db => {
+      const values: Record<string, string | number | null> = {};
+      if (updates.customer !== undefined) values.customer = updates.customer.trim();
+      if (updates.industry !== undefined) values.industry = clean(updates.industry);
+      if (updates.metric !== undefined) values.metric = clean(updates.metric);
+      if (updates.wording !== undefined) values.wording = updates.wording.trim();
+      if (updates.active !== undefined) values.active = updates.active ? 1 : 0;
+
+      const fields = Object.keys(values);
+      if (fields.length === 0) return this.getById(id);
+
+      const setClause = fields.map(field => `${field} = ?`).join(', ');
+      const result = db.prepare(`UPDATE case_studies SET ${setClause}, updated_at = CURRENT_TIMESTAMP WHERE id = ?`)
+        .run(...fields.map(field => values[field]), id);
+
+      return result.changes > 0 ? this.getById(id) : null;
+    });
+  }
+
+  static delete(id: number): boolean {
+    return withTransaction(db => {
+      const result = db.prepare('DELETE FROM case_studies WHERE id = ?').run(id);
+      return result.changes > 0;
+    });
+  }
+}
@@ -0,0 +1,87 @@
+import { withDatabase, withTransaction } from '../utils';
+import { NotFoundError } from './errors';
+import { rejectReplacedVariants } from './generated_content';
+
+export type RevisionSource = 'ai' | 'manual' | 'rewrite';
+
+export interface ContentRevisionRecord {
+  id?: number;
+  lead_id: number;
+  snippet_field: string;
+  content: string;
+  source: RevisionSource;
+  author?: string | null; // model id for ai revisions, the rep otherwise
+  reverted_from?: number | null;
+  created_at?: string;
+}
+
+// Who made a save and how; stored on the revisions it creates
+export interface RevisionInfo {
+  source: RevisionSource;
+  author?: string | null;
+  generationRunId?: number | null; // generation_runs id an ai save came from
+}
+
+export class ContentRevisionsDAL {
+  static getById(id: number): ContentRevisionRecord | null {
+    return withDatabase(db => {
+      const stmt = db.prepare('SELECT * FROM content_revisions WHERE id = ?');
+      return stmt.get(id) as ContentRevisionRecord | undefined || null;
+    });
+  }
+
+  // A lead's revisions, newest first, optionally for one snippet only
+  static getByLead(leadId: number, snippetField?: string): ContentRevisionRecord[] {
+    return withDatabase(db => {
+      let query = 'SELECT * FROM content_revisions WHERE lead_id = ?';
+      const params: (number | string)[] = [leadId];
+
+      if (snippetField) {
+        query += ' AND snippet_field = ?';
+        params.push(snippetField);
+      }
+
+      query += ' ORDER BY id DESC';
+      return db.prepare(query).all(...params) as ContentRevisionRecord[];
+    });
+  }
+
+  /**
+   * Put an earlier revision's text back into its touchpoint. The touchpoint
+   * returns to draft, its A/B variants are rejected, and the restore is
+   * recorded as a new revision, so the history itself is never rewritten. Reverting to the current text is a
+   * no-op and returns null.
+   */
+  static revert(id: number, author?: string | null): ContentRevisionRecord | null {
+    const revisionId = withTransaction(db => {
+      const revision = db.prepare('SELECT * FROM content_revisions WHERE id = ?').get(id) as ContentRevisionRecord | undefined;
+      if (!revision) {
+        throw new NotFoundError('revert', 'content_revisions', id);
+      }
+
+      const touchpoint = db.prepare(`
+        SELECT id, content FROM generated_content
+        WHERE lead_id = ? AND snippet_field = ? AND variant_label IS NULL
+      `).get(revision.lead_id, revision.snippet_field) as { id: number; content: string } | undefined;
+      if (!touchpoint) {
+        throw new NotFoundError('revert', 'generated_content', revision.snippet_field);
+      }
+      if (touchpoint.content === revision.content) {
+        return null;
+      }
+
+      db.prepare(`
+        UPDATE generated_content SET content = ?, status = 'draft', approved_at = NULL, generated_at = CURRENT_TIMESTAMP
+        WHERE id = ?
+      `).run(revision.content, touchpoint.id);
+      rejectReplacedVariants(db, revision.lead_id, revision.snippet_field, revision.content);
+
+      return db.prepare(`
+        INSERT INTO content_revisions (lead_id, snippet_field, content, source, author, reverted_from)
+        VALUES (?, ?, ?, 'manual', ?, ?)
+      `).run(revision.lead_id, revision.snippet_field, revision.content, author || null, id).lastInsertRowid as number;
+    });
+
+    return revisionId === null ? null : this.getById(revisionId);
+  }
+}
@@ -0,0 +1,133 @@
+import { withDatabase } from '../utils';
+import { htmlToText } from '../../utils/htmlConverter';
+import { wordEditDistance } from '../../utils/wordDiff';
+
+export type EditMetricsGrouping = 'template' | 'model' | 'industry' | 'snippet';
+
+// One approved touchpoint compared with the text Claude last wrote for it
+export interface SnippetEditMetric {
+  lead_id: number;
+  snippet_field: string;
+  template_version_id: number | null;
+  template_name: string | null;
+  template_version: number | null;
+  model_id: string | null;
+  industry: string | null;
+  edit_distance: number; // words removed plus words added
+  unchanged: boolean;
+  approved_at: string | null;
+}
+
+// One row of the edit metrics view: totals for a template version, model, industry or snippet
+export interface EditMetricsRow {
+  key: string;
+  label: string;
+  approved: number;
+  unchanged: number;
+  unchanged_rate: number; // share of approved snippets nobody edited, 0-1
+  avg_edit_distance: number;
+  // Template versions only: unchanged_rate minus that of the template's previous version with approvals
+  rate_change: number | null;
+}
+
+interface ApprovedSnippetRow extends Omit<SnippetEditMetric, 'edit_distance' | 'unchanged'> {
+  original: string;
+  final: string;
+}
+
+const GROUPINGS: Record<EditMetricsGrouping, (metric: SnippetEditMetric) => { key: string; label: string }> = {
+  template: metric => ({
+    key: metric.template_version_id === null ? 'none' : String(metric.template_version_id),
+    label: metric.template_name ? `${metric.template_name} v${metric.template_version}` : 'No template'
+  }),
+  model: metric => ({ key: metric.model_id || 'unknown', label: metric.model_id || 'Unknown model' }),
+  industry: metric => {
+    const industry = metric.industry?.trim();
+    return { key: industry ? industry.toLowerCase() : 'none', label: industry || 'No industry' };
+  },
+  snippet: metric => ({ key: metric.snippet_field, label: metric.snippet_field })
+};
+
+export class EditMetricsDAL {
+  /**
+   * Every approved touchpoint that has an AI revision, with the number of
+   * words changed between that revision and the approved text. Touchpoints
+   * saved before revisions were recorded have no original and are left out.
+   */
+  static getSnippetMetrics(): SnippetEditMetric[] {
+    const rows = withDatabase(db => {
+      return db.prepare(`
+        SELECT
+          gc.lead_id,
+          gc.snippet_field,
+          r.content as original,
+          gc.content as final,
+          v.id as template_version_id,
+          t.name as template_name,
+          v.version as template_version,
+          r.author as model_id,
+          l.industry,
+          gc.approved_at
+        FROM generated_content gc
+        JOIN content_revisions r ON r.id = (
+          SELECT MAX(id) FROM content_revisions
+          WHERE lead_id = gc.lead_id AND snippet_field = gc.snippet_field AND source = 'ai'
+        )
+        JOIN leads l ON l.id = gc.lead_id
+        LEFT JOIN prompt_template_versions v ON v.id = gc.template_id
+        LEFT JOIN prompt_templates t ON t.id = v.template_id
+        WHERE gc.status = 'approved' AND gc.snippet_field IS NOT NULL AND gc.variant_label IS NULL
+        ORDER BY gc.lead_id, gc.touchpoint_number
+      `).all() as ApprovedSnippetRow[];
+    });
+
+    return rows.map(({ original, final, ...row }) => {
+      const editDistance = wordEditDistance(htmlToText(original), htmlToText(final));
+      return { ...row, edit_distance: editDistance, unchanged: editDistance === 0 };
+    });
+  }
+
+  /**
+   * Approved-without-edits rate and average words changed, per group. Template
+   * versions are listed oldest first per template, each with the change in
+   * rate since the version before it, so the effect of a prompt edit shows.
+   */
+  static getSummary(groupBy: EditMetricsGrouping): EditMetricsRow[] {
+    const groups = new Map<string, { row: EditMetricsRow; template: string | null; totalDistance: number }>();
+
+    for (const metric of this.getSnippetMetrics()) {
+      const { key, label } = GROUPINGS[groupBy](metric);
+      const group = groups.get(key) || {
+        row: { key, label, approved: 0, unchanged: 0, unchanged_rate: 0, avg_edit_distance: 0, rate_change: null },
+        template: metric.template_name,
+        totalDistance: 0
+      };
+      group.row.approved++;
+      group.row.unchanged += metric.unchanged ? 1 : 0;
+      group.totalDistance += metric.edit_distance;
+      groups.set(key, group);
+    }
+
+    const rows = [...groups.values()]
+      .map(({ row, template, totalDistance }) => ({
+        template,
+        row: {
+          ...row,
+          unchanged_rate: row.unchanged / row.approved,
+          avg_edit_distance: totalDistance / row.approved
+        }
+      }))
+      .sort((a, b) => a.row.label.localeCompare(b.row.label, undefined, { numeric: true }));
+
+    if (groupBy === 'template') {
+      rows.forEach(({ template, row }, index) => {
+        const previous = rows[index - 1];
+        if (template && previous?.template === template) {
+          row.rate_change = row.unchanged_rate - previous.row.unchanged_rate;
+        }
+      });
+    }
+
+    return rows.map(({ row }) => row);
+  }
+}
@@ -0,0 +1,228 @@
+import { withDatabase, withTransaction } from '../utils';
+
+export type ExportJobStatus = 'pending' | 'running' | 'completed' | 'failed' | 'cancelled';
+export type ExportJobItemStatus = 'pending' | 'succeeded' | 'failed';
+
+export interface ExportJobRecord {
+  id?: number;
+  campaign_id: number;
+  campaign_name?: string;
+  status?: ExportJobStatus;
+  total_items?: number;
+  batch_size?: number;
+  last_error?: string | null;
+  created_at?: string;
+  started_at?: string;
+  completed_at?: string;
+}
+
+export interface ExportJobItemRecord {
+  id?: number;
+  job_id: number;
+  lead_id?: number | null;
+  email: string;
+  prospect: string; // JSON
+  status?: ExportJobItemStatus;
+  api_status?: string | null;
+  woodpecker_prospect_id?: number | null;
+  error?: string | null;
+  attempts?: number;
+  processed_at?: string;
+}
+
+export interface ExportJobItemResult {
+  id: number;
+  status: Exclude<ExportJobItemStatus, 'pending'>;
+  api_status?: string;
+  woodpecker_prospect_id?: number;
+  error?: string;
+}
+
+// Job state as reported to the renderer; mirrors the shape of ExportProgress
+export interface ExportJobProgress {
+  jobId: number;
+  campaignId: number;
+  campaignName?: string;
+  status: ExportJobStatus;
+  current: number;
+  total: number;
+  succeeded: number;
+  failed: number;
+  errors: Array<{ email: string; error: string }>;
+  lastError?: string | null;
+}
+
+const UNFINISHED_STATUSES: ExportJobStatus[] = ['pending', 'running'];
+
+export class ExportJobsDAL {
+  /**
+   * Create a job and all of its items in one transaction, so a job is never
+   * persisted without the prospects it is meant to push.
+   */
+  static createJob(
+    jobData: Pick<ExportJobRecord, 'campaign_id' | 'campaign_name' | 'batch_size'>,
+    items: Array<{ lead_id?: number | null; email: string; prospect: Record<string, unknown> }>
+  ): ExportJobRecord {
+    const jobId = withTransaction(db => {
+      const result = db.prepare(`
+        INSERT INTO export_jobs (campaign_id, campaign_name, status, total_items, batch_size)
+        VALUES (?, ?, 'pending', ?, ?)
+      `).run(
+        jobData.campaign_id,
+        jobData.campaign_name || null,
+        items.length,
+        jobData.batch_size || 50
+      );
+
+      const id = result.lastInsertRowid as number;
+      const insertItem = db.prepare(`
+        INSERT INTO export_job_items (job_id, lead_id, email, prospect)
+        VALUES (?, ?, ?, ?)
+      `);
+
+      for (const item of items) {
+        insertItem.run(id, item.lead_id ?? null, item.email, JSON.stringify(item.prospect));
+      }
+
+      return id;
+    });
+
+    return this.getById(jobId)!;
+  }
+
+  static getById(id: number): ExportJobRecord | null {
+    return withDatabase(db => {
+      const stmt = db.prepare('SELECT * FROM export_jobs WHERE id = ?');
+      return stmt.get(id) as ExportJobRecord | undefined || null;
+    });
+  }
+
+  static getUnfinished(): ExportJobRecord[] {
+    return withDatabase(db => {
+      const placeholders = UNFINISHED_STATUSES.map(() => '?').join(',');
+      const stmt = db.prepare(`SELECT * FROM export_jobs WHERE status IN (${placeholders}) ORDER BY id`);
+      return stmt.all(...UNFINISHED_STATUSES) as ExportJobRecord[];
+    });
+  }
+
+  static getRecent(limit: number = 20): ExportJobRecord[] {
+    return withDatabase(db => {
+      const stmt = db.prepare('SELECT * FROM export_jobs ORDER BY id DESC LIMIT ?');
+      return stmt.all(limit) as ExportJobRecord[];
+    });
+  }
+
+  static getItems(jobId: number, status?: ExportJobItemStatus): ExportJobItemRecord[] {
+    return withDatabase(db => {
+      if (status) {
+        const stmt = db.prepare('SELECT * FROM export_job_items WHERE job_id = ? AND status = ? ORDER BY id');
+        return stmt.all(jobId, status) as ExportJobItemRecord[];
+      }
+      const stmt = db.prepare('SELECT * FROM export_job_items WHERE job_id = ? ORDER BY id');
+      return stmt.all(jobId) as ExportJobItemRecord[];
+    });
+  }
+
+  static markRunning(jobId: number): ExportJobRecord | null {
+    return withDatabase(db => {
+      db.prepare(`
+        UPDATE export_jobs
+        SET status = 'running', started_at = COALESCE(started_at, CURRENT_TIMESTAMP), last_error = NULL
+        WHERE id = ?
+      `).run(jobId);
+      return this.getById(jobId);
+    });
+  }
+
+  static finish(jobId: number, status: Exclude<ExportJobStatus, 'pending' | 'running'>, error?: string): ExportJobRecord | null {
+    return withDatabase(db => {
+      db.prepare(`
+        UPDATE export_jobs
+        SET status = ?, last_error = ?, completed_at = CURRENT_TIMESTAMP
+        WHERE id = ?
+      `).run(status, error || null, jobId);
+      return this.getById(jobId);
+    });
+  }
+
+  /**
+   * Persist the per-prospect results of one batch. Leads that were pushed
+   * successfully are marked exported in the same transaction, so a crash can
+   * never leave an item and its lead disagreeing.
+   */
+  static recordBatchResults(jobId: number, results: ExportJobItemResult[]): void {
+    withTransaction(db => {
+      const job = db.prepare('SELECT campaign_id FROM export_jobs WHERE id = ?').get(jobId) as { campaign_id: number } | undefined;
+      if (!job) return;
+
+      const updateItem = db.prepare(`
+        UPDATE export_job_items
+        SET status = ?, api_status = ?, woodpecker_prospect_id = ?, error = ?,
+            attempts = attempts + 1, processed_at = CURRENT_TIMESTAMP
+        WHERE id = ? AND job_id = ?
+      `);
+      const getLeadId = db.prepare('SELECT lead_id FROM export_job_items WHERE id = ?');
+      const markLeadExported = db.prepare(`
+        UPDATE leads
+        SET status = 'exported', woodpecker_campaign_id = ?, export_date = ?,
+            woodpecker_prospect_id = COALESCE(?, woodpecker_prospect_id)
+        WHERE id = ?
+      `);
+      const exportDate = new Date().toISOString();
+
+      for (const result of results) {
+        updateItem.run(
+          result.status,
+          result.api_status || null,
+          result.woodpecker_prospect_id ?? null,
+          result.error || null,
+          result.id,
+          jobId
+        );
+
+        if (result.status === 'succeeded') {
+          const item = getLeadId.get(result.id) as { lead_id: number | null } | undefined;
+          if (item?.lead_id) {
+            markLeadExported.run(String(job.campaign_id), exportDate, result.woodpecker_prospect_id ?? null, item.lead_id);
+          }
+        }
+      }
+    });
+  }
+
+  static getProgress(jobId: number): ExportJobProgress | null {
+    return withDatabase(db => {
+      const job = this.getById(jobId);
+      if (!job) return null;
+
+      const counts = db.prepare(`
+        SELECT
+          COUNT(*) as total,
+          SUM(CASE WHEN status = 'succeeded' THEN 1 ELSE 0 END) as succeeded,
+          SUM(CASE WHEN status = 'failed' THEN 1 ELSE 0 END) as failed
+        FROM export_job_items WHERE job_id = ?
+      `).get(jobId) as { total: number; succeeded: number | null; failed: number | null };
+
+      const errors = db.prepare(`
+        SELECT email, error FROM export_job_items
+        WHERE job_id = ? AND status = 'failed' ORDER BY id
+      `).all(jobId) as Array<{ email: string; error: string | null }>;
+
+      const succeeded = counts.succeeded || 0;
+      const failed = counts.failed || 0;
+
+      return {
+        jobId,
+        campaignId: job.campaign_id,
+        campaignName: job.campaign_name || undefined,
+        status: job.status || 'pending',
+        current: succeeded + failed,
+        total: counts.total,
+        succeeded,
+        failed,
+        errors: errors.map(e => ({ email: e.email, error: e.error || 'Unknown error' })),
+        lastError: job.last_error
+      };
+    });
+  }
+}
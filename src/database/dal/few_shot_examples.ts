@@ -0,0 +1,147 @@
+import { withDatabase, withTransaction } from '../utils';
+import { htmlToText } from '../../utils/htmlConverter';
+import { wordEditDistance } from '../../utils/wordDiff';
+
+// 'auto' examples are offered when they match a lead; pinned ones are
+// preferred, excluded and retired ones are never offered
+export type FewShotExampleStatus = 'auto' | 'pinned' | 'excluded' | 'retired';
+
+// A lead's sequence, approved without edits, that Claude can be shown as an example
+export interface FewShotExampleRecord {
+  lead_id: number;
+  first_name: string | null;
+  last_name: string | null;
+  email: string | null;
+  company: string | null;
+  title: string | null;
+  industry: string | null;
+  template_version_id: number | null;
+  approved_at: string | null; // when the last touchpoint was approved
+  status: FewShotExampleStatus;
+  snippets: Record<string, string>; // approved text by snippet field, in sequence order
+}
+
+export interface FewShotExampleFilters {
+  includeInactive?: boolean; // excluded and retired examples too, e.g. to restore one
+  recentLimit?: number; // automatic examples offered, most recently approved first
+}
+
+interface ApprovedTouchpointRow {
+  lead_id: number;
+  snippet_field: string;
+  content: string;
+  original: string | null;
+  approved_at: string | null;
+  template_id: number | null;
+  first_name: string | null;
+  last_name: string | null;
+  email: string | null;
+  company: string | null;
+  title: string | null;
+  industry: string | null;
+  status: Exclude<FewShotExampleStatus, 'auto'> | null;
+}
+
+export const RECENT_EXAMPLE_LIMIT = 50;
+
+export class FewShotExamplesDAL {
+  /**
+   * Sequences that can serve as examples: every touchpoint of the lead is
+   * approved and reads exactly as Claude last wrote it. Pinned examples come
+   * first, then the most recently approved automatic ones. A sequence that
+   * is edited or unapproved later drops out until it is approved unedited
+   * again, whatever its status.
+   */
+  static getAll(filters: FewShotExampleFilters = {}): FewShotExampleRecord[] {
+    const rows = withDatabase(db => {
+      return db.prepare(`
+        SELECT
+          gc.lead_id,
+          gc.snippet_field,
+          gc.content,
+          r.content as original,
+          gc.approved_at,
+          gc.template_id,
+          l.first_name,
+          l.last_name,
+          l.email,
+          l.company,
+          l.title,
+          l.industry,
+          f.status
+        FROM generated_content gc
+        JOIN leads l ON l.id = gc.lead_id
+        LEFT JOIN content_revisions r ON r.id = (
+          SELECT MAX(id) FROM content_revisions
+          WHERE lead_id = gc.lead_id AND snippet_field = gc.snippet_field AND source = 'ai'
+        )
+        LEFT JOIN few_shot_examples f ON f.lead_id = gc.lead_id
+        WHERE gc.snippet_field IS NOT NULL AND gc.variant_label IS NULL
+          AND NOT EXISTS (
+            SELECT 1 FROM generated_content pending
+            WHERE pending.lead_id = gc.lead_id AND pending.snippet_field IS NOT NULL
+              AND pending.variant_label IS NULL AND COALESCE(pending.status, 'draft') != 'approved'
+          )
+        ORDER BY gc.lead_id, gc.touchpoint_number
+      `).all() as ApprovedTouchpointRow[];
+    });
+
+    const examples = new Map<number, FewShotExampleRecord | null>();
+    for (const row of rows) {
+      const unedited = row.original !== null
+        && wordEditDistance(htmlToText(row.original), htmlToText(row.content)) === 0;
+      if (!unedited) {
+        examples.set(row.lead_id, null);
+        continue;
+      }
+      if (examples.get(row.lead_id) === null) continue;
+
+      const example = examples.get(row.lead_id) || {
+        lead_id: row.lead_id,
+        first_name: row.first_name,
+        last_name: row.last_name,
+        email: row.email,
+        company: row.company,
+        title: row.title,
+        industry: row.industry,
+        template_version_id: row.template_id,
+        approved_at: row.approved_at,
+        status: row.status || 'auto',
+        snippets: {}
+      };
+      example.snippets[row.snippet_field] = row.content;
+      if (row.approved_at && (!example.approved_at || row.approved_at > example.approved_at)) {
+        example.approved_at = row.approved_at;
+      }
+      examples.set(row.lead_id, example);
+    }
+
+    const byRecency = [...examples.values()]
+      .filter((example): example is FewShotExampleRecord => example !== null)
+      .sort((a, b) => (b.approved_at || '').localeCompare(a.approved_at || '') || b.lead_id - a.lead_id);
+
+    const inactive = byRecency.filter(example => example.status === 'excluded' || example.status === 'retired');
+    return [
+      ...byRecency.filter(example => example.status === 'pinned'),
+      ...byRecency.filter(example => example.status === 'auto').slice(0, filters.recentLimit ?? RECENT_EXAMPLE_LIMIT),
+      ...(filters.includeInactive ? inactive : [])
+    ];
+  }
+
+  // Pin, exclude or retire a lead's sequence; 'auto' puts it back in rotation
+  static setStatus(leadId: number, status: FewShotExampleStatus): boolean {
+    return withTransaction(db => {
+      if (status === 'auto') {
+        db.prepare('DELETE FROM few_shot_examples WHERE lead_id = ?').run(leadId);
+        return true;
+      }
+
+      const result = db.prepare(`
+        INSERT INTO few_shot_examples (lead_id, status)
+        SELECT id, ? FROM leads WHERE id = ?
+        ON CONFLICT(lead_id) DO UPDATE SET status = excluded.status, updated_at = CURRENT_TIMESTAMP
+      `).run(status, leadId);
+      return result.changes > 0;
+    });
+  }
+}
@@ -1,23 +1,82 @@
 import Database from 'better-sqlite3';
 import { withDatabase, withTransaction } from '../utils';
+import { NotFoundError } from './errors';
+import type { TouchpointContent } from '../../utils/sequenceDefinition';
+import type { RevisionInfo } from './content_revisions';
 
 export interface GeneratedContentRecord {
   id?: number;
   lead_id: number;
   touchpoint_number: number;
   content: string;
-  content_type: 'email' | 'subject' | 'template';
-  template_id?: string;
+  content_type: 'email' | 'subject' | 'linkedin' | 'template';
+  template_id?: number | null; // prompt_template_versions id
   status?: 'draft' | 'approved' | 'rejected';
   generated_at?: string;
   approved_at?: string;
+  // Snippet a touchpoint row holds; A/B variant rows also carry their label and, once kept, the slot they export to
+  snippet_field?: string | null;
+  variant_label?: string | null;
+  exported_field?: string | null;
+  generation_run_id?: number | null; // generation_runs id of the call that last wrote it
+}
+
+export interface SnippetVariantsInput {
+  lead_id: number;
+  touchpoint_number: number;
+  content_type: GeneratedContentRecord['content_type'];
+  snippet_field: string;
+  template_id?: number | null;
+  contents: string[];
+  // Run that wrote the contents; the touchpoint's own text keeps the run it came from
+  generation_run_id?: number | null;
+}
+
+export interface KeptVariant {
+  id: number;
+  exported_field: string;
+}
+
+// How far a lead's touchpoints are through review
+export interface TouchpointApproval {
+  total: number;
+  pending: string[]; // snippet fields still in draft or rejected
+}
+
+// A, B, C, ... in the order variants were generated
+function variantLabel(index: number): string {
+  return index < 26 ? String.fromCharCode(65 + index) : `V${index + 1}`;
+}
+
+/**
+ * Reject a snippet's A/B variants once its touchpoint text is replaced, since
+ * they were reviewed against the old text and export would otherwise still
+ * fill their spare slot. Writing the kept winner into the touchpoint is not a
+ * replacement; a removed touchpoint passes null. Runs on the caller's
+ * transaction.
+ */
+export function rejectReplacedVariants(
+  db: Database.Database,
+  leadId: number,
+  snippetField: string,
+  content: string | null
+): void {
+  db.prepare(`
+    UPDATE generated_content SET status = 'rejected', approved_at = NULL, exported_field = NULL
+    WHERE lead_id = ? AND snippet_field = ? AND variant_label IS NOT NULL AND status != 'rejected'
+      AND NOT EXISTS (
+        SELECT 1 FROM generated_content kept
+        WHERE kept.lead_id = ? AND kept.snippet_field = ? AND kept.variant_label IS NOT NULL
+          AND kept.status = 'approved' AND kept.exported_field = kept.snippet_field AND kept.content IS ?
+      )
+  `).run(leadId, snippetField, leadId, snippetField, content);
 }
 
 export interface ContentFilters {
   lead_id?: number;
   touchpoint_number?: number;
   content_type?: GeneratedContentRecord['content_type'];
-  template_id?: string;
+  template_id?: number;
   status?: GeneratedContentRecord['status'];
   dateFrom?: string;
   dateTo?: string;
@@ -34,9 +93,9 @@ export class GeneratedContentDAL {
       const stmt = db.prepare(`
         INSERT INTO generated_content (
           lead_id, touchpoint_number, content, content_type, 
-          template_id, status, approved_at
+          template_id, status, approved_at, snippet_field, variant_label, exported_field
         )
-        VALUES (?, ?, ?, ?, ?, ?, ?)
+        VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
       `);
       
       const result = stmt.run(
@@ -46,7 +105,10 @@ export class GeneratedContentDAL {
         contentData.content_type,
         contentData.template_id || null,
         contentData.status || 'draft',
-        contentData.approved_at || null
+        contentData.approved_at || null,
+        contentData.snippet_field || null,
+        contentData.variant_label || null,
+        contentData.exported_field || null
       );
       
       return this.getById(result.lastInsertRowid as number)!;
@@ -226,7 +288,7 @@ export class GeneratedContentDAL {
     return this.getAll({ content_type: contentType }, pagination);
   }
 
-  static getByTemplate(templateId: string, pagination?: PaginationOptions): GeneratedContentRecord[] {
+  static getByTemplate(templateId: number, pagination?: PaginationOptions): GeneratedContentRecord[] {
     return this.getAll({ template_id: templateId }, pagination);
   }
 
@@ -253,6 +315,194 @@ export class GeneratedContentDAL {
     });
   }
 
+  // A lead's touchpoint rows, one per snippet, in sequence order
+  static getTouchpoints(leadId: number): GeneratedContentRecord[] {
+    return withDatabase(db => {
+      const stmt = db.prepare(`
+        SELECT * FROM generated_content
+        WHERE lead_id = ? AND snippet_field IS NOT NULL AND variant_label IS NULL
+        ORDER BY touchpoint_number ASC
+      `);
+      return stmt.all(leadId) as GeneratedContentRecord[];
+    });
+  }
+
+  /**
+   * Save a lead's sequence as one row per touchpoint. Unchanged touchpoints
+   * keep their review state, edited ones go back to draft, and touchpoints no
+   * longer in the sequence are removed. Every new or changed text is recorded
+   * as a revision, and variants reviewed against a replaced text are
+   * rejected. A generation run in the revision info is linked from
+   * every touchpoint it wrote. Unchanged touchpoints keep the run they
+   * already came from, so rewriting one snippet relinks only that one.
+   */
+  static saveSequence(
+    leadId: number,
+    touchpoints: TouchpointContent[],
+    templateId?: number | null,
+    revision: RevisionInfo = { source: 'manual' }
+  ): GeneratedContentRecord[] {
+    withTransaction(db => {
+      const existing = new Map(
+        (db.prepare(`
+          SELECT * FROM generated_content
+          WHERE lead_id = ? AND snippet_field IS NOT NULL AND variant_label IS NULL
+        `).all(leadId) as GeneratedContentRecord[]).map(row => [row.snippet_field!, row])
+      );
+
+      const insert = db.prepare(`
+        INSERT INTO generated_content (
+          lead_id, touchpoint_number, content, content_type, template_id, status, snippet_field, generation_run_id
+        )
+        VALUES (?, ?, ?, ?, ?, 'draft', ?, ?)
+      `);
+      const edit = db.prepare(`
+        UPDATE generated_content
+        SET touchpoint_number = ?, content = ?, content_type = ?, template_id = COALESCE(?, template_id),
+          generation_run_id = COALESCE(?, generation_run_id),
+          status = 'draft', approved_at = NULL, generated_at = CURRENT_TIMESTAMP
+        WHERE id = ?
+      `);
+      const move = db.prepare(`
+        UPDATE generated_content
+        SET touchpoint_number = ?, content_type = ?, generation_run_id = COALESCE(generation_run_id, ?)
+        WHERE id = ?
+      `);
+      const runId = revision.generationRunId || null;
+      const remove = db.prepare('DELETE FROM generated_content WHERE id = ?');
+      const recordRevision = db.prepare(`
+        INSERT INTO content_revisions (lead_id, snippet_field, content, source, author)
+        VALUES (?, ?, ?, ?, ?)
+      `);
+
+      for (const touchpoint of touchpoints) {
+        const row = existing.get(touchpoint.snippet_field);
+        existing.delete(touchpoint.snippet_field);
+
+        if (row && row.content === touchpoint.content) {
+          move.run(touchpoint.touchpoint_number, touchpoint.content_type, runId, row.id);
+          continue;
+        }
+
+        if (!row) {
+          insert.run(
+            leadId, touchpoint.touchpoint_number, touchpoint.content, touchpoint.content_type,
+            templateId || null, touchpoint.snippet_field, runId
+          );
+        } else {
+          edit.run(touchpoint.touchpoint_number, touchpoint.content, touchpoint.content_type, templateId || null, runId, row.id);
+          rejectReplacedVariants(db, leadId, touchpoint.snippet_field, touchpoint.content);
+        }
+        recordRevision.run(leadId, touchpoint.snippet_field, touchpoint.content, revision.source, revision.author || null);
+      }
+
+      for (const row of existing.values()) {
+        remove.run(row.id);
+        rejectReplacedVariants(db, leadId, row.snippet_field!, null);
+      }
+    });
+
+    return this.getTouchpoints(leadId);
+  }
+
+  /**
+   * Export readiness of a lead: every touchpoint it has must be approved, and
+   * a lead without touchpoints has nothing to export yet.
+   */
+  static getApproval(leadId: number): TouchpointApproval {
+    const touchpoints = this.getTouchpoints(leadId);
+    return {
+      total: touchpoints.length,
+      pending: touchpoints.filter(row => row.status !== 'approved').map(row => row.snippet_field!)
+    };
+  }
+
+  /**
+   * Store alternatives for one snippet as sibling rows of the lead's content.
+   * Undecided variants from an earlier round are replaced; kept and rejected
+   * ones stay, and new labels continue after them.
+   */
+  static createVariants(input: SnippetVariantsInput): GeneratedContentRecord[] {
+    return withTransaction(db => {
+      db.prepare(`
+        DELETE FROM generated_content
+        WHERE lead_id = ? AND snippet_field = ? AND variant_label IS NOT NULL AND status = 'draft'
+      `).run(input.lead_id, input.snippet_field);
+
+      const { count } = db.prepare(`
+        SELECT COUNT(*) as count FROM generated_content
+        WHERE lead_id = ? AND snippet_field = ? AND variant_label IS NOT NULL
+      `).get(input.lead_id, input.snippet_field) as { count: number };
+
+      const touchpoint = db.prepare(`
+        SELECT content, generation_run_id FROM generated_content
+        WHERE lead_id = ? AND snippet_field = ? AND variant_label IS NULL
+      `).get(input.lead_id, input.snippet_field) as Pick<GeneratedContentRecord, 'content' | 'generation_run_id'> | undefined;
+
+      const stmt = db.prepare(`
+        INSERT INTO generated_content (
+          lead_id, touchpoint_number, content, content_type, template_id, status, snippet_field, variant_label,
+          generation_run_id
+        )
+        VALUES (?, ?, ?, ?, ?, 'draft', ?, ?, ?)
+      `);
+
+      const ids = input.contents.map((content, index) => stmt.run(
+        input.lead_id,
+        input.touchpoint_number,
+        content,
+        input.content_type,
+        input.template_id || null,
+        input.snippet_field,
+        variantLabel(count + index),
+        (content === touchpoint?.content ? touchpoint.generation_run_id : input.generation_run_id) || null
+      ).lastInsertRowid as number);
+
+      return ids.map(id => db.prepare('SELECT * FROM generated_content WHERE id = ?').get(id) as GeneratedContentRecord);
+    });
+  }
+
+  static getVariants(leadId: number, snippetField?: string): GeneratedContentRecord[] {
+    return withDatabase(db => {
+      let query = 'SELECT * FROM generated_content WHERE lead_id = ? AND variant_label IS NOT NULL';
+      const params: (number | string)[] = [leadId];
+
+      if (snippetField) {
+        query += ' AND snippet_field = ?';
+        params.push(snippetField);
+      }
+
+      query += ' ORDER BY snippet_field ASC, id ASC';
+      return db.prepare(query).all(...params) as GeneratedContentRecord[];
+    });
+  }
+
+  /**
+   * Record the reviewer's decision for a snippet: kept variants are approved
+   * with the slot each is exported in, every other variant is rejected.
+   */
+  static keepVariants(leadId: number, snippetField: string, kept: KeptVariant[]): GeneratedContentRecord[] {
+    withTransaction(db => {
+      db.prepare(`
+        UPDATE generated_content SET status = 'rejected', approved_at = NULL, exported_field = NULL
+        WHERE lead_id = ? AND snippet_field = ? AND variant_label IS NOT NULL
+      `).run(leadId, snippetField);
+
+      const keep = db.prepare(`
+        UPDATE generated_content SET status = 'approved', approved_at = ?, exported_field = ?
+        WHERE id = ? AND lead_id = ? AND snippet_field = ? AND variant_label IS NOT NULL
+      `);
+      const approvedAt = new Date().toISOString();
+      for (const variant of kept) {
+        if (keep.run(approvedAt, variant.exported_field, variant.id, leadId, snippetField).changes === 0) {
+          throw new NotFoundError('keepVariants', 'generated_content', variant.id);
+        }
+      }
+    });
+
+    return this.getVariants(leadId, snippetField);
+  }
+
   static getContentStats(): { total: number; byStatus: Record<string, number>; byType: Record<string, number> } {
     return withDatabase(db => {
       const totalStmt = db.prepare('SELECT COUNT(*) as count FROM generated_content');
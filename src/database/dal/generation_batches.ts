@@ -0,0 +1,299 @@
+import { withDatabase, withTransaction } from '../utils';
+import { rejectReplacedVariants } from './generated_content';
+import type { TouchpointContent } from '../../utils/sequenceDefinition';
+
+export type GenerationBatchStatus = 'pending' | 'running' | 'completed' | 'failed' | 'cancelled';
+export type GenerationBatchItemStatus = 'pending' | 'succeeded' | 'failed';
+
+export interface GenerationBatchRecord {
+  id?: number;
+  anthropic_batch_id?: string | null;
+  model_id: string;
+  status?: GenerationBatchStatus;
+  total_items?: number;
+  processed_items?: number;
+  last_error?: string | null;
+  created_at?: string;
+  submitted_at?: string;
+  completed_at?: string;
+}
+
+export interface GenerationBatchItemRecord {
+  id?: number;
+  batch_id: number;
+  lead_id?: number | null;
+  custom_id: string;
+  request: string; // JSON
+  status?: GenerationBatchItemStatus;
+  content_id?: number | null;
+  error?: string | null;
+  processed_at?: string;
+}
+
+export interface GenerationBatchItemResult {
+  id: number;
+  status: Exclude<GenerationBatchItemStatus, 'pending'>;
+  touchpoints?: TouchpointContent[];
+  templateId?: number; // prompt template version the request was built from
+  generationRunId?: number; // audit run of the result, linked from its touchpoints
+  error?: string;
+}
+
+// Batch state as reported to the renderer
+export interface GenerationBatchProgress {
+  batchId: number;
+  anthropicBatchId?: string | null;
+  modelId: string;
+  status: GenerationBatchStatus;
+  current: number;
+  total: number;
+  succeeded: number;
+  failed: number;
+  failures: Array<{ leadId: number | null; error: string }>;
+  leadIds: number[];
+  lastError?: string | null;
+}
+
+const UNFINISHED_STATUSES: GenerationBatchStatus[] = ['pending', 'running'];
+
+export class GenerationBatchesDAL {
+  /**
+   * Create a batch and its items in one transaction. The leads are marked as
+   * generating so the lead list shows them queued until results arrive.
+   */
+  static createBatch(
+    batchData: Pick<GenerationBatchRecord, 'model_id'>,
+    items: Array<{ lead_id?: number | null; custom_id: string; request: Record<string, unknown> }>
+  ): GenerationBatchRecord {
+    const batchId = withTransaction(db => {
+      const result = db.prepare(`
+        INSERT INTO generation_batches (model_id, status, total_items)
+        VALUES (?, 'pending', ?)
+      `).run(batchData.model_id, items.length);
+
+      const id = result.lastInsertRowid as number;
+      const insertItem = db.prepare(`
+        INSERT INTO generation_batch_items (batch_id, lead_id, custom_id, request)
+        VALUES (?, ?, ?, ?)
+      `);
+      const markLeadGenerating = db.prepare("UPDATE leads SET status = 'generating' WHERE id = ?");
+
+      for (const item of items) {
+        insertItem.run(id, item.lead_id ?? null, item.custom_id, JSON.stringify(item.request));
+        if (item.lead_id) {
+          markLeadGenerating.run(item.lead_id);
+        }
+      }
+
+      return id;
+    });
+
+    return this.getById(batchId)!;
+  }
+
+  static getById(id: number): GenerationBatchRecord | null {
+    return withDatabase(db => {
+      const stmt = db.prepare('SELECT * FROM generation_batches WHERE id = ?');
+      return stmt.get(id) as GenerationBatchRecord | undefined || null;
+    });
+  }
+
+  static getUnfinished(): GenerationBatchRecord[] {
+    return withDatabase(db => {
+      const placeholders = UNFINISHED_STATUSES.map(() => '?').join(',');
+      const stmt = db.prepare(`SELECT * FROM generation_batches WHERE status IN (${placeholders}) ORDER BY id`);
+      return stmt.all(...UNFINISHED_STATUSES) as GenerationBatchRecord[];
+    });
+  }
+
+  static getRecent(limit: number = 20): GenerationBatchRecord[] {
+    return withDatabase(db => {
+      const stmt = db.prepare('SELECT * FROM generation_batches ORDER BY id DESC LIMIT ?');
+      return stmt.all(limit) as GenerationBatchRecord[];
+    });
+  }
+
+  static getItems(batchId: number, status?: GenerationBatchItemStatus): GenerationBatchItemRecord[] {
+    return withDatabase(db => {
+      if (status) {
+        const stmt = db.prepare('SELECT * FROM generation_batch_items WHERE batch_id = ? AND status = ? ORDER BY id');
+        return stmt.all(batchId, status) as GenerationBatchItemRecord[];
+      }
+      const stmt = db.prepare('SELECT * FROM generation_batch_items WHERE batch_id = ? ORDER BY id');
+      return stmt.all(batchId) as GenerationBatchItemRecord[];
+    });
+  }
+
+  static markSubmitted(batchId: number, anthropicBatchId: string): GenerationBatchRecord | null {
+    return withDatabase(db => {
+      db.prepare(`
+        UPDATE generation_batches
+        SET status = 'running', anthropic_batch_id = ?, submitted_at = CURRENT_TIMESTAMP, last_error = NULL
+        WHERE id = ?
+      `).run(anthropicBatchId, batchId);
+      return this.getById(batchId);
+    });
+  }
+
+  static updateProcessedCount(batchId: number, processed: number): void {
+    withDatabase(db => {
+      db.prepare('UPDATE generation_batches SET processed_items = ? WHERE id = ?').run(processed, batchId);
+    });
+  }
+
+  /**
+   * Close a batch. Items still pending on a failed batch are failed with the
+   * batch error; on a cancelled batch their leads go back to imported so they
+   * can be generated again.
+   */
+  static finish(
+    batchId: number,
+    status: Exclude<GenerationBatchStatus, 'pending' | 'running'>,
+    error?: string
+  ): GenerationBatchRecord | null {
+    withTransaction(db => {
+      db.prepare(`
+        UPDATE generation_batches
+        SET status = ?, last_error = ?, completed_at = CURRENT_TIMESTAMP
+        WHERE id = ?
+      `).run(status, error || null, batchId);
+
+      const pendingLeads = `
+        SELECT lead_id FROM generation_batch_items
+        WHERE batch_id = ? AND status = 'pending' AND lead_id IS NOT NULL
+      `;
+
+      if (status === 'cancelled') {
+        db.prepare(`
+          UPDATE leads SET status = 'imported'
+          WHERE status = 'generating' AND id IN (${pendingLeads})
+        `).run(batchId);
+      } else {
+        db.prepare(`
+          UPDATE leads SET status = 'failed'
+          WHERE status = 'generating' AND id IN (${pendingLeads})
+        `).run(batchId);
+        db.prepare(`
+          UPDATE generation_batch_items
+          SET status = 'failed', error = ?, processed_at = CURRENT_TIMESTAMP
+          WHERE batch_id = ? AND status = 'pending'
+        `).run(error || 'No result returned for this lead', batchId);
+      }
+    });
+
+    return this.getById(batchId);
+  }
+
+  /**
+   * Persist per-lead results. Successful items replace their lead's
+   * touchpoint rows with fresh drafts and an ai revision each, as single-lead
+   * generation does, rejecting A/B variants of the replaced text, and the
+   * item points at the first of them; failed items
+   * mark their lead failed.
+   */
+  static recordResults(batchId: number, results: GenerationBatchItemResult[]): void {
+    withTransaction(db => {
+      const getItem = db.prepare(`
+        SELECT lead_id FROM generation_batch_items WHERE id = ? AND batch_id = ? AND status = 'pending'
+      `);
+      const getVariantFields = db.prepare(`
+        SELECT DISTINCT snippet_field FROM generated_content
+        WHERE lead_id = ? AND variant_label IS NOT NULL AND status != 'rejected'
+      `);
+      const clearTouchpoints = db.prepare(`
+        DELETE FROM generated_content WHERE lead_id = ? AND snippet_field IS NOT NULL AND variant_label IS NULL
+      `);
+      const insertTouchpoint = db.prepare(`
+        INSERT INTO generated_content (
+          lead_id, touchpoint_number, content, content_type, template_id, status, snippet_field, generation_run_id
+        )
+        VALUES (?, ?, ?, ?, ?, 'draft', ?, ?)
+      `);
+      const recordRevision = db.prepare(`
+        INSERT INTO content_revisions (lead_id, snippet_field, content, source, author)
+        VALUES (?, ?, ?, 'ai', (SELECT model_id FROM generation_batches WHERE id = ?))
+      `);
+      const updateItem = db.prepare(`
+        UPDATE generation_batch_items
+        SET status = ?, content_id = ?, error = ?, processed_at = CURRENT_TIMESTAMP
+        WHERE id = ?
+      `);
+      const updateLead = db.prepare('UPDATE leads SET status = ? WHERE id = ?');
+
+      for (const result of results) {
+        const item = getItem.get(result.id, batchId) as { lead_id: number | null } | undefined;
+        if (!item) continue;
+
+        let contentId: number | null = null;
+        if (result.status === 'succeeded' && item.lead_id && result.touchpoints?.length) {
+          const contents = new Map<string, string>(result.touchpoints.map(touchpoint => [touchpoint.snippet_field, touchpoint.content]));
+          for (const { snippet_field } of getVariantFields.all(item.lead_id) as { snippet_field: string }[]) {
+            rejectReplacedVariants(db, item.lead_id, snippet_field, contents.get(snippet_field) ?? null);
+          }
+          clearTouchpoints.run(item.lead_id);
+          const ids = result.touchpoints.map(touchpoint => insertTouchpoint.run(
+            item.lead_id,
+            touchpoint.touchpoint_number,
+            touchpoint.content,
+            touchpoint.content_type,
+            result.templateId ?? null,
+            touchpoint.snippet_field,
+            result.generationRunId ?? null
+          ).lastInsertRowid as number);
+          result.touchpoints.forEach(touchpoint => {
+            recordRevision.run(item.lead_id, touchpoint.snippet_field, touchpoint.content, batchId);
+          });
+          contentId = ids[0];
+        }
+
+        updateItem.run(result.status, contentId, result.error || null, result.id);
+
+        if (item.lead_id) {
+          updateLead.run(result.status === 'succeeded' ? 'drafted' : 'failed', item.lead_id);
+        }
+      }
+    });
+  }
+
+  static getProgress(batchId: number): GenerationBatchProgress | null {
+    return withDatabase(db => {
+      const batch = this.getById(batchId);
+      if (!batch) return null;
+
+      const counts = db.prepare(`
+        SELECT
+          COUNT(*) as total,
+          SUM(CASE WHEN status = 'succeeded' THEN 1 ELSE 0 END) as succeeded,
+          SUM(CASE WHEN status = 'failed' THEN 1 ELSE 0 END) as failed
+        FROM generation_batch_items WHERE batch_id = ?
+      `).get(batchId) as { total: number; succeeded: number | null; failed: number | null };
+
+      const items = db.prepare(`
+        SELECT lead_id, status, error FROM generation_batch_items
+        WHERE batch_id = ? ORDER BY id
+      `).all(batchId) as Array<{ lead_id: number | null; status: GenerationBatchItemStatus; error: string | null }>;
+
+      const succeeded = counts.succeeded || 0;
+      const failed = counts.failed || 0;
+
+      return {
+        batchId,
+        anthropicBatchId: batch.anthropic_batch_id,
+        modelId: batch.model_id,
+        status: batch.status || 'pending',
+        // Results are only downloadable once the whole batch ends, so report the API's count until then
+        current: Math.max(succeeded + failed, batch.processed_items || 0),
+        total: counts.total,
+        succeeded,
+        failed,
+        failures: items
+          .filter(item => item.status === 'failed')
+          .map(item => ({ leadId: item.lead_id, error: item.error || 'Unknown error' })),
+        leadIds: items
+          .map(item => item.lead_id)
+          .filter((leadId): leadId is number => leadId !== null),
+        lastError: batch.last_error
+      };
+    });
+  }
+}
@@ -0,0 +1,137 @@
+import { withDatabase } from '../utils';
+
+export type GenerationRunOperation = 'generate' | 'stream' | 'batch' | 'rewrite' | 'variants';
+export type GenerationRunStatus = 'succeeded' | 'failed' | 'partial';
+
+// One Claude generation call as sent and received, for debugging and reproducing content
+export interface GenerationRunRecord {
+  id?: number;
+  lead_id?: number | null;
+  operation: GenerationRunOperation;
+  model_id: string;
+  prompt: string;
+  prompt_prefix?: string | null;
+  system_prompt?: string | null;
+  file_ids: string[];
+  request?: string | null; // JSON
+  raw_response?: string | null; // JSON
+  parsed_output?: string | null; // JSON
+  status: GenerationRunStatus;
+  error?: string | null;
+  input_tokens: number;
+  output_tokens: number;
+  cache_creation_input_tokens: number;
+  cache_read_input_tokens: number;
+  duration_ms?: number | null;
+  created_at?: string;
+  // Whether the lead's current touchpoints came from this run
+  is_current?: boolean;
+}
+
+export interface GenerationRunInput {
+  lead_id?: number | null;
+  operation: GenerationRunOperation;
+  model_id: string;
+  prompt: string;
+  prompt_prefix?: string | null;
+  system_prompt?: string | null;
+  file_ids?: string[];
+  request?: unknown;
+  raw_response?: unknown;
+  parsed_output?: unknown;
+  status: GenerationRunStatus;
+  error?: string | null;
+  input_tokens?: number;
+  output_tokens?: number;
+  cache_creation_input_tokens?: number;
+  cache_read_input_tokens?: number;
+  duration_ms?: number | null;
+}
+
+type GenerationRunRow = Omit<GenerationRunRecord, 'file_ids' | 'is_current'> & {
+  file_ids: string | null;
+  is_current?: number;
+};
+
+function toJson(value: unknown): string | null {
+  return value === undefined || value === null ? null : JSON.stringify(value);
+}
+
+function toRecord(row: GenerationRunRow): GenerationRunRecord {
+  const { is_current, ...run } = row;
+  return {
+    ...run,
+    file_ids: row.file_ids ? JSON.parse(row.file_ids) : [],
+    ...(is_current !== undefined ? { is_current: is_current === 1 } : {})
+  };
+}
+
+export class GenerationRunsDAL {
+  /**
+   * Record one generation call. Runs for leads that no longer exist, or were
+   * never saved, are kept without a lead.
+   */
+  static record(run: GenerationRunInput): GenerationRunRecord {
+    return withDatabase(db => {
+      const lead = run.lead_id
+        ? db.prepare('SELECT id FROM leads WHERE id = ?').get(run.lead_id)
+        : undefined;
+
+      const result = db.prepare(`
+        INSERT INTO generation_runs (
+          lead_id, operation, model_id, prompt, prompt_prefix, system_prompt, file_ids,
+          request, raw_response, parsed_output, status, error,
+          input_tokens, output_tokens, cache_creation_input_tokens, cache_read_input_tokens, duration_ms
+        )
+        VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+      `).run(
+        lead ? run.lead_id : null,
+        run.operation,
+        run.model_id,
+        run.prompt,
+        run.prompt_prefix || null,
+        run.system_prompt || null,
+        toJson(run.file_ids?.length ? run.file_ids : null),
+        toJson(run.request),
+        toJson(run.raw_response),
+        toJson(run.parsed_output),
+        run.status,
+        run.error || null,
+        run.input_tokens || 0,
+        run.output_tokens || 0,
+        run.cache_creation_input_tokens || 0,
+        run.cache_read_input_tokens || 0,
+        run.duration_ms ?? null
+      );
+
+      return this.getById(result.lastInsertRowid as number)!;
+    });
+  }
+
+  static getById(id: number): GenerationRunRecord | null {
+    return withDatabase(db => {
+      const row = db.prepare('SELECT * FROM generation_runs WHERE id = ?').get(id) as GenerationRunRow | undefined;
+      return row ? toRecord(row) : null;
+    });
+  }
+
+  /**
+   * A lead's runs, newest first, flagging the one its touchpoints were
+   * generated by.
+   */
+  static getForLead(leadId: number, limit: number = 20): GenerationRunRecord[] {
+    return withDatabase(db => {
+      const rows = db.prepare(`
+        SELECT r.*, EXISTS (
+          SELECT 1 FROM generated_content gc
+          WHERE gc.generation_run_id = r.id AND gc.lead_id = r.lead_id
+        ) as is_current
+        FROM generation_runs r
+        WHERE r.lead_id = ?
+        ORDER BY r.created_at DESC, r.id DESC
+        LIMIT ?
+      `).all(leadId, limit) as GenerationRunRow[];
+      return rows.map(toRecord);
+    });
+  }
+}
@@ -0,0 +1,151 @@
+import { withDatabase } from '../utils';
+
+export type GenerationUsageOperation = 'generate' | 'stream' | 'repair' | 'batch';
+
+export interface GenerationUsageRecord {
+  id?: number;
+  lead_id?: number | null;
+  import_id?: number | null;
+  model_id: string;
+  operation: GenerationUsageOperation;
+  input_tokens: number;
+  output_tokens: number;
+  cache_creation_input_tokens?: number;
+  cache_read_input_tokens?: number;
+  cost_usd: number;
+  created_at?: string;
+}
+
+export type UsageSummaryGrouping = 'import' | 'model' | 'day';
+
+export interface UsageFilters {
+  import_id?: number;
+  model_id?: string;
+  dateFrom?: string;
+  dateTo?: string;
+}
+
+// One row of the cost view: totals for an import, model or day
+export interface UsageSummaryRow {
+  key: string;
+  label: string;
+  requests: number;
+  input_tokens: number;
+  output_tokens: number;
+  cache_creation_input_tokens: number;
+  cache_read_input_tokens: number;
+  cost_usd: number;
+}
+
+const SUMMARY_GROUPINGS: Record<UsageSummaryGrouping, { key: string; label: string; order: string }> = {
+  import: {
+    key: "COALESCE(CAST(u.import_id AS TEXT), 'none')",
+    label: "COALESCE(i.filename, 'No import')",
+    order: 'cost_usd DESC'
+  },
+  model: { key: 'u.model_id', label: 'u.model_id', order: 'cost_usd DESC' },
+  day: { key: 'date(u.created_at)', label: 'date(u.created_at)', order: 'key DESC' }
+};
+
+function buildFilters(filters?: UsageFilters): { where: string; params: Array<string | number> } {
+  let where = '';
+  const params: Array<string | number> = [];
+
+  if (filters?.import_id) {
+    where += ' AND u.import_id = ?';
+    params.push(filters.import_id);
+  }
+
+  if (filters?.model_id) {
+    where += ' AND u.model_id = ?';
+    params.push(filters.model_id);
+  }
+
+  if (filters?.dateFrom) {
+    where += ' AND u.created_at >= ?';
+    params.push(filters.dateFrom);
+  }
+
+  if (filters?.dateTo) {
+    where += ' AND u.created_at <= ?';
+    params.push(filters.dateTo);
+  }
+
+  return { where, params };
+}
+
+export class GenerationUsageDAL {
+  /**
+   * Record the usage of one Claude call. The import is taken from the lead so
+   * spend can be grouped per import without the caller knowing it.
+   */
+  static record(usage: Omit<GenerationUsageRecord, 'id' | 'import_id' | 'created_at'>): GenerationUsageRecord {
+    return withDatabase(db => {
+      const lead = usage.lead_id
+        ? db.prepare('SELECT import_id FROM leads WHERE id = ?').get(usage.lead_id) as { import_id: number } | undefined
+        : undefined;
+
+      const result = db.prepare(`
+        INSERT INTO generation_usage (
+          lead_id, import_id, model_id, operation, input_tokens, output_tokens,
+          cache_creation_input_tokens, cache_read_input_tokens, cost_usd
+        )
+        VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)
+      `).run(
+        lead ? usage.lead_id : null,
+        lead?.import_id ?? null,
+        usage.model_id,
+        usage.operation,
+        usage.input_tokens,
+        usage.output_tokens,
+        usage.cache_creation_input_tokens || 0,
+        usage.cache_read_input_tokens || 0,
+        usage.cost_usd
+      );
+
+      return db.prepare('SELECT * FROM generation_usage WHERE id = ?').get(result.lastInsertRowid) as GenerationUsageRecord;
+    });
+  }
+
+  static getByLead(leadId: number): GenerationUsageRecord[] {
+    return withDatabase(db => {
+      const stmt = db.prepare('SELECT * FROM generation_usage WHERE lead_id = ? ORDER BY created_at DESC, id DESC');
+      return stmt.all(leadId) as GenerationUsageRecord[];
+    });
+  }
+
+  static getTotalCost(filters?: UsageFilters): number {
+    return withDatabase(db => {
+      const { where, params } = buildFilters(filters);
+      const row = db.prepare(`SELECT SUM(u.cost_usd) as total FROM generation_usage u WHERE 1=1${where}`)
+        .get(...params) as { total: number | null };
+      return row.total || 0;
+    });
+  }
+
+  static getSummary(groupBy: UsageSummaryGrouping, filters?: UsageFilters): UsageSummaryRow[] {
+    return withDatabase(db => {
+      const grouping = SUMMARY_GROUPINGS[groupBy];
+      let query = `
+        SELECT
+          ${grouping.key} as key,
+          ${grouping.label} as label,
+          COUNT(*) as requests,
+          SUM(u.input_tokens) as input_tokens,
+          SUM(u.output_tokens) as output_tokens,
+          SUM(u.cache_creation_input_tokens) as cache_creation_input_tokens,
+          SUM(u.cache_read_input_tokens) as cache_read_input_tokens,
+          SUM(u.cost_usd) as cost_usd
+        FROM generation_usage u
+        LEFT JOIN imports i ON i.id = u.import_id
+        WHERE 1=1
+      `;
+      const { where, params } = buildFilters(filters);
+      query += where;
+
+      query += ` GROUP BY ${grouping.key} ORDER BY ${grouping.order}`;
+
+      return db.prepare(query).all(...params) as UsageSummaryRow[];
+    });
+  }
+}
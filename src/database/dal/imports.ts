@@ -8,6 +8,7 @@ export interface ImportRecord {
   status: 'pending' | 'processing' | 'completed' | 'failed';
   lead_count?: number;
   error_messages?: string;
+  sender_id?: number | null; // sender profile for the import's leads
   created_at?: string;
 }
 
@@ -27,8 +28,8 @@ export class ImportsDAL {
   static create(importData: Omit<ImportRecord, 'id' | 'created_at'>): ImportRecord {
     return withDatabase(db => {
       const stmt = db.prepare(`
-        INSERT INTO imports (filename, import_date, status, lead_count, error_messages)
-        VALUES (?, ?, ?, ?, ?)
+        INSERT INTO imports (filename, import_date, status, lead_count, error_messages, sender_id)
+        VALUES (?, ?, ?, ?, ?, ?)
       `);
       
       const result = stmt.run(
@@ -36,7 +37,8 @@ export class ImportsDAL {
         importData.import_date || new Date().toISOString(),
         importData.status,
         importData.lead_count || 0,
-        importData.error_messages || null
+        importData.error_messages || null,
+        importData.sender_id || null
       );
       
       return this.getById(result.lastInsertRowid as number)!;
@@ -5,13 +5,61 @@ export { GeneratedContentDAL } from './generated_content';
 export { MappingsDAL } from './mappings';
 export { AppMetadataDAL } from './app_metadata';
 export { AdvancedQueriesDAL } from './queries';
+export { CampaignSyncDAL } from './campaign_sync';
+export { ExportJobsDAL } from './export_jobs';
+export type {
+  GenerationBatchRecord,
+  GenerationBatchItemRecord,
+  GenerationBatchItemResult,
+  GenerationBatchProgress,
+  GenerationBatchStatus,
+  GenerationBatchItemStatus
+} from './generation_batches';
+export type {
+  GenerationUsageRecord,
+  GenerationUsageOperation,
+  UsageSummaryGrouping,
+  UsageSummaryRow,
+  UsageFilters
+} from './generation_usage';
+export type {
+  PromptTemplateRecord,
+  PromptTemplateVersionRecord,
+  PromptTemplateWithVersion,
+  PromptTemplateInput
+} from './prompt_templates';
+export { GenerationBatchesDAL } from './generation_batches';
+export { GenerationUsageDAL } from './generation_usage';
+export { PromptTemplatesDAL } from './prompt_templates';
+export { ContentRevisionsDAL } from './content_revisions';
+export type { ContentRevisionRecord, RevisionSource, RevisionInfo } from './content_revisions';
+export { EditMetricsDAL } from './edit_metrics';
+export type { EditMetricsGrouping, EditMetricsRow, SnippetEditMetric } from './edit_metrics';
+export { CaseStudiesDAL } from './case_studies';
+export type { CaseStudyRecord, CaseStudyInput } from './case_studies';
+export { SenderProfilesDAL } from './sender_profiles';
+export type { SenderProfileRecord, SenderProfileInput } from './sender_profiles';
+export { GenerationRunsDAL } from './generation_runs';
+export type { GenerationRunRecord, GenerationRunInput, GenerationRunOperation, GenerationRunStatus } from './generation_runs';
+export { FewShotExamplesDAL } from './few_shot_examples';
+export type { FewShotExampleRecord, FewShotExampleStatus, FewShotExampleFilters } from './few_shot_examples';
 
 // Type exports
 export type { ImportRecord, ImportFilters } from './imports';
-export type { LeadRecord, LeadFilters, BulkLeadData } from './leads';
-export type { GeneratedContentRecord, ContentFilters } from './generated_content';
+export type { LeadRecord, LeadFilters, BulkLeadData, LeadStatus, EngagementStatus } from './leads';
+export { ENGAGEMENT_STATUSES } from './leads';
+export type { GeneratedContentRecord, ContentFilters, SnippetVariantsInput, KeptVariant, TouchpointApproval } from './generated_content';
 export type { MappingRecord, MappingFilters, BulkMappingData } from './mappings';
 export type { AppMetadataRecord, MetadataFilters } from './app_metadata';
+export type { CampaignSyncRecord } from './campaign_sync';
+export type {
+  ExportJobRecord,
+  ExportJobItemRecord,
+  ExportJobItemResult,
+  ExportJobProgress,
+  ExportJobStatus,
+  ExportJobItemStatus
+} from './export_jobs';
 export type {
   ImportWithStats,
   LeadWithContent,
@@ -85,7 +133,7 @@ export class DALUtils {
   } {
     try {
       return withDatabase(db => {
-        const tables = ['imports', 'leads', 'generated_content', 'mappings', 'app_metadata'];
+        const tables = ['imports', 'leads', 'generated_content', 'mappings', 'woodpecker_campaign_sync', 'export_jobs', 'export_job_items', 'generation_batches', 'generation_batch_items', 'generation_usage', 'prompt_templates', 'prompt_template_versions', 'content_revisions', 'case_studies', 'sender_profiles', 'generation_runs', 'few_shot_examples', 'app_metadata'];
         const tableStatus: Record<string, { exists: boolean; count: number }> = {};
         
         for (const table of tables) {
@@ -40,12 +40,41 @@ export interface LeadRecord {
   // Legacy field for truly custom data
   additional_fields?: string; // JSON string for non-standard fields
   // Status and tracking
-  status?: 'imported' | 'generating' | 'drafted' | 'approved' | 'exported' | 'failed' | 'deleted';
+  status?: LeadStatus;
   woodpecker_campaign_id?: string;
   export_date?: string;
+  // Engagement synced back from Woodpecker
+  woodpecker_prospect_id?: number;
+  engagement_synced_at?: string;
+  sender_id?: number | null; // overrides the import's sender profile
   created_at?: string;
 }
 
+/**
+ * Post-export states pulled from Woodpecker, in order of precedence
+ * (a blacklisted prospect that also opened an email is reported as blacklisted).
+ */
+export const ENGAGEMENT_STATUSES = [
+  'blacklisted',
+  'bounced',
+  'interested',
+  'replied',
+  'autoreplied',
+  'opened'
+] as const;
+
+export type EngagementStatus = typeof ENGAGEMENT_STATUSES[number];
+
+export type LeadStatus =
+  | 'imported'
+  | 'generating'
+  | 'drafted'
+  | 'approved'
+  | 'exported'
+  | 'failed'
+  | 'deleted'
+  | EngagementStatus;
+
 export interface LeadFilters {
   import_id?: number;
   status?: LeadRecord['status'];
@@ -319,6 +348,19 @@ export class LeadsDAL {
     });
   }
 
+  static countByImport(ids: number[]): Array<{ import_id: number; count: number }> {
+    if (ids.length === 0) return [];
+    return withDatabase(db => {
+      const placeholders = ids.map(() => '?').join(',');
+      const stmt = db.prepare(`
+        SELECT import_id, COUNT(*) as count FROM leads
+        WHERE id IN (${placeholders})
+        GROUP BY import_id
+      `);
+      return stmt.all(...ids) as Array<{ import_id: number; count: number }>;
+    });
+  }
+
   static delete(id: number): boolean {
     return withTransaction(db => {
       const stmt = db.prepare('DELETE FROM leads WHERE id = ?');
@@ -415,6 +457,39 @@ export class LeadsDAL {
     return this.getAll(filters);
   }
 
+  /**
+   * All leads that have been pushed to a Woodpecker campaign, whatever
+   * engagement state they have reached since.
+   */
+  static getCampaignLeads(campaignId: string): LeadRecord[] {
+    return withDatabase(db => {
+      const stmt = db.prepare('SELECT * FROM leads WHERE woodpecker_campaign_id = ? ORDER BY id');
+      return stmt.all(campaignId) as LeadRecord[];
+    });
+  }
+
+  static getExportedCampaignIds(): string[] {
+    return withDatabase(db => {
+      const stmt = db.prepare(`
+        SELECT DISTINCT woodpecker_campaign_id FROM leads
+        WHERE woodpecker_campaign_id IS NOT NULL AND woodpecker_campaign_id != ''
+        ORDER BY woodpecker_campaign_id
+      `);
+      return (stmt.all() as { woodpecker_campaign_id: string }[]).map(row => row.woodpecker_campaign_id);
+    });
+  }
+
+  static updateEngagement(
+    id: number,
+    engagement: { status?: LeadStatus; woodpecker_prospect_id?: number; syncedAt?: string }
+  ): LeadRecord | null {
+    return this.update(id, {
+      status: engagement.status,
+      woodpecker_prospect_id: engagement.woodpecker_prospect_id,
+      engagement_synced_at: engagement.syncedAt || new Date().toISOString()
+    });
+  }
+
   static getLeadsWithAdditionalFields(): LeadRecord[] {
     return withDatabase(db => {
       const stmt = db.prepare('SELECT * FROM leads WHERE additional_fields IS NOT NULL AND additional_fields != "" ORDER BY created_at DESC');
@@ -0,0 +1,189 @@
+import { withDatabase, withTransaction } from '../utils';
+import type { SequenceTouchpoint } from '../../utils/sequenceDefinition';
+
+export interface PromptTemplateRecord {
+  id?: number;
+  name: string;
+  description?: string | null;
+  created_at?: string;
+  updated_at?: string;
+}
+
+// Versions are never edited; saving a template adds the next version
+export interface PromptTemplateVersionRecord {
+  id?: number;
+  template_id: number;
+  version: number;
+  template: string;
+  variables: string[];
+  notes?: string | null;
+  sequence?: SequenceTouchpoint[] | null; // null uses the default sequence
+  created_at?: string;
+}
+
+// A template together with its latest version
+export interface PromptTemplateWithVersion extends PromptTemplateRecord {
+  id: number;
+  current: PromptTemplateVersionRecord;
+}
+
+export interface PromptTemplateInput {
+  name: string;
+  description?: string | null;
+  template: string;
+  variables: string[];
+  notes?: string | null;
+  sequence?: SequenceTouchpoint[] | null;
+}
+
+type VersionRow = Omit<PromptTemplateVersionRecord, 'variables' | 'sequence'> & {
+  variables: string;
+  sequence: string | null;
+};
+
+function toVersion(row: VersionRow): PromptTemplateVersionRecord {
+  return {
+    ...row,
+    variables: JSON.parse(row.variables) as string[],
+    sequence: row.sequence ? JSON.parse(row.sequence) as SequenceTouchpoint[] : null
+  };
+}
+
+function serializeSequence(sequence?: SequenceTouchpoint[] | null): string | null {
+  return sequence && sequence.length > 0 ? JSON.stringify(sequence) : null;
+}
+
+export class PromptTemplatesDAL {
+  /**
+   * Create a template with its first version.
+   */
+  static create(input: PromptTemplateInput): PromptTemplateWithVersion {
+    const templateId = withTransaction(db => {
+      const result = db.prepare(`
+        INSERT INTO prompt_templates (name, description)
+        VALUES (?, ?)
+      `).run(input.name, input.description || null);
+
+      const id = result.lastInsertRowid as number;
+      db.prepare(`
+        INSERT INTO prompt_template_versions (template_id, version, template, variables, notes, sequence)
+        VALUES (?, 1, ?, ?, ?, ?)
+      `).run(id, input.template, JSON.stringify(input.variables), input.notes || null, serializeSequence(input.sequence));
+
+      return id;
+    });
+
+    return this.getById(templateId)!;
+  }
+
+  /**
+   * Create the template only if no template has this name yet, e.g. to seed
+   * a bundled prompt without overwriting edits made since.
+   */
+  static ensure(input: PromptTemplateInput): PromptTemplateWithVersion {
+    return this.getByName(input.name) || this.create(input);
+  }
+
+  /**
+   * Save a new version of a template. Nothing is written when the prompt,
+   * variables and sequence match the current version; the description is
+   * updated either way. Leaving sequence undefined keeps the current one.
+   */
+  static createVersion(
+    templateId: number,
+    input: Omit<PromptTemplateInput, 'name'>
+  ): PromptTemplateVersionRecord | null {
+    return withTransaction(db => {
+      const current = db.prepare(`
+        SELECT * FROM prompt_template_versions
+        WHERE template_id = ? ORDER BY version DESC LIMIT 1
+      `).get(templateId) as VersionRow | undefined;
+      if (!current) return null;
+
+      if (input.description !== undefined) {
+        db.prepare('UPDATE prompt_templates SET description = ?, updated_at = CURRENT_TIMESTAMP WHERE id = ?')
+          .run(input.description || null, templateId);
+      }
+
+      const variables = JSON.stringify(input.variables);
+      const sequence = input.sequence === undefined ? current.sequence : serializeSequence(input.sequence);
+      if (current.template === input.template && current.variables === variables && current.sequence === sequence) {
+        return toVersion(current);
+      }
+
+      const result = db.prepare(`
+        INSERT INTO prompt_template_versions (template_id, version, template, variables, notes, sequence)
+        VALUES (?, ?, ?, ?, ?, ?)
+      `).run(templateId, current.version + 1, input.template, variables, input.notes || null, sequence);
+      db.prepare('UPDATE prompt_templates SET updated_at = CURRENT_TIMESTAMP WHERE id = ?').run(templateId);
+
+      return toVersion(
+        db.prepare('SELECT * FROM prompt_template_versions WHERE id = ?').get(result.lastInsertRowid) as VersionRow
+      );
+    });
+  }
+
+  /**
+   * Roll a template back by saving an earlier version again as the latest
+   * one, so the history of what was used stays intact.
+   */
+  static rollback(templateId: number, version: number): PromptTemplateVersionRecord | null {
+    const previous = withDatabase(db => {
+      return db.prepare('SELECT * FROM prompt_template_versions WHERE template_id = ? AND version = ?')
+        .get(templateId, version) as VersionRow | undefined;
+    });
+    if (!previous) return null;
+
+    const { template, variables, sequence } = toVersion(previous);
+    return this.createVersion(templateId, { template, variables, sequence, notes: `Rolled back to version ${version}` });
+  }
+
+  static getById(id: number): PromptTemplateWithVersion | null {
+    return this.getAll().find(template => template.id === id) || null;
+  }
+
+  static getByName(name: string): PromptTemplateWithVersion | null {
+    return this.getAll().find(template => template.name === name) || null;
+  }
+
+  static getAll(): PromptTemplateWithVersion[] {
+    return withDatabase(db => {
+      const templates = db.prepare('SELECT * FROM prompt_templates ORDER BY name').all() as Array<PromptTemplateRecord & { id: number }>;
+      const latest = db.prepare(`
+        SELECT v.* FROM prompt_template_versions v
+        WHERE v.version = (SELECT MAX(version) FROM prompt_template_versions WHERE template_id = v.template_id)
+      `).all() as VersionRow[];
+      const latestByTemplate = new Map(latest.map(row => [row.template_id, toVersion(row)]));
+
+      return templates
+        .filter(template => latestByTemplate.has(template.id))
+        .map(template => ({ ...template, current: latestByTemplate.get(template.id)! }));
+    });
+  }
+
+  static getVersions(templateId: number): PromptTemplateVersionRecord[] {
+    return withDatabase(db => {
+      const rows = db.prepare('SELECT * FROM prompt_template_versions WHERE template_id = ? ORDER BY version DESC')
+        .all(templateId) as VersionRow[];
+      return rows.map(toVersion);
+    });
+  }
+
+  static getVersion(versionId: number): PromptTemplateVersionRecord | null {
+    return withDatabase(db => {
+      const row = db.prepare('SELECT * FROM prompt_template_versions WHERE id = ?').get(versionId) as VersionRow | undefined;
+      return row ? toVersion(row) : null;
+    });
+  }
+
+  /**
+   * Delete a template and all its versions. Content generated from it keeps
+   * its text but loses the template reference.
+   */
+  static delete(id: number): boolean {
+    return withTransaction(db => {
+      const result = db.prepare('DELETE FROM prompt_templates WHERE id = ?').run(id);
+      return result.changes > 0;
+    });
+  }
+}
@@ -0,0 +1,146 @@
+import { withDatabase, withTransaction } from '../utils';
+
+// Who a sequence is sent from: fills the sender prompt variables and the
+// signature added to each email
+export interface SenderProfileRecord {
+  id?: number;
+  name: string;
+  title?: string | null;
+  signature?: string | null; // plain text; null signs off with the name and title
+  calendar_link?: string | null;
+  tone_notes?: string | null;
+  woodpecker_email_account_id?: number | null; // default mailbox for new campaigns
+  is_default: boolean;
+  created_at?: string;
+  updated_at?: string;
+}
+
+export type SenderProfileInput = Omit<SenderProfileRecord, 'id' | 'is_default' | 'created_at' | 'updated_at'> & {
+  is_default?: boolean;
+};
+
+type SenderProfileRow = Omit<SenderProfileRecord, 'is_default'> & { is_default: number };
+
+const TEXT_FIELDS = ['title', 'signature', 'calendar_link', 'tone_notes'] as const;
+
+function toRecord(row: SenderProfileRow): SenderProfileRecord {
+  return { ...row, is_default: row.is_default === 1 };
+}
+
+function clean(value?: string | null): string | null {
+  return value?.trim() || null;
+}
+
+export class SenderProfilesDAL {
+  /**
+   * Create a profile. The first profile, or one created as the default,
+   * becomes the default for leads with no sender assigned.
+   */
+  static create(input: SenderProfileInput): SenderProfileRecord {
+    const id = withTransaction(db => {
+      const hasDefault = db.prepare('SELECT 1 FROM sender_profiles WHERE is_default = 1').get();
+      const isDefault = input.is_default === true || !hasDefault;
+      if (isDefault) {
+        db.prepare('UPDATE sender_profiles SET is_default = 0').run();
+      }
+
+      const result = db.prepare(`
+        INSERT INTO sender_profiles (
+          name, title, signature, calendar_link, tone_notes, woodpecker_email_account_id, is_default
+        )
+        VALUES (?, ?, ?, ?, ?, ?, ?)
+      `).run(
+        input.name.trim(),
+        clean(input.title),
+        clean(input.signature),
+        clean(input.calendar_link),
+        clean(input.tone_notes),
+        input.woodpecker_email_account_id || null,
+        isDefault ? 1 : 0
+      );
+      return result.lastInsertRowid as number;
+    });
+
+    return this.getById(id)!;
+  }
+
+  static getById(id: number): SenderProfileRecord | null {
+    return withDatabase(db => {
+      const row = db.prepare('SELECT * FROM sender_profiles WHERE id = ?').get(id) as SenderProfileRow | undefined;
+      return row ? toRecord(row) : null;
+    });
+  }
+
+  static getAll(): SenderProfileRecord[] {
+    return withDatabase(db => {
+      const rows = db.prepare('SELECT * FROM sender_profiles ORDER BY name COLLATE NOCASE, id').all() as SenderProfileRow[];
+      return rows.map(toRecord);
+    });
+  }
+
+  static getDefault(): SenderProfileRecord | null {
+    return withDatabase(db => {
+      const row = db.prepare('SELECT * FROM sender_profiles WHERE is_default = 1 LIMIT 1').get() as SenderProfileRow | undefined;
+      return row ? toRecord(row) : null;
+    });
+  }
+
+  /**
+   * The profile a lead is sent from: its own sender, else its import's,
+   * else the default profile. Null when no profiles exist.
+   */
+  static getForLead(leadId: number): SenderProfileRecord | null {
+    return withDatabase(db => {
+      const row = db.prepare(`
+        SELECT s.* FROM leads l
+        LEFT JOIN imports i ON i.id = l.import_id
+        JOIN sender_profiles s ON s.id = COALESCE(l.sender_id, i.sender_id)
+        WHERE l.id = ?
+      `).get(leadId) as SenderProfileRow | undefined;
+      return row ? toRecord(row) : this.getDefault();
+    });
+  }
+
+  static update(id: number, updates: Partial<SenderProfileInput>): SenderProfileRecord | null {
+    return withTransaction(db => {
+      const values: Record<string, string | number | null> = {};
+      if (updates.name !== undefined) values.name = updates.name.trim();
+      for (const field of TEXT_FIELDS) {
+        if (updates[field] !== undefined) values[field] = clean(updates[field]);
+      }
+      if (updates.woodpecker_email_account_id !== undefined) {
+        values.woodpecker_email_account_id = updates.woodpecker_email_account_id || null;
+      }
+      if (updates.is_default) values.is_default = 1;
+
+      const fields = Object.keys(values);
+      if (fields.length === 0) return this.getById(id);
+
+      const setClause = fields.map(field => `${field} = ?`).join(', ');
+      const result = db.prepare(`UPDATE sender_profiles SET ${setClause}, updated_at = CURRENT_TIMESTAMP WHERE id = ?`)
+        .run(...fields.map(field => values[field]), id);
+      if (result.changes === 0) return null;
+
+      if (updates.is_default) {
+        db.prepare('UPDATE sender_profiles SET is_default = 0 WHERE id != ?').run(id);
+      }
+      return this.getById(id);
+    });
+  }
+
+  /**
+   * Delete a profile; its imports and leads fall back to the default. When
+   * the default itself is deleted, the oldest remaining profile takes over.
+   */
+  static delete(id: number): boolean {
+    return withTransaction(db => {
+      const result = db.prepare('DELETE FROM sender_profiles WHERE id = ?').run(id);
+      db.prepare(`
+        UPDATE sender_profiles SET is_default = 1
+        WHERE id = (SELECT MIN(id) FROM sender_profiles)
+          AND NOT EXISTS (SELECT 1 FROM sender_profiles WHERE is_default = 1)
+      `).run();
+      return result.changes > 0;
+    });
+  }
+}
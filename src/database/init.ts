@@ -3,6 +3,7 @@ import { CREATE_TABLES_SQL, CREATE_INDEXES_SQL, INITIAL_METADATA } from './schem
 import path from 'path';
 import fs from 'fs';
 import { getAppDataPath } from './config';
+import { applySchemaUpgrades } from './upgrades';
 
 /**
  * Get the database file path in the user's application data directory
@@ -46,11 +47,6 @@ export function initializeDatabase(): Database.Database {
         db.exec(sql);
       });
       
-      // Create indexes
-      CREATE_INDEXES_SQL.forEach(sql => {
-        db.exec(sql);
-      });
-      
       // Insert initial metadata if not exists
       const checkMetadata = db.prepare('SELECT COUNT(*) as count FROM app_metadata');
       const metadataCount = checkMetadata.get() as { count: number };
@@ -65,6 +61,16 @@ export function initializeDatabase(): Database.Database {
     
     createTables();
     
+    // Bring databases created by older app versions up to date
+    applySchemaUpgrades(db);
+    
+    // Create indexes (after upgrades, as they may reference new columns)
+    db.transaction(() => {
+      CREATE_INDEXES_SQL.forEach(sql => {
+        db.exec(sql);
+      });
+    })();
+    
     return db;
   } catch (error) {
     throw new Error(`Failed to initialize database: ${error instanceof Error ? error.message : 'Unknown error'}`);
@@ -85,14 +91,15 @@ export function isDatabaseInitialized(): boolean {
     const db = new Database(dbPath, { readonly: true });
     
     // Check if all required tables exist
+    const requiredTables = Object.keys(CREATE_TABLES_SQL);
     const tables = db.prepare(`
       SELECT name FROM sqlite_master 
-      WHERE type='table' AND name IN ('imports', 'leads', 'generated_content', 'mappings', 'app_metadata')
-    `).all();
+      WHERE type='table' AND name IN (${requiredTables.map(() => '?').join(', ')})
+    `).all(...requiredTables);
     
     db.close();
     
-    return tables.length === 5;
+    return tables.length === requiredTables.length;
   } catch {
     return false;
   }
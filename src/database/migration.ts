@@ -1,5 +1,6 @@
 import Database from 'better-sqlite3';
 import { getDatabase, getDatabasePath } from './init';
+import { CURRENT_SCHEMA_VERSION } from './schema';
 import { logger } from '../main/utils/logger';
 import fs from 'fs';
 
@@ -21,8 +22,8 @@ export function migrateToV2Schema(): void {
     // Check current schema version
     const currentVersion = db.prepare('SELECT value FROM app_metadata WHERE key = ?').get('schema_version') as { value: string } | undefined;
 
-    if (currentVersion?.value === '2.0.0') {
-      console.log('Database already on version 2.0.0');
+    if (currentVersion?.value && currentVersion.value !== '1.0.0') {
+      console.log(`Database already on version ${currentVersion.value}`);
       db.close();
       return;
     }
@@ -249,8 +250,9 @@ export function isMigrationNeeded(): boolean {
     const currentVersion = db.prepare('SELECT value FROM app_metadata WHERE key = ?').get('schema_version') as { value: string } | undefined;
     db.close();
 
-    return currentVersion?.value !== '2.0.0';
+    return currentVersion?.value !== CURRENT_SCHEMA_VERSION;
   } catch {
     return false;
   }
-}
\ No newline at end of file
+}
+
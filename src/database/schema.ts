@@ -11,7 +11,9 @@ export const CREATE_TABLES_SQL = {
       status TEXT NOT NULL CHECK (status IN ('pending', 'processing', 'completed', 'failed')),
       lead_count INTEGER DEFAULT 0,
       error_messages TEXT,
-      created_at DATETIME DEFAULT CURRENT_TIMESTAMP
+      sender_id INTEGER, -- sender profile for the import's leads
+      created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+      FOREIGN KEY (sender_id) REFERENCES sender_profiles(id) ON DELETE SET NULL
     )
   `,
   
@@ -55,11 +57,16 @@ export const CREATE_TABLES_SQL = {
       -- Legacy field for truly custom data
       additional_fields TEXT, -- JSON string for any non-standard fields
       -- Status and tracking
-      status TEXT DEFAULT 'imported' CHECK (status IN ('imported', 'generating', 'drafted', 'approved', 'exported', 'failed', 'deleted')),
+      status TEXT DEFAULT 'imported' CHECK (status IN ('imported', 'generating', 'drafted', 'approved', 'exported', 'failed', 'deleted', 'opened', 'replied', 'bounced', 'interested', 'autoreplied', 'blacklisted')),
       woodpecker_campaign_id TEXT,
       export_date DATETIME,
+      -- Engagement synced back from Woodpecker after export
+      woodpecker_prospect_id INTEGER,
+      engagement_synced_at DATETIME,
+      sender_id INTEGER, -- overrides the import's sender profile
       created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
-      FOREIGN KEY (import_id) REFERENCES imports(id) ON DELETE CASCADE
+      FOREIGN KEY (import_id) REFERENCES imports(id) ON DELETE CASCADE,
+      FOREIGN KEY (sender_id) REFERENCES sender_profiles(id) ON DELETE SET NULL
     )
   `,
   
@@ -69,12 +76,19 @@ export const CREATE_TABLES_SQL = {
       lead_id INTEGER NOT NULL,
       touchpoint_number INTEGER NOT NULL,
       content TEXT NOT NULL,
-      content_type TEXT NOT NULL CHECK (content_type IN ('email', 'subject', 'template')),
-      template_id TEXT,
+      content_type TEXT NOT NULL CHECK (content_type IN ('email', 'subject', 'linkedin', 'template')),
+      template_id INTEGER, -- prompt template version the content was generated from
       status TEXT DEFAULT 'draft' CHECK (status IN ('draft', 'approved', 'rejected')),
       generated_at DATETIME DEFAULT CURRENT_TIMESTAMP,
       approved_at DATETIME,
-      FOREIGN KEY (lead_id) REFERENCES leads(id) ON DELETE CASCADE
+      -- Snippet a touchpoint row holds; A/B variant rows of that snippet also carry a label
+      snippet_field TEXT,
+      variant_label TEXT,
+      exported_field TEXT, -- snippet slot a kept variant is exported in
+      generation_run_id INTEGER, -- Claude call the content was last generated by
+      FOREIGN KEY (lead_id) REFERENCES leads(id) ON DELETE CASCADE,
+      FOREIGN KEY (template_id) REFERENCES prompt_template_versions(id) ON DELETE SET NULL,
+      FOREIGN KEY (generation_run_id) REFERENCES generation_runs(id) ON DELETE SET NULL
     )
   `,
   
@@ -91,6 +105,201 @@ export const CREATE_TABLES_SQL = {
     )
   `,
   
+  woodpecker_campaign_sync: `
+    CREATE TABLE IF NOT EXISTS woodpecker_campaign_sync (
+      campaign_id TEXT PRIMARY KEY,
+      last_synced_at DATETIME,
+      prospects_seen INTEGER DEFAULT 0,
+      leads_updated INTEGER DEFAULT 0,
+      last_error TEXT
+    )
+  `,
+  
+  export_jobs: `
+    CREATE TABLE IF NOT EXISTS export_jobs (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      campaign_id INTEGER NOT NULL,
+      campaign_name TEXT,
+      status TEXT DEFAULT 'pending' CHECK (status IN ('pending', 'running', 'completed', 'failed', 'cancelled')),
+      total_items INTEGER DEFAULT 0,
+      batch_size INTEGER DEFAULT 50,
+      last_error TEXT,
+      created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+      started_at DATETIME,
+      completed_at DATETIME
+    )
+  `,
+  
+  export_job_items: `
+    CREATE TABLE IF NOT EXISTS export_job_items (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      job_id INTEGER NOT NULL,
+      lead_id INTEGER,
+      email TEXT NOT NULL,
+      prospect TEXT NOT NULL, -- JSON prospect payload as sent to Woodpecker
+      status TEXT DEFAULT 'pending' CHECK (status IN ('pending', 'succeeded', 'failed')),
+      api_status TEXT, -- per-prospect status returned by the API (OK, DUPLICATE, ...)
+      woodpecker_prospect_id INTEGER,
+      error TEXT,
+      attempts INTEGER DEFAULT 0,
+      processed_at DATETIME,
+      FOREIGN KEY (job_id) REFERENCES export_jobs(id) ON DELETE CASCADE,
+      FOREIGN KEY (lead_id) REFERENCES leads(id) ON DELETE SET NULL
+    )
+  `,
+  
+  generation_batches: `
+    CREATE TABLE IF NOT EXISTS generation_batches (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      anthropic_batch_id TEXT, -- set once the Message Batch has been submitted
+      model_id TEXT NOT NULL,
+      status TEXT DEFAULT 'pending' CHECK (status IN ('pending', 'running', 'completed', 'failed', 'cancelled')),
+      total_items INTEGER DEFAULT 0,
+      processed_items INTEGER DEFAULT 0, -- requests the API reports as finished so far
+      last_error TEXT,
+      created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+      submitted_at DATETIME,
+      completed_at DATETIME
+    )
+  `,
+  
+  generation_batch_items: `
+    CREATE TABLE IF NOT EXISTS generation_batch_items (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      batch_id INTEGER NOT NULL,
+      lead_id INTEGER,
+      custom_id TEXT NOT NULL, -- request id inside the Message Batch
+      request TEXT NOT NULL, -- JSON prompt, system prompt and lead data
+      status TEXT DEFAULT 'pending' CHECK (status IN ('pending', 'succeeded', 'failed')),
+      content_id INTEGER,
+      error TEXT,
+      processed_at DATETIME,
+      FOREIGN KEY (batch_id) REFERENCES generation_batches(id) ON DELETE CASCADE,
+      FOREIGN KEY (lead_id) REFERENCES leads(id) ON DELETE SET NULL,
+      FOREIGN KEY (content_id) REFERENCES generated_content(id) ON DELETE SET NULL
+    )
+  `,
+  
+  generation_usage: `
+    CREATE TABLE IF NOT EXISTS generation_usage (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      lead_id INTEGER,
+      import_id INTEGER,
+      model_id TEXT NOT NULL,
+      operation TEXT NOT NULL CHECK (operation IN ('generate', 'stream', 'repair', 'batch')),
+      input_tokens INTEGER DEFAULT 0,
+      output_tokens INTEGER DEFAULT 0,
+      cache_creation_input_tokens INTEGER DEFAULT 0,
+      cache_read_input_tokens INTEGER DEFAULT 0,
+      cost_usd REAL DEFAULT 0, -- priced from MODEL_PRICING when the call was made
+      created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+      FOREIGN KEY (lead_id) REFERENCES leads(id) ON DELETE SET NULL,
+      FOREIGN KEY (import_id) REFERENCES imports(id) ON DELETE SET NULL
+    )
+  `,
+  
+  prompt_templates: `
+    CREATE TABLE IF NOT EXISTS prompt_templates (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      name TEXT NOT NULL UNIQUE,
+      description TEXT,
+      created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+      updated_at DATETIME DEFAULT CURRENT_TIMESTAMP
+    )
+  `,
+  
+  prompt_template_versions: `
+    CREATE TABLE IF NOT EXISTS prompt_template_versions (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      template_id INTEGER NOT NULL,
+      version INTEGER NOT NULL,
+      template TEXT NOT NULL,
+      variables TEXT NOT NULL DEFAULT '[]', -- JSON array of lead fields the template requires
+      notes TEXT, -- what changed in this version
+      sequence TEXT, -- JSON touchpoint layout; NULL uses the default sequence
+      created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+      UNIQUE (template_id, version),
+      FOREIGN KEY (template_id) REFERENCES prompt_templates(id) ON DELETE CASCADE
+    )
+  `,
+  
+  content_revisions: `
+    CREATE TABLE IF NOT EXISTS content_revisions (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      lead_id INTEGER NOT NULL,
+      snippet_field TEXT NOT NULL,
+      content TEXT NOT NULL,
+      source TEXT NOT NULL CHECK (source IN ('ai', 'manual', 'rewrite')),
+      author TEXT, -- model id for ai revisions, the rep otherwise
+      reverted_from INTEGER, -- earlier revision this one restored
+      created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+      FOREIGN KEY (lead_id) REFERENCES leads(id) ON DELETE CASCADE,
+      FOREIGN KEY (reverted_from) REFERENCES content_revisions(id) ON DELETE SET NULL
+    )
+  `,
+  
+  case_studies: `
+    CREATE TABLE IF NOT EXISTS case_studies (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      customer TEXT NOT NULL,
+      industry TEXT, -- NULL offers the proof point to every industry
+      metric TEXT, -- the result as it may be quoted, e.g. '40% faster ramp time'
+      wording TEXT NOT NULL, -- approved way to describe the work
+      active INTEGER NOT NULL DEFAULT 1,
+      created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+      updated_at DATETIME DEFAULT CURRENT_TIMESTAMP
+    )
+  `,
+  
+  sender_profiles: `
+    CREATE TABLE IF NOT EXISTS sender_profiles (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      name TEXT NOT NULL,
+      title TEXT,
+      signature TEXT, -- plain text sign-off added to every email at conversion
+      calendar_link TEXT,
+      tone_notes TEXT,
+      woodpecker_email_account_id INTEGER, -- default Woodpecker mailbox for campaigns
+      is_default INTEGER NOT NULL DEFAULT 0, -- used for leads with no sender assigned
+      created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+      updated_at DATETIME DEFAULT CURRENT_TIMESTAMP
+    )
+  `,
+
+  generation_runs: `
+    CREATE TABLE IF NOT EXISTS generation_runs (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      lead_id INTEGER,
+      operation TEXT NOT NULL CHECK (operation IN ('generate', 'stream', 'batch', 'rewrite', 'variants')),
+      model_id TEXT NOT NULL,
+      prompt TEXT NOT NULL, -- lead-specific prompt as interpolated
+      prompt_prefix TEXT, -- instructions shared by every lead
+      system_prompt TEXT,
+      file_ids TEXT, -- JSON array of Files API ids
+      request TEXT, -- JSON Messages API request body, for reproducing the call
+      raw_response TEXT, -- JSON of every response, including repair turns
+      parsed_output TEXT, -- JSON snippets the response was parsed into
+      status TEXT NOT NULL CHECK (status IN ('succeeded', 'failed', 'partial')),
+      error TEXT,
+      input_tokens INTEGER DEFAULT 0,
+      output_tokens INTEGER DEFAULT 0,
+      cache_creation_input_tokens INTEGER DEFAULT 0,
+      cache_read_input_tokens INTEGER DEFAULT 0,
+      duration_ms INTEGER,
+      created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+      FOREIGN KEY (lead_id) REFERENCES leads(id) ON DELETE CASCADE
+    )
+  `,
+
+  few_shot_examples: `
+    CREATE TABLE IF NOT EXISTS few_shot_examples (
+      lead_id INTEGER PRIMARY KEY, -- lead whose approved sequence is the example
+      status TEXT NOT NULL CHECK (status IN ('pinned', 'excluded', 'retired')),
+      updated_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+      FOREIGN KEY (lead_id) REFERENCES leads(id) ON DELETE CASCADE
+    )
+  `,
+  
   app_metadata: `
     CREATE TABLE IF NOT EXISTS app_metadata (
       key TEXT PRIMARY KEY,
@@ -107,15 +316,31 @@ export const CREATE_INDEXES_SQL = [
   'CREATE INDEX IF NOT EXISTS idx_leads_company ON leads(company)',
   'CREATE INDEX IF NOT EXISTS idx_leads_first_name ON leads(first_name)',
   'CREATE INDEX IF NOT EXISTS idx_leads_last_name ON leads(last_name)',
+  'CREATE INDEX IF NOT EXISTS idx_leads_woodpecker_campaign_id ON leads(woodpecker_campaign_id)',
   'CREATE INDEX IF NOT EXISTS idx_generated_content_lead_id ON generated_content(lead_id)',
   'CREATE INDEX IF NOT EXISTS idx_generated_content_status ON generated_content(status)',
   'CREATE INDEX IF NOT EXISTS idx_mappings_import_id ON mappings(import_id)',
   'CREATE INDEX IF NOT EXISTS idx_imports_status ON imports(status)',
-  'CREATE INDEX IF NOT EXISTS idx_imports_date ON imports(import_date)'
+  'CREATE INDEX IF NOT EXISTS idx_imports_date ON imports(import_date)',
+  'CREATE INDEX IF NOT EXISTS idx_export_jobs_status ON export_jobs(status)',
+  'CREATE INDEX IF NOT EXISTS idx_export_job_items_job_id ON export_job_items(job_id, status)',
+  'CREATE INDEX IF NOT EXISTS idx_generation_batches_status ON generation_batches(status)',
+  'CREATE INDEX IF NOT EXISTS idx_generation_batch_items_batch_id ON generation_batch_items(batch_id, status)',
+  'CREATE INDEX IF NOT EXISTS idx_generation_usage_created_at ON generation_usage(created_at)',
+  'CREATE INDEX IF NOT EXISTS idx_generation_usage_import_id ON generation_usage(import_id)',
+  'CREATE INDEX IF NOT EXISTS idx_generated_content_template_id ON generated_content(template_id)',
+  'CREATE INDEX IF NOT EXISTS idx_generated_content_variants ON generated_content(lead_id, snippet_field)',
+  'CREATE INDEX IF NOT EXISTS idx_content_revisions_lead_id ON content_revisions(lead_id, snippet_field)',
+  'CREATE INDEX IF NOT EXISTS idx_case_studies_industry ON case_studies(industry)',
+  'CREATE INDEX IF NOT EXISTS idx_leads_sender_id ON leads(sender_id)',
+  'CREATE INDEX IF NOT EXISTS idx_generation_runs_lead_id ON generation_runs(lead_id, created_at)',
+  'CREATE INDEX IF NOT EXISTS idx_generated_content_generation_run_id ON generated_content(generation_run_id)'
 ];
 
+export const CURRENT_SCHEMA_VERSION = '16.0.0';
+
 export const INITIAL_METADATA = [
-  { key: 'schema_version', value: '2.0.0' },
+  { key: 'schema_version', value: CURRENT_SCHEMA_VERSION },
   { key: 'created_at', value: new Date().toISOString() },
-  { key: 'last_migration', value: '2.0.0' }
+  { key: 'last_migration', value: CURRENT_SCHEMA_VERSION }
 ];
@@ -0,0 +1,284 @@
+import Database from 'better-sqlite3';
+import { CREATE_TABLES_SQL } from './schema';
+import { toTouchpointContent } from '../utils/sequenceDefinition';
+import type { SequenceSnippets } from '../utils/sequenceDefinition';
+
+/**
+ * Rebuild a table from the current schema definition, copying across every
+ * column the old and new tables have in common. SQLite cannot alter a CHECK
+ * or foreign key constraint in place, so this is how those get changed.
+ */
+function rebuildTable(db: Database.Database, table: keyof typeof CREATE_TABLES_SQL): void {
+  const oldColumns = (db.prepare(`PRAGMA table_info(${table})`).all() as { name: string }[]).map(c => c.name);
+
+  db.exec(CREATE_TABLES_SQL[table].replace(`CREATE TABLE IF NOT EXISTS ${table}`, `CREATE TABLE ${table}_new`));
+
+  const newColumns = new Set(
+    (db.prepare(`PRAGMA table_info(${table}_new)`).all() as { name: string }[]).map(c => c.name)
+  );
+  const shared = oldColumns.filter(column => newColumns.has(column)).join(', ');
+
+  db.exec(`INSERT INTO ${table}_new (${shared}) SELECT ${shared} FROM ${table}`);
+  db.exec(`DROP TABLE ${table}`);
+  db.exec(`ALTER TABLE ${table}_new RENAME TO ${table}`);
+}
+
+/**
+ * Upgrade a v2 database to v3: post-export engagement statuses on leads,
+ * prospect id / sync timestamp columns, and per-campaign sync state.
+ */
+function upgradeToV3(db: Database.Database): void {
+  rebuildTable(db, 'leads');
+  db.exec(CREATE_TABLES_SQL.woodpecker_campaign_sync);
+}
+
+/**
+ * Upgrade a v3 database to v4: persistent export job queue.
+ */
+function upgradeToV4(db: Database.Database): void {
+  db.exec(CREATE_TABLES_SQL.export_jobs);
+  db.exec(CREATE_TABLES_SQL.export_job_items);
+}
+
+/**
+ * Upgrade a v4 database to v5: Message Batch generation tracking.
+ */
+function upgradeToV5(db: Database.Database): void {
+  db.exec(CREATE_TABLES_SQL.generation_batches);
+  db.exec(CREATE_TABLES_SQL.generation_batch_items);
+}
+
+/**
+ * Upgrade a v5 database to v6: per-call token usage and cost ledger.
+ */
+function upgradeToV6(db: Database.Database): void {
+  db.exec(CREATE_TABLES_SQL.generation_usage);
+}
+
+/**
+ * Upgrade a v6 database to v7: versioned prompt templates, with
+ * generated_content.template_id now referencing a template version. Earlier
+ * free-text template ids referenced nothing, so they are cleared.
+ */
+function upgradeToV7(db: Database.Database): void {
+  db.exec(CREATE_TABLES_SQL.prompt_templates);
+  db.exec(CREATE_TABLES_SQL.prompt_template_versions);
+  rebuildTable(db, 'generated_content');
+  db.exec('UPDATE generated_content SET template_id = NULL');
+}
+
+/**
+ * Upgrade a v7 database to v8: a touchpoint layout per prompt template
+ * version. Databases that went through upgradeToV7 after this release
+ * already created the column from the current schema.
+ */
+function upgradeToV8(db: Database.Database): void {
+  const columns = (db.prepare('PRAGMA table_info(prompt_template_versions)').all() as { name: string }[]).map(c => c.name);
+  if (!columns.includes('sequence')) {
+    db.exec('ALTER TABLE prompt_template_versions ADD COLUMN sequence TEXT');
+  }
+}
+
+/**
+ * Upgrade a v8 database to v9: A/B variants of a snippet stored as sibling
+ * generated_content rows.
+ */
+function upgradeToV9(db: Database.Database): void {
+  const columns = (db.prepare('PRAGMA table_info(generated_content)').all() as { name: string }[]).map(c => c.name);
+  for (const column of ['snippet_field', 'variant_label', 'exported_field']) {
+    if (!columns.includes(column)) {
+      db.exec(`ALTER TABLE generated_content ADD COLUMN ${column} TEXT`);
+    }
+  }
+}
+
+function parseJson(text: string | null): unknown {
+  if (!text) return null;
+  try {
+    return JSON.parse(text);
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Upgrade a v9 database to v10: one generated_content row per touchpoint, so
+ * each snippet is approved on its own. A lead's latest sequence blob is split
+ * using the layout of the template version it came from and keeps its status;
+ * older blobs are dropped. Blobs that hold no snippets are left as they are.
+ */
+function upgradeToV10(db: Database.Database): void {
+  rebuildTable(db, 'generated_content');
+
+  const blobs = db.prepare(`
+    SELECT c.id, c.lead_id, c.content, c.template_id, c.status, c.generated_at, c.approved_at, v.sequence
+    FROM generated_content c
+    LEFT JOIN prompt_template_versions v ON v.id = c.template_id
+    WHERE c.snippet_field IS NULL
+    ORDER BY c.lead_id ASC, c.id DESC
+  `).all() as Array<{
+    id: number;
+    lead_id: number;
+    content: string;
+    template_id: number | null;
+    status: string;
+    generated_at: string;
+    approved_at: string | null;
+    sequence: string | null;
+  }>;
+
+  const insertTouchpoint = db.prepare(`
+    INSERT INTO generated_content (
+      lead_id, touchpoint_number, content, content_type, template_id, status, generated_at, approved_at, snippet_field
+    )
+    VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)
+  `);
+  const repointBatchItems = db.prepare(`
+    UPDATE generation_batch_items SET content_id = ?
+    WHERE content_id IN (SELECT id FROM generated_content WHERE lead_id = ? AND snippet_field IS NULL)
+  `);
+  const deleteBlobs = db.prepare('DELETE FROM generated_content WHERE lead_id = ? AND snippet_field IS NULL');
+
+  const seen = new Set<number>();
+  for (const blob of blobs) {
+    if (seen.has(blob.lead_id)) continue;
+    seen.add(blob.lead_id);
+
+    const snippets = parseJson(blob.content);
+    const sequence = parseJson(blob.sequence);
+    if (!snippets || typeof snippets !== 'object') continue;
+
+    const touchpoints = toTouchpointContent(
+      snippets as Partial<SequenceSnippets>,
+      Array.isArray(sequence) ? sequence : null
+    );
+    if (touchpoints.length === 0) continue;
+
+    const ids = touchpoints.map(touchpoint => insertTouchpoint.run(
+      blob.lead_id,
+      touchpoint.touchpoint_number,
+      touchpoint.content,
+      touchpoint.content_type,
+      blob.template_id,
+      blob.status,
+      blob.generated_at,
+      blob.approved_at,
+      touchpoint.snippet_field
+    ).lastInsertRowid as number);
+
+    repointBatchItems.run(ids[0], blob.lead_id);
+    deleteBlobs.run(blob.lead_id);
+  }
+}
+
+/**
+ * Upgrade a v10 database to v11: a revision per saved touchpoint. History
+ * starts with the first save after the upgrade.
+ */
+function upgradeToV11(db: Database.Database): void {
+  db.exec(CREATE_TABLES_SQL.content_revisions);
+}
+
+/**
+ * Upgrade a v11 database to v12: the case-study library that peer proof in
+ * generated content is drawn from. It starts out empty.
+ */
+function upgradeToV12(db: Database.Database): void {
+  db.exec(CREATE_TABLES_SQL.case_studies);
+}
+
+/**
+ * Upgrade a v12 database to v13: sender profiles, assigned per import and
+ * optionally per lead. Existing imports and leads start without a sender.
+ */
+function upgradeToV13(db: Database.Database): void {
+  db.exec(CREATE_TABLES_SQL.sender_profiles);
+  for (const table of ['imports', 'leads']) {
+    const columns = (db.prepare(`PRAGMA table_info(${table})`).all() as { name: string }[]).map(c => c.name);
+    if (!columns.includes('sender_id')) {
+      db.exec(`ALTER TABLE ${table} ADD COLUMN sender_id INTEGER REFERENCES sender_profiles(id) ON DELETE SET NULL`);
+    }
+  }
+}
+
+/**
+ * Upgrade a v13 database to v14: an audit row per Claude generation call,
+ * linked from the content it produced. Earlier content has no run.
+ */
+function upgradeToV14(db: Database.Database): void {
+  db.exec(CREATE_TABLES_SQL.generation_runs);
+  const columns = (db.prepare('PRAGMA table_info(generated_content)').all() as { name: string }[]).map(c => c.name);
+  if (!columns.includes('generation_run_id')) {
+    db.exec('ALTER TABLE generated_content ADD COLUMN generation_run_id INTEGER REFERENCES generation_runs(id) ON DELETE SET NULL');
+  }
+}
+
+/**
+ * Upgrade a v14 database to v15: pinned, excluded and retired few-shot
+ * examples. Every approved sequence starts out chosen automatically.
+ */
+function upgradeToV15(db: Database.Database): void {
+  db.exec(CREATE_TABLES_SQL.few_shot_examples);
+}
+
+/**
+ * Upgrade a v15 database to v16: snippet rewrites and A/B variants are
+ * recorded as generation runs too.
+ */
+function upgradeToV16(db: Database.Database): void {
+  rebuildTable(db, 'generation_runs');
+}
+
+const SCHEMA_UPGRADES: Array<{ from: string; to: string; apply: (db: Database.Database) => void }> = [
+  { from: '2.0.0', to: '3.0.0', apply: upgradeToV3 },
+  { from: '3.0.0', to: '4.0.0', apply: upgradeToV4 },
+  { from: '4.0.0', to: '5.0.0', apply: upgradeToV5 },
+  { from: '5.0.0', to: '6.0.0', apply: upgradeToV6 },
+  { from: '6.0.0', to: '7.0.0', apply: upgradeToV7 },
+  { from: '7.0.0', to: '8.0.0', apply: upgradeToV8 },
+  { from: '8.0.0', to: '9.0.0', apply: upgradeToV9 },
+  { from: '9.0.0', to: '10.0.0', apply: upgradeToV10 },
+  { from: '10.0.0', to: '11.0.0', apply: upgradeToV11 },
+  { from: '11.0.0', to: '12.0.0', apply: upgradeToV12 },
+  { from: '12.0.0', to: '13.0.0', apply: upgradeToV13 },
+  { from: '13.0.0', to: '14.0.0', apply: upgradeToV14 },
+  { from: '14.0.0', to: '15.0.0', apply: upgradeToV15 },
+  { from: '15.0.0', to: '16.0.0', apply: upgradeToV16 }
+];
+
+/**
+ * Apply any pending in-place schema upgrades to an open database.
+ * Called on startup after the base tables have been created.
+ */
+export function applySchemaUpgrades(db: Database.Database): void {
+  const getVersion = () =>
+    (db.prepare('SELECT value FROM app_metadata WHERE key = ?').get('schema_version') as { value: string } | undefined)?.value;
+
+  let version = getVersion();
+  if (!SCHEMA_UPGRADES.some(upgrade => upgrade.from === version)) {
+    return;
+  }
+
+  // Table rebuilds must not cascade deletes into child tables
+  db.pragma('foreign_keys = OFF');
+
+  try {
+    for (const upgrade of SCHEMA_UPGRADES) {
+      if (upgrade.from !== version) continue;
+
+      db.transaction(() => {
+        upgrade.apply(db);
+
+        db.prepare('UPDATE app_metadata SET value = ?, updated_at = CURRENT_TIMESTAMP WHERE key = ?')
+          .run(upgrade.to, 'schema_version');
+        db.prepare('UPDATE app_metadata SET value = ?, updated_at = CURRENT_TIMESTAMP WHERE key = ?')
+          .run(upgrade.to, 'last_migration');
+      })();
+
+      console.log(`Upgraded database schema from ${upgrade.from} to ${upgrade.to}`);
+      version = getVersion();
+    }
+  } finally {
+    db.pragma('foreign_keys = ON');
+  }
+}
\ No newline at end of file
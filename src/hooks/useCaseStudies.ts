@@ -0,0 +1,34 @@
+import { useEffect, useState } from 'react'
+import type { CaseStudyRecord } from '@/types/api'
+
+// Active case studies for checking peer proof; undefined until they load,
+// or outside Electron, so callers can skip the check rather than flag
+// every claim
+export function useCaseStudies(): CaseStudyRecord[] | undefined {
+  const [caseStudies, setCaseStudies] = useState<CaseStudyRecord[]>()
+
+  useEffect(() => {
+    if (!window.api?.caseStudies?.getAll) return
+
+    let active = true
+    window.api.caseStudies
+      .getAll()
+      .then((response) => {
+        if (!active) return
+        if (response.success) {
+          setCaseStudies(response.data)
+        } else {
+          console.error('Failed to load case studies:', response.error)
+        }
+      })
+      .catch((error) => {
+        console.error('Failed to load case studies:', error)
+      })
+
+    return () => {
+      active = false
+    }
+  }, [])
+
+  return caseStudies
+}
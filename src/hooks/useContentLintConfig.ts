@@ -0,0 +1,28 @@
+import { useEffect, useState } from 'react'
+import { DEFAULT_LINT_CONFIG, resolveLintConfig } from '@/utils/contentLinter'
+import type { ContentLintConfig } from '@/utils/contentLinter'
+
+// Linter rules from Settings; the defaults until they load, or outside Electron
+export function useContentLintConfig(): ContentLintConfig {
+  const [config, setConfig] = useState<ContentLintConfig>(DEFAULT_LINT_CONFIG)
+
+  useEffect(() => {
+    if (!window.api?.settings?.getContentLint) return
+
+    let active = true
+    window.api.settings
+      .getContentLint()
+      .then((saved) => {
+        if (active) setConfig(resolveLintConfig(saved))
+      })
+      .catch((error) => {
+        console.error('Failed to load lint settings:', error)
+      })
+
+    return () => {
+      active = false
+    }
+  }, [])
+
+  return config
+}
@@ -0,0 +1,32 @@
+import { useEffect, useState } from 'react'
+import type { SenderProfileRecord } from '@/types/api'
+
+// Sender profiles from Settings; empty until they load, or outside Electron
+export function useSenderProfiles(): SenderProfileRecord[] {
+  const [profiles, setProfiles] = useState<SenderProfileRecord[]>([])
+
+  useEffect(() => {
+    if (!window.api?.senderProfiles?.getAll) return
+
+    let active = true
+    window.api.senderProfiles
+      .getAll()
+      .then((response) => {
+        if (!active) return
+        if (response.success) {
+          setProfiles(response.data)
+        } else {
+          console.error('Failed to load sender profiles:', response.error)
+        }
+      })
+      .catch((error) => {
+        console.error('Failed to load sender profiles:', error)
+      })
+
+    return () => {
+      active = false
+    }
+  }, [])
+
+  return profiles
+}
@@ -1,7 +1,8 @@
 import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest'
 import { ipcMain } from 'electron'
 import { setupClaudeHandlers, removeClaudeHandlers } from '../../ipc/claudeHandlers'
-import type { ClaudeGenerateContentRequest, ClaudeFileUploadRequest } from '../../ipc/claudeHandlers'
+import type { ClaudeGenerateContentRequest, ClaudeFileUploadRequest, ClaudeRewriteSnippetRequest } from '../../ipc/claudeHandlers'
+import { cancelOperation } from '../../ipc/operations'
 
 // Mock electron
 vi.mock('electron', () => ({
@@ -13,25 +14,36 @@ vi.mock('electron', () => ({
 
 // Mock Claude service
 const mockGenerateContentWithRetry = vi.fn()
+const mockGenerateContentStream = vi.fn()
+const mockRewriteSnippet = vi.fn()
 const mockUploadFile = vi.fn()
 const mockDeleteFile = vi.fn()
 const mockGetRequestCount = vi.fn()
 const mockGetRemainingRequests = vi.fn()
+const mockGetQuotaInfo = vi.fn()
 
 vi.mock('../../services/claudeService', () => ({
   ClaudeService: vi.fn().mockImplementation(() => ({
     generateContentWithRetry: mockGenerateContentWithRetry,
+    generateContentStream: mockGenerateContentStream,
+    rewriteSnippet: mockRewriteSnippet,
     uploadFile: mockUploadFile,
     deleteFile: mockDeleteFile,
     getRequestCount: mockGetRequestCount,
-    getRemainingRequests: mockGetRemainingRequests
+    getRemainingRequests: mockGetRemainingRequests,
+    getQuotaInfo: mockGetQuotaInfo,
+    onUsage: vi.fn()
   })),
   createClaudeService: vi.fn().mockImplementation(() => ({
     generateContentWithRetry: mockGenerateContentWithRetry,
+    generateContentStream: mockGenerateContentStream,
+    rewriteSnippet: mockRewriteSnippet,
     uploadFile: mockUploadFile,
     deleteFile: mockDeleteFile,
     getRequestCount: mockGetRequestCount,
-    getRemainingRequests: mockGetRemainingRequests
+    getRemainingRequests: mockGetRemainingRequests,
+    getQuotaInfo: mockGetQuotaInfo,
+    onUsage: vi.fn()
   })),
   ClaudeApiError: class ClaudeApiError extends Error {
     constructor(message: string, public category: string, public retryable: boolean) {
@@ -40,6 +52,21 @@ vi.mock('../../services/claudeService', () => ({
   }
 }))
 
+// Mock the run and usage ledgers
+const mockRecordRun = vi.fn()
+
+vi.mock('../../../database/dal', () => ({
+  GenerationRunsDAL: { record: (...args: unknown[]) => mockRecordRun(...args) },
+  GenerationUsageDAL: { record: vi.fn() }
+}))
+
+// Mock spend caps
+const mockCheckBudget = vi.fn()
+
+vi.mock('../../services/budgetService', () => ({
+  createBudgetService: () => ({ checkBudget: (...args: unknown[]) => mockCheckBudget(...args) })
+}))
+
 // Mock logger
 vi.mock('../../utils/logger', () => ({
   logger: {
@@ -91,6 +118,7 @@ describe('Claude IPC Handlers', () => {
   describe('setupClaudeHandlers', () => {
     it('should register all Claude IPC handlers', () => {
       expect(ipcMain.handle).toHaveBeenCalledWith('ipc:claude:generateContent', expect.any(Function))
+      expect(ipcMain.handle).toHaveBeenCalledWith('ipc:claude:generateContentStream', expect.any(Function))
       expect(ipcMain.handle).toHaveBeenCalledWith('ipc:claude:uploadFile', expect.any(Function))
       expect(ipcMain.handle).toHaveBeenCalledWith('ipc:claude:deleteFile', expect.any(Function))
       expect(ipcMain.handle).toHaveBeenCalledWith('ipc:claude:getQuotaInfo', expect.any(Function))
@@ -103,7 +131,8 @@ describe('Claude IPC Handlers', () => {
         prompt: 'Test prompt',
         leadData: { email: 'test@example.com' },
         modelId: 'claude-sonnet-4-20250514',
-        maxRetries: 3
+        maxRetries: 3,
+        leadId: 42
       }
 
       const mockResponse = {
@@ -137,10 +166,74 @@ describe('Claude IPC Handlers', () => {
         mockRequest.maxRetries,
         mockRequest.modelId,
         mockRequest.systemPrompt,
-        mockRequest.fileIds
+        mockRequest.fileIds,
+        expect.any(AbortSignal),
+        42,
+        expect.any(Function)
       )
     })
 
+    it('should record the generation run and return its id', async () => {
+      mockRecordRun.mockReturnValue({ id: 7 })
+      mockGenerateContentWithRetry.mockImplementation(async (...args: unknown[]) => {
+        const onRun = args[8] as (run: unknown) => void
+        onRun({
+          operation: 'generate',
+          modelId: 'claude-sonnet-4-20250514',
+          leadId: 42,
+          prompt: 'Test prompt',
+          request: { model: 'claude-sonnet-4-20250514' },
+          responses: [{ content: [] }],
+          status: 'succeeded',
+          usage: { input_tokens: 100, output_tokens: 50 }
+        })
+        return { snippet1: 'Subject' }
+      })
+
+      const result = await handlers['ipc:claude:generateContent']({}, {
+        prompt: 'Test prompt',
+        leadData: { email: 'test@example.com' },
+        leadId: 42
+      })
+
+      expect(result.data).toEqual({ snippet1: 'Subject', generationRunId: 7 })
+      expect(mockRecordRun).toHaveBeenCalledWith(expect.objectContaining({
+        lead_id: 42,
+        model_id: 'claude-sonnet-4-20250514',
+        prompt: 'Test prompt',
+        raw_response: [{ content: [] }],
+        input_tokens: 100,
+        output_tokens: 50
+      }))
+    })
+
+    it('should abort the generation when its operation is cancelled', async () => {
+      const mockRequest: ClaudeGenerateContentRequest = {
+        prompt: 'Test prompt',
+        leadData: { email: 'test@example.com' },
+        operationId: 'claude:generateContent:test-op'
+      }
+
+      let receivedSignal: AbortSignal | undefined
+      mockGenerateContentWithRetry.mockImplementation((...args: unknown[]) => {
+        receivedSignal = args[6] as AbortSignal
+        return new Promise((_resolve, reject) => {
+          receivedSignal!.addEventListener('abort', () => reject(new Error('Generation cancelled')))
+        })
+      })
+
+      const handler = handlers['ipc:claude:generateContent']
+      const pending = handler({}, mockRequest)
+
+      expect(cancelOperation('claude:generateContent:test-op')).toBe(true)
+      const result = await pending
+
+      expect(receivedSignal?.aborted).toBe(true)
+      expect(result.success).toBe(false)
+      // Finished operations can no longer be cancelled
+      expect(cancelOperation('claude:generateContent:test-op')).toBe(false)
+    })
+
     it('should handle validation errors', async () => {
       const invalidRequest = {
         // Missing required fields
@@ -168,6 +261,126 @@ describe('Claude IPC Handlers', () => {
     })
   })
 
+  describe('generateContentStream handler', () => {
+    const sender = { send: vi.fn(), isDestroyed: vi.fn(() => false) }
+
+    it('should forward snippet updates on the progress channel', async () => {
+      const mockRequest: ClaudeGenerateContentRequest = {
+        prompt: 'Test prompt',
+        leadData: { email: 'test@example.com' },
+        operationId: 'claude:generateContentStream:test-op'
+      }
+
+      mockGenerateContentStream.mockImplementation(async (...args: unknown[]) => {
+        const onUpdate = args[6] as (update: unknown) => void
+        onUpdate({ field: 'snippet1', text: 'Subj', complete: false })
+        onUpdate({ field: 'snippet1', text: 'Subject', complete: true })
+        return { content: { snippet1: 'Subject' }, partial: false }
+      })
+
+      const handler = handlers['ipc:claude:generateContentStream']
+      const result = await handler({ sender }, mockRequest)
+
+      expect(result.success).toBe(true)
+      expect(result.data.partial).toBe(false)
+      expect(sender.send).toHaveBeenCalledWith('ipc:progress', expect.objectContaining({
+        operationId: 'claude:generateContentStream:test-op',
+        status: 'running',
+        current: 1,
+        total: 7,
+        data: { field: 'snippet1', text: 'Subject', complete: true }
+      }))
+      expect(sender.send).toHaveBeenLastCalledWith('ipc:progress', expect.objectContaining({ status: 'completed' }))
+    })
+
+    it('should report a stopped stream as cancelled and keep its partial output', async () => {
+      const mockRequest: ClaudeGenerateContentRequest = {
+        prompt: 'Test prompt',
+        leadData: { email: 'test@example.com' },
+        operationId: 'claude:generateContentStream:stop-op'
+      }
+
+      mockGenerateContentStream.mockResolvedValue({ content: { snippet1: 'Subject' }, partial: true })
+
+      const handler = handlers['ipc:claude:generateContentStream']
+      const result = await handler({ sender }, mockRequest)
+
+      expect(result.success).toBe(true)
+      expect(result.data).toEqual({ content: { snippet1: 'Subject' }, partial: true })
+      expect(sender.send).toHaveBeenLastCalledWith('ipc:progress', expect.objectContaining({ status: 'cancelled' }))
+    })
+  })
+
+  describe('rewriteSnippet handler', () => {
+    it('should return only the rewritten snippet', async () => {
+      const mockRequest: ClaudeRewriteSnippetRequest = {
+        field: 'snippet4',
+        instruction: 'shorter',
+        snippets: { snippet1: 'Subject', snippet4: '<div>Long bump</div>' },
+        leadData: { first_name: 'John' },
+        modelId: 'claude-sonnet-4-20250514',
+        leadId: 42
+      }
+
+      mockRecordRun.mockReturnValue({ id: 9 })
+      mockRewriteSnippet.mockImplementation(async (...args: unknown[]) => {
+        const onRun = args[5] as (run: unknown) => void
+        onRun({
+          operation: 'rewrite',
+          modelId: 'claude-sonnet-4-20250514',
+          leadId: 42,
+          prompt: 'Rewrite prompt',
+          request: { model: 'claude-sonnet-4-20250514' },
+          responses: [{ content: [] }],
+          status: 'succeeded',
+          usage: { input_tokens: 100, output_tokens: 20 }
+        })
+        return '<div>Short bump</div>'
+      })
+
+      const handler = handlers['ipc:claude:rewriteSnippet']
+      const result = await handler({}, mockRequest)
+
+      expect(result).toEqual({
+        success: true,
+        data: { field: 'snippet4', text: '<div>Short bump</div>', generationRunId: 9 }
+      })
+      expect(mockRewriteSnippet).toHaveBeenCalledWith(
+        mockRequest,
+        'claude-sonnet-4-20250514',
+        undefined,
+        expect.any(AbortSignal),
+        42,
+        expect.any(Function)
+      )
+      expect(mockRecordRun).toHaveBeenCalledWith(expect.objectContaining({ lead_id: 42, operation: 'rewrite' }))
+    })
+
+    it('should reject an empty instruction', async () => {
+      const handler = handlers['ipc:claude:rewriteSnippet']
+      const result = await handler({}, { field: 'snippet1', instruction: '', snippets: {}, leadData: {} })
+
+      expect(result.success).toBe(false)
+      expect(mockRewriteSnippet).not.toHaveBeenCalled()
+    })
+  })
+
+  describe('startBatch handler', () => {
+    it('should refuse a batch the spend budget does not cover', async () => {
+      const reason = 'Budget covers 1 of 2 lead(s): $0.01 left in the monthly budget'
+      mockCheckBudget.mockReturnValue({ allowed: false, reason })
+
+      const result = await handlers['ipc:claude:startBatch']({}, {
+        modelId: 'claude-sonnet-4-20250514',
+        items: [1, 2].map(leadId => ({ leadId, prompt: 'Write a sequence', leadData: { email: `lead${leadId}@test.com` } }))
+      })
+
+      expect(mockCheckBudget).toHaveBeenCalledWith({ leadIds: [1, 2], perLeadCostUsd: expect.any(Number) })
+      expect(mockCheckBudget.mock.calls[0][0].perLeadCostUsd).toBeGreaterThan(0)
+      expect(result).toEqual({ success: false, error: expect.objectContaining({ message: reason }) })
+    })
+  })
+
   describe('uploadFile handler', () => {
     it('should handle successful file upload', async () => {
       const mockRequest: ClaudeFileUploadRequest = {
@@ -235,8 +448,13 @@ describe('Claude IPC Handlers', () => {
 
   describe('getQuotaInfo handler', () => {
     it('should return quota information', async () => {
-      mockGetRequestCount.mockReturnValue(5)
-      mockGetRemainingRequests.mockReturnValue(95)
+      mockGetQuotaInfo.mockReturnValue({
+        requestCount: 5,
+        remainingRequests: 15,
+        maxRequestsPerMinute: 100,
+        queueDepth: 2,
+        retryAfterMs: 0
+      })
 
       const handler = handlers['ipc:claude:getQuotaInfo']
       const result = await handler({})
@@ -244,8 +462,10 @@ describe('Claude IPC Handlers', () => {
       expect(result.success).toBe(true)
       expect(result.data).toEqual({
         requestCount: 5,
-        remainingRequests: 95,
-        maxRequestsPerMinute: 100
+        remainingRequests: 15,
+        maxRequestsPerMinute: 100,
+        queueDepth: 2,
+        retryAfterMs: 0
       })
     })
   })
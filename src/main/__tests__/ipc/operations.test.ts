@@ -0,0 +1,68 @@
+import { describe, it, expect, vi } from 'vitest'
+import { startCancellableOperation, registerCancellable, cancelOperation, isOperationActive } from '../../ipc/operations'
+
+// Mock electron
+vi.mock('electron', () => ({
+  ipcMain: {
+    handle: vi.fn(),
+    removeHandler: vi.fn()
+  }
+}))
+
+// Mock logger
+vi.mock('../../utils/logger', () => ({
+  logger: {
+    info: vi.fn(),
+    error: vi.fn(),
+    debug: vi.fn(),
+    warn: vi.fn()
+  }
+}))
+
+// Mock IPC utils
+vi.mock('../../ipc/utils', () => ({
+  handleIpcError: vi.fn(),
+  createSuccessResponse: vi.fn((data) => ({ success: true, data })),
+  logIpcOperation: vi.fn()
+}))
+
+describe('Operation cancellation', () => {
+  it('should abort the signal of a running operation', () => {
+    const operation = startCancellableOperation('claude:generateContent:op-1')
+
+    expect(cancelOperation('claude:generateContent:op-1')).toBe(true)
+    expect(operation.signal.aborted).toBe(true)
+    operation.release()
+  })
+
+  it('should not cancel released or unknown operations', () => {
+    const operation = startCancellableOperation('op-2')
+    operation.release()
+
+    expect(isOperationActive('op-2')).toBe(false)
+    expect(cancelOperation('op-2')).toBe(false)
+    expect(operation.signal.aborted).toBe(false)
+  })
+
+  it('should call custom cancel handlers', () => {
+    const cancel = vi.fn()
+    const release = registerCancellable('woodpecker:export:1', cancel)
+
+    cancelOperation('woodpecker:export:1')
+    release()
+
+    expect(cancel).toHaveBeenCalledTimes(1)
+    expect(isOperationActive('woodpecker:export:1')).toBe(false)
+  })
+
+  it('should keep a newer registration when a stale release runs', () => {
+    const staleRelease = registerCancellable('op-3', vi.fn())
+    const current = vi.fn()
+    registerCancellable('op-3', current)
+
+    staleRelease()
+    cancelOperation('op-3')
+
+    expect(current).toHaveBeenCalledTimes(1)
+  })
+})
@@ -0,0 +1,75 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest'
+import { createProgressReporter, sendProgress, PROGRESS_CHANNEL } from '../../ipc/progress'
+
+const mockWindowContents = { send: vi.fn(), isDestroyed: vi.fn(() => false) }
+
+// Mock electron
+vi.mock('electron', () => ({
+  BrowserWindow: {
+    getAllWindows: vi.fn(() => [{ webContents: mockWindowContents }])
+  }
+}))
+
+// Mock logger
+vi.mock('../../utils/logger', () => ({
+  logger: {
+    info: vi.fn(),
+    error: vi.fn(),
+    debug: vi.fn(),
+    warn: vi.fn()
+  }
+}))
+
+describe('Progress channel', () => {
+  const target = { send: vi.fn(), isDestroyed: vi.fn(() => false) }
+
+  beforeEach(() => {
+    vi.clearAllMocks()
+  })
+
+  it('should report updates and completion for one operation on its target', () => {
+    const reporter = createProgressReporter('claude:generateBulk', {
+      operationId: 'op-1',
+      target: target as unknown as Electron.WebContents
+    })
+
+    reporter.update(1, 3, 'Generated 1 of 3')
+    reporter.complete('Done')
+
+    expect(target.send).toHaveBeenNthCalledWith(1, PROGRESS_CHANNEL, expect.objectContaining({
+      operationId: 'op-1',
+      operation: 'claude:generateBulk',
+      status: 'running',
+      current: 1,
+      total: 3
+    }))
+    expect(target.send).toHaveBeenNthCalledWith(2, PROGRESS_CHANNEL, expect.objectContaining({
+      status: 'completed',
+      current: 3,
+      total: 3,
+      message: 'Done'
+    }))
+    expect(mockWindowContents.send).not.toHaveBeenCalled()
+  })
+
+  it('should generate an operation id prefixed with the operation name', () => {
+    const reporter = createProgressReporter('settings:exportDatabase')
+
+    expect(reporter.operationId).toMatch(/^settings:exportDatabase:/)
+  })
+
+  it('should broadcast to every window when no target is given', () => {
+    sendProgress({ operationId: 'op-2', operation: 'woodpecker:export', status: 'running', current: 0, total: 1 })
+
+    expect(mockWindowContents.send).toHaveBeenCalledWith(PROGRESS_CHANNEL, expect.objectContaining({ operationId: 'op-2' }))
+  })
+
+  it('should skip destroyed renderers', () => {
+    target.isDestroyed.mockReturnValueOnce(true)
+    const reporter = createProgressReporter('woodpecker:addProspects', { target: target as unknown as Electron.WebContents })
+
+    reporter.fail('Invalid API key')
+
+    expect(target.send).not.toHaveBeenCalled()
+  })
+})
@@ -0,0 +1,75 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest'
+import fs from 'fs'
+import os from 'os'
+import path from 'path'
+import { seedBundledTemplate } from '../../ipc/prompt-templates'
+import { PromptTemplatesDAL } from '../../../database/dal'
+import { initializeDatabase, closeDatabase } from '../../../database/init'
+import { setAppDataPath } from '../../../database/config'
+import { dbPool } from '../../../database/utils'
+import emailSequenceTemplate from '../../../templates/emailSequencePrompt.json'
+
+vi.mock('electron', () => ({
+  ipcMain: {
+    handle: vi.fn()
+  }
+}))
+
+vi.mock('../../ipc/utils', () => ({
+  handleIpcError: vi.fn(),
+  createSuccessResponse: vi.fn((data) => ({ success: true, data })),
+  validateInput: vi.fn()
+}))
+
+describe('seedBundledTemplate', () => {
+  const testDir = fs.mkdtempSync(path.join(os.tmpdir(), 'prompt-templates-ipc-'))
+  const bundled = {
+    name: 'email-sequence',
+    template: emailSequenceTemplate.template,
+    variables: emailSequenceTemplate.variables,
+    notes: 'Bundled template',
+  }
+  const legacy = { ...bundled, template: 'Write to {{first_name}}.\n\nStart your response immediately with ---BLOCK---' }
+
+  beforeEach(() => {
+    dbPool.closeAll()
+    setAppDataPath(testDir)
+    for (const suffix of ['', '-shm', '-wal']) {
+      fs.rmSync(path.join(testDir, `leads.db${suffix}`), { force: true })
+    }
+    closeDatabase(initializeDatabase())
+  })
+
+  afterEach(() => {
+    dbPool.closeAll()
+  })
+
+  it('should seed the bundled prompt, which asks for the sequence tool', () => {
+    seedBundledTemplate(bundled)
+    seedBundledTemplate(bundled)
+
+    const seeded = PromptTemplatesDAL.getByName('email-sequence')!
+    expect(seeded.current.version).toBe(1)
+    expect(seeded.current.template).toContain('write_email_sequence')
+    expect(seeded.current.template).not.toContain('---BLOCK---')
+  })
+
+  it('should replace an unedited ---BLOCK--- seed with the current bundled prompt', () => {
+    PromptTemplatesDAL.create(legacy)
+
+    seedBundledTemplate(bundled)
+
+    const seeded = PromptTemplatesDAL.getByName('email-sequence')!
+    expect(seeded.current.version).toBe(2)
+    expect(seeded.current.template).toBe(emailSequenceTemplate.template)
+  })
+
+  it('should leave a prompt someone has edited alone', () => {
+    const created = PromptTemplatesDAL.create(legacy)
+    PromptTemplatesDAL.createVersion(created.id, { ...legacy, template: `${legacy.template}\nBe brief.`, notes: 'Shorter' })
+
+    seedBundledTemplate(bundled)
+
+    expect(PromptTemplatesDAL.getByName('email-sequence')!.current.version).toBe(2)
+  })
+})
@@ -59,8 +59,13 @@ describe('WoodpeckerHandlers', () => {
       addProspectsToCampaign: vi.fn(),
       checkDuplicateProspects: vi.fn(),
       clearCampaignCache: vi.fn(),
-      getRequestCount: vi.fn().mockReturnValue(10),
-      getRemainingRequests: vi.fn().mockReturnValue(90)
+      getQuotaInfo: vi.fn().mockReturnValue({
+        requestCount: 10,
+        remainingRequests: 0,
+        maxRequestsPerMinute: 100,
+        queueDepth: 0,
+        retryAfterMs: 0
+      })
     }
 
     // Mock the createWoodpeckerService function
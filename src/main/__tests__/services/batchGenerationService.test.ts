@@ -0,0 +1,307 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest'
+import fs from 'fs'
+import os from 'os'
+import path from 'path'
+import { BatchGenerationService } from '../../services/batchGenerationService'
+import { ClaudeService } from '../../services/claudeService'
+import type { GenerationRunReport, UsageReport } from '../../services/claudeService'
+import { GeneratedContentDAL, GenerationBatchesDAL, GenerationRunsDAL, ImportsDAL, LeadsDAL } from '../../../database/dal'
+import type { GenerationBatchProgress } from '../../../database/dal'
+import { initializeDatabase, closeDatabase } from '../../../database/init'
+import { setAppDataPath } from '../../../database/config'
+import { dbPool } from '../../../database/utils'
+
+/**
+ * Local fake of the Message Batches endpoint. A batch ends after a set number
+ * of polls; results are produced per request by `respond`.
+ */
+const fakeBatches = vi.hoisted(() => {
+  interface FakeBatch {
+    id: string
+    requests: Array<{ custom_id: string; params: Record<string, unknown> }>
+    polls: number
+    cancelled: boolean
+  }
+
+  const state = {
+    batches: new Map<string, FakeBatch>(),
+    pollsUntilEnded: 2,
+    created: 0,
+    respond: (() => ({ type: 'succeeded' })) as (customId: string) => Record<string, unknown>,
+  }
+
+  const toResponse = (batch: FakeBatch) => {
+    const ended = batch.cancelled || batch.polls >= state.pollsUntilEnded
+    const total = batch.requests.length
+    return {
+      id: batch.id,
+      type: 'message_batch',
+      processing_status: ended ? 'ended' : 'in_progress',
+      request_counts: {
+        processing: ended ? 0 : total - Math.min(batch.polls, total - 1),
+        succeeded: ended ? total : Math.min(batch.polls, total - 1),
+        errored: 0,
+        canceled: 0,
+        expired: 0,
+      },
+      results_url: ended ? `https://fake.local/v1/messages/batches/${batch.id}/results` : null,
+    }
+  }
+
+  const endpoint = {
+    create: async (body: { requests: FakeBatch['requests'] }) => {
+      state.created++
+      const batch = { id: `msgbatch_${state.created}`, requests: body.requests, polls: 0, cancelled: false }
+      state.batches.set(batch.id, batch)
+      return toResponse(batch)
+    },
+    retrieve: async (id: string) => {
+      const batch = state.batches.get(id)!
+      batch.polls++
+      return toResponse(batch)
+    },
+    results: async (id: string) => {
+      const batch = state.batches.get(id)!
+      return (async function* () {
+        for (const request of batch.requests) {
+          yield { custom_id: request.custom_id, result: state.respond(request.custom_id) }
+        }
+      })()
+    },
+    cancel: async (id: string) => {
+      const batch = state.batches.get(id)!
+      batch.cancelled = true
+      return { ...toResponse(batch), processing_status: 'canceling' }
+    },
+  }
+
+  return { state, endpoint }
+})
+
+vi.mock('@anthropic-ai/sdk', () => ({
+  default: vi.fn().mockImplementation(() => ({
+    messages: {
+      create: vi.fn(),
+      batches: fakeBatches.endpoint,
+    },
+  })),
+  APIError: class APIError extends Error {
+    status = 500
+  },
+}))
+
+// Mock the logger
+vi.mock('../../utils/logger', () => ({
+  logger: {
+    info: vi.fn(),
+    debug: vi.fn(),
+    warn: vi.fn(),
+    error: vi.fn(),
+  }
+}))
+
+// Keep the settings store (and electron) out of the picture
+vi.mock('../../services/settingsService', () => ({
+  settingsService: {
+    getClaudeApiKey: () => 'test-api-key',
+  }
+}))
+
+const sequenceInput = Object.fromEntries(
+  Array.from({ length: 7 }, (_, i) => [`snippet${i + 1}`, `Snippet ${i + 1}`])
+)
+
+const succeeded = () => ({
+  type: 'succeeded',
+  message: {
+    model: 'claude-sonnet-4-20250514',
+    content: [{ type: 'tool_use', id: 'toolu_1', input: sequenceInput }],
+    usage: { input_tokens: 1200, output_tokens: 800 },
+  },
+})
+
+describe('BatchGenerationService', () => {
+  const testDir = fs.mkdtempSync(path.join(os.tmpdir(), 'generation-batches-'))
+  let importId: number
+  let service: BatchGenerationService
+
+  const createService = () =>
+    new BatchGenerationService(new ClaudeService('test-api-key'), { pollIntervalMs: 1 })
+
+  const createLeads = (count: number) =>
+    Array.from({ length: count }, (_, i) =>
+      LeadsDAL.create({ import_id: importId, email: `lead${i}@test.com`, first_name: `Lead${i}`, company: 'Acme', status: 'imported' })
+    )
+
+  const toItems = (leads: ReturnType<typeof createLeads>) =>
+    leads.map(lead => ({
+      leadId: lead.id!,
+      prompt: `Write a sequence for ${lead.first_name}`,
+      leadData: { email: lead.email, first_name: lead.first_name, company: lead.company },
+    }))
+
+  beforeEach(() => {
+    dbPool.closeAll()
+    setAppDataPath(testDir)
+    for (const suffix of ['', '-shm', '-wal']) {
+      fs.rmSync(path.join(testDir, `leads.db${suffix}`), { force: true })
+    }
+    closeDatabase(initializeDatabase())
+
+    importId = ImportsDAL.create({ filename: 'test.csv', status: 'completed' }).id!
+    fakeBatches.state.batches.clear()
+    fakeBatches.state.created = 0
+    fakeBatches.state.pollsUntilEnded = 2
+    fakeBatches.state.respond = succeeded
+    service = createService()
+  })
+
+  afterEach(() => {
+    dbPool.closeAll()
+  })
+
+  it('should submit every lead as one batch and store results by lead', async () => {
+    const leads = createLeads(3)
+    fakeBatches.state.respond = customId =>
+      customId === `lead-${leads[1].id}`
+        ? { type: 'errored', error: { type: 'error', error: { type: 'overloaded_error', message: 'Overloaded' } } }
+        : succeeded()
+    const updates: GenerationBatchProgress[] = []
+    service.onProgress(progress => updates.push(progress))
+
+    const started = service.startBatch({ items: toItems(leads) })
+    expect(LeadsDAL.getById(leads[0].id!)?.status).toBe('generating')
+
+    const result = await service.waitForBatch(started.batchId)
+
+    expect(fakeBatches.state.created).toBe(1)
+    const [submitted] = fakeBatches.state.batches.values()
+    expect(submitted.requests.map(request => request.custom_id)).toEqual(leads.map(lead => `lead-${lead.id}`))
+    expect(submitted.requests[0].params).toEqual(expect.objectContaining({
+      tool_choice: { type: 'tool', name: 'write_email_sequence' },
+    }))
+
+    expect(result).toEqual(expect.objectContaining({
+      status: 'completed',
+      anthropicBatchId: 'msgbatch_1',
+      succeeded: 2,
+      failed: 1,
+      failures: [{ leadId: leads[1].id, error: 'Overloaded' }],
+    }))
+    expect(updates.some(update => update.status === 'running' && update.current < update.total)).toBe(true)
+
+    const touchpoints = GeneratedContentDAL.getTouchpoints(leads[0].id!)
+    expect(touchpoints).toHaveLength(7)
+    expect(touchpoints.slice(0, 3)).toEqual([
+      expect.objectContaining({ touchpoint_number: 1, snippet_field: 'snippet1', content_type: 'subject', content: 'Snippet 1', status: 'draft' }),
+      expect.objectContaining({ touchpoint_number: 2, snippet_field: 'snippet2', content_type: 'email', content: '<div>Snippet 2</div>' }),
+      expect.objectContaining({ touchpoint_number: 3, snippet_field: 'snippet3', content_type: 'linkedin' }),
+    ])
+    expect(LeadsDAL.getById(leads[0].id!)?.status).toBe('drafted')
+    expect(LeadsDAL.getById(leads[1].id!)?.status).toBe('failed')
+    expect(GeneratedContentDAL.getByLead(leads[1].id!)).toHaveLength(0)
+  })
+
+  it('should report the usage of every result against its lead', async () => {
+    const claudeService = new ClaudeService('test-api-key')
+    const reports: UsageReport[] = []
+    claudeService.onUsage(report => reports.push(report))
+    service = new BatchGenerationService(claudeService, { pollIntervalMs: 1 })
+    const leads = createLeads(2)
+
+    const started = service.startBatch({ items: toItems(leads) })
+    await service.waitForBatch(started.batchId)
+
+    expect(reports).toEqual(leads.map(lead => ({
+      modelId: 'claude-sonnet-4-20250514',
+      operation: 'batch',
+      usage: { input_tokens: 1200, output_tokens: 800 },
+      leadId: lead.id,
+    })))
+  })
+
+  it('should link the stored content to the recorded generation run', async () => {
+    const runs: GenerationRunReport[] = []
+    service = new BatchGenerationService(new ClaudeService('test-api-key'), {
+      pollIntervalMs: 1,
+      recordRun: run => {
+        runs.push(run)
+        return GenerationRunsDAL.record({
+          lead_id: run.leadId,
+          operation: run.operation,
+          model_id: run.modelId,
+          prompt: run.prompt,
+          status: run.status,
+        }).id
+      },
+    })
+    const [lead] = createLeads(1)
+
+    const started = service.startBatch({ items: [{ ...toItems([lead])[0], promptPrefix: 'Shared instructions' }] })
+    await service.waitForBatch(started.batchId)
+
+    expect(runs).toEqual([expect.objectContaining({
+      operation: 'batch',
+      leadId: lead.id,
+      prompt: `Write a sequence for ${lead.first_name}`,
+      promptPrefix: 'Shared instructions',
+      status: 'succeeded',
+      customId: `lead-${lead.id}`,
+      usage: { input_tokens: 1200, output_tokens: 800, cache_creation_input_tokens: 0, cache_read_input_tokens: 0 },
+    })])
+    const [run] = GenerationRunsDAL.getForLead(lead.id!)
+    expect(run.is_current).toBe(true)
+    expect(GeneratedContentDAL.getTouchpoints(lead.id!).every(row => row.generation_run_id === run.id)).toBe(true)
+  })
+
+  it('should report incomplete structured output as a per-lead failure', async () => {
+    const [lead] = createLeads(1)
+    fakeBatches.state.respond = () => ({
+      type: 'succeeded',
+      message: { content: [{ type: 'tool_use', id: 'toolu_1', input: { ...sequenceInput, snippet7: '' } }] },
+    })
+
+    const started = service.startBatch({ items: toItems([lead]) })
+    const result = await service.waitForBatch(started.batchId)
+
+    expect(result?.failures).toEqual([{ leadId: lead.id, error: 'Missing required field: snippet7' }])
+    expect(LeadsDAL.getById(lead.id!)?.status).toBe('failed')
+  })
+
+  it('should keep polling a submitted batch after a restart without resubmitting it', async () => {
+    const leads = createLeads(2)
+    const remote = await fakeBatches.endpoint.create({
+      requests: leads.map(lead => ({ custom_id: `lead-${lead.id}`, params: {} })),
+    })
+
+    // Simulate a shutdown after the batch was submitted but before it ended
+    const batch = GenerationBatchesDAL.createBatch(
+      { model_id: 'claude-sonnet-4-20250514' },
+      toItems(leads).map(item => ({ lead_id: item.leadId, custom_id: `lead-${item.leadId}`, request: item }))
+    )
+    GenerationBatchesDAL.markSubmitted(batch.id!, remote.id)
+
+    expect(service.resumeUnfinishedBatches()).toEqual([batch.id])
+    const result = await service.waitForBatch(batch.id!)
+
+    expect(fakeBatches.state.created).toBe(1)
+    expect(result).toEqual(expect.objectContaining({ status: 'completed', succeeded: 2 }))
+    expect(GeneratedContentDAL.getTouchpoints(leads[1].id!)).toHaveLength(7)
+  })
+
+  it('should cancel the remote batch and release leads without results', async () => {
+    const leads = createLeads(2)
+    fakeBatches.state.pollsUntilEnded = Number.POSITIVE_INFINITY
+    service = new BatchGenerationService(new ClaudeService('test-api-key'), { pollIntervalMs: 60000 })
+
+    const started = service.startBatch({ items: toItems(leads) })
+    await vi.waitFor(() => expect(GenerationBatchesDAL.getById(started.batchId)?.anthropic_batch_id).toBe('msgbatch_1'))
+
+    expect(service.cancelBatch(started.batchId)).toBe(true)
+    const result = await service.waitForBatch(started.batchId)
+
+    expect(result?.status).toBe('cancelled')
+    expect(fakeBatches.state.batches.get('msgbatch_1')?.cancelled).toBe(true)
+    expect(LeadsDAL.getById(leads[0].id!)?.status).toBe('imported')
+  })
+})
@@ -0,0 +1,112 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest'
+import fs from 'fs'
+import os from 'os'
+import path from 'path'
+import { BudgetService, startOfMonth } from '../../services/budgetService'
+import type { SpendBudgets } from '../../services/settingsService'
+import { GenerationUsageDAL, ImportsDAL, LeadsDAL } from '../../../database/dal'
+import { initializeDatabase, closeDatabase } from '../../../database/init'
+import { setAppDataPath } from '../../../database/config'
+import { dbPool, withDatabase } from '../../../database/utils'
+
+const budgets = vi.hoisted(() => ({ current: {} as SpendBudgets }))
+
+// Keep the settings store (and electron) out of the picture
+vi.mock('../../services/settingsService', () => ({
+  settingsService: {
+    getBudgets: () => ({ ...budgets.current }),
+  }
+}))
+
+describe('BudgetService', () => {
+  const testDir = fs.mkdtempSync(path.join(os.tmpdir(), 'budget-service-'))
+  const service = new BudgetService()
+  let importId: number
+
+  const createLeads = (count: number, forImport = importId) =>
+    Array.from({ length: count }, (_, i) =>
+      LeadsDAL.create({ import_id: forImport, email: `lead${forImport}-${i}@test.com` }).id!
+    )
+
+  const spend = (costUsd: number, leadId?: number) =>
+    GenerationUsageDAL.record({
+      lead_id: leadId ?? null,
+      model_id: 'claude-sonnet-4-20250514',
+      operation: 'generate',
+      input_tokens: 1000,
+      output_tokens: 1000,
+      cost_usd: costUsd,
+    })
+
+  beforeEach(() => {
+    dbPool.closeAll()
+    setAppDataPath(testDir)
+    for (const suffix of ['', '-shm', '-wal']) {
+      fs.rmSync(path.join(testDir, `leads.db${suffix}`), { force: true })
+    }
+    closeDatabase(initializeDatabase())
+
+    importId = ImportsDAL.create({ filename: 'q4.csv', status: 'completed' }).id!
+    budgets.current = {}
+  })
+
+  afterEach(() => {
+    dbPool.closeAll()
+  })
+
+  it('should allow any generation when no caps are set', () => {
+    const leadIds = createLeads(3)
+
+    expect(service.checkBudget({ leadIds, perLeadCostUsd: 100 })).toEqual(expect.objectContaining({
+      allowed: true,
+      affordableLeads: 3,
+      projectedCostUsd: 300,
+      monthly: null,
+    }))
+  })
+
+  it('should cover only as many leads as the monthly budget has left', () => {
+    budgets.current = { monthlyLimitUsd: 1 }
+    spend(0.4)
+    // Spend from a previous month does not count
+    spend(5)
+    withDatabase(db => {
+      db.prepare("UPDATE generation_usage SET created_at = '2020-01-15 00:00:00' WHERE cost_usd = 5").run()
+    })
+
+    const result = service.checkBudget({ leadIds: [], leadCount: 10, perLeadCostUsd: 0.1 })
+
+    expect(result.allowed).toBe(false)
+    expect(result.affordableLeads).toBe(6)
+    expect(result.monthly).toEqual(expect.objectContaining({ spentUsd: 0.4, affordableLeads: 6 }))
+    expect(result.reason).toBe('Budget covers 6 of 10 lead(s): $0.60 left in the monthly budget')
+  })
+
+  it('should apply the per-import cap to each import separately', () => {
+    budgets.current = { perImportLimitUsd: 1 }
+    const otherImportId = ImportsDAL.create({ filename: 'q1.csv', status: 'completed' }).id!
+    const leadIds = createLeads(4)
+    const otherLeadIds = createLeads(2, otherImportId)
+    spend(0.7, leadIds[0])
+
+    const result = service.checkBudget({ leadIds: [...leadIds, ...otherLeadIds], perLeadCostUsd: 0.1 })
+
+    expect(result.affordableLeads).toBe(5)
+    expect(result.imports).toEqual(expect.arrayContaining([
+      expect.objectContaining({ importId, filename: 'q4.csv', leadCount: 4, affordableLeads: 3 }),
+      expect.objectContaining({ importId: otherImportId, leadCount: 2, affordableLeads: 2 }),
+    ]))
+    expect(result.reason).toContain('left for q4.csv')
+  })
+
+  it('should report this month\'s spend against the monthly cap', () => {
+    budgets.current = { monthlyLimitUsd: 20 }
+    spend(2.5)
+
+    expect(service.getStatus()).toEqual({
+      budgets: { monthlyLimitUsd: 20 },
+      monthly: { limitUsd: 20, spentUsd: 2.5, remainingUsd: 17.5 },
+    })
+    expect(startOfMonth(new Date(Date.UTC(2025, 2, 31, 23)))).toBe('2025-03-01 00:00:00')
+  })
+})
@@ -1,5 +1,6 @@
 import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest'
 import { ClaudeService, ClaudeApiError, createClaudeService } from '../../services/claudeService'
+import emailSequenceTemplate from '../../../templates/emailSequencePrompt.json'
 
 // Mock Anthropic SDK
 const mockCreate = vi.fn()
@@ -10,7 +11,16 @@ vi.mock('@anthropic-ai/sdk', () => ({
       create: mockCreate
     },
     apiKey: 'test-api-key'
-  }))
+  })),
+  APIError: class APIError extends Error {
+    status: number
+    headers?: Headers
+    constructor(status: number, message: string, headers?: Headers) {
+      super(message)
+      this.status = status
+      this.headers = headers
+    }
+  }
 }))
 
 // Mock logger
@@ -23,6 +33,13 @@ vi.mock('../../utils/logger', () => ({
   }
 }))
 
+// Settings are read from Electron's user data; the key comes from the environment here
+vi.mock('../../services/settingsService', () => ({
+  settingsService: {
+    getClaudeApiKey: vi.fn()
+  }
+}))
+
 // Mock fetch for file operations
 global.fetch = vi.fn()
 global.FormData = vi.fn().mockImplementation(() => ({
@@ -159,6 +176,125 @@ describe('ClaudeService', () => {
       expect(result.snippet2).toContain('<div>Email Content</div>')
     })
 
+    it('should request the sequence tool and use its typed output', async () => {
+      mockCreate.mockResolvedValue({
+        content: [{
+          type: 'tool_use',
+          id: 'toolu_1',
+          name: 'write_email_sequence',
+          input: {
+            snippet1: 'Subject Line',
+            snippet2: 'Email Content',
+            snippet3: 'LinkedIn Message',
+            snippet4: 'Day 5 Bump',
+            snippet5: 'Day 9 Follow-up',
+            snippet6: 'Day 13 Bump',
+            snippet7: 'Day 20 Breakup'
+          }
+        }],
+        usage: { input_tokens: 100, output_tokens: 200 }
+      })
+
+      const result = await claudeService.generateContent(mockPrompt, mockLeadData)
+
+      expect(mockCreate).toHaveBeenCalledWith(expect.objectContaining({
+        tools: [expect.objectContaining({ name: 'write_email_sequence' })],
+        tool_choice: { type: 'tool', name: 'write_email_sequence' }
+      }), expect.anything())
+      expect(result.email).toBe('test@example.com')
+      expect(result.snippet1).toBe('Subject Line')
+      expect(result.snippet2).toBe('<div>Email Content</div>')
+      expect(result.snippet3).toBe('LinkedIn Message')
+    })
+
+    it('should request the sequence tool for the bundled prompt', async () => {
+      mockCreate.mockResolvedValue({
+        content: [{
+          type: 'tool_use',
+          id: 'toolu_1',
+          name: 'write_email_sequence',
+          input: Object.fromEntries([1, 2, 3, 4, 5, 6, 7].map(slot => [`snippet${slot}`, `Snippet ${slot}`]))
+        }],
+        usage: { input_tokens: 100, output_tokens: 200 }
+      })
+
+      await claudeService.generateContent(emailSequenceTemplate.template, mockLeadData)
+
+      expect(emailSequenceTemplate.template).not.toContain('---BLOCK---')
+      expect(mockCreate).toHaveBeenCalledWith(expect.objectContaining({
+        tool_choice: { type: 'tool', name: 'write_email_sequence' }
+      }), expect.anything())
+    })
+
+    it('should ask Claude to repair a tool call with missing fields', async () => {
+      const partialInput = {
+        snippet1: 'Subject Line',
+        snippet2: 'Email Content',
+        snippet3: 'LinkedIn Message',
+        snippet4: 'Day 5 Bump',
+        snippet5: 'Day 9 Follow-up',
+        snippet6: ''
+      }
+      mockCreate
+        .mockResolvedValueOnce({
+          content: [{ type: 'tool_use', id: 'toolu_1', name: 'write_email_sequence', input: partialInput }],
+          usage: { input_tokens: 100, output_tokens: 150 }
+        })
+        .mockResolvedValueOnce({
+          content: [{
+            type: 'tool_use',
+            id: 'toolu_2',
+            name: 'write_email_sequence',
+            input: { ...partialInput, snippet6: 'Day 13 Bump', snippet7: 'Day 20 Breakup' }
+          }],
+          usage: { input_tokens: 300, output_tokens: 200 }
+        })
+
+      const result = await claudeService.generateContent(mockPrompt, mockLeadData)
+
+      expect(mockCreate).toHaveBeenCalledTimes(2)
+      const repairMessages = mockCreate.mock.calls[1][0].messages
+      expect(repairMessages[repairMessages.length - 1].content[0]).toEqual(expect.objectContaining({
+        type: 'tool_result',
+        tool_use_id: 'toolu_1',
+        is_error: true,
+        content: expect.stringContaining('snippet6, snippet7')
+      }))
+      expect(result.snippet6).toBe('<div>Day 13 Bump</div>')
+      expect(result.snippet7).toBe('<div>Day 20 Breakup</div>')
+    })
+
+    it('should fail once repair attempts are exhausted', async () => {
+      mockCreate.mockResolvedValue({
+        content: [{ type: 'tool_use', id: 'toolu_1', name: 'write_email_sequence', input: { snippet1: 'Subject Line' } }],
+        usage: { input_tokens: 100, output_tokens: 50 }
+      })
+
+      await expect(claudeService.generateContent(mockPrompt, mockLeadData))
+        .rejects.toThrow('Missing required field: snippet2')
+      expect(mockCreate).toHaveBeenCalledTimes(3)
+    })
+
+    it('should keep the block parser for prompts using ---BLOCK--- delimiters', async () => {
+      mockCreate.mockResolvedValue({
+        content: [{
+          type: 'text',
+          text: 'Subject---BLOCK---Email---BLOCK---LinkedIn---BLOCK---Bump1---BLOCK---Bump2---BLOCK---Bump3---BLOCK---Breakup'
+        }],
+        usage: { input_tokens: 100, output_tokens: 200 }
+      })
+
+      const result = await claudeService.generateContent(
+        mockPrompt,
+        mockLeadData,
+        'claude-sonnet-4-20250514',
+        'Separate each block with ---BLOCK---'
+      )
+
+      expect(mockCreate.mock.calls[0][0].tools).toBeUndefined()
+      expect(result.snippet7).toBe('<div>Breakup</div>')
+    })
+
     it('should handle API errors correctly', async () => {
       const apiError = {
         status: 401,
@@ -185,8 +321,8 @@ describe('ClaudeService', () => {
       await claudeService.generateContent(mockPrompt, mockLeadData, 'claude-sonnet-4-20250514', systemPrompt)
 
       expect(mockCreate).toHaveBeenCalledWith(expect.objectContaining({
-        system: systemPrompt
-      }))
+        system: [{ type: 'text', text: systemPrompt, cache_control: { type: 'ephemeral' } }]
+      }), expect.anything())
     })
 
     it('should include file references when provided', async () => {
@@ -209,12 +345,189 @@ describe('ClaudeService', () => {
             content: expect.arrayContaining([
               { type: 'text', text: mockPrompt },
               { type: 'image', source: { type: 'file', file_id: 'file-123' } },
-              { type: 'image', source: { type: 'file', file_id: 'file-456' } }
+              { type: 'image', source: { type: 'file', file_id: 'file-456' }, cache_control: { type: 'ephemeral' } }
             ])
           })
         ])
+      }), expect.anything())
+    })
+
+    it('should send the shared prompt prefix and files ahead of the lead prompt', async () => {
+      mockCreate.mockResolvedValue({
+        content: [{
+          type: 'text',
+          text: 'Subject---BLOCK---Email---BLOCK---LinkedIn---BLOCK---Bump1---BLOCK---Bump2---BLOCK---Bump3---BLOCK---Breakup'
+        }],
+        usage: { input_tokens: 100, output_tokens: 200, cache_read_input_tokens: 1800 }
+      })
+
+      await claudeService.generateContent(
+        { prefix: 'Shared instructions', prompt: mockPrompt },
+        mockLeadData,
+        'claude-sonnet-4-20250514',
+        undefined,
+        ['file-123']
+      )
+
+      const [{ messages }] = mockCreate.mock.calls[0]
+      expect(messages[0].content).toEqual([
+        { type: 'text', text: 'Shared instructions' },
+        { type: 'image', source: { type: 'file', file_id: 'file-123' }, cache_control: { type: 'ephemeral' } },
+        { type: 'text', text: mockPrompt }
+      ])
+    })
+  })
+
+  describe('generateContentStream', () => {
+    const mockLeadData = { email: 'test@example.com', first_name: 'John' }
+    const toolInput = {
+      snippet1: 'Subject Line',
+      snippet2: 'Email Content',
+      snippet3: 'LinkedIn Message',
+      snippet4: 'Day 5 Bump',
+      snippet5: 'Day 9 Follow-up',
+      snippet6: 'Day 13 Bump',
+      snippet7: 'Day 20 Breakup'
+    }
+
+    async function* streamEvents(json: string, chunkSize: number, signal?: AbortController) {
+      yield { type: 'content_block_start', content_block: { type: 'tool_use', id: 'toolu_1' } }
+      for (let i = 0; i < json.length; i += chunkSize) {
+        if (signal && i >= json.length / 2) {
+          signal.abort()
+          throw new Error('Request was aborted.')
+        }
+        yield { type: 'content_block_delta', delta: { type: 'input_json_delta', partial_json: json.slice(i, i + chunkSize) } }
+      }
+    }
+
+    it('should report each snippet as it completes and return the full response', async () => {
+      mockCreate.mockResolvedValue(streamEvents(JSON.stringify(toolInput), 10))
+      const updates: Array<{ field: string; text: string; complete: boolean }> = []
+
+      const result = await claudeService.generateContentStream(
+        'Generate content', mockLeadData, undefined, undefined, undefined, undefined,
+        update => updates.push(update)
+      )
+
+      expect(mockCreate).toHaveBeenCalledWith(expect.objectContaining({ stream: true }), expect.anything())
+      expect(result.partial).toBe(false)
+      expect(result.content.snippet2).toBe('<div>Email Content</div>')
+      expect(updates.filter(update => update.complete).map(update => update.field)).toEqual([
+        'snippet1', 'snippet2', 'snippet3', 'snippet4', 'snippet5', 'snippet6', 'snippet7'
+      ])
+      expect(updates.some(update => !update.complete)).toBe(true)
+    })
+
+    it('should return the partial output when stopped mid-stream', async () => {
+      const controller = new AbortController()
+      mockCreate.mockResolvedValue(streamEvents(JSON.stringify(toolInput), 10, controller))
+
+      const result = await claudeService.generateContentStream(
+        'Generate content', mockLeadData, undefined, undefined, undefined, controller.signal
+      )
+
+      expect(result.partial).toBe(true)
+      expect(result.content.email).toBe('test@example.com')
+      expect(result.content.snippet1).toBe('Subject Line')
+      expect(result.content.snippet7).toBe('')
+    })
+  })
+
+  describe('rewriteSnippet', () => {
+    const request = {
+      field: 'snippet4' as const,
+      instruction: 'shorter',
+      snippets: { snippet1: 'Subject Line', snippet4: '<div>A long bump email</div>' },
+      leadData: { first_name: 'John' }
+    }
+
+    it('should ask for the one snippet and return it in its format', async () => {
+      mockCreate.mockResolvedValue({
+        content: [{ type: 'tool_use', id: 'toolu_1', name: 'rewrite_snippet', input: { snippet4: 'Any thoughts?' } }],
+        usage: { input_tokens: 100, output_tokens: 20 }
+      })
+
+      const text = await claudeService.rewriteSnippet(request)
+
+      expect(text).toBe('<div>Any thoughts?</div>')
+      expect(mockCreate).toHaveBeenCalledWith(expect.objectContaining({
+        tools: [expect.objectContaining({ name: 'rewrite_snippet' })],
+        tool_choice: { type: 'tool', name: 'rewrite_snippet' }
+      }), expect.anything())
+    })
+
+    it('should report the rewrite as a generation run', async () => {
+      mockCreate.mockResolvedValue({
+        content: [{ type: 'tool_use', id: 'toolu_1', name: 'rewrite_snippet', input: { snippet4: 'Any thoughts?' } }],
+        usage: { input_tokens: 100, output_tokens: 20 }
+      })
+      const onRun = vi.fn()
+
+      await claudeService.rewriteSnippet(request, 'claude-sonnet-4-20250514', 'Be brief', undefined, 7, onRun)
+
+      expect(onRun).toHaveBeenCalledWith(expect.objectContaining({
+        operation: 'rewrite',
+        leadId: 7,
+        systemPrompt: 'Be brief',
+        prompt: expect.stringContaining('shorter'),
+        status: 'succeeded',
+        parsed: { snippet4: '<div>Any thoughts?</div>' },
+        usage: expect.objectContaining({ input_tokens: 100, output_tokens: 20 })
       }))
     })
+
+    it('should reject a field that is not in the sequence', async () => {
+      await expect(claudeService.rewriteSnippet({ ...request, field: 'snippet12' })).rejects.toThrow(
+        'snippet12 is not part of the sequence'
+      )
+      expect(mockCreate).not.toHaveBeenCalled()
+    })
+  })
+
+  describe('generateSnippetVariants', () => {
+    const request = {
+      field: 'snippet1' as const,
+      count: 2,
+      snippets: { snippet1: 'Subject Line' },
+      leadData: { first_name: 'John' }
+    }
+
+    it('should return the valid alternatives in the snippet format', async () => {
+      mockCreate.mockResolvedValue({
+        content: [{ type: 'tool_use', id: 'toolu_1', name: 'write_snippet_variants', input: { variants: ['Quick idea, John', ''] } }],
+        usage: { input_tokens: 100, output_tokens: 20 }
+      })
+
+      const variants = await claudeService.generateSnippetVariants(request)
+
+      expect(variants).toEqual(['Quick idea, John'])
+      expect(mockCreate).toHaveBeenCalledWith(expect.objectContaining({
+        tool_choice: { type: 'tool', name: 'write_snippet_variants' }
+      }), expect.anything())
+    })
+
+    it('should report the variants as a generation run', async () => {
+      mockCreate.mockResolvedValue({
+        content: [{ type: 'tool_use', id: 'toolu_1', name: 'write_snippet_variants', input: { variants: ['Quick idea, John'] } }],
+        usage: { input_tokens: 100, output_tokens: 20 }
+      })
+      const onRun = vi.fn()
+
+      await claudeService.generateSnippetVariants(request, undefined, undefined, undefined, 7, onRun)
+
+      expect(onRun).toHaveBeenCalledWith(expect.objectContaining({
+        operation: 'variants',
+        leadId: 7,
+        status: 'succeeded',
+        parsed: { snippet1: ['Quick idea, John'] }
+      }))
+    })
+
+    it('should reject a variant count outside the supported range', async () => {
+      await expect(claudeService.generateSnippetVariants({ ...request, count: 10 })).rejects.toThrow('Ask for 1 to 3 variants')
+      expect(mockCreate).not.toHaveBeenCalled()
+    })
   })
 
   describe('generateContentWithRetry', () => {
@@ -0,0 +1,171 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest'
+import fs from 'fs'
+import os from 'os'
+import path from 'path'
+import { ExportQueueService } from '../../services/exportQueueService'
+import { WoodpeckerApiError } from '../../services/woodpeckerService'
+import type { WoodpeckerService, WoodpeckerProspect } from '../../services/woodpeckerService'
+import { ExportJobsDAL, ImportsDAL, LeadsDAL } from '../../../database/dal'
+import type { ExportJobProgress } from '../../../database/dal'
+import { initializeDatabase, closeDatabase } from '../../../database/init'
+import { setAppDataPath } from '../../../database/config'
+import { dbPool } from '../../../database/utils'
+
+// Mock the logger
+vi.mock('../../utils/logger', () => ({
+  logger: {
+    info: vi.fn(),
+    debug: vi.fn(),
+    warn: vi.fn(),
+    error: vi.fn(),
+  }
+}))
+
+// Keep the settings store (and electron) out of the picture
+vi.mock('../../services/settingsService', () => ({
+  settingsService: {
+    getWoodpeckerApiKey: () => 'test-api-key-123',
+  }
+}))
+
+const mockSendProspectBatch = vi.fn()
+
+describe('ExportQueueService', () => {
+  const testDir = fs.mkdtempSync(path.join(os.tmpdir(), 'export-queue-'))
+  let importId: number
+  let queue: ExportQueueService
+
+  const createQueue = () =>
+    new ExportQueueService(
+      { sendProspectBatch: mockSendProspectBatch } as unknown as WoodpeckerService,
+      { batchSize: 2, batchDelayMs: 0, retryDelayMs: 0 }
+    )
+
+  const createLeads = (count: number) =>
+    Array.from({ length: count }, (_, i) =>
+      LeadsDAL.create({ import_id: importId, email: `lead${i}@test.com`, first_name: 'Test', status: 'approved' })
+    )
+
+  const succeedAll = () =>
+    mockSendProspectBatch.mockImplementation(async (batch: WoodpeckerProspect[]) =>
+      batch.map((prospect, i) => ({ email: prospect.email, success: true, status: 'OK', prospectId: 100 + i }))
+    )
+
+  beforeEach(() => {
+    dbPool.closeAll()
+    setAppDataPath(testDir)
+    for (const suffix of ['', '-shm', '-wal']) {
+      fs.rmSync(path.join(testDir, `leads.db${suffix}`), { force: true })
+    }
+    closeDatabase(initializeDatabase())
+
+    importId = ImportsDAL.create({ filename: 'test.csv', status: 'completed' }).id!
+    mockSendProspectBatch.mockReset()
+    queue = createQueue()
+  })
+
+  afterEach(() => {
+    dbPool.closeAll()
+  })
+
+  it('should send every item in batches and mark leads exported', async () => {
+    succeedAll()
+    const leads = createLeads(3)
+    const updates: ExportJobProgress[] = []
+    queue.onProgress(progress => updates.push(progress))
+
+    const started = queue.startJob({
+      campaignId: 123,
+      items: leads.map(lead => ({ leadId: lead.id!, prospect: { email: lead.email!, first_name: 'Test' } })),
+    })
+    const result = await queue.waitForJob(started.jobId)
+
+    expect(mockSendProspectBatch).toHaveBeenCalledTimes(2)
+    expect(result).toEqual(expect.objectContaining({ status: 'completed', succeeded: 3, failed: 0 }))
+    expect(updates.map(update => update.current)).toEqual([0, 2, 3, 3])
+    expect(LeadsDAL.getById(leads[2].id!)?.status).toBe('exported')
+    expect(LeadsDAL.getById(leads[2].id!)?.woodpecker_campaign_id).toBe('123')
+  })
+
+  it('should resume an interrupted job with only its pending items', async () => {
+    succeedAll()
+    const leads = createLeads(3)
+    const job = ExportJobsDAL.createJob(
+      { campaign_id: 123, batch_size: 2 },
+      leads.map(lead => ({ lead_id: lead.id!, email: lead.email!, prospect: { email: lead.email! } }))
+    )
+    const [first] = ExportJobsDAL.getItems(job.id!)
+
+    // Simulate a crash after the first result was persisted
+    ExportJobsDAL.markRunning(job.id!)
+    ExportJobsDAL.recordBatchResults(job.id!, [{ id: first.id!, status: 'succeeded', api_status: 'OK' }])
+
+    expect(queue.resumeUnfinishedJobs()).toEqual([job.id])
+    const result = await queue.waitForJob(job.id!)
+
+    expect(mockSendProspectBatch).toHaveBeenCalledTimes(1)
+    expect(mockSendProspectBatch.mock.calls[0][0].map((p: WoodpeckerProspect) => p.email)).toEqual(['lead1@test.com', 'lead2@test.com'])
+    expect(result).toEqual(expect.objectContaining({ status: 'completed', succeeded: 3 }))
+  })
+
+  it('should retry transient batch failures', async () => {
+    const leads = createLeads(1)
+    mockSendProspectBatch
+      .mockRejectedValueOnce(new WoodpeckerApiError('Woodpecker API error: HTTP 502', 'network', true))
+      .mockResolvedValueOnce([{ email: 'lead0@test.com', success: true, status: 'OK' }])
+
+    const started = queue.startJob({
+      campaignId: 123,
+      items: [{ leadId: leads[0].id!, prospect: { email: 'lead0@test.com' } }],
+    })
+    const result = await queue.waitForJob(started.jobId)
+
+    expect(mockSendProspectBatch).toHaveBeenCalledTimes(2)
+    expect(result?.succeeded).toBe(1)
+  })
+
+  it('should fail the job on auth errors and keep unsent items pending', async () => {
+    const leads = createLeads(2)
+    mockSendProspectBatch.mockRejectedValueOnce(new WoodpeckerApiError('Woodpecker API error: Invalid API key', 'auth', false))
+
+    const started = queue.startJob({
+      campaignId: 123,
+      items: leads.map(lead => ({ leadId: lead.id!, prospect: { email: lead.email! } })),
+    })
+    const result = await queue.waitForJob(started.jobId)
+
+    expect(result).toEqual(expect.objectContaining({ status: 'failed', current: 0, lastError: 'Woodpecker API error: Invalid API key' }))
+    expect(ExportJobsDAL.getItems(started.jobId, 'pending')).toHaveLength(2)
+    expect(LeadsDAL.getById(leads[0].id!)?.status).toBe('approved')
+
+    succeedAll()
+    queue.resumeJob(started.jobId)
+    expect((await queue.waitForJob(started.jobId))?.status).toBe('completed')
+  })
+
+  it('should cancel a running job and keep unsent items pending', async () => {
+    const leads = createLeads(3)
+    // First batch goes through, the second hangs until the job is cancelled
+    mockSendProspectBatch
+      .mockImplementationOnce(async (batch: WoodpeckerProspect[]) =>
+        batch.map(prospect => ({ email: prospect.email, success: true, status: 'OK' }))
+      )
+      .mockImplementationOnce((_batch, _campaignId, _force, signal: AbortSignal) =>
+        new Promise((_resolve, reject) => {
+          signal.addEventListener('abort', () => reject(new WoodpeckerApiError('Operation cancelled', 'cancelled', false)))
+          queue.cancelJob(started.jobId)
+        })
+      )
+
+    const started = queue.startJob({
+      campaignId: 123,
+      items: leads.map(lead => ({ leadId: lead.id!, prospect: { email: lead.email! } })),
+    })
+    const result = await queue.waitForJob(started.jobId)
+
+    expect(result).toEqual(expect.objectContaining({ status: 'cancelled', succeeded: 2, current: 2 }))
+    expect(ExportJobsDAL.getItems(started.jobId, 'pending')).toHaveLength(1)
+    expect(LeadsDAL.getById(leads[2].id!)?.status).toBe('approved')
+    expect(queue.cancelJob(started.jobId)).toBe(false)
+  })
+})
@@ -0,0 +1,97 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest'
+import { createRateLimiter, parseRetryAfter, RateLimitCancelledError } from '../../services/rateLimiter'
+
+// Mock the logger
+vi.mock('../../utils/logger', () => ({
+  logger: {
+    info: vi.fn(),
+    debug: vi.fn(),
+    warn: vi.fn(),
+    error: vi.fn(),
+  }
+}))
+
+describe('RateLimiter', () => {
+  beforeEach(() => {
+    vi.useFakeTimers()
+    vi.setSystemTime(new Date('2025-01-01T00:00:00Z'))
+  })
+
+  afterEach(() => {
+    vi.useRealTimers()
+  })
+
+  it('should grant requests immediately while tokens are available', async () => {
+    const limiter = createRateLimiter('test', { capacity: 2, refillPerMinute: 60 })
+
+    await limiter.acquire()
+    await limiter.acquire()
+
+    expect(limiter.getQuotaInfo()).toEqual(expect.objectContaining({
+      requestCount: 2,
+      remainingRequests: 0,
+      queueDepth: 0,
+    }))
+  })
+
+  it('should queue callers in order until tokens refill', async () => {
+    const limiter = createRateLimiter('test', { capacity: 1, refillPerMinute: 60 })
+    const order: number[] = []
+
+    await limiter.acquire()
+    const second = limiter.acquire().then(() => order.push(2))
+    const third = limiter.acquire().then(() => order.push(3))
+
+    expect(limiter.getQueueDepth()).toBe(2)
+
+    await vi.advanceTimersByTimeAsync(1000)
+    expect(order).toEqual([2])
+    expect(limiter.getQueueDepth()).toBe(1)
+
+    await vi.advanceTimersByTimeAsync(1000)
+    await Promise.all([second, third])
+    expect(order).toEqual([2, 3])
+  })
+
+  it('should hold every waiter back for a Retry-After pause', async () => {
+    const limiter = createRateLimiter('test', { capacity: 5, refillPerMinute: 600 })
+    let granted = false
+
+    limiter.pauseFor(30000)
+    limiter.acquire().then(() => { granted = true })
+
+    expect(limiter.getQuotaInfo().retryAfterMs).toBe(30000)
+
+    await vi.advanceTimersByTimeAsync(29000)
+    expect(granted).toBe(false)
+
+    await vi.advanceTimersByTimeAsync(1100)
+    expect(granted).toBe(true)
+  })
+
+  it('should drop a cancelled waiter from the queue', async () => {
+    const limiter = createRateLimiter('test', { capacity: 1, refillPerMinute: 60 })
+    const controller = new AbortController()
+
+    await limiter.acquire()
+    const waiting = limiter.acquire(controller.signal)
+    controller.abort()
+
+    await expect(waiting).rejects.toBeInstanceOf(RateLimitCancelledError)
+    expect(limiter.getQueueDepth()).toBe(0)
+  })
+})
+
+describe('parseRetryAfter', () => {
+  it('should parse delays in seconds and HTTP dates', () => {
+    vi.useFakeTimers()
+    vi.setSystemTime(new Date('2025-01-01T00:00:00Z'))
+
+    expect(parseRetryAfter('12')).toBe(12000)
+    expect(parseRetryAfter('Wed, 01 Jan 2025 00:00:05 GMT')).toBe(5000)
+    expect(parseRetryAfter(null)).toBeNull()
+    expect(parseRetryAfter('soon')).toBeNull()
+
+    vi.useRealTimers()
+  })
+})
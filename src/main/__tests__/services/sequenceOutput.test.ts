@@ -0,0 +1,130 @@
+import { describe, it, expect } from 'vitest'
+import {
+  validateSequenceOutput,
+  mergeSequenceOutput,
+  usesLegacyBlockFormat,
+  sequenceOutputTool,
+  buildSequenceOutputTool,
+  buildRewriteTool,
+  buildRewritePrompt,
+  buildVariantsTool,
+  buildVariantsPrompt,
+  readStreamedToolInput,
+  readStreamedBlocks,
+} from '../../services/sequenceOutput'
+import type { SequenceTouchpoint } from '../../../utils/sequenceDefinition'
+
+describe('sequenceOutput', () => {
+  it('should require every snippet in the tool schema', () => {
+    expect(sequenceOutputTool.input_schema.required).toEqual([
+      'snippet1', 'snippet2', 'snippet3', 'snippet4', 'snippet5', 'snippet6', 'snippet7'
+    ])
+  })
+
+  it('should build the tool schema and checks from a custom sequence', () => {
+    const sequence: SequenceTouchpoint[] = [
+      { slot: 2, label: 'Intro', channel: 'email', part: 'body', dayOffset: 0, format: 'html', instructions: 'Intro email' },
+      { slot: 10, label: 'LinkedIn', channel: 'linkedin', part: 'body', dayOffset: 4, format: 'text', instructions: 'Connection note' },
+    ]
+
+    expect(buildSequenceOutputTool(sequence).input_schema.required).toEqual(['snippet2', 'snippet10'])
+
+    const result = validateSequenceOutput({ snippet2: 'Hello', snippet10: 'Worth connecting?' }, sequence)
+    expect(result.missing).toEqual([])
+    expect(result.snippets).toEqual({ snippet2: '<div>Hello</div>', snippet10: 'Worth connecting?' })
+  })
+
+  it('should ask for one snippet when rewriting, with the sequence as context', () => {
+    const sequence: SequenceTouchpoint[] = [
+      { slot: 1, label: 'Subject', channel: 'email', part: 'subject', dayOffset: 1, format: 'text', maxLength: 50, instructions: 'Subject line' },
+      { slot: 2, label: 'Intro', channel: 'email', part: 'body', dayOffset: 1, format: 'html', instructions: 'Intro email' },
+    ]
+
+    const prompt = buildRewritePrompt(
+      sequence[0],
+      'mention their Series B',
+      { snippet1: 'Quick question', snippet2: '<div>Hi John,</div><div>We help teams learn.</div>' },
+      { first_name: 'John', company: 'Acme' },
+      sequence
+    )
+
+    expect(buildRewriteTool(sequence[0]).input_schema.required).toEqual(['snippet1'])
+    expect(prompt).toContain('company: Acme')
+    expect(prompt).toContain('[snippet2] Intro, day 1 email:\nHi John,')
+    expect(prompt).toContain('Rewrite only snippet1 (Subject). Instruction: mention their Series B')
+    expect(prompt).toContain('on a single line and within at most 50 characters')
+  })
+
+  it('should ask for a fixed number of A/B alternatives to one snippet', () => {
+    const touchpoint: SequenceTouchpoint = {
+      slot: 1, label: 'Subject', channel: 'email', part: 'subject', dayOffset: 1, format: 'text', maxLength: 50, instructions: 'Subject line'
+    }
+
+    const tool = buildVariantsTool(touchpoint, 3)
+    const prompt = buildVariantsPrompt(touchpoint, 3, { snippet1: 'Quick question' }, { company: 'Acme' }, [touchpoint], 'lead with a question')
+
+    expect(tool.input_schema.properties.variants).toEqual(expect.objectContaining({ minItems: 3, maxItems: 3 }))
+    expect(prompt).toContain('[snippet1] Subject, day 1 email:\nQuick question')
+    expect(prompt).toContain('Write 3 alternatives to snippet1 (Subject)')
+    expect(prompt).toContain('Instruction: lead with a question')
+  })
+
+  it('should report missing, empty and non-string fields', () => {
+    const result = validateSequenceOutput({
+      snippet1: 'Subject',
+      snippet2: 'Body',
+      snippet3: '   ',
+      snippet4: 42,
+      snippet5: 'Follow-up',
+      snippet6: 'Bump',
+    })
+
+    expect(result.missing).toEqual(['snippet3', 'snippet4', 'snippet7'])
+    expect(result.snippets.snippet1).toBe('Subject')
+    expect(result.snippets.snippet2).toBe('<div>Body</div>')
+  })
+
+  it('should keep valid fields when merging a repaired call', () => {
+    const first = validateSequenceOutput({ snippet1: 'Subject', snippet2: 'Body' })
+    const repaired = validateSequenceOutput({
+      snippet3: 'LinkedIn',
+      snippet4: 'Bump',
+      snippet5: 'Follow-up',
+      snippet6: 'Bump again',
+      snippet7: 'Breakup',
+    })
+
+    const merged = mergeSequenceOutput(first.snippets, repaired)
+
+    expect(merged.missing).toEqual([])
+    expect(merged.snippets.snippet1).toBe('Subject')
+    expect(merged.snippets.snippet7).toBe('<div>Breakup</div>')
+  })
+
+  it('should detect prompts written for the ---BLOCK--- format', () => {
+    expect(usesLegacyBlockFormat('Generate content', 'Separate blocks with ---BLOCK---')).toBe(true)
+    expect(usesLegacyBlockFormat('Generate content', 'Return the sequence')).toBe(false)
+  })
+
+  it('should read complete and in-progress fields from streamed tool JSON', () => {
+    const snippets = readStreamedToolInput('{"snippet1": "Hello \\"there\\"", "snippet2": "Hi John,\\n\\nI sp')
+
+    expect(snippets).toEqual([
+      { field: 'snippet1', text: 'Hello "there"', complete: true },
+      { field: 'snippet2', text: 'Hi John,\n\nI sp', complete: false },
+    ])
+  })
+
+  it('should drop an escape sequence cut off mid-stream', () => {
+    expect(readStreamedToolInput('{"snippet1": "Caf\\u00')).toEqual([
+      { field: 'snippet1', text: 'Caf', complete: false },
+    ])
+  })
+
+  it('should read streamed ---BLOCK--- text in order', () => {
+    expect(readStreamedBlocks('---BLOCK---\nSubject\n---BLOCK---\nHi John')).toEqual([
+      { field: 'snippet1', text: 'Subject', complete: true },
+      { field: 'snippet2', text: 'Hi John', complete: false },
+    ])
+  })
+})
@@ -1,5 +1,5 @@
 import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest'
-import { WoodpeckerService, WoodpeckerApiError, createWoodpeckerService } from '../../services/woodpeckerService'
+import { WoodpeckerService, WoodpeckerApiError, createWoodpeckerService, mapProspectEngagement, buildSnippetCampaignSteps, toSnippetPlaceholder } from '../../services/woodpeckerService'
 import type { WoodpeckerCampaign, WoodpeckerProspect } from '../../services/woodpeckerService'
 
 // Mock the logger
@@ -12,6 +12,26 @@ vi.mock('../../utils/logger', () => ({
   }
 }))
 
+// Mock the database layer used by the engagement sync
+const mockGetExportedCampaignIds = vi.fn()
+const mockGetCampaignLeads = vi.fn()
+const mockUpdateEngagement = vi.fn()
+const mockRecordSync = vi.fn()
+const mockRecordError = vi.fn()
+
+vi.mock('../../../database/dal', () => ({
+  ENGAGEMENT_STATUSES: ['blacklisted', 'bounced', 'interested', 'replied', 'autoreplied', 'opened'],
+  LeadsDAL: {
+    getExportedCampaignIds: (...args: unknown[]) => mockGetExportedCampaignIds(...args),
+    getCampaignLeads: (...args: unknown[]) => mockGetCampaignLeads(...args),
+    updateEngagement: (...args: unknown[]) => mockUpdateEngagement(...args),
+  },
+  CampaignSyncDAL: {
+    recordSync: (...args: unknown[]) => mockRecordSync(...args),
+    recordError: (...args: unknown[]) => mockRecordError(...args),
+  }
+}))
+
 // Mock fetch globally
 const mockFetch = vi.fn()
 global.fetch = mockFetch
@@ -200,6 +220,32 @@ describe('WoodpeckerService', () => {
     })
   })
 
+  describe('rate limit responses', () => {
+    it('should wait out a 429 and retry the request', async () => {
+      mockFetch.mockReset()
+      const limitedService = new WoodpeckerService('test-api-key-123')
+      mockFetch
+        .mockResolvedValueOnce({
+          ok: false,
+          status: 429,
+          statusText: 'Too Many Requests',
+          headers: { get: (name: string) => (name === 'Retry-After' ? '1' : null) },
+          json: async () => ({ status: { msg: 'Too many requests' } }),
+        })
+        .mockResolvedValueOnce({
+          ok: true,
+          status: 200,
+          json: async () => ({ status: { status: 'OK' }, prospects: [] }),
+        })
+
+      const started = Date.now()
+      await limitedService.getCampaignProspects(123)
+
+      expect(mockFetch).toHaveBeenCalledTimes(2)
+      expect(Date.now() - started).toBeGreaterThanOrEqual(900)
+    })
+  })
+
   describe('cache management', () => {
     it('should clear campaign cache', () => {
       service.clearCampaignCache()
@@ -237,6 +283,62 @@ describe('WoodpeckerService', () => {
       expect(result.succeeded).toBe(2)
       expect(result.failed).toBe(0)
     })
+
+    it('should stop sending batches once cancelled', async () => {
+      mockFetch.mockReset()
+      const batchService = new WoodpeckerService('test-api-key-123')
+      const controller = new AbortController()
+      controller.abort()
+
+      const result = await batchService.addProspectsToCampaign(mockProspects, 123, undefined, controller.signal)
+
+      expect(result.status).toBe('cancelled')
+      expect(result.current).toBe(0)
+      expect(mockFetch).not.toHaveBeenCalled()
+    })
+
+    it('should report a request aborted mid-flight as cancelled', async () => {
+      mockFetch.mockReset()
+      const batchService = new WoodpeckerService('test-api-key-123')
+      const controller = new AbortController()
+      mockFetch.mockImplementationOnce(async () => {
+        controller.abort()
+        throw new DOMException('The operation was aborted.', 'AbortError')
+      })
+
+      const result = await batchService.addProspectsToCampaign(mockProspects, 123, undefined, controller.signal)
+
+      expect(result.status).toBe('cancelled')
+      expect(result.failed).toBe(0)
+    })
+  })
+
+  describe('sendProspectBatch', () => {
+    it('should return one result per prospect in the order sent', async () => {
+      mockFetch.mockReset()
+      const batchService = new WoodpeckerService('test-api-key-123')
+      mockFetch.mockResolvedValueOnce({
+        ok: true,
+        json: async () => ({
+          status: { code: 'OK', msg: '' },
+          prospects: [
+            { email: 'b@test.com', status: 'ERROR', msg: 'Invalid email' },
+            { email: 'A@test.com', status: 'OK', id: 42 },
+          ],
+        }),
+      })
+
+      const results = await batchService.sendProspectBatch(
+        [{ email: 'a@test.com' }, { email: 'b@test.com' }, { email: 'c@test.com' }],
+        1
+      )
+
+      expect(results).toEqual([
+        { email: 'a@test.com', success: true, status: 'OK', prospectId: 42 },
+        { email: 'b@test.com', success: false, status: 'ERROR', prospectId: undefined, error: 'Invalid email' },
+        { email: 'c@test.com', success: false, error: 'API response missing prospect' },
+      ])
+    })
   })
 
   describe('checkDuplicateProspects', () => {
@@ -247,4 +349,186 @@ describe('WoodpeckerService', () => {
       expect(duplicates).toEqual([])
     })
   })
+
+  describe('mapProspectEngagement', () => {
+    it('should return null when nothing happened', () => {
+      expect(mapProspectEngagement({ id: 1, email: 'a@test.com', status: 'ACTIVE', interested: 'NOT_MARKED' })).toBeNull()
+    })
+
+    it('should map Woodpecker prospect statuses', () => {
+      expect(mapProspectEngagement({ id: 1, email: 'a@test.com', status: 'BLACKLIST' })).toBe('blacklisted')
+      expect(mapProspectEngagement({ id: 1, email: 'a@test.com', status: 'BOUNCED' })).toBe('bounced')
+      expect(mapProspectEngagement({ id: 1, email: 'a@test.com', status: 'REPLIED' })).toBe('replied')
+      expect(mapProspectEngagement({ id: 1, email: 'a@test.com', status: 'AUTOREPLIED' })).toBe('autoreplied')
+      expect(mapProspectEngagement({ id: 1, email: 'a@test.com', status: 'ACTIVE', last_opened: '2024-01-01' })).toBe('opened')
+    })
+
+    it('should prefer the most significant state', () => {
+      expect(mapProspectEngagement({
+        id: 1,
+        email: 'a@test.com',
+        status: 'REPLIED',
+        interested: 'INTERESTED',
+        opened: true
+      })).toBe('interested')
+    })
+  })
+
+  describe('syncProspectEngagement', () => {
+    let syncService: WoodpeckerService
+
+    beforeEach(() => {
+      mockFetch.mockReset()
+      syncService = new WoodpeckerService('test-api-key-123')
+    })
+
+    it('should update leads in every exported campaign and record the sync', async () => {
+      mockGetExportedCampaignIds.mockReturnValue(['123'])
+      mockGetCampaignLeads.mockReturnValue([
+        { id: 1, email: 'A@test.com', status: 'exported' },
+        { id: 2, email: 'b@test.com', status: 'deleted' },
+        { id: 3, email: 'c@test.com', status: 'exported' },
+      ])
+      mockFetch.mockResolvedValueOnce({
+        ok: true,
+        json: async () => [
+          { id: 10, email: 'a@test.com', status: 'REPLIED' },
+          { id: 11, email: 'b@test.com', status: 'BOUNCED' },
+          { id: 12, email: 'c@test.com', status: 'ACTIVE' },
+        ],
+      })
+
+      const summary = await syncService.syncProspectEngagement()
+
+      expect(mockFetch).toHaveBeenCalledWith(
+        'https://api.woodpecker.co/rest/v1/prospects?campaigns_id=123&page=1&per_page=500',
+        expect.any(Object)
+      )
+      expect(mockUpdateEngagement).toHaveBeenCalledWith(1, expect.objectContaining({ status: 'replied', woodpecker_prospect_id: 10 }))
+      expect(mockUpdateEngagement).toHaveBeenCalledWith(3, expect.objectContaining({ status: 'exported' }))
+      expect(mockUpdateEngagement).not.toHaveBeenCalledWith(2, expect.anything())
+      expect(mockRecordSync).toHaveBeenCalledWith('123', expect.objectContaining({ prospectsSeen: 3, leadsUpdated: 1 }))
+      expect(summary.leadsUpdated).toBe(1)
+      expect(summary.failedCampaigns).toBe(0)
+    })
+
+    it('should skip prospects without an email', async () => {
+      mockGetCampaignLeads.mockReturnValue([{ id: 1, email: 'a@test.com', status: 'exported' }])
+      mockFetch.mockResolvedValueOnce({
+        ok: true,
+        json: async () => [
+          { id: 9, status: 'ACTIVE' },
+          { id: 10, email: 'a@test.com', status: 'REPLIED' },
+        ],
+      })
+
+      const summary = await syncService.syncProspectEngagement(['123'])
+
+      expect(mockUpdateEngagement).toHaveBeenCalledWith(1, expect.objectContaining({ status: 'replied' }))
+      expect(mockRecordSync).toHaveBeenCalledWith('123', expect.objectContaining({ prospectsSeen: 2, leadsUpdated: 1 }))
+      expect(summary.failedCampaigns).toBe(0)
+    })
+
+    it('should record failures per campaign and continue', async () => {
+      mockGetCampaignLeads.mockReturnValue([])
+      mockFetch
+        .mockResolvedValueOnce({ ok: false, status: 500, json: async () => ({ status: { msg: 'Server error' } }) })
+        .mockResolvedValueOnce({ ok: true, json: async () => [] })
+
+      const summary = await syncService.syncProspectEngagement(['1', '2'])
+
+      expect(mockRecordError).toHaveBeenCalledWith('1', expect.stringContaining('Server error'))
+      expect(mockRecordSync).toHaveBeenCalledWith('2', expect.objectContaining({ prospectsSeen: 0 }))
+      expect(summary.failedCampaigns).toBe(1)
+    })
+  })
+
+  describe('snippet campaign steps', () => {
+    it('should map snippet fields to Woodpecker placeholders', () => {
+      expect(toSnippetPlaceholder('snippet2')).toBe('{{SNIPPET_2}}')
+      expect(() => toSnippetPlaceholder('first_name')).toThrow(WoodpeckerApiError)
+    })
+
+    it('should build the default Day 1/3/7/12/17/25 sequence', () => {
+      const steps = buildSnippetCampaignSteps()
+
+      expect(steps.map(step => step.day)).toEqual([1, 3, 7, 12, 17, 25])
+      expect(steps[0]).toEqual({ day: 1, channel: 'email', subject: '{{SNIPPET_1}}', body: '{{SNIPPET_2}}' })
+      expect(steps[1]).toEqual({ day: 3, channel: 'linkedin', body: '{{SNIPPET_3}}' })
+      expect(steps[5].body).toBe('{{SNIPPET_7}}')
+    })
+  })
+
+  describe('createCampaign', () => {
+    let createService: WoodpeckerService
+
+    beforeEach(() => {
+      mockFetch.mockReset()
+      createService = new WoodpeckerService('test-api-key-123')
+    })
+
+    it('should post a nested step tree to the v2 campaigns endpoint', async () => {
+      mockFetch.mockResolvedValueOnce({
+        ok: true,
+        json: async () => ({ id: 555, name: 'Spring outreach', status: 'DRAFT' }),
+      })
+
+      const campaign = await createService.createCampaign({ name: '  Spring outreach ' })
+
+      expect(mockFetch).toHaveBeenCalledWith(
+        'https://api.woodpecker.co/rest/v2/campaigns',
+        expect.objectContaining({ method: 'POST' })
+      )
+      const body = JSON.parse(mockFetch.mock.calls[0][1].body)
+      expect(body.name).toBe('Spring outreach')
+      expect(body.steps.type).toBe('START')
+
+      const first = body.steps.followup
+      expect(first.delay).toBe(0)
+      expect(first.step.type).toBe('EMAIL')
+      expect(first.step.body.versions[0]).toEqual({ subject: '{{SNIPPET_1}}', message: '{{SNIPPET_2}}' })
+
+      const second = first.step.followup
+      expect(second.delay).toBe(2)
+      expect(second.step.type).toBe('LINKEDIN_SEND_MESSAGE')
+      expect(second.step.followup.delay).toBe(4)
+
+      expect(campaign).toEqual(expect.objectContaining({ campaign_id: 555, status: 'DRAFT', prospects_count: 0 }))
+    })
+
+    it('should send an A/B tested step with one version per variant', async () => {
+      mockFetch.mockResolvedValueOnce({
+        ok: true,
+        json: async () => ({ id: 556, name: 'A/B outreach' }),
+      })
+
+      await createService.createCampaign({
+        name: 'A/B outreach',
+        steps: [{
+          day: 1,
+          channel: 'email',
+          subject: '{{SNIPPET_1}}',
+          body: '{{SNIPPET_2}}',
+          variant: { subject: '{{SNIPPET_8}}', body: '{{SNIPPET_2}}' },
+        }],
+      })
+
+      const body = JSON.parse(mockFetch.mock.calls[0][1].body)
+      expect(body.steps.followup.step.body.versions).toEqual([
+        { subject: '{{SNIPPET_1}}', message: '{{SNIPPET_2}}' },
+        { subject: '{{SNIPPET_8}}', message: '{{SNIPPET_2}}' },
+      ])
+    })
+
+    it('should reject steps that are out of order without calling the API', async () => {
+      await expect(createService.createCampaign({
+        name: 'Bad',
+        steps: [
+          { day: 3, channel: 'email', subject: '{{SNIPPET_1}}', body: '{{SNIPPET_2}}' },
+          { day: 1, channel: 'email', body: '{{SNIPPET_4}}' },
+        ],
+      })).rejects.toThrow('increasing day order')
+      expect(mockFetch).not.toHaveBeenCalled()
+    })
+  })
 })
@@ -0,0 +1,66 @@
+import { ipcMain } from 'electron';
+import { CaseStudiesDAL } from '../../database/dal';
+import { handleIpcError, createSuccessResponse, validateInput } from './utils';
+import type { CaseStudyInput } from '../../database/dal';
+
+function validateCaseStudy(input: Partial<CaseStudyInput>): void {
+  if (input.customer !== undefined && !input.customer.trim()) {
+    throw new Error('Customer cannot be empty');
+  }
+  if (input.wording !== undefined && !input.wording.trim()) {
+    throw new Error('Approved wording cannot be empty');
+  }
+}
+
+/**
+ * Setup IPC handlers for the case-study library behind peer proof claims
+ */
+export function setupCaseStudiesHandlers(): void {
+  ipcMain.handle('ipc:caseStudies:getAll', async (_, includeInactive?: boolean) => {
+    try {
+      return createSuccessResponse(CaseStudiesDAL.getAll(includeInactive === true));
+    } catch (error) {
+      return handleIpcError(error, 'caseStudies:getAll');
+    }
+  });
+
+  // Active proof points offered to the prompt for a lead's industry
+  ipcMain.handle('ipc:caseStudies:getForIndustry', async (_, industry?: string | null) => {
+    try {
+      return createSuccessResponse(CaseStudiesDAL.getForIndustry(industry));
+    } catch (error) {
+      return handleIpcError(error, 'caseStudies:getForIndustry');
+    }
+  });
+
+  ipcMain.handle('ipc:caseStudies:create', async (_, input: CaseStudyInput) => {
+    try {
+      validateInput(input, ['customer', 'wording']);
+      validateCaseStudy(input);
+      return createSuccessResponse(CaseStudiesDAL.create(input));
+    } catch (error) {
+      return handleIpcError(error, 'caseStudies:create');
+    }
+  });
+
+  ipcMain.handle('ipc:caseStudies:update', async (_, id: number, updates: Partial<CaseStudyInput>) => {
+    try {
+      validateInput({ id }, ['id']);
+      validateCaseStudy(updates);
+      return createSuccessResponse(CaseStudiesDAL.update(id, updates));
+    } catch (error) {
+      return handleIpcError(error, 'caseStudies:update');
+    }
+  });
+
+  ipcMain.handle('ipc:caseStudies:delete', async (_, id: number) => {
+    try {
+      validateInput({ id }, ['id']);
+      return createSuccessResponse(CaseStudiesDAL.delete(id));
+    } catch (error) {
+      return handleIpcError(error, 'caseStudies:delete');
+    }
+  });
+
+  console.log('Case Studies IPC handlers setup complete');
+}
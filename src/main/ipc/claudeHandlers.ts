@@ -1,8 +1,28 @@
 import { ipcMain } from 'electron'
 import { ClaudeService, createClaudeService, ClaudeApiError } from '../services/claudeService'
-import type { ClaudeResponse } from '../services/claudeService'
+import type {
+  ClaudeResponse,
+  ClaudeStreamResult,
+  GenerationPrompt,
+  GenerationRunReport,
+  SnippetRewriteRequest,
+  SnippetVariantsRequest,
+  UsageReport,
+} from '../services/claudeService'
+import { BatchGenerationService, createBatchGenerationService, estimateBatchCost } from '../services/batchGenerationService'
+import type { BatchGenerationItemInput } from '../services/batchGenerationService'
+import { resolveSequence } from '../../utils/sequenceDefinition'
+import type { SequenceTouchpoint } from '../../utils/sequenceDefinition'
+import type { SnippetField, StreamedSnippet } from '../services/sequenceOutput'
 import { handleIpcError, createSuccessResponse, logIpcOperation, validateInput, sanitizeInput } from './utils'
+import { createProgressReporter, createOperationId, sendProgress } from './progress'
+import type { OperationStatus } from './progress'
+import { registerCancellable, startCancellableOperation } from './operations'
+import { createBudgetService } from '../services/budgetService'
 import { logger } from '../utils/logger'
+import { calculateUsageCost } from '../../utils/tokenCounter'
+import { GenerationRunsDAL, GenerationUsageDAL } from '../../database/dal'
+import type { GenerationBatchProgress } from '../../database/dal'
 
 // Claude service instance
 let claudeService: ClaudeService | null = null
@@ -12,6 +32,7 @@ function initializeClaudeService(): ClaudeService {
   if (!claudeService) {
     try {
       claudeService = createClaudeService()
+      claudeService.onUsage(recordGenerationUsage)
       logger.info('ClaudeHandlers', 'Claude service initialized successfully')
     } catch (error) {
       logger.error('ClaudeHandlers', 'Failed to initialize Claude service', error instanceof Error ? error : new Error(String(error)))
@@ -21,14 +42,196 @@ function initializeClaudeService(): ClaudeService {
   return claudeService
 }
 
+// Ledger every call's actual token usage; a failed write must not fail the generation
+function recordGenerationUsage(report: UsageReport): void {
+  try {
+    GenerationUsageDAL.record({
+      lead_id: report.leadId ?? null,
+      model_id: report.modelId,
+      operation: report.operation,
+      input_tokens: report.usage.input_tokens,
+      output_tokens: report.usage.output_tokens,
+      cache_creation_input_tokens: report.usage.cache_creation_input_tokens || 0,
+      cache_read_input_tokens: report.usage.cache_read_input_tokens || 0,
+      cost_usd: calculateUsageCost(report.usage, report.modelId, { batch: report.operation === 'batch' }),
+    })
+  } catch (error) {
+    logger.error('ClaudeHandlers', 'Failed to record generation usage', error instanceof Error ? error : new Error(String(error)))
+  }
+}
+
+/**
+ * Keep the prompt, request and raw response of a generation call for the
+ * lead's generation details. Returns the run id, or undefined when the write
+ * failed; as with usage, that must not fail the generation.
+ */
+function recordGenerationRun(run: GenerationRunReport): number | undefined {
+  try {
+    return GenerationRunsDAL.record({
+      lead_id: run.leadId ?? null,
+      operation: run.operation,
+      model_id: run.modelId,
+      prompt: run.prompt,
+      prompt_prefix: run.promptPrefix,
+      system_prompt: run.systemPrompt,
+      file_ids: run.fileIds,
+      request: run.request,
+      raw_response: run.responses,
+      parsed_output: run.parsed,
+      status: run.status,
+      error: run.error,
+      input_tokens: run.usage?.input_tokens,
+      output_tokens: run.usage?.output_tokens,
+      cache_creation_input_tokens: run.usage?.cache_creation_input_tokens || 0,
+      cache_read_input_tokens: run.usage?.cache_read_input_tokens || 0,
+      duration_ms: run.durationMs,
+    }).id
+  } catch (error) {
+    logger.error('ClaudeHandlers', 'Failed to record generation run', error instanceof Error ? error : new Error(String(error)))
+    return undefined
+  }
+}
+
+// Batch generation instance; progress is broadcast to every open window
+let batchGenerationService: BatchGenerationService | null = null
+
+// Spend caps every batch is checked against before it is submitted
+const budgetService = createBudgetService()
+
+// Release functions for batches currently cancellable via ipc:operations:cancel
+const batchCancellations = new Map<number, () => void>()
+
+const GENERATION_BATCH_OPERATION_STATUS: Record<GenerationBatchProgress['status'], OperationStatus> = {
+  pending: 'running',
+  running: 'running',
+  completed: 'completed',
+  failed: 'failed',
+  cancelled: 'cancelled',
+}
+
+// Batches outlive the request that started them, so their operation id is derived from the batch id
+export function getGenerationBatchOperationId(batchId: number): string {
+  return `claude:batch:${batchId}`
+}
+
+function initializeBatchGeneration(): BatchGenerationService {
+  if (!batchGenerationService) {
+    batchGenerationService = createBatchGenerationService(initializeClaudeService(), { recordRun: recordGenerationRun })
+    batchGenerationService.onProgress((progress: GenerationBatchProgress) => {
+      trackBatchCancellation(progress)
+      sendProgress({
+        operationId: getGenerationBatchOperationId(progress.batchId),
+        operation: 'claude:batch',
+        status: GENERATION_BATCH_OPERATION_STATUS[progress.status],
+        current: progress.current,
+        total: progress.total,
+        message: progress.lastError || undefined,
+        data: progress,
+      })
+    })
+    logger.info('ClaudeHandlers', 'Batch generation initialized successfully')
+  }
+  return batchGenerationService
+}
+
+function trackBatchCancellation(progress: GenerationBatchProgress): void {
+  const active = progress.status === 'pending' || progress.status === 'running'
+
+  if (active && !batchCancellations.has(progress.batchId)) {
+    const release = registerCancellable(getGenerationBatchOperationId(progress.batchId), () => {
+      batchGenerationService?.cancelBatch(progress.batchId)
+    })
+    batchCancellations.set(progress.batchId, release)
+  } else if (!active) {
+    batchCancellations.get(progress.batchId)?.()
+    batchCancellations.delete(progress.batchId)
+  }
+}
+
+/**
+ * Resume polling generation batches submitted before the last shutdown. Call
+ * once the database is ready; failures (e.g. no API key) are logged rather
+ * than blocking startup.
+ */
+export function resumeGenerationBatches(): number[] {
+  try {
+    const resumed = initializeBatchGeneration().resumeUnfinishedBatches()
+    if (resumed.length > 0) {
+      logger.info('ClaudeHandlers', `Resumed ${resumed.length} unfinished generation batch(es)`)
+    }
+    return resumed
+  } catch (error) {
+    logger.error('ClaudeHandlers', 'Failed to resume generation batches', error instanceof Error ? error : new Error(String(error)))
+    return []
+  }
+}
+
 // Request interface for content generation
 export interface ClaudeGenerateContentRequest {
   prompt: string
+  promptPrefix?: string // instructions shared by every lead; sent first and cached
+  sequence?: SequenceTouchpoint[] // touchpoints to write; the default sequence when omitted
   leadData: Record<string, unknown>
   modelId?: string
   systemPrompt?: string
   fileIds?: string[]
   maxRetries?: number
+  leadId?: number // usage is recorded against this lead
+  operationId?: string // lets the renderer cancel the request via ipc:operations:cancel
+}
+
+// Request interface for rewriting a single snippet
+export interface ClaudeRewriteSnippetRequest extends SnippetRewriteRequest {
+  modelId?: string
+  systemPrompt?: string
+  leadId?: number // usage is recorded against this lead
+  operationId?: string // lets the renderer cancel the request via ipc:operations:cancel
+}
+
+// Request interface for A/B alternatives to a single snippet
+export interface ClaudeSnippetVariantsRequest extends SnippetVariantsRequest {
+  modelId?: string
+  systemPrompt?: string
+  leadId?: number
+  operationId?: string
+}
+
+// Request interface for bulk content generation
+export interface ClaudeGenerateBulkRequest {
+  items: Array<ClaudeGenerateContentRequest & { id?: string | number }>
+  operationId?: string // progress is reported on the shared progress channel under this id
+}
+
+// Generated content with the generation run it was recorded as
+export type ClaudeGeneratedContent = ClaudeResponse & { generationRunId?: number }
+export type ClaudeGeneratedStream = ClaudeStreamResult & { generationRunId?: number }
+
+// A rewritten snippet and its A/B alternatives, with the run that wrote them
+export interface ClaudeRewrittenSnippet {
+  field: SnippetField
+  text: string
+  generationRunId?: number
+}
+
+export interface ClaudeSnippetVariants {
+  field: SnippetField
+  variants: string[]
+  generationRunId?: number
+}
+
+// Per-item outcome of a bulk generation; one failure does not stop the rest
+export interface ClaudeBulkGenerationResult {
+  id?: string | number
+  success: boolean
+  data?: ClaudeResponse
+  error?: string
+  generationRunId?: number
+}
+
+// Request interface for starting a Message Batch generation
+export interface ClaudeStartBatchRequest {
+  modelId?: string
+  items: BatchGenerationItemInput[]
 }
 
 // Response interface for file upload
@@ -38,6 +241,13 @@ export interface ClaudeFileUploadRequest {
   mimeType: string
 }
 
+// Keep the shared instructions apart so ClaudeService can cache them
+function toGenerationPrompt(request: ClaudeGenerateContentRequest): GenerationPrompt {
+  return request.promptPrefix || request.sequence
+    ? { prefix: request.promptPrefix || '', prompt: request.prompt, sequence: request.sequence }
+    : request.prompt
+}
+
 /**
  * Setup Claude-related IPC handlers
  */
@@ -54,6 +264,8 @@ export function setupClaudeHandlers(): void {
       maxRetries: request.maxRetries
     })
 
+    const operation = startCancellableOperation(request?.operationId || createOperationId('claude:generateContent'))
+
     try {
       // Validate required fields
       validateInput(request, ['prompt', 'leadData'])
@@ -95,13 +307,18 @@ export function setupClaudeHandlers(): void {
       console.log('🔧 [DEBUG] Final prompt to Claude service:', sanitizedRequest.prompt.length, 'chars')
       console.log('🔧 [DEBUG] Final systemPrompt to Claude service:', sanitizedRequest.systemPrompt?.length || 0, 'chars')
 
+      // Each attempt is recorded; the content comes from the last one
+      let generationRunId: number | undefined
       const result = await service.generateContentWithRetry(
-        sanitizedRequest.prompt,
+        toGenerationPrompt(sanitizedRequest),
         sanitizedRequest.leadData,
         sanitizedRequest.maxRetries || 3,
         sanitizedRequest.modelId,
         sanitizedRequest.systemPrompt,
-        sanitizedRequest.fileIds
+        sanitizedRequest.fileIds,
+        operation.signal,
+        sanitizedRequest.leadId,
+        run => { generationRunId = recordGenerationRun(run) }
       )
 
       console.log('🔧 [DEBUG - ClaudeHandlers] Claude service returned result:')
@@ -109,11 +326,347 @@ export function setupClaudeHandlers(): void {
       console.log('🔧 [DEBUG] Result snippet1 preview:', result.snippet1?.substring(0, 100) || 'None')
 
       logger.info('ClaudeHandlers', 'Content generation completed successfully')
-      return createSuccessResponse(result)
+      return createSuccessResponse<ClaudeGeneratedContent>({ ...result, generationRunId })
 
     } catch (error) {
       logger.error('ClaudeHandlers', 'Content generation failed', error instanceof Error ? error : new Error(String(error)))
       return handleIpcError(error, 'claude:generateContent')
+    } finally {
+      operation.release()
+    }
+  })
+
+  // Streaming generate content handler - snippet updates go out on the shared progress channel
+  ipcMain.handle('ipc:claude:generateContentStream', async (event, request: ClaudeGenerateContentRequest) => {
+    logIpcOperation('claude:generateContentStream', {
+      promptLength: request?.prompt?.length,
+      modelId: request?.modelId,
+      hasSystemPrompt: !!request?.systemPrompt,
+      fileCount: request?.fileIds?.length || 0,
+      operationId: request?.operationId
+    })
+
+    const progress = createProgressReporter<StreamedSnippet>('claude:generateContentStream', {
+      operationId: request?.operationId,
+      target: event.sender
+    })
+    const operation = startCancellableOperation(progress.operationId)
+
+    try {
+      // Validate required fields
+      validateInput(request, ['prompt', 'leadData'])
+
+      // Sanitize input
+      const sanitizedRequest = sanitizeInput(request) as ClaudeGenerateContentRequest
+
+      if (!sanitizedRequest.prompt || sanitizedRequest.prompt.trim().length === 0) {
+        throw new Error('Prompt cannot be empty')
+      }
+      if (sanitizedRequest.prompt.length > 100000) {
+        throw new Error('Prompt is too long (max 100,000 characters)')
+      }
+      if (!sanitizedRequest.leadData || typeof sanitizedRequest.leadData !== 'object') {
+        throw new Error('Lead data must be a valid object')
+      }
+
+      // Initialize Claude service
+      const service = initializeClaudeService()
+
+      const total = resolveSequence(sanitizedRequest.sequence).length
+      const completed = new Set<string>()
+      progress.update(0, total)
+
+      let generationRunId: number | undefined
+      const result = await service.generateContentStream(
+        toGenerationPrompt(sanitizedRequest),
+        sanitizedRequest.leadData,
+        sanitizedRequest.modelId,
+        sanitizedRequest.systemPrompt,
+        sanitizedRequest.fileIds,
+        operation.signal,
+        update => {
+          if (update.complete) completed.add(update.field)
+          progress.update(completed.size, total, undefined, update)
+        },
+        sanitizedRequest.leadId,
+        run => { generationRunId = recordGenerationRun(run) }
+      )
+
+      if (result.partial) {
+        progress.cancel(`Stopped after ${completed.size} of ${total} snippets`)
+        logger.info('ClaudeHandlers', `Streaming generation stopped after ${completed.size} of ${total} snippets`)
+      } else {
+        progress.complete()
+        logger.info('ClaudeHandlers', 'Streaming generation completed successfully')
+      }
+      return createSuccessResponse<ClaudeGeneratedStream>({ ...result, generationRunId })
+
+    } catch (error) {
+      if (error instanceof ClaudeApiError && error.category === 'cancelled') {
+        progress.cancel()
+      } else {
+        progress.fail(error instanceof Error ? error.message : String(error))
+      }
+      logger.error('ClaudeHandlers', 'Streaming generation failed', error instanceof Error ? error : new Error(String(error)))
+      return handleIpcError(error, 'claude:generateContentStream')
+    } finally {
+      operation.release()
+    }
+  })
+
+  // Rewrite one snippet of an existing sequence; the other snippets are sent as context only
+  ipcMain.handle('ipc:claude:rewriteSnippet', async (_, request: ClaudeRewriteSnippetRequest) => {
+    logIpcOperation('claude:rewriteSnippet', {
+      field: request?.field,
+      modelId: request?.modelId,
+      leadId: request?.leadId
+    })
+
+    const operation = startCancellableOperation(request?.operationId || createOperationId('claude:rewriteSnippet'))
+
+    try {
+      validateInput(request, ['field', 'instruction', 'snippets', 'leadData'])
+
+      const sanitizedRequest = sanitizeInput(request) as ClaudeRewriteSnippetRequest
+      if (!sanitizedRequest.instruction) {
+        throw new Error('Rewrite instruction cannot be empty')
+      }
+
+      let generationRunId: number | undefined
+      const text = await initializeClaudeService().rewriteSnippet(
+        sanitizedRequest,
+        sanitizedRequest.modelId,
+        sanitizedRequest.systemPrompt,
+        operation.signal,
+        sanitizedRequest.leadId,
+        run => { generationRunId = recordGenerationRun(run) }
+      )
+
+      logger.info('ClaudeHandlers', `Rewrote ${sanitizedRequest.field}`)
+      return createSuccessResponse<ClaudeRewrittenSnippet>({ field: sanitizedRequest.field, text, generationRunId })
+    } catch (error) {
+      logger.error('ClaudeHandlers', 'Snippet rewrite failed', error instanceof Error ? error : new Error(String(error)))
+      return handleIpcError(error, 'claude:rewriteSnippet')
+    } finally {
+      operation.release()
+    }
+  })
+
+  // Alternatives to one snippet for an A/B test; storing them is left to the renderer
+  ipcMain.handle('ipc:claude:generateVariants', async (_, request: ClaudeSnippetVariantsRequest) => {
+    logIpcOperation('claude:generateVariants', {
+      field: request?.field,
+      count: request?.count,
+      modelId: request?.modelId,
+      leadId: request?.leadId
+    })
+
+    const operation = startCancellableOperation(request?.operationId || createOperationId('claude:generateVariants'))
+
+    try {
+      validateInput(request, ['field', 'count', 'snippets', 'leadData'])
+
+      const sanitizedRequest = sanitizeInput(request) as ClaudeSnippetVariantsRequest
+      let generationRunId: number | undefined
+      const variants = await initializeClaudeService().generateSnippetVariants(
+        sanitizedRequest,
+        sanitizedRequest.modelId,
+        sanitizedRequest.systemPrompt,
+        operation.signal,
+        sanitizedRequest.leadId,
+        run => { generationRunId = recordGenerationRun(run) }
+      )
+
+      logger.info('ClaudeHandlers', `Wrote ${variants.length} variant(s) of ${sanitizedRequest.field}`)
+      return createSuccessResponse<ClaudeSnippetVariants>({ field: sanitizedRequest.field, variants, generationRunId })
+    } catch (error) {
+      logger.error('ClaudeHandlers', 'Snippet variant generation failed', error instanceof Error ? error : new Error(String(error)))
+      return handleIpcError(error, 'claude:generateVariants')
+    } finally {
+      operation.release()
+    }
+  })
+
+  // Bulk generate content handler
+  ipcMain.handle('ipc:claude:generateBulk', async (event, request: ClaudeGenerateBulkRequest) => {
+    logIpcOperation('claude:generateBulk', {
+      itemCount: request?.items?.length,
+      operationId: request?.operationId
+    })
+
+    const progress = createProgressReporter<ClaudeBulkGenerationResult>('claude:generateBulk', {
+      operationId: request?.operationId,
+      target: event.sender
+    })
+    const operation = startCancellableOperation(progress.operationId)
+
+    try {
+      // Validate required fields
+      validateInput(request, ['items'])
+
+      // Sanitize input
+      const sanitizedRequest = sanitizeInput(request) as ClaudeGenerateBulkRequest
+
+      if (!Array.isArray(sanitizedRequest.items) || sanitizedRequest.items.length === 0) {
+        throw new Error('Items must be a non-empty array')
+      }
+
+      for (const item of sanitizedRequest.items) {
+        if (!item.prompt || item.prompt.trim().length === 0) {
+          throw new Error('Prompt cannot be empty')
+        }
+        if (item.prompt.length > 100000) {
+          throw new Error('Prompt is too long (max 100,000 characters)')
+        }
+        if (!item.leadData || typeof item.leadData !== 'object') {
+          throw new Error('Lead data must be a valid object')
+        }
+      }
+
+      // Initialize Claude service
+      const service = initializeClaudeService()
+
+      const total = sanitizedRequest.items.length
+      const results: ClaudeBulkGenerationResult[] = []
+      progress.update(0, total)
+
+      for (const [index, item] of sanitizedRequest.items.entries()) {
+        // Items not started yet are left out of the results
+        if (operation.signal.aborted) {
+          progress.cancel(`Cancelled after ${index} of ${total}`)
+          logger.info('ClaudeHandlers', `Bulk generation cancelled after ${index} of ${total} items`)
+          return createSuccessResponse(results)
+        }
+
+        let result: ClaudeBulkGenerationResult
+        let generationRunId: number | undefined
+        try {
+          const data = await service.generateContentWithRetry(
+            toGenerationPrompt(item),
+            item.leadData,
+            item.maxRetries || 3,
+            item.modelId,
+            item.systemPrompt,
+            item.fileIds,
+            operation.signal,
+            item.leadId,
+            run => { generationRunId = recordGenerationRun(run) }
+          )
+          result = { id: item.id, success: true, data, generationRunId }
+        } catch (error) {
+          logger.warn('ClaudeHandlers', `Bulk generation failed for item ${item.id ?? index}`, error instanceof Error ? error : new Error(String(error)))
+          result = { id: item.id, success: false, error: error instanceof Error ? error.message : String(error), generationRunId }
+        }
+
+        results.push(result)
+        progress.update(index + 1, total, `Generated ${index + 1} of ${total}`, result)
+      }
+
+      const failed = results.filter(result => !result.success).length
+      progress.complete(`${total - failed} generated, ${failed} failed`)
+
+      logger.info('ClaudeHandlers', `Bulk generation completed: ${total - failed} succeeded, ${failed} failed`)
+      return createSuccessResponse(results)
+
+    } catch (error) {
+      progress.fail(error instanceof Error ? error.message : String(error))
+      logger.error('ClaudeHandlers', 'Bulk generation failed', error instanceof Error ? error : new Error(String(error)))
+      return handleIpcError(error, 'claude:generateBulk')
+    } finally {
+      operation.release()
+    }
+  })
+
+  // Start Message Batch generation handler; progress is broadcast under claude:batch:<id>
+  ipcMain.handle('ipc:claude:startBatch', async (_event, request: ClaudeStartBatchRequest) => {
+    logIpcOperation('claude:startBatch', {
+      itemCount: request?.items?.length,
+      modelId: request?.modelId
+    })
+
+    try {
+      // Validate required fields
+      validateInput(request, ['items'])
+
+      // Sanitize input
+      const sanitizedRequest = sanitizeInput(request) as ClaudeStartBatchRequest
+
+      if (!Array.isArray(sanitizedRequest.items) || sanitizedRequest.items.length === 0) {
+        throw new Error('Items must be a non-empty array')
+      }
+
+      const leadIds = new Set<number>()
+      for (const item of sanitizedRequest.items) {
+        if (!Number.isInteger(item.leadId) || item.leadId <= 0) {
+          throw new Error('Lead ID must be a positive integer')
+        }
+        if (leadIds.has(item.leadId)) {
+          throw new Error(`Lead ${item.leadId} appears more than once in the batch`)
+        }
+        leadIds.add(item.leadId)
+
+        if (!item.prompt || item.prompt.trim().length === 0) {
+          throw new Error('Prompt cannot be empty')
+        }
+        if (item.prompt.length > 100000) {
+          throw new Error('Prompt is too long (max 100,000 characters)')
+        }
+        if (!item.leadData || typeof item.leadData !== 'object') {
+          throw new Error('Lead data must be a valid object')
+        }
+      }
+
+      // Checked here as well as in the renderer, so no caller can submit past a spend cap
+      const budget = budgetService.checkBudget({
+        leadIds: [...leadIds],
+        perLeadCostUsd: estimateBatchCost(sanitizedRequest) / sanitizedRequest.items.length
+      })
+      if (!budget.allowed) {
+        throw new Error(budget.reason || 'Budget cap reached')
+      }
+
+      const progress = initializeBatchGeneration().startBatch(sanitizedRequest)
+
+      logger.info('ClaudeHandlers', `Started generation batch ${progress.batchId} for ${progress.total} lead(s)`)
+      return createSuccessResponse(progress)
+
+    } catch (error) {
+      logger.error('ClaudeHandlers', 'Failed to start generation batch', error instanceof Error ? error : new Error(String(error)))
+      return handleIpcError(error, 'claude:startBatch')
+    }
+  })
+
+  // Get generation batch progress handler
+  ipcMain.handle('ipc:claude:getBatch', async (_event, batchId: number) => {
+    logIpcOperation('claude:getBatch', { batchId })
+
+    try {
+      if (!Number.isInteger(batchId) || batchId <= 0) {
+        throw new Error('Batch ID must be a positive integer')
+      }
+
+      return createSuccessResponse(initializeBatchGeneration().getBatch(batchId))
+
+    } catch (error) {
+      logger.error('ClaudeHandlers', 'Failed to get generation batch', error instanceof Error ? error : new Error(String(error)))
+      return handleIpcError(error, 'claude:getBatch')
+    }
+  })
+
+  // Get recent generation batches handler (used to show per-lead batch state)
+  ipcMain.handle('ipc:claude:getRecentBatches', async (_event, limit?: number) => {
+    logIpcOperation('claude:getRecentBatches', { limit })
+
+    try {
+      if (limit !== undefined && (!Number.isInteger(limit) || limit <= 0)) {
+        throw new Error('Limit must be a positive integer')
+      }
+
+      return createSuccessResponse(initializeBatchGeneration().getRecentBatches(limit))
+
+    } catch (error) {
+      logger.error('ClaudeHandlers', 'Failed to get generation batches', error instanceof Error ? error : new Error(String(error)))
+      return handleIpcError(error, 'claude:getRecentBatches')
     }
   })
 
@@ -196,12 +749,8 @@ export function setupClaudeHandlers(): void {
       // Initialize Claude service
       const service = initializeClaudeService()
 
-      // Get quota information
-      const quotaInfo = {
-        requestCount: service.getRequestCount(),
-        remainingRequests: service.getRemainingRequests(),
-        maxRequestsPerMinute: 100
-      }
+      // Get quota information, including how many requests are queued for a token
+      const quotaInfo = service.getQuotaInfo()
 
       logger.debug('ClaudeHandlers', `Quota info retrieved: ${JSON.stringify(quotaInfo)}`)
       return createSuccessResponse(quotaInfo)
@@ -222,12 +771,22 @@ export function removeClaudeHandlers(): void {
   logger.info('ClaudeHandlers', 'Removing Claude IPC handlers...')
   
   ipcMain.removeHandler('ipc:claude:generateContent')
+  ipcMain.removeHandler('ipc:claude:generateContentStream')
+  ipcMain.removeHandler('ipc:claude:rewriteSnippet')
+  ipcMain.removeHandler('ipc:claude:generateVariants')
+  ipcMain.removeHandler('ipc:claude:generateBulk')
   ipcMain.removeHandler('ipc:claude:uploadFile')
   ipcMain.removeHandler('ipc:claude:deleteFile')
   ipcMain.removeHandler('ipc:claude:getQuotaInfo')
+  ipcMain.removeHandler('ipc:claude:startBatch')
+  ipcMain.removeHandler('ipc:claude:getBatch')
+  ipcMain.removeHandler('ipc:claude:getRecentBatches')
   
-  // Reset service instance
+  // Reset service instances
   claudeService = null
+  batchGenerationService = null
+  batchCancellations.forEach(release => release())
+  batchCancellations.clear()
   
   logger.info('ClaudeHandlers', 'Claude IPC handlers removed')
 }
@@ -0,0 +1,35 @@
+import { ipcMain } from 'electron';
+import { EditMetricsDAL } from '../../database/dal';
+import { handleIpcError, createSuccessResponse, validateInput } from './utils';
+import type { EditMetricsGrouping } from '../../database/dal';
+
+const EDIT_METRICS_GROUPINGS: EditMetricsGrouping[] = ['template', 'model', 'industry', 'snippet'];
+
+/**
+ * Setup IPC handlers for the AI-vs-approved edit metrics
+ */
+export function setupEditMetricsHandlers(): void {
+  // Approved-without-edits rate per template version, model, industry or snippet
+  ipcMain.handle('ipc:editMetrics:getSummary', async (_, groupBy: EditMetricsGrouping) => {
+    try {
+      validateInput({ groupBy }, ['groupBy']);
+      if (!EDIT_METRICS_GROUPINGS.includes(groupBy)) {
+        throw new Error(`Invalid grouping: ${groupBy}`);
+      }
+      return createSuccessResponse(EditMetricsDAL.getSummary(groupBy));
+    } catch (error) {
+      return handleIpcError(error, 'editMetrics:getSummary');
+    }
+  });
+
+  // Edit distance of every approved snippet
+  ipcMain.handle('ipc:editMetrics:getSnippets', async () => {
+    try {
+      return createSuccessResponse(EditMetricsDAL.getSnippetMetrics());
+    } catch (error) {
+      return handleIpcError(error, 'editMetrics:getSnippets');
+    }
+  });
+
+  console.log('Edit Metrics IPC handlers setup complete');
+}
@@ -0,0 +1,31 @@
+import { ipcMain } from 'electron';
+import { FewShotExamplesDAL } from '../../database/dal';
+import { handleIpcError, createSuccessResponse, validateInput } from './utils';
+import type { FewShotExampleFilters, FewShotExampleStatus } from '../../database/dal';
+
+const STATUSES: FewShotExampleStatus[] = ['auto', 'pinned', 'excluded', 'retired'];
+
+/**
+ * Setup IPC handlers for the approved sequences shown to Claude as examples
+ */
+export function setupFewShotExamplesHandlers(): void {
+  ipcMain.handle('ipc:fewShotExamples:getAll', async (_, filters?: FewShotExampleFilters) => {
+    try {
+      return createSuccessResponse(FewShotExamplesDAL.getAll(filters));
+    } catch (error) {
+      return handleIpcError(error, 'fewShotExamples:getAll');
+    }
+  });
+
+  ipcMain.handle('ipc:fewShotExamples:setStatus', async (_, leadId: number, status: FewShotExampleStatus) => {
+    try {
+      validateInput({ leadId, status }, ['leadId', 'status']);
+      if (!STATUSES.includes(status)) {
+        throw new Error(`Unknown example status: ${status}`);
+      }
+      return createSuccessResponse(FewShotExamplesDAL.setStatus(leadId, status));
+    } catch (error) {
+      return handleIpcError(error, 'fewShotExamples:setStatus');
+    }
+  });
+}
@@ -1,7 +1,21 @@
 import { ipcMain } from 'electron';
-import { GeneratedContentDAL } from '../../database/dal';
+import os from 'os';
+import { GeneratedContentDAL, ContentRevisionsDAL } from '../../database/dal';
 import { handleIpcError, validateInput } from './utils';
-import type { GeneratedContentRecord, ContentFilters } from '../../database/dal';
+import type { GeneratedContentRecord, ContentFilters, SnippetVariantsInput, KeptVariant, RevisionInfo, RevisionSource } from '../../database/dal';
+import type { TouchpointContent } from '../../utils/sequenceDefinition';
+
+const CONTENT_STATUSES: Array<GeneratedContentRecord['status']> = ['draft', 'approved', 'rejected'];
+const REVISION_SOURCES: RevisionSource[] = ['ai', 'manual', 'rewrite'];
+
+// Revisions made by a rep are attributed to the signed-in OS user
+function currentUser(): string | null {
+  try {
+    return os.userInfo().username;
+  } catch {
+    return null;
+  }
+}
 
 /**
  * Setup IPC handlers for generated_content table operations
@@ -77,5 +91,104 @@ export function setupGeneratedContentHandlers(appDataPath?: string): void {
     }
   });
 
+  // Save a lead's sequence, one row per touchpoint
+  ipcMain.handle('ipc:content:saveSequence', async (_, leadId: number, touchpoints: TouchpointContent[], templateId?: number, revision?: RevisionInfo) => {
+    try {
+      validateInput({ leadId, touchpoints }, ['leadId', 'touchpoints']);
+      if (!Array.isArray(touchpoints) || touchpoints.some(touchpoint => !touchpoint?.snippet_field || typeof touchpoint.content !== 'string')) {
+        throw new Error('Touchpoints must be a list of snippets with their text');
+      }
+      const source = revision?.source ?? 'manual';
+      if (!REVISION_SOURCES.includes(source)) {
+        throw new Error(`Unknown revision source '${source}'`);
+      }
+      const author = revision?.author || (source === 'ai' ? null : currentUser());
+      const generationRunId = Number.isInteger(revision?.generationRunId) ? revision!.generationRunId : null;
+      return GeneratedContentDAL.saveSequence(leadId, touchpoints, templateId, { source, author, generationRunId });
+    } catch (error) {
+      return handleIpcError(error, 'content:saveSequence');
+    }
+  });
+
+  // Approve or reject a single touchpoint
+  ipcMain.handle('ipc:content:updateStatus', async (_, id: number, status: GeneratedContentRecord['status']) => {
+    try {
+      validateInput({ id, status }, ['id', 'status']);
+      if (!CONTENT_STATUSES.includes(status)) {
+        throw new Error(`Unknown content status '${status}'`);
+      }
+      return GeneratedContentDAL.updateStatus(id, status);
+    } catch (error) {
+      return handleIpcError(error, 'content:updateStatus');
+    }
+  });
+
+  ipcMain.handle('ipc:content:getApproval', async (_, leadId: number) => {
+    try {
+      validateInput({ leadId }, ['leadId']);
+      return GeneratedContentDAL.getApproval(leadId);
+    } catch (error) {
+      return handleIpcError(error, 'content:getApproval');
+    }
+  });
+
+  // Saved versions of a lead's touchpoints, newest first
+  ipcMain.handle('ipc:content:getRevisions', async (_, leadId: number, snippetField?: string) => {
+    try {
+      validateInput({ leadId }, ['leadId']);
+      return ContentRevisionsDAL.getByLead(leadId, snippetField);
+    } catch (error) {
+      return handleIpcError(error, 'content:getRevisions');
+    }
+  });
+
+  // Restore a touchpoint to an earlier revision; null when it already has that text
+  ipcMain.handle('ipc:content:revertRevision', async (_, revisionId: number) => {
+    try {
+      validateInput({ revisionId }, ['revisionId']);
+      return ContentRevisionsDAL.revert(revisionId, currentUser());
+    } catch (error) {
+      return handleIpcError(error, 'content:revertRevision');
+    }
+  });
+
+  // A/B variants of a lead's snippets
+  ipcMain.handle('ipc:content:getVariants', async (_, leadId: number, snippetField?: string) => {
+    try {
+      validateInput({ leadId }, ['leadId']);
+      return GeneratedContentDAL.getVariants(leadId, snippetField);
+    } catch (error) {
+      return handleIpcError(error, 'content:getVariants');
+    }
+  });
+
+  ipcMain.handle('ipc:content:createVariants', async (_, input: SnippetVariantsInput) => {
+    try {
+      validateInput(input, ['lead_id', 'touchpoint_number', 'content_type', 'snippet_field', 'contents']);
+      if (!Array.isArray(input.contents) || input.contents.length === 0 || input.contents.some(content => typeof content !== 'string' || !content.trim())) {
+        throw new Error('Variants must be a non-empty list of texts');
+      }
+      return GeneratedContentDAL.createVariants(input);
+    } catch (error) {
+      return handleIpcError(error, 'content:createVariants');
+    }
+  });
+
+  // Pick a winner (one kept variant) or keep two for an A/B test
+  ipcMain.handle('ipc:content:keepVariants', async (_, leadId: number, snippetField: string, kept: KeptVariant[]) => {
+    try {
+      validateInput({ leadId, snippetField, kept }, ['leadId', 'snippetField', 'kept']);
+      if (!Array.isArray(kept) || kept.length === 0 || kept.length > 2) {
+        throw new Error('Keep one variant as the winner or two for an A/B test');
+      }
+      if (new Set(kept.map(variant => variant.exported_field)).size !== kept.length) {
+        throw new Error('Kept variants must be exported in different snippet slots');
+      }
+      return GeneratedContentDAL.keepVariants(leadId, snippetField, kept);
+    } catch (error) {
+      return handleIpcError(error, 'content:keepVariants');
+    }
+  });
+
   console.log('Generated Content IPC handlers setup complete');
 }
@@ -0,0 +1,28 @@
+import { ipcMain } from 'electron';
+import { GenerationRunsDAL } from '../../database/dal';
+import { handleIpcError, createSuccessResponse, validateInput } from './utils';
+
+/**
+ * Setup IPC handlers for the generation audit trail. Runs are recorded by the
+ * Claude handlers; these only read them back.
+ */
+export function setupGenerationRunsHandlers(): void {
+  // A lead's runs, newest first, with the one its touchpoints came from flagged
+  ipcMain.handle('ipc:generationRuns:getForLead', async (_, leadId: number, limit?: number) => {
+    try {
+      validateInput({ leadId }, ['leadId']);
+      return createSuccessResponse(GenerationRunsDAL.getForLead(leadId, limit));
+    } catch (error) {
+      return handleIpcError(error, 'generationRuns:getForLead');
+    }
+  });
+
+  ipcMain.handle('ipc:generationRuns:getById', async (_, id: number) => {
+    try {
+      validateInput({ id }, ['id']);
+      return createSuccessResponse(GenerationRunsDAL.getById(id));
+    } catch (error) {
+      return handleIpcError(error, 'generationRuns:getById');
+    }
+  });
+}
@@ -0,0 +1,62 @@
+import { ipcMain } from 'electron';
+import { GenerationUsageDAL } from '../../database/dal';
+import { handleIpcError, createSuccessResponse, validateInput } from './utils';
+import { createBudgetService } from '../services/budgetService';
+import type { BudgetCheckRequest } from '../services/budgetService';
+import type { UsageFilters, UsageSummaryGrouping } from '../../database/dal';
+
+const USAGE_GROUPINGS: UsageSummaryGrouping[] = ['import', 'model', 'day'];
+
+const budgetService = createBudgetService();
+
+/**
+ * Setup IPC handlers for the token usage and cost ledger
+ */
+export function setupGenerationUsageHandlers(): void {
+  // Spend totals grouped per import, model or day
+  ipcMain.handle('ipc:usage:getSummary', async (_, groupBy: UsageSummaryGrouping, filters?: UsageFilters) => {
+    try {
+      validateInput({ groupBy }, ['groupBy']);
+      if (!USAGE_GROUPINGS.includes(groupBy)) {
+        throw new Error(`Invalid grouping: ${groupBy}`);
+      }
+      return createSuccessResponse(GenerationUsageDAL.getSummary(groupBy, filters));
+    } catch (error) {
+      return handleIpcError(error, 'usage:getSummary');
+    }
+  });
+
+  // Every recorded call for one lead
+  ipcMain.handle('ipc:usage:getByLead', async (_, leadId: number) => {
+    try {
+      validateInput({ leadId }, ['leadId']);
+      return createSuccessResponse(GenerationUsageDAL.getByLead(leadId));
+    } catch (error) {
+      return handleIpcError(error, 'usage:getByLead');
+    }
+  });
+
+  // Budgets from settings with this month's spend
+  ipcMain.handle('ipc:usage:getBudgetStatus', async () => {
+    try {
+      return createSuccessResponse(budgetService.getStatus());
+    } catch (error) {
+      return handleIpcError(error, 'usage:getBudgetStatus');
+    }
+  });
+
+  // Check a projected generation against the monthly and per-import caps
+  ipcMain.handle('ipc:usage:checkBudget', async (_, request: BudgetCheckRequest) => {
+    try {
+      validateInput(request, ['leadIds', 'perLeadCostUsd']);
+      if (!Array.isArray(request.leadIds)) {
+        throw new Error('leadIds must be an array');
+      }
+      return createSuccessResponse(budgetService.checkBudget(request));
+    } catch (error) {
+      return handleIpcError(error, 'usage:checkBudget');
+    }
+  });
+
+  console.log('Generation Usage IPC handlers setup complete');
+}
@@ -5,10 +5,18 @@ import { setupGeneratedContentHandlers } from './generated-content';
 import { setupMappingsHandlers } from './mappings';
 import { setupAppMetadataHandlers } from './app-metadata';
 import { setupAdvancedQueriesHandlers } from './advanced-queries';
+import { setupGenerationUsageHandlers } from './generation-usage';
+import { setupEditMetricsHandlers } from './edit-metrics';
+import { setupPromptTemplatesHandlers } from './prompt-templates';
+import { setupCaseStudiesHandlers } from './case-studies';
+import { setupSenderProfilesHandlers } from './sender-profiles';
+import { setupGenerationRunsHandlers } from './generation-runs';
+import { setupFewShotExamplesHandlers } from './few-shot-examples';
 import { setupClaudeHandlers } from './claudeHandlers';
 import { setupWoodpeckerHandlers } from './woodpeckerHandlers';
 import { setupDatabaseHandlers } from './database';
 import { setupSettingsHandlers } from './settingsHandlers';
+import { setupOperationHandlers } from './operations';
 
 /**
  * Setup all IPC handlers for database operations
@@ -24,6 +32,13 @@ export function setupIpcHandlers(appDataPath: string): void {
     setupMappingsHandlers(appDataPath);
     setupAppMetadataHandlers(appDataPath);
     setupAdvancedQueriesHandlers(appDataPath);
+    setupGenerationUsageHandlers();
+    setupEditMetricsHandlers();
+    setupPromptTemplatesHandlers();
+    setupCaseStudiesHandlers();
+    setupSenderProfilesHandlers();
+    setupGenerationRunsHandlers();
+    setupFewShotExamplesHandlers();
 
     // Setup database utility handlers
     setupDatabaseHandlers();
@@ -37,6 +52,9 @@ export function setupIpcHandlers(appDataPath: string): void {
     // Setup Settings handlers
     setupSettingsHandlers();
 
+    // Setup cancellation for long-running operations
+    setupOperationHandlers();
+
     console.log('All IPC handlers setup successfully');
   } catch (error) {
     console.error('Failed to setup IPC handlers:', error);
@@ -0,0 +1,73 @@
+import { ipcMain } from 'electron'
+import { logIpcOperation, createSuccessResponse, handleIpcError } from './utils'
+import { logger } from '../utils/logger'
+
+export interface CancellableOperation {
+  operationId: string
+  signal: AbortSignal
+  release: () => void
+}
+
+// Cancel callbacks for every in-flight operation, keyed by operation id
+const activeOperations = new Map<string, () => void>()
+
+/**
+ * Register a cancel callback for work that manages its own abort state
+ * (e.g. export jobs owned by the export queue). Returns a release function
+ * to call once the operation settles.
+ */
+export function registerCancellable(operationId: string, cancel: () => void): () => void {
+  activeOperations.set(operationId, cancel)
+  return () => {
+    if (activeOperations.get(operationId) === cancel) {
+      activeOperations.delete(operationId)
+    }
+  }
+}
+
+/**
+ * Start an operation backed by an AbortController. The signal is threaded into
+ * service calls; release() must be called in a finally block.
+ */
+export function startCancellableOperation(operationId: string): CancellableOperation {
+  const controller = new AbortController()
+  const release = registerCancellable(operationId, () => controller.abort())
+  return { operationId, signal: controller.signal, release }
+}
+
+export function cancelOperation(operationId: string): boolean {
+  const cancel = activeOperations.get(operationId)
+  if (!cancel) return false
+
+  logger.info('Operations', `Cancelling operation ${operationId}`)
+  cancel()
+  return true
+}
+
+export function isOperationActive(operationId: string): boolean {
+  return activeOperations.has(operationId)
+}
+
+/**
+ * Setup the shared cancel handler. Cancelling an unknown or finished
+ * operation is not an error; the response reports whether anything stopped.
+ */
+export function setupOperationHandlers(): void {
+  ipcMain.handle('ipc:operations:cancel', async (_event, operationId: string) => {
+    logIpcOperation('operations:cancel', { operationId })
+
+    try {
+      if (!operationId || typeof operationId !== 'string') {
+        throw new Error('Operation ID is required and must be a non-empty string')
+      }
+
+      return createSuccessResponse({ cancelled: cancelOperation(operationId) })
+    } catch (error) {
+      return handleIpcError(error, 'operations:cancel')
+    }
+  })
+}
+
+export function removeOperationHandlers(): void {
+  ipcMain.removeHandler('ipc:operations:cancel')
+}
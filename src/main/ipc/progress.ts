@@ -0,0 +1,80 @@
+import { BrowserWindow } from 'electron'
+import type { WebContents } from 'electron'
+import { randomUUID } from 'crypto'
+import { logger } from '../utils/logger'
+
+// Single channel every long-running operation reports on
+export const PROGRESS_CHANNEL = 'ipc:progress'
+
+export type OperationStatus = 'running' | 'completed' | 'failed' | 'cancelled'
+
+export interface OperationProgress<T = unknown> {
+  operationId: string
+  operation: string   // e.g. 'woodpecker:export', 'claude:generateBulk', 'settings:importDatabase'
+  status: OperationStatus
+  current: number
+  total: number
+  message?: string
+  data?: T
+}
+
+export interface ProgressReporter<T = unknown> {
+  operationId: string
+  update: (current: number, total: number, message?: string, data?: T) => void
+  complete: (message?: string, data?: T) => void
+  fail: (message: string, data?: T) => void
+  cancel: (message?: string, data?: T) => void
+}
+
+export function createOperationId(operation: string): string {
+  return `${operation}:${randomUUID()}`
+}
+
+/**
+ * Send a progress event to one renderer, or to every open window when no
+ * target is given (e.g. for work that outlives the request that started it).
+ * Reporting must never break the operation itself, so failures are logged.
+ */
+export function sendProgress(progress: OperationProgress, target?: WebContents): void {
+  try {
+    const targets = target ? [target] : BrowserWindow.getAllWindows().map(win => win.webContents)
+    for (const contents of targets) {
+      if (!contents.isDestroyed()) {
+        contents.send(PROGRESS_CHANNEL, progress)
+      }
+    }
+  } catch (error) {
+    logger.warn('Progress', `Failed to send progress for ${progress.operationId}`, error instanceof Error ? error : new Error(String(error)))
+  }
+}
+
+/**
+ * Create a reporter bound to one operation. The renderer usually picks the
+ * operation id so it can subscribe before invoking the handler.
+ */
+export function createProgressReporter<T = unknown>(
+  operation: string,
+  options: { operationId?: string; target?: WebContents } = {}
+): ProgressReporter<T> {
+  const operationId = options.operationId || createOperationId(operation)
+  let current = 0
+  let total = 0
+
+  const send = (status: OperationStatus, message?: string, data?: T) =>
+    sendProgress({ operationId, operation, status, current, total, message, data }, options.target)
+
+  return {
+    operationId,
+    update: (nextCurrent, nextTotal, message, data) => {
+      current = nextCurrent
+      total = nextTotal
+      send('running', message, data)
+    },
+    complete: (message, data) => {
+      current = total
+      send('completed', message, data)
+    },
+    fail: (message, data) => send('failed', message, data),
+    cancel: (message, data) => send('cancelled', message ?? 'Cancelled', data),
+  }
+}
@@ -0,0 +1,159 @@
+import { ipcMain } from 'electron';
+import { PromptTemplatesDAL } from '../../database/dal';
+import { handleIpcError, createSuccessResponse, validateInput } from './utils';
+import type { PromptTemplateInput } from '../../database/dal';
+import { validateSequenceDefinition } from '../../utils/sequenceDefinition';
+import { usesLegacyBlockFormat } from '../services/sequenceOutput';
+import emailSequenceTemplate from '../../templates/emailSequencePrompt.json';
+
+const BUNDLED_NOTES = 'Bundled template';
+
+// Seeded as version 1 so the bundled prompt can be edited like any other template
+const BUNDLED_TEMPLATES: PromptTemplateInput[] = [
+  {
+    name: 'email-sequence',
+    description: emailSequenceTemplate.description,
+    template: emailSequenceTemplate.template,
+    variables: emailSequenceTemplate.variables,
+    notes: BUNDLED_NOTES
+  }
+];
+
+/**
+ * Add a bundled template to the library. A library seeded before the bundled
+ * prompt moved to structured output still holds its ---BLOCK--- version; if
+ * nobody has edited it since, the current bundled prompt becomes a new version.
+ */
+export function seedBundledTemplate(template: PromptTemplateInput): void {
+  const existing = PromptTemplatesDAL.getByName(template.name);
+  if (!existing) {
+    PromptTemplatesDAL.create(template);
+    return;
+  }
+
+  if (existing.current.notes === BUNDLED_NOTES && usesLegacyBlockFormat(existing.current.template)) {
+    PromptTemplatesDAL.createVersion(existing.id, { ...template, description: undefined });
+  }
+}
+
+function validateTemplateBody(input: Pick<PromptTemplateInput, 'template' | 'variables' | 'sequence'>): void {
+  if (typeof input.template !== 'string' || input.template.trim().length === 0) {
+    throw new Error('Template cannot be empty');
+  }
+  if (!Array.isArray(input.variables) || input.variables.some(variable => typeof variable !== 'string' || !variable.trim())) {
+    throw new Error('Variables must be a list of field names');
+  }
+  if (input.sequence) {
+    const errors = Array.isArray(input.sequence)
+      ? validateSequenceDefinition(input.sequence)
+      : ['Sequence must be a list of touchpoints'];
+    if (errors.length > 0) {
+      throw new Error(`Invalid sequence: ${errors.join('; ')}`);
+    }
+  }
+}
+
+/**
+ * Setup IPC handlers for the versioned prompt template library
+ */
+export function setupPromptTemplatesHandlers(): void {
+  try {
+    BUNDLED_TEMPLATES.forEach(seedBundledTemplate);
+  } catch (error) {
+    console.error('Failed to seed bundled prompt templates:', error);
+  }
+
+  // Every template with its latest version
+  ipcMain.handle('ipc:promptTemplates:getAll', async () => {
+    try {
+      return createSuccessResponse(PromptTemplatesDAL.getAll());
+    } catch (error) {
+      return handleIpcError(error, 'promptTemplates:getAll');
+    }
+  });
+
+  ipcMain.handle('ipc:promptTemplates:getById', async (_, id: number) => {
+    try {
+      validateInput({ id }, ['id']);
+      return createSuccessResponse(PromptTemplatesDAL.getById(id));
+    } catch (error) {
+      return handleIpcError(error, 'promptTemplates:getById');
+    }
+  });
+
+  // Create a template with its first version
+  ipcMain.handle('ipc:promptTemplates:create', async (_, input: PromptTemplateInput) => {
+    try {
+      validateInput(input, ['name', 'template', 'variables']);
+      if (!input.name.trim()) {
+        throw new Error('Template name cannot be empty');
+      }
+      validateTemplateBody(input);
+      if (PromptTemplatesDAL.getByName(input.name.trim())) {
+        throw new Error(`A template named '${input.name.trim()}' already exists`);
+      }
+      return createSuccessResponse(PromptTemplatesDAL.create({ ...input, name: input.name.trim() }));
+    } catch (error) {
+      return handleIpcError(error, 'promptTemplates:create');
+    }
+  });
+
+  // Save an edit as the next version; earlier versions are kept as they were
+  ipcMain.handle('ipc:promptTemplates:createVersion', async (_, id: number, input: Omit<PromptTemplateInput, 'name'>) => {
+    try {
+      validateInput({ id, ...input }, ['id', 'template', 'variables']);
+      validateTemplateBody(input);
+      const version = PromptTemplatesDAL.createVersion(id, input);
+      if (!version) {
+        throw new Error(`Prompt template ${id} not found`);
+      }
+      return createSuccessResponse(version);
+    } catch (error) {
+      return handleIpcError(error, 'promptTemplates:createVersion');
+    }
+  });
+
+  ipcMain.handle('ipc:promptTemplates:getVersions', async (_, id: number) => {
+    try {
+      validateInput({ id }, ['id']);
+      return createSuccessResponse(PromptTemplatesDAL.getVersions(id));
+    } catch (error) {
+      return handleIpcError(error, 'promptTemplates:getVersions');
+    }
+  });
+
+  // The exact version a piece of content was generated from
+  ipcMain.handle('ipc:promptTemplates:getVersion', async (_, versionId: number) => {
+    try {
+      validateInput({ versionId }, ['versionId']);
+      return createSuccessResponse(PromptTemplatesDAL.getVersion(versionId));
+    } catch (error) {
+      return handleIpcError(error, 'promptTemplates:getVersion');
+    }
+  });
+
+  // Save an earlier version again as the latest one
+  ipcMain.handle('ipc:promptTemplates:rollback', async (_, id: number, version: number) => {
+    try {
+      validateInput({ id, version }, ['id', 'version']);
+      const restored = PromptTemplatesDAL.rollback(id, version);
+      if (!restored) {
+        throw new Error(`Version ${version} of prompt template ${id} not found`);
+      }
+      return createSuccessResponse(restored);
+    } catch (error) {
+      return handleIpcError(error, 'promptTemplates:rollback');
+    }
+  });
+
+  ipcMain.handle('ipc:promptTemplates:delete', async (_, id: number) => {
+    try {
+      validateInput({ id }, ['id']);
+      return createSuccessResponse(PromptTemplatesDAL.delete(id));
+    } catch (error) {
+      return handleIpcError(error, 'promptTemplates:delete');
+    }
+  });
+
+  console.log('Prompt Templates IPC handlers setup complete');
+}
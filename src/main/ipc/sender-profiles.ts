@@ -0,0 +1,68 @@
+import { ipcMain } from 'electron';
+import { SenderProfilesDAL } from '../../database/dal';
+import { handleIpcError, createSuccessResponse, validateInput } from './utils';
+import type { SenderProfileInput } from '../../database/dal';
+
+function validateSenderProfile(input: Partial<SenderProfileInput>): void {
+  if (input.name !== undefined && !input.name.trim()) {
+    throw new Error('Sender name cannot be empty');
+  }
+  if (input.calendar_link && !/^https?:\/\//i.test(input.calendar_link.trim())) {
+    throw new Error('Calendar link must start with http:// or https://');
+  }
+}
+
+/**
+ * Setup IPC handlers for sender profiles. Imports and leads are assigned a
+ * sender through their own update handlers (sender_id).
+ */
+export function setupSenderProfilesHandlers(): void {
+  ipcMain.handle('ipc:senderProfiles:getAll', async () => {
+    try {
+      return createSuccessResponse(SenderProfilesDAL.getAll());
+    } catch (error) {
+      return handleIpcError(error, 'senderProfiles:getAll');
+    }
+  });
+
+  // The lead's own sender, else its import's, else the default profile
+  ipcMain.handle('ipc:senderProfiles:getForLead', async (_, leadId: number) => {
+    try {
+      validateInput({ leadId }, ['leadId']);
+      return createSuccessResponse(SenderProfilesDAL.getForLead(leadId));
+    } catch (error) {
+      return handleIpcError(error, 'senderProfiles:getForLead');
+    }
+  });
+
+  ipcMain.handle('ipc:senderProfiles:create', async (_, input: SenderProfileInput) => {
+    try {
+      validateInput(input, ['name']);
+      validateSenderProfile(input);
+      return createSuccessResponse(SenderProfilesDAL.create(input));
+    } catch (error) {
+      return handleIpcError(error, 'senderProfiles:create');
+    }
+  });
+
+  ipcMain.handle('ipc:senderProfiles:update', async (_, id: number, updates: Partial<SenderProfileInput>) => {
+    try {
+      validateInput({ id }, ['id']);
+      validateSenderProfile(updates);
+      return createSuccessResponse(SenderProfilesDAL.update(id, updates));
+    } catch (error) {
+      return handleIpcError(error, 'senderProfiles:update');
+    }
+  });
+
+  ipcMain.handle('ipc:senderProfiles:delete', async (_, id: number) => {
+    try {
+      validateInput({ id }, ['id']);
+      return createSuccessResponse(SenderProfilesDAL.delete(id));
+    } catch (error) {
+      return handleIpcError(error, 'senderProfiles:delete');
+    }
+  });
+
+  console.log('Sender Profiles IPC handlers setup complete');
+}
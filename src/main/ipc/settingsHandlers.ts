@@ -5,6 +5,14 @@ import fs from 'fs'
 import path from 'path'
 import Database from 'better-sqlite3'
 import { dbPool } from '../../database/utils'
+import { createProgressReporter } from './progress'
+import { startCancellableOperation } from './operations'
+import type { SavedLintConfig } from '../../utils/contentLinter'
+
+// Options for database export/import; progress is reported under operationId
+export interface DatabaseTransferRequest {
+  operationId?: string
+}
 
 // Helper function to get the database path
 function getDatabasePath(): string {
@@ -99,13 +107,60 @@ export function setupSettingsHandlers(): void {
     }
   })
 
+  // Get monthly and per-import spend caps
+  ipcMain.handle('settings:getBudgets', async () => {
+    return settingsService.getBudgets()
+  })
+
+  // Update spend caps; 0 or null removes a cap
+  ipcMain.handle('settings:updateBudgets', async (_, budgets: { monthlyLimitUsd?: number | null; perImportLimitUsd?: number | null }) => {
+    try {
+      for (const value of [budgets?.monthlyLimitUsd, budgets?.perImportLimitUsd]) {
+        if (value !== undefined && value !== null && (typeof value !== 'number' || !Number.isFinite(value) || value < 0)) {
+          throw new Error('Budget must be a non-negative number')
+        }
+      }
+
+      settingsService.updateBudgets(budgets || {})
+      return { success: true }
+    } catch (error) {
+      logger.error('SettingsHandlers', 'Failed to update budgets', error instanceof Error ? error : new Error(String(error)))
+      throw error
+    }
+  })
+
+  // Get the content linter rule settings
+  ipcMain.handle('settings:getContentLint', async () => {
+    return settingsService.getContentLint()
+  })
+
+  // Save the content linter rule settings
+  ipcMain.handle('settings:updateContentLint', async (_, config: SavedLintConfig) => {
+    try {
+      if (!config || typeof config !== 'object' || Array.isArray(config)) {
+        throw new Error('Lint settings must be an object of rules')
+      }
+
+      settingsService.updateContentLint(config)
+      return { success: true }
+    } catch (error) {
+      logger.error('SettingsHandlers', 'Failed to update lint settings', error instanceof Error ? error : new Error(String(error)))
+      throw error
+    }
+  })
+
   // Get settings file location (for debugging)
   ipcMain.handle('settings:getSettingsPath', async () => {
     return settingsService.getSettingsPath()
   })
 
   // Export database
-  ipcMain.handle('settings:exportDatabase', async () => {
+  ipcMain.handle('settings:exportDatabase', async (event, request: DatabaseTransferRequest = {}) => {
+    const progress = createProgressReporter('settings:exportDatabase', {
+      operationId: request?.operationId,
+      target: event.sender
+    })
+
     try {
       const dbPath = getDatabasePath()
 
@@ -142,6 +197,7 @@ export function setupSettingsHandlers(): void {
       }
 
       // Close all existing database connections first
+      progress.update(0, 2, 'Flushing pending changes')
       console.log('🔍 [DATABASE EXPORT] Closing all database connections before checkpoint...')
       dbPool.closeAll()
 
@@ -179,8 +235,10 @@ export function setupSettingsHandlers(): void {
       }
 
       // Copy database file to selected location
+      progress.update(1, 2, 'Copying database')
       fs.copyFileSync(dbPath, result.filePath)
 
+      progress.complete('Database exported')
       logger.info(`Database exported to: ${result.filePath}`)
       return {
         success: true,
@@ -188,13 +246,27 @@ export function setupSettingsHandlers(): void {
         size: afterStats.size
       }
     } catch (error) {
+      progress.fail(error instanceof Error ? error.message : String(error))
       logger.error('Failed to export database:', error)
       throw error
     }
   })
 
   // Import database
-  ipcMain.handle('settings:importDatabase', async () => {
+  ipcMain.handle('settings:importDatabase', async (event, request: DatabaseTransferRequest = {}) => {
+    const progress = createProgressReporter('settings:importDatabase', {
+      operationId: request?.operationId,
+      target: event.sender
+    })
+    const operation = startCancellableOperation(progress.operationId)
+
+    // Checked between steps; the backup is restored if the import is cancelled mid-way
+    const throwIfCancelled = () => {
+      if (operation.signal.aborted) {
+        throw new Error('Database import cancelled')
+      }
+    }
+
     console.log('🔍 [DATABASE IMPORT] Starting import process...')
     logger.info('Starting database import process')
 
@@ -210,8 +282,9 @@ export function setupSettingsHandlers(): void {
         properties: ['openFile']
       })
 
-      if (result.canceled || !result.filePaths.length) {
+      if (result.canceled || !result.filePaths.length || operation.signal.aborted) {
         console.log('🔍 [DATABASE IMPORT] User canceled dialog')
+        progress.cancel()
         return { success: false, canceled: true }
       }
 
@@ -231,29 +304,35 @@ export function setupSettingsHandlers(): void {
       console.log(`🔍 [DATABASE IMPORT] Import file size: ${importStats.size} bytes`)
 
       // Backup current database
+      progress.update(0, 3, 'Backing up current database')
       const backupPath = `${dbPath}.backup-${Date.now()}`
       if (fs.existsSync(dbPath)) {
         console.log(`🔍 [DATABASE IMPORT] Backing up current database to: ${backupPath}`)
-        fs.copyFileSync(dbPath, backupPath)
+        await fs.promises.copyFile(dbPath, backupPath)
         logger.info(`Current database backed up to: ${backupPath}`)
       } else {
         console.log('🔍 [DATABASE IMPORT] No existing database to backup')
       }
 
       try {
+        throwIfCancelled()
+
         // Close all existing database connections before importing
         console.log('🔍 [DATABASE IMPORT] Closing all database connections...')
         logger.info('Closing all database connections before import...')
         dbPool.closeAll()
 
         // Copy imported database to app location
+        progress.update(1, 3, 'Copying database')
         console.log('🔍 [DATABASE IMPORT] Copying database file...')
-        fs.copyFileSync(importPath, dbPath)
+        await fs.promises.copyFile(importPath, dbPath)
+        throwIfCancelled()
 
         const copiedStats = fs.statSync(dbPath)
         console.log(`🔍 [DATABASE IMPORT] Copied file size: ${copiedStats.size} bytes`)
 
         // Verify the imported database is valid by trying to open it
+        progress.update(2, 3, 'Validating database')
         console.log('🔍 [DATABASE IMPORT] Validating imported database...')
         const testDb = new Database(dbPath, { readonly: true })
 
@@ -296,6 +375,7 @@ export function setupSettingsHandlers(): void {
         }
 
         testDb.close()
+        throwIfCancelled()
 
         logger.info(`Database imported from: ${importPath}, found ${tableCount} tables, data: ${JSON.stringify(dataValidation)}`)
 
@@ -303,6 +383,7 @@ export function setupSettingsHandlers(): void {
         console.log('🔍 [DATABASE IMPORT] Closing connections again for clean slate...')
         dbPool.closeAll()
 
+        progress.complete('Database imported')
         console.log('🔍 [DATABASE IMPORT] Import completed successfully!')
         return {
           success: true,
@@ -322,9 +403,18 @@ export function setupSettingsHandlers(): void {
         throw error
       }
     } catch (error) {
+      if (operation.signal.aborted) {
+        progress.cancel()
+        logger.info('SettingsHandlers', 'Database import cancelled, current database kept')
+        return { success: false, canceled: true }
+      }
+
+      progress.fail(error instanceof Error ? error.message : String(error))
       console.error('🔍 [DATABASE IMPORT] Overall import failed:', error)
       logger.error('Failed to import database:', error)
       throw error
+    } finally {
+      operation.release()
     }
   })
 
@@ -1,5 +1,6 @@
 import { DALError, ValidationError, NotFoundError, ForeignKeyError, UniqueConstraintError, TransactionError } from '../../database/dal';
 import { WoodpeckerApiError } from '../services/woodpeckerService';
+import { ClaudeApiError } from '../services/claudeService';
 import { logger } from '../utils/logger';
 
 /**
@@ -113,6 +114,21 @@ export function handleIpcError(error: unknown, operation: string): IpcErrorRespo
     };
   }
 
+  if (error instanceof ClaudeApiError) {
+    return {
+      success: false,
+      error: {
+        type: 'ClaudeApiError',
+        message: error.message,
+        code: `CLAUDE_${error.category.toUpperCase()}`,
+        details: {
+          category: error.category,
+          retryable: error.retryable
+        }
+      }
+    };
+  }
+
   // Handle generic errors
   const errorMessage = error instanceof Error ? error.message : 'Unknown error occurred';
   return {
@@ -1,8 +1,15 @@
 import { ipcMain } from 'electron'
 import { WoodpeckerService, createWoodpeckerService, WoodpeckerApiError } from '../services/woodpeckerService'
-import type { WoodpeckerCampaign, WoodpeckerProspect, WoodpeckerExportProgress } from '../services/woodpeckerService'
+import { ExportQueueService, createExportQueueService } from '../services/exportQueueService'
+import type { ExportJobItemInput } from '../services/exportQueueService'
+import type { WoodpeckerCampaign, WoodpeckerProspect, ExportProgress, WoodpeckerCampaignStep } from '../services/woodpeckerService'
 import { handleIpcError, createSuccessResponse, logIpcOperation, validateInput, sanitizeInput } from './utils'
+import { sendProgress, createProgressReporter } from './progress'
+import type { OperationStatus } from './progress'
+import { registerCancellable, startCancellableOperation } from './operations'
 import { logger } from '../utils/logger'
+import { CampaignSyncDAL, GeneratedContentDAL } from '../../database/dal'
+import type { ExportJobProgress } from '../../database/dal'
 
 // Woodpecker service instance
 let woodpeckerService: WoodpeckerService | null = null
@@ -21,6 +28,76 @@ function initializeWoodpeckerService(): WoodpeckerService {
   return woodpeckerService
 }
 
+// Export queue instance; progress is broadcast to every open window
+let exportQueueService: ExportQueueService | null = null
+
+// Release functions for export jobs currently cancellable via ipc:operations:cancel
+const exportJobCancellations = new Map<number, () => void>()
+
+const EXPORT_JOB_OPERATION_STATUS: Record<ExportJobProgress['status'], OperationStatus> = {
+  pending: 'running',
+  running: 'running',
+  completed: 'completed',
+  failed: 'failed',
+  cancelled: 'cancelled',
+}
+
+// Jobs outlive the request that started them, so their operation id is derived from the job id
+export function getExportJobOperationId(jobId: number): string {
+  return `woodpecker:export:${jobId}`
+}
+
+function initializeExportQueue(): ExportQueueService {
+  if (!exportQueueService) {
+    exportQueueService = createExportQueueService(initializeWoodpeckerService())
+    exportQueueService.onProgress((progress: ExportJobProgress) => {
+      trackExportJobCancellation(progress)
+      sendProgress({
+        operationId: getExportJobOperationId(progress.jobId),
+        operation: 'woodpecker:export',
+        status: EXPORT_JOB_OPERATION_STATUS[progress.status],
+        current: progress.current,
+        total: progress.total,
+        message: progress.lastError || undefined,
+        data: progress,
+      })
+    })
+    logger.info('WoodpeckerHandlers', 'Export queue initialized successfully')
+  }
+  return exportQueueService
+}
+
+function trackExportJobCancellation(progress: ExportJobProgress): void {
+  const active = progress.status === 'pending' || progress.status === 'running'
+
+  if (active && !exportJobCancellations.has(progress.jobId)) {
+    const release = registerCancellable(getExportJobOperationId(progress.jobId), () => {
+      exportQueueService?.cancelJob(progress.jobId)
+    })
+    exportJobCancellations.set(progress.jobId, release)
+  } else if (!active) {
+    exportJobCancellations.get(progress.jobId)?.()
+    exportJobCancellations.delete(progress.jobId)
+  }
+}
+
+/**
+ * Resume export jobs interrupted by a previous shutdown. Call once the
+ * database is ready; failures are logged rather than blocking startup.
+ */
+export function resumeExportJobs(): number[] {
+  try {
+    const resumed = initializeExportQueue().resumeUnfinishedJobs()
+    if (resumed.length > 0) {
+      logger.info('WoodpeckerHandlers', `Resumed ${resumed.length} unfinished export job(s)`)
+    }
+    return resumed
+  } catch (error) {
+    logger.error('WoodpeckerHandlers', 'Failed to resume export jobs', error instanceof Error ? error : new Error(String(error)))
+    return []
+  }
+}
+
 // Request interface for getting campaigns
 export interface WoodpeckerGetCampaignsRequest {
   forceRefresh?: boolean
@@ -31,7 +108,14 @@ export interface WoodpeckerAddProspectsRequest {
   prospects: WoodpeckerProspect[]
   campaignId: number
   force?: boolean
-  onProgress?: (progress: WoodpeckerExportProgress) => void
+  operationId?: string // progress is reported on the shared progress channel under this id
+}
+
+// Request interface for starting a persistent export job
+export interface WoodpeckerStartExportJobRequest {
+  campaignId: number
+  campaignName?: string
+  items: ExportJobItemInput[]
 }
 
 // Request interface for checking duplicates
@@ -40,6 +124,18 @@ export interface WoodpeckerCheckDuplicatesRequest {
   campaignId: number
 }
 
+// Request interface for creating a campaign
+export interface WoodpeckerCreateCampaignRequest {
+  name: string
+  steps?: WoodpeckerCampaignStep[]
+  emailAccountIds?: number[]
+}
+
+// Request interface for syncing prospect engagement
+export interface WoodpeckerSyncEngagementRequest {
+  campaignIds?: string[]
+}
+
 /**
  * Setup Woodpecker-related IPC handlers
  */
@@ -71,8 +167,46 @@ export function setupWoodpeckerHandlers(): void {
     }
   })
 
+  // Create campaign handler
+  ipcMain.handle('ipc:woodpecker:createCampaign', async (_event, request: WoodpeckerCreateCampaignRequest) => {
+    logIpcOperation('woodpecker:createCampaign', {
+      name: request?.name,
+      stepCount: request?.steps?.length
+    })
+
+    try {
+      // Validate required fields
+      validateInput(request, ['name'])
+
+      // Sanitize input
+      const sanitizedRequest = sanitizeInput(request) as WoodpeckerCreateCampaignRequest
+
+      if (sanitizedRequest.steps !== undefined && !Array.isArray(sanitizedRequest.steps)) {
+        throw new Error('Steps must be an array')
+      }
+
+      // Initialize Woodpecker service
+      const service = initializeWoodpeckerService()
+
+      const campaign = await service.createCampaign(sanitizedRequest)
+
+      logger.info('WoodpeckerHandlers', `Created campaign ${campaign.campaign_id} (${campaign.name})`)
+      return createSuccessResponse(campaign)
+
+    } catch (error) {
+      logger.error('WoodpeckerHandlers', 'Failed to create campaign', error instanceof Error ? error : new Error(String(error)))
+      return handleIpcError(error, 'woodpecker:createCampaign')
+    }
+  })
+
   // Add prospects to campaign handler
   ipcMain.handle('ipc:woodpecker:addProspects', async (event, request: WoodpeckerAddProspectsRequest) => {
+    const progress = createProgressReporter<ExportProgress>('woodpecker:addProspects', {
+      operationId: request?.operationId,
+      target: event.sender
+    })
+    const operation = startCancellableOperation(progress.operationId)
+
     logIpcOperation('woodpecker:addProspects', { 
       prospectsCount: request.prospects?.length,
       campaignId: request.campaignId,
@@ -110,19 +244,132 @@ export function setupWoodpeckerHandlers(): void {
       const service = initializeWoodpeckerService()
 
       // Add prospects to campaign
-      const progress = await service.addProspectsToCampaign(
+      const result = await service.addProspectsToCampaign(
         sanitizedRequest.prospects,
         sanitizedRequest.campaignId,
-        sanitizedRequest.force,
-        sanitizedRequest.onProgress
+        (batchProgress) => progress.update(batchProgress.current, batchProgress.total, undefined, batchProgress),
+        operation.signal
       )
 
-      logger.info('WoodpeckerHandlers', `Added prospects to campaign successfully: ${progress.succeeded} succeeded, ${progress.failed} failed`)
-      return createSuccessResponse(progress)
+      if (result.status === 'cancelled') {
+        progress.cancel(undefined, result)
+        logger.info('WoodpeckerHandlers', `Adding prospects cancelled: ${result.succeeded} succeeded before cancellation`)
+      } else {
+        progress.complete(undefined, result)
+        logger.info('WoodpeckerHandlers', `Added prospects to campaign successfully: ${result.succeeded} succeeded, ${result.failed} failed`)
+      }
+      return createSuccessResponse(result)
 
     } catch (error) {
+      progress.fail(error instanceof Error ? error.message : String(error))
       logger.error('WoodpeckerHandlers', 'Failed to add prospects', error instanceof Error ? error : new Error(String(error)))
       return handleIpcError(error, 'woodpecker:addProspects')
+    } finally {
+      operation.release()
+    }
+  })
+
+  // Start a persistent export job handler
+  ipcMain.handle('ipc:woodpecker:startExportJob', async (_event, request: WoodpeckerStartExportJobRequest) => {
+    logIpcOperation('woodpecker:startExportJob', {
+      itemsCount: request?.items?.length,
+      campaignId: request?.campaignId
+    })
+
+    try {
+      // Validate required fields
+      validateInput(request, ['campaignId', 'items'])
+
+      // Sanitize input
+      const sanitizedRequest = sanitizeInput(request) as WoodpeckerStartExportJobRequest
+
+      if (!Array.isArray(sanitizedRequest.items) || sanitizedRequest.items.length === 0) {
+        throw new Error('Items must be a non-empty array')
+      }
+
+      if (!Number.isInteger(sanitizedRequest.campaignId) || sanitizedRequest.campaignId <= 0) {
+        throw new Error('Campaign ID must be a positive integer')
+      }
+
+      for (const item of sanitizedRequest.items) {
+        if (!item.prospect?.email || typeof item.prospect.email !== 'string') {
+          throw new Error('Each prospect must have a valid email address')
+        }
+        if (item.leadId !== undefined && !Number.isInteger(item.leadId)) {
+          throw new Error('Lead ID must be an integer')
+        }
+      }
+
+      // Stored leads only go out once every touchpoint has been approved
+      const awaitingApproval = sanitizedRequest.items.filter(item => {
+        if (item.leadId === undefined) return false
+        const approval = GeneratedContentDAL.getApproval(item.leadId)
+        return approval.total === 0 || approval.pending.length > 0
+      })
+      if (awaitingApproval.length > 0) {
+        throw new Error(
+          `Approve every touchpoint before exporting: ${awaitingApproval.map(item => item.prospect.email).join(', ')}`
+        )
+      }
+
+      const progress = initializeExportQueue().startJob(sanitizedRequest)
+
+      logger.info('WoodpeckerHandlers', `Started export job ${progress.jobId} for campaign ${progress.campaignId}`)
+      return createSuccessResponse(progress)
+
+    } catch (error) {
+      logger.error('WoodpeckerHandlers', 'Failed to start export job', error instanceof Error ? error : new Error(String(error)))
+      return handleIpcError(error, 'woodpecker:startExportJob')
+    }
+  })
+
+  // Get export job progress handler
+  ipcMain.handle('ipc:woodpecker:getExportJob', async (_event, jobId: number) => {
+    logIpcOperation('woodpecker:getExportJob', { jobId })
+
+    try {
+      if (!Number.isInteger(jobId) || jobId <= 0) {
+        throw new Error('Job ID must be a positive integer')
+      }
+
+      return createSuccessResponse(initializeExportQueue().getJob(jobId))
+
+    } catch (error) {
+      logger.error('WoodpeckerHandlers', 'Failed to get export job', error instanceof Error ? error : new Error(String(error)))
+      return handleIpcError(error, 'woodpecker:getExportJob')
+    }
+  })
+
+  // Get unfinished export jobs handler (used to reattach to a running export)
+  ipcMain.handle('ipc:woodpecker:getActiveExportJobs', async () => {
+    logIpcOperation('woodpecker:getActiveExportJobs')
+
+    try {
+      return createSuccessResponse(initializeExportQueue().getActiveJobs())
+
+    } catch (error) {
+      logger.error('WoodpeckerHandlers', 'Failed to get active export jobs', error instanceof Error ? error : new Error(String(error)))
+      return handleIpcError(error, 'woodpecker:getActiveExportJobs')
+    }
+  })
+
+  // Resume a failed or interrupted export job handler
+  ipcMain.handle('ipc:woodpecker:resumeExportJob', async (_event, jobId: number) => {
+    logIpcOperation('woodpecker:resumeExportJob', { jobId })
+
+    try {
+      if (!Number.isInteger(jobId) || jobId <= 0) {
+        throw new Error('Job ID must be a positive integer')
+      }
+
+      const progress = initializeExportQueue().resumeJob(jobId)
+
+      logger.info('WoodpeckerHandlers', `Resumed export job ${jobId}`)
+      return createSuccessResponse(progress)
+
+    } catch (error) {
+      logger.error('WoodpeckerHandlers', 'Failed to resume export job', error instanceof Error ? error : new Error(String(error)))
+      return handleIpcError(error, 'woodpecker:resumeExportJob')
     }
   })
 
@@ -204,12 +451,8 @@ export function setupWoodpeckerHandlers(): void {
       // Initialize Woodpecker service
       const service = initializeWoodpeckerService()
 
-      // Get quota information
-      const quotaInfo = {
-        requestCount: service.getRequestCount(),
-        remainingRequests: service.getRemainingRequests(),
-        maxRequestsPerMinute: 100
-      }
+      // Get quota information, including how many requests are queued for a token
+      const quotaInfo = service.getQuotaInfo()
 
       logger.debug('WoodpeckerHandlers', `Quota info retrieved: ${JSON.stringify(quotaInfo)}`)
       return createSuccessResponse(quotaInfo)
@@ -220,6 +463,51 @@ export function setupWoodpeckerHandlers(): void {
     }
   })
 
+  // Sync prospect engagement back into leads handler
+  ipcMain.handle('ipc:woodpecker:syncEngagement', async (_event, request: WoodpeckerSyncEngagementRequest = {}) => {
+    logIpcOperation('woodpecker:syncEngagement', {
+      campaignIds: request.campaignIds
+    })
+
+    try {
+      // Sanitize input
+      const sanitizedRequest = sanitizeInput(request) as WoodpeckerSyncEngagementRequest
+
+      if (sanitizedRequest.campaignIds !== undefined && !Array.isArray(sanitizedRequest.campaignIds)) {
+        throw new Error('Campaign IDs must be an array')
+      }
+
+      // Initialize Woodpecker service
+      const service = initializeWoodpeckerService()
+
+      const summary = await service.syncProspectEngagement(sanitizedRequest.campaignIds?.map(String))
+
+      logger.info('WoodpeckerHandlers', `Engagement sync finished: ${summary.leadsUpdated} leads updated across ${summary.campaigns.length} campaigns`)
+      return createSuccessResponse(summary)
+
+    } catch (error) {
+      logger.error('WoodpeckerHandlers', 'Failed to sync engagement', error instanceof Error ? error : new Error(String(error)))
+      return handleIpcError(error, 'woodpecker:syncEngagement')
+    }
+  })
+
+  // Get per-campaign sync state handler
+  ipcMain.handle('ipc:woodpecker:getSyncStatus', async (_event, campaignId?: string) => {
+    logIpcOperation('woodpecker:getSyncStatus', { campaignId })
+
+    try {
+      const result = campaignId
+        ? CampaignSyncDAL.getByCampaign(String(campaignId))
+        : CampaignSyncDAL.getAll()
+
+      return createSuccessResponse(result)
+
+    } catch (error) {
+      logger.error('WoodpeckerHandlers', 'Failed to get sync status', error instanceof Error ? error : new Error(String(error)))
+      return handleIpcError(error, 'woodpecker:getSyncStatus')
+    }
+  })
+
   logger.info('WoodpeckerHandlers', 'Woodpecker IPC handlers setup complete')
 }
 
@@ -230,13 +518,23 @@ export function removeWoodpeckerHandlers(): void {
   logger.info('WoodpeckerHandlers', 'Removing Woodpecker IPC handlers...')
   
   ipcMain.removeHandler('ipc:woodpecker:getCampaigns')
+  ipcMain.removeHandler('ipc:woodpecker:createCampaign')
   ipcMain.removeHandler('ipc:woodpecker:addProspects')
   ipcMain.removeHandler('ipc:woodpecker:checkDuplicates')
   ipcMain.removeHandler('ipc:woodpecker:clearCache')
   ipcMain.removeHandler('ipc:woodpecker:getQuotaInfo')
+  ipcMain.removeHandler('ipc:woodpecker:syncEngagement')
+  ipcMain.removeHandler('ipc:woodpecker:getSyncStatus')
+  ipcMain.removeHandler('ipc:woodpecker:startExportJob')
+  ipcMain.removeHandler('ipc:woodpecker:getExportJob')
+  ipcMain.removeHandler('ipc:woodpecker:getActiveExportJobs')
+  ipcMain.removeHandler('ipc:woodpecker:resumeExportJob')
   
-  // Reset service instance
+  // Reset service instances
   woodpeckerService = null
+  exportQueueService = null
+  exportJobCancellations.forEach(release => release())
+  exportJobCancellations.clear()
   
   logger.info('WoodpeckerHandlers', 'Woodpecker IPC handlers removed')
 }
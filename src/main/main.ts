@@ -4,6 +4,8 @@ import { fileURLToPath } from 'node:url'
 import path from 'node:path'
 import fs from 'node:fs'
 import { setupIpcHandlers } from './ipc'
+import { resumeExportJobs } from './ipc/woodpeckerHandlers'
+import { resumeGenerationBatches } from './ipc/claudeHandlers'
 import { setAppDataPath } from '../database/config'
 import { initializeDatabase } from '../database/init'
 import { logger } from './utils/logger'
@@ -375,6 +377,12 @@ app.whenReady().then(async () => {
     await createWindow()
     logger.info('App', 'Main window created successfully')
 
+    // Pick up Woodpecker exports interrupted by a previous shutdown
+    resumeExportJobs()
+
+    // Keep polling Message Batches submitted before the last shutdown
+    resumeGenerationBatches()
+
     // Defer menu creation until after window is ready
     process.nextTick(() => {
       createApplicationMenu()
@@ -0,0 +1,374 @@
+import { logger } from '../utils/logger'
+import { GenerationBatchesDAL } from '../../database/dal'
+import type { GenerationBatchProgress, GenerationBatchItemRecord, GenerationBatchItemResult } from '../../database/dal'
+import { ClaudeApiError } from './claudeService'
+import type { ClaudeService, GenerationRunReport, MessageBatchRequest } from './claudeService'
+import { toTouchpointContent } from '../../utils/sequenceDefinition'
+import { ESTIMATED_SEQUENCE_OUTPUT_TOKENS, calculateUsageCost, estimateTokens } from '../../utils/tokenCounter'
+import type { SequenceTouchpoint } from '../../utils/sequenceDefinition'
+
+export interface BatchGenerationItemInput {
+  leadId: number
+  prompt: string
+  promptPrefix?: string // instructions shared by every lead, cached across the batch
+  leadData: Record<string, unknown>
+  systemPrompt?: string
+  fileIds?: string[]
+  templateId?: number // prompt template version, stored with the generated content
+  sequence?: SequenceTouchpoint[] // touchpoints to write; the default sequence when omitted
+}
+
+export interface StartBatchGenerationRequest {
+  modelId?: string
+  items: BatchGenerationItemInput[]
+}
+
+export type GenerationBatchProgressListener = (progress: GenerationBatchProgress) => void
+
+interface BatchGenerationOptions {
+  pollIntervalMs?: number
+  // Records each result as a generation run, returning the run id
+  recordRun?: (run: GenerationRunReport) => number | undefined
+}
+
+// Request payload stored per item so an unsubmitted batch can be sent after a restart
+interface StoredBatchRequest {
+  prompt: string
+  promptPrefix?: string
+  leadData: Record<string, unknown>
+  systemPrompt?: string
+  fileIds?: string[]
+  templateId?: number
+  sequence?: SequenceTouchpoint[]
+}
+
+const DEFAULT_MODEL_ID = 'claude-sonnet-4-20250514'
+
+/**
+ * Projected cost of a batch, priced like the renderer's pre-flight estimate
+ * from the text each item sends. The system prompt and prompt prefix are
+ * billed as cache writes; attachments are priced by the pre-flight only.
+ */
+export function estimateBatchCost(request: StartBatchGenerationRequest): number {
+  const modelId = request.modelId || DEFAULT_MODEL_ID
+  return request.items.reduce((total, item) => {
+    const cacheWriteTokens = estimateTokens([item.systemPrompt, item.promptPrefix].filter(Boolean).join('\n\n'))
+    const inputTokens = estimateTokens([item.systemPrompt, item.promptPrefix, item.prompt].filter(Boolean).join('\n\n'))
+    return total + calculateUsageCost(
+      {
+        input_tokens: inputTokens - cacheWriteTokens,
+        cache_creation_input_tokens: cacheWriteTokens,
+        output_tokens: ESTIMATED_SEQUENCE_OUTPUT_TOKENS,
+      },
+      modelId,
+      { batch: true }
+    )
+  }, 0)
+}
+
+/**
+ * Generates content for many leads through the Message Batches API. Batches
+ * are persisted in generation_batches with the Anthropic batch id, so polling
+ * picks up where it left off after the app restarts; results are written to
+ * generated_content by lead once the batch ends.
+ */
+export class BatchGenerationService {
+  private claudeService: ClaudeService
+  private readonly pollIntervalMs: number
+  private readonly recordRun?: (run: GenerationRunReport) => number | undefined
+  private runningBatches = new Map<number, Promise<GenerationBatchProgress | null>>()
+  private controllers = new Map<number, AbortController>()
+  private listeners = new Set<GenerationBatchProgressListener>()
+
+  constructor(claudeService: ClaudeService, options: BatchGenerationOptions = {}) {
+    this.claudeService = claudeService
+    this.pollIntervalMs = options.pollIntervalMs ?? 30000
+    this.recordRun = options.recordRun
+  }
+
+  onProgress(listener: GenerationBatchProgressListener): () => void {
+    this.listeners.add(listener)
+    return () => {
+      this.listeners.delete(listener)
+    }
+  }
+
+  /**
+   * Persist a new batch, then submit and poll it in the background.
+   */
+  startBatch(request: StartBatchGenerationRequest): GenerationBatchProgress {
+    if (request.items.length === 0) {
+      throw new ClaudeApiError('No leads to generate content for', 'content', false)
+    }
+
+    const batch = GenerationBatchesDAL.createBatch(
+      { model_id: request.modelId || DEFAULT_MODEL_ID },
+      request.items.map(item => ({
+        lead_id: item.leadId,
+        custom_id: `lead-${item.leadId}`,
+        request: {
+          prompt: item.prompt,
+          promptPrefix: item.promptPrefix,
+          leadData: item.leadData,
+          systemPrompt: item.systemPrompt,
+          fileIds: item.fileIds,
+          templateId: item.templateId,
+          sequence: item.sequence,
+        },
+      }))
+    )
+
+    logger.info('BatchGenerationService', `Created generation batch ${batch.id} with ${request.items.length} lead(s)`)
+
+    this.runBatch(batch.id!)
+    return GenerationBatchesDAL.getProgress(batch.id!)!
+  }
+
+  /**
+   * Resume polling every batch left pending or running by a previous session.
+   * Returns the ids of the batches that were picked up.
+   */
+  resumeUnfinishedBatches(): number[] {
+    const batches = GenerationBatchesDAL.getUnfinished()
+    const resumed: number[] = []
+
+    for (const batch of batches) {
+      if (this.runningBatches.has(batch.id!)) continue
+      logger.info('BatchGenerationService', `Resuming generation batch ${batch.id} (${batch.anthropic_batch_id || 'not yet submitted'})`)
+      this.runBatch(batch.id!)
+      resumed.push(batch.id!)
+    }
+
+    return resumed
+  }
+
+  /**
+   * Stop a batch. The Message Batch is cancelled on Anthropic's side as well;
+   * leads without a result go back to imported. Returns false when there was
+   * nothing left to cancel.
+   */
+  cancelBatch(batchId: number): boolean {
+    const controller = this.controllers.get(batchId)
+    if (controller) {
+      logger.info('BatchGenerationService', `Cancelling generation batch ${batchId}`)
+      controller.abort()
+      return true
+    }
+
+    const batch = GenerationBatchesDAL.getById(batchId)
+    if (!batch || (batch.status !== 'pending' && batch.status !== 'running')) {
+      return false
+    }
+
+    GenerationBatchesDAL.finish(batchId, 'cancelled')
+    this.emitProgress(batchId)
+    return true
+  }
+
+  getBatch(batchId: number): GenerationBatchProgress | null {
+    return GenerationBatchesDAL.getProgress(batchId)
+  }
+
+  getRecentBatches(limit?: number): GenerationBatchProgress[] {
+    return GenerationBatchesDAL.getRecent(limit)
+      .map(batch => GenerationBatchesDAL.getProgress(batch.id!))
+      .filter((progress): progress is GenerationBatchProgress => progress !== null)
+  }
+
+  isRunning(batchId: number): boolean {
+    return this.runningBatches.has(batchId)
+  }
+
+  /**
+   * Resolves once the given batch stops running (immediately if it is idle).
+   */
+  async waitForBatch(batchId: number): Promise<GenerationBatchProgress | null> {
+    return this.runningBatches.get(batchId) ?? GenerationBatchesDAL.getProgress(batchId)
+  }
+
+  private runBatch(batchId: number): Promise<GenerationBatchProgress | null> {
+    const existing = this.runningBatches.get(batchId)
+    if (existing) return existing
+
+    const controller = new AbortController()
+    this.controllers.set(batchId, controller)
+
+    const run = this.processBatch(batchId, controller.signal)
+      .catch(async error => {
+        if (controller.signal.aborted) {
+          await this.cancelRemoteBatch(batchId)
+          GenerationBatchesDAL.finish(batchId, 'cancelled')
+          logger.info('BatchGenerationService', `Generation batch ${batchId} cancelled`)
+          return this.emitProgress(batchId)
+        }
+
+        const message = error instanceof Error ? error.message : String(error)
+        logger.error('BatchGenerationService', `Generation batch ${batchId} failed`, error instanceof Error ? error : new Error(message))
+        GenerationBatchesDAL.finish(batchId, 'failed', message)
+        return this.emitProgress(batchId)
+      })
+      .finally(() => {
+        this.runningBatches.delete(batchId)
+        this.controllers.delete(batchId)
+      })
+
+    this.runningBatches.set(batchId, run)
+    return run
+  }
+
+  private async processBatch(batchId: number, signal: AbortSignal): Promise<GenerationBatchProgress | null> {
+    let batch = GenerationBatchesDAL.getById(batchId)
+    if (!batch) return null
+
+    const items = GenerationBatchesDAL.getItems(batchId)
+
+    if (!batch.anthropic_batch_id) {
+      const submitted = await this.claudeService.createMessageBatch(
+        items.map(item => this.toMessageBatchRequest(item)),
+        batch.model_id,
+        signal
+      )
+      batch = GenerationBatchesDAL.markSubmitted(batchId, submitted.id)!
+    }
+
+    const anthropicBatchId = batch.anthropic_batch_id!
+    this.emitProgress(batchId)
+
+    for (;;) {
+      this.throwIfCancelled(signal)
+
+      const status = await this.pollBatch(anthropicBatchId, signal)
+      if (status) {
+        GenerationBatchesDAL.updateProcessedCount(batchId, status.processed)
+        this.emitProgress(batchId)
+        if (status.processingStatus === 'ended') break
+      }
+
+      await this.delay(this.pollIntervalMs, signal)
+    }
+
+    const storedRequests = new Map(items.map(item => [item.custom_id, JSON.parse(item.request) as StoredBatchRequest]))
+    const requests = Object.fromEntries(
+      items.map(item => [
+        item.custom_id,
+        { ...storedRequests.get(item.custom_id)!, leadId: item.lead_id ?? undefined, modelId: batch.model_id },
+      ])
+    )
+    const runIds = new Map<string, number>()
+    const results = await this.claudeService.getMessageBatchResults(anthropicBatchId, requests, signal, run => {
+      const runId = this.recordRun?.(run)
+      if (run.customId && runId) runIds.set(run.customId, runId)
+    })
+    const itemsByCustomId = new Map(items.map(item => [item.custom_id, item]))
+
+    GenerationBatchesDAL.recordResults(
+      batchId,
+      results
+        .filter(result => itemsByCustomId.has(result.customId))
+        .map((result): GenerationBatchItemResult => ({
+          id: itemsByCustomId.get(result.customId)!.id!,
+          status: result.content ? 'succeeded' : 'failed',
+          touchpoints: result.content
+            ? toTouchpointContent(result.content, storedRequests.get(result.customId)!.sequence)
+            : undefined,
+          templateId: storedRequests.get(result.customId)!.templateId,
+          error: result.error,
+          generationRunId: runIds.get(result.customId),
+        }))
+    )
+
+    // Any item the results did not mention is failed by finish()
+    GenerationBatchesDAL.finish(batchId, 'completed')
+    logger.info('BatchGenerationService', `Generation batch ${batchId} completed`)
+    return this.emitProgress(batchId)
+  }
+
+  /**
+   * Check on the Message Batch. Transient errors are logged and retried on the
+   * next poll; anything else fails the batch.
+   */
+  private async pollBatch(anthropicBatchId: string, signal: AbortSignal) {
+    try {
+      return await this.claudeService.getMessageBatch(anthropicBatchId, signal)
+    } catch (error) {
+      if (error instanceof ClaudeApiError && error.retryable && error.category !== 'auth' && error.category !== 'cancelled') {
+        logger.warn('BatchGenerationService', `Polling message batch ${anthropicBatchId} failed, will retry: ${error.message}`)
+        return null
+      }
+      throw error
+    }
+  }
+
+  // Best effort: the local batch is cancelled even if the API call fails
+  private async cancelRemoteBatch(batchId: number): Promise<void> {
+    const anthropicBatchId = GenerationBatchesDAL.getById(batchId)?.anthropic_batch_id
+    if (!anthropicBatchId) return
+
+    try {
+      await this.claudeService.cancelMessageBatch(anthropicBatchId)
+    } catch (error) {
+      logger.warn('BatchGenerationService', `Failed to cancel message batch ${anthropicBatchId}`, error instanceof Error ? error : new Error(String(error)))
+    }
+  }
+
+  private toMessageBatchRequest(item: GenerationBatchItemRecord): MessageBatchRequest {
+    const request = JSON.parse(item.request) as StoredBatchRequest
+    return {
+      customId: item.custom_id,
+      prompt: request.prompt,
+      promptPrefix: request.promptPrefix,
+      systemPrompt: request.systemPrompt,
+      fileIds: request.fileIds,
+      sequence: request.sequence,
+    }
+  }
+
+  private emitProgress(batchId: number): GenerationBatchProgress | null {
+    const progress = GenerationBatchesDAL.getProgress(batchId)
+    if (!progress) return null
+
+    for (const listener of this.listeners) {
+      try {
+        listener(progress)
+      } catch (error) {
+        logger.warn('BatchGenerationService', 'Progress listener threw', error instanceof Error ? error : new Error(String(error)))
+      }
+    }
+    return progress
+  }
+
+  private throwIfCancelled(signal: AbortSignal): void {
+    if (signal.aborted) {
+      throw new ClaudeApiError('Generation batch cancelled', 'cancelled', false)
+    }
+  }
+
+  private delay(ms: number, signal: AbortSignal): Promise<void> {
+    return new Promise((resolve, reject) => {
+      const onAbort = () => {
+        clearTimeout(timer)
+        reject(new ClaudeApiError('Generation batch cancelled', 'cancelled', false))
+      }
+      const timer = setTimeout(() => {
+        signal.removeEventListener('abort', onAbort)
+        resolve()
+      }, ms)
+
+      if (signal.aborted) {
+        onAbort()
+      } else {
+        signal.addEventListener('abort', onAbort, { once: true })
+      }
+    })
+  }
+}
+
+// Factory function to create service instance
+export function createBatchGenerationService(
+  claudeService: ClaudeService,
+  options?: BatchGenerationOptions
+): BatchGenerationService {
+  return new BatchGenerationService(claudeService, options)
+}
+
+export default BatchGenerationService
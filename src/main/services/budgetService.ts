@@ -0,0 +1,145 @@
+import { settingsService } from './settingsService'
+import type { SpendBudgets } from './settingsService'
+import { GenerationUsageDAL, ImportsDAL, LeadsDAL } from '../../database/dal'
+
+// Spend against one cap; remainingUsd never goes below 0
+export interface BudgetCapStatus {
+  limitUsd: number
+  spentUsd: number
+  remainingUsd: number
+}
+
+export interface ImportBudgetStatus extends BudgetCapStatus {
+  importId: number
+  filename?: string
+  leadCount: number
+  affordableLeads: number
+}
+
+// Budgets as shown in settings, with the spend of the current month
+export interface BudgetStatus {
+  budgets: SpendBudgets
+  monthly: BudgetCapStatus | null
+}
+
+// leadCount covers leads not yet saved; only leadIds count towards per-import caps
+export interface BudgetCheckRequest {
+  leadIds: number[]
+  leadCount?: number
+  perLeadCostUsd: number
+}
+
+// Whether a projected generation fits every cap, and how many leads it covers if not
+export interface BudgetCheck {
+  allowed: boolean
+  totalLeads: number
+  affordableLeads: number
+  projectedCostUsd: number
+  monthly: (BudgetCapStatus & { affordableLeads: number }) | null
+  imports: ImportBudgetStatus[]
+  reason?: string
+}
+
+// Usage timestamps are stored as UTC 'YYYY-MM-DD HH:MM:SS'
+export function startOfMonth(now: Date = new Date()): string {
+  const month = String(now.getUTCMonth() + 1).padStart(2, '0')
+  return `${now.getUTCFullYear()}-${month}-01 00:00:00`
+}
+
+function toCapStatus(limitUsd: number, spentUsd: number): BudgetCapStatus {
+  return { limitUsd, spentUsd, remainingUsd: Math.max(limitUsd - spentUsd, 0) }
+}
+
+function affordableCount(remainingUsd: number, perLeadCostUsd: number, leadCount: number): number {
+  if (perLeadCostUsd <= 0) return leadCount
+  // The epsilon keeps e.g. 0.6 / 0.1 from flooring to 5
+  return Math.min(Math.floor(remainingUsd / perLeadCostUsd + 1e-9), leadCount)
+}
+
+function formatUsd(amount: number): string {
+  return `$${amount.toFixed(2)}`
+}
+
+/**
+ * Compares projected generation cost against the monthly and per-import caps
+ * in settings. Spend comes from the generation_usage ledger, so it reflects
+ * what was actually billed rather than earlier estimates.
+ */
+export class BudgetService {
+  getStatus(now: Date = new Date()): BudgetStatus {
+    const budgets = settingsService.getBudgets()
+    return {
+      budgets,
+      monthly: budgets.monthlyLimitUsd
+        ? toCapStatus(budgets.monthlyLimitUsd, GenerationUsageDAL.getTotalCost({ dateFrom: startOfMonth(now) }))
+        : null,
+    }
+  }
+
+  checkBudget(request: BudgetCheckRequest, now: Date = new Date()): BudgetCheck {
+    const budgets = settingsService.getBudgets()
+    const totalLeads = Math.max(request.leadCount ?? 0, request.leadIds.length)
+    const perLeadCostUsd = Math.max(request.perLeadCostUsd, 0)
+
+    // Leads without an import are only limited by the monthly cap
+    let affordableLeads = totalLeads
+    const imports: ImportBudgetStatus[] = []
+
+    if (budgets.perImportLimitUsd) {
+      affordableLeads = 0
+      let counted = 0
+
+      for (const { import_id: importId, count } of LeadsDAL.countByImport(request.leadIds)) {
+        counted += count
+        const cap = toCapStatus(budgets.perImportLimitUsd, GenerationUsageDAL.getTotalCost({ import_id: importId }))
+        const importAffordable = affordableCount(cap.remainingUsd, perLeadCostUsd, count)
+        affordableLeads += importAffordable
+        imports.push({
+          ...cap,
+          importId,
+          filename: ImportsDAL.getById(importId)?.filename,
+          leadCount: count,
+          affordableLeads: importAffordable,
+        })
+      }
+
+      affordableLeads += totalLeads - counted
+    }
+
+    let monthly: BudgetCheck['monthly'] = null
+    if (budgets.monthlyLimitUsd) {
+      const cap = toCapStatus(budgets.monthlyLimitUsd, GenerationUsageDAL.getTotalCost({ dateFrom: startOfMonth(now) }))
+      monthly = { ...cap, affordableLeads: affordableCount(cap.remainingUsd, perLeadCostUsd, totalLeads) }
+      affordableLeads = Math.min(affordableLeads, monthly.affordableLeads)
+    }
+
+    const allowed = affordableLeads >= totalLeads
+    let reason: string | undefined
+    if (!allowed) {
+      const limiting = monthly && monthly.affordableLeads < totalLeads
+        ? `${formatUsd(monthly.remainingUsd)} left in the monthly budget`
+        : imports
+            .filter(status => status.affordableLeads < status.leadCount)
+            .map(status => `${formatUsd(status.remainingUsd)} left for ${status.filename || `import ${status.importId}`}`)
+            .join(', ')
+      reason = `Budget covers ${affordableLeads} of ${totalLeads} lead(s): ${limiting}`
+    }
+
+    return {
+      allowed,
+      totalLeads,
+      affordableLeads,
+      projectedCostUsd: perLeadCostUsd * totalLeads,
+      monthly,
+      imports,
+      reason,
+    }
+  }
+}
+
+// Factory function to create service instance
+export function createBudgetService(): BudgetService {
+  return new BudgetService()
+}
+
+export default BudgetService
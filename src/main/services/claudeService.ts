@@ -1,6 +1,35 @@
 import { logger } from '../utils/logger'
 import { settingsService } from './settingsService'
+import { getRateLimiter, parseRetryAfter, RateLimitCancelledError } from './rateLimiter'
+import type { RateLimiter, QuotaInfo } from './rateLimiter'
 import { textToHtml, ensureHtml, htmlToText } from '../../utils/htmlConverter'
+import {
+  SEQUENCE_TOOL_NAME,
+  REWRITE_TOOL_NAME,
+  VARIANTS_TOOL_NAME,
+  buildSequenceOutputTool,
+  buildRewriteTool,
+  buildRewritePrompt,
+  buildVariantsTool,
+  buildVariantsPrompt,
+  validateSequenceOutput,
+  mergeSequenceOutput,
+  buildRepairInstruction,
+  usesLegacyBlockFormat,
+  readStreamedToolInput,
+  readStreamedBlocks,
+  snippetsFromStream,
+} from './sequenceOutput'
+import type { SequenceSnippets, SnippetField, StreamedSnippet } from './sequenceOutput'
+import { MAX_SNIPPET_VARIANTS, resolveSequence, snippetField } from '../../utils/sequenceDefinition'
+import type { SequenceTouchpoint } from '../../utils/sequenceDefinition'
+import type { TokenUsage } from '../../utils/tokenCounter'
+
+// Follow-up calls allowed when a structured response is missing fields
+const MAX_REPAIR_ATTEMPTS = 2
+
+// Marks the end of a prompt prefix that is reused across leads (5 minute TTL)
+const CACHE_CONTROL = { type: 'ephemeral' } as const
 
 // Lazy load Anthropic SDK only when needed
 let anthropicClient: any = null
@@ -18,7 +47,8 @@ const getAnthropicClient = async () => {
   return anthropicClient
 }
 
-export interface ClaudeResponse {
+// Lead columns plus one snippet field per touchpoint of the sequence
+export interface ClaudeResponse extends SequenceSnippets {
   email: string
   first_name: string
   last_name: string
@@ -27,13 +57,188 @@ export interface ClaudeResponse {
   linkedin_url: string
   tags: string
   industry: string
-  snippet1: string
-  snippet2: string
-  snippet3: string
-  snippet4: string
-  snippet5: string
-  snippet6: string
-  snippet7: string
+}
+
+// The parts of a Messages API response this service reads
+interface MessageContentBlock {
+  type: string
+  id?: string
+  text?: string
+  input?: unknown
+}
+
+interface MessageResponse {
+  content: MessageContentBlock[]
+  model?: string
+  usage?: TokenUsage
+}
+
+interface MessageStreamEvent {
+  type: string
+  message?: { model?: string; usage?: TokenUsage }
+  content_block?: MessageContentBlock
+  delta?: { type: string; text?: string; partial_json?: string }
+  usage?: Partial<TokenUsage>
+}
+
+// Token usage of one API call, reported to onUsage listeners
+export interface UsageReport {
+  modelId: string
+  operation: 'generate' | 'stream' | 'repair' | 'batch'
+  usage: TokenUsage
+  leadId?: number
+}
+
+export type UsageListener = (report: UsageReport) => void
+
+/**
+ * One generation call as sent and received, for the audit trail. responses
+ * holds every API response in order, repair turns included; a streamed call
+ * has a single response rebuilt from the stream.
+ */
+export interface GenerationRunReport {
+  operation: 'generate' | 'stream' | 'batch' | 'rewrite' | 'variants'
+  modelId: string
+  leadId?: number
+  prompt: string
+  promptPrefix?: string
+  systemPrompt?: string
+  fileIds?: string[]
+  request: unknown
+  responses: unknown[]
+  // A rewrite is parsed into its one snippet, variants into a list for it
+  parsed?: ClaudeResponse | Partial<Record<SnippetField, string | string[]>>
+  status: 'succeeded' | 'failed' | 'partial'
+  error?: string
+  usage?: TokenUsage // summed over responses
+  durationMs?: number
+  customId?: string // the batch request it answers
+}
+
+export type GenerationRunCallback = (run: GenerationRunReport) => void
+
+// One snippet to rewrite; snippets holds the current text of the whole sequence as context
+export interface SnippetRewriteRequest {
+  field: SnippetField
+  instruction: string // e.g. "shorter" or "mention their Series B"
+  snippets: Partial<SequenceSnippets>
+  leadData: Record<string, unknown>
+  sequence?: SequenceTouchpoint[]
+}
+
+// Alternatives to one snippet for an A/B test
+export interface SnippetVariantsRequest {
+  field: SnippetField
+  count: number
+  snippets: Partial<SequenceSnippets>
+  leadData: Record<string, unknown>
+  sequence?: SequenceTouchpoint[]
+  instruction?: string // optional steer, e.g. "lead with a question"
+}
+
+// Result of a streamed generation; partial is set when it was stopped early
+export interface ClaudeStreamResult {
+  content: ClaudeResponse
+  partial: boolean
+}
+
+/**
+ * A prompt split into instructions that are the same for every lead and the
+ * lead-specific part. The prefix is sent ahead of attached files so that both
+ * are served from the prompt cache on every lead after the first. sequence is
+ * the touchpoint layout to write; plain string prompts use the default one.
+ */
+export interface CacheablePrompt {
+  prefix: string
+  prompt: string
+  sequence?: SequenceTouchpoint[]
+}
+
+export type GenerationPrompt = string | CacheablePrompt
+
+function splitPrompt(prompt: GenerationPrompt): CacheablePrompt {
+  return typeof prompt === 'string' ? { prefix: '', prompt } : prompt
+}
+
+function promptSequence(prompt: GenerationPrompt): SequenceTouchpoint[] {
+  return resolveSequence(splitPrompt(prompt).sequence)
+}
+
+// Token usage of a call and its repair turns together
+function totalUsage(responses: Array<{ usage?: TokenUsage }>): TokenUsage | undefined {
+  const usages = responses.flatMap(response => response.usage ? [response.usage] : [])
+  if (usages.length === 0) return undefined
+
+  return usages.reduce<TokenUsage>((total, usage) => ({
+    input_tokens: total.input_tokens + usage.input_tokens,
+    output_tokens: total.output_tokens + usage.output_tokens,
+    cache_creation_input_tokens: (total.cache_creation_input_tokens || 0) + (usage.cache_creation_input_tokens || 0),
+    cache_read_input_tokens: (total.cache_read_input_tokens || 0) + (usage.cache_read_input_tokens || 0),
+  }), { input_tokens: 0, output_tokens: 0, cache_creation_input_tokens: 0, cache_read_input_tokens: 0 })
+}
+
+function promptText(prompt: GenerationPrompt): string {
+  const { prefix, prompt: leadPrompt } = splitPrompt(prompt)
+  return prefix ? `${prefix}\n\n${leadPrompt}` : leadPrompt
+}
+
+// One lead's request inside a Message Batch
+export interface MessageBatchRequest {
+  customId: string
+  prompt: string
+  promptPrefix?: string
+  systemPrompt?: string
+  fileIds?: string[]
+  sequence?: SequenceTouchpoint[]
+}
+
+// Processing state of a Message Batch; processed counts requests that have ended
+export interface MessageBatchStatus {
+  id: string
+  processingStatus: 'in_progress' | 'canceling' | 'ended'
+  processed: number
+  total: number
+}
+
+// What getMessageBatchResults needs to know about each submitted request
+export interface MessageBatchResultContext {
+  leadData: Record<string, unknown>
+  leadId?: number
+  sequence?: SequenceTouchpoint[]
+  // The submitted request, for the generation audit trail
+  modelId?: string
+  prompt?: string
+  promptPrefix?: string
+  systemPrompt?: string
+  fileIds?: string[]
+}
+
+// Outcome of one batch request, keyed by the custom id it was submitted with
+export interface MessageBatchResult {
+  customId: string
+  content?: ClaudeResponse
+  error?: string
+}
+
+interface MessageBatchResponse {
+  id: string
+  processing_status: MessageBatchStatus['processingStatus']
+  request_counts: {
+    processing: number
+    succeeded: number
+    errored: number
+    canceled: number
+    expired: number
+  }
+}
+
+interface MessageBatchResultLine {
+  custom_id: string
+  result: {
+    type: 'succeeded' | 'errored' | 'canceled' | 'expired'
+    message?: MessageResponse
+    error?: { error?: { message?: string } }
+  }
 }
 
 export class ClaudeApiError extends Error {
@@ -43,6 +248,7 @@ export class ClaudeApiError extends Error {
     | 'content'
     | 'quota'
     | 'auth'
+    | 'cancelled'
     | 'unknown'
   public retryable: boolean
 
@@ -54,6 +260,7 @@ export class ClaudeApiError extends Error {
       | 'content'
       | 'quota'
       | 'auth'
+      | 'cancelled'
       | 'unknown',
     retryable: boolean = false
   ) {
@@ -67,9 +274,8 @@ export class ClaudeApiError extends Error {
 export class ClaudeService {
   private client: any = null
   private apiKey: string
-  private readonly MAX_REQUESTS_PER_MINUTE = 100
-  private requestCount = 0
-  private lastResetTime = Date.now()
+  private rateLimiter: RateLimiter = getRateLimiter('claude')
+  private usageListeners = new Set<UsageListener>()
 
   constructor(apiKey?: string) {
     // Try parameter first, then settings service, then environment
@@ -94,6 +300,54 @@ export class ClaudeService {
     logger.info('ClaudeService', 'Claude service initialized (client will be loaded on demand)')
   }
 
+  /**
+   * Subscribe to the token usage of every API call this service makes.
+   * Returns a function that removes the listener.
+   */
+  onUsage(listener: UsageListener): () => void {
+    this.usageListeners.add(listener)
+    return () => {
+      this.usageListeners.delete(listener)
+    }
+  }
+
+  // A failing listener must never fail the generation that produced the usage
+  private reportUsage(report: UsageReport): void {
+    const { cache_read_input_tokens: cacheRead = 0, cache_creation_input_tokens: cacheWrite = 0 } = report.usage
+    if (cacheRead || cacheWrite) {
+      logger.info('ClaudeService', `Prompt cache (${report.operation}): ${cacheRead} tokens read, ${cacheWrite} tokens written`)
+    }
+
+    for (const listener of this.usageListeners) {
+      try {
+        listener(report)
+      } catch (error) {
+        logger.warn('ClaudeService', 'Usage listener threw', error instanceof Error ? error : new Error(String(error)))
+      }
+    }
+  }
+
+  // Audit a generation call; as with usage, a failing callback must not fail the call
+  private reportRun(
+    onRun: GenerationRunCallback | undefined,
+    prompt: GenerationPrompt,
+    run: Omit<GenerationRunReport, 'prompt' | 'promptPrefix' | 'usage'>
+  ): void {
+    if (!onRun) return
+
+    const { prefix, prompt: leadPrompt } = splitPrompt(prompt)
+    try {
+      onRun({
+        ...run,
+        prompt: leadPrompt,
+        promptPrefix: prefix || undefined,
+        usage: totalUsage(run.responses as Array<{ usage?: TokenUsage }>),
+      })
+    } catch (error) {
+      logger.warn('ClaudeService', 'Generation run callback threw', error instanceof Error ? error : new Error(String(error)))
+    }
+  }
+
   private async getClient() {
     if (!this.client) {
       const Anthropic = await import('@anthropic-ai/sdk')
@@ -108,33 +362,111 @@ export class ClaudeService {
     return this.client
   }
 
-  private resetRateLimitIfNeeded(): void {
-    const now = Date.now()
-    if (now - this.lastResetTime >= 60000) {
-      this.requestCount = 0
-      this.lastResetTime = now
+  // Waits for a token from the shared Claude budget instead of failing
+  private async checkRateLimit(signal?: AbortSignal): Promise<void> {
+    const queueDepth = this.rateLimiter.getQueueDepth()
+    if (queueDepth > 0) {
+      logger.debug('ClaudeService', `Waiting for rate limit (${queueDepth} request(s) ahead)`)
+    }
+
+    try {
+      await this.rateLimiter.acquire(signal)
+    } catch (error) {
+      if (error instanceof RateLimitCancelledError) {
+        throw new ClaudeApiError('Generation cancelled', 'cancelled', false)
+      }
+      throw error
     }
   }
 
-  private async checkRateLimit(): Promise<void> {
-    this.resetRateLimitIfNeeded()
 
-    if (this.requestCount >= this.MAX_REQUESTS_PER_MINUTE) {
-      const waitTime = 60000 - (Date.now() - this.lastResetTime)
+  // Lead columns echoed back alongside the generated snippets
+  private leadFields(leadData: Record<string, unknown>) {
+    return {
+      email: String(leadData.email || ''),
+      first_name: String(leadData.first_name || leadData.firstName || ''),
+      last_name: String(leadData.last_name || leadData.lastName || ''),
+      company: String(leadData.company || ''),
+      title: String(leadData.title || ''),
+      linkedin_url: String(leadData.linkedin_url || leadData.linkedin || ''),
+      tags: String(leadData.tags || ''),
+      industry: String(leadData.industry || 'Technology'),
+    }
+  }
+
+  /**
+   * Validate the write_email_sequence tool input. When fields are missing the
+   * tool call is answered with an error result asking Claude to resend it, up
+   * to MAX_REPAIR_ATTEMPTS times; fields that were already valid are kept.
+   */
+  private async parseStructuredOutput(
+    apiCall: { model: string; messages: unknown[] },
+    response: MessageResponse,
+    leadData: Record<string, unknown>,
+    sequence: SequenceTouchpoint[],
+    signal?: AbortSignal,
+    leadId?: number,
+    responses?: MessageResponse[]
+  ): Promise<ClaudeResponse> {
+    let toolUse = response.content.find(block => block.type === 'tool_use')
+    let result = validateSequenceOutput(toolUse?.input, sequence)
+    let messages = apiCall.messages
+
+    for (let attempt = 1; result.missing.length > 0 && attempt <= MAX_REPAIR_ATTEMPTS; attempt++) {
+      logger.warn('ClaudeService', `Structured output missing ${result.missing.join(', ')}, requesting repair (attempt ${attempt}/${MAX_REPAIR_ATTEMPTS})`)
+
+      messages = [
+        ...messages,
+        { role: 'assistant', content: response.content },
+        {
+          role: 'user',
+          content: [
+            {
+              type: 'tool_result',
+              tool_use_id: toolUse?.id,
+              is_error: true,
+              content: buildRepairInstruction(result.missing),
+            },
+          ],
+        },
+      ]
+
+      this.throwIfCancelled(signal)
+      await this.checkRateLimit(signal)
+      const client = await this.getClient()
+      response = await client.messages.create({ ...apiCall, messages }, { signal })
+      responses?.push(response)
+      logger.debug('ClaudeService', `Repair usage info: ${JSON.stringify(response.usage)}`)
+      if (response.usage) {
+        this.reportUsage({ modelId: response.model || apiCall.model, operation: 'repair', usage: response.usage, leadId })
+      }
+
+      toolUse = response.content.find(block => block.type === 'tool_use')
+      if (!toolUse) {
+        logger.warn('ClaudeService', 'Repair response did not call the sequence tool')
+        break
+      }
+      result = mergeSequenceOutput(result.snippets, validateSequenceOutput(toolUse.input, sequence), sequence)
+    }
+
+    if (result.missing.length > 0) {
       throw new ClaudeApiError(
-        `Rate limit reached. Please wait ${Math.ceil(waitTime / 1000)} seconds.`,
-        'rate_limit',
+        `Missing required field: ${result.missing[0]}`,
+        'content',
         true
       )
     }
 
-    this.requestCount++
+    return {
+      ...this.leadFields(leadData),
+      ...result.snippets,
+    }
   }
 
-
   private parseTextBlocks(
     responseText: string,
-    leadData: Record<string, unknown>
+    leadData: Record<string, unknown>,
+    sequence: SequenceTouchpoint[]
   ): ClaudeResponse {
     logger.debug('ClaudeService', 'Parsing text blocks from response')
     logger.debug('ClaudeService', `Response length: ${responseText.length} characters`)
@@ -152,9 +484,9 @@ export class ClaudeService {
       logger.debug('ClaudeService', `Block ${index + 1} (${block.length} chars): ${block.substring(0, 100)}${block.length > 100 ? '...' : ''}`)
     })
     
-    if (blocks.length !== 7) {
+    if (blocks.length !== sequence.length) {
       logger.error('ClaudeService', 'Block count mismatch!')
-      logger.error('ClaudeService', `Expected: 7 blocks, Received: ${blocks.length} blocks`)
+      logger.error('ClaudeService', `Expected: ${sequence.length} blocks, Received: ${blocks.length} blocks`)
       logger.debug('ClaudeService', `Raw response preview (first 1000 chars): ${responseText.substring(0, 1000)}`)
       
       // If we only got 1 block, check if it's JSON format
@@ -167,7 +499,7 @@ export class ClaudeService {
           logger.info('ClaudeService', 'Response is in JSON format. Converting to expected format...')
           
           // Check if it has the expected snippet fields
-          if (jsonResponse.snippet1 && jsonResponse.snippet2) {
+          if (sequence.some(({ slot }) => jsonResponse[snippetField(slot)])) {
             logger.info('ClaudeService', 'Found snippet fields in JSON. Using JSON response directly.')
             
             // Return the JSON response as-is since it already has the right structure
@@ -180,13 +512,10 @@ export class ClaudeService {
               linkedin_url: String(jsonResponse.linkedin_url || leadData.linkedin_url || ''),
               tags: String(jsonResponse.tags || leadData.tags || ''),
               industry: String(jsonResponse.industry || leadData.industry || 'Technology'),
-              snippet1: String(jsonResponse.snippet1 || ''),
-              snippet2: ensureHtml(jsonResponse.snippet2),
-              snippet3: String(jsonResponse.snippet3 || ''),
-              snippet4: ensureHtml(jsonResponse.snippet4),
-              snippet5: ensureHtml(jsonResponse.snippet5),
-              snippet6: ensureHtml(jsonResponse.snippet6),
-              snippet7: ensureHtml(jsonResponse.snippet7),
+              ...Object.fromEntries(sequence.map(({ slot, format }) => {
+                const value = jsonResponse[snippetField(slot)]
+                return [snippetField(slot), format === 'text' ? String(value || '') : ensureHtml(value)]
+              })),
             }
           }
         } catch {
@@ -195,253 +524,448 @@ export class ClaudeService {
       }
       
       throw new ClaudeApiError(
-        `Expected 7 content blocks with ---BLOCK--- delimiters, but received ${blocks.length}. Check logs for full response.`,
+        `Expected ${sequence.length} content blocks with ---BLOCK--- delimiters, but received ${blocks.length}. Check logs for full response.`,
         'content',
         true
       )
     }
 
-    // Extract lead data from the provided leadData parameter
-    const email = String(leadData.email || '')
-    const firstName = String(leadData.first_name || leadData.firstName || '')
-    const lastName = String(leadData.last_name || leadData.lastName || '')
-    const company = String(leadData.company || '')
-    const title = String(leadData.title || '')
-    const linkedinUrl = String(leadData.linkedin_url || leadData.linkedin || '')
-    const industry = String(leadData.industry || 'Technology')
-    const tags = String(leadData.tags || '')
-
-    // Parse each block
-    const snippet1 = htmlToText(blocks[0].trim()) // Subject line (ensure plain text)
-    const snippet2 = textToHtml(blocks[1].trim()) // Day 1 Email (convert to HTML)
-    const snippet3 = htmlToText(blocks[2].trim()) // LinkedIn message (ensure plain text)
-    const snippet4 = textToHtml(blocks[3].trim()) // Day 5 Bump (convert to HTML)
-    const snippet5 = textToHtml(blocks[4].trim()) // Day 9-10 Follow-up (convert to HTML)
-    const snippet6 = textToHtml(blocks[5].trim()) // Day 13 Bump (convert to HTML)
-    const snippet7 = textToHtml(blocks[6].trim()) // Day 20 Breakup (convert to HTML)
+    // Blocks follow the touchpoint order; plain text touchpoints (subject, LinkedIn) stay text
+    const snippets = Object.fromEntries(sequence.map(({ slot, format }, index) => {
+      const block = blocks[index].trim()
+      return [snippetField(slot), format === 'text' ? htmlToText(block) : textToHtml(block)]
+    }))
 
     return {
-      email,
-      first_name: firstName,
-      last_name: lastName,
-      company,
-      title,
-      linkedin_url: linkedinUrl,
-      tags,
-      industry,
-      snippet1,
-      snippet2,
-      snippet3,
-      snippet4,
-      snippet5,
-      snippet6,
-      snippet7,
+      ...this.leadFields(leadData),
+      ...snippets,
     }
   }
 
-  async generateContent(
-    prompt: string,
-    leadData: Record<string, unknown>,
-    modelId: string = 'claude-sonnet-4-20250514',
+  /**
+   * Messages API request shared by the blocking, streaming and batch paths.
+   * Cache breakpoints go after the system prompt and after the last block
+   * that is the same for every lead (prompt prefix and attached files); the
+   * lead-specific prompt always comes last so it never invalidates the cache.
+   */
+  private buildMessageRequest(
+    prompt: GenerationPrompt,
+    modelId: string,
     systemPrompt?: string,
     fileIds?: string[]
-  ): Promise<ClaudeResponse> {
-    logger.info('ClaudeService', `Starting API call with model: ${modelId}`)
-    logger.debug('ClaudeService', `Prompt length: ${prompt.length} characters`)
-    logger.debug('ClaudeService', `Request count before call: ${this.requestCount}`)
+  ): { model: string; messages: unknown[] } & Record<string, unknown> {
+    const { prefix, prompt: leadPrompt } = splitPrompt(prompt)
+    const messageContent: any[] = []
 
-    const startTime = Date.now()
+    if (prefix) {
+      messageContent.push({
+        type: 'text',
+        text: prefix
+      })
+    }
 
-    try {
-      await this.checkRateLimit()
-      logger.debug('ClaudeService', 'Rate limit check passed')
+    // Add file references if provided
+    if (fileIds && fileIds.length > 0) {
+      logger.debug('ClaudeService', `Adding file references: ${fileIds}`)
+      fileIds.forEach(fileId => {
+        // Determine content type based on file ID or file metadata
+        // For now, we'll default to image since most uploads are images
+        messageContent.push({
+          type: 'image',
+          source: {
+            type: 'file',
+            file_id: fileId
+          }
+        })
+      })
+    }
 
-      logger.info('ClaudeService', 'Making API call to Claude...')
+    if (messageContent.length > 0) {
+      messageContent[messageContent.length - 1].cache_control = CACHE_CONTROL
+    }
 
-      // Build message content - start with text
-      const messageContent: any[] = [
+    messageContent.push({
+      type: 'text',
+      text: leadPrompt
+    })
+
+    const apiCall: any = {
+      model: modelId,
+      max_tokens: 4000,
+      temperature: 0.7,
+      messages: [
         {
-          type: 'text',
-          text: prompt
-        }
-      ]
+          role: 'user',
+          content: messageContent,
+        },
+      ],
+    }
 
-      // Add file references if provided
-      if (fileIds && fileIds.length > 0) {
-        logger.debug('ClaudeService', `Adding file references: ${fileIds}`)
-        fileIds.forEach(fileId => {
-          // Determine content type based on file ID or file metadata
-          // For now, we'll default to image since most uploads are images
-          messageContent.push({
-            type: 'image',
-            source: {
-              type: 'file',
-              file_id: fileId
-            }
-          })
-        })
-      }
+    // Add system prompt if provided; the tool definition before it is cached along with it
+    if (systemPrompt) {
+      apiCall.system = [{ type: 'text', text: systemPrompt, cache_control: CACHE_CONTROL }]
+      logger.debug('ClaudeService', `Using system prompt: ${systemPrompt.length} characters`)
+    }
 
-      const apiCall: any = {
-        model: modelId,
-        max_tokens: 4000,
-        temperature: 0.7,
-        messages: [
-          {
-            role: 'user',
-            content: messageContent,
-          },
-        ],
-      }
+    // Ask for a typed tool call unless the prompt still uses the ---BLOCK--- format
+    if (usesLegacyBlockFormat(promptText(prompt), systemPrompt)) {
+      logger.info('ClaudeService', 'Prompt uses ---BLOCK--- delimiters, parsing text blocks')
+    } else {
+      apiCall.tools = [buildSequenceOutputTool(promptSequence(prompt))]
+      apiCall.tool_choice = { type: 'tool', name: SEQUENCE_TOOL_NAME }
+    }
 
-      // Add system prompt if provided
-      if (systemPrompt) {
-        apiCall.system = systemPrompt
-        logger.debug('ClaudeService', `Using system prompt: ${systemPrompt.length} characters`)
+    return apiCall
+  }
+
+  private assertRequiredSnippets(parsedResponse: ClaudeResponse, sequence: SequenceTouchpoint[]): void {
+    for (const field of sequence.map(({ slot }) => snippetField(slot))) {
+      if (!parsedResponse[field]) {
+        logger.error('ClaudeService', `Missing required field: ${field}`)
+        logger.debug('ClaudeService', `Available fields: ${Object.keys(parsedResponse)}`)
+        throw new ClaudeApiError(
+          `Missing required field: ${field}`,
+          'content',
+          true
+        )
       }
+    }
+  }
 
-      const client = await this.getClient()
-      const response = await client.messages.create(apiCall)
+  // Map SDK and network failures onto ClaudeApiError categories
+  private async toClaudeApiError(error: unknown, signal?: AbortSignal): Promise<ClaudeApiError> {
+    if (error instanceof ClaudeApiError) {
+      return error
+    }
 
-      const duration = Date.now() - startTime
-      logger.info('ClaudeService', `Received response from Claude API in ${duration}ms`)
-      logger.debug('ClaudeService', `Usage info: ${JSON.stringify(response.usage)}`)
+    // The SDK surfaces an aborted request as a generic error, so check the signal itself
+    if (signal?.aborted) {
+      return new ClaudeApiError('Generation cancelled', 'cancelled', false)
+    }
 
-      const content = response.content[0]
-      logger.debug('ClaudeService', `Response type: ${content.type}`)
-      if (content.type !== 'text') {
-        throw new ClaudeApiError(
-          'Unexpected response format from Claude API',
+    // The SDK is loaded lazily, so resolve its error class the same way
+    const { APIError } = await import('@anthropic-ai/sdk')
+
+    if (error instanceof APIError) {
+      logger.error('ClaudeService', `Anthropic API Error: ${error.status} ${error.message}`)
+
+      if (error.status === 429) {
+        // Hold back every queued Claude request until the server allows more
+        const retryAfterMs = parseRetryAfter(error.headers?.get?.('retry-after'))
+        this.rateLimiter.pauseFor(retryAfterMs ?? 60000)
+        return new ClaudeApiError(
+          'Rate limit exceeded. Please wait before trying again.',
+          'rate_limit',
+          true
+        )
+      } else if (error.status === 401) {
+        return new ClaudeApiError(
+          'Invalid API key. Please check your CLAUDE_API_KEY configuration.',
+          'auth',
+          false
+        )
+      } else if (error.status === 403) {
+        return new ClaudeApiError(
+          'Access forbidden. You may not have access to this model or have exceeded your quota.',
+          'auth',
+          false
+        )
+      } else if (error.status === 400) {
+        // Check if it's a model-specific error
+        if (error.message?.includes('model') || error.message?.includes('Model')) {
+          return new ClaudeApiError(
+            `Model error: ${error.message}. The selected model may not be available or supported.`,
+            'content',
+            false
+          )
+        } else {
+          return new ClaudeApiError(
+            `Bad request: ${error.message}`,
+            'content',
+            false
+          )
+        }
+      } else if (error.status === 404) {
+        return new ClaudeApiError(
+          'Model not found. The selected model may not exist or you may not have access to it.',
           'content',
+          false
+        )
+      } else if (error.status >= 500) {
+        return new ClaudeApiError(
+          'Claude API server error. Please try again later.',
+          'network',
+          true
+        )
+      } else {
+        return new ClaudeApiError(
+          `Claude API error (${error.status}): ${error.message}`,
+          'unknown',
           true
         )
       }
+    }
 
-      logger.debug('ClaudeService', `Response text length: ${content.text.length} characters`)
-      logger.debug('ClaudeService', `First 200 chars of response: ${content.text.substring(0, 200)}`)
+    // Network or other errors
+    if (error instanceof Error && error.message.includes('network')) {
+      return new ClaudeApiError(
+        'Network error. Please check your connection and try again.',
+        'network',
+        true
+      )
+    }
 
-      // Parse text blocks response
-      const parsedResponse = this.parseTextBlocks(content.text, leadData)
-      logger.debug('ClaudeService', `Parsed into ${Object.keys(parsedResponse).length} fields`)
+    return new ClaudeApiError(
+      `Unexpected error: ${error instanceof Error ? error.message : 'Unknown error'}`,
+      'unknown',
+      true
+    )
+  }
 
-      // Validate required fields
-      const requiredSnippets = [
-        'snippet1',
-        'snippet2',
-        'snippet3',
-        'snippet4',
-        'snippet5',
-        'snippet6',
-        'snippet7',
-      ]
+  async generateContent(
+    prompt: GenerationPrompt,
+    leadData: Record<string, unknown>,
+    modelId: string = 'claude-sonnet-4-20250514',
+    systemPrompt?: string,
+    fileIds?: string[],
+    signal?: AbortSignal,
+    leadId?: number,
+    onRun?: GenerationRunCallback
+  ): Promise<ClaudeResponse> {
+    logger.info('ClaudeService', `Starting API call with model: ${modelId}`)
+    logger.debug('ClaudeService', `Prompt length: ${promptText(prompt).length} characters`)
+    logger.debug('ClaudeService', `Request count before call: ${this.rateLimiter.getQuotaInfo().requestCount}`)
+
+    const startTime = Date.now()
+    // Set once the request is sent, so only calls that reached the API are audited
+    let apiCall: ReturnType<ClaudeService['buildMessageRequest']> | undefined
+    const responses: MessageResponse[] = []
+    const run = () => ({
+      operation: 'generate' as const,
+      modelId: responses[0]?.model || modelId,
+      leadId,
+      systemPrompt,
+      fileIds,
+      request: apiCall,
+      responses,
+      durationMs: Date.now() - startTime,
+    })
+
+    try {
+      this.throwIfCancelled(signal)
+      await this.checkRateLimit(signal)
+      logger.debug('ClaudeService', 'Rate limit check passed')
 
-      for (const field of requiredSnippets) {
-        if (!parsedResponse[field as keyof ClaudeResponse]) {
-          logger.error('ClaudeService', `Missing required field: ${field}`)
-          logger.debug('ClaudeService', `Available fields: ${Object.keys(parsedResponse)}`)
+      logger.info('ClaudeService', 'Making API call to Claude...')
+
+      apiCall = this.buildMessageRequest(prompt, modelId, systemPrompt, fileIds)
+      const client = await this.getClient()
+      const response: MessageResponse = await client.messages.create(apiCall, { signal })
+      responses.push(response)
+
+      const duration = Date.now() - startTime
+      logger.info('ClaudeService', `Received response from Claude API in ${duration}ms`)
+      logger.debug('ClaudeService', `Usage info: ${JSON.stringify(response.usage)}`)
+      if (response.usage) {
+        this.reportUsage({ modelId: response.model || modelId, operation: 'generate', usage: response.usage, leadId })
+      }
+
+      const sequence = promptSequence(prompt)
+      let parsedResponse: ClaudeResponse
+      if (response.content.some(block => block.type === 'tool_use')) {
+        parsedResponse = await this.parseStructuredOutput(apiCall, response, leadData, sequence, signal, leadId, responses)
+      } else {
+        const content = response.content[0]
+        logger.debug('ClaudeService', `Response type: ${content.type}`)
+        if (content.type !== 'text' || typeof content.text !== 'string') {
           throw new ClaudeApiError(
-            `Missing required field: ${field}`,
+            'Unexpected response format from Claude API',
             'content',
             true
           )
         }
+
+        logger.debug('ClaudeService', `Response text length: ${content.text.length} characters`)
+        logger.debug('ClaudeService', `First 200 chars of response: ${content.text.substring(0, 200)}`)
+
+        // Fall back to parsing text blocks
+        parsedResponse = this.parseTextBlocks(content.text, leadData, sequence)
       }
+      logger.debug('ClaudeService', `Parsed into ${Object.keys(parsedResponse).length} fields`)
+
+      this.assertRequiredSnippets(parsedResponse, sequence)
 
       logger.info('ClaudeService', 'All required fields present, returning response')
+      this.reportRun(onRun, prompt, { ...run(), status: 'succeeded', parsed: parsedResponse })
       return parsedResponse
     } catch (error) {
       logger.error('ClaudeService', 'Error occurred', error instanceof Error ? error : new Error(String(error)))
-      if (error instanceof ClaudeApiError) {
-        throw error
+      const apiError = await this.toClaudeApiError(error, signal)
+      if (apiCall) {
+        this.reportRun(onRun, prompt, { ...run(), status: 'failed', error: apiError.message })
       }
+      throw apiError
+    }
+  }
 
-      if (error instanceof Anthropic.APIError) {
-        logger.error('ClaudeService', `Anthropic API Error: ${error.status} ${error.message}`)
+  /**
+   * Streaming variant of generateContent. onUpdate receives each snippet's
+   * text as it grows and once more when the snippet is complete. If the signal
+   * fires mid-stream, the snippets received so far are returned with
+   * partial: true instead of an error, so nothing already written is lost.
+   */
+  async generateContentStream(
+    prompt: GenerationPrompt,
+    leadData: Record<string, unknown>,
+    modelId: string = 'claude-sonnet-4-20250514',
+    systemPrompt?: string,
+    fileIds?: string[],
+    signal?: AbortSignal,
+    onUpdate?: (update: StreamedSnippet) => void,
+    leadId?: number,
+    onRun?: GenerationRunCallback
+  ): Promise<ClaudeStreamResult> {
+    logger.info('ClaudeService', `Starting streaming API call with model: ${modelId}`)
+    logger.debug('ClaudeService', `Prompt length: ${promptText(prompt).length} characters`)
 
-        if (error.status === 429) {
-          throw new ClaudeApiError(
-            'Rate limit exceeded. Please wait before trying again.',
-            'rate_limit',
-            true
-          )
-        } else if (error.status === 401) {
-          throw new ClaudeApiError(
-            'Invalid API key. Please check your CLAUDE_API_KEY configuration.',
-            'auth',
-            false
-          )
-        } else if (error.status === 403) {
-          throw new ClaudeApiError(
-            'Access forbidden. You may not have access to this model or have exceeded your quota.',
-            'auth',
-            false
-          )
-        } else if (error.status === 400) {
-          // Check if it's a model-specific error
-          if (error.message?.includes('model') || error.message?.includes('Model')) {
-            throw new ClaudeApiError(
-              `Model error: ${error.message}. The selected model may not be available or supported.`,
-              'content',
-              false
-            )
-          } else {
-            throw new ClaudeApiError(
-              `Bad request: ${error.message}`,
-              'content',
-              false
-            )
-          }
-        } else if (error.status === 404) {
-          throw new ClaudeApiError(
-            'Model not found. The selected model may not exist or you may not have access to it.',
-            'content',
-            false
-          )
-        } else if (error.status >= 500) {
-          throw new ClaudeApiError(
-            'Claude API server error. Please try again later.',
-            'network',
-            true
-          )
-        } else {
-          throw new ClaudeApiError(
-            `Claude API error (${error.status}): ${error.message}`,
-            'unknown',
-            true
-          )
+    const startTime = Date.now()
+    const sequence = promptSequence(prompt)
+    const latest = new Map<SnippetField, StreamedSnippet>()
+
+    // message_start carries the input usage, message_delta the running output count
+    let streamModel = modelId
+    let streamUsage: TokenUsage | undefined
+    const reportStreamUsage = () => {
+      if (!streamUsage) return
+      this.reportUsage({ modelId: streamModel, operation: 'stream', usage: streamUsage, leadId })
+      runUsage = streamUsage
+      streamUsage = undefined
+    }
+
+    // The streamed response as one message, plus any repair turns, for the audit trail
+    let apiCall: ReturnType<ClaudeService['buildMessageRequest']> | undefined
+    let runUsage: TokenUsage | undefined
+    let text = ''
+    let toolJson = ''
+    let toolUseId: string | undefined
+    const repairs: MessageResponse[] = []
+    const run = () => ({
+      operation: 'stream' as const,
+      modelId: streamModel,
+      leadId,
+      systemPrompt,
+      fileIds,
+      request: apiCall && { ...apiCall, stream: true },
+      responses: [
+        {
+          model: streamModel,
+          content: toolUseId ? [{ type: 'tool_use', id: toolUseId, partial_json: toolJson }] : [{ type: 'text', text }],
+          usage: runUsage ?? streamUsage,
+        },
+        ...repairs,
+      ],
+      durationMs: Date.now() - startTime,
+    })
+
+    // Forward only snippets whose text or completion changed since the last delta
+    const publish = (snippets: StreamedSnippet[]) => {
+      for (const snippet of snippets) {
+        const previous = latest.get(snippet.field)
+        if (previous && previous.text === snippet.text && previous.complete === snippet.complete) continue
+        latest.set(snippet.field, snippet)
+        onUpdate?.(snippet)
+      }
+    }
+
+    try {
+      this.throwIfCancelled(signal)
+      await this.checkRateLimit(signal)
+
+      apiCall = this.buildMessageRequest(prompt, modelId, systemPrompt, fileIds)
+      const client = await this.getClient()
+      const stream: AsyncIterable<MessageStreamEvent> = await client.messages.create({ ...apiCall, stream: true }, { signal })
+
+      for await (const event of stream) {
+        if (event.type === 'message_start' && event.message?.usage) {
+          streamModel = event.message.model || modelId
+          streamUsage = { ...event.message.usage }
+        } else if (event.type === 'message_delta' && event.usage && streamUsage) {
+          streamUsage.output_tokens = event.usage.output_tokens ?? streamUsage.output_tokens
+        } else if (event.type === 'content_block_start' && event.content_block?.type === 'tool_use') {
+          toolUseId = event.content_block.id
+        } else if (event.type === 'content_block_delta' && event.delta?.type === 'input_json_delta') {
+          toolJson += event.delta.partial_json ?? ''
+          publish(readStreamedToolInput(toolJson))
+        } else if (event.type === 'content_block_delta' && event.delta?.type === 'text_delta') {
+          text += event.delta.text ?? ''
+          publish(readStreamedBlocks(text, sequence))
         }
       }
 
-      // Network or other errors
-      if (error instanceof Error && error.message.includes('network')) {
-        throw new ClaudeApiError(
-          'Network error. Please check your connection and try again.',
-          'network',
-          true
+      logger.info('ClaudeService', `Stream finished in ${Date.now() - startTime}ms`)
+      reportStreamUsage()
+
+      let parsedResponse: ClaudeResponse
+      if (toolUseId) {
+        let input: unknown
+        try {
+          input = JSON.parse(toolJson || '{}')
+        } catch {
+          throw new ClaudeApiError('Claude returned malformed structured output', 'content', true)
+        }
+        parsedResponse = await this.parseStructuredOutput(
+          apiCall,
+          { content: [{ type: 'tool_use', id: toolUseId, input }] },
+          leadData,
+          sequence,
+          signal,
+          leadId,
+          repairs
         )
+      } else {
+        parsedResponse = this.parseTextBlocks(text, leadData, sequence)
       }
 
-      throw new ClaudeApiError(
-        `Unexpected error: ${error instanceof Error ? error.message : 'Unknown error'}`,
-        'unknown',
-        true
-      )
+      this.assertRequiredSnippets(parsedResponse, sequence)
+      this.reportRun(onRun, prompt, { ...run(), status: 'succeeded', parsed: parsedResponse })
+      return { content: parsedResponse, partial: false }
+    } catch (error) {
+      // Tokens consumed before a stop or failure are still billed
+      reportStreamUsage()
+
+      // Stopped mid-stream: hand back what was written instead of discarding it
+      if (signal?.aborted && latest.size > 0) {
+        logger.info('ClaudeService', `Stream cancelled after ${latest.size} snippet(s), returning partial output`)
+        const content = { ...this.leadFields(leadData), ...snippetsFromStream([...latest.values()], sequence) }
+        this.reportRun(onRun, prompt, { ...run(), status: 'partial', parsed: content })
+        return { content, partial: true }
+      }
+
+      logger.error('ClaudeService', 'Streaming error occurred', error instanceof Error ? error : new Error(String(error)))
+      const apiError = await this.toClaudeApiError(error, signal)
+      if (apiCall) {
+        this.reportRun(onRun, prompt, { ...run(), status: 'failed', error: apiError.message })
+      }
+      throw apiError
     }
   }
 
   async generateContentWithRetry(
-    prompt: string,
+    prompt: GenerationPrompt,
     leadData: Record<string, unknown>,
     maxRetries: number = 3,
     modelId?: string,
     systemPrompt?: string,
-    fileIds?: string[]
+    fileIds?: string[],
+    signal?: AbortSignal,
+    leadId?: number,
+    onRun?: GenerationRunCallback
   ): Promise<ClaudeResponse> {
     let lastError: ClaudeApiError
 
     for (let attempt = 0; attempt <= maxRetries; attempt++) {
       try {
-        return await this.generateContent(prompt, leadData, modelId, systemPrompt, fileIds)
+        return await this.generateContent(prompt, leadData, modelId, systemPrompt, fileIds, signal, leadId, onRun)
       } catch (error) {
         if (!(error instanceof ClaudeApiError)) {
           throw error
@@ -456,7 +980,7 @@ export class ClaudeService {
         }
 
         // Don't retry on model/auth errors even if marked as retryable
-        if (error.category === 'auth' || error.category === 'content') {
+        if (error.category === 'auth' || error.category === 'content' || error.category === 'cancelled') {
           logger.info('ClaudeService', `${error.category} error detected, stopping retries`)
           throw error
         }
@@ -469,21 +993,400 @@ export class ClaudeService {
         // Exponential backoff
         const delay = Math.pow(2, attempt) * 1000
         logger.info('ClaudeService', `Retrying in ${delay}ms (attempt ${attempt + 1}/${maxRetries})`)
-        await new Promise((resolve) => setTimeout(resolve, delay))
+        await this.delay(delay, signal)
       }
     }
 
     throw lastError!
   }
 
+  /**
+   * Rewrite a single snippet following an instruction. Only the requested
+   * snippet is returned; the caller keeps the rest of the sequence as it is.
+   */
+  async rewriteSnippet(
+    request: SnippetRewriteRequest,
+    modelId: string = 'claude-sonnet-4-20250514',
+    systemPrompt?: string,
+    signal?: AbortSignal,
+    leadId?: number,
+    onRun?: GenerationRunCallback
+  ): Promise<string> {
+    const sequence = resolveSequence(request.sequence)
+    const touchpoint = this.findTouchpoint(sequence, request.field)
+
+    logger.info('ClaudeService', `Rewriting ${request.field} with model: ${modelId}`)
+
+    const startTime = Date.now()
+    const prompt = buildRewritePrompt(touchpoint, request.instruction, request.snippets, request.leadData, sequence)
+    let apiCall: Record<string, unknown> | undefined
+    const responses: MessageResponse[] = []
+    const run = () => ({
+      operation: 'rewrite' as const,
+      modelId: responses[0]?.model || modelId,
+      leadId,
+      systemPrompt,
+      request: apiCall,
+      responses,
+      durationMs: Date.now() - startTime,
+    })
+
+    try {
+      this.throwIfCancelled(signal)
+      await this.checkRateLimit(signal)
+
+      apiCall = {
+        model: modelId,
+        max_tokens: 2000,
+        temperature: 0.7,
+        messages: [{ role: 'user', content: prompt }],
+        tools: [buildRewriteTool(touchpoint)],
+        tool_choice: { type: 'tool', name: REWRITE_TOOL_NAME },
+      }
+      if (systemPrompt) {
+        apiCall.system = [{ type: 'text', text: systemPrompt, cache_control: CACHE_CONTROL }]
+      }
+
+      const client = await this.getClient()
+      const response: MessageResponse = await client.messages.create(apiCall, { signal })
+      responses.push(response)
+      if (response.usage) {
+        this.reportUsage({ modelId: response.model || modelId, operation: 'generate', usage: response.usage, leadId })
+      }
+
+      const toolUse = response.content.find(block => block.type === 'tool_use')
+      const result = validateSequenceOutput(toolUse?.input, [touchpoint])
+      if (result.missing.length > 0) {
+        throw new ClaudeApiError(`Missing required field: ${request.field}`, 'content', true)
+      }
+
+      const text = result.snippets[request.field]
+      this.reportRun(onRun, prompt, { ...run(), status: 'succeeded', parsed: { [request.field]: text } })
+      return text
+    } catch (error) {
+      logger.error('ClaudeService', 'Snippet rewrite failed', error instanceof Error ? error : new Error(String(error)))
+      const apiError = await this.toClaudeApiError(error, signal)
+      if (apiCall) {
+        this.reportRun(onRun, prompt, { ...run(), status: 'failed', error: apiError.message })
+      }
+      throw apiError
+    }
+  }
+
+  /**
+   * Write alternatives to a single snippet for an A/B test. The current text
+   * is not included in the result; callers keep it as the first variant.
+   */
+  async generateSnippetVariants(
+    request: SnippetVariantsRequest,
+    modelId: string = 'claude-sonnet-4-20250514',
+    systemPrompt?: string,
+    signal?: AbortSignal,
+    leadId?: number,
+    onRun?: GenerationRunCallback
+  ): Promise<string[]> {
+    const sequence = resolveSequence(request.sequence)
+    const touchpoint = this.findTouchpoint(sequence, request.field)
+    if (!Number.isInteger(request.count) || request.count < 1 || request.count > MAX_SNIPPET_VARIANTS) {
+      throw new ClaudeApiError(`Ask for 1 to ${MAX_SNIPPET_VARIANTS} variants`, 'content', false)
+    }
+
+    logger.info('ClaudeService', `Writing ${request.count} variant(s) of ${request.field} with model: ${modelId}`)
+
+    const startTime = Date.now()
+    const prompt = buildVariantsPrompt(
+      touchpoint, request.count, request.snippets, request.leadData, sequence, request.instruction
+    )
+    let apiCall: Record<string, unknown> | undefined
+    const responses: MessageResponse[] = []
+    const run = () => ({
+      operation: 'variants' as const,
+      modelId: responses[0]?.model || modelId,
+      leadId,
+      systemPrompt,
+      request: apiCall,
+      responses,
+      durationMs: Date.now() - startTime,
+    })
+
+    try {
+      this.throwIfCancelled(signal)
+      await this.checkRateLimit(signal)
+
+      apiCall = {
+        model: modelId,
+        max_tokens: 2000 * request.count,
+        temperature: 1,
+        messages: [{ role: 'user', content: prompt }],
+        tools: [buildVariantsTool(touchpoint, request.count)],
+        tool_choice: { type: 'tool', name: VARIANTS_TOOL_NAME },
+      }
+      if (systemPrompt) {
+        apiCall.system = [{ type: 'text', text: systemPrompt, cache_control: CACHE_CONTROL }]
+      }
+
+      const client = await this.getClient()
+      const response: MessageResponse = await client.messages.create(apiCall, { signal })
+      responses.push(response)
+      if (response.usage) {
+        this.reportUsage({ modelId: response.model || modelId, operation: 'generate', usage: response.usage, leadId })
+      }
+
+      const toolUse = response.content.find(block => block.type === 'tool_use')
+      const input = toolUse?.input as { variants?: unknown } | undefined
+      const variants = (Array.isArray(input?.variants) ? input.variants : [])
+        .map(variant => validateSequenceOutput({ [request.field]: variant }, [touchpoint]))
+        .filter(result => result.missing.length === 0)
+        .map(result => result.snippets[request.field])
+
+      if (variants.length === 0) {
+        throw new ClaudeApiError(`No variants returned for ${request.field}`, 'content', true)
+      }
+
+      const written = variants.slice(0, request.count)
+      this.reportRun(onRun, prompt, { ...run(), status: 'succeeded', parsed: { [request.field]: written } })
+      return written
+    } catch (error) {
+      logger.error('ClaudeService', 'Snippet variant generation failed', error instanceof Error ? error : new Error(String(error)))
+      const apiError = await this.toClaudeApiError(error, signal)
+      if (apiCall) {
+        this.reportRun(onRun, prompt, { ...run(), status: 'failed', error: apiError.message })
+      }
+      throw apiError
+    }
+  }
+
+  private findTouchpoint(sequence: SequenceTouchpoint[], field: SnippetField): SequenceTouchpoint {
+    const touchpoint = sequence.find(({ slot }) => snippetField(slot) === field)
+    if (!touchpoint) {
+      throw new ClaudeApiError(`${field} is not part of the sequence`, 'content', false)
+    }
+    return touchpoint
+  }
+
+  /**
+   * Submit every request as one Message Batch. The batch runs on Anthropic's
+   * side, so it keeps processing while the app is closed; poll it with
+   * getMessageBatch using the returned id.
+   */
+  async createMessageBatch(
+    requests: MessageBatchRequest[],
+    modelId: string = 'claude-sonnet-4-20250514',
+    signal?: AbortSignal
+  ): Promise<MessageBatchStatus> {
+    logger.info('ClaudeService', `Submitting message batch with ${requests.length} request(s) for model: ${modelId}`)
+
+    try {
+      this.throwIfCancelled(signal)
+      await this.checkRateLimit(signal)
+
+      const client = await this.getClient()
+      const batch: MessageBatchResponse = await client.messages.batches.create(
+        {
+          requests: requests.map(request => ({
+            custom_id: request.customId,
+            params: this.buildMessageRequest(
+              { prefix: request.promptPrefix || '', prompt: request.prompt, sequence: request.sequence },
+              modelId,
+              request.systemPrompt,
+              request.fileIds
+            ),
+          })),
+        },
+        { signal }
+      )
+
+      logger.info('ClaudeService', `Message batch ${batch.id} submitted`)
+      return this.toMessageBatchStatus(batch)
+    } catch (error) {
+      logger.error('ClaudeService', 'Message batch submission failed', error instanceof Error ? error : new Error(String(error)))
+      throw await this.toClaudeApiError(error, signal)
+    }
+  }
+
+  async getMessageBatch(batchId: string, signal?: AbortSignal): Promise<MessageBatchStatus> {
+    try {
+      this.throwIfCancelled(signal)
+      await this.checkRateLimit(signal)
+
+      const client = await this.getClient()
+      const batch: MessageBatchResponse = await client.messages.batches.retrieve(batchId, { signal })
+      return this.toMessageBatchStatus(batch)
+    } catch (error) {
+      throw await this.toClaudeApiError(error, signal)
+    }
+  }
+
+  /**
+   * Download and parse the results of an ended batch. requests is keyed by
+   * custom id and supplies the lead columns echoed into each response and the
+   * lead the usage is recorded against. Incomplete structured output is
+   * reported as an error instead of being repaired, so the lead can be
+   * regenerated on its own. onRun is called once per result that has a
+   * submitted prompt in requests.
+   */
+  async getMessageBatchResults(
+    batchId: string,
+    requests: Record<string, MessageBatchResultContext>,
+    signal?: AbortSignal,
+    onRun?: GenerationRunCallback
+  ): Promise<MessageBatchResult[]> {
+    try {
+      this.throwIfCancelled(signal)
+      await this.checkRateLimit(signal)
+
+      const client = await this.getClient()
+      const lines: AsyncIterable<MessageBatchResultLine> = await client.messages.batches.results(batchId, { signal })
+      const results: MessageBatchResult[] = []
+
+      for await (const line of lines) {
+        const { custom_id: customId, result } = line
+        const request = requests[customId]
+
+        if (result.message?.usage) {
+          this.reportUsage({
+            modelId: result.message.model || 'unknown',
+            operation: 'batch',
+            usage: result.message.usage,
+            leadId: request?.leadId,
+          })
+        }
+
+        let outcome: MessageBatchResult
+        if (result.type !== 'succeeded' || !result.message) {
+          outcome = {
+            customId,
+            error: result.type === 'errored'
+              ? result.error?.error?.message || 'Request failed'
+              : `Request ${result.type}`,
+          }
+        } else {
+          try {
+            outcome = {
+              customId,
+              content: this.parseBatchMessage(result.message, request?.leadData || {}, resolveSequence(request?.sequence)),
+            }
+          } catch (error) {
+            outcome = { customId, error: error instanceof Error ? error.message : String(error) }
+          }
+        }
+        results.push(outcome)
+
+        if (request?.prompt !== undefined) {
+          const modelId = result.message?.model || request.modelId || 'unknown'
+          const prompt = { prefix: request.promptPrefix || '', prompt: request.prompt, sequence: request.sequence }
+          this.reportRun(onRun, prompt, {
+            operation: 'batch',
+            modelId,
+            leadId: request.leadId,
+            systemPrompt: request.systemPrompt,
+            fileIds: request.fileIds,
+            request: this.buildMessageRequest(prompt, modelId, request.systemPrompt, request.fileIds),
+            responses: result.message ? [result.message] : [],
+            parsed: outcome.content,
+            status: outcome.content ? 'succeeded' : 'failed',
+            error: outcome.error,
+            customId,
+          })
+        }
+      }
+
+      logger.info('ClaudeService', `Read ${results.length} result(s) from message batch ${batchId}`)
+      return results
+    } catch (error) {
+      logger.error('ClaudeService', 'Failed to read message batch results', error instanceof Error ? error : new Error(String(error)))
+      throw await this.toClaudeApiError(error, signal)
+    }
+  }
+
+  async cancelMessageBatch(batchId: string): Promise<MessageBatchStatus> {
+    logger.info('ClaudeService', `Cancelling message batch ${batchId}`)
+
+    try {
+      await this.checkRateLimit()
+
+      const client = await this.getClient()
+      const batch: MessageBatchResponse = await client.messages.batches.cancel(batchId)
+      return this.toMessageBatchStatus(batch)
+    } catch (error) {
+      throw await this.toClaudeApiError(error)
+    }
+  }
+
+  private parseBatchMessage(
+    message: MessageResponse,
+    leadData: Record<string, unknown>,
+    sequence: SequenceTouchpoint[]
+  ): ClaudeResponse {
+    const toolUse = message.content.find(block => block.type === 'tool_use')
+    let parsedResponse: ClaudeResponse
+
+    if (toolUse) {
+      const { snippets, missing } = validateSequenceOutput(toolUse.input, sequence)
+      if (missing.length > 0) {
+        throw new ClaudeApiError(`Missing required field: ${missing[0]}`, 'content', true)
+      }
+      parsedResponse = { ...this.leadFields(leadData), ...snippets }
+    } else {
+      const text = message.content.find(block => block.type === 'text')?.text
+      if (typeof text !== 'string') {
+        throw new ClaudeApiError('Unexpected response format from Claude API', 'content', true)
+      }
+      parsedResponse = this.parseTextBlocks(text, leadData, sequence)
+    }
+
+    this.assertRequiredSnippets(parsedResponse, sequence)
+    return parsedResponse
+  }
+
+  private toMessageBatchStatus(batch: MessageBatchResponse): MessageBatchStatus {
+    const counts = batch.request_counts
+    const total = counts.processing + counts.succeeded + counts.errored + counts.canceled + counts.expired
+
+    return {
+      id: batch.id,
+      processingStatus: batch.processing_status,
+      processed: total - counts.processing,
+      total,
+    }
+  }
+
+  private throwIfCancelled(signal?: AbortSignal): void {
+    if (signal?.aborted) {
+      throw new ClaudeApiError('Generation cancelled', 'cancelled', false)
+    }
+  }
+
+  // Backoff that stops early when the operation is cancelled
+  private delay(ms: number, signal?: AbortSignal): Promise<void> {
+    return new Promise((resolve, reject) => {
+      const onAbort = () => {
+        clearTimeout(timer)
+        reject(new ClaudeApiError('Generation cancelled', 'cancelled', false))
+      }
+      const timer = setTimeout(() => {
+        signal?.removeEventListener('abort', onAbort)
+        resolve()
+      }, ms)
+
+      if (signal?.aborted) {
+        onAbort()
+      } else {
+        signal?.addEventListener('abort', onAbort, { once: true })
+      }
+    })
+  }
+
   getRequestCount(): number {
-    this.resetRateLimitIfNeeded()
-    return this.requestCount
+    return this.rateLimiter.getQuotaInfo().requestCount
   }
 
   getRemainingRequests(): number {
-    this.resetRateLimitIfNeeded()
-    return Math.max(0, this.MAX_REQUESTS_PER_MINUTE - this.requestCount)
+    return this.rateLimiter.getQuotaInfo().remainingRequests
+  }
+
+  getQuotaInfo(): QuotaInfo {
+    return this.rateLimiter.getQuotaInfo()
   }
 
   // Files API methods
@@ -0,0 +1,306 @@
+import { logger } from '../utils/logger'
+import { ExportJobsDAL } from '../../database/dal'
+import type { ExportJobProgress, ExportJobItemRecord, ExportJobItemResult } from '../../database/dal'
+import { WoodpeckerApiError } from './woodpeckerService'
+import type { WoodpeckerService, WoodpeckerProspect } from './woodpeckerService'
+
+export interface ExportJobItemInput {
+  leadId?: number
+  prospect: WoodpeckerProspect
+}
+
+export interface StartExportJobRequest {
+  campaignId: number
+  campaignName?: string
+  items: ExportJobItemInput[]
+}
+
+export type ExportJobProgressListener = (progress: ExportJobProgress) => void
+
+interface ExportQueueOptions {
+  batchSize?: number
+  batchDelayMs?: number   // pause between batches to stay under the API rate limit
+  maxBatchAttempts?: number
+  retryDelayMs?: number
+}
+
+/**
+ * Runs Woodpecker exports as persisted jobs. Every batch result is written to
+ * export_job_items before the next batch is sent, so a job interrupted by a
+ * crash or quit can be resumed from its pending items on the next start.
+ */
+export class ExportQueueService {
+  private woodpeckerService: WoodpeckerService
+  private readonly batchSize: number
+  private readonly batchDelayMs: number
+  private readonly maxBatchAttempts: number
+  private readonly retryDelayMs: number
+  private runningJobs = new Map<number, Promise<ExportJobProgress | null>>()
+  private controllers = new Map<number, AbortController>()
+  private listeners = new Set<ExportJobProgressListener>()
+
+  constructor(woodpeckerService: WoodpeckerService, options: ExportQueueOptions = {}) {
+    this.woodpeckerService = woodpeckerService
+    this.batchSize = options.batchSize ?? 50
+    this.batchDelayMs = options.batchDelayMs ?? 650
+    this.maxBatchAttempts = options.maxBatchAttempts ?? 3
+    this.retryDelayMs = options.retryDelayMs ?? 2000
+  }
+
+  onProgress(listener: ExportJobProgressListener): () => void {
+    this.listeners.add(listener)
+    return () => {
+      this.listeners.delete(listener)
+    }
+  }
+
+  /**
+   * Persist a new job and start working on it in the background.
+   */
+  startJob(request: StartExportJobRequest): ExportJobProgress {
+    if (request.items.length === 0) {
+      throw new WoodpeckerApiError('No prospects to export', 'validation', false)
+    }
+
+    const job = ExportJobsDAL.createJob(
+      {
+        campaign_id: request.campaignId,
+        campaign_name: request.campaignName,
+        batch_size: this.batchSize,
+      },
+      request.items.map(item => ({
+        lead_id: item.leadId ?? null,
+        email: item.prospect.email,
+        prospect: item.prospect,
+      }))
+    )
+
+    logger.info('ExportQueueService', `Created export job ${job.id} with ${request.items.length} prospects for campaign ${request.campaignId}`)
+
+    this.runJob(job.id!)
+    return ExportJobsDAL.getProgress(job.id!)!
+  }
+
+  /**
+   * Resume every job left pending or running by a previous session.
+   * Returns the ids of the jobs that were picked up.
+   */
+  resumeUnfinishedJobs(): number[] {
+    const jobs = ExportJobsDAL.getUnfinished()
+    const resumed: number[] = []
+
+    for (const job of jobs) {
+      if (this.runningJobs.has(job.id!)) continue
+      logger.info('ExportQueueService', `Resuming export job ${job.id} for campaign ${job.campaign_id}`)
+      this.runJob(job.id!)
+      resumed.push(job.id!)
+    }
+
+    return resumed
+  }
+
+  /**
+   * Restart a single job, e.g. one that failed on an auth error. Only its
+   * pending items are sent again.
+   */
+  resumeJob(jobId: number): ExportJobProgress {
+    const job = ExportJobsDAL.getById(jobId)
+    if (!job) {
+      throw new WoodpeckerApiError(`Export job ${jobId} not found`, 'validation', false)
+    }
+    if (job.status === 'completed' || job.status === 'cancelled') {
+      throw new WoodpeckerApiError(`Export job ${jobId} is already ${job.status}`, 'validation', false)
+    }
+
+    this.runJob(jobId)
+    return ExportJobsDAL.getProgress(jobId)!
+  }
+
+  /**
+   * Stop a job. A running job finishes its current step and is marked
+   * cancelled; unsent items stay pending and their leads keep their status.
+   * Returns false when there was nothing left to cancel.
+   */
+  cancelJob(jobId: number): boolean {
+    const controller = this.controllers.get(jobId)
+    if (controller) {
+      logger.info('ExportQueueService', `Cancelling export job ${jobId}`)
+      controller.abort()
+      return true
+    }
+
+    const job = ExportJobsDAL.getById(jobId)
+    if (!job || job.status === 'completed' || job.status === 'cancelled') {
+      return false
+    }
+
+    ExportJobsDAL.finish(jobId, 'cancelled')
+    this.emitProgress(jobId)
+    return true
+  }
+
+  getJob(jobId: number): ExportJobProgress | null {
+    return ExportJobsDAL.getProgress(jobId)
+  }
+
+  getActiveJobs(): ExportJobProgress[] {
+    return ExportJobsDAL.getUnfinished()
+      .map(job => ExportJobsDAL.getProgress(job.id!))
+      .filter((progress): progress is ExportJobProgress => progress !== null)
+  }
+
+  isRunning(jobId: number): boolean {
+    return this.runningJobs.has(jobId)
+  }
+
+  /**
+   * Resolves once the given job stops running (immediately if it is idle).
+   */
+  async waitForJob(jobId: number): Promise<ExportJobProgress | null> {
+    return this.runningJobs.get(jobId) ?? ExportJobsDAL.getProgress(jobId)
+  }
+
+  private runJob(jobId: number): Promise<ExportJobProgress | null> {
+    const existing = this.runningJobs.get(jobId)
+    if (existing) return existing
+
+    const controller = new AbortController()
+    this.controllers.set(jobId, controller)
+
+    const run = this.processJob(jobId, controller.signal)
+      .catch(error => {
+        if (controller.signal.aborted) {
+          ExportJobsDAL.finish(jobId, 'cancelled')
+          logger.info('ExportQueueService', `Export job ${jobId} cancelled`)
+          return this.emitProgress(jobId)
+        }
+
+        const message = error instanceof Error ? error.message : String(error)
+        logger.error('ExportQueueService', `Export job ${jobId} failed`, error instanceof Error ? error : new Error(message))
+        ExportJobsDAL.finish(jobId, 'failed', message)
+        return this.emitProgress(jobId)
+      })
+      .finally(() => {
+        this.runningJobs.delete(jobId)
+        this.controllers.delete(jobId)
+      })
+
+    this.runningJobs.set(jobId, run)
+    return run
+  }
+
+  private async processJob(jobId: number, signal: AbortSignal): Promise<ExportJobProgress | null> {
+    const job = ExportJobsDAL.markRunning(jobId)
+    if (!job) return null
+
+    const pending = ExportJobsDAL.getItems(jobId, 'pending')
+    const batchSize = job.batch_size || this.batchSize
+    this.emitProgress(jobId)
+
+    for (let i = 0; i < pending.length; i += batchSize) {
+      this.throwIfCancelled(signal)
+
+      const batch = pending.slice(i, i + batchSize)
+      const results = await this.sendBatch(job.campaign_id, batch, signal)
+
+      ExportJobsDAL.recordBatchResults(jobId, results)
+      this.emitProgress(jobId)
+
+      if (i + batchSize < pending.length) {
+        await this.delay(this.batchDelayMs, signal)
+      }
+    }
+
+    ExportJobsDAL.finish(jobId, 'completed')
+    logger.info('ExportQueueService', `Export job ${jobId} completed`)
+    return this.emitProgress(jobId)
+  }
+
+  /**
+   * Send one batch, retrying transient failures. Auth errors abort the job and
+   * leave the remaining items pending so it can be resumed once fixed.
+   */
+  private async sendBatch(campaignId: number, items: ExportJobItemRecord[], signal: AbortSignal): Promise<ExportJobItemResult[]> {
+    const prospects = items.map(item => JSON.parse(item.prospect) as WoodpeckerProspect)
+
+    for (let attempt = 1; ; attempt++) {
+      try {
+        const results = await this.woodpeckerService.sendProspectBatch(prospects, campaignId, false, signal)
+        return items.map((item, index) => {
+          const result = results[index]
+          return {
+            id: item.id!,
+            status: result?.success ? 'succeeded' : 'failed',
+            api_status: result?.status,
+            woodpecker_prospect_id: result?.prospectId,
+            error: result?.success ? undefined : result?.error || 'Unknown error',
+          }
+        })
+      } catch (error) {
+        if (error instanceof WoodpeckerApiError && (error.category === 'auth' || error.category === 'cancelled')) {
+          throw error
+        }
+
+        const retryable = error instanceof WoodpeckerApiError ? error.retryable : true
+        const message = error instanceof Error ? error.message : 'Unknown error'
+
+        if (!retryable || attempt >= this.maxBatchAttempts) {
+          logger.warn('ExportQueueService', `Batch failed after ${attempt} attempt(s): ${message}`)
+          return items.map(item => ({ id: item.id!, status: 'failed', error: message }))
+        }
+
+        logger.warn('ExportQueueService', `Batch attempt ${attempt} failed, retrying: ${message}`)
+        await this.delay(this.retryDelayMs * attempt, signal)
+      }
+    }
+  }
+
+  private emitProgress(jobId: number): ExportJobProgress | null {
+    const progress = ExportJobsDAL.getProgress(jobId)
+    if (!progress) return null
+
+    for (const listener of this.listeners) {
+      try {
+        listener(progress)
+      } catch (error) {
+        logger.warn('ExportQueueService', 'Progress listener threw', error instanceof Error ? error : new Error(String(error)))
+      }
+    }
+    return progress
+  }
+
+  private throwIfCancelled(signal: AbortSignal): void {
+    if (signal.aborted) {
+      throw new WoodpeckerApiError('Export job cancelled', 'cancelled', false)
+    }
+  }
+
+  private delay(ms: number, signal: AbortSignal): Promise<void> {
+    return new Promise((resolve, reject) => {
+      const onAbort = () => {
+        clearTimeout(timer)
+        reject(new WoodpeckerApiError('Export job cancelled', 'cancelled', false))
+      }
+      const timer = setTimeout(() => {
+        signal.removeEventListener('abort', onAbort)
+        resolve()
+      }, ms)
+
+      if (signal.aborted) {
+        onAbort()
+      } else {
+        signal.addEventListener('abort', onAbort, { once: true })
+      }
+    })
+  }
+}
+
+// Factory function to create service instance
+export function createExportQueueService(
+  woodpeckerService: WoodpeckerService,
+  options?: ExportQueueOptions
+): ExportQueueService {
+  return new ExportQueueService(woodpeckerService, options)
+}
+
+export default ExportQueueService
@@ -0,0 +1,213 @@
+import { logger } from '../utils/logger'
+
+export type RateLimitedService = 'claude' | 'woodpecker'
+
+export interface RateLimitBudget {
+  capacity: number          // burst size
+  refillPerMinute: number   // sustained rate
+}
+
+// Per-service budgets; each service shares one bucket across all of its instances
+export const RATE_LIMIT_BUDGETS: Record<RateLimitedService, RateLimitBudget> = {
+  claude: { capacity: 20, refillPerMinute: 100 },
+  woodpecker: { capacity: 10, refillPerMinute: 100 },
+}
+
+export interface QuotaInfo {
+  requestCount: number          // requests granted in the last minute
+  remainingRequests: number     // tokens available right now
+  maxRequestsPerMinute: number
+  queueDepth: number            // callers currently waiting for a token
+  retryAfterMs: number          // time left on a server-imposed pause, 0 if none
+}
+
+export class RateLimitCancelledError extends Error {
+  constructor(limiterName: string) {
+    super(`Wait for ${limiterName} rate limit cancelled`)
+    this.name = 'RateLimitCancelledError'
+  }
+}
+
+interface Waiter {
+  resolve: () => void
+  reject: (error: Error) => void
+  signal?: AbortSignal
+  onAbort?: () => void
+}
+
+/**
+ * Token bucket with a FIFO queue of waiters. acquire() resolves once a token
+ * is available instead of failing, and pauseFor() holds every waiter back
+ * when the API answers 429 with a Retry-After.
+ */
+export class RateLimiter {
+  private readonly name: string
+  private readonly capacity: number
+  private readonly refillPerMs: number
+  private readonly refillPerMinute: number
+  private tokens: number
+  private lastRefill: number
+  private pausedUntil = 0
+  private waiters: Waiter[] = []
+  private timer: ReturnType<typeof setTimeout> | null = null
+  private grants: number[] = []
+
+  constructor(name: string, budget: RateLimitBudget) {
+    this.name = name
+    this.capacity = budget.capacity
+    this.refillPerMinute = budget.refillPerMinute
+    this.refillPerMs = budget.refillPerMinute / 60000
+    this.tokens = budget.capacity
+    this.lastRefill = Date.now()
+  }
+
+  /**
+   * Wait for a token. Rejects with RateLimitCancelledError if the signal
+   * fires while queued.
+   */
+  acquire(signal?: AbortSignal): Promise<void> {
+    if (signal?.aborted) {
+      return Promise.reject(new RateLimitCancelledError(this.name))
+    }
+
+    this.refill()
+    if (this.waiters.length === 0 && this.canGrant()) {
+      this.grant()
+      return Promise.resolve()
+    }
+
+    return new Promise((resolve, reject) => {
+      const waiter: Waiter = { resolve, reject, signal }
+
+      if (signal) {
+        waiter.onAbort = () => {
+          this.waiters = this.waiters.filter(w => w !== waiter)
+          reject(new RateLimitCancelledError(this.name))
+        }
+        signal.addEventListener('abort', waiter.onAbort, { once: true })
+      }
+
+      this.waiters.push(waiter)
+      logger.debug('RateLimiter', `${this.name}: queued request (${this.waiters.length} waiting)`)
+      this.schedule()
+    })
+  }
+
+  /**
+   * Hold back all requests for the given time, e.g. from a Retry-After header.
+   * The bucket is drained to a single token so the queue does not burst once
+   * the pause ends.
+   */
+  pauseFor(ms: number): void {
+    const until = Date.now() + ms
+    if (ms <= 0 || until <= this.pausedUntil) return
+
+    logger.warn('RateLimiter', `${this.name}: pausing requests for ${Math.ceil(ms / 1000)}s`)
+    this.pausedUntil = until
+    this.tokens = Math.min(this.tokens, 1)
+    this.lastRefill = until
+
+    if (this.timer) {
+      clearTimeout(this.timer)
+      this.timer = null
+    }
+    this.schedule()
+  }
+
+  getQueueDepth(): number {
+    return this.waiters.length
+  }
+
+  getQuotaInfo(): QuotaInfo {
+    this.refill()
+    const now = Date.now()
+    this.grants = this.grants.filter(time => now - time < 60000)
+
+    return {
+      requestCount: this.grants.length,
+      remainingRequests: Math.floor(this.tokens),
+      maxRequestsPerMinute: this.refillPerMinute,
+      queueDepth: this.waiters.length,
+      retryAfterMs: Math.max(0, this.pausedUntil - now),
+    }
+  }
+
+  private canGrant(): boolean {
+    return Date.now() >= this.pausedUntil && this.tokens >= 1
+  }
+
+  private grant(): void {
+    this.tokens -= 1
+    this.grants.push(Date.now())
+  }
+
+  private refill(): void {
+    const now = Date.now()
+    if (now <= this.lastRefill) return
+
+    this.tokens = Math.min(this.capacity, this.tokens + (now - this.lastRefill) * this.refillPerMs)
+    this.lastRefill = now
+  }
+
+  private drain(): void {
+    this.refill()
+    while (this.waiters.length > 0 && this.canGrant()) {
+      const waiter = this.waiters.shift()!
+      if (waiter.signal && waiter.onAbort) {
+        waiter.signal.removeEventListener('abort', waiter.onAbort)
+      }
+      this.grant()
+      waiter.resolve()
+    }
+  }
+
+  // Wake up when the next token is due (or the pause ends)
+  private schedule(): void {
+    if (this.timer || this.waiters.length === 0) return
+
+    const now = Date.now()
+    const wait = now < this.pausedUntil
+      ? this.pausedUntil - now
+      : Math.ceil((1 - this.tokens) / this.refillPerMs)
+
+    this.timer = setTimeout(() => {
+      this.timer = null
+      this.drain()
+      this.schedule()
+    }, Math.max(0, wait))
+  }
+}
+
+/**
+ * Parse a Retry-After header (delay in seconds or an HTTP date) into
+ * milliseconds. Returns null when the header is missing or malformed.
+ */
+export function parseRetryAfter(value: string | null | undefined): number | null {
+  if (!value) return null
+
+  const seconds = Number(value)
+  if (Number.isFinite(seconds)) {
+    return Math.max(0, seconds * 1000)
+  }
+
+  const date = Date.parse(value)
+  if (Number.isNaN(date)) return null
+  return Math.max(0, date - Date.now())
+}
+
+const limiters = new Map<RateLimitedService, RateLimiter>()
+
+// Shared limiter for a service, so recreating a client never resets its budget
+export function getRateLimiter(service: RateLimitedService): RateLimiter {
+  let limiter = limiters.get(service)
+  if (!limiter) {
+    limiter = new RateLimiter(service, RATE_LIMIT_BUDGETS[service])
+    limiters.set(service, limiter)
+  }
+  return limiter
+}
+
+// Factory function to create a standalone limiter instance
+export function createRateLimiter(name: string, budget: RateLimitBudget): RateLimiter {
+  return new RateLimiter(name, budget)
+}
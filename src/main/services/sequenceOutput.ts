@@ -0,0 +1,289 @@
+import { ensureHtml, htmlToText } from '../../utils/htmlConverter'
+import { DEFAULT_SEQUENCE, describeLengthLimits, resolveSequence, snippetField } from '../../utils/sequenceDefinition'
+import type { SequenceSnippets, SequenceTouchpoint, SnippetField } from '../../utils/sequenceDefinition'
+
+export type { SequenceSnippets, SnippetField } from '../../utils/sequenceDefinition'
+
+export const SEQUENCE_TOOL_NAME = 'write_email_sequence'
+
+// Delimiter used by prompt templates written before structured output
+export const LEGACY_BLOCK_DELIMITER = '---BLOCK---'
+
+/**
+ * Tool definition forced via tool_choice so Claude returns the sequence as a
+ * typed object instead of free text. There is one required field per
+ * touchpoint of the sequence, named after its snippet slot.
+ */
+export function buildSequenceOutputTool(sequence?: SequenceTouchpoint[] | null) {
+  const touchpoints = resolveSequence(sequence)
+  return {
+    name: SEQUENCE_TOOL_NAME,
+    description:
+      'Return the complete outreach sequence for the lead. Every field is required. ' +
+      'Write email bodies as plain text with paragraph breaks (double newline) and no HTML tags.',
+    input_schema: {
+      type: 'object',
+      properties: Object.fromEntries(
+        touchpoints.map(({ slot, instructions }) => [snippetField(slot), { type: 'string', description: instructions }])
+      ),
+      required: touchpoints.map(({ slot }) => snippetField(slot)),
+    },
+  }
+}
+
+export const sequenceOutputTool = buildSequenceOutputTool(DEFAULT_SEQUENCE)
+
+// Snippet text seen so far while a response streams in
+export interface StreamedSnippet {
+  field: SnippetField
+  text: string
+  complete: boolean
+}
+
+export interface SequenceValidationResult {
+  snippets: SequenceSnippets
+  missing: SnippetField[]
+}
+
+/**
+ * Check tool input against the schema. Fields that are absent, empty or not
+ * strings are reported as missing; present fields are normalised so plain
+ * text touchpoints (subject, LinkedIn) stay text and email bodies become HTML.
+ */
+export function validateSequenceOutput(
+  input: unknown,
+  sequence?: SequenceTouchpoint[] | null
+): SequenceValidationResult {
+  const record = input && typeof input === 'object' ? input as Record<string, unknown> : {}
+  const snippets = {} as SequenceSnippets
+  const missing: SnippetField[] = []
+
+  for (const { slot, format } of resolveSequence(sequence)) {
+    const field = snippetField(slot)
+    const value = record[field]
+    if (typeof value !== 'string' || !value.trim()) {
+      missing.push(field)
+      snippets[field] = ''
+      continue
+    }
+
+    snippets[field] = normalizeSnippet(format, value)
+  }
+
+  return { snippets, missing }
+}
+
+function normalizeSnippet(format: SequenceTouchpoint['format'], value: string): string {
+  return format === 'text' ? htmlToText(value.trim()) : ensureHtml(value.trim())
+}
+
+/**
+ * Build snippet fields from whatever streamed before a generation stopped.
+ * Fields that never started are left empty.
+ */
+export function snippetsFromStream(
+  streamed: StreamedSnippet[],
+  sequence?: SequenceTouchpoint[] | null
+): SequenceSnippets {
+  const snippets = {} as SequenceSnippets
+  for (const { slot, format } of resolveSequence(sequence)) {
+    const field = snippetField(slot)
+    const value = streamed.find(snippet => snippet.field === field)?.text
+    snippets[field] = value?.trim() ? normalizeSnippet(format, value) : ''
+  }
+  return snippets
+}
+
+/**
+ * Read snippet values out of tool input JSON that is still streaming. A field
+ * is complete once its closing quote has arrived; the field being written is
+ * returned with the text received so far.
+ */
+export function readStreamedToolInput(partialJson: string): StreamedSnippet[] {
+  const snippets: StreamedSnippet[] = []
+  const fieldPattern = /"(snippet\d+)"\s*:\s*"((?:[^"\\]|\\.)*)(")?/g
+
+  for (const match of partialJson.matchAll(fieldPattern)) {
+    // Drop an escape sequence cut off mid-stream so the rest still decodes
+    const raw = match[3] ? match[2] : match[2].replace(/\\u[0-9a-fA-F]{0,3}$/, '')
+    try {
+      snippets.push({ field: match[1] as SnippetField, text: JSON.parse(`"${raw}"`), complete: !!match[3] })
+    } catch {
+      // Skip values that cannot be decoded yet; the next delta completes them
+    }
+  }
+
+  return snippets
+}
+
+/**
+ * Same as readStreamedToolInput for legacy ---BLOCK--- text: every block
+ * followed by a delimiter is complete, the last one is still being written.
+ */
+export function readStreamedBlocks(text: string, sequence?: SequenceTouchpoint[] | null): StreamedSnippet[] {
+  const touchpoints = resolveSequence(sequence)
+  const parts = text.split(LEGACY_BLOCK_DELIMITER)
+  const snippets: StreamedSnippet[] = []
+
+  parts.forEach((part, index) => {
+    if (!part.trim() || snippets.length >= touchpoints.length) return
+    snippets.push({
+      field: snippetField(touchpoints[snippets.length].slot),
+      text: part.trim(),
+      complete: index < parts.length - 1,
+    })
+  })
+
+  return snippets
+}
+
+// Merge a repaired tool call over the fields that were already valid
+export function mergeSequenceOutput(
+  previous: SequenceSnippets,
+  repaired: SequenceValidationResult,
+  sequence?: SequenceTouchpoint[] | null
+): SequenceValidationResult {
+  const fields = resolveSequence(sequence).map(({ slot }) => snippetField(slot))
+  const snippets = { ...previous }
+  for (const field of fields) {
+    if (repaired.snippets[field]) {
+      snippets[field] = repaired.snippets[field]
+    }
+  }
+
+  return {
+    snippets,
+    missing: fields.filter(field => !snippets[field]),
+  }
+}
+
+export function buildRepairInstruction(missing: SnippetField[]): string {
+  return (
+    `The ${SEQUENCE_TOOL_NAME} call was missing required fields: ${missing.join(', ')}. ` +
+    `Call ${SEQUENCE_TOOL_NAME} again with every field filled in.`
+  )
+}
+
+export const REWRITE_TOOL_NAME = 'rewrite_snippet'
+
+// Tool for rewriting a single touchpoint; its one field is named after the snippet slot
+export function buildRewriteTool(touchpoint: SequenceTouchpoint) {
+  const field = snippetField(touchpoint.slot)
+  return {
+    name: REWRITE_TOOL_NAME,
+    description:
+      `Return the rewritten ${touchpoint.label}. ` +
+      'Write email bodies as plain text with paragraph breaks (double newline) and no HTML tags.',
+    input_schema: {
+      type: 'object',
+      properties: { [field]: { type: 'string', description: touchpoint.instructions } },
+      required: [field],
+    },
+  }
+}
+
+// Lead fields and the current text of every touchpoint, shared by the rewrite and variant prompts
+function describeCurrentSequence(
+  snippets: Partial<SequenceSnippets>,
+  leadData: Record<string, unknown>,
+  sequence?: SequenceTouchpoint[] | null
+): string[] {
+  const lead = ['first_name', 'last_name', 'title', 'company', 'industry']
+    .filter(key => leadData[key])
+    .map(key => `${key}: ${String(leadData[key])}`)
+  const current = resolveSequence(sequence).map(({ slot, label, dayOffset, channel }) => {
+    const text = htmlToText(snippets[snippetField(slot)] || '').trim() || '(empty)'
+    return `[${snippetField(slot)}] ${label}, day ${dayOffset} ${channel}:\n${text}`
+  })
+
+  return [
+    'This is the outreach sequence written for the lead so far.',
+    lead.length > 0 ? `Lead:\n${lead.join('\n')}` : '',
+    current.join('\n\n'),
+  ]
+}
+
+function describeGuidance(touchpoint: SequenceTouchpoint): string {
+  const limits = describeLengthLimits(touchpoint)
+  return (
+    'Keep it consistent with the rest of the sequence' +
+    (touchpoint.format === 'text' ? ', on a single line' : '') +
+    (limits ? ` and within ${limits}` : '')
+  )
+}
+
+/**
+ * Prompt for rewriting one touchpoint. The whole sequence is included so the
+ * rewrite stays consistent with the snippets that are kept.
+ */
+export function buildRewritePrompt(
+  touchpoint: SequenceTouchpoint,
+  instruction: string,
+  snippets: Partial<SequenceSnippets>,
+  leadData: Record<string, unknown>,
+  sequence?: SequenceTouchpoint[] | null
+): string {
+  const field = snippetField(touchpoint.slot)
+
+  return [
+    ...describeCurrentSequence(snippets, leadData, sequence),
+    `Rewrite only ${field} (${touchpoint.label}). Instruction: ${instruction}\n` +
+      `${describeGuidance(touchpoint)}. Return it with ${REWRITE_TOOL_NAME}.`,
+  ].filter(Boolean).join('\n\n')
+}
+
+export const VARIANTS_TOOL_NAME = 'write_snippet_variants'
+
+// Tool returning exactly count alternatives for one touchpoint
+export function buildVariantsTool(touchpoint: SequenceTouchpoint, count: number) {
+  return {
+    name: VARIANTS_TOOL_NAME,
+    description:
+      `Return ${count} alternative versions of the ${touchpoint.label} for an A/B test. ` +
+      'Write email bodies as plain text with paragraph breaks (double newline) and no HTML tags.',
+    input_schema: {
+      type: 'object',
+      properties: {
+        variants: {
+          type: 'array',
+          items: { type: 'string', description: touchpoint.instructions },
+          minItems: count,
+          maxItems: count,
+        },
+      },
+      required: ['variants'],
+    },
+  }
+}
+
+/**
+ * Prompt for A/B alternatives of one touchpoint. Each alternative should take
+ * a different angle so the test compares approaches, not rewordings.
+ */
+export function buildVariantsPrompt(
+  touchpoint: SequenceTouchpoint,
+  count: number,
+  snippets: Partial<SequenceSnippets>,
+  leadData: Record<string, unknown>,
+  sequence?: SequenceTouchpoint[] | null,
+  instruction?: string
+): string {
+  const field = snippetField(touchpoint.slot)
+
+  return [
+    ...describeCurrentSequence(snippets, leadData, sequence),
+    `Write ${count} alternatives to ${field} (${touchpoint.label}) to A/B test against the current one. ` +
+      'Give each a clearly different angle or hook.' +
+      (instruction ? ` Instruction: ${instruction}` : '') +
+      `\n${describeGuidance(touchpoint)}. Return them with ${VARIANTS_TOOL_NAME}.`,
+  ].filter(Boolean).join('\n\n')
+}
+
+/**
+ * Older prompt templates ask for ---BLOCK--- delimited text. Those keep using
+ * the block parser so saved prompts continue to work.
+ */
+export function usesLegacyBlockFormat(prompt: string, systemPrompt?: string): boolean {
+  return prompt.includes(LEGACY_BLOCK_DELIMITER) || !!systemPrompt?.includes(LEGACY_BLOCK_DELIMITER)
+}
+
@@ -3,10 +3,19 @@ import fs from 'fs'
 import path from 'path'
 import crypto from 'crypto'
 import { logger } from '../utils/logger'
+import type { SavedLintConfig } from '../../utils/contentLinter'
+
+// Spend caps in USD; an unset cap means no limit
+export interface SpendBudgets {
+  monthlyLimitUsd?: number
+  perImportLimitUsd?: number
+}
 
 interface AppSettings {
   claudeApiKey?: string
   woodpeckerApiKey?: string
+  budgets?: SpendBudgets
+  contentLint?: SavedLintConfig
 }
 
 class SettingsService {
@@ -77,6 +86,8 @@ class SettingsService {
         this.settings = {
           claudeApiKey: encrypted.claudeApiKey ? this.decrypt(encrypted.claudeApiKey) : undefined,
           woodpeckerApiKey: encrypted.woodpeckerApiKey ? this.decrypt(encrypted.woodpeckerApiKey) : undefined,
+          budgets: encrypted.budgets,
+          contentLint: encrypted.contentLint,
         }
 
         logger.info('SettingsService', 'Settings loaded and decrypted successfully')
@@ -115,6 +126,8 @@ class SettingsService {
       const encrypted = {
         claudeApiKey: this.settings.claudeApiKey ? this.encrypt(this.settings.claudeApiKey) : undefined,
         woodpeckerApiKey: this.settings.woodpeckerApiKey ? this.encrypt(this.settings.woodpeckerApiKey) : undefined,
+        budgets: this.settings.budgets,
+        contentLint: this.settings.contentLint,
       }
 
       fs.writeFileSync(this.settingsPath, JSON.stringify(encrypted, null, 2))
@@ -143,6 +156,32 @@ class SettingsService {
     this.saveSettings()
   }
 
+  public getBudgets(): SpendBudgets {
+    return { ...this.settings.budgets }
+  }
+
+  // A cap of 0 or null removes it
+  public updateBudgets(budgets: { monthlyLimitUsd?: number | null; perImportLimitUsd?: number | null }): void {
+    const next: SpendBudgets = { ...this.settings.budgets }
+    for (const key of ['monthlyLimitUsd', 'perImportLimitUsd'] as const) {
+      if (budgets[key] !== undefined) {
+        next[key] = budgets[key] || undefined
+      }
+    }
+    this.settings.budgets = next
+    this.saveSettings()
+  }
+
+  // Content linter rules the user changed; the renderer fills in the defaults
+  public getContentLint(): SavedLintConfig {
+    return { ...this.settings.contentLint }
+  }
+
+  public updateContentLint(config: SavedLintConfig): void {
+    this.settings.contentLint = config
+    this.saveSettings()
+  }
+
   public validateApiKeys(): { claude: boolean; woodpecker: boolean } {
     return {
       claude: !!this.settings.claudeApiKey,
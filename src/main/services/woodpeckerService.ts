@@ -1,5 +1,13 @@
 import { logger } from '../utils/logger'
 import { settingsService } from './settingsService'
+import { getRateLimiter, parseRetryAfter, RateLimitCancelledError } from './rateLimiter'
+import type { RateLimiter, QuotaInfo } from './rateLimiter'
+import { LeadsDAL, CampaignSyncDAL, ENGAGEMENT_STATUSES } from '../../database/dal'
+import type { EngagementStatus, LeadRecord } from '../../database/dal'
+import { DEFAULT_SEQUENCE, toCampaignSequence } from '../../utils/sequenceDefinition'
+import type { SnippetSequenceStep } from '../../utils/sequenceDefinition'
+
+export type { SnippetSequenceStep } from '../../utils/sequenceDefinition'
 
 // Interfaces for Woodpecker API
 export interface WoodpeckerCampaign {
@@ -61,15 +69,121 @@ export interface WoodpeckerApiResponse {
   }>
 }
 
+// Outcome for one prospect of a batch sent to /add_prospects_campaign
+export interface ProspectBatchResult {
+  email: string
+  success: boolean
+  status?: string
+  prospectId?: number
+  error?: string
+}
+
 export interface ExportProgress {
   current: number
   total: number
   succeeded: number
   failed: number
-  status: 'pending' | 'processing' | 'completed' | 'error'
+  status: 'pending' | 'processing' | 'completed' | 'error' | 'cancelled'
   errors: Array<{ email: string; error: string }>
 }
 
+// Campaign step as sent to createCampaign; bodies normally reference {{SNIPPET_n}}
+export interface WoodpeckerCampaignStep {
+  day: number
+  channel: 'email' | 'linkedin'
+  subject?: string
+  body: string
+  // Second version of the step for A/B testing
+  variant?: { subject?: string; body: string }
+}
+
+export interface CreateCampaignRequest {
+  name: string
+  steps?: WoodpeckerCampaignStep[]
+  emailAccountIds?: number[]
+}
+
+/**
+ * Turn a snippet field name into the Woodpecker custom field placeholder,
+ * e.g. "snippet2" -> "{{SNIPPET_2}}".
+ */
+export function toSnippetPlaceholder(field: string): string {
+  const match = /^snippet(\d+)$/i.exec(field)
+  if (!match) {
+    throw new WoodpeckerApiError(`Not a snippet field: ${field}`, 'validation', false)
+  }
+  return `{{SNIPPET_${match[1]}}}`
+}
+
+/**
+ * Build campaign steps from the snippet layout of the generation template, so
+ * every step pulls its text from the prospect's generated snippets.
+ */
+export function buildSnippetCampaignSteps(
+  sequence: SnippetSequenceStep[] = toCampaignSequence(DEFAULT_SEQUENCE)
+): WoodpeckerCampaignStep[] {
+  return sequence.map(step => ({
+    day: step.day,
+    channel: step.channel,
+    ...(step.subject ? { subject: toSnippetPlaceholder(step.subject) } : {}),
+    body: toSnippetPlaceholder(step.body),
+    ...(step.variant
+      ? {
+          variant: {
+            ...(step.variant.subject ? { subject: toSnippetPlaceholder(step.variant.subject) } : {}),
+            body: toSnippetPlaceholder(step.variant.body),
+          },
+        }
+      : {}),
+  }))
+}
+
+// Prospect as returned by GET /prospects, reduced to the fields the engagement sync reads
+export interface WoodpeckerProspectState {
+  id: number
+  email: string
+  status?: string      // ACTIVE, BLACKLIST, AUTOREPLIED, BOUNCED, INVALID, REPLIED, ...
+  interested?: string  // INTERESTED, NOT_INTERESTED, MAYBE_LATER, NOT_MARKED
+  opened?: boolean | number
+  last_opened?: string | null
+  last_replied?: string | null
+}
+
+export interface CampaignSyncResult {
+  campaignId: string
+  prospectsSeen: number
+  leadsUpdated: number
+  syncedAt?: string
+  error?: string
+}
+
+export interface EngagementSyncSummary {
+  campaigns: CampaignSyncResult[]
+  leadsUpdated: number
+  failedCampaigns: number
+}
+
+/**
+ * Collapse a Woodpecker prospect into the single most significant engagement
+ * state, or null when nothing has happened since export.
+ */
+export function mapProspectEngagement(prospect: WoodpeckerProspectState): EngagementStatus | null {
+  const status = (prospect.status || '').toUpperCase()
+  const states = new Set<EngagementStatus>()
+
+  if (status === 'BLACKLIST' || status === 'OPT-OUT') states.add('blacklisted')
+  if (status === 'BOUNCED' || status === 'INVALID') states.add('bounced')
+  if ((prospect.interested || '').toUpperCase() === 'INTERESTED') states.add('interested')
+  if (status === 'REPLIED' || !!prospect.last_replied) states.add('replied')
+  if (status === 'AUTOREPLIED') states.add('autoreplied')
+  if (!!prospect.opened || !!prospect.last_opened) states.add('opened')
+
+  return ENGAGEMENT_STATUSES.find(state => states.has(state)) ?? null
+}
+
+// Lead statuses the sync is allowed to overwrite
+const SYNCABLE_LEAD_STATUSES = new Set<LeadRecord['status']>(['exported', ...ENGAGEMENT_STATUSES])
+
 // Error class for Woodpecker API errors
 export class WoodpeckerApiError extends Error {
   public category:
@@ -77,12 +191,13 @@ export class WoodpeckerApiError extends Error {
     | 'network'
     | 'auth'
     | 'validation'
+    | 'cancelled'
     | 'unknown'
   public retryable: boolean
 
   constructor(
     message: string,
-    category: 'rate_limit' | 'network' | 'auth' | 'validation' | 'unknown',
+    category: 'rate_limit' | 'network' | 'auth' | 'validation' | 'cancelled' | 'unknown',
     retryable: boolean = false
   ) {
     super(message)
@@ -95,13 +210,13 @@ export class WoodpeckerApiError extends Error {
 export class WoodpeckerService {
   private apiKey: string
   private baseUrl: string = 'https://api.woodpecker.co/rest/v1'
+  private v2BaseUrl: string = 'https://api.woodpecker.co/rest/v2' // campaign creation is only available on v2
   private rateLimitDelay: number = 650 // 100 req/min = ~600ms between requests, adding buffer
   private cachedCampaigns: WoodpeckerCampaign[] | null = null
   private cacheExpiry: number | null = null
   private cacheTimeout: number = 5 * 60 * 1000 // 5 minutes
-  private readonly MAX_REQUESTS_PER_MINUTE = 100
-  private requestCount = 0
-  private lastResetTime = Date.now()
+  private rateLimiter: RateLimiter = getRateLimiter('woodpecker')
+  private readonly MAX_RATE_LIMIT_RETRIES = 3
 
   constructor(apiKey?: string) {
     const key = apiKey || settingsService.getWoodpeckerApiKey()
@@ -123,27 +238,16 @@ export class WoodpeckerService {
     logger.info('WoodpeckerService', 'Woodpecker service initialized successfully')
   }
 
-  private resetRateLimitIfNeeded(): void {
-    const now = Date.now()
-    if (now - this.lastResetTime >= 60000) {
-      this.requestCount = 0
-      this.lastResetTime = now
-    }
-  }
-
-  private async checkRateLimit(): Promise<void> {
-    this.resetRateLimitIfNeeded()
-
-    if (this.requestCount >= this.MAX_REQUESTS_PER_MINUTE) {
-      const waitTime = 60000 - (Date.now() - this.lastResetTime)
-      throw new WoodpeckerApiError(
-        `Rate limit reached. Please wait ${Math.ceil(waitTime / 1000)} seconds.`,
-        'rate_limit',
-        true
-      )
+  // Waits for a token from the shared Woodpecker budget instead of failing
+  private async checkRateLimit(signal?: AbortSignal): Promise<void> {
+    try {
+      await this.rateLimiter.acquire(signal)
+    } catch (error) {
+      if (error instanceof RateLimitCancelledError) {
+        throw new WoodpeckerApiError('Operation cancelled', 'cancelled', false)
+      }
+      throw error
     }
-
-    this.requestCount++
   }
 
   private getHeaders(): Record<string, string> {
@@ -153,17 +257,34 @@ export class WoodpeckerService {
     }
   }
 
-  private async delay(ms: number): Promise<void> {
-    return new Promise(resolve => setTimeout(resolve, ms))
+  // Pause between batches; rejects as soon as the operation is cancelled
+  private async delay(ms: number, signal?: AbortSignal): Promise<void> {
+    return new Promise((resolve, reject) => {
+      const onAbort = () => {
+        clearTimeout(timer)
+        reject(new WoodpeckerApiError('Operation cancelled', 'cancelled', false))
+      }
+      const timer = setTimeout(() => {
+        signal?.removeEventListener('abort', onAbort)
+        resolve()
+      }, ms)
+
+      if (signal?.aborted) {
+        onAbort()
+      } else {
+        signal?.addEventListener('abort', onAbort, { once: true })
+      }
+    })
   }
 
   private async makeRequest<T>(
     endpoint: string,
-    options: RequestInit = {}
+    options: RequestInit = {},
+    attempt: number = 1
   ): Promise<T> {
-    await this.checkRateLimit()
+    await this.checkRateLimit(options.signal ?? undefined)
 
-    const url = `${this.baseUrl}${endpoint}`
+    const url = endpoint.startsWith('http') ? endpoint : `${this.baseUrl}${endpoint}`
     logger.info('WoodpeckerService', `Making API request: ${options.method || 'GET'} ${url}`, {
       hasApiKey: !!this.apiKey && this.apiKey !== 'replace',
       apiKeyLength: this.apiKey?.length || 0,
@@ -181,6 +302,17 @@ export class WoodpeckerService {
 
       logger.debug('WoodpeckerService', `Response received: ${response.status} ${response.statusText}`)
 
+      // Pause the shared budget for as long as the server asks, then queue up again
+      if (response.status === 429) {
+        const retryAfterMs = parseRetryAfter(response.headers?.get('Retry-After'))
+        this.rateLimiter.pauseFor(retryAfterMs ?? 60000)
+
+        if (attempt < this.MAX_RATE_LIMIT_RETRIES) {
+          logger.warn('WoodpeckerService', `Rate limited, retrying after pause (attempt ${attempt}/${this.MAX_RATE_LIMIT_RETRIES})`)
+          return this.makeRequest<T>(endpoint, options, attempt + 1)
+        }
+      }
+
       const data = await response.json()
 
       if (!response.ok) {
@@ -210,6 +342,12 @@ export class WoodpeckerService {
       if (error instanceof WoodpeckerApiError) {
         throw error
       }
+
+      // fetch rejects with an AbortError once the caller's signal fires
+      if (options.signal?.aborted) {
+        logger.info('WoodpeckerService', `Request cancelled: ${options.method || 'GET'} ${url}`)
+        throw new WoodpeckerApiError('Operation cancelled', 'cancelled', false)
+      }
       
       logger.error('WoodpeckerService', 'Request failed', error instanceof Error ? error : new Error(String(error)))
       
@@ -269,6 +407,90 @@ export class WoodpeckerService {
     }
   }
 
+  /**
+   * Create a campaign whose steps are driven by prospect snippets. When no
+   * steps are given the default Day 1/3/7/12/17/25 snippet sequence is used.
+   */
+  async createCampaign(request: CreateCampaignRequest): Promise<WoodpeckerCampaign> {
+    if (!this.apiKey || this.apiKey.trim() === '' || this.apiKey === 'replace') {
+      throw new WoodpeckerApiError('Woodpecker API key is not configured. Please add your API key in Settings.', 'auth', false)
+    }
+
+    const name = request.name?.trim()
+    if (!name) {
+      throw new WoodpeckerApiError('Campaign name is required', 'validation', false)
+    }
+
+    const steps = request.steps && request.steps.length > 0 ? request.steps : buildSnippetCampaignSteps()
+    steps.forEach((step, index) => {
+      if (!step.body || (step.variant && !step.variant.body)) {
+        throw new WoodpeckerApiError(`Step ${index + 1} has no body`, 'validation', false)
+      }
+      if (index > 0 && step.day <= steps[index - 1].day) {
+        throw new WoodpeckerApiError('Campaign steps must be in increasing day order', 'validation', false)
+      }
+    })
+    if (steps[0].channel === 'email' && !steps[0].subject) {
+      throw new WoodpeckerApiError('The first email step needs a subject', 'validation', false)
+    }
+
+    logger.info('WoodpeckerService', `Creating campaign "${name}" with ${steps.length} steps`)
+
+    const response = await this.makeRequest<{ id: number; name?: string; status?: string; created?: string }>(
+      `${this.v2BaseUrl}/campaigns`,
+      {
+        method: 'POST',
+        body: JSON.stringify({
+          name,
+          ...(request.emailAccountIds?.length ? { email_account_ids: request.emailAccountIds } : {}),
+          steps: this.buildStepTree(steps),
+        }),
+      }
+    )
+
+    // New campaign should show up in the next getCampaigns()
+    this.clearCampaignCache()
+
+    logger.info('WoodpeckerService', `Campaign created: ${response.id}`)
+    return {
+      campaign_id: response.id,
+      name: response.name || name,
+      status: response.status || 'DRAFT',
+      created_date: response.created || new Date().toISOString(),
+      prospects_count: 0,
+    }
+  }
+
+  // Woodpecker v2 describes steps as a START node with nested followups; delays are relative.
+  // A/B tested steps carry one entry per version.
+  private buildStepTree(steps: WoodpeckerCampaignStep[]): Record<string, unknown> {
+    let followup: Record<string, unknown> | undefined
+
+    for (let i = steps.length - 1; i >= 0; i--) {
+      const step = steps[i]
+      const delay = i === 0 ? 0 : step.day - steps[i - 1].day
+      const versions = [step, ...(step.variant ? [step.variant] : [])]
+
+      followup = {
+        delay,
+        delay_unit: 'DAYS',
+        step: {
+          type: step.channel === 'email' ? 'EMAIL' : 'LINKEDIN_SEND_MESSAGE',
+          body: {
+            versions: versions.map(version =>
+              step.channel === 'email'
+                ? { subject: version.subject || '', message: version.body }
+                : { message: version.body }
+            ),
+          },
+          ...(followup ? { followup } : {}),
+        },
+      }
+    }
+
+    return { type: 'START', followup }
+  }
+
   private getMockCampaigns(): WoodpeckerCampaign[] {
     // Mock campaigns for development/demo
     const mockCampaigns = [
@@ -337,7 +559,8 @@ export class WoodpeckerService {
   async addProspectsToCampaign(
     prospects: WoodpeckerProspect[],
     campaignId: number,
-    onProgress?: (progress: ExportProgress) => void
+    onProgress?: (progress: ExportProgress) => void,
+    signal?: AbortSignal
   ): Promise<ExportProgress> {
     logger.info('WoodpeckerService', `Starting export of ${prospects.length} prospects to campaign ${campaignId}`)
 
@@ -369,122 +592,48 @@ export class WoodpeckerService {
     }
 
     try {
-      for (const batch of batches) {
-        const request: AddProspectsRequest = {
-          prospects: batch,
-          campaign: {
-            campaign_id: campaignId,
-          },
-          force: false,
+      for (const [batchIndex, batch] of batches.entries()) {
+        // Stop between batches; prospects already pushed stay counted
+        if (signal?.aborted) {
+          logger.info('WoodpeckerService', `Export cancelled after ${progress.current}/${progress.total} prospects`)
+          progress.status = 'cancelled'
+          return progress
         }
 
         try {
-          logger.debug('WoodpeckerService', `Sending batch ${batches.indexOf(batch) + 1}/${batches.length} (${batch.length} prospects)`)
-
-          // Log detailed prospect data being sent to Woodpecker
-          batch.forEach((prospect, index) => {
-            logger.info('WoodpeckerService', `🔍 Prospect ${index + 1} data being sent to Woodpecker:`, {
-              email: prospect.email,
-              first_name: prospect.first_name,
-              last_name: prospect.last_name,
-              company: prospect.company,
-              title: prospect.title,
-              linkedin_url: prospect.linkedin_url,
-              city: prospect.city,
-              state: prospect.state,
-              country: prospect.country,
-              time_zone: prospect.time_zone,
-              hasTimeZone: !!prospect.time_zone,
-              timeZoneValue: prospect.time_zone,
-              snippet1: prospect.snippet1?.substring(0, 50) + '...',
-              snippet2: prospect.snippet2?.substring(0, 50) + '...',
-              allProspectKeys: Object.keys(prospect),
-              fullProspectData: prospect
-            })
-          })
+          logger.debug('WoodpeckerService', `Sending batch ${batchIndex + 1}/${batches.length} (${batch.length} prospects)`)
 
-          logger.info('WoodpeckerService', `📤 Full request payload to Woodpecker:`, JSON.stringify(request, null, 2))
+          const results = await this.sendProspectBatch(batch, campaignId, false, signal)
 
-          const response = await this.makeRequest<WoodpeckerApiResponse>(
-            '/add_prospects_campaign',
-            {
-              method: 'POST',
-              body: JSON.stringify(request),
+          results.forEach(result => {
+            progress.current++
+            if (result.success) {
+              progress.succeeded++
+            } else {
+              progress.failed++
+              progress.errors.push({
+                email: result.email,
+                error: result.error || 'Unknown error',
+              })
             }
-          )
-
-          logger.debug('WoodpeckerService', 'Batch response received', {
-            hasProspects: !!response.prospects,
-            prospectsLength: response.prospects?.length,
-            statusInfo: response.status
           })
 
-          // Collect successfully added prospect IDs for timezone detection
-          const addedProspectIds: number[] = []
-
-          if (response.prospects) {
-            response.prospects.forEach((prospect) => {
-              progress.current++
-
-              // Check for success - Woodpecker API typically returns status in prospect object
-              const isSuccess = (
-                prospect.status === 'OK' ||
-                prospect.status === 'DUPLICATE' ||
-                prospect.status === 'SUCCESS' ||
-                prospect.result === 'OK' ||
-                prospect.result === 'SUCCESS' ||
-                (!prospect.error && !prospect.status) // If no error field and prospect exists, assume success
-              )
-
-              if (isSuccess) {
-                logger.debug('WoodpeckerService', `Prospect ${prospect.email} succeeded`)
-                progress.succeeded++
-
-                // Collect ID for timezone detection
-                if (prospect.id) {
-                  addedProspectIds.push(prospect.id)
-                }
-              } else {
-                const errorMessage =
-                  prospect.msg ||
-                  prospect.message ||
-                  prospect.error ||
-                  prospect.status ||
-                  (prospect.status === undefined ? 'API response missing status field' : 'Unknown error')
-
-                logger.debug('WoodpeckerService', `Prospect ${prospect.email} failed: ${errorMessage}`)
-                progress.failed++
-                progress.errors.push({
-                  email: prospect.email,
-                  error: errorMessage,
-                })
-              }
-            })
-          } else {
-            batch.forEach(_prospect => {
-              progress.current++
-              progress.succeeded++
-            })
-          }
-
-          // After each batch, trigger timezone detection for successfully added prospects
-          if (addedProspectIds.length > 0) {
-            logger.debug('WoodpeckerService', `Triggering timezone detection for ${addedProspectIds.length} prospects`)
-            // Fire and forget - don't wait for timezone detection
-            this.detectProspectTimezones(addedProspectIds).catch(err =>
-              logger.warn('WoodpeckerService', 'Timezone detection failed but prospects were added', err instanceof Error ? err : new Error(String(err)))
-            )
-          }
-
           if (onProgress) {
             onProgress({ ...progress })
           }
 
           // Rate limiting between batches
-          if (batches.indexOf(batch) < batches.length - 1) {
-            await this.delay(this.rateLimitDelay)
+          if (batchIndex < batches.length - 1) {
+            await this.delay(this.rateLimitDelay, signal)
           }
         } catch (error) {
+          // The batch in flight was abandoned; its prospects are neither sent nor failed
+          if (error instanceof WoodpeckerApiError && error.category === 'cancelled') {
+            logger.info('WoodpeckerService', `Export cancelled after ${progress.current}/${progress.total} prospects`)
+            progress.status = 'cancelled'
+            return progress
+          }
+
           // Handle batch failure
           batch.forEach(_prospect => {
             progress.current++
@@ -509,6 +658,121 @@ export class WoodpeckerService {
     }
   }
 
+  /**
+   * Push a single batch of prospects and return one result per prospect, in
+   * the order they were sent. Throws when the request as a whole fails.
+   */
+  async sendProspectBatch(
+    batch: WoodpeckerProspect[],
+    campaignId: number,
+    force: boolean = false,
+    signal?: AbortSignal
+  ): Promise<ProspectBatchResult[]> {
+    const request: AddProspectsRequest = {
+      prospects: batch,
+      campaign: {
+        campaign_id: campaignId,
+      },
+      force,
+    }
+
+    // Log detailed prospect data being sent to Woodpecker
+    batch.forEach((prospect, index) => {
+      logger.info('WoodpeckerService', `🔍 Prospect ${index + 1} data being sent to Woodpecker:`, {
+        email: prospect.email,
+        first_name: prospect.first_name,
+        last_name: prospect.last_name,
+        company: prospect.company,
+        title: prospect.title,
+        linkedin_url: prospect.linkedin_url,
+        city: prospect.city,
+        state: prospect.state,
+        country: prospect.country,
+        time_zone: prospect.time_zone,
+        hasTimeZone: !!prospect.time_zone,
+        timeZoneValue: prospect.time_zone,
+        snippet1: prospect.snippet1?.substring(0, 50) + '...',
+        snippet2: prospect.snippet2?.substring(0, 50) + '...',
+        allProspectKeys: Object.keys(prospect),
+        fullProspectData: prospect
+      })
+    })
+
+    logger.info('WoodpeckerService', `📤 Full request payload to Woodpecker:`, JSON.stringify(request, null, 2))
+
+    const response = await this.makeRequest<WoodpeckerApiResponse>(
+      '/add_prospects_campaign',
+      {
+        method: 'POST',
+        body: JSON.stringify(request),
+        signal,
+      }
+    )
+
+    logger.debug('WoodpeckerService', 'Batch response received', {
+      hasProspects: !!response.prospects,
+      prospectsLength: response.prospects?.length,
+      statusInfo: response.status
+    })
+
+    // No per-prospect breakdown means the whole batch was accepted
+    if (!response.prospects) {
+      return batch.map(prospect => ({ email: prospect.email, success: true }))
+    }
+
+    const byEmail = new Map(response.prospects.map(prospect => [prospect.email?.toLowerCase(), prospect]))
+
+    // Collect successfully added prospect IDs for timezone detection
+    const addedProspectIds: number[] = []
+
+    const results = batch.map((sent): ProspectBatchResult => {
+      const prospect = byEmail.get(sent.email.toLowerCase())
+      if (!prospect) {
+        return { email: sent.email, success: false, error: 'API response missing prospect' }
+      }
+
+      // Check for success - Woodpecker API typically returns status in prospect object
+      const isSuccess = (
+        prospect.status === 'OK' ||
+        prospect.status === 'DUPLICATE' ||
+        prospect.status === 'SUCCESS' ||
+        prospect.result === 'OK' ||
+        prospect.result === 'SUCCESS' ||
+        (!prospect.error && !prospect.status) // If no error field and prospect exists, assume success
+      )
+
+      if (isSuccess) {
+        logger.debug('WoodpeckerService', `Prospect ${prospect.email} succeeded`)
+
+        if (prospect.id) {
+          addedProspectIds.push(prospect.id)
+        }
+        return { email: sent.email, success: true, status: prospect.status || prospect.result, prospectId: prospect.id }
+      }
+
+      const errorMessage =
+        prospect.msg ||
+        prospect.message ||
+        prospect.error ||
+        prospect.status ||
+        (prospect.status === undefined ? 'API response missing status field' : 'Unknown error')
+
+      logger.debug('WoodpeckerService', `Prospect ${prospect.email} failed: ${errorMessage}`)
+      return { email: sent.email, success: false, status: prospect.status, prospectId: prospect.id, error: errorMessage }
+    })
+
+    // After each batch, trigger timezone detection for successfully added prospects
+    if (addedProspectIds.length > 0) {
+      logger.debug('WoodpeckerService', `Triggering timezone detection for ${addedProspectIds.length} prospects`)
+      // Fire and forget - don't wait for timezone detection
+      this.detectProspectTimezones(addedProspectIds).catch(err =>
+        logger.warn('WoodpeckerService', 'Timezone detection failed but prospects were added', err instanceof Error ? err : new Error(String(err)))
+      )
+    }
+
+    return results
+  }
+
   private async simulateExport(
     prospects: WoodpeckerProspect[],
     campaignId: number,
@@ -571,6 +835,86 @@ export class WoodpeckerService {
     }
   }
 
+  /**
+   * Fetch every prospect in a campaign, following pagination until a short page.
+   */
+  async getCampaignProspects(campaignId: number): Promise<WoodpeckerProspectState[]> {
+    if (!this.apiKey || this.apiKey.trim() === '' || this.apiKey === 'replace') {
+      throw new WoodpeckerApiError('Woodpecker API key is not configured. Please add your API key in Settings.', 'auth', false)
+    }
+
+    const PAGE_SIZE = 500
+    const prospects: WoodpeckerProspectState[] = []
+
+    for (let page = 1; ; page++) {
+      const response = await this.makeRequest<WoodpeckerProspectState[] | { prospects?: WoodpeckerProspectState[] }>(
+        `/prospects?campaigns_id=${campaignId}&page=${page}&per_page=${PAGE_SIZE}`
+      )
+      const batch = Array.isArray(response) ? response : response?.prospects || []
+      prospects.push(...batch)
+
+      if (batch.length < PAGE_SIZE) break
+      await this.delay(this.rateLimitDelay)
+    }
+
+    logger.debug('WoodpeckerService', `Fetched ${prospects.length} prospects for campaign ${campaignId}`)
+    return prospects
+  }
+
+  /**
+   * Pull per-prospect engagement for every campaign that has exported leads
+   * (or just the given campaigns) and write it back onto the leads table.
+   * A failing campaign is recorded and skipped so the others still sync.
+   */
+  async syncProspectEngagement(campaignIds?: string[]): Promise<EngagementSyncSummary> {
+    const targets = campaignIds && campaignIds.length > 0 ? campaignIds : LeadsDAL.getExportedCampaignIds()
+    logger.info('WoodpeckerService', `Syncing prospect engagement for ${targets.length} campaigns`)
+
+    const summary: EngagementSyncSummary = { campaigns: [], leadsUpdated: 0, failedCampaigns: 0 }
+
+    for (const campaignId of targets) {
+      try {
+        const prospects = await this.getCampaignProspects(Number(campaignId))
+        // Prospects without an email cannot be matched to a lead
+        const byEmail = new Map(prospects.filter(p => p.email).map(p => [p.email.toLowerCase(), p]))
+        const syncedAt = new Date().toISOString()
+        let leadsUpdated = 0
+
+        for (const lead of LeadsDAL.getCampaignLeads(campaignId)) {
+          const prospect = lead.email ? byEmail.get(lead.email.toLowerCase()) : undefined
+          if (!prospect || !SYNCABLE_LEAD_STATUSES.has(lead.status)) continue
+
+          const engagement = mapProspectEngagement(prospect) ?? 'exported'
+          if (engagement !== lead.status) leadsUpdated++
+
+          LeadsDAL.updateEngagement(lead.id!, {
+            status: engagement,
+            woodpecker_prospect_id: prospect.id,
+            syncedAt
+          })
+        }
+
+        CampaignSyncDAL.recordSync(campaignId, { prospectsSeen: prospects.length, leadsUpdated, syncedAt })
+        summary.campaigns.push({ campaignId, prospectsSeen: prospects.length, leadsUpdated, syncedAt })
+        summary.leadsUpdated += leadsUpdated
+      } catch (error) {
+        const message = error instanceof Error ? error.message : String(error)
+        logger.error('WoodpeckerService', `Engagement sync failed for campaign ${campaignId}`, error instanceof Error ? error : new Error(message))
+
+        CampaignSyncDAL.recordError(campaignId, message)
+        summary.campaigns.push({ campaignId, prospectsSeen: 0, leadsUpdated: 0, error: message })
+        summary.failedCampaigns++
+
+        if (error instanceof WoodpeckerApiError && error.category === 'auth') {
+          break
+        }
+      }
+    }
+
+    logger.info('WoodpeckerService', `Engagement sync complete: ${summary.leadsUpdated} leads changed, ${summary.failedCampaigns} campaigns failed`)
+    return summary
+  }
+
   clearCampaignCache(): void {
     this.cachedCampaigns = null
     this.cacheExpiry = null
@@ -578,13 +922,8 @@ export class WoodpeckerService {
   }
 
   // Quota management methods
-  getQuotaInfo(): { requestCount: number; remainingRequests: number; maxRequestsPerMinute: number } {
-    this.resetRateLimitIfNeeded()
-    return {
-      requestCount: this.requestCount,
-      remainingRequests: this.MAX_REQUESTS_PER_MINUTE - this.requestCount,
-      maxRequestsPerMinute: this.MAX_REQUESTS_PER_MINUTE
-    }
+  getQuotaInfo(): QuotaInfo {
+    return this.rateLimiter.getQuotaInfo()
   }
 }
 
@@ -0,0 +1,244 @@
+import { useState, useEffect, useCallback } from 'react'
+import { Card, CardContent, CardHeader, CardTitle, CardDescription } from '@/components/ui/card'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { Textarea } from '@/components/ui/textarea'
+import { Checkbox } from '@/components/ui/checkbox'
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table'
+import { toast } from 'sonner'
+import { Loader2, Pencil, Plus, Save, Trash2 } from 'lucide-react'
+import { templateService } from '@/services/templateService'
+import type { CaseStudyRecord } from '@/types/api'
+
+interface CaseStudyDraft {
+  customer: string
+  industry: string
+  metric: string
+  wording: string
+}
+
+const EMPTY_DRAFT: CaseStudyDraft = { customer: '', industry: '', metric: '', wording: '' }
+
+function toDraft(caseStudy: CaseStudyRecord): CaseStudyDraft {
+  return {
+    customer: caseStudy.customer,
+    industry: caseStudy.industry || '',
+    metric: caseStudy.metric || '',
+    wording: caseStudy.wording,
+  }
+}
+
+export function CaseStudies() {
+  const [caseStudies, setCaseStudies] = useState<CaseStudyRecord[]>([])
+  const [editingId, setEditingId] = useState<number | null>(null)
+  const [draft, setDraft] = useState<CaseStudyDraft>(EMPTY_DRAFT)
+  const [loading, setLoading] = useState(true)
+  const [saving, setSaving] = useState(false)
+
+  const loadCaseStudies = useCallback(async () => {
+    const response = await window.api.caseStudies.getAll(true)
+    setLoading(false)
+    if (!response.success) {
+      toast.error(response.error?.message || 'Failed to load case studies')
+      return
+    }
+
+    setCaseStudies(response.data)
+    // Prompts generated from now on use the edited library
+    templateService.setCaseStudies(response.data)
+  }, [])
+
+  useEffect(() => {
+    if (!window.api) return
+    loadCaseStudies()
+  }, [loadCaseStudies])
+
+  const startEditing = (caseStudy: CaseStudyRecord) => {
+    setEditingId(caseStudy.id!)
+    setDraft(toDraft(caseStudy))
+  }
+
+  const resetForm = () => {
+    setEditingId(null)
+    setDraft(EMPTY_DRAFT)
+  }
+
+  const save = async () => {
+    setSaving(true)
+    const response = editingId
+      ? await window.api.caseStudies.update(editingId, draft)
+      : await window.api.caseStudies.create(draft)
+    setSaving(false)
+
+    if (!response.success) {
+      toast.error(response.error?.message || 'Failed to save case study')
+      return
+    }
+    toast.success(editingId ? 'Case study updated' : `Added ${draft.customer.trim()}`)
+    resetForm()
+    await loadCaseStudies()
+  }
+
+  const setActive = async (caseStudy: CaseStudyRecord, active: boolean) => {
+    const response = await window.api.caseStudies.update(caseStudy.id!, { active })
+    if (response.success) {
+      await loadCaseStudies()
+    } else {
+      toast.error(response.error?.message || 'Failed to update case study')
+    }
+  }
+
+  const remove = async (caseStudy: CaseStudyRecord) => {
+    if (!window.confirm(`Delete the ${caseStudy.customer} case study?`)) return
+
+    const response = await window.api.caseStudies.delete(caseStudy.id!)
+    if (response.success) {
+      if (editingId === caseStudy.id) resetForm()
+      toast.success(`Deleted ${caseStudy.customer}`)
+      await loadCaseStudies()
+    } else {
+      toast.error(response.error?.message || 'Failed to delete case study')
+    }
+  }
+
+  return (
+    <div className="space-y-6">
+      <div>
+        <h1 className="text-3xl font-bold">Case Studies</h1>
+        <p className="text-muted-foreground">
+          Peer proof in generated content is limited to these active customers and results. The editor flags other statistics, and other customers named after phrases like "helped" or "customers like"
+        </p>
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>{editingId ? 'Edit case study' : 'New case study'}</CardTitle>
+          <CardDescription>
+            Leave the industry empty to offer a proof point to leads in every industry
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <div className="grid grid-cols-3 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="case-study-customer">Customer</Label>
+              <Input
+                id="case-study-customer"
+                value={draft.customer}
+                onChange={(e) => setDraft({ ...draft, customer: e.target.value })}
+                placeholder="e.g. Northwind Bank"
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="case-study-industry">Industry</Label>
+              <Input
+                id="case-study-industry"
+                value={draft.industry}
+                onChange={(e) => setDraft({ ...draft, industry: e.target.value })}
+                placeholder="All industries"
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="case-study-metric">Metric</Label>
+              <Input
+                id="case-study-metric"
+                value={draft.metric}
+                onChange={(e) => setDraft({ ...draft, metric: e.target.value })}
+                placeholder="e.g. 40% faster new hire ramp time"
+              />
+            </div>
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="case-study-wording">Approved wording</Label>
+            <Textarea
+              id="case-study-wording"
+              value={draft.wording}
+              onChange={(e) => setDraft({ ...draft, wording: e.target.value })}
+              placeholder="How the customer has agreed we describe the work"
+            />
+          </div>
+          <div className="flex justify-end gap-2">
+            {editingId && (
+              <Button variant="ghost" onClick={resetForm} disabled={saving}>
+                Cancel
+              </Button>
+            )}
+            <Button onClick={save} disabled={saving || !draft.customer.trim() || !draft.wording.trim()}>
+              {saving ? (
+                <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+              ) : editingId ? (
+                <Save className="mr-2 h-4 w-4" />
+              ) : (
+                <Plus className="mr-2 h-4 w-4" />
+              )}
+              {editingId ? 'Save Changes' : 'Add Case Study'}
+            </Button>
+          </div>
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Library</CardTitle>
+          <CardDescription>Inactive case studies are kept but no longer offered to the prompt</CardDescription>
+        </CardHeader>
+        <CardContent>
+          {loading ? (
+            <div className="flex items-center justify-center h-32">
+              <Loader2 className="h-6 w-6 animate-spin" />
+            </div>
+          ) : caseStudies.length === 0 ? (
+            <p className="text-sm text-muted-foreground">
+              No case studies yet. Until you add some, generated content makes no customer claims.
+            </p>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Active</TableHead>
+                  <TableHead>Customer</TableHead>
+                  <TableHead>Industry</TableHead>
+                  <TableHead>Metric</TableHead>
+                  <TableHead>Approved wording</TableHead>
+                  <TableHead />
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {caseStudies.map(caseStudy => (
+                  <TableRow key={caseStudy.id}>
+                    <TableCell>
+                      <Checkbox
+                        checked={caseStudy.active}
+                        onCheckedChange={(checked) => setActive(caseStudy, checked === true)}
+                        aria-label={`${caseStudy.customer} active`}
+                      />
+                    </TableCell>
+                    <TableCell className="font-medium">{caseStudy.customer}</TableCell>
+                    <TableCell>{caseStudy.industry || 'All industries'}</TableCell>
+                    <TableCell>{caseStudy.metric || '—'}</TableCell>
+                    <TableCell className="max-w-md whitespace-normal text-sm">{caseStudy.wording}</TableCell>
+                    <TableCell className="text-right whitespace-nowrap">
+                      <Button variant="ghost" size="sm" onClick={() => startEditing(caseStudy)} aria-label="Edit">
+                        <Pencil className="h-4 w-4" />
+                      </Button>
+                      <Button variant="ghost" size="sm" onClick={() => remove(caseStudy)} aria-label="Delete">
+                        <Trash2 className="h-4 w-4" />
+                      </Button>
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  )
+}
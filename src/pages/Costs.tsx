@@ -0,0 +1,151 @@
+import { useState, useEffect } from 'react'
+import { Card, CardContent, CardHeader, CardTitle, CardDescription } from '@/components/ui/card'
+import { Tabs, TabsList, TabsTrigger } from '@/components/ui/tabs'
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableFooter,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table'
+import { Loader2 } from 'lucide-react'
+import { MODEL_PRICING, formatPrice } from '@/utils/tokenCounter'
+import type { UsageSummaryGrouping, UsageSummaryRow } from '@/types/api'
+
+const GROUPING_LABELS: Record<UsageSummaryGrouping, string> = {
+  import: 'Import',
+  model: 'Model',
+  day: 'Day',
+}
+
+function rowLabel(row: UsageSummaryRow, groupBy: UsageSummaryGrouping): string {
+  if (groupBy === 'model') {
+    return MODEL_PRICING[row.key]?.displayName || row.label
+  }
+  return row.label
+}
+
+function formatTokens(tokens: number): string {
+  return tokens.toLocaleString()
+}
+
+export function Costs() {
+  const [groupBy, setGroupBy] = useState<UsageSummaryGrouping>('import')
+  const [rows, setRows] = useState<UsageSummaryRow[]>([])
+  const [loading, setLoading] = useState(true)
+  const [error, setError] = useState<string | null>(null)
+
+  useEffect(() => {
+    if (!window.api) return
+
+    let active = true
+    setLoading(true)
+    window.api.usage.getSummary(groupBy).then(response => {
+      if (!active) return
+      if (response.success) {
+        setRows(response.data || [])
+        setError(null)
+      } else {
+        setError(response.error?.message || 'Failed to load usage')
+      }
+      setLoading(false)
+    })
+
+    return () => {
+      active = false
+    }
+  }, [groupBy])
+
+  const totals = rows.reduce(
+    (sum, row) => ({
+      requests: sum.requests + row.requests,
+      input_tokens: sum.input_tokens + row.input_tokens,
+      output_tokens: sum.output_tokens + row.output_tokens,
+      cache_read_tokens: sum.cache_read_tokens + row.cache_read_input_tokens,
+      cache_write_tokens: sum.cache_write_tokens + row.cache_creation_input_tokens,
+      cost_usd: sum.cost_usd + row.cost_usd,
+    }),
+    { requests: 0, input_tokens: 0, output_tokens: 0, cache_read_tokens: 0, cache_write_tokens: 0, cost_usd: 0 }
+  )
+
+  return (
+    <div className="space-y-6">
+      <div>
+        <h1 className="text-3xl font-bold">Costs</h1>
+        <p className="text-muted-foreground">
+          Actual token usage and spend of every Claude call
+        </p>
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Spend by {GROUPING_LABELS[groupBy].toLowerCase()}</CardTitle>
+          <CardDescription>
+            Priced from recorded usage; cache reads are prompt cache hits, cache writes are misses
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <Tabs value={groupBy} onValueChange={value => setGroupBy(value as UsageSummaryGrouping)}>
+            <TabsList>
+              {(Object.keys(GROUPING_LABELS) as UsageSummaryGrouping[]).map(grouping => (
+                <TabsTrigger key={grouping} value={grouping}>
+                  Per {GROUPING_LABELS[grouping].toLowerCase()}
+                </TabsTrigger>
+              ))}
+            </TabsList>
+          </Tabs>
+
+          {loading ? (
+            <div className="flex items-center justify-center h-32">
+              <Loader2 className="h-6 w-6 animate-spin" />
+            </div>
+          ) : error ? (
+            <p className="text-sm text-destructive">{error}</p>
+          ) : rows.length === 0 ? (
+            <p className="text-sm text-muted-foreground">No usage recorded yet.</p>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>{GROUPING_LABELS[groupBy]}</TableHead>
+                  <TableHead className="text-right">Requests</TableHead>
+                  <TableHead className="text-right">Input tokens</TableHead>
+                  <TableHead className="text-right">Output tokens</TableHead>
+                  <TableHead className="text-right">Cache reads</TableHead>
+                  <TableHead className="text-right">Cache writes</TableHead>
+                  <TableHead className="text-right">Cost</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {rows.map(row => (
+                  <TableRow key={row.key}>
+                    <TableCell className="font-medium">{rowLabel(row, groupBy)}</TableCell>
+                    <TableCell className="text-right">{row.requests}</TableCell>
+                    <TableCell className="text-right">{formatTokens(row.input_tokens)}</TableCell>
+                    <TableCell className="text-right">{formatTokens(row.output_tokens)}</TableCell>
+                    <TableCell className="text-right">{formatTokens(row.cache_read_input_tokens)}</TableCell>
+                    <TableCell className="text-right">{formatTokens(row.cache_creation_input_tokens)}</TableCell>
+                    <TableCell className="text-right">{formatPrice(row.cost_usd)}</TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+              <TableFooter>
+                <TableRow>
+                  <TableCell>Total</TableCell>
+                  <TableCell className="text-right">{totals.requests}</TableCell>
+                  <TableCell className="text-right">{formatTokens(totals.input_tokens)}</TableCell>
+                  <TableCell className="text-right">{formatTokens(totals.output_tokens)}</TableCell>
+                  <TableCell className="text-right">{formatTokens(totals.cache_read_tokens)}</TableCell>
+                  <TableCell className="text-right">{formatTokens(totals.cache_write_tokens)}</TableCell>
+                  <TableCell className="text-right">{formatPrice(totals.cost_usd)}</TableCell>
+                </TableRow>
+              </TableFooter>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  )
+}
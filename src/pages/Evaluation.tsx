@@ -0,0 +1,432 @@
+import { useEffect, useMemo, useRef, useState } from 'react'
+import { Card, CardContent, CardHeader, CardTitle, CardDescription } from '@/components/ui/card'
+import { Button } from '@/components/ui/button'
+import { Checkbox } from '@/components/ui/checkbox'
+import { Label } from '@/components/ui/label'
+import { Textarea } from '@/components/ui/textarea'
+import { Badge } from '@/components/ui/badge'
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table'
+import { toast } from 'sonner'
+import { Download, Loader2, Play, RotateCcw, Upload } from 'lucide-react'
+import {
+  GOLDEN_LEADS,
+  PromptEvaluationService,
+  bundledCandidate,
+  versionCandidate,
+} from '@/services/promptEvaluationService'
+import type {
+  EvaluationCandidate,
+  EvaluationCell,
+  EvaluationMode,
+  EvaluationRecording,
+  EvaluationReport,
+} from '@/services/promptEvaluationService'
+import { useContentLintConfig } from '@/hooks/useContentLintConfig'
+import { useCaseStudies } from '@/hooks/useCaseStudies'
+import { MODEL_PRICING } from '@/utils/tokenCounter'
+import { snippetField } from '@/utils/sequenceDefinition'
+import { cn } from '@/lib/utils'
+import type { FewShotExampleRecord, SenderProfileRecord } from '@/types/api'
+
+// The last live run, kept so it can be replayed without calling Claude
+const RECORDING_STORAGE_KEY = 'prompt_evaluation_recording'
+
+function loadSavedRecording(): EvaluationRecording | null {
+  try {
+    const saved = localStorage.getItem(RECORDING_STORAGE_KEY)
+    return saved ? (JSON.parse(saved) as EvaluationRecording) : null
+  } catch {
+    return null
+  }
+}
+
+function scoreClass(score: number): string {
+  return score >= 85 ? 'text-green-600' : score >= 60 ? 'text-amber-600' : 'text-red-600'
+}
+
+function ResultCell({ cell }: { cell?: EvaluationCell }) {
+  if (!cell) return null
+  if (!cell.score) {
+    return <span className="text-xs text-red-600">{cell.error}</span>
+  }
+
+  const findings = [
+    ...(cell.score.structureValid ? [] : ['Incomplete or malformed sequence']),
+    ...cell.score.lengthIssues.map((issue) => issue.message),
+    ...cell.score.lintIssues.map((issue) => issue.message),
+  ]
+
+  return (
+    <div className="space-y-1">
+      <div className="flex items-center gap-2">
+        <span className={cn('text-lg font-semibold', scoreClass(cell.score.score))}>{cell.score.score}</span>
+        {cell.score.passed ? <Badge variant="secondary">Pass</Badge> : <Badge variant="destructive">Fail</Badge>}
+        {cell.stale && (
+          <Badge variant="outline" title="Recorded for a different prompt than this version builds now">
+            Stale
+          </Badge>
+        )}
+      </div>
+      {findings.length > 0 && (
+        <ul className="list-disc pl-4 text-xs text-muted-foreground">
+          {findings.map((finding, index) => (
+            <li key={index}>{finding}</li>
+          ))}
+        </ul>
+      )}
+    </div>
+  )
+}
+
+export function Evaluation() {
+  const [candidates, setCandidates] = useState<EvaluationCandidate[]>(() => [bundledCandidate()])
+  const [selectedIds, setSelectedIds] = useState<string[]>(['bundled'])
+  const [systemPrompt, setSystemPrompt] = useState('')
+  const [modelId, setModelId] = useState('claude-sonnet-4-20250514')
+  const [recording, setRecording] = useState<EvaluationRecording | null>(loadSavedRecording)
+  const [report, setReport] = useState<EvaluationReport | null>(null)
+  const [running, setRunning] = useState<EvaluationMode | null>(null)
+  const [progress, setProgress] = useState({ completed: 0, total: 0 })
+  const [compareLeadId, setCompareLeadId] = useState(GOLDEN_LEADS[0]?.id)
+  const fileInput = useRef<HTMLInputElement>(null)
+  const lintConfig = useContentLintConfig()
+  const caseStudies = useCaseStudies()
+  const [fewShotExamples, setFewShotExamples] = useState<FewShotExampleRecord[]>([])
+  const [sender, setSender] = useState<SenderProfileRecord | null>(null)
+
+  // Golden leads get the examples and default sender a stored lead would
+  useEffect(() => {
+    if (!window.api?.fewShotExamples || !window.api?.senderProfiles) return
+
+    let active = true
+    const loadPromptData = async () => {
+      const [examples, senders] = await Promise.all([
+        window.api.fewShotExamples.getAll(),
+        window.api.senderProfiles.getAll(),
+      ])
+      if (!active) return
+      if (examples.success) {
+        setFewShotExamples(examples.data)
+      } else {
+        console.error('Failed to load few-shot examples:', examples.error)
+      }
+      if (senders.success) {
+        setSender(senders.data.find((profile) => profile.is_default) || null)
+      } else {
+        console.error('Failed to load sender profiles:', senders.error)
+      }
+    }
+    loadPromptData()
+
+    return () => {
+      active = false
+    }
+  }, [])
+
+  // Every version of every library template can be compared with the bundled prompt
+  useEffect(() => {
+    if (!window.api?.promptTemplates) return
+
+    let active = true
+    const loadVersions = async () => {
+      const response = await window.api.promptTemplates.getAll()
+      if (!response.success) {
+        console.error('Failed to load prompt templates:', response.error)
+        return
+      }
+      const versions = await Promise.all(
+        response.data.map(async (template) => {
+          const versionsResponse = await window.api.promptTemplates.getVersions(template.id)
+          return versionsResponse.success
+            ? versionsResponse.data.map((version) => versionCandidate(template.name, version))
+            : []
+        })
+      )
+      if (active) setCandidates([bundledCandidate(), ...versions.flat()])
+    }
+    loadVersions()
+
+    return () => {
+      active = false
+    }
+  }, [])
+
+  const toggleCandidate = (id: string, checked: boolean) =>
+    setSelectedIds((prev) => (checked ? [...prev, id] : prev.filter((selected) => selected !== id)))
+
+  const saveRecording = (next: EvaluationRecording) => {
+    setRecording(next)
+    try {
+      localStorage.setItem(RECORDING_STORAGE_KEY, JSON.stringify(next))
+    } catch (error) {
+      console.error('Failed to keep the evaluation recording:', error)
+    }
+  }
+
+  const run = async (mode: EvaluationMode) => {
+    const chosen = candidates
+      .filter((candidate) => selectedIds.includes(candidate.id))
+      .map((candidate) => ({ ...candidate, systemPrompt: systemPrompt.trim() || undefined }))
+    if (chosen.length === 0) {
+      toast.error('Choose at least one prompt version')
+      return
+    }
+
+    setRunning(mode)
+    setProgress({ completed: 0, total: chosen.length * GOLDEN_LEADS.length })
+    try {
+      const result = await new PromptEvaluationService().run({
+        candidates: chosen,
+        mode,
+        recording: recording || undefined,
+        modelId,
+        lintConfig,
+        caseStudies,
+        fewShotExamples,
+        sender,
+        onProgress: (completed, total) => setProgress({ completed, total }),
+      })
+      setReport(result)
+      if (mode === 'live') saveRecording(result.recording)
+      if (result.cells.some((cell) => cell.stale)) {
+        toast.warning('Some recorded outputs were written for an earlier prompt; run live to refresh them')
+      }
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Evaluation failed')
+    } finally {
+      setRunning(null)
+    }
+  }
+
+  const downloadRecording = () => {
+    if (!recording) return
+    const blob = new Blob([JSON.stringify(recording, null, 2)], { type: 'application/json' })
+    const url = URL.createObjectURL(blob)
+    const link = document.createElement('a')
+    link.href = url
+    link.download = `prompt-evaluation-${recording.recordedAt.slice(0, 10)}.json`
+    link.click()
+    URL.revokeObjectURL(url)
+  }
+
+  const loadRecording = async (file?: File) => {
+    if (!file) return
+    try {
+      const loaded = JSON.parse(await file.text()) as EvaluationRecording
+      if (!loaded.outputs || typeof loaded.outputs !== 'object') {
+        throw new Error('Not an evaluation recording')
+      }
+      saveRecording(loaded)
+      toast.success('Recording loaded')
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Could not read the recording')
+    }
+  }
+
+  const cellFor = (candidateId: string, leadId: string) =>
+    report?.cells.find((cell) => cell.candidateId === candidateId && cell.leadId === leadId)
+
+  // Touchpoints of the first candidate; versions with another layout show what they share
+  const compareSequence = useMemo(() => report?.candidates[0]?.template.sequence || [], [report])
+
+  return (
+    <div className="space-y-6">
+      <div>
+        <h1 className="text-3xl font-bold">Prompt Evaluation</h1>
+        <p className="text-muted-foreground">
+          Run prompt versions against {GOLDEN_LEADS.length} representative leads and compare the scores
+        </p>
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Setup</CardTitle>
+          <CardDescription>
+            Outputs are scored out of 100 on structure, length guidelines and the content linter rules from Settings.
+            Replaying a recording scores earlier outputs again without calling Claude.
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <div className="space-y-2">
+            <Label>Prompt versions</Label>
+            <div className="grid grid-cols-2 gap-2">
+              {candidates.map((candidate) => (
+                <div key={candidate.id} className="flex items-center gap-2">
+                  <Checkbox
+                    id={`candidate-${candidate.id}`}
+                    checked={selectedIds.includes(candidate.id)}
+                    onCheckedChange={(checked) => toggleCandidate(candidate.id, checked === true)}
+                  />
+                  <Label htmlFor={`candidate-${candidate.id}`} className="font-normal">
+                    {candidate.label}
+                  </Label>
+                </div>
+              ))}
+            </div>
+          </div>
+
+          <div className="space-y-1">
+            <Label htmlFor="evaluation-system-prompt">System prompt</Label>
+            <Textarea
+              id="evaluation-system-prompt"
+              value={systemPrompt}
+              onChange={(e) => setSystemPrompt(e.target.value)}
+              placeholder="Optional; sent with every version"
+              className="min-h-[80px] text-sm"
+            />
+          </div>
+
+          <div className="flex flex-wrap items-center gap-2">
+            <select
+              className="h-9 px-2 border border-input rounded-md bg-transparent text-sm"
+              value={modelId}
+              onChange={(e) => setModelId(e.target.value)}
+              aria-label="Model"
+              disabled={running !== null}
+            >
+              {Object.values(MODEL_PRICING).map((model) => (
+                <option key={model.model} value={model.model}>
+                  {model.displayName}
+                </option>
+              ))}
+            </select>
+            <Button onClick={() => run('live')} disabled={running !== null}>
+              {running === 'live' ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <Play className="mr-2 h-4 w-4" />}
+              Run with Claude
+            </Button>
+            <Button variant="outline" onClick={() => run('replay')} disabled={running !== null || !recording}>
+              {running === 'replay' ? (
+                <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+              ) : (
+                <RotateCcw className="mr-2 h-4 w-4" />
+              )}
+              Replay recording
+            </Button>
+            <Button variant="ghost" size="sm" onClick={downloadRecording} disabled={!recording}>
+              <Download className="mr-2 h-4 w-4" />
+              Download
+            </Button>
+            <Button variant="ghost" size="sm" onClick={() => fileInput.current?.click()}>
+              <Upload className="mr-2 h-4 w-4" />
+              Load
+            </Button>
+            <input
+              ref={fileInput}
+              type="file"
+              accept="application/json"
+              className="hidden"
+              onChange={(e) => {
+                loadRecording(e.target.files?.[0])
+                e.target.value = ''
+              }}
+            />
+            {running ? (
+              <span className="text-sm text-muted-foreground">
+                {progress.completed} of {progress.total} outputs
+              </span>
+            ) : (
+              recording && (
+                <span className="text-sm text-muted-foreground">
+                  Recording from {new Date(recording.recordedAt).toLocaleString()}
+                </span>
+              )
+            )}
+          </div>
+        </CardContent>
+      </Card>
+
+      {report && (
+        <>
+          <Card>
+            <CardHeader>
+              <CardTitle>Results</CardTitle>
+              <CardDescription>
+                {report.mode === 'replay' ? 'Replayed from a recording' : 'Generated live'}; failed generations score 0
+              </CardDescription>
+            </CardHeader>
+            <CardContent>
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Lead</TableHead>
+                    {report.summaries.map((summary) => (
+                      <TableHead key={summary.candidateId}>{summary.label}</TableHead>
+                    ))}
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  <TableRow className="font-medium">
+                    <TableCell>Overall</TableCell>
+                    {report.summaries.map((summary) => (
+                      <TableCell key={summary.candidateId} className="align-top">
+                        <div className={cn('text-2xl font-bold', scoreClass(summary.averageScore))}>
+                          {summary.averageScore}
+                        </div>
+                        <div className="text-xs font-normal text-muted-foreground">
+                          {summary.passed} of {summary.total} passed
+                          {summary.failed > 0 && `, ${summary.failed} failed`}
+                          <br />
+                          {summary.lintErrors} lint errors, {summary.lintWarnings} warnings, {summary.lengthIssues} length
+                        </div>
+                      </TableCell>
+                    ))}
+                  </TableRow>
+                  {report.leads.map((lead) => (
+                    <TableRow
+                      key={lead.id}
+                      className={cn('cursor-pointer', lead.id === compareLeadId && 'bg-muted/50')}
+                      onClick={() => setCompareLeadId(lead.id)}
+                    >
+                      <TableCell className="align-top text-sm">{lead.label}</TableCell>
+                      {report.candidates.map((candidate) => (
+                        <TableCell key={candidate.id} className="align-top">
+                          <ResultCell cell={cellFor(candidate.id, lead.id)} />
+                        </TableCell>
+                      ))}
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </CardContent>
+          </Card>
+
+          <Card>
+            <CardHeader>
+              <CardTitle>Outputs</CardTitle>
+              <CardDescription>
+                {report.leads.find((lead) => lead.id === compareLeadId)?.label}; choose a lead in the results to compare its outputs
+              </CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              {compareSequence.map((touchpoint) => (
+                <div key={touchpoint.slot} className="space-y-1">
+                  <h4 className="text-sm font-medium">{touchpoint.label}</h4>
+                  <div
+                    className="grid gap-2"
+                    style={{ gridTemplateColumns: `repeat(${report.candidates.length}, minmax(0, 1fr))` }}
+                  >
+                    {report.candidates.map((candidate) => (
+                      <pre
+                        key={candidate.id}
+                        className="whitespace-pre-wrap break-words rounded border bg-muted/40 p-2 font-sans text-xs"
+                      >
+                        {cellFor(candidate.id, compareLeadId)?.content?.[snippetField(touchpoint.slot)] || '—'}
+                      </pre>
+                    ))}
+                  </div>
+                </div>
+              ))}
+            </CardContent>
+          </Card>
+        </>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,194 @@
+import { Fragment, useState, useEffect, useCallback } from 'react'
+import { Card, CardContent, CardHeader, CardTitle, CardDescription } from '@/components/ui/card'
+import { Button } from '@/components/ui/button'
+import { Badge } from '@/components/ui/badge'
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table'
+import { toast } from 'sonner'
+import { Archive, Ban, ChevronDown, ChevronRight, Loader2, Pin, PinOff, RotateCcw } from 'lucide-react'
+import { templateService } from '@/services/templateService'
+import { htmlToText } from '@/utils/htmlConverter'
+import type { FewShotExampleRecord, FewShotExampleStatus } from '@/types/api'
+
+const STATUS_LABELS: Record<FewShotExampleStatus, string> = {
+  auto: 'Automatic',
+  pinned: 'Pinned',
+  excluded: 'Excluded',
+  retired: 'Retired',
+}
+
+const STATUS_VARIANTS: Record<FewShotExampleStatus, 'default' | 'secondary' | 'outline'> = {
+  auto: 'secondary',
+  pinned: 'default',
+  excluded: 'outline',
+  retired: 'outline',
+}
+
+function leadName(example: FewShotExampleRecord): string {
+  const name = [example.first_name, example.last_name].filter(Boolean).join(' ')
+  return name || example.email || `Lead ${example.lead_id}`
+}
+
+export function FewShotExamples() {
+  const [examples, setExamples] = useState<FewShotExampleRecord[]>([])
+  const [expandedId, setExpandedId] = useState<number | null>(null)
+  const [loading, setLoading] = useState(true)
+
+  const loadExamples = useCallback(async () => {
+    const response = await window.api.fewShotExamples.getAll({ includeInactive: true })
+    setLoading(false)
+    if (!response.success) {
+      toast.error(response.error?.message || 'Failed to load examples')
+      return
+    }
+
+    setExamples(response.data)
+    // Prompts generated from now on use the curated examples
+    templateService.setFewShotExamples(response.data)
+  }, [])
+
+  useEffect(() => {
+    if (!window.api) return
+    loadExamples()
+  }, [loadExamples])
+
+  const setStatus = async (example: FewShotExampleRecord, status: FewShotExampleStatus) => {
+    const response = await window.api.fewShotExamples.setStatus(example.lead_id, status)
+    if (response.success) {
+      await loadExamples()
+    } else {
+      toast.error(response.error?.message || 'Failed to update example')
+    }
+  }
+
+  return (
+    <div className="space-y-6">
+      <div>
+        <h1 className="text-3xl font-bold">Examples</h1>
+        <p className="text-muted-foreground">
+          Sequences approved without edits are shown to Claude as examples, up to three per lead from the same industry or title
+        </p>
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Approved sequences</CardTitle>
+          <CardDescription>
+            Pinned examples are used ahead of the others for matching leads. Exclude copy that should never be
+            imitated; retire examples that no longer reflect the offer. A sequence edited after approval drops out.
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          {loading ? (
+            <div className="flex items-center justify-center h-32">
+              <Loader2 className="h-6 w-6 animate-spin" />
+            </div>
+          ) : examples.length === 0 ? (
+            <p className="text-sm text-muted-foreground">
+              No examples yet. Approve a generated sequence without editing it and it will show up here.
+            </p>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead />
+                  <TableHead>Lead</TableHead>
+                  <TableHead>Title</TableHead>
+                  <TableHead>Industry</TableHead>
+                  <TableHead>Approved</TableHead>
+                  <TableHead>Status</TableHead>
+                  <TableHead />
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {examples.map((example) => {
+                  const expanded = expandedId === example.lead_id
+                  const active = example.status === 'auto' || example.status === 'pinned'
+
+                  return (
+                    <Fragment key={example.lead_id}>
+                      <TableRow className={active ? undefined : 'text-muted-foreground'}>
+                        <TableCell>
+                          <Button
+                            variant="ghost"
+                            size="sm"
+                            onClick={() => setExpandedId(expanded ? null : example.lead_id)}
+                            aria-label={expanded ? 'Hide sequence' : 'Show sequence'}
+                          >
+                            {expanded ? <ChevronDown className="h-4 w-4" /> : <ChevronRight className="h-4 w-4" />}
+                          </Button>
+                        </TableCell>
+                        <TableCell>
+                          <div className="font-medium">{leadName(example)}</div>
+                          {example.company && <div className="text-xs text-muted-foreground">{example.company}</div>}
+                        </TableCell>
+                        <TableCell>{example.title || '—'}</TableCell>
+                        <TableCell>{example.industry || '—'}</TableCell>
+                        <TableCell className="whitespace-nowrap">
+                          {example.approved_at ? new Date(example.approved_at).toLocaleDateString() : '—'}
+                        </TableCell>
+                        <TableCell>
+                          <Badge variant={STATUS_VARIANTS[example.status]}>{STATUS_LABELS[example.status]}</Badge>
+                        </TableCell>
+                        <TableCell className="text-right whitespace-nowrap">
+                          {active ? (
+                            <>
+                              <Button
+                                variant="ghost"
+                                size="sm"
+                                onClick={() => setStatus(example, example.status === 'pinned' ? 'auto' : 'pinned')}
+                              >
+                                {example.status === 'pinned' ? (
+                                  <PinOff className="mr-1 h-4 w-4" />
+                                ) : (
+                                  <Pin className="mr-1 h-4 w-4" />
+                                )}
+                                {example.status === 'pinned' ? 'Unpin' : 'Pin'}
+                              </Button>
+                              <Button variant="ghost" size="sm" onClick={() => setStatus(example, 'excluded')}>
+                                <Ban className="mr-1 h-4 w-4" />
+                                Exclude
+                              </Button>
+                              <Button variant="ghost" size="sm" onClick={() => setStatus(example, 'retired')}>
+                                <Archive className="mr-1 h-4 w-4" />
+                                Retire
+                              </Button>
+                            </>
+                          ) : (
+                            <Button variant="ghost" size="sm" onClick={() => setStatus(example, 'auto')}>
+                              <RotateCcw className="mr-1 h-4 w-4" />
+                              Restore
+                            </Button>
+                          )}
+                        </TableCell>
+                      </TableRow>
+                      {expanded && (
+                        <TableRow>
+                          <TableCell />
+                          <TableCell colSpan={6} className="space-y-3 whitespace-normal">
+                            {Object.entries(example.snippets).map(([field, content]) => (
+                              <div key={field}>
+                                <div className="text-xs font-medium text-muted-foreground">{field}</div>
+                                <p className="whitespace-pre-wrap text-sm">{htmlToText(content)}</p>
+                              </div>
+                            ))}
+                          </TableCell>
+                        </TableRow>
+                      )}
+                    </Fragment>
+                  )
+                })}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  )
+}
@@ -3,6 +3,8 @@ import { useNavigate } from 'react-router-dom'
 import { CsvUpload } from '@/components/csv-upload/CsvUpload'
 import { CsvPreview } from '@/components/csv-upload/CsvPreview'
 import { Button } from '@/components/ui/button'
+import { Label } from '@/components/ui/label'
+import SenderSelect from '@/components/senders/SenderSelect'
 import { Sparkles } from 'lucide-react'
 
 interface CsvData {
@@ -22,6 +24,8 @@ export function Import() {
   const [columnMapping, setColumnMapping] = useState<ColumnMapping>({})
   const [showPreview, setShowPreview] = useState(false)
   const [filename, setFilename] = useState<string>('')
+  // Sender the imported leads are written from; null uses the default sender
+  const [senderId, setSenderId] = useState<number | null>(null)
 
   const handleDataLoaded = (data: CsvData, mapping: ColumnMapping, filename: string) => {
     setCsvData(data)
@@ -37,6 +41,7 @@ export function Import() {
         csvData: data,
         columnMapping: mapping,
         filename: filename,
+        senderId,
       },
     })
   }
@@ -283,12 +288,22 @@ export function Import() {
           <div className="flex justify-center"></div>
         </div>
       ) : csvData ? (
-        <CsvPreview
-          csvData={csvData}
-          columnMapping={columnMapping}
-          onConfirm={handleConfirm}
-          onCancel={handleCancel}
-        />
+        <div className="space-y-4">
+          <div className="flex items-center gap-2">
+            <Label htmlFor="import-sender">Send as</Label>
+            <SenderSelect
+              id="import-sender"
+              value={senderId}
+              onChange={setSenderId}
+            />
+          </div>
+          <CsvPreview
+            csvData={csvData}
+            columnMapping={columnMapping}
+            onConfirm={handleConfirm}
+            onCancel={handleCancel}
+          />
+        </div>
       ) : null}
     </div>
   )
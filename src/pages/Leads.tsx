@@ -2,10 +2,15 @@ import { useState, useEffect, useCallback, useMemo } from 'react'
 import { useLocation } from 'react-router-dom'
 import { LeadList } from '@/components/lead-list/LeadList'
 import { LeadDetail } from '@/components/lead-list/LeadDetail'
+import { GenerationPreflightDialog } from '@/components/lead-list/GenerationPreflightDialog'
 import { Button } from '@/components/ui/button'
-import { Trash2, Loader2 } from 'lucide-react'
+import { Trash2, Loader2, RefreshCw, Layers } from 'lucide-react'
 import { leadsStorage } from '@/utils/leadsStorage'
+import { contentGenerationService } from '@/services/contentGenerationService'
+import type { GenerationPreflight } from '@/services/contentGenerationService'
 import type { LeadData, CsvData, ColumnMapping } from '@/types/lead'
+import type { LeadData as TemplateLeadData } from '@/services/templateService'
+import type { GenerationBatchProgress } from '@/types/api'
 import { toast } from 'sonner'
 import { useLeadOperations } from '@/hooks/useErrorHandler'
 
@@ -13,11 +18,49 @@ interface LocationState {
   csvData: CsvData
   columnMapping: ColumnMapping
   filename?: string
+  senderId?: number | null
 }
 
 // Module-level flag to prevent double execution in React StrictMode
 let isImportProcessing = false
 
+// Lead fields the email-sequence template reads
+function toTemplateLeadData(lead: LeadData): TemplateLeadData {
+  return {
+    first_name: String(lead.first_name || ''),
+    last_name: String(lead.last_name || ''),
+    company: String(lead.company || ''),
+    title: String(lead.title || ''),
+    email: String(lead.email || ''),
+    industry: String(lead.industry || 'Technology'),
+    linkedin_url: String(lead.linkedin_url || ''),
+    city: lead.city ? String(lead.city) : undefined,
+    state: lead.state ? String(lead.state) : undefined,
+    country: lead.country ? String(lead.country) : undefined,
+    tags: lead.tags ? String(lead.tags) : undefined,
+  }
+}
+
+// Failure message per lead id; batches are applied oldest first so the latest attempt wins
+function collectGenerationErrors(batches: GenerationBatchProgress[]): Record<string, string> {
+  const errors: Record<string, string> = {}
+  for (const batch of [...batches].sort((a, b) => a.batchId - b.batchId)) {
+    for (const leadId of batch.leadIds) {
+      delete errors[String(leadId)]
+    }
+    for (const failure of batch.failures) {
+      if (failure.leadId !== null) {
+        errors[String(failure.leadId)] = failure.error
+      }
+    }
+  }
+  return errors
+}
+
+function isBatchActive(batch: GenerationBatchProgress): boolean {
+  return batch.status === 'pending' || batch.status === 'running'
+}
+
 export function Leads() {
   const location = useLocation()
   const [leads, setLeads] = useState<LeadData[]>([])
@@ -26,6 +69,12 @@ export function Leads() {
   const [detailLead, setDetailLead] = useState<LeadData | null>(null)
   const [loading, setLoading] = useState(true)
   const [error, setError] = useState<string | null>(null)
+  const [syncingEngagement, setSyncingEngagement] = useState(false)
+  const [startingBatch, setStartingBatch] = useState(false)
+  const [batches, setBatches] = useState<GenerationBatchProgress[]>([])
+  const [preflightOpen, setPreflightOpen] = useState(false)
+  const [preflight, setPreflight] = useState<GenerationPreflight | null>(null)
+  const [preflightError, setPreflightError] = useState<string | null>(null)
 
   // Use error handling hook for better error management
   const {
@@ -69,7 +118,8 @@ export function Leads() {
           const importRecord = await window.api.imports.create({
             filename: state.filename || 'manual_import.csv',
             status: 'processing',
-            lead_count: csvData.data.length
+            lead_count: csvData.data.length,
+            sender_id: state.senderId ?? null
           })
 
           console.log('Import record response:', importRecord)
@@ -228,6 +278,138 @@ export function Leads() {
     }
   }, [executeApiOperation, detailLead?.id])
 
+  const hasExportedLeads = useMemo(
+    () => leads.some(lead => !!lead.woodpecker_campaign_id),
+    [leads]
+  )
+
+  const handleSyncEngagement = useCallback(async () => {
+    setSyncingEngagement(true)
+    try {
+      const response = await window.api.woodpecker.syncEngagement()
+      if (!response.success) {
+        toast.error(`Engagement sync failed: ${response.error.message}`)
+        return
+      }
+
+      const { leadsUpdated, failedCampaigns } = response.data
+      const storage = await leadsStorage.getLeads()
+      if (storage) {
+        setLeads(storage.leads)
+        if (detailLead) {
+          setDetailLead(storage.leads.find(lead => lead.id === detailLead.id) || null)
+        }
+      }
+
+      if (failedCampaigns > 0) {
+        toast.warning(`Synced engagement with ${failedCampaigns} campaign(s) failing; ${leadsUpdated} lead(s) changed`)
+      } else {
+        toast.success(`Engagement synced: ${leadsUpdated} lead(s) changed`)
+      }
+    } catch (err) {
+      console.error('Error syncing engagement:', err)
+      toast.error('Failed to sync engagement from Woodpecker')
+    } finally {
+      setSyncingEngagement(false)
+    }
+  }, [detailLead])
+
+  const reloadLeads = useCallback(async () => {
+    const storage = await leadsStorage.getLeads()
+    if (storage) {
+      setLeads(storage.leads)
+    }
+  }, [])
+
+  // Batches keep running in the main process; pick up their state and follow progress
+  useEffect(() => {
+    // Batch generation needs the main process; nothing to follow in the browser fallback
+    if (!window.api) return
+
+    window.api.claude.getRecentBatches(10).then(response => {
+      if (response.success) {
+        setBatches(response.data)
+      }
+    }).catch(err => {
+      console.warn('Failed to load generation batches:', err)
+    })
+
+    const subscriptionId = window.api.progress.subscribe(progress => {
+      if (progress.operation !== 'claude:batch' || !progress.data) return
+
+      const batch = progress.data as GenerationBatchProgress
+      setBatches(prev => [batch, ...prev.filter(existing => existing.batchId !== batch.batchId)])
+
+      if (!isBatchActive(batch)) {
+        reloadLeads()
+        if (batch.status === 'completed') {
+          toast.success(`Batch generation finished: ${batch.succeeded} generated, ${batch.failed} failed`)
+        } else if (batch.status === 'failed') {
+          toast.error(`Batch generation failed: ${batch.lastError || 'Unknown error'}`)
+        }
+      }
+    })
+    return () => window.api.progress.unsubscribe(subscriptionId)
+  }, [reloadLeads])
+
+  const generationErrors = useMemo(() => collectGenerationErrors(batches), [batches])
+  const activeBatch = useMemo(() => batches.find(isBatchActive), [batches])
+
+  const selectedBatchLeads = useMemo(
+    () => leads
+      .filter(lead => selectedLeads.includes(lead.id))
+      .map(lead => ({ leadId: parseInt(lead.id), leadData: toTemplateLeadData(lead) })),
+    [leads, selectedLeads]
+  )
+
+  // Show the projected cost and budget coverage before anything is submitted
+  const handleOpenPreflight = useCallback(async () => {
+    setPreflight(null)
+    setPreflightError(null)
+    setPreflightOpen(true)
+    try {
+      // Priced with the model and files the batch will be submitted with
+      const { modelId, attachments } = contentGenerationService.getGenerationSettings()
+      setPreflight(
+        await contentGenerationService.preflightGeneration(selectedBatchLeads, { batch: true, modelId, attachments })
+      )
+    } catch (err) {
+      console.error('Error estimating batch generation cost:', err)
+      setPreflightError(err instanceof Error ? err.message : 'Failed to estimate cost')
+    }
+  }, [selectedBatchLeads])
+
+  const handleGenerateBatch = useCallback(async () => {
+    setStartingBatch(true)
+    try {
+      const { batch, skipped, error: batchError } = await contentGenerationService.startBatchGeneration(selectedBatchLeads)
+
+      if (skipped.length > 0) {
+        toast.warning(`Skipped ${skipped.length} lead(s) missing template fields`)
+      }
+      if (!batch) {
+        toast.error(`Failed to start batch generation: ${batchError || 'Unknown error'}`)
+        return
+      }
+
+      setPreflightOpen(false)
+      setBatches(prev => [batch, ...prev.filter(existing => existing.batchId !== batch.batchId)])
+      await reloadLeads()
+      toast.success(`Submitted ${batch.total} lead(s) for batch generation`)
+    } catch (err) {
+      console.error('Error starting batch generation:', err)
+      toast.error('Failed to start batch generation')
+    } finally {
+      setStartingBatch(false)
+    }
+  }, [selectedBatchLeads, reloadLeads])
+
+  const handleCancelBatch = useCallback(async (batchId: number) => {
+    const response = await window.api.cancel(`claude:batch:${batchId}`)
+    if (!response.success || !response.data.cancelled) {
+      toast.error('Could not cancel the batch')
+    }
+  }, [])
 
   if (loading) {
     return (
@@ -291,6 +473,31 @@ export function Leads() {
         </div>
         
         <div className="flex gap-2">
+          {hasExportedLeads && (
+            <Button
+              variant="outline"
+              onClick={handleSyncEngagement}
+              disabled={syncingEngagement}
+            >
+              <RefreshCw className={`h-4 w-4 mr-2 ${syncingEngagement ? 'animate-spin' : ''}`} />
+              {syncingEngagement ? 'Syncing...' : 'Sync Engagement'}
+            </Button>
+          )}
+          {selectedLeads.length > 0 && (
+            <Button
+              variant="outline"
+              onClick={handleOpenPreflight}
+              disabled={startingBatch}
+              title="Generate all selected leads as one Claude Message Batch"
+            >
+              {startingBatch ? (
+                <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+              ) : (
+                <Layers className="h-4 w-4 mr-2" />
+              )}
+              {`Generate in Batch (${selectedLeads.length})`}
+            </Button>
+          )}
           {selectedLeads.length > 0 && (
             <Button
               variant="destructive"
@@ -308,6 +515,21 @@ export function Leads() {
         </div>
       </div>
 
+      {activeBatch && (
+        <div className="flex items-center justify-between rounded-md border px-4 py-3 text-sm">
+          <div className="flex items-center gap-2">
+            <Loader2 className="h-4 w-4 animate-spin" />
+            <span>
+              Batch generation in progress: {activeBatch.current} of {activeBatch.total} lead(s) processed.
+              Results are saved even if the app is closed.
+            </span>
+          </div>
+          <Button variant="ghost" size="sm" onClick={() => handleCancelBatch(activeBatch.batchId)}>
+            Cancel
+          </Button>
+        </div>
+      )}
+
       <LeadList
         leads={leads}
         columnMapping={columnMapping}
@@ -315,6 +537,16 @@ export function Leads() {
         onLeadDetail={handleLeadDetail}
         onStatusUpdate={handleStatusUpdate}
         onDeleteLead={handleDeleteLead}
+        generationErrors={generationErrors}
+      />
+
+      <GenerationPreflightDialog
+        open={preflightOpen}
+        onOpenChange={setPreflightOpen}
+        preflight={preflight}
+        error={preflightError}
+        confirming={startingBatch}
+        onConfirm={handleGenerateBatch}
       />
 
       {detailLead && (
@@ -0,0 +1,356 @@
+import { useState, useEffect, useCallback } from 'react'
+import { Card, CardContent, CardHeader, CardTitle, CardDescription } from '@/components/ui/card'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { Textarea } from '@/components/ui/textarea'
+import { Badge } from '@/components/ui/badge'
+import { toast } from 'sonner'
+import { Loader2, Plus, RotateCcw, Save, Trash2 } from 'lucide-react'
+import { templateService, SENDER_VARIABLES } from '@/services/templateService'
+import { SequenceEditor } from '@/components/templates/SequenceEditor'
+import {
+  type SequenceTouchpoint,
+  DEFAULT_SEQUENCE,
+  validateSequenceDefinition,
+} from '@/utils/sequenceDefinition'
+import type { PromptTemplateVersionRecord, PromptTemplateWithVersion } from '@/types/api'
+
+interface TemplateDraft {
+  name: string
+  description: string
+  template: string
+  variables: string
+  notes: string
+  sequence: SequenceTouchpoint[]
+}
+
+const EMPTY_DRAFT: TemplateDraft = {
+  name: '',
+  description: '',
+  template: '',
+  variables: '',
+  notes: '',
+  sequence: DEFAULT_SEQUENCE,
+}
+
+function toDraft(template: PromptTemplateWithVersion): TemplateDraft {
+  return {
+    name: template.name,
+    description: template.description || '',
+    template: template.current.template,
+    variables: template.current.variables.join(', '),
+    notes: '',
+    sequence: template.current.sequence || DEFAULT_SEQUENCE,
+  }
+}
+
+// An unedited default layout is saved as null so it follows future defaults
+function toSavedSequence(sequence: SequenceTouchpoint[]): SequenceTouchpoint[] | null {
+  return JSON.stringify(sequence) === JSON.stringify(DEFAULT_SEQUENCE) ? null : sequence
+}
+
+function parseVariables(variables: string): string[] {
+  return variables.split(',').map(variable => variable.trim()).filter(Boolean)
+}
+
+// Placeholders used in the prompt that are not listed as required variables
+function unlistedPlaceholders(draft: TemplateDraft): string[] {
+  const listed = new Set(parseVariables(draft.variables))
+  const used = Array.from(draft.template.matchAll(/\{\{([^}]+)\}\}/g), match => match[1].trim())
+  return Array.from(new Set(used)).filter(name => !listed.has(name))
+}
+
+export function PromptTemplates() {
+  const [templates, setTemplates] = useState<PromptTemplateWithVersion[]>([])
+  const [selectedId, setSelectedId] = useState<number | null>(null)
+  const [draft, setDraft] = useState<TemplateDraft>(EMPTY_DRAFT)
+  const [versions, setVersions] = useState<PromptTemplateVersionRecord[]>([])
+  const [loading, setLoading] = useState(true)
+  const [saving, setSaving] = useState(false)
+
+  const selected = templates.find(template => template.id === selectedId) || null
+  const unlisted = unlistedPlaceholders(draft)
+  const sequenceErrors = validateSequenceDefinition(draft.sequence)
+
+  const loadTemplates = useCallback(async (selectId?: number) => {
+    const response = await window.api.promptTemplates.getAll()
+    setLoading(false)
+    if (!response.success) {
+      toast.error(response.error?.message || 'Failed to load prompt templates')
+      return
+    }
+
+    setTemplates(response.data)
+    response.data.forEach(template => templateService.registerTemplate(template))
+
+    const next = response.data.find(template => template.id === selectId) || response.data[0]
+    setSelectedId(next?.id ?? null)
+    setDraft(next ? toDraft(next) : EMPTY_DRAFT)
+  }, [])
+
+  useEffect(() => {
+    if (!window.api) return
+    loadTemplates()
+  }, [loadTemplates])
+
+  useEffect(() => {
+    if (!window.api || !selected) {
+      setVersions([])
+      return
+    }
+
+    let active = true
+    window.api.promptTemplates.getVersions(selected.id).then(response => {
+      if (active && response.success) setVersions(response.data)
+    })
+    return () => {
+      active = false
+    }
+  }, [selected])
+
+  const selectTemplate = (template: PromptTemplateWithVersion) => {
+    setSelectedId(template.id)
+    setDraft(toDraft(template))
+  }
+
+  const startNewTemplate = () => {
+    setSelectedId(null)
+    setDraft(EMPTY_DRAFT)
+  }
+
+  const save = async () => {
+    if (!draft.template.trim()) {
+      toast.error('The prompt cannot be empty')
+      return
+    }
+    if (sequenceErrors.length > 0) {
+      toast.error('Fix the sequence before saving')
+      return
+    }
+
+    setSaving(true)
+    const input = {
+      description: draft.description.trim() || null,
+      template: draft.template,
+      variables: parseVariables(draft.variables),
+      notes: draft.notes.trim() || null,
+      sequence: toSavedSequence(draft.sequence),
+    }
+
+    if (selected) {
+      const response = await window.api.promptTemplates.createVersion(selected.id, input)
+      if (response.success) {
+        toast.success(
+          response.data.version > selected.current.version
+            ? `Saved as version ${response.data.version}`
+            : 'Description saved; the prompt is unchanged'
+        )
+        await loadTemplates(selected.id)
+      } else {
+        toast.error(response.error?.message || 'Failed to save template')
+      }
+    } else {
+      const response = await window.api.promptTemplates.create({ ...input, name: draft.name })
+      if (response.success) {
+        toast.success(`Created ${response.data.name}`)
+        await loadTemplates(response.data.id)
+      } else {
+        toast.error(response.error?.message || 'Failed to create template')
+      }
+    }
+    setSaving(false)
+  }
+
+  const restore = async (version: PromptTemplateVersionRecord) => {
+    if (!selected) return
+
+    const response = await window.api.promptTemplates.rollback(selected.id, version.version)
+    if (response.success) {
+      toast.success(`Version ${version.version} restored as version ${response.data.version}`)
+      await loadTemplates(selected.id)
+    } else {
+      toast.error(response.error?.message || 'Failed to restore version')
+    }
+  }
+
+  const remove = async () => {
+    if (!selected || !window.confirm(`Delete ${selected.name} and all its versions?`)) return
+
+    const response = await window.api.promptTemplates.delete(selected.id)
+    if (response.success) {
+      templateService.unregisterTemplate(selected.name)
+      toast.success(`Deleted ${selected.name}`)
+      await loadTemplates()
+    } else {
+      toast.error(response.error?.message || 'Failed to delete template')
+    }
+  }
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center justify-between">
+        <div>
+          <h1 className="text-3xl font-bold">Prompt Templates</h1>
+          <p className="text-muted-foreground">
+            Every save adds a version; generated content records the version it came from
+          </p>
+        </div>
+        <Button variant="outline" onClick={startNewTemplate}>
+          <Plus className="mr-2 h-4 w-4" />
+          New Template
+        </Button>
+      </div>
+
+      {loading ? (
+        <div className="flex items-center justify-center h-32">
+          <Loader2 className="h-6 w-6 animate-spin" />
+        </div>
+      ) : (
+        <div className="grid grid-cols-[16rem_1fr] gap-6">
+          <Card>
+            <CardHeader>
+              <CardTitle>Templates</CardTitle>
+            </CardHeader>
+            <CardContent className="space-y-1">
+              {templates.map(template => (
+                <button
+                  key={template.id}
+                  type="button"
+                  onClick={() => selectTemplate(template)}
+                  className={`w-full flex items-center justify-between rounded-md px-3 py-2 text-left text-sm ${
+                    template.id === selectedId ? 'bg-primary text-primary-foreground' : 'hover:bg-muted'
+                  }`}
+                >
+                  <span className="truncate">{template.name}</span>
+                  <Badge variant="secondary">v{template.current.version}</Badge>
+                </button>
+              ))}
+              {templates.length === 0 && (
+                <p className="text-sm text-muted-foreground">No templates yet.</p>
+              )}
+            </CardContent>
+          </Card>
+
+          <div className="space-y-6">
+            <Card>
+              <CardHeader>
+                <CardTitle>{selected ? `${selected.name} (version ${selected.current.version})` : 'New template'}</CardTitle>
+                <CardDescription>
+                  Use {'{{field}}'} placeholders for lead fields and {SENDER_VARIABLES.map(name => `{{${name}}}`).join(', ')} for
+                  the sender; required variables must be filled for a lead to be generated
+                </CardDescription>
+              </CardHeader>
+              <CardContent className="space-y-4">
+                {!selected && (
+                  <div className="space-y-2">
+                    <Label htmlFor="template-name">Name</Label>
+                    <Input
+                      id="template-name"
+                      value={draft.name}
+                      onChange={(e) => setDraft({ ...draft, name: e.target.value })}
+                      placeholder="e.g. email-sequence-short"
+                    />
+                  </div>
+                )}
+                <div className="space-y-2">
+                  <Label htmlFor="template-description">Description</Label>
+                  <Input
+                    id="template-description"
+                    value={draft.description}
+                    onChange={(e) => setDraft({ ...draft, description: e.target.value })}
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="template-prompt">Prompt</Label>
+                  <Textarea
+                    id="template-prompt"
+                    className="min-h-[320px] font-mono text-xs"
+                    value={draft.template}
+                    onChange={(e) => setDraft({ ...draft, template: e.target.value })}
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="template-variables">Required variables (comma separated)</Label>
+                  <Input
+                    id="template-variables"
+                    value={draft.variables}
+                    onChange={(e) => setDraft({ ...draft, variables: e.target.value })}
+                    placeholder="first_name, company"
+                  />
+                  {unlisted.length > 0 && (
+                    <p className="text-xs text-muted-foreground">
+                      Also used in the prompt: {unlisted.join(', ')}
+                    </p>
+                  )}
+                </div>
+                <div className="space-y-2">
+                  <Label>Sequence</Label>
+                  <p className="text-xs text-muted-foreground">
+                    Each touchpoint is written to its own Woodpecker snippet; a subject line goes with the email body after it
+                  </p>
+                  <SequenceEditor
+                    sequence={draft.sequence}
+                    onChange={(sequence) => setDraft({ ...draft, sequence })}
+                    errors={sequenceErrors}
+                  />
+                </div>
+                {selected && (
+                  <div className="space-y-2">
+                    <Label htmlFor="template-notes">What changed</Label>
+                    <Input
+                      id="template-notes"
+                      value={draft.notes}
+                      onChange={(e) => setDraft({ ...draft, notes: e.target.value })}
+                      placeholder="Optional note for the version history"
+                    />
+                  </div>
+                )}
+                <div className="flex justify-between">
+                  {selected ? (
+                    <Button variant="outline" onClick={remove} disabled={saving}>
+                      <Trash2 className="mr-2 h-4 w-4" />
+                      Delete
+                    </Button>
+                  ) : <span />}
+                  <Button onClick={save} disabled={saving || (!selected && !draft.name.trim())}>
+                    {saving ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <Save className="mr-2 h-4 w-4" />}
+                    {selected ? 'Save as New Version' : 'Create Template'}
+                  </Button>
+                </div>
+              </CardContent>
+            </Card>
+
+            {selected && (
+              <Card>
+                <CardHeader>
+                  <CardTitle>Version History</CardTitle>
+                  <CardDescription>Restoring a version saves it again as the latest one</CardDescription>
+                </CardHeader>
+                <CardContent className="space-y-2">
+                  {versions.map(version => (
+                    <div key={version.id} className="flex items-center justify-between rounded-md border p-3 text-sm">
+                      <div>
+                        <span className="font-medium">Version {version.version}</span>
+                        <span className="ml-2 text-muted-foreground">{version.created_at}</span>
+                        {version.notes && <p className="text-muted-foreground">{version.notes}</p>}
+                      </div>
+                      {version.version === selected.current.version ? (
+                        <Badge>Current</Badge>
+                      ) : (
+                        <Button variant="ghost" size="sm" onClick={() => restore(version)}>
+                          <RotateCcw className="mr-2 h-4 w-4" />
+                          Restore
+                        </Button>
+                      )}
+                    </div>
+                  ))}
+                </CardContent>
+              </Card>
+            )}
+          </div>
+        </div>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,200 @@
+import { useState, useEffect } from 'react'
+import { Card, CardContent, CardHeader, CardTitle, CardDescription } from '@/components/ui/card'
+import { Tabs, TabsList, TabsTrigger } from '@/components/ui/tabs'
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableFooter,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table'
+import { Loader2 } from 'lucide-react'
+import { MODEL_PRICING } from '@/utils/tokenCounter'
+import { cn } from '@/lib/utils'
+import type { EditMetricsGrouping, EditMetricsRow } from '@/types/api'
+
+// PRD goal: share of AI snippets approved without edits
+const UNCHANGED_TARGET = 0.85
+
+const GROUPING_LABELS: Record<EditMetricsGrouping, string> = {
+  template: 'Template version',
+  model: 'Model',
+  industry: 'Industry',
+  snippet: 'Snippet',
+}
+
+function rowLabel(row: EditMetricsRow, groupBy: EditMetricsGrouping): string {
+  if (groupBy === 'model') {
+    return MODEL_PRICING[row.key]?.displayName || row.label
+  }
+  return row.label
+}
+
+function formatRate(rate: number): string {
+  return `${Math.round(rate * 100)}%`
+}
+
+function formatChange(change: number | null): string {
+  if (change === null) return '—'
+  const points = Math.round(change * 100)
+  return `${points > 0 ? '+' : ''}${points} pts`
+}
+
+export function Quality() {
+  const [groupBy, setGroupBy] = useState<EditMetricsGrouping>('template')
+  const [rows, setRows] = useState<EditMetricsRow[]>([])
+  const [loading, setLoading] = useState(true)
+  const [error, setError] = useState<string | null>(null)
+
+  useEffect(() => {
+    if (!window.api) return
+
+    let active = true
+    setLoading(true)
+    window.api.editMetrics.getSummary(groupBy).then(response => {
+      if (!active) return
+      if (response.success) {
+        setRows(response.data || [])
+        setError(null)
+      } else {
+        setError(response.error?.message || 'Failed to load edit metrics')
+      }
+      setLoading(false)
+    })
+
+    return () => {
+      active = false
+    }
+  }, [groupBy])
+
+  const totals = rows.reduce(
+    (sum, row) => ({
+      approved: sum.approved + row.approved,
+      unchanged: sum.unchanged + row.unchanged,
+      edit_distance: sum.edit_distance + row.avg_edit_distance * row.approved,
+    }),
+    { approved: 0, unchanged: 0, edit_distance: 0 }
+  )
+  const overallRate = totals.approved > 0 ? totals.unchanged / totals.approved : null
+
+  return (
+    <div className="space-y-6">
+      <div>
+        <h1 className="text-3xl font-bold">Quality</h1>
+        <p className="text-muted-foreground">
+          How much of Claude's content reps change before approving it
+        </p>
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Approved without edits</CardTitle>
+          <CardDescription>
+            Approved snippets whose text matches what Claude wrote; the goal is {formatRate(UNCHANGED_TARGET)}
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          {overallRate === null ? (
+            <p className="text-sm text-muted-foreground">No approved snippets yet.</p>
+          ) : (
+            <div className="flex items-baseline gap-3">
+              <span
+                className={cn(
+                  'text-4xl font-bold',
+                  overallRate >= UNCHANGED_TARGET ? 'text-green-600' : 'text-amber-600'
+                )}
+              >
+                {formatRate(overallRate)}
+              </span>
+              <span className="text-sm text-muted-foreground">
+                {totals.unchanged} of {totals.approved} approved snippets
+              </span>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Edits by {GROUPING_LABELS[groupBy].toLowerCase()}</CardTitle>
+          <CardDescription>
+            Words edited counts words removed or added between Claude's text and the approved one
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <Tabs value={groupBy} onValueChange={value => setGroupBy(value as EditMetricsGrouping)}>
+            <TabsList>
+              {(Object.keys(GROUPING_LABELS) as EditMetricsGrouping[]).map(grouping => (
+                <TabsTrigger key={grouping} value={grouping}>
+                  Per {GROUPING_LABELS[grouping].toLowerCase()}
+                </TabsTrigger>
+              ))}
+            </TabsList>
+          </Tabs>
+
+          {loading ? (
+            <div className="flex items-center justify-center h-32">
+              <Loader2 className="h-6 w-6 animate-spin" />
+            </div>
+          ) : error ? (
+            <p className="text-sm text-destructive">{error}</p>
+          ) : rows.length === 0 ? (
+            <p className="text-sm text-muted-foreground">No approved snippets yet.</p>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>{GROUPING_LABELS[groupBy]}</TableHead>
+                  <TableHead className="text-right">Approved</TableHead>
+                  <TableHead className="text-right">Unchanged</TableHead>
+                  <TableHead className="text-right">Unchanged rate</TableHead>
+                  {groupBy === 'template' && (
+                    <TableHead className="text-right">Since previous version</TableHead>
+                  )}
+                  <TableHead className="text-right">Avg words edited</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {rows.map(row => (
+                  <TableRow key={row.key}>
+                    <TableCell className="font-medium">{rowLabel(row, groupBy)}</TableCell>
+                    <TableCell className="text-right">{row.approved}</TableCell>
+                    <TableCell className="text-right">{row.unchanged}</TableCell>
+                    <TableCell
+                      className={cn(
+                        'text-right',
+                        row.unchanged_rate >= UNCHANGED_TARGET ? 'text-green-600' : 'text-amber-600'
+                      )}
+                    >
+                      {formatRate(row.unchanged_rate)}
+                    </TableCell>
+                    {groupBy === 'template' && (
+                      <TableCell className="text-right">{formatChange(row.rate_change)}</TableCell>
+                    )}
+                    <TableCell className="text-right">{row.avg_edit_distance.toFixed(1)}</TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+              <TableFooter>
+                <TableRow>
+                  <TableCell>Total</TableCell>
+                  <TableCell className="text-right">{totals.approved}</TableCell>
+                  <TableCell className="text-right">{totals.unchanged}</TableCell>
+                  <TableCell className="text-right">
+                    {overallRate === null ? '—' : formatRate(overallRate)}
+                  </TableCell>
+                  {groupBy === 'template' && <TableCell />}
+                  <TableCell className="text-right">
+                    {(totals.approved > 0 ? totals.edit_distance / totals.approved : 0).toFixed(1)}
+                  </TableCell>
+                </TableRow>
+              </TableFooter>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  )
+}
@@ -28,6 +28,8 @@ Object.defineProperty(global, 'process', {
 describe('Preload Script', () => {
   beforeEach(() => {
     vi.clearAllMocks();
+    // Re-run the preload script on every import, so each test sees its exposeInMainWorld calls
+    vi.resetModules();
   });
 
   it('should expose API to main world', async () => {
@@ -216,5 +218,63 @@ describe('Preload Script', () => {
       await api.queries.exportData('csv', {});
       expect(mockIpcRenderer.invoke).toHaveBeenCalledWith('ipc:queries:exportData', 'csv', {});
     });
+
+    it('should call correct IPC channels for usage', async () => {
+      await api.usage.getSummary('model', { import_id: 1 });
+      expect(mockIpcRenderer.invoke).toHaveBeenCalledWith('ipc:usage:getSummary', 'model', { import_id: 1 });
+
+      await api.usage.getByLead(1);
+      expect(mockIpcRenderer.invoke).toHaveBeenCalledWith('ipc:usage:getByLead', 1);
+    });
+
+    it('should call correct IPC channels for edit metrics', async () => {
+      await api.editMetrics.getSummary('template');
+      expect(mockIpcRenderer.invoke).toHaveBeenCalledWith('ipc:editMetrics:getSummary', 'template');
+
+      await api.editMetrics.getSnippets();
+      expect(mockIpcRenderer.invoke).toHaveBeenCalledWith('ipc:editMetrics:getSnippets');
+    });
+
+    it('should call correct IPC channels for prompt templates', async () => {
+      await api.promptTemplates.createVersion(1, { template: 'Hi {{first_name}}', variables: ['first_name'] });
+      expect(mockIpcRenderer.invoke).toHaveBeenCalledWith(
+        'ipc:promptTemplates:createVersion', 1, { template: 'Hi {{first_name}}', variables: ['first_name'] }
+      );
+
+      await api.promptTemplates.rollback(1, 2);
+      expect(mockIpcRenderer.invoke).toHaveBeenCalledWith('ipc:promptTemplates:rollback', 1, 2);
+    });
+
+    it('should call correct IPC channels for case studies', async () => {
+      await api.caseStudies.getForIndustry('Retail');
+      expect(mockIpcRenderer.invoke).toHaveBeenCalledWith('ipc:caseStudies:getForIndustry', 'Retail');
+
+      await api.caseStudies.update(3, { active: false });
+      expect(mockIpcRenderer.invoke).toHaveBeenCalledWith('ipc:caseStudies:update', 3, { active: false });
+    });
+
+    it('should call correct IPC channels for sender profiles', async () => {
+      await api.senderProfiles.getForLead(7);
+      expect(mockIpcRenderer.invoke).toHaveBeenCalledWith('ipc:senderProfiles:getForLead', 7);
+
+      await api.senderProfiles.update(2, { is_default: true });
+      expect(mockIpcRenderer.invoke).toHaveBeenCalledWith('ipc:senderProfiles:update', 2, { is_default: true });
+    });
+
+    it('should call correct IPC channels for generation runs', async () => {
+      await api.generationRuns.getForLead(7, 5);
+      expect(mockIpcRenderer.invoke).toHaveBeenCalledWith('ipc:generationRuns:getForLead', 7, 5);
+
+      await api.generationRuns.getById(12);
+      expect(mockIpcRenderer.invoke).toHaveBeenCalledWith('ipc:generationRuns:getById', 12);
+    });
+
+    it('should call correct IPC channels for few-shot examples', async () => {
+      await api.fewShotExamples.getAll({ includeInactive: true });
+      expect(mockIpcRenderer.invoke).toHaveBeenCalledWith('ipc:fewShotExamples:getAll', { includeInactive: true });
+
+      await api.fewShotExamples.setStatus(4, 'retired');
+      expect(mockIpcRenderer.invoke).toHaveBeenCalledWith('ipc:fewShotExamples:setStatus', 4, 'retired');
+    });
   });
 });
@@ -8,20 +8,69 @@ import type {
   BulkLeadData,
   GeneratedContentRecord,
   ContentFilters,
+  SnippetVariantsInput,
+  KeptVariant,
+  TouchpointApproval,
+  ContentRevisionRecord,
+  RevisionInfo,
   MappingRecord,
   MappingFilters,
   AppMetadataRecord,
   MetadataFilters,
-  SearchFilters
+  SearchFilters,
+  CampaignSyncRecord,
+  ExportJobProgress,
+  GenerationBatchProgress,
+  GenerationUsageRecord,
+  UsageSummaryGrouping,
+  UsageSummaryRow,
+  EditMetricsGrouping,
+  EditMetricsRow,
+  SnippetEditMetric,
+  CaseStudyRecord,
+  CaseStudyInput,
+  SenderProfileRecord,
+  SenderProfileInput,
+  GenerationRunRecord,
+  FewShotExampleRecord,
+  FewShotExampleStatus,
+  FewShotExampleFilters,
+  UsageFilters,
+  PromptTemplateWithVersion,
+  PromptTemplateVersionRecord,
+  PromptTemplateInput
 } from '../database/dal';
-import type { ClaudeResponse } from '../main/services/claudeService';
-import type { ClaudeGenerateContentRequest, ClaudeFileUploadRequest } from '../main/ipc/claudeHandlers';
-import type { WoodpeckerCampaign, WoodpeckerProspect, WoodpeckerExportProgress } from '../main/services/woodpeckerService';
+import type { QuotaInfo } from '../main/services/rateLimiter';
+import type { TouchpointContent } from '../utils/sequenceDefinition';
+import type {
+  ClaudeGenerateContentRequest,
+  ClaudeGeneratedContent,
+  ClaudeGeneratedStream,
+  ClaudeRewriteSnippetRequest,
+  ClaudeRewrittenSnippet,
+  ClaudeSnippetVariantsRequest,
+  ClaudeSnippetVariants,
+  ClaudeGenerateBulkRequest,
+  ClaudeBulkGenerationResult,
+  ClaudeStartBatchRequest,
+  ClaudeFileUploadRequest
+} from '../main/ipc/claudeHandlers';
+import type { WoodpeckerCampaign, WoodpeckerProspect, ExportProgress, EngagementSyncSummary } from '../main/services/woodpeckerService';
 import type {
   WoodpeckerGetCampaignsRequest,
   WoodpeckerAddProspectsRequest,
-  WoodpeckerCheckDuplicatesRequest
+  WoodpeckerCheckDuplicatesRequest,
+  WoodpeckerCreateCampaignRequest,
+  WoodpeckerSyncEngagementRequest,
+  WoodpeckerStartExportJobRequest
 } from '../main/ipc/woodpeckerHandlers';
+import type { DatabaseTransferRequest } from '../main/ipc/settingsHandlers';
+import type { SpendBudgets } from '../main/services/settingsService';
+import type { SavedLintConfig } from '../utils/contentLinter';
+import type { BudgetStatus, BudgetCheck, BudgetCheckRequest } from '../main/services/budgetService';
+import type { OperationProgress } from '../main/ipc/progress';
+
+const PROGRESS_CHANNEL = 'ipc:progress';
 
 // Define the API interface that will be exposed to the renderer
 export interface ElectronAPI {
@@ -53,6 +102,14 @@ export interface ElectronAPI {
     getByTouchpoint: (touchpoint: number, options?: ContentFilters) => Promise<IpcResponse<GeneratedContentRecord[]>>;
     update: (id: number, data: Partial<GeneratedContentRecord>) => Promise<IpcResponse<boolean>>;
     delete: (id: number) => Promise<IpcResponse<boolean>>;
+    getVariants: (leadId: number, snippetField?: string) => Promise<IpcResponse<GeneratedContentRecord[]>>;
+    createVariants: (input: SnippetVariantsInput) => Promise<IpcResponse<GeneratedContentRecord[]>>;
+    keepVariants: (leadId: number, snippetField: string, kept: KeptVariant[]) => Promise<IpcResponse<GeneratedContentRecord[]>>;
+    saveSequence: (leadId: number, touchpoints: TouchpointContent[], templateId?: number, revision?: RevisionInfo) => Promise<IpcResponse<GeneratedContentRecord[]>>;
+    updateStatus: (id: number, status: GeneratedContentRecord['status']) => Promise<IpcResponse<GeneratedContentRecord | null>>;
+    getApproval: (leadId: number) => Promise<IpcResponse<TouchpointApproval>>;
+    getRevisions: (leadId: number, snippetField?: string) => Promise<IpcResponse<ContentRevisionRecord[]>>;
+    revertRevision: (revisionId: number) => Promise<IpcResponse<ContentRevisionRecord | null>>;
   };
   
   // Mappings operations
@@ -80,21 +137,93 @@ export interface ElectronAPI {
     exportData: (format: string, options?: any) => Promise<IpcResponse<any>>;
   };
 
+  // Recorded token usage and cost of Claude calls
+  usage: {
+    getSummary: (groupBy: UsageSummaryGrouping, filters?: UsageFilters) => Promise<IpcResponse<UsageSummaryRow[]>>;
+    getByLead: (leadId: number) => Promise<IpcResponse<GenerationUsageRecord[]>>;
+    getBudgetStatus: () => Promise<IpcResponse<BudgetStatus>>;
+    checkBudget: (request: BudgetCheckRequest) => Promise<IpcResponse<BudgetCheck>>;
+  };
+
+  // How much reps edit AI content before approving it
+  editMetrics: {
+    getSummary: (groupBy: EditMetricsGrouping) => Promise<IpcResponse<EditMetricsRow[]>>;
+    getSnippets: () => Promise<IpcResponse<SnippetEditMetric[]>>;
+  };
+
+  // Versioned prompt templates; saving a template adds a version
+  promptTemplates: {
+    getAll: () => Promise<IpcResponse<PromptTemplateWithVersion[]>>;
+    getById: (id: number) => Promise<IpcResponse<PromptTemplateWithVersion | null>>;
+    create: (input: PromptTemplateInput) => Promise<IpcResponse<PromptTemplateWithVersion>>;
+    createVersion: (id: number, input: Omit<PromptTemplateInput, 'name'>) => Promise<IpcResponse<PromptTemplateVersionRecord>>;
+    getVersions: (id: number) => Promise<IpcResponse<PromptTemplateVersionRecord[]>>;
+    getVersion: (versionId: number) => Promise<IpcResponse<PromptTemplateVersionRecord | null>>;
+    rollback: (id: number, version: number) => Promise<IpcResponse<PromptTemplateVersionRecord>>;
+    delete: (id: number) => Promise<IpcResponse<boolean>>;
+  };
+
+  // Real customer results that generated peer proof is limited to
+  caseStudies: {
+    getAll: (includeInactive?: boolean) => Promise<IpcResponse<CaseStudyRecord[]>>;
+    getForIndustry: (industry?: string | null) => Promise<IpcResponse<CaseStudyRecord[]>>;
+    create: (input: CaseStudyInput) => Promise<IpcResponse<CaseStudyRecord>>;
+    update: (id: number, updates: Partial<CaseStudyInput>) => Promise<IpcResponse<CaseStudyRecord | null>>;
+    delete: (id: number) => Promise<IpcResponse<boolean>>;
+  };
+
+  // Who sequences are sent from; assigned through imports.update / leads.update (sender_id)
+  senderProfiles: {
+    getAll: () => Promise<IpcResponse<SenderProfileRecord[]>>;
+    getForLead: (leadId: number) => Promise<IpcResponse<SenderProfileRecord | null>>;
+    create: (input: SenderProfileInput) => Promise<IpcResponse<SenderProfileRecord>>;
+    update: (id: number, updates: Partial<SenderProfileInput>) => Promise<IpcResponse<SenderProfileRecord | null>>;
+    delete: (id: number) => Promise<IpcResponse<boolean>>;
+  };
+
+  // Prompt, request and raw response of each generation call, recorded by the claude handlers
+  generationRuns: {
+    getForLead: (leadId: number, limit?: number) => Promise<IpcResponse<GenerationRunRecord[]>>;
+    getById: (id: number) => Promise<IpcResponse<GenerationRunRecord | null>>;
+  };
+
+  // Approved, unedited sequences offered to Claude as examples for similar leads
+  fewShotExamples: {
+    getAll: (filters?: FewShotExampleFilters) => Promise<IpcResponse<FewShotExampleRecord[]>>;
+    setStatus: (leadId: number, status: FewShotExampleStatus) => Promise<IpcResponse<boolean>>;
+  };
+
   // Claude API operations
   claude: {
-    generateContent: (request: ClaudeGenerateContentRequest) => Promise<IpcResponse<ClaudeResponse>>;
+    generateContent: (request: ClaudeGenerateContentRequest) => Promise<IpcResponse<ClaudeGeneratedContent>>;
+    // Snippet updates arrive on the progress channel under request.operationId
+    generateContentStream: (request: ClaudeGenerateContentRequest) => Promise<IpcResponse<ClaudeGeneratedStream>>;
+    rewriteSnippet: (request: ClaudeRewriteSnippetRequest) => Promise<IpcResponse<ClaudeRewrittenSnippet>>;
+    generateVariants: (request: ClaudeSnippetVariantsRequest) => Promise<IpcResponse<ClaudeSnippetVariants>>;
+    generateBulk: (request: ClaudeGenerateBulkRequest) => Promise<IpcResponse<ClaudeBulkGenerationResult[]>>;
     uploadFile: (request: ClaudeFileUploadRequest) => Promise<IpcResponse<{ fileId: string }>>;
     deleteFile: (fileId: string) => Promise<IpcResponse<{ success: boolean }>>;
-    getQuotaInfo: () => Promise<IpcResponse<{ requestCount: number; remainingRequests: number; maxRequestsPerMinute: number }>>;
+    getQuotaInfo: () => Promise<IpcResponse<QuotaInfo>>;
+    // Batch progress is broadcast on the progress channel as operation 'claude:batch'
+    startBatch: (request: ClaudeStartBatchRequest) => Promise<IpcResponse<GenerationBatchProgress>>;
+    getBatch: (batchId: number) => Promise<IpcResponse<GenerationBatchProgress | null>>;
+    getRecentBatches: (limit?: number) => Promise<IpcResponse<GenerationBatchProgress[]>>;
   };
 
   // Woodpecker API operations
   woodpecker: {
     getCampaigns: (request?: WoodpeckerGetCampaignsRequest) => Promise<IpcResponse<WoodpeckerCampaign[]>>;
-    addProspects: (request: WoodpeckerAddProspectsRequest) => Promise<IpcResponse<WoodpeckerExportProgress>>;
+    createCampaign: (request: WoodpeckerCreateCampaignRequest) => Promise<IpcResponse<WoodpeckerCampaign>>;
+    addProspects: (request: WoodpeckerAddProspectsRequest) => Promise<IpcResponse<ExportProgress>>;
     checkDuplicates: (request: WoodpeckerCheckDuplicatesRequest) => Promise<IpcResponse<string[]>>;
     clearCache: () => Promise<IpcResponse<{ success: boolean }>>;
-    getQuotaInfo: () => Promise<IpcResponse<{ requestCount: number; remainingRequests: number; maxRequestsPerMinute: number }>>;
+    getQuotaInfo: () => Promise<IpcResponse<QuotaInfo>>;
+    syncEngagement: (request?: WoodpeckerSyncEngagementRequest) => Promise<IpcResponse<EngagementSyncSummary>>;
+    getSyncStatus: (campaignId?: string) => Promise<IpcResponse<CampaignSyncRecord | CampaignSyncRecord[] | null>>;
+    startExportJob: (request: WoodpeckerStartExportJobRequest) => Promise<IpcResponse<ExportJobProgress>>;
+    getExportJob: (jobId: number) => Promise<IpcResponse<ExportJobProgress | null>>;
+    getActiveExportJobs: () => Promise<IpcResponse<ExportJobProgress[]>>;
+    resumeExportJob: (jobId: number) => Promise<IpcResponse<ExportJobProgress>>;
   };
 
   // Database utility operations
@@ -117,8 +246,12 @@ export interface ElectronAPI {
     validateClaudeKey: (apiKey: string) => Promise<{ valid: boolean; error?: string }>;
     validateWoodpeckerKey: (apiKey: string) => Promise<{ valid: boolean; error?: string }>;
     getSettingsPath: () => Promise<string>;
-    exportDatabase: () => Promise<{ success: boolean; filePath?: string; size?: number; canceled?: boolean }>;
-    importDatabase: () => Promise<{ success: boolean; filePath?: string; backupPath?: string; size?: number; canceled?: boolean }>;
+    getBudgets: () => Promise<SpendBudgets>;
+    updateBudgets: (budgets: { monthlyLimitUsd?: number | null; perImportLimitUsd?: number | null }) => Promise<{ success: boolean }>;
+    getContentLint: () => Promise<SavedLintConfig>;
+    updateContentLint: (config: SavedLintConfig) => Promise<{ success: boolean }>;
+    exportDatabase: (request?: DatabaseTransferRequest) => Promise<{ success: boolean; filePath?: string; size?: number; canceled?: boolean }>;
+    importDatabase: (request?: DatabaseTransferRequest) => Promise<{ success: boolean; filePath?: string; backupPath?: string; size?: number; canceled?: boolean }>;
     getDatabaseInfo: () => Promise<{
       exists: boolean;
       path?: string;
@@ -128,8 +261,22 @@ export interface ElectronAPI {
       error?: string;
     }>;
   };
+
+  // Progress events for long-running operations (export, bulk generation, database import/export).
+  // Omit operationId to receive events for every operation.
+  progress: {
+    subscribe: (callback: (progress: OperationProgress) => void, operationId?: string) => number;
+    unsubscribe: (subscriptionId: number) => void;
+  };
+
+  // Stop an in-flight operation by the id it reports progress under
+  cancel: (operationId: string) => Promise<IpcResponse<{ cancelled: boolean }>>;
 }
 
+// Renderer callbacks are proxied by contextBridge, so subscriptions are tracked by id
+const progressSubscriptions = new Map<number, (event: Electron.IpcRendererEvent, progress: OperationProgress) => void>();
+let nextSubscriptionId = 1;
+
 // Create the API object with all database operations
 const electronAPI: ElectronAPI = {
   imports: {
@@ -157,6 +304,14 @@ const electronAPI: ElectronAPI = {
     getByTouchpoint: (touchpoint, options) => ipcRenderer.invoke('ipc:content:getByTouchpoint', touchpoint, options),
     update: (id, data) => ipcRenderer.invoke('ipc:content:update', id, data),
     delete: (id) => ipcRenderer.invoke('ipc:content:delete', id),
+    getVariants: (leadId, snippetField) => ipcRenderer.invoke('ipc:content:getVariants', leadId, snippetField),
+    createVariants: (input) => ipcRenderer.invoke('ipc:content:createVariants', input),
+    keepVariants: (leadId, snippetField, kept) => ipcRenderer.invoke('ipc:content:keepVariants', leadId, snippetField, kept),
+    saveSequence: (leadId, touchpoints, templateId, revision) => ipcRenderer.invoke('ipc:content:saveSequence', leadId, touchpoints, templateId, revision),
+    updateStatus: (id, status) => ipcRenderer.invoke('ipc:content:updateStatus', id, status),
+    getApproval: (leadId) => ipcRenderer.invoke('ipc:content:getApproval', leadId),
+    getRevisions: (leadId, snippetField) => ipcRenderer.invoke('ipc:content:getRevisions', leadId, snippetField),
+    revertRevision: (revisionId) => ipcRenderer.invoke('ipc:content:revertRevision', revisionId),
   },
   
   mappings: {
@@ -181,11 +336,67 @@ const electronAPI: ElectronAPI = {
     exportData: (format, options) => ipcRenderer.invoke('ipc:queries:exportData', format, options),
   },
 
+  usage: {
+    getSummary: (groupBy, filters) => ipcRenderer.invoke('ipc:usage:getSummary', groupBy, filters),
+    getByLead: (leadId) => ipcRenderer.invoke('ipc:usage:getByLead', leadId),
+    getBudgetStatus: () => ipcRenderer.invoke('ipc:usage:getBudgetStatus'),
+    checkBudget: (request) => ipcRenderer.invoke('ipc:usage:checkBudget', request),
+  },
+
+  editMetrics: {
+    getSummary: (groupBy) => ipcRenderer.invoke('ipc:editMetrics:getSummary', groupBy),
+    getSnippets: () => ipcRenderer.invoke('ipc:editMetrics:getSnippets'),
+  },
+
+  promptTemplates: {
+    getAll: () => ipcRenderer.invoke('ipc:promptTemplates:getAll'),
+    getById: (id) => ipcRenderer.invoke('ipc:promptTemplates:getById', id),
+    create: (input) => ipcRenderer.invoke('ipc:promptTemplates:create', input),
+    createVersion: (id, input) => ipcRenderer.invoke('ipc:promptTemplates:createVersion', id, input),
+    getVersions: (id) => ipcRenderer.invoke('ipc:promptTemplates:getVersions', id),
+    getVersion: (versionId) => ipcRenderer.invoke('ipc:promptTemplates:getVersion', versionId),
+    rollback: (id, version) => ipcRenderer.invoke('ipc:promptTemplates:rollback', id, version),
+    delete: (id) => ipcRenderer.invoke('ipc:promptTemplates:delete', id),
+  },
+
+  caseStudies: {
+    getAll: (includeInactive) => ipcRenderer.invoke('ipc:caseStudies:getAll', includeInactive),
+    getForIndustry: (industry) => ipcRenderer.invoke('ipc:caseStudies:getForIndustry', industry),
+    create: (input) => ipcRenderer.invoke('ipc:caseStudies:create', input),
+    update: (id, updates) => ipcRenderer.invoke('ipc:caseStudies:update', id, updates),
+    delete: (id) => ipcRenderer.invoke('ipc:caseStudies:delete', id),
+  },
+
+  senderProfiles: {
+    getAll: () => ipcRenderer.invoke('ipc:senderProfiles:getAll'),
+    getForLead: (leadId) => ipcRenderer.invoke('ipc:senderProfiles:getForLead', leadId),
+    create: (input) => ipcRenderer.invoke('ipc:senderProfiles:create', input),
+    update: (id, updates) => ipcRenderer.invoke('ipc:senderProfiles:update', id, updates),
+    delete: (id) => ipcRenderer.invoke('ipc:senderProfiles:delete', id),
+  },
+
+  generationRuns: {
+    getForLead: (leadId, limit) => ipcRenderer.invoke('ipc:generationRuns:getForLead', leadId, limit),
+    getById: (id) => ipcRenderer.invoke('ipc:generationRuns:getById', id),
+  },
+
+  fewShotExamples: {
+    getAll: (filters) => ipcRenderer.invoke('ipc:fewShotExamples:getAll', filters),
+    setStatus: (leadId, status) => ipcRenderer.invoke('ipc:fewShotExamples:setStatus', leadId, status),
+  },
+
   claude: {
     generateContent: (request) => ipcRenderer.invoke('ipc:claude:generateContent', request),
+    generateContentStream: (request) => ipcRenderer.invoke('ipc:claude:generateContentStream', request),
+    rewriteSnippet: (request) => ipcRenderer.invoke('ipc:claude:rewriteSnippet', request),
+    generateVariants: (request) => ipcRenderer.invoke('ipc:claude:generateVariants', request),
+    generateBulk: (request) => ipcRenderer.invoke('ipc:claude:generateBulk', request),
     uploadFile: (request) => ipcRenderer.invoke('ipc:claude:uploadFile', request),
     deleteFile: (fileId) => ipcRenderer.invoke('ipc:claude:deleteFile', fileId),
     getQuotaInfo: () => ipcRenderer.invoke('ipc:claude:getQuotaInfo'),
+    startBatch: (request) => ipcRenderer.invoke('ipc:claude:startBatch', request),
+    getBatch: (batchId) => ipcRenderer.invoke('ipc:claude:getBatch', batchId),
+    getRecentBatches: (limit) => ipcRenderer.invoke('ipc:claude:getRecentBatches', limit),
   },
 
   woodpecker: {
@@ -200,6 +411,7 @@ const electronAPI: ElectronAPI = {
         throw error;
       }
     },
+    createCampaign: (request) => ipcRenderer.invoke('ipc:woodpecker:createCampaign', request),
     addProspects: async (request) => {
       try {
         console.log('🔌 [PRELOAD] Calling ipc:woodpecker:addProspects');
@@ -244,6 +456,12 @@ const electronAPI: ElectronAPI = {
         throw error;
       }
     },
+    syncEngagement: (request) => ipcRenderer.invoke('ipc:woodpecker:syncEngagement', request),
+    getSyncStatus: (campaignId) => ipcRenderer.invoke('ipc:woodpecker:getSyncStatus', campaignId),
+    startExportJob: (request) => ipcRenderer.invoke('ipc:woodpecker:startExportJob', request),
+    getExportJob: (jobId) => ipcRenderer.invoke('ipc:woodpecker:getExportJob', jobId),
+    getActiveExportJobs: () => ipcRenderer.invoke('ipc:woodpecker:getActiveExportJobs'),
+    resumeExportJob: (jobId) => ipcRenderer.invoke('ipc:woodpecker:resumeExportJob', jobId),
   },
 
   database: {
@@ -256,10 +474,37 @@ const electronAPI: ElectronAPI = {
     validateClaudeKey: (apiKey) => ipcRenderer.invoke('settings:validateClaudeKey', apiKey),
     validateWoodpeckerKey: (apiKey) => ipcRenderer.invoke('settings:validateWoodpeckerKey', apiKey),
     getSettingsPath: () => ipcRenderer.invoke('settings:getSettingsPath'),
-    exportDatabase: () => ipcRenderer.invoke('settings:exportDatabase'),
-    importDatabase: () => ipcRenderer.invoke('settings:importDatabase'),
+    getBudgets: () => ipcRenderer.invoke('settings:getBudgets'),
+    updateBudgets: (budgets) => ipcRenderer.invoke('settings:updateBudgets', budgets),
+    getContentLint: () => ipcRenderer.invoke('settings:getContentLint'),
+    updateContentLint: (config) => ipcRenderer.invoke('settings:updateContentLint', config),
+    exportDatabase: (request) => ipcRenderer.invoke('settings:exportDatabase', request),
+    importDatabase: (request) => ipcRenderer.invoke('settings:importDatabase', request),
     getDatabaseInfo: () => ipcRenderer.invoke('settings:getDatabaseInfo'),
   },
+
+  progress: {
+    subscribe: (callback, operationId) => {
+      const subscriptionId = nextSubscriptionId++;
+      const listener = (_event: Electron.IpcRendererEvent, progress: OperationProgress) => {
+        if (!operationId || progress.operationId === operationId) {
+          callback(progress);
+        }
+      };
+      progressSubscriptions.set(subscriptionId, listener);
+      ipcRenderer.on(PROGRESS_CHANNEL, listener);
+      return subscriptionId;
+    },
+    unsubscribe: (subscriptionId) => {
+      const listener = progressSubscriptions.get(subscriptionId);
+      if (listener) {
+        ipcRenderer.removeListener(PROGRESS_CHANNEL, listener);
+        progressSubscriptions.delete(subscriptionId);
+      }
+    },
+  },
+
+  cancel: (operationId) => ipcRenderer.invoke('ipc:operations:cancel', operationId),
 };
 
 // Log to confirm preload script is running
@@ -2,6 +2,7 @@ import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
 import { ContentGenerationService } from '../contentGenerationService';
 import { createClaudeService } from '../claudeService';
 import { templateService } from '../templateService';
+import { estimateAttachmentTokens } from '@/utils/tokenCounter';
 
 // Mock the services
 vi.mock('../claudeService', () => ({
@@ -12,6 +13,7 @@ vi.mock('../templateService', () => ({
   templateService: {
     validateLeadData: vi.fn(),
     generatePrompt: vi.fn(() => 'test prompt'),
+    generatePromptParts: vi.fn(() => ({ promptPrefix: '', prompt: 'test prompt' })),
     validateGeneratedContent: vi.fn(() => true)
   }
 }));
@@ -108,6 +110,7 @@ describe('ContentGenerationService', () => {
     mockTemplateService = {
       validateLeadData: vi.fn(),
       generatePrompt: vi.fn(() => 'test prompt'),
+      generatePromptParts: vi.fn(() => ({ promptPrefix: '', prompt: 'test prompt' })),
       validateGeneratedContent: vi.fn(() => true)
     };
 
@@ -201,6 +204,150 @@ describe('ContentGenerationService', () => {
     });
   });
 
+  describe('budgets', () => {
+    const budgetCheck = (affordableLeads: number, totalLeads: number) => ({
+      allowed: affordableLeads >= totalLeads,
+      totalLeads,
+      affordableLeads,
+      projectedCostUsd: 0,
+      monthly: null,
+      imports: [],
+      reason: affordableLeads < totalLeads ? `Budget covers ${affordableLeads} of ${totalLeads} lead(s)` : undefined
+    });
+
+    let mockApi: {
+      usage: { checkBudget: ReturnType<typeof vi.fn> };
+      claude: { startBatch: ReturnType<typeof vi.fn> };
+    };
+
+    beforeEach(() => {
+      mockApi = {
+        usage: { checkBudget: vi.fn() },
+        claude: { startBatch: vi.fn() }
+      };
+      (window as unknown as { api?: typeof mockApi }).api = mockApi;
+    });
+
+    afterEach(() => {
+      delete (window as unknown as { api?: typeof mockApi }).api;
+    });
+
+    it('should estimate cost from each lead\'s prompt and the shared system prompt', () => {
+      mockTemplateService.generatePrompt.mockReturnValue('x'.repeat(400));
+
+      const estimate = contentGenerationService.estimateGenerationCost(
+        [mockLeadData, mockLeadData],
+        { modelId: 'claude-sonnet-4-20250514', systemPrompt: 'y'.repeat(400) }
+      );
+
+      expect(estimate.leadCount).toBe(2);
+      expect(estimate.inputTokens).toBe(400);
+      expect(estimate.outputTokens).toBe(2000);
+      // 400 input tokens at $3/M plus 2000 output tokens at $15/M
+      expect(estimate.totalCost).toBeCloseTo(0.0312);
+      expect(estimate.perLeadCost).toBeCloseTo(0.0156);
+    });
+
+    it('should price each lead with the system prompt the editor would send it', () => {
+      mockTemplateService.generatePrompt.mockReturnValue('x'.repeat(400));
+      const attachments = [{ type: 'application/pdf', size: 1024, file_id: 'file_1' }];
+
+      const bare = contentGenerationService.estimateGenerationCost([mockLeadData], { systemPrompt: '' });
+      const estimate = contentGenerationService.estimateGenerationCost([mockLeadData], {
+        modelId: 'claude-3-5-haiku-20241022',
+        attachments
+      });
+
+      expect(estimate.modelId).toBe('claude-3-5-haiku-20241022');
+      expect(estimate.inputTokens).toBeGreaterThan(bare.inputTokens + estimateAttachmentTokens(attachments) + 1000);
+    });
+
+    it('should refuse to submit a batch the budget does not cover', async () => {
+      mockApi.usage.checkBudget.mockResolvedValue({ success: true, data: budgetCheck(1, 2) });
+
+      const result = await contentGenerationService.startBatchGeneration([
+        { leadId: 1, leadData: mockLeadData },
+        { leadId: 2, leadData: mockLeadData }
+      ]);
+
+      expect(mockApi.usage.checkBudget).toHaveBeenCalledWith(expect.objectContaining({ leadIds: [1, 2], leadCount: 2 }));
+      expect(mockApi.claude.startBatch).not.toHaveBeenCalled();
+      expect(result.error).toBe('Budget covers 1 of 2 lead(s)');
+      expect(result.budget?.affordableLeads).toBe(1);
+    });
+
+    it('should check a batch against the budget at the pre-flight estimate', async () => {
+      const promptPrefix = 'p'.repeat(8000);
+      mockTemplateService.generatePrompt.mockReturnValue(`${promptPrefix}\n\ntest prompt`);
+      mockTemplateService.generatePromptParts.mockReturnValue({ promptPrefix, prompt: 'test prompt' });
+      mockApi.usage.checkBudget.mockResolvedValue({ success: true, data: budgetCheck(0, 1) });
+
+      const leads = [{ leadId: 1, leadData: mockLeadData }];
+      const { estimate } = await contentGenerationService.preflightGeneration(leads, { batch: true });
+      const result = await contentGenerationService.startBatchGeneration(leads);
+
+      expect(result.estimate?.inputTokens).toBe(estimate.inputTokens);
+      expect(result.estimate?.totalCost).toBeCloseTo(estimate.totalCost);
+      expect(estimate.inputTokens).toBeGreaterThan(2000);
+    });
+
+    it('should submit a batch with the model, system prompt and files chosen in the editor', async () => {
+      mockApi.usage.checkBudget.mockResolvedValue({ success: true, data: budgetCheck(1, 1) });
+      mockApi.claude.startBatch.mockResolvedValue({ success: true, data: { batchId: 'batch_1' } });
+      contentGenerationService.setGenerationSettings({
+        modelId: 'claude-3-5-haiku-20241022',
+        attachments: [{ id: 'a1', name: 'deck.pdf', type: 'application/pdf', size: 1024, data: '', file_id: 'file_1' }]
+      });
+
+      await contentGenerationService.startBatchGeneration([{ leadId: 1, leadData: mockLeadData }]);
+
+      expect(mockApi.claude.startBatch).toHaveBeenCalledWith({
+        modelId: 'claude-3-5-haiku-20241022',
+        items: [
+          expect.objectContaining({
+            leadId: 1,
+            systemPrompt: expect.stringContaining('- Name: John Doe'),
+            fileIds: ['file_1']
+          })
+        ]
+      });
+      expect(mockTemplateService.generatePromptParts).toHaveBeenCalledWith(
+        expect.objectContaining({ custom_prompt: expect.stringContaining('[PDF 1: deck.pdf]') }),
+        'email-sequence'
+      );
+    });
+
+    it('should refuse to queue leads the budget does not cover', async () => {
+      mockApi.usage.checkBudget.mockResolvedValue({ success: true, data: budgetCheck(1, 2) });
+      const generateForLead = vi.spyOn(contentGenerationService, 'generateForLead');
+
+      await expect(contentGenerationService.generateForLeads(
+        [mockLeadData, { ...mockLeadData, email: 'jane@company.com' }],
+        'email-sequence',
+        undefined,
+        [1, 2]
+      )).rejects.toThrow('Budget covers 1 of 2 lead(s)');
+
+      expect(mockApi.usage.checkBudget).toHaveBeenCalledWith(expect.objectContaining({ leadIds: [1, 2], leadCount: 2 }));
+      expect(generateForLead).not.toHaveBeenCalled();
+    });
+
+    it('should generate each queued lead under its stored lead id', async () => {
+      mockApi.usage.checkBudget.mockResolvedValue({ success: true, data: budgetCheck(2, 2) });
+      const generateForLead = vi.spyOn(contentGenerationService, 'generateForLead')
+        .mockResolvedValue({ leadId: 'x', status: 'completed' });
+
+      await contentGenerationService.generateForLeads(
+        [mockLeadData, { ...mockLeadData, email: 'jane@company.com' }],
+        'email-sequence',
+        undefined,
+        [7, 8]
+      );
+
+      expect(generateForLead.mock.calls.map(call => call[3])).toEqual([7, 8]);
+    });
+  });
+
   describe('getLeadContent', () => {
     it('should retrieve content from localStorage', () => {
       const leadId = 'test_lead_123';
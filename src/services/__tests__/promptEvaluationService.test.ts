@@ -0,0 +1,170 @@
+import { describe, it, expect, vi } from 'vitest'
+import {
+  GOLDEN_LEADS,
+  PromptEvaluationService,
+  bundledCandidate,
+  scoreOutput,
+} from '../promptEvaluationService'
+import type { EvaluationCandidate, EvaluationGenerator } from '../promptEvaluationService'
+
+const leads = GOLDEN_LEADS.slice(0, 2)
+
+// A sequence that passes every check, addressed to the lead
+const sequenceFor = (firstName: string, company: string) => ({
+  snippet1: `Quick idea for onboarding at ${company}`.slice(0, 50).padEnd(36, '.'),
+  snippet2: `<div>Hi ${firstName}, how do new hires at ${company} learn the ropes today?</div>`,
+  snippet3: `Hi ${firstName}, I work with training teams like yours. Open to connecting?`,
+  snippet4: `<div>${firstName}, did my last note get buried?</div>`,
+  snippet5: `<div>Hi ${firstName}, one more thought on training at ${company}.</div>`,
+  snippet6: `<div>${firstName}, worth a short call next week?</div>`,
+  snippet7: `<div>Hi ${firstName}, I will stop here. Reach out if training at ${company} comes up.</div>`,
+})
+
+const generator: EvaluationGenerator = async ({ lead }) =>
+  sequenceFor(lead.lead.first_name, lead.lead.company)
+
+describe('promptEvaluationService', () => {
+  describe('scoreOutput', () => {
+    const [{ lead }] = leads
+    const { template } = bundledCandidate()
+
+    it('should give a clean sequence full marks', () => {
+      const { score } = scoreOutput(sequenceFor(lead.first_name, lead.company), template, lead)
+
+      expect(score).toEqual({ score: 100, passed: true, structureValid: true, lengthIssues: [], lintIssues: [] })
+    })
+
+    it('should take points off for lint findings and score incomplete sequences 0', () => {
+      const shouting = { ...sequenceFor(lead.first_name, lead.company), snippet4: '<div>Hi there, this is URGENT.</div>' }
+      const { score } = scoreOutput(shouting, template, lead)
+
+      expect(score.lintIssues.map((issue) => issue.rule)).toEqual(['spamWords', 'allCaps', 'personalization'])
+      expect(score.score).toBe(85)
+      expect(score.passed).toBe(true)
+
+      const incomplete = { ...sequenceFor(lead.first_name, lead.company), snippet7: '' }
+      expect(scoreOutput(incomplete, template, lead).score).toEqual(
+        expect.objectContaining({ score: 0, passed: false, structureValid: false })
+      )
+    })
+  })
+
+  describe('run', () => {
+    it('should score every candidate against every lead and record the outputs', async () => {
+      const shorter: EvaluationCandidate = {
+        ...bundledCandidate(),
+        id: 'shorter',
+        label: 'Shorter emails',
+        systemPrompt: 'Keep every email under 80 words.',
+      }
+      const generate = vi.fn(generator)
+      const progress: number[] = []
+
+      const report = await new PromptEvaluationService(generate).run({
+        candidates: [bundledCandidate(), shorter],
+        leads,
+        mode: 'live',
+        modelId: 'claude-sonnet-4-20250514',
+        onProgress: (completed) => progress.push(completed),
+      })
+
+      expect(generate).toHaveBeenCalledTimes(4)
+      expect(generate.mock.calls[0][0].prompt.prompt).toContain(leads[0].lead.company)
+      expect(progress).toEqual([1, 2, 3, 4])
+      expect(report.summaries).toEqual([
+        expect.objectContaining({ candidateId: 'bundled', averageScore: 100, passed: 2, failed: 0, total: 2 }),
+        expect.objectContaining({ candidateId: 'shorter', averageScore: 100, passed: 2, failed: 0, total: 2 }),
+      ])
+      expect(report.recording.modelId).toBe('claude-sonnet-4-20250514')
+      expect(report.recording.outputs.shorter[leads[1].id]).toEqual(
+        expect.objectContaining({ systemPrompt: 'Keep every email under 80 words.' })
+      )
+    })
+
+    it('should build the prompt with the case studies, examples and sender production uses', async () => {
+      const generate = vi.fn(generator)
+      const [{ lead }] = leads
+
+      await new PromptEvaluationService(generate).run({
+        candidates: [bundledCandidate()],
+        leads: leads.slice(0, 1),
+        mode: 'live',
+        caseStudies: [
+          { id: 1, customer: 'Contoso', industry: lead.industry, wording: 'Contoso cut onboarding time.', active: true },
+        ],
+        fewShotExamples: [
+          {
+            lead_id: 1,
+            first_name: null,
+            last_name: null,
+            email: null,
+            company: null,
+            title: lead.title,
+            industry: lead.industry,
+            template_version_id: null,
+            approved_at: '2026-10-01T09:00:00.000Z',
+            status: 'pinned',
+            snippets: { snippet1: 'Scaling onboarding' },
+          },
+        ],
+        sender: { id: 1, name: 'Alex Kim', title: 'Head of Partnerships', is_default: true },
+      })
+
+      const { prompt } = generate.mock.calls[0][0].prompt
+      expect(prompt).toContain('Contoso cut onboarding time.')
+      expect(prompt).toContain('**APPROVED EXAMPLES:**')
+      expect(prompt).toContain('Scaling onboarding')
+      expect(prompt).toContain('Write as Alex Kim, Head of Partnerships.')
+    })
+
+    it('should fail only the cell whose generation failed', async () => {
+      const report = await new PromptEvaluationService(async (request) => {
+        if (request.lead.id === leads[1].id) throw new Error('Overloaded')
+        return generator(request)
+      }).run({ candidates: [bundledCandidate()], leads, mode: 'live' })
+
+      expect(report.cells.map((cell) => cell.error)).toEqual([undefined, 'Overloaded'])
+      expect(report.summaries[0]).toEqual(expect.objectContaining({ averageScore: 50, passed: 1, failed: 1 }))
+    })
+
+    it('should replay a recording without calling Claude', async () => {
+      const live = await new PromptEvaluationService(generator).run({
+        candidates: [bundledCandidate()],
+        leads,
+        mode: 'live',
+      })
+      const offline = vi.fn()
+
+      const replayed = await new PromptEvaluationService(offline).run({
+        candidates: [bundledCandidate()],
+        leads,
+        mode: 'replay',
+        recording: live.recording,
+      })
+
+      expect(offline).not.toHaveBeenCalled()
+      expect(replayed.summaries).toEqual(live.summaries)
+      expect(replayed.cells.every((cell) => cell.stale === false)).toBe(true)
+    })
+
+    it('should flag replays whose prompt has changed and fail leads without a recording', async () => {
+      const live = await new PromptEvaluationService(generator).run({
+        candidates: [bundledCandidate()],
+        leads: leads.slice(0, 1),
+        mode: 'live',
+      })
+      const edited = bundledCandidate()
+      edited.template = { ...edited.template, template: `${edited.template.template}\n\nNever use exclamation marks.` }
+
+      const replayed = await new PromptEvaluationService().run({
+        candidates: [edited],
+        leads,
+        mode: 'replay',
+        recording: live.recording,
+      })
+
+      expect(replayed.cells[0]).toEqual(expect.objectContaining({ stale: true, score: expect.objectContaining({ score: 100 }) }))
+      expect(replayed.cells[1].error).toBe('No recorded output for this prompt and lead')
+    })
+  })
+})
@@ -132,6 +132,98 @@ describe('TemplateService', () => {
     })
   })
 
+  describe('generatePromptParts', () => {
+    it('should keep the lead details out of the shared prefix', () => {
+      const parts = templateService.generatePromptParts(validLeadData)
+      const other = templateService.generatePromptParts({
+        ...validLeadData,
+        first_name: 'Jane',
+        company: 'Other Corp',
+      })
+
+      expect(parts.promptPrefix).toBe(other.promptPrefix)
+      expect(parts.promptPrefix).toContain('**REQUIREMENTS:**')
+      expect(parts.promptPrefix).not.toContain('John')
+      expect(parts.prompt).toContain('John Doe')
+      expect(parts.prompt).toContain('Test Company')
+      expect(parts.prompt).not.toContain('**REQUIREMENTS:**')
+    })
+
+    it('should put the custom prompt in front of the lead details', () => {
+      const parts = templateService.generatePromptParts({
+        ...validLeadData,
+        custom_prompt: 'Mention their new warehouse',
+      })
+
+      expect(parts.prompt).toMatch(/^\*\*IMPORTANT CONTEXT FROM USER:\*\*\nMention their new warehouse/)
+      expect(parts.promptPrefix).not.toContain('warehouse')
+    })
+
+    it('should offer only the case studies for the lead industry as peer proof', () => {
+      expect(templateService.generatePromptParts(validLeadData).prompt).toContain(
+        'No case studies are approved for this industry'
+      )
+
+      templateService.setCaseStudies([
+        { id: 1, customer: 'Contoso', industry: 'technology', metric: '3x course completion', wording: 'Contoso rolled it out company-wide.', active: true },
+        { id: 2, customer: 'Fabrikam Health', industry: 'Healthcare', wording: 'Protocol training.', active: true },
+      ])
+      const parts = templateService.generatePromptParts(validLeadData)
+
+      expect(parts.prompt).toContain(
+        '- Contoso (technology): Contoso rolled it out company-wide. Result: 3x course completion.'
+      )
+      expect(parts.prompt).not.toContain('Fabrikam')
+      expect(parts.promptPrefix).not.toContain('Contoso')
+    })
+
+    it('should write as the sender when the lead has one', () => {
+      expect(templateService.generatePromptParts(validLeadData).prompt).not.toContain('**SENDER:**')
+
+      const parts = templateService.generatePromptParts({
+        ...validLeadData,
+        sender: {
+          id: 1,
+          name: 'Alex Kim',
+          title: 'Head of Partnerships',
+          calendar_link: 'https://cal.com/alex',
+          tone_notes: 'Warm and brief',
+          is_default: true,
+        },
+      })
+
+      expect(parts.prompt).toContain('**SENDER:**\nWrite as Alex Kim, Head of Partnerships.\nTone: Warm and brief')
+      expect(parts.prompt).toContain('offer this booking link: https://cal.com/alex')
+      expect(parts.promptPrefix).not.toContain('Alex Kim')
+    })
+
+    it('should show approved sequences for the same industry or title as examples', () => {
+      expect(templateService.generatePromptParts(validLeadData).prompt).not.toContain('**APPROVED EXAMPLES:**')
+
+      const approved = {
+        first_name: null,
+        last_name: null,
+        email: null,
+        company: null,
+        template_version_id: null,
+        approved_at: '2026-10-01T09:00:00.000Z',
+        status: 'auto' as const,
+      }
+      templateService.setFewShotExamples([
+        { ...approved, lead_id: 1, title: 'CTO', industry: 'Technology', snippets: { snippet1: 'Scaling onboarding' } },
+        { ...approved, lead_id: 2, title: 'Nurse Manager', industry: 'Healthcare', snippets: { snippet1: 'Shift handovers' } },
+        { ...approved, lead_id: 3, title: 'VP of Sales', industry: 'Retail', snippets: { snippet1: 'Ramp time' }, status: 'retired' },
+      ])
+      const parts = templateService.generatePromptParts(validLeadData)
+
+      expect(parts.prompt).toContain('**APPROVED EXAMPLES:**')
+      expect(parts.prompt).toContain('Example 1 (CTO, Technology):\n{\n  "snippet1": "Scaling onboarding"\n}')
+      expect(parts.prompt).not.toContain('Shift handovers')
+      expect(parts.prompt).not.toContain('Ramp time')
+      expect(parts.promptPrefix).not.toContain('Scaling onboarding')
+    })
+  })
+
   describe('validateGeneratedContent', () => {
     const validContent = {
       email: 'john@company.com',
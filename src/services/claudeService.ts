@@ -1,6 +1,8 @@
 // Renderer-side Claude service - now acts as IPC proxy to main process
+import type { SequenceSnippets } from '@/utils/sequenceDefinition'
 
-export interface ClaudeResponse {
+// Lead columns plus one snippet field per touchpoint of the sequence
+export interface ClaudeResponse extends SequenceSnippets {
   email: string
   first_name: string
   last_name: string
@@ -9,13 +11,6 @@ export interface ClaudeResponse {
   linkedin_url: string
   tags: string
   industry: string
-  snippet1: string
-  snippet2: string
-  snippet3: string
-  snippet4: string
-  snippet5: string
-  snippet6: string
-  snippet7: string
 }
 
 export class ClaudeApiError extends Error {
@@ -1,4 +1,14 @@
 import type { ClaudeResponse } from '../main/services/claudeService'
+import type { StreamedSnippet } from '../main/services/sequenceOutput'
+import type {
+  ClaudeGenerateContentRequest,
+  ClaudeRewriteSnippetRequest,
+  ClaudeRewrittenSnippet,
+  ClaudeSnippetVariantsRequest,
+  ClaudeSnippetVariants,
+} from '../main/ipc/claudeHandlers'
+import type { BatchGenerationItemInput } from '../main/services/batchGenerationService'
+import type { GenerationBatchProgress, BudgetCheck, RevisionInfo } from '@/types/api'
 import { TemplateService, templateService } from './templateService'
 import type { LeadData } from './templateService'
 import { FallbackDataService, fallbackDataService } from './fallbackDataService'
@@ -7,15 +17,30 @@ import {
   templateBasedGenerationService,
 } from './templateBasedGenerationService'
 import { contentStorage } from '@/utils/contentStorage'
+import { sequenceFields } from '@/utils/sequenceDefinition'
+import type { SequenceTouchpoint } from '@/utils/sequenceDefinition'
+import {
+  estimateTokens,
+  estimateAttachmentTokens,
+  calculateUsageCost,
+  ESTIMATED_SEQUENCE_OUTPUT_TOKENS,
+} from '@/utils/tokenCounter'
+import type { AttachmentTokenInfo } from '@/utils/tokenCounter'
+import { describeAttachments } from '@/utils/fileHandler'
+import type { FileAttachment } from '@/utils/fileHandler'
+import { buildSystemPrompt } from '@/utils/systemPrompt'
+
+const DEFAULT_MODEL_ID = 'claude-sonnet-4-20250514'
 
 export interface ContentGenerationRequest {
   leadData: LeadData
   templateName?: string
+  leadId?: number // stored lead the content is saved under and spend is recorded against
 }
 
 export interface ContentGenerationResult {
   leadId: string
-  status: 'generating' | 'completed' | 'failed'
+  status: 'generating' | 'completed' | 'failed' | 'cancelled'
   content?: ClaudeResponse
   error?: string
   generatedAt?: Date
@@ -29,8 +54,48 @@ export interface GenerationProgress {
   results: Map<string, ContentGenerationResult>
 }
 
+// Outcome of submitting a Message Batch; skipped leads could not fill the template
+export interface BatchGenerationStart {
+  batch?: GenerationBatchProgress
+  skipped: Array<{ leadId: number; error: string }>
+  estimate?: GenerationCostEstimate
+  budget?: BudgetCheck
+  error?: string
+}
+
+// What a generation would be sent with, for estimating its cost up front
+export interface GenerationCostOptions {
+  templateName?: string
+  modelId?: string
+  systemPrompt?: string
+  attachments?: AttachmentTokenInfo[]
+  batch?: boolean // Message Batches are billed at half price
+}
+
+// Projected cost of generating a set of leads, priced from MODEL_PRICING
+export interface GenerationCostEstimate {
+  modelId: string
+  leadCount: number
+  inputTokens: number
+  outputTokens: number
+  totalCost: number
+  perLeadCost: number
+}
+
+// Pre-flight check shown before bulk generation starts
+export interface GenerationPreflight {
+  estimate: GenerationCostEstimate
+  budget: BudgetCheck
+}
+
 export type GenerationMode = 'claude' | 'templates' | 'fallback'
 
+// Model and files chosen in the content editor, used by bulk generation too
+export interface GenerationSettings {
+  modelId: string
+  attachments: FileAttachment[]
+}
+
 export class ContentGenerationService {
   private templateService: TemplateService
   private fallbackService: FallbackDataService
@@ -40,6 +105,10 @@ export class ContentGenerationService {
   private progressMap = new Map<string, GenerationProgress>()
   private useFallback = import.meta.env.VITE_ENABLE_DEBUG === 'true'
   private generationMode: GenerationMode = 'claude' // Default to Claude API
+  private generationSettings: GenerationSettings = {
+    modelId: DEFAULT_MODEL_ID,
+    attachments: [],
+  }
 
   constructor() {
     this.templateService = templateService
@@ -47,13 +116,16 @@ export class ContentGenerationService {
     this.templateBasedService = templateBasedGenerationService
   }
 
-  // Generate content for a single lead
+  // Generate content for a single lead. Passing onSnippet streams the
+  // response and reports each snippet as it is written.
   async generateForLead(
     leadData: LeadData,
     templateName: string = 'email-sequence',
     modelId?: string,
     numericLeadId?: number,
-    systemPrompt?: string
+    systemPrompt?: string,
+    operationId?: string,
+    onSnippet?: (update: StreamedSnippet) => void
   ): Promise<ContentGenerationResult> {
     const leadId = this.generateLeadId(leadData)
 
@@ -98,8 +170,15 @@ export class ContentGenerationService {
       // Validate lead data
       console.log('🔍 [ContentGenerationService] Validating lead data...')
       this.templateService.validateLeadData(leadData, templateName)
+      leadData = await this.withSender(leadData, numericLeadId)
 
       let content: ClaudeResponse
+      // Prompt template version the content came from, if it came from one
+      let templateId: number | undefined
+      // Touchpoint layout the snippets were written for; the default one otherwise
+      let outputSequence: SequenceTouchpoint[] | undefined
+      // Recorded generation run the content came from, linked when it is saved
+      let generationRunId: number | undefined
 
       // Handle different generation modes
       if (this.generationMode === 'templates') {
@@ -133,10 +212,12 @@ export class ContentGenerationService {
           console.log(
             '📃 [ContentGenerationService] Generating prompt from template...'
           )
-          const prompt = this.templateService.generatePrompt(
-            leadData,
-            templateName
-          )
+          const {
+            promptPrefix,
+            prompt,
+            templateId: promptTemplateId,
+            sequence,
+          } = this.templateService.generatePromptParts(leadData, templateName)
           console.log(
             '📄 [ContentGenerationService] Prompt length:',
             prompt.length,
@@ -205,24 +286,66 @@ export class ContentGenerationService {
           console.log('🔧 [DEBUG] fileIds:', fileIds)
           console.log('🔧 [DEBUG] modelId:', modelId)
 
-          const response = await window.api.claude.generateContent({
+          // Only the template's own prompt shares the cacheable instructions
+          const usesTemplate = userPrompt === prompt
+          templateId = usesTemplate ? promptTemplateId : undefined
+          outputSequence = usesTemplate ? sequence : undefined
+
+          const request = {
             prompt: userPrompt,
+            promptPrefix: usesTemplate ? promptPrefix : undefined,
+            sequence: usesTemplate ? sequence : undefined,
             leadData: leadData as unknown as Record<string, unknown>,
             modelId,
             systemPrompt: finalSystemPrompt,
             fileIds,
             maxRetries: 3,
-          })
+            leadId: numericLeadId,
+            operationId,
+          }
+
+          const response = onSnippet
+            ? await this.streamClaudeContent(request, onSnippet)
+            : await window.api.claude.generateContent(request)
 
           console.log('🔧 [DEBUG - ContentGenerationService] Claude API response received:')
           console.log('🔧 [DEBUG] response.success:', response.success)
 
+          // Stopped mid-stream - hand back the partial output without persisting it
+          if (response.success && 'partial' in response.data && response.data.partial) {
+            return {
+              leadId,
+              status: 'cancelled',
+              content: response.data.content,
+              error: 'Generation stopped before all snippets were written',
+              generatedAt: new Date(),
+            }
+          }
+
           if (!response.success) {
             console.log('🔧 [DEBUG] ERROR from Claude API:', response.error)
+
+            // Cancelled on request - never fall back or persist anything
+            if (response.error.code === 'CLAUDE_CANCELLED') {
+              return {
+                leadId,
+                status: 'cancelled',
+                error: response.error.message,
+                generatedAt: new Date(),
+              }
+            }
+
             throw new Error(response.error.message || 'Claude API call failed')
           }
 
-          content = response.data
+          if ('partial' in response.data) {
+            content = response.data.content
+            generationRunId = response.data.generationRunId
+          } else {
+            const { generationRunId: runId, ...generated } = response.data
+            content = generated
+            generationRunId = runId
+          }
           console.log('🔧 [DEBUG] Claude response data keys:', Object.keys(content))
           console.log('🔧 [DEBUG] Claude response snippet1 length:', content.snippet1?.length || 0)
           console.log('🔧 [DEBUG] Claude response snippet1 content:', content.snippet1?.substring(0, 100) || 'None')
@@ -237,14 +360,8 @@ export class ContentGenerationService {
             snippet1Length: content.snippet1?.length || 0,
             snippet2Length: content.snippet2?.length || 0,
             snippet3Length: content.snippet3?.length || 0,
-            hasAllSnippets: !!(
-              content.snippet1 &&
-              content.snippet2 &&
-              content.snippet3 &&
-              content.snippet4 &&
-              content.snippet5 &&
-              content.snippet6 &&
-              content.snippet7
+            hasAllSnippets: sequenceFields(sequence).every(
+              (field) => !!content[field]
             ),
           })
 
@@ -278,6 +395,9 @@ export class ContentGenerationService {
               '⚠️ [ContentGenerationService] Using fallback due to debug mode being enabled'
             )
             content = this.fallbackService.generateFallbackContent(leadData)
+            templateId = undefined
+            outputSequence = undefined
+            generationRunId = undefined
             console.log(
               '🆕 [ContentGenerationService] Using fallback content due to error'
             )
@@ -297,7 +417,14 @@ export class ContentGenerationService {
         'leadId:', leadId,
         'numericLeadId:', numericLeadId
       )
-      await this.persistContentToStorage(leadId, content, numericLeadId)
+      await this.persistContentToStorage(
+        leadId,
+        content,
+        numericLeadId,
+        templateId,
+        outputSequence,
+        { source: 'ai', author: modelId || null, generationRunId }
+      )
 
       console.log(
         '🎉 [ContentGenerationService] Successfully generated content for lead:',
@@ -334,12 +461,77 @@ export class ContentGenerationService {
     }
   }
 
-  // Generate content for multiple leads with batch processing
+  // Call the streaming handler, forwarding snippet updates for this operation
+  private async streamClaudeContent(
+    request: ClaudeGenerateContentRequest,
+    onSnippet: (update: StreamedSnippet) => void
+  ) {
+    // Subscribe before invoking so no early snippet is missed
+    const operationId =
+      request.operationId ||
+      `claude:generateContentStream:${crypto.randomUUID()}`
+    const subscriptionId = window.api.progress.subscribe((update) => {
+      if (update.data) onSnippet(update.data as StreamedSnippet)
+    }, operationId)
+
+    try {
+      return await window.api.claude.generateContentStream({
+        ...request,
+        operationId,
+      })
+    } finally {
+      window.api.progress.unsubscribe(subscriptionId)
+    }
+  }
+
+  /**
+   * Rewrite one snippet of a generated sequence following an instruction
+   * such as "shorter". Resolves to the new text of that snippet only, with
+   * the generation run that wrote it.
+   */
+  async rewriteSnippet(request: ClaudeRewriteSnippetRequest): Promise<ClaudeRewrittenSnippet> {
+    const response = await window.api.claude.rewriteSnippet(request)
+    if (!response.success) {
+      throw new Error(response.error.message)
+    }
+    return response.data
+  }
+
+  /**
+   * Write A/B alternatives to one snippet. The current text is not among
+   * them; the caller stores it as the first variant.
+   */
+  async generateVariants(request: ClaudeSnippetVariantsRequest): Promise<ClaudeSnippetVariants> {
+    const response = await window.api.claude.generateVariants(request)
+    if (!response.success) {
+      throw new Error(response.error.message)
+    }
+    return response.data
+  }
+
+  // Generate content for multiple leads with batch processing. leadIds are
+  // the stored leads, in the same order. Nothing is queued unless the spend
+  // budget covers every lead; a running batch is never paused for budget.
   async generateForLeads(
     leads: LeadData[],
     templateName: string = 'email-sequence',
-    batchId?: string
+    batchId?: string,
+    leadIds: number[] = []
   ): Promise<string> {
+    // Without the Electron bridge there is no ledger to check against
+    if (window.api?.usage && leads.length > 0) {
+      const { modelId, attachments } = this.generationSettings
+      const estimate = this.estimateGenerationCost(leads, {
+        templateName,
+        modelId,
+        attachments,
+      })
+      const budget = await this.checkBudget(estimate, leadIds)
+      if (!budget.allowed) {
+        throw new Error(budget.reason || 'Budget cap reached')
+      }
+    }
+
     const id = batchId || this.generateBatchId()
 
     // Initialize progress tracking
@@ -354,9 +546,10 @@ export class ContentGenerationService {
     this.progressMap.set(id, progress)
 
     // Add to queue and start processing
-    const requests = leads.map((leadData) => ({
+    const requests = leads.map((leadData, index) => ({
       leadData,
       templateName,
+      leadId: leadIds[index],
     }))
 
     this.generationQueue.push(...requests)
@@ -368,6 +561,144 @@ export class ContentGenerationService {
     return id
   }
 
+  // Estimate what generating the given leads would cost, from the prompt
+  // each lead fills the template with. Leads that cannot fill it are left out.
+  // Without a shared system prompt, each lead is priced with the one the
+  // content editor would send it.
+  estimateGenerationCost(
+    leads: LeadData[],
+    options: GenerationCostOptions = {}
+  ): GenerationCostEstimate {
+    const templateName = options.templateName || 'email-sequence'
+    const prompts: string[] = []
+    let cacheWriteTokens = 0
+    for (const leadData of leads) {
+      try {
+        const prompt = this.templateService.generatePrompt(leadData, templateName)
+        if (options.systemPrompt !== undefined) {
+          prompts.push(prompt)
+          continue
+        }
+        const systemPrompt = this.systemPromptFor(leadData)
+        const { promptPrefix } = this.templateService.generatePromptParts(
+          leadData,
+          templateName
+        )
+        prompts.push(`${systemPrompt}\n\n${prompt}`)
+        cacheWriteTokens += this.cacheWriteTokens(systemPrompt, promptPrefix)
+      } catch {
+        // Counted as skipped by the caller, not as spend
+      }
+    }
+    return this.estimatePromptsCost(prompts, options, cacheWriteTokens)
+  }
+
+  // Check a projected cost against the monthly and per-import caps in settings
+  async checkBudget(
+    estimate: GenerationCostEstimate,
+    leadIds: number[] = []
+  ): Promise<BudgetCheck> {
+    const response = await window.api.usage.checkBudget({
+      leadIds,
+      leadCount: estimate.leadCount,
+      perLeadCostUsd: estimate.perLeadCost,
+    })
+    if (!response.success) {
+      throw new Error(response.error.message)
+    }
+    return response.data
+  }
+
+  // Projected cost and budget coverage, shown before bulk generation starts
+  async preflightGeneration(
+    leads: Array<{ leadId: number; leadData: LeadData }>,
+    options: GenerationCostOptions = {}
+  ): Promise<GenerationPreflight> {
+    const estimate = this.estimateGenerationCost(
+      leads.map((lead) => lead.leadData),
+      options
+    )
+    const budget = await this.checkBudget(
+      estimate,
+      leads.map((lead) => lead.leadId)
+    )
+    return { estimate, budget }
+  }
+
+  // Submit leads as one Claude Message Batch. The main process polls it and
+  // writes each lead's content to the database when the batch ends, so the
+  // caller only needs to follow progress for operation 'claude:batch'.
+  async startBatchGeneration(
+    leads: Array<{ leadId: number; leadData: LeadData }>,
+    templateName: string = 'email-sequence'
+  ): Promise<BatchGenerationStart> {
+    const { modelId, attachments } = this.generationSettings
+    const { note, fileIds } = describeAttachments(attachments)
+    const items: BatchGenerationItemInput[] = []
+    const skipped: BatchGenerationStart['skipped'] = []
+
+    for (const { leadId, leadData: lead } of leads) {
+      try {
+        // Sent with the same instructions and files as a single-lead generation
+        const leadData = await this.withSender(
+          { ...lead, custom_prompt: (lead.custom_prompt || '') + note },
+          leadId
+        )
+        items.push({
+          leadId,
+          ...this.templateService.generatePromptParts(leadData, templateName),
+          systemPrompt: this.systemPromptFor(leadData),
+          fileIds: fileIds.length > 0 ? fileIds : undefined,
+          leadData: leadData as unknown as Record<string, unknown>,
+        })
+      } catch (error) {
+        skipped.push({
+          leadId,
+          error: error instanceof Error ? error.message : String(error),
+        })
+      }
+    }
+
+    if (items.length === 0) {
+      return { skipped, error: 'None of the selected leads can be generated' }
+    }
+
+    // Refuse to submit anything the budget cannot cover in full, priced
+    // like the pre-flight estimate from everything each request sends
+    const estimate = this.estimatePromptsCost(
+      items.map((item) =>
+        [item.systemPrompt, item.promptPrefix, item.prompt]
+          .filter(Boolean)
+          .join('\n\n')
+      ),
+      { modelId, attachments, systemPrompt: '', batch: true },
+      items.reduce(
+        (total, item) =>
+          total + this.cacheWriteTokens(item.systemPrompt, item.promptPrefix),
+        0
+      )
+    )
+    const budget = await this.checkBudget(
+      estimate,
+      items.map((item) => item.leadId)
+    )
+    if (!budget.allowed) {
+      return { skipped, estimate, budget, error: budget.reason }
+    }
+
+    const response = await window.api.claude.startBatch({ modelId, items })
+    if (!response.success) {
+      return { skipped, error: response.error.message }
+    }
+
+    console.log(
+      '📦 [ContentGenerationService] Submitted generation batch:',
+      response.data.batchId,
+      `(${items.length} leads, ${skipped.length} skipped)`
+    )
+    return { batch: response.data, skipped, estimate, budget }
+  }
+
   // Get generation progress for a batch
   getProgress(batchId: string): GenerationProgress | null {
     return this.progressMap.get(batchId) || null
@@ -392,7 +723,7 @@ export class ContentGenerationService {
   // Get generation status for a lead
   async getLeadGenerationStatus(
     leadId: string
-  ): Promise<'not_generated' | 'generating' | 'completed' | 'failed'> {
+  ): Promise<'not_generated' | ContentGenerationResult['status']> {
     // Check database first for completed content
     if (await this.hasLeadContent(leadId)) {
       return 'completed'
@@ -475,9 +806,20 @@ export class ContentGenerationService {
     if (!progress) return
 
     try {
+      // Generated with the content editor's settings, as they were estimated
+      const { modelId, attachments } = this.generationSettings
+      const { note, fileIds } = describeAttachments(attachments)
+      const leadData = {
+        ...request.leadData,
+        custom_prompt: (request.leadData.custom_prompt || '') + note,
+        file_ids: fileIds,
+      }
       const result = await this.generateForLead(
-        request.leadData,
-        request.templateName
+        leadData,
+        request.templateName,
+        modelId,
+        request.leadId,
+        this.systemPromptFor(leadData)
       )
 
       // Update progress
@@ -505,6 +847,76 @@ export class ContentGenerationService {
     this.processQueue(batchId)
   }
 
+  // A system prompt written for one lead is never shared, so it and the
+  // template prefix cached behind it are written to the cache every time
+  private cacheWriteTokens(systemPrompt?: string, promptPrefix?: string): number {
+    return estimateTokens(
+      [systemPrompt, promptPrefix].filter(Boolean).join('\n\n')
+    )
+  }
+
+  // cacheWriteTokens are part of the prompts, billed at the cache write price
+  private estimatePromptsCost(
+    prompts: string[],
+    options: GenerationCostOptions,
+    cacheWriteTokens: number = 0
+  ): GenerationCostEstimate {
+    const modelId = options.modelId || DEFAULT_MODEL_ID
+    // The system prompt and attachments are sent again with every lead
+    const sharedTokens =
+      estimateTokens(options.systemPrompt || '') +
+      estimateAttachmentTokens(options.attachments || [])
+
+    const inputTokens = prompts.reduce(
+      (total, prompt) => total + estimateTokens(prompt) + sharedTokens,
+      0
+    )
+    const outputTokens = prompts.length * ESTIMATED_SEQUENCE_OUTPUT_TOKENS
+    const totalCost = calculateUsageCost(
+      {
+        input_tokens: inputTokens - cacheWriteTokens,
+        cache_creation_input_tokens: cacheWriteTokens,
+        output_tokens: outputTokens,
+      },
+      modelId,
+      { batch: options.batch }
+    )
+
+    return {
+      modelId,
+      leadCount: prompts.length,
+      inputTokens,
+      outputTokens,
+      totalCost,
+      perLeadCost: prompts.length > 0 ? totalCost / prompts.length : 0,
+    }
+  }
+
+  // The system prompt the content editor starts from for this lead
+  private systemPromptFor(leadData: LeadData): string {
+    return buildSystemPrompt({
+      name: [leadData.first_name, leadData.last_name].filter(Boolean).join(' '),
+      company: leadData.company,
+      title: leadData.title,
+      email: leadData.email,
+      industry: leadData.industry,
+      linkedin: leadData.linkedin_url,
+    })
+  }
+
+  // Fill in the sender a stored lead is sent from, unless the caller chose one
+  private async withSender(leadData: LeadData, leadId?: number): Promise<LeadData> {
+    if (leadData.sender !== undefined || !leadId || !window.api?.senderProfiles) {
+      return leadData
+    }
+    const response = await window.api.senderProfiles.getForLead(leadId)
+    if (!response.success) {
+      console.warn('Failed to load the sender for lead', leadId, response.error)
+      return leadData
+    }
+    return { ...leadData, sender: response.data }
+  }
+
   private generateLeadId(leadData: LeadData): string {
     return btoa(leadData.email).replace(/[/+=]/g, '')
   }
@@ -516,7 +928,10 @@ export class ContentGenerationService {
   private async persistContentToStorage(
     leadId: string,
     content: ClaudeResponse,
-    numericLeadId?: number
+    numericLeadId?: number,
+    templateId?: number,
+    sequence?: SequenceTouchpoint[],
+    revision?: RevisionInfo
   ): Promise<void> {
     const idForDb =
       typeof numericLeadId === 'number' && Number.isFinite(numericLeadId)
@@ -525,7 +940,9 @@ export class ContentGenerationService {
     const success = await contentStorage.persistContentToStorage(
       idForDb,
       content,
-      1 // touchpoint number
+      templateId,
+      sequence,
+      revision
     )
     if (!success) {
       console.error('Failed to persist content to database')
@@ -594,6 +1011,14 @@ export class ContentGenerationService {
     return this.generationMode
   }
 
+  setGenerationSettings(settings: Partial<GenerationSettings>): void {
+    this.generationSettings = { ...this.generationSettings, ...settings }
+  }
+
+  getGenerationSettings(): GenerationSettings {
+    return this.generationSettings
+  }
+
   // Get available template configs
   getAvailableTemplates() {
     return this.templateBasedService.getAvailableTemplates()
@@ -0,0 +1,325 @@
+/**
+ * Offline evaluation of prompt versions against a golden set of leads. Each
+ * candidate prompt is run for every lead, live through Claude or replayed
+ * from a recording of an earlier run, and every output is scored with the
+ * structure checks, the touchpoint length guidelines and the content linter.
+ */
+
+import emailSequenceTemplate from '../templates/emailSequencePrompt.json'
+import goldenLeadSet from '../templates/evaluationLeads.json'
+import { TemplateService } from './templateService'
+import type { LeadData, Template, TemplatePromptParts } from './templateService'
+import { convertFromHtmlContent, validatePlainText } from '@/utils/contentConverter'
+import type { LightValidationResult, PlainTextContent } from '@/utils/contentConverter'
+import { DEFAULT_LINT_CONFIG, lintContent } from '@/utils/contentLinter'
+import type { ContentLintConfig, LintIssue } from '@/utils/contentLinter'
+import { DEFAULT_SEQUENCE } from '@/utils/sequenceDefinition'
+import type {
+  CaseStudyRecord,
+  FewShotExampleRecord,
+  PromptTemplateVersionRecord,
+  SenderProfileRecord,
+} from '@/types/api'
+
+export interface EvaluationLead {
+  id: string // stable across runs, so recordings can be replayed
+  label: string
+  lead: LeadData
+}
+
+// A prompt version under evaluation
+export interface EvaluationCandidate {
+  id: string // stable across runs, so recordings can be replayed
+  label: string
+  template: Template
+  systemPrompt?: string
+}
+
+export type EvaluationMode = 'live' | 'replay'
+
+// One recorded output, with the prompt that produced it
+export interface RecordedOutput {
+  content: Record<string, unknown>
+  prompt: string
+  systemPrompt?: string
+}
+
+// Outputs of a run by candidate id, then lead id
+export interface EvaluationRecording {
+  recordedAt: string
+  modelId?: string
+  outputs: Record<string, Record<string, RecordedOutput>>
+}
+
+export interface EvaluationScore {
+  score: number // 0-100
+  passed: boolean // complete, within the length guidelines and no lint errors
+  structureValid: boolean
+  lengthIssues: LightValidationResult['errors']
+  lintIssues: LintIssue[]
+}
+
+export interface EvaluationCell {
+  candidateId: string
+  leadId: string
+  content?: PlainTextContent
+  score?: EvaluationScore
+  error?: string
+  // Replayed output recorded for a different prompt than the candidate builds now
+  stale?: boolean
+  durationMs?: number
+}
+
+export interface EvaluationSummary {
+  candidateId: string
+  label: string
+  averageScore: number // failed generations count as 0
+  passed: number
+  failed: number // generations that errored or had no recording
+  lintErrors: number
+  lintWarnings: number
+  lengthIssues: number
+  total: number
+}
+
+export interface EvaluationReport {
+  mode: EvaluationMode
+  candidates: EvaluationCandidate[]
+  leads: EvaluationLead[]
+  cells: EvaluationCell[]
+  summaries: EvaluationSummary[]
+  recording: EvaluationRecording // what this run generated or replayed
+}
+
+export interface EvaluationGenerateRequest {
+  candidate: EvaluationCandidate
+  lead: EvaluationLead
+  prompt: TemplatePromptParts
+  modelId?: string
+}
+
+// Writes one sequence; resolves to the generated snippets
+export type EvaluationGenerator = (request: EvaluationGenerateRequest) => Promise<Record<string, unknown>>
+
+export interface EvaluationOptions {
+  candidates: EvaluationCandidate[]
+  leads?: EvaluationLead[] // the golden set by default
+  mode: EvaluationMode
+  recording?: EvaluationRecording // required for replay
+  modelId?: string
+  lintConfig?: ContentLintConfig
+  // Prompts draw peer proof, examples and the sender from these, as in production
+  caseStudies?: CaseStudyRecord[]
+  fewShotExamples?: FewShotExampleRecord[]
+  sender?: SenderProfileRecord | null // for leads without their own, like the default profile
+  onProgress?: (completed: number, total: number) => void
+}
+
+// Points taken off per finding; an incomplete sequence scores 0
+export const SCORE_PENALTIES = {
+  error: 15,
+  warning: 5,
+  info: 1,
+  length: 5,
+}
+
+export const GOLDEN_LEADS: EvaluationLead[] = goldenLeadSet.leads
+
+// The prompt bundled with the app, as shipped
+export function bundledCandidate(): EvaluationCandidate {
+  return {
+    id: 'bundled',
+    label: 'Bundled prompt',
+    template: { ...emailSequenceTemplate, sequence: DEFAULT_SEQUENCE },
+  }
+}
+
+// A version from the prompt template library
+export function versionCandidate(name: string, version: PromptTemplateVersionRecord): EvaluationCandidate {
+  return {
+    id: `version:${version.id}`,
+    label: `${name} v${version.version}`,
+    template: {
+      name,
+      description: version.notes || '',
+      template: version.template,
+      variables: version.variables,
+      sequence: version.sequence || DEFAULT_SEQUENCE,
+      id: version.id,
+      version: version.version,
+    },
+  }
+}
+
+// Full prompt text as sent, for telling whether a recording is still current
+function promptText(parts: TemplatePromptParts): string {
+  return parts.promptPrefix ? `${parts.promptPrefix}\n\n${parts.prompt}` : parts.prompt
+}
+
+/**
+ * Score one output. The structure check is the same one generation applies;
+ * length guidelines and lint findings then take points off.
+ */
+export function scoreOutput(
+  content: Record<string, unknown>,
+  template: Template,
+  lead: LeadData,
+  lintConfig: ContentLintConfig = DEFAULT_LINT_CONFIG,
+  caseStudies?: CaseStudyRecord[]
+): { plainText: PlainTextContent; score: EvaluationScore } {
+  const templates = new TemplateService()
+  templates.setTemplate(template)
+  const structureValid = templates.validateGeneratedContent(content, template.name, template.sequence)
+
+  const plainText = convertFromHtmlContent(content, template.sequence)
+  const lengthIssues = validatePlainText(plainText, template.sequence).errors
+  const lintIssues = lintContent(
+    plainText,
+    template.sequence,
+    {
+      first_name: lead.first_name,
+      last_name: lead.last_name,
+      company: lead.company,
+      custom_prompt: lead.custom_prompt,
+      caseStudies,
+    },
+    lintConfig
+  )
+
+  const penalty =
+    lintIssues.reduce((sum, issue) => sum + SCORE_PENALTIES[issue.severity], 0) +
+    lengthIssues.length * SCORE_PENALTIES.length
+
+  return {
+    plainText,
+    score: {
+      score: structureValid ? Math.max(0, 100 - penalty) : 0,
+      passed: structureValid && lengthIssues.length === 0 && !lintIssues.some((issue) => issue.severity === 'error'),
+      structureValid,
+      lengthIssues,
+      lintIssues,
+    },
+  }
+}
+
+export function summarize(candidates: EvaluationCandidate[], cells: EvaluationCell[]): EvaluationSummary[] {
+  return candidates.map((candidate) => {
+    const own = cells.filter((cell) => cell.candidateId === candidate.id)
+    const issues = own.flatMap((cell) => cell.score?.lintIssues || [])
+
+    return {
+      candidateId: candidate.id,
+      label: candidate.label,
+      averageScore: own.length
+        ? Math.round(own.reduce((sum, cell) => sum + (cell.score?.score || 0), 0) / own.length)
+        : 0,
+      passed: own.filter((cell) => cell.score?.passed).length,
+      failed: own.filter((cell) => !cell.score).length,
+      lintErrors: issues.filter((issue) => issue.severity === 'error').length,
+      lintWarnings: issues.filter((issue) => issue.severity === 'warning').length,
+      lengthIssues: own.reduce((sum, cell) => sum + (cell.score?.lengthIssues.length || 0), 0),
+      total: own.length,
+    }
+  })
+}
+
+// Generate through the main process; runs are recorded without a lead
+export const claudeGenerator: EvaluationGenerator = async ({ candidate, lead, prompt, modelId }) => {
+  const response = await window.api.claude.generateContent({
+    prompt: prompt.prompt,
+    promptPrefix: prompt.promptPrefix,
+    sequence: prompt.sequence,
+    leadData: lead.lead as unknown as Record<string, unknown>,
+    modelId,
+    systemPrompt: candidate.systemPrompt,
+    maxRetries: 1,
+  })
+  if (!response.success) {
+    throw new Error(response.error.message || 'Claude API call failed')
+  }
+
+  const content: Record<string, unknown> = { ...response.data }
+  delete content.generationRunId
+  return content
+}
+
+export class PromptEvaluationService {
+  private generate: EvaluationGenerator
+
+  constructor(generate: EvaluationGenerator = claudeGenerator) {
+    this.generate = generate
+  }
+
+  /**
+   * Run every candidate against every lead, one call at a time. A failed
+   * generation or missing recording fails that cell only.
+   */
+  async run(options: EvaluationOptions): Promise<EvaluationReport> {
+    const { candidates, mode, modelId, lintConfig, caseStudies, fewShotExamples, sender, onProgress } = options
+    const leads = options.leads || GOLDEN_LEADS
+    if (mode === 'replay' && !options.recording) {
+      throw new Error('Replay needs a recording of an earlier run')
+    }
+
+    const recording: EvaluationRecording = {
+      recordedAt: mode === 'replay' ? options.recording!.recordedAt : new Date().toISOString(),
+      modelId: mode === 'replay' ? options.recording!.modelId : modelId,
+      outputs: {},
+    }
+    const cells: EvaluationCell[] = []
+    const total = candidates.length * leads.length
+
+    for (const candidate of candidates) {
+      const templates = new TemplateService()
+      templates.setTemplate(candidate.template)
+      templates.setCaseStudies(caseStudies || [])
+      templates.setFewShotExamples(fewShotExamples || [])
+      recording.outputs[candidate.id] = {}
+
+      for (const lead of leads) {
+        const cell: EvaluationCell = { candidateId: candidate.id, leadId: lead.id }
+        const startTime = Date.now()
+
+        try {
+          const leadData = lead.lead.sender === undefined && sender ? { ...lead.lead, sender } : lead.lead
+          const prompt = templates.generatePromptParts(leadData, candidate.template.name)
+          let output: RecordedOutput
+          if (mode === 'replay') {
+            const recorded = options.recording!.outputs[candidate.id]?.[lead.id]
+            if (!recorded) {
+              throw new Error('No recorded output for this prompt and lead')
+            }
+            output = recorded
+            cell.stale = recorded.prompt !== promptText(prompt) || (recorded.systemPrompt || '') !== (candidate.systemPrompt || '')
+          } else {
+            output = {
+              content: await this.generate({ candidate, lead, prompt, modelId }),
+              prompt: promptText(prompt),
+              systemPrompt: candidate.systemPrompt,
+            }
+          }
+          recording.outputs[candidate.id][lead.id] = output
+
+          const { plainText, score } = scoreOutput(output.content, candidate.template, lead.lead, lintConfig, caseStudies)
+          cell.content = plainText
+          cell.score = score
+        } catch (error) {
+          cell.error = error instanceof Error ? error.message : String(error)
+        }
+
+        cell.durationMs = Date.now() - startTime
+        cells.push(cell)
+        onProgress?.(cells.length, total)
+      }
+    }
+
+    return {
+      mode,
+      candidates,
+      leads,
+      cells,
+      summaries: summarize(candidates, cells),
+      recording,
+    }
+  }
+}
@@ -2,6 +2,11 @@ import type { LeadData } from './templateService'
 import type { ClaudeResponse } from './claudeService'
 import { detectTimezone } from '@/utils/timezoneDetector'
 import { ensureHtml } from '@/utils/htmlConverter'
+import {
+  DEFAULT_SEQUENCE,
+  emptySnippets,
+  snippetField,
+} from '@/utils/sequenceDefinition'
 
 export interface EmailTemplate {
   step: number
@@ -180,13 +185,7 @@ All the best,
       timezone: detectedTimezone || 'UTC',
       tags: leadData.tags || this.generateTags(leadData),
       industry: leadData.industry,
-      snippet1: '',
-      snippet2: '',
-      snippet3: '',
-      snippet4: '',
-      snippet5: '',
-      snippet6: '',
-      snippet7: '',
+      ...emptySnippets(DEFAULT_SEQUENCE),
     }
 
     // Generate each snippet by substituting variables in templates
@@ -216,13 +215,13 @@ All the best,
       }
     })
 
-    // Ensure we have all 7 snippets (pad with empty if needed)
-    for (let i = 1; i <= 7; i++) {
-      const snippetKey = `snippet${i}`
+    // The built-in steps follow the default sequence; pad any it does not cover
+    DEFAULT_SEQUENCE.forEach((touchpoint) => {
+      const snippetKey = snippetField(touchpoint.slot)
       if (!content[snippetKey]) {
-        content[snippetKey] = `<div>Step ${i} content not available</div>`
+        content[snippetKey] = `<div>Step ${touchpoint.slot} content not available</div>`
       }
-    }
+    })
 
     console.log(
       '✅ [TemplateBasedService] Generated',
@@ -1,4 +1,18 @@
 import emailSequenceTemplate from '../templates/emailSequencePrompt.json'
+import {
+  DEFAULT_SEQUENCE,
+  describeSequence,
+  snippetField,
+} from '@/utils/sequenceDefinition'
+import type { SequenceTouchpoint } from '@/utils/sequenceDefinition'
+import { proofPointsForIndustry } from '@/utils/proofValidator'
+import { selectFewShotExamples } from '@/utils/fewShotSelector'
+import type {
+  CaseStudyRecord,
+  FewShotExampleRecord,
+  PromptTemplateWithVersion,
+  SenderProfileRecord,
+} from '@/types/api'
 
 export interface TemplateVariable {
   name: string
@@ -10,7 +24,11 @@ export interface Template {
   description: string
   template: string
   variables: string[]
-  expectedOutputs: string[]
+  // Touchpoints the template writes, each stored in its own snippet slot
+  sequence: SequenceTouchpoint[]
+  // Set for templates from the prompt template library
+  id?: number // prompt_template_versions id, stored with generated content
+  version?: number
 }
 
 export interface LeadData {
@@ -26,6 +44,24 @@ export interface LeadData {
   country?: string
   tags?: string
   custom_prompt?: string
+  sender?: SenderProfileRecord | null // who the sequence is sent from
+}
+
+// Sender profile fields every template can use, empty when no sender is set
+export const SENDER_VARIABLES = [
+  'sender_name',
+  'sender_title',
+  'sender_calendar_link',
+  'sender_tone',
+] as const
+
+// A filled-in template split for prompt caching: promptPrefix holds the
+// paragraphs without variables, prompt the lead details and user context
+export interface TemplatePromptParts {
+  promptPrefix: string
+  prompt: string
+  templateId?: number
+  sequence: SequenceTouchpoint[]
 }
 
 export class TemplateValidationError extends Error {
@@ -40,6 +76,8 @@ export class TemplateValidationError extends Error {
 
 export class TemplateService {
   private templates: Map<string, Template> = new Map()
+  private caseStudies: CaseStudyRecord[] = []
+  private fewShotExamples: FewShotExampleRecord[] = []
 
   constructor() {
     this.loadTemplates()
@@ -47,7 +85,85 @@ export class TemplateService {
 
   private loadTemplates(): void {
     // Load the email sequence template
-    this.templates.set('email-sequence', emailSequenceTemplate as Template)
+    this.templates.set('email-sequence', {
+      ...emailSequenceTemplate,
+      sequence: DEFAULT_SEQUENCE,
+    })
+  }
+
+  /**
+   * Register the latest version of every template in the prompt template
+   * library, replacing the bundled copy of the same name. The bundled
+   * templates stay in use if the library cannot be read.
+   */
+  async loadFromDatabase(): Promise<void> {
+    const response = await window.api.promptTemplates.getAll()
+    if (!response.success) {
+      console.error('Failed to load prompt templates:', response.error)
+      return
+    }
+
+    response.data.forEach((record) => this.registerTemplate(record))
+  }
+
+  // Use the latest version of a library template from now on
+  registerTemplate(record: PromptTemplateWithVersion): void {
+    this.setTemplate({
+      name: record.name,
+      description: record.description || '',
+      template: record.current.template,
+      variables: record.current.variables,
+      sequence: record.current.sequence || DEFAULT_SEQUENCE,
+      id: record.current.id,
+      version: record.current.version,
+    })
+  }
+
+  // Add or replace a template under its name, e.g. a version being evaluated
+  setTemplate(template: Template): void {
+    this.templates.set(template.name, template)
+  }
+
+  /**
+   * Load the case-study library that peer proof in prompts is drawn from.
+   * Until it loads, prompts ask for no customer names or statistics at all.
+   */
+  async loadCaseStudies(): Promise<void> {
+    const response = await window.api.caseStudies.getAll()
+    if (!response.success) {
+      console.error('Failed to load case studies:', response.error)
+      return
+    }
+
+    this.setCaseStudies(response.data)
+  }
+
+  // Use this library from now on, e.g. after it is edited
+  setCaseStudies(records: CaseStudyRecord[]): void {
+    this.caseStudies = records
+  }
+
+  /**
+   * Load the approved sequences prompts draw examples from. Until they load,
+   * or when none match a lead, prompts carry no examples.
+   */
+  async loadFewShotExamples(): Promise<void> {
+    const response = await window.api.fewShotExamples.getAll()
+    if (!response.success) {
+      console.error('Failed to load few-shot examples:', response.error)
+      return
+    }
+
+    this.setFewShotExamples(response.data)
+  }
+
+  // Use these examples from now on, e.g. after one is pinned or retired
+  setFewShotExamples(records: FewShotExampleRecord[]): void {
+    this.fewShotExamples = records
+  }
+
+  unregisterTemplate(name: string): void {
+    this.templates.delete(name)
   }
 
   getTemplate(name: string): Template | null {
@@ -58,6 +174,10 @@ export class TemplateService {
     return Array.from(this.templates.values())
   }
 
+  getSequence(templateName: string = 'email-sequence'): SequenceTouchpoint[] {
+    return this.getTemplate(templateName)?.sequence || DEFAULT_SEQUENCE
+  }
+
   validateLeadData(
     leadData: LeadData,
     templateName: string = 'email-sequence'
@@ -71,10 +191,8 @@ export class TemplateService {
     const requiredFields = template.variables
 
     for (const field of requiredFields) {
-      if (
-        !leadData[field as keyof LeadData] ||
-        leadData[field as keyof LeadData]?.trim() === ''
-      ) {
+      const value = leadData[field as keyof LeadData]
+      if (typeof value !== 'string' || value.trim() === '') {
         missingFields.push(field)
       }
     }
@@ -93,7 +211,7 @@ export class TemplateService {
     // Replace all template variables with actual data
     Object.entries(leadData).forEach(([key, value]) => {
       const regex = new RegExp(`\\{\\{${key}\\}\\}`, 'g')
-      result = result.replace(regex, value || '')
+      result = result.replace(regex, typeof value === 'string' ? value : '')
     })
 
     // Check for any remaining unsubstituted variables
@@ -122,14 +240,20 @@ export class TemplateService {
       throw new TemplateValidationError(`Template '${templateName}' not found`)
     }
 
-    // Add tags if not present
-    const enrichedLeadData = {
-      ...leadData,
-      tags: leadData.tags || this.generateTags(leadData),
-    }
-
     // Get the base prompt from template
-    let prompt = this.substituteVariables(template.template, enrichedLeadData)
+    let prompt = this.withSender(
+      this.withExamples(
+        this.withPeerProof(
+          this.substituteVariables(
+            this.withSequenceOutline(template.template, template),
+            this.promptVariables(leadData)
+          ),
+          leadData.industry
+        ),
+        leadData
+      ),
+      leadData.sender
+    )
     console.log('🔧 [DEBUG - TemplateService] Base template prompt generated:')
     console.log('🔧 [DEBUG] Base template length:', prompt.length, 'chars')
     console.log('🔧 [DEBUG] Base template preview:', prompt.substring(0, 300) + '...')
@@ -152,7 +276,7 @@ export class TemplateService {
 
       // Add the custom prompt as high-priority context at the beginning
       const originalPromptLength = prompt.length
-      prompt = `**IMPORTANT CONTEXT FROM USER:**\n${customPrompt}\n\n**USE THE ABOVE CONTEXT TO PERSONALIZE THE EMAIL SEQUENCE**\n\n${prompt}`
+      prompt = this.withCustomContext(prompt, customPrompt)
 
       console.log('✅ [TemplateService] Custom prompt added to template')
       console.log(
@@ -179,6 +303,116 @@ export class TemplateService {
     return prompt
   }
 
+  /**
+   * Same prompt as generatePrompt, with the template paragraphs that contain
+   * no variables moved into promptPrefix. The prefix is identical for every
+   * lead, so it can be sent first and served from the prompt cache.
+   */
+  generatePromptParts(
+    leadData: LeadData,
+    templateName: string = 'email-sequence'
+  ): TemplatePromptParts {
+    this.validateLeadData(leadData, templateName)
+
+    const template = this.getTemplate(templateName)
+    if (!template) {
+      throw new TemplateValidationError(`Template '${templateName}' not found`)
+    }
+
+    const paragraphs = this.withSequenceOutline(template.template, template).split(/\n{2,}/)
+    const isFixed = (paragraph: string) => !/\{\{[^}]+\}\}/.test(paragraph)
+
+    let prompt = this.withSender(
+      this.withExamples(
+        this.withPeerProof(
+          this.substituteVariables(
+            paragraphs.filter((paragraph) => !isFixed(paragraph)).join('\n\n'),
+            this.promptVariables(leadData)
+          ),
+          leadData.industry
+        ),
+        leadData
+      ),
+      leadData.sender
+    )
+
+    const customPrompt = leadData.custom_prompt?.trim()
+    if (customPrompt) {
+      prompt = this.withCustomContext(prompt, customPrompt)
+    }
+
+    return {
+      promptPrefix: paragraphs.filter(isFixed).join('\n\n'),
+      prompt,
+      templateId: template.id,
+      sequence: template.sequence,
+    }
+  }
+
+  // The bundled prompt already spells out the default sequence; templates
+  // with their own sequence get an outline of it so the prompt asks for it
+  private withSequenceOutline(prompt: string, template: Template): string {
+    if (template.sequence === DEFAULT_SEQUENCE) return prompt
+    return `${prompt}\n\n${describeSequence(template.sequence)}`
+  }
+
+  // Lead fields plus generated tags and the sender variables
+  private promptVariables(leadData: LeadData): LeadData & Record<(typeof SENDER_VARIABLES)[number], string> {
+    const { sender, ...lead } = leadData
+    return {
+      ...lead,
+      tags: lead.tags || this.generateTags(leadData),
+      sender_name: sender?.name || '',
+      sender_title: sender?.title || '',
+      sender_calendar_link: sender?.calendar_link || '',
+      sender_tone: sender?.tone_notes || '',
+    }
+  }
+
+  // Who Claude writes as; the signature is added at conversion, so the
+  // emails are asked to stop before any sign-off
+  private withSender(prompt: string, sender?: SenderProfileRecord | null): string {
+    if (!sender) return prompt
+
+    const lines = [`Write as ${sender.name}${sender.title ? `, ${sender.title}` : ''}.`]
+    if (sender.tone_notes) lines.push(`Tone: ${sender.tone_notes}`)
+    if (sender.calendar_link) lines.push(`When suggesting a call, offer this booking link: ${sender.calendar_link}`)
+    lines.push("End each email before the sign-off; the sender's signature is added automatically.")
+    return `${prompt}\n\n**SENDER:**\n${lines.join('\n')}`
+  }
+
+  // The library entries for the lead's industry are the only peer proof the
+  // sequence may use; with none, it has to make its case without any
+  private withPeerProof(prompt: string, industry?: string): string {
+    const proofPoints = proofPointsForIndustry(this.caseStudies, industry)
+    if (proofPoints.length === 0) {
+      return `${prompt}\n\n**PEER PROOF LIBRARY:**\nNo case studies are approved for this industry. Do not name any customer or quote any result or statistic; make the case from the prospect's own situation instead.`
+    }
+
+    const entries = proofPoints.map((point) => {
+      const metric = point.metric ? ` Result: ${point.metric}.` : ''
+      return `- ${point.customer}${point.industry ? ` (${point.industry})` : ''}: ${point.wording}${metric}`
+    })
+    return `${prompt}\n\n**PEER PROOF LIBRARY:**\nFor peer proof, reference only these customers and results, keeping to the approved wording. Do not name any other company or quote any other statistic.\n${entries.join('\n')}`
+  }
+
+  // Sequences the team approved unedited for similar leads, as a model for
+  // tone, length and structure; their facts belong to other prospects
+  private withExamples(prompt: string, leadData: LeadData): string {
+    const examples = selectFewShotExamples(this.fewShotExamples, leadData)
+    if (examples.length === 0) return prompt
+
+    const entries = examples.map((example, index) => {
+      const who = [example.title, example.industry].filter(Boolean).join(', ')
+      return `Example ${index + 1}${who ? ` (${who})` : ''}:\n${JSON.stringify(example.snippets, null, 2)}`
+    })
+    return `${prompt}\n\n**APPROVED EXAMPLES:**\nThe team approved these sequences for similar prospects without changing a word. Match their tone, length and structure, but do not reuse their names, companies, facts or claims.\n\n${entries.join('\n\n')}`
+  }
+
+  private withCustomContext(prompt: string, customPrompt: string): string {
+    return `**IMPORTANT CONTEXT FROM USER:**\n${customPrompt}\n\n**USE THE ABOVE CONTEXT TO PERSONALIZE THE EMAIL SEQUENCE**\n\n${prompt}`
+  }
+
   private generateTags(leadData: LeadData): string {
     const tags = []
 
@@ -221,18 +455,21 @@ export class TemplateService {
     return tags.join(' ') || '#Professional'
   }
 
+  // Pass a sequence to check content written for a layout other than the template's own
   validateGeneratedContent(
     content: Record<string, unknown>,
-    templateName: string = 'email-sequence'
+    templateName: string = 'email-sequence',
+    sequence?: SequenceTouchpoint[]
   ): boolean {
     const template = this.getTemplate(templateName)
     if (!template) {
       return false
     }
+    const touchpoints = sequence || template.sequence
 
-    // Check if all expected outputs are present
-    for (const expectedOutput of template.expectedOutputs) {
-      if (!content[expectedOutput]) {
+    // Check every touchpoint of the sequence was written
+    for (const { slot } of touchpoints) {
+      if (!content[snippetField(slot)]) {
         return false
       }
     }
@@ -249,13 +486,9 @@ export class TemplateService {
     // }
 
     // Check HTML snippets contain proper HTML formatting (div, ul, or br tags)
-    const htmlSnippets = [
-      'snippet2',
-      'snippet4',
-      'snippet5',
-      'snippet6',
-      'snippet7',
-    ]
+    const htmlSnippets = touchpoints
+      .filter((touchpoint) => touchpoint.format === 'html')
+      .map((touchpoint) => snippetField(touchpoint.slot))
     for (const snippetKey of htmlSnippets) {
       const value = content[snippetKey]
       if (typeof value === 'string') {
@@ -60,7 +60,7 @@ interface ExportProgress {
   total: number;
   succeeded: number;
   failed: number;
-  status: 'pending' | 'processing' | 'completed' | 'error';
+  status: 'pending' | 'processing' | 'completed' | 'error' | 'cancelled';
   errors: Array<{ email: string; error: string }>;
 }
 
@@ -334,11 +334,20 @@ class WoodpeckerService {
     // Check if running in Electron - use IPC bridge
     if (typeof window !== 'undefined' && window.api && this.apiKey === 'ELECTRON_IPC') {
       console.log('🔗 WoodpeckerService.addProspectsToCampaign: Using IPC bridge to main process');
+      // Subscribe before invoking so no batch update is missed
+      const operationId = `woodpecker:addProspects:${crypto.randomUUID()}`;
+      const subscriptionId = onProgress
+        ? window.api.progress.subscribe(update => {
+            if (update.data) onProgress(update.data as ExportProgress);
+          }, operationId)
+        : null;
+
       try {
         const result = await window.api.woodpecker.addProspects({
           prospects,
           campaignId,
-          force: false
+          force: false,
+          operationId
         });
 
         if (result.success) {
@@ -349,6 +358,10 @@ class WoodpeckerService {
       } catch (error) {
         console.error('❌ WoodpeckerService.addProspectsToCampaign: IPC call failed:', error);
         throw error;
+      } finally {
+        if (subscriptionId !== null) {
+          window.api.progress.unsubscribe(subscriptionId);
+        }
       }
     }
 
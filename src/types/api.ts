@@ -11,11 +11,41 @@ export type {
   BulkLeadData,
   GeneratedContentRecord,
   ContentFilters,
+  SnippetVariantsInput,
+  KeptVariant,
+  TouchpointApproval,
   MappingRecord,
   MappingFilters,
   BulkMappingData,
   AppMetadataRecord,
   MetadataFilters,
+  CampaignSyncRecord,
+  ExportJobRecord,
+  ExportJobProgress,
+  GenerationBatchRecord,
+  GenerationBatchProgress,
+  GenerationUsageRecord,
+  UsageSummaryGrouping,
+  UsageSummaryRow,
+  UsageFilters,
+  PromptTemplateRecord,
+  PromptTemplateVersionRecord,
+  PromptTemplateWithVersion,
+  PromptTemplateInput,
+  ContentRevisionRecord,
+  RevisionSource,
+  RevisionInfo,
+  EditMetricsGrouping,
+  EditMetricsRow,
+  SnippetEditMetric,
+  CaseStudyRecord,
+  CaseStudyInput,
+  SenderProfileRecord,
+  SenderProfileInput,
+  GenerationRunRecord,
+  GenerationRunStatus,
+  FewShotExampleRecord,
+  FewShotExampleStatus,
   ImportWithStats,
   LeadWithContent,
   LeadWithImport,
@@ -25,6 +55,10 @@ export type {
   PaginationOptions
 } from '../database/dal';
 
+// Spend caps and budget checks
+export type { SpendBudgets } from '../main/services/settingsService';
+export type { BudgetStatus, BudgetCheck, BudgetCapStatus, ImportBudgetStatus } from '../main/services/budgetService';
+
 // Helper type for API responses
 export type ApiResult<T> = {
   success: true;
@@ -17,6 +17,13 @@ export type LeadStatus =
   | 'exported'
   | 'failed'
   | 'deleted'
+  // Post-export engagement, synced from Woodpecker
+  | 'opened'
+  | 'replied'
+  | 'bounced'
+  | 'interested'
+  | 'autoreplied'
+  | 'blacklisted'
 
 export interface LeadData {
   id: string
@@ -8,6 +8,7 @@ import {
   validatePlainText,
   convertFromHtmlContent,
   convertToHtmlContent,
+  withSignature,
   type PlainTextContent
 } from '../contentConverter'
 
@@ -225,6 +226,39 @@ describe('contentConverter', () => {
       expect(result.company).toBe('')
       expect(result.snippet1).toBe('Subject')
     })
+
+    it('should sign every email body with the sender signature', () => {
+      const plainTextContent: PlainTextContent = {
+        snippet1: 'Subject',
+        snippet2: 'Hi John,\n\nWorth a chat?\n\nBest,\nSarah',
+        snippet3: 'LinkedIn',
+        snippet4: 'Bump',
+        snippet5: 'Follow-up',
+        snippet6: 'Second bump',
+        snippet7: 'Breakup',
+      }
+      const sender = { name: 'Dana Reyes', title: 'Head of Partnerships' }
+
+      const result = convertToHtmlContent(plainTextContent, {}, undefined, sender)
+
+      expect(result.snippet1).toBe('Subject')
+      expect(result.snippet2).toBe(
+        '<div>Hi John,</div><div><br></div><div>Worth a chat?</div><div><br></div><div>Best,</div><div>Dana Reyes</div><div>Head of Partnerships</div>'
+      )
+      expect(result.snippet3).toBe('LinkedIn')
+      expect(result.snippet4).toBe('<div>Bump</div><div><br></div><div>Best,</div><div>Dana Reyes</div><div>Head of Partnerships</div>')
+    })
+  })
+
+  describe('withSignature', () => {
+    it('should not sign twice when converted content is converted again', () => {
+      const sender = { name: 'Dana', signature: '— Dana\nmakeshapes.com' }
+      const signed = withSignature('Hi John,\n\nWorth a chat?', sender)
+
+      expect(signed).toBe('Hi John,\n\nWorth a chat?\n\n— Dana\nmakeshapes.com')
+      expect(withSignature(signed, sender)).toBe(signed)
+      expect(withSignature('', sender)).toBe('')
+    })
   })
 
   describe('integration tests', () => {
@@ -0,0 +1,118 @@
+import { describe, it, expect } from 'vitest'
+import {
+  DEFAULT_LINT_CONFIG,
+  lintContent,
+  lintSnippet,
+  resolveLintConfig,
+} from '../contentLinter'
+import { DEFAULT_SEQUENCE, emptySnippets } from '../sequenceDefinition'
+
+const [subject, body] = DEFAULT_SEQUENCE
+const lead = { first_name: 'Jane', company: 'Acme' }
+
+describe('lintSnippet', () => {
+  it('should pass a personal, plain body', () => {
+    expect(lintSnippet('Hi Jane, saw Acme is hiring engineers. Worth a chat?', body, lead)).toEqual([])
+  })
+
+  it('should flag spam words, links, caps and exclamation marks', () => {
+    const issues = lintSnippet(
+      'Hi Jane! Act now, this is URGENT and risk-free! See https://a.com and www.b.com',
+      body,
+      lead
+    )
+
+    expect(issues.map((issue) => issue.rule)).toEqual(['spamWords', 'links', 'allCaps', 'exclamations'])
+    expect(issues[0].message).toBe('Spam trigger words: act now, risk-free, urgent')
+    expect(issues.every((issue) => issue.severity === 'warning')).toBe(true)
+  })
+
+  it('should flag bodies that mention neither the first name nor the company', () => {
+    expect(lintSnippet('Hi there, quick question about hiring.', body, lead)).toEqual([
+      expect.objectContaining({ rule: 'personalization', field: 'snippet2' }),
+    ])
+    expect(lintSnippet('Hi there, quick question about hiring.', body)).toEqual([])
+  })
+
+  it('should report unresolved variables unless Woodpecker fills them in', () => {
+    const text = 'Hi {{FIRST_NAME}}, how is {{company}} doing?'
+
+    expect(lintSnippet(text, body, lead)).toEqual([
+      expect.objectContaining({ rule: 'personalization' }),
+      {
+        field: 'snippet2',
+        rule: 'unresolvedVariables',
+        severity: 'error',
+        message: 'Unresolved {{FIRST_NAME}}, {{company}}',
+      },
+    ])
+
+    const config = resolveLintConfig({ unresolvedVariables: { allowed: ['first_name', 'COMPANY'] } })
+    expect(lintSnippet(text, body, {}, config)).toEqual([])
+  })
+
+  it('should flag bodies above the reading level', () => {
+    const dense =
+      'Organizational transformation initiatives necessitate comprehensive evaluation of interdepartmental communication infrastructure, ' +
+      'particularly regarding operational efficiency considerations and administrative responsibilities across geographically distributed ' +
+      'international subsidiaries, Jane, whenever implementation methodologies require substantial institutional reconfiguration.'
+
+    expect(lintSnippet(dense, body, lead).map((issue) => issue.rule)).toEqual(['readingLevel'])
+  })
+
+  it('should check subject line length', () => {
+    expect(lintSnippet('Hi', subject, lead)[0]).toEqual(
+      expect.objectContaining({ rule: 'subjectLength', message: 'Subject line is 2 characters; at least 20 reads better' })
+    )
+    expect(lintSnippet('Quick question about hiring at Acme', subject, lead)).toEqual([])
+  })
+
+  it('should skip disabled rules and use configured severities', () => {
+    const config = resolveLintConfig({
+      exclamations: { enabled: false },
+      allCaps: { severity: 'error' },
+    })
+
+    expect(lintSnippet('Hi Jane, this is HUGE!!', body, lead, config)).toEqual([
+      expect.objectContaining({ rule: 'allCaps', severity: 'error' }),
+    ])
+  })
+
+  it('should flag peer proof missing from the case-study library once it is loaded', () => {
+    const text = 'Hi Jane, we helped Globex cut onboarding time by 40% at Acme-sized teams.'
+    const caseStudies = [{ customer: 'Initech', wording: 'Initech onboarded faster.', metric: '35% faster onboarding' }]
+
+    expect(lintSnippet(text, body, lead)).toEqual([])
+    expect(lintSnippet(text, body, { ...lead, caseStudies })).toEqual([
+      {
+        field: 'snippet2',
+        rule: 'unverifiedClaims',
+        severity: 'error',
+        message: 'Customers not in the case-study library: Globex',
+      },
+      expect.objectContaining({ message: 'Statistics not in the case-study library: 40%' }),
+    ])
+  })
+})
+
+describe('lintContent', () => {
+  it('should lint every touchpoint and skip empty ones', () => {
+    const content = { ...emptySnippets(), snippet1: 'FREE GIFT inside', snippet2: 'Hi Jane, for free!' }
+
+    expect(lintContent(content, undefined, lead).map((issue) => [issue.field, issue.rule])).toEqual([
+      ['snippet1', 'spamWords'],
+      ['snippet1', 'allCaps'],
+      ['snippet1', 'subjectLength'],
+      ['snippet2', 'spamWords'],
+    ])
+  })
+})
+
+describe('resolveLintConfig', () => {
+  it('should fill in rules and settings missing from a saved config', () => {
+    const config = resolveLintConfig({ links: { max: 3 } })
+
+    expect(config.links).toEqual({ enabled: true, severity: 'warning', max: 3 })
+    expect(config.spamWords).toEqual(DEFAULT_LINT_CONFIG.spamWords)
+  })
+})
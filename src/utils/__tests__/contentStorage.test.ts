@@ -10,7 +10,9 @@ const mockApi = {
     create: vi.fn(),
     update: vi.fn(),
     delete: vi.fn(),
-    getByTouchpoint: vi.fn()
+    getByTouchpoint: vi.fn(),
+    saveSequence: vi.fn(),
+    updateStatus: vi.fn()
   }
 }
 
@@ -47,13 +49,18 @@ describe('contentStorage', () => {
   })
 
   describe('getLeadContent', () => {
-    it('should return content for a lead when API call succeeds', async () => {
-      const mockApiResponse: ApiResult<GeneratedContentRecord[]> = {
-        success: true,
-        data: [mockContentRecord]
-      }
+    it('should rebuild the sequence from its touchpoint rows', async () => {
+      const rows = Object.entries(mockClaudeResponse).map(([field, content], index) => ({
+        id: index + 1,
+        lead_id: 123,
+        touchpoint_number: index + 1,
+        content_type: 'email',
+        content,
+        snippet_field: field,
+        status: 'draft'
+      }))
 
-      mockApi.content.getByLead.mockResolvedValue(mockApiResponse)
+      mockApi.content.getByLead.mockResolvedValue(rows)
 
       const result = await contentStorage.getLeadContent('123')
 
@@ -61,6 +68,19 @@ describe('contentStorage', () => {
       expect(mockApi.content.getByLead).toHaveBeenCalledWith(123)
     })
 
+    it('should add kept B variants in their A/B slot but ignore other variants', async () => {
+      mockApi.content.getByLead.mockResolvedValue([
+        { id: 1, lead_id: 123, touchpoint_number: 2, content_type: 'email', content: 'Winner', snippet_field: 'snippet2', status: 'approved' },
+        { id: 2, lead_id: 123, touchpoint_number: 2, content_type: 'email', content: 'Winner', snippet_field: 'snippet2', variant_label: 'A', status: 'approved', exported_field: 'snippet2' },
+        { id: 3, lead_id: 123, touchpoint_number: 2, content_type: 'email', content: 'Challenger', snippet_field: 'snippet2', variant_label: 'B', status: 'approved', exported_field: 'snippet9' },
+        { id: 4, lead_id: 123, touchpoint_number: 2, content_type: 'email', content: 'Discarded', snippet_field: 'snippet2', variant_label: 'C', status: 'rejected' }
+      ])
+
+      const result = await contentStorage.getLeadContent('123')
+
+      expect(result).toEqual({ snippet2: 'Winner', snippet9: 'Challenger' })
+    })
+
     it('should return null when no content exists for lead', async () => {
       const mockApiResponse: ApiResult<GeneratedContentRecord[]> = {
         success: true,
@@ -144,24 +164,23 @@ describe('contentStorage', () => {
   })
 
   describe('persistContentToStorage', () => {
-    it('should persist content successfully', async () => {
-      const mockApiResponse: ApiResult<GeneratedContentRecord> = {
-        success: true,
-        data: mockContentRecord
-      }
+    it('should save one touchpoint per snippet of the sequence', async () => {
+      mockApi.content.saveSequence.mockResolvedValue([mockContentRecord])
 
-      mockApi.content.create.mockResolvedValue(mockApiResponse)
-
-      const result = await contentStorage.persistContentToStorage('123', mockClaudeResponse, 1)
+      const result = await contentStorage.persistContentToStorage('123', mockClaudeResponse, 5)
 
       expect(result).toBe(true)
-      expect(mockApi.content.create).toHaveBeenCalledWith({
-        lead_id: 123,
-        touchpoint: 1,
-        content_type: 'email_sequence',
-        content: mockClaudeResponse,
-        status: 'generated'
+      const [leadId, touchpoints, templateId] = mockApi.content.saveSequence.mock.calls[0]
+      expect(leadId).toBe(123)
+      expect(templateId).toBe(5)
+      expect(touchpoints).toHaveLength(7)
+      expect(touchpoints[0]).toEqual({
+        touchpoint_number: 1,
+        content_type: 'subject',
+        snippet_field: 'snippet1',
+        content: 'Test Subject Line'
       })
+      expect(touchpoints[2]).toEqual(expect.objectContaining({ content_type: 'linkedin', snippet_field: 'snippet3' }))
     })
 
     it('should return false when API call fails', async () => {
@@ -173,7 +192,7 @@ describe('contentStorage', () => {
         }
       }
 
-      mockApi.content.create.mockResolvedValue(mockApiResponse)
+      mockApi.content.saveSequence.mockResolvedValue(mockApiResponse)
 
       const result = await contentStorage.persistContentToStorage('123', mockClaudeResponse)
 
@@ -181,7 +200,7 @@ describe('contentStorage', () => {
     })
 
     it('should handle API call exceptions', async () => {
-      mockApi.content.create.mockRejectedValue(new Error('Network error'))
+      mockApi.content.saveSequence.mockRejectedValue(new Error('Network error'))
 
       const result = await contentStorage.persistContentToStorage('123', mockClaudeResponse)
 
@@ -305,12 +324,12 @@ describe('contentStorage', () => {
         data: { ...mockContentRecord, status: 'reviewed' }
       }
 
-      mockApi.content.update.mockResolvedValue(mockApiResponse)
+      mockApi.content.updateStatus.mockResolvedValue(mockApiResponse)
 
       const result = await contentStorage.updateContentStatus(1, 'reviewed')
 
       expect(result).toBe(true)
-      expect(mockApi.content.update).toHaveBeenCalledWith(1, { status: 'reviewed' })
+      expect(mockApi.content.updateStatus).toHaveBeenCalledWith(1, 'reviewed')
     })
 
     it('should return false when API call fails', async () => {
@@ -322,7 +341,7 @@ describe('contentStorage', () => {
         }
       }
 
-      mockApi.content.update.mockResolvedValue(mockApiResponse)
+      mockApi.content.updateStatus.mockResolvedValue(mockApiResponse)
 
       const result = await contentStorage.updateContentStatus(1, 'reviewed')
 
@@ -330,7 +349,7 @@ describe('contentStorage', () => {
     })
 
     it('should handle API call exceptions', async () => {
-      mockApi.content.update.mockRejectedValue(new Error('Network error'))
+      mockApi.content.updateStatus.mockRejectedValue(new Error('Network error'))
 
       const result = await contentStorage.updateContentStatus(1, 'reviewed')
 
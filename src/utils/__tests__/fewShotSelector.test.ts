@@ -0,0 +1,52 @@
+import { describe, it, expect } from 'vitest'
+import { selectFewShotExamples } from '../fewShotSelector'
+import type { FewShotExample } from '../fewShotSelector'
+
+const example = (lead_id: number, overrides: Partial<FewShotExample> = {}): FewShotExample => ({
+  lead_id,
+  email: `lead${lead_id}@example.com`,
+  industry: 'Retail',
+  title: 'Operations Manager',
+  status: 'auto',
+  snippets: { snippet1: `Subject ${lead_id}` },
+  ...overrides,
+})
+
+const ids = (examples: FewShotExample[]) => examples.map((selected) => selected.lead_id)
+
+describe('selectFewShotExamples', () => {
+  it('should prefer the same industry and title, then the most recent approval', () => {
+    const pool = [
+      example(1, { industry: 'Healthcare' }),
+      example(2, { title: 'CEO' }),
+      example(3),
+      example(4, { industry: 'retail ' }),
+      example(5, { industry: 'Finance', title: 'CFO' }),
+    ]
+
+    expect(ids(selectFewShotExamples(pool, { industry: 'Retail', title: 'Operations Manager' }))).toEqual([3, 4, 2])
+    expect(ids(selectFewShotExamples(pool, { industry: 'Retail', title: 'Operations Manager' }, 1))).toEqual([3])
+  })
+
+  it('should match titles written differently', () => {
+    const pool = [example(1, { industry: 'Finance', title: 'Vice President, Sales' })]
+
+    expect(ids(selectFewShotExamples(pool, { industry: 'Technology', title: 'VP of Sales' }))).toEqual([1])
+    expect(selectFewShotExamples(pool, { industry: 'Technology', title: 'VP of Marketing' })).toEqual([])
+  })
+
+  it('should put pinned examples first and never use excluded, retired or the lead itself', () => {
+    const pool = [
+      example(1),
+      example(2, { status: 'excluded' }),
+      example(3, { status: 'retired' }),
+      example(4, { industry: 'Healthcare', status: 'pinned' }),
+      example(5),
+    ]
+
+    expect(ids(selectFewShotExamples(pool, { industry: 'Retail', title: 'Operations Manager' }))).toEqual([4, 1, 5])
+    expect(
+      ids(selectFewShotExamples(pool, { industry: 'Retail', title: 'Operations Manager', email: 'LEAD1@example.com' }))
+    ).toEqual([4, 5])
+  })
+})
@@ -0,0 +1,62 @@
+import { describe, it, expect } from 'vitest'
+import { findUnverifiedClaims, proofPointsForIndustry } from '../proofValidator'
+
+const library = [
+  {
+    customer: 'Northwind Bank',
+    industry: 'Financial Services',
+    metric: '40% faster new hire ramp time',
+    wording: 'Northwind Bank onboarded 1,200 tellers in one quarter.',
+  },
+  { customer: 'Contoso', industry: null, metric: '3x course completion', wording: 'Contoso rolled it out company-wide.' },
+]
+
+describe('findUnverifiedClaims', () => {
+  it('should flag customers and statistics missing from the library', () => {
+    const text =
+      'We helped JPMorgan Chase reduce ramp time by 45% and saved $2.3M. ' +
+      "We've worked with Amazon, Google, and Meta, and institutions like Wells Fargo and Bank of America."
+
+    expect(findUnverifiedClaims(text, library)).toEqual({
+      companies: ['JPMorgan Chase', 'Amazon', 'Google', 'Meta', 'Wells Fargo', 'Bank of America'],
+      statistics: ['45%', '$2.3M'],
+    })
+  })
+
+  it('should pass claims from the library and facts about the lead', () => {
+    const text =
+      'We helped Northwind reach 40% faster ramp time for 1,200 tellers, and teams like Contoso saw 3x completion. ' +
+      "With Ally's plan to hire 2,000 people, a 15-minute call within 30 days could help."
+
+    expect(findUnverifiedClaims(text, library, ['Ally Financial', 'Ally is hiring 2,000 digital bankers'])).toEqual({
+      companies: [],
+      statistics: [],
+    })
+  })
+
+  it('should treat the lead as a known name when it follows a cue', () => {
+    expect(findUnverifiedClaims('Happy to work with Acme on this.', [], ['Acme']).companies).toEqual([])
+    expect(findUnverifiedClaims('Happy to work with Acme on this.', []).companies).toEqual(['Acme'])
+  })
+
+  it('should not let an inactive case study back a claim', () => {
+    const retired = [{ ...library[0], active: false }]
+
+    expect(findUnverifiedClaims('We helped Northwind Bank reach 40% faster ramp time.', retired)).toEqual({
+      companies: ['Northwind Bank'],
+      statistics: ['40%'],
+    })
+  })
+})
+
+describe('proofPointsForIndustry', () => {
+  it('should offer industry matches first, then proof points for every industry', () => {
+    const inactive = { ...library[0], customer: 'Adatum', active: false }
+
+    expect(proofPointsForIndustry([library[1], library[0], inactive], 'financial services ').map((point) => point.customer)).toEqual([
+      'Northwind Bank',
+      'Contoso',
+    ])
+    expect(proofPointsForIndustry(library, 'Retail').map((point) => point.customer)).toEqual(['Contoso'])
+  })
+})
@@ -0,0 +1,90 @@
+import { describe, it, expect } from 'vitest'
+import {
+  DEFAULT_SEQUENCE,
+  describeSequence,
+  emptySnippets,
+  toCampaignSequence,
+  toTouchpointContent,
+  validateSequenceDefinition,
+  variantFields,
+  type SequenceTouchpoint,
+} from '../sequenceDefinition'
+
+const shortSequence: SequenceTouchpoint[] = [
+  { slot: 1, label: 'Subject', channel: 'email', part: 'subject', dayOffset: 0, format: 'text', maxLength: 60, instructions: 'Subject line' },
+  { slot: 2, label: 'Intro', channel: 'email', part: 'body', dayOffset: 0, format: 'html', instructions: 'Intro email' },
+  { slot: 3, label: 'LinkedIn', channel: 'linkedin', part: 'body', dayOffset: 2, format: 'text', instructions: 'Connection note' },
+  { slot: 9, label: 'Breakup', channel: 'email', part: 'body', dayOffset: 10, format: 'html', instructions: 'Breakup email' },
+]
+
+describe('sequenceDefinition', () => {
+  it('should accept the default and a shorter custom sequence', () => {
+    expect(validateSequenceDefinition(DEFAULT_SEQUENCE)).toEqual([])
+    expect(validateSequenceDefinition(shortSequence)).toEqual([])
+  })
+
+  it('should report reused slots, out-of-order days and orphan subject lines', () => {
+    const errors = validateSequenceDefinition([
+      { ...shortSequence[0], dayOffset: 5 },
+      { ...shortSequence[2], slot: 1, dayOffset: 3 },
+    ])
+
+    expect(errors).toEqual([
+      'Subject must be followed by the email body it belongs to',
+      'LinkedIn uses snippet1, which another touchpoint already uses',
+      'LinkedIn comes before the previous touchpoint; keep touchpoints in day order',
+    ])
+    expect(validateSequenceDefinition([])).toEqual(['A sequence needs at least one touchpoint'])
+  })
+
+  it('should pair subject lines with their email body as campaign steps', () => {
+    expect(toCampaignSequence(shortSequence)).toEqual([
+      { day: 0, channel: 'email', subject: 'snippet1', body: 'snippet2' },
+      { day: 2, channel: 'linkedin', body: 'snippet3' },
+      { day: 10, channel: 'email', body: 'snippet9' },
+    ])
+    expect(toCampaignSequence(null)).toHaveLength(6)
+  })
+
+  it('should only create the fields the sequence defines', () => {
+    expect(emptySnippets(shortSequence)).toEqual({ snippet1: '', snippet2: '', snippet3: '', snippet9: '' })
+    expect(describeSequence(shortSequence)).toContain('- snippet9: Breakup, day 10 email (paragraphs). Breakup email')
+  })
+
+  it('should give A/B tested touchpoints a second step version from their variant slot', () => {
+    const abSequence = [{ ...shortSequence[0], variantSlot: 10 }, ...shortSequence.slice(1)]
+
+    expect(validateSequenceDefinition(abSequence)).toEqual([])
+    expect(variantFields(abSequence)).toEqual([{ field: 'snippet1', variantField: 'snippet10' }])
+    expect(toCampaignSequence(abSequence)[0]).toEqual({
+      day: 0,
+      channel: 'email',
+      subject: 'snippet1',
+      body: 'snippet2',
+      variant: { subject: 'snippet10', body: 'snippet2' },
+    })
+    expect(toCampaignSequence(abSequence)[1].variant).toBeUndefined()
+  })
+
+  it('should report variant slots that are already in use', () => {
+    const errors = validateSequenceDefinition([
+      { ...shortSequence[0], variantSlot: 3 },
+      ...shortSequence.slice(1),
+    ])
+
+    expect(errors).toEqual(['Subject keeps its variant in snippet3, which is already in use'])
+  })
+
+  it('should split snippets into touchpoints in sequence order, skipping empty ones', () => {
+    const touchpoints = toTouchpointContent(
+      { snippet1: 'Hi', snippet2: '<div>Intro</div>', snippet3: '  ', snippet9: 'Bye', snippet10: 'Unused' },
+      shortSequence
+    )
+
+    expect(touchpoints).toEqual([
+      { touchpoint_number: 1, content_type: 'subject', snippet_field: 'snippet1', content: 'Hi' },
+      { touchpoint_number: 2, content_type: 'email', snippet_field: 'snippet2', content: '<div>Intro</div>' },
+      { touchpoint_number: 4, content_type: 'email', snippet_field: 'snippet9', content: 'Bye' },
+    ])
+  })
+})
@@ -0,0 +1,34 @@
+import { describe, it, expect } from 'vitest'
+import { calculatePrice, calculateUsageCost } from '../tokenCounter'
+
+describe('calculateUsageCost', () => {
+  const model = 'claude-sonnet-4-20250514'
+
+  it('should match calculatePrice for plain input and output tokens', () => {
+    const usage = { input_tokens: 12000, output_tokens: 3000 }
+
+    expect(calculateUsageCost(usage, model)).toBeCloseTo(calculatePrice(12000, 3000, model).totalCost)
+  })
+
+  it('should price cache writes and reads against the input rate', () => {
+    const usage = {
+      input_tokens: 0,
+      output_tokens: 0,
+      cache_creation_input_tokens: 1_000_000,
+      cache_read_input_tokens: 1_000_000,
+    }
+
+    // $3.00 input: writes at 1.25x, reads at 0.1x
+    expect(calculateUsageCost(usage, model)).toBeCloseTo(3.75 + 0.3)
+  })
+
+  it('should halve the cost of batch requests', () => {
+    const usage = { input_tokens: 1_000_000, output_tokens: 1_000_000 }
+
+    expect(calculateUsageCost(usage, model, { batch: true })).toBeCloseTo(9)
+  })
+
+  it('should return 0 for unknown models', () => {
+    expect(calculateUsageCost({ input_tokens: 100, output_tokens: 100 }, 'unknown-model')).toBe(0)
+  })
+})
@@ -0,0 +1,38 @@
+import { describe, it, expect } from 'vitest'
+import { diffWords, wordEditDistance } from '../wordDiff'
+
+describe('diffWords', () => {
+  it('should mark replaced words and keep the unchanged ones', () => {
+    expect(diffWords('Quick call next week?', 'Quick chat next Tuesday?')).toEqual([
+      { type: 'same', text: 'Quick ' },
+      { type: 'removed', text: 'call' },
+      { type: 'added', text: 'chat' },
+      { type: 'same', text: ' next ' },
+      { type: 'removed', text: 'week?' },
+      { type: 'added', text: 'Tuesday?' },
+    ])
+  })
+
+  it('should rebuild both texts from the parts', () => {
+    const before = 'Hi Jane,\n\nLoved your talk on pricing.'
+    const after = 'Hi Jane,\n\nI loved your talk on usage pricing.'
+    const parts = diffWords(before, after)
+
+    expect(parts.filter((part) => part.type !== 'added').map((part) => part.text).join('')).toBe(before)
+    expect(parts.filter((part) => part.type !== 'removed').map((part) => part.text).join('')).toBe(after)
+  })
+
+  it('should treat a first version as all added', () => {
+    expect(diffWords('', 'Hello there')).toEqual([{ type: 'added', text: 'Hello there' }])
+  })
+})
+
+describe('wordEditDistance', () => {
+  it('should count removed and added words', () => {
+    expect(wordEditDistance('Quick call next week?', 'Quick chat next Tuesday?')).toBe(4)
+  })
+
+  it('should ignore whitespace-only changes', () => {
+    expect(wordEditDistance('Hi Jane,\nthanks', 'Hi Jane, thanks')).toBe(0)
+  })
+})
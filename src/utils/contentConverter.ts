@@ -4,17 +4,12 @@
  */
 
 import { detectTimezone } from './timezoneDetector'
+import { resolveSequence, snippetField } from './sequenceDefinition'
+import type { SequenceSnippets, SequenceTouchpoint } from './sequenceDefinition'
 import type { ClaudeResponse } from '@/services/claudeService'
 
-export interface PlainTextContent {
-  snippet1: string // Subject line (plain text, no line breaks)
-  snippet2: string // Day 1 Email body (plain text with line breaks)
-  snippet3: string // LinkedIn message (plain text, no line breaks)
-  snippet4: string // Day 7 Bump email (plain text with line breaks)
-  snippet5: string // Day 12 Email (plain text with line breaks)
-  snippet6: string // Day 17 Bump email (plain text with line breaks)
-  snippet7: string // Day 25 Breakup email (plain text with line breaks)
-}
+// Plain text of each touchpoint, keyed by its snippet field
+export type PlainTextContent = SequenceSnippets
 
 export interface LightValidationResult {
   isValid: boolean
@@ -116,86 +111,42 @@ export function plainTextToHtml(text: string): string {
 
 /**
  * Light validation for plain text content
- * Validates character counts and required fields
+ * Checks every touchpoint of the sequence against its length guidelines;
+ * plain text touchpoints (subject, LinkedIn) must stay on one line
  */
 export function validatePlainText(
-  content: PlainTextContent
+  content: PlainTextContent,
+  sequence?: SequenceTouchpoint[] | null
 ): LightValidationResult {
   const errors: LightValidationResult['errors'] = []
 
-  // Validate snippet1 (subject line): flexible guidelines
-  if (!content.snippet1 || content.snippet1.trim() === '') {
-    errors.push({
-      field: 'snippet1',
-      message: 'Subject line is required',
-    })
-  } else if (content.snippet1.length < 10) {
-    errors.push({
-      field: 'snippet1',
-      message: 'Subject line should be at least 10 characters (guideline)',
-      currentLength: content.snippet1.length,
-      minLength: 10,
-    })
-  } else if (content.snippet1.length > 100) {
-    errors.push({
-      field: 'snippet1',
-      message: 'Subject line should be no more than 100 characters (guideline)',
-      currentLength: content.snippet1.length,
-      maxLength: 100,
-    })
-  }
-
-  // Check for line breaks in subject line
-  if (content.snippet1 && content.snippet1.includes('\n')) {
-    errors.push({
-      field: 'snippet1',
-      message: 'Subject line cannot contain line breaks',
-    })
-  }
-
-  // Validate snippet3 (LinkedIn message): flexible guidelines
-  if (!content.snippet3 || content.snippet3.trim() === '') {
-    errors.push({
-      field: 'snippet3',
-      message: 'LinkedIn message is required',
-    })
-  } else if (content.snippet3.length > 500) {
-    errors.push({
-      field: 'snippet3',
-      message:
-        'LinkedIn message should be no more than 500 characters (guideline)',
-      currentLength: content.snippet3.length,
-      maxLength: 500,
-    })
-  }
-
-  // Check for line breaks in LinkedIn message
-  if (content.snippet3 && content.snippet3.includes('\n')) {
-    errors.push({
-      field: 'snippet3',
-      message: 'LinkedIn message cannot contain line breaks',
-    })
-  }
+  for (const touchpoint of resolveSequence(sequence)) {
+    const field = snippetField(touchpoint.slot)
+    const value = content[field] || ''
+    const { label, minLength, maxLength } = touchpoint
 
-  // Validate required email content fields
-  const emailFields = [
-    'snippet2',
-    'snippet4',
-    'snippet5',
-    'snippet6',
-    'snippet7',
-  ]
-  emailFields.forEach((field) => {
-    if (
-      !content[field as keyof PlainTextContent] ||
-      content[field as keyof PlainTextContent].trim() === ''
-    ) {
+    if (value.trim() === '') {
+      errors.push({ field, message: `${label} is required` })
+    } else if (minLength && value.length < minLength) {
       errors.push({
         field,
-        message: `${field} is required`,
+        message: `${label} should be at least ${minLength} characters (guideline)`,
+        currentLength: value.length,
+        minLength,
+      })
+    } else if (maxLength && value.length > maxLength) {
+      errors.push({
+        field,
+        message: `${label} should be no more than ${maxLength} characters (guideline)`,
+        currentLength: value.length,
+        maxLength,
       })
     }
-  })
+
+    if (touchpoint.format === 'text' && value.includes('\n')) {
+      errors.push({ field, message: `${label} cannot contain line breaks` })
+    }
+  }
 
   return {
     isValid: errors.length === 0,
@@ -207,34 +158,75 @@ export function validatePlainText(
  * Convert content from HTML format (ClaudeResponse) to plain text format
  */
 export type HtmlContent = {
-  snippet1?: string
-  snippet2?: string
-  snippet3?: string
-  snippet4?: string
-  snippet5?: string
-  snippet6?: string
-  snippet7?: string
   [key: string]: unknown
 }
 
 export function convertFromHtmlContent(
-  content: HtmlContent | ClaudeResponse
+  content: HtmlContent | ClaudeResponse,
+  sequence?: SequenceTouchpoint[] | null
 ): PlainTextContent {
-  return {
-    snippet1: htmlToPlainText(content.snippet1 || ''),
-    snippet2: htmlToPlainText(content.snippet2 || ''),
-    snippet3: htmlToPlainText(content.snippet3 || ''),
-    snippet4: htmlToPlainText(content.snippet4 || ''),
-    snippet5: htmlToPlainText(content.snippet5 || ''),
-    snippet6: htmlToPlainText(content.snippet6 || ''),
-    snippet7: htmlToPlainText(content.snippet7 || ''),
+  const snippets = content as Record<string, unknown>
+  return Object.fromEntries(
+    resolveSequence(sequence).map(({ slot }) => {
+      const value = snippets[snippetField(slot)]
+      return [snippetField(slot), htmlToPlainText(typeof value === 'string' ? value : '')]
+    })
+  ) as PlainTextContent
+}
+
+// The sender profile fields that make up an email signature
+export interface SenderSignature {
+  name: string
+  title?: string | null
+  signature?: string | null
+}
+
+// A closing line, optionally followed by a name on the same line
+const SIGN_OFF_LINE =
+  /^(?:best|best regards|kind regards|warm regards|regards|thanks|thank you|many thanks|cheers|all the best|sincerely|talk soon)[,.!]?(?:\s+[A-Z][\w.'-]*(?:\s+[A-Z][\w.'-]*)?)?$/i
+
+// Lines a sign-off may span: the closing, name, title and a link or two
+const SIGN_OFF_MAX_LINES = 5
+
+/**
+ * The sender's signature block; profiles without one sign off with their
+ * name and title.
+ */
+export function senderSignature(sender: SenderSignature): string {
+  const signature = sender.signature?.trim()
+  if (signature) return signature
+  return ['Best,', sender.name.trim(), sender.title?.trim()].filter(Boolean).join('\n')
+}
+
+/**
+ * End an email with the sender's signature, replacing the sign-off Claude
+ * or a rep wrote and any signature added by an earlier conversion, so every
+ * email is signed the same way however often it is converted.
+ */
+export function withSignature(text: string, sender: SenderSignature): string {
+  const signature = senderSignature(sender)
+  let body = text.trimEnd()
+  if (!body) return text
+
+  if (body.endsWith(signature)) {
+    body = body.slice(0, -signature.length).trimEnd()
   }
+
+  const lines = body.split('\n')
+  for (let i = lines.length - 1; i >= Math.max(0, lines.length - SIGN_OFF_MAX_LINES); i--) {
+    if (SIGN_OFF_LINE.test(lines[i].trim())) {
+      body = lines.slice(0, i).join('\n').trimEnd()
+      break
+    }
+  }
+
+  return `${body}\n\n${signature}`
 }
 
 /**
  * Convert plain text content back to HTML format for validation/export
  */
-export type HtmlConvertedContent = {
+export type HtmlConvertedContent = SequenceSnippets & {
   email: string
   first_name: string
   last_name: string
@@ -247,13 +239,6 @@ export type HtmlConvertedContent = {
   timezone: string | undefined
   tags: string
   industry: string
-  snippet1: string
-  snippet2: string
-  snippet3: string
-  snippet4: string
-  snippet5: string
-  snippet6: string
-  snippet7: string
 }
 
 type LeadLike = Partial<
@@ -274,9 +259,15 @@ type LeadLike = Partial<
   >
 >
 
+/**
+ * Convert each touchpoint to its export format. With a sender, every email
+ * body is signed with their signature; subjects and LinkedIn messages are not.
+ */
 export function convertToHtmlContent(
   plainText: PlainTextContent,
-  leadData: LeadLike
+  leadData: LeadLike,
+  sequence?: SequenceTouchpoint[] | null,
+  sender?: SenderSignature | null
 ): HtmlConvertedContent {
   // Detect timezone if not already present
   const timezone =
@@ -312,13 +303,15 @@ export function convertToHtmlContent(
     tags: leadData.tags || '',
     industry: leadData.industry || '',
 
-    // Convert plain text snippets to HTML
-    snippet1: plainText.snippet1, // Subject line stays plain text
-    snippet2: plainTextToHtml(plainText.snippet2),
-    snippet3: plainText.snippet3, // LinkedIn message stays plain text
-    snippet4: plainTextToHtml(plainText.snippet4),
-    snippet5: plainTextToHtml(plainText.snippet5),
-    snippet6: plainTextToHtml(plainText.snippet6),
-    snippet7: plainTextToHtml(plainText.snippet7),
+    // Convert plain text snippets to HTML; subject and LinkedIn stay plain text
+    ...Object.fromEntries(
+      resolveSequence(sequence).map(({ slot, format, channel, part }) => {
+        let value = plainText[snippetField(slot)] || ''
+        if (sender && channel === 'email' && part === 'body') {
+          value = withSignature(value, sender)
+        }
+        return [snippetField(slot), format === 'text' ? value : plainTextToHtml(value)]
+      })
+    ),
   }
 }
@@ -0,0 +1,288 @@
+/**
+ * Content linter - deliverability and quality checks on the plain text of
+ * each touchpoint. Where validatePlainText enforces the sequence's length
+ * guidelines, these rules flag text that hurts inbox placement or reads as
+ * a template: spam trigger words, link counts, shouting, missing
+ * personalization, leftover merge variables and peer proof the case-study
+ * library doesn't back up. Every rule can be switched off or re-weighted in
+ * Settings.
+ */
+
+import { resolveSequence, snippetField } from './sequenceDefinition'
+import type { SequenceTouchpoint, SnippetField } from './sequenceDefinition'
+import type { PlainTextContent } from './contentConverter'
+import { findUnverifiedClaims } from './proofValidator'
+import type { ProofPoint } from './proofValidator'
+
+export type LintSeverity = 'error' | 'warning' | 'info'
+
+export type LintRuleId =
+  | 'spamWords'
+  | 'links'
+  | 'allCaps'
+  | 'exclamations'
+  | 'personalization'
+  | 'unresolvedVariables'
+  | 'readingLevel'
+  | 'subjectLength'
+  | 'unverifiedClaims'
+
+interface LintRuleBase {
+  enabled: boolean
+  severity: LintSeverity
+}
+
+export interface ContentLintConfig {
+  spamWords: LintRuleBase & { words: string[] }
+  links: LintRuleBase & { max: number } // per snippet
+  allCaps: LintRuleBase & { minLength: number } // shorter words are taken as acronyms
+  exclamations: LintRuleBase & { max: number } // per snippet
+  personalization: LintRuleBase // bodies that mention neither the first name nor the company
+  unresolvedVariables: LintRuleBase & { allowed: string[] } // merge tags Woodpecker fills in itself
+  readingLevel: LintRuleBase & { maxGrade: number } // Flesch-Kincaid grade
+  subjectLength: LintRuleBase & { minLength: number; maxLength: number }
+  unverifiedClaims: LintRuleBase // statistics, and customers named after a cue like "helped", missing from the case-study library
+}
+
+// Rule settings as saved in Settings; anything missing falls back to the defaults
+export type SavedLintConfig = Partial<{ [K in LintRuleId]: Partial<ContentLintConfig[K]> }>
+
+export interface LintIssue {
+  field: SnippetField
+  rule: LintRuleId
+  severity: LintSeverity
+  message: string
+}
+
+// Who the sequence is written to, for the personalization check, and what
+// its claims may draw on, for the proof check
+export interface LintLead {
+  first_name?: string
+  last_name?: string
+  company?: string
+  custom_prompt?: string
+  caseStudies?: ProofPoint[] // the proof check is skipped until the library is loaded
+}
+
+export const LINT_RULE_LABELS: Record<LintRuleId, string> = {
+  spamWords: 'Spam trigger words',
+  links: 'Too many links',
+  allCaps: 'ALL CAPS words',
+  exclamations: 'Exclamation marks',
+  personalization: 'Missing personalization',
+  unresolvedVariables: 'Unresolved {{variables}}',
+  readingLevel: 'Reading level',
+  subjectLength: 'Subject line length',
+  unverifiedClaims: 'Claims missing from the case-study library (customers named after "helped", "customers like")',
+}
+
+export const DEFAULT_LINT_CONFIG: ContentLintConfig = {
+  spamWords: {
+    enabled: true,
+    severity: 'warning',
+    words: [
+      '100% free',
+      'act now',
+      'apply now',
+      'buy now',
+      'call now',
+      'cash',
+      'cheap',
+      'click here',
+      'congratulations',
+      'dear friend',
+      'double your',
+      'earn money',
+      'exclusive deal',
+      'for free',
+      'free gift',
+      'guarantee',
+      'limited time',
+      'lowest price',
+      'miracle',
+      'no obligation',
+      'once in a lifetime',
+      'order now',
+      'risk-free',
+      'special promotion',
+      'this is not spam',
+      'urgent',
+      'winner',
+    ],
+  },
+  links: { enabled: true, severity: 'warning', max: 1 },
+  allCaps: { enabled: true, severity: 'warning', minLength: 4 },
+  exclamations: { enabled: true, severity: 'warning', max: 1 },
+  personalization: { enabled: true, severity: 'warning' },
+  unresolvedVariables: { enabled: true, severity: 'error', allowed: [] },
+  readingLevel: { enabled: true, severity: 'info', maxGrade: 9 },
+  subjectLength: { enabled: true, severity: 'warning', minLength: 20, maxLength: 60 },
+  unverifiedClaims: { enabled: true, severity: 'error' },
+}
+
+// Reading level is meaningless for a couple of sentences
+const MIN_WORDS_FOR_READING_LEVEL = 30
+
+const LINK_PATTERN = /\b(?:https?:\/\/|www\.)\S+/gi
+const VARIABLE_PATTERN = /\{\{\s*([^{}]*?)\s*\}\}/g
+
+/**
+ * Fill in rules and settings missing from a saved config, so configs saved
+ * before a rule existed still lint with its defaults.
+ */
+export function resolveLintConfig(saved?: SavedLintConfig | null): ContentLintConfig {
+  const config = { ...DEFAULT_LINT_CONFIG }
+  for (const rule of Object.keys(DEFAULT_LINT_CONFIG) as LintRuleId[]) {
+    Object.assign(config, { [rule]: { ...DEFAULT_LINT_CONFIG[rule], ...saved?.[rule] } })
+  }
+  return config
+}
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')
+}
+
+function words(text: string): string[] {
+  return text.match(/[A-Za-z][A-Za-z'’-]*/g) || []
+}
+
+// Vowel groups, less a silent trailing e; good enough for a grade estimate
+function countSyllables(word: string): number {
+  const groups = word.toLowerCase().replace(/(?:[^laeiouy]es|ed|[^laeiouy]e)$/, '').match(/[aeiouy]+/g)
+  return Math.max(1, groups?.length || 0)
+}
+
+export function fleschKincaidGrade(text: string): number {
+  const wordList = words(text)
+  if (wordList.length === 0) return 0
+
+  const sentences = Math.max(1, (text.match(/[.!?]+(?:\s|$)/g) || []).length)
+  const syllables = wordList.reduce((total, word) => total + countSyllables(word), 0)
+  return 0.39 * (wordList.length / sentences) + 11.8 * (syllables / wordList.length) - 15.59
+}
+
+function mentions(text: string, value?: string): boolean {
+  const needle = value?.trim().toLowerCase()
+  return !!needle && text.toLowerCase().includes(needle)
+}
+
+/**
+ * Lint one touchpoint's plain text. Empty text is left to validatePlainText,
+ * which already reports it as required.
+ */
+export function lintSnippet(
+  text: string,
+  touchpoint: SequenceTouchpoint,
+  lead: LintLead = {},
+  config: ContentLintConfig = DEFAULT_LINT_CONFIG
+): LintIssue[] {
+  const field = snippetField(touchpoint.slot)
+  const issues: LintIssue[] = []
+  if (!text.trim()) return issues
+
+  const report = (rule: LintRuleId, message: string) => {
+    issues.push({ field, rule, severity: config[rule].severity, message })
+  }
+
+  if (config.spamWords.enabled) {
+    const found = config.spamWords.words.filter((word) =>
+      word.trim() && new RegExp(`(^|[^\\w])${escapeRegExp(word.trim())}($|[^\\w])`, 'i').test(text)
+    )
+    if (found.length > 0) {
+      report('spamWords', `Spam trigger ${found.length === 1 ? 'word' : 'words'}: ${found.join(', ')}`)
+    }
+  }
+
+  if (config.links.enabled) {
+    const links = text.match(LINK_PATTERN)?.length || 0
+    if (links > config.links.max) {
+      report('links', `${links} links; keep it to ${config.links.max} or fewer`)
+    }
+  }
+
+  if (config.allCaps.enabled) {
+    // Merge variables such as {{FIRST_NAME}} are reported on their own
+    const shouting = words(text.replace(VARIABLE_PATTERN, ' ')).filter(
+      (word) => word.length >= config.allCaps.minLength && word === word.toUpperCase()
+    )
+    if (shouting.length > 0) {
+      report('allCaps', `ALL CAPS: ${[...new Set(shouting)].join(', ')}`)
+    }
+  }
+
+  if (config.exclamations.enabled) {
+    const exclamations = text.match(/!/g)?.length || 0
+    if (exclamations > config.exclamations.max) {
+      report('exclamations', `${exclamations} exclamation marks; keep it to ${config.exclamations.max} or fewer`)
+    }
+  }
+
+  if (
+    config.personalization.enabled &&
+    touchpoint.part === 'body' &&
+    (lead.first_name?.trim() || lead.company?.trim()) &&
+    !mentions(text, lead.first_name) &&
+    !mentions(text, lead.company)
+  ) {
+    report('personalization', 'Mentions neither the first name nor the company')
+  }
+
+  if (config.unresolvedVariables.enabled) {
+    const allowed = config.unresolvedVariables.allowed.map((name) => name.trim().toLowerCase())
+    const unresolved = [...text.matchAll(VARIABLE_PATTERN)]
+      .map((match) => match[1])
+      .filter((name) => !allowed.includes(name.toLowerCase()))
+    if (unresolved.length > 0) {
+      report('unresolvedVariables', `Unresolved ${[...new Set(unresolved)].map((name) => `{{${name}}}`).join(', ')}`)
+    }
+  }
+
+  if (
+    config.readingLevel.enabled &&
+    touchpoint.part === 'body' &&
+    words(text).length >= MIN_WORDS_FOR_READING_LEVEL
+  ) {
+    const grade = fleschKincaidGrade(text)
+    if (grade > config.readingLevel.maxGrade) {
+      report('readingLevel', `Reads at grade ${Math.round(grade)}; aim for ${config.readingLevel.maxGrade} or below`)
+    }
+  }
+
+  if (config.subjectLength.enabled && touchpoint.part === 'subject') {
+    const { minLength, maxLength } = config.subjectLength
+    if (text.length < minLength) {
+      report('subjectLength', `Subject line is ${text.length} characters; at least ${minLength} reads better`)
+    } else if (text.length > maxLength) {
+      report('subjectLength', `Subject line is ${text.length} characters; inboxes cut it off after ${maxLength}`)
+    }
+  }
+
+  if (config.unverifiedClaims.enabled && lead.caseStudies) {
+    const { companies, statistics } = findUnverifiedClaims(text, lead.caseStudies, [
+      lead.first_name,
+      lead.last_name,
+      lead.company,
+      lead.custom_prompt,
+    ])
+    if (companies.length > 0) {
+      report('unverifiedClaims', `Customers not in the case-study library: ${companies.join(', ')}`)
+    }
+    if (statistics.length > 0) {
+      report('unverifiedClaims', `Statistics not in the case-study library: ${statistics.join(', ')}`)
+    }
+  }
+
+  return issues
+}
+
+// Lint every touchpoint of the sequence
+export function lintContent(
+  content: PlainTextContent,
+  sequence?: SequenceTouchpoint[] | null,
+  lead: LintLead = {},
+  config: ContentLintConfig = DEFAULT_LINT_CONFIG
+): LintIssue[] {
+  return resolveSequence(sequence).flatMap((touchpoint) =>
+    lintSnippet(content[snippetField(touchpoint.slot)] || '', touchpoint, lead, config)
+  )
+}
@@ -1,33 +1,41 @@
-import type { ApiResult, GeneratedContentRecord } from '@/types/api'
+import type {
+  ApiResult,
+  ContentRevisionRecord,
+  GeneratedContentRecord,
+  KeptVariant,
+  RevisionInfo,
+  SnippetVariantsInput,
+} from '@/types/api'
 import { isApiSuccess, isApiError } from '@/types/api'
 import type { ClaudeResponse } from '@/services/claudeService'
-
-// Helper function to convert ClaudeResponse to GeneratedContentRecord format
-function convertClaudeResponseToRecord(
-  leadId: number,
-  content: ClaudeResponse,
-  touchpoint: number = 1
-): Omit<GeneratedContentRecord, 'id' | 'generated_at' | 'approved_at'> {
-  return {
-    lead_id: leadId,
-    touchpoint_number: touchpoint,
-    content_type: 'email',
-    content: JSON.stringify(content),
-    status: 'draft',
+import { toTouchpointContent } from '@/utils/sequenceDefinition'
+import type { SequenceTouchpoint } from '@/utils/sequenceDefinition'
+
+// Rebuild a lead's sequence from its touchpoint rows. Kept A/B variants add
+// the spare slot they are exported in.
+function convertRecordsToClaudeResponse(
+  records: GeneratedContentRecord[]
+): ClaudeResponse | null {
+  const touchpoints = records.filter(
+    (record) => record.snippet_field && !record.variant_label
+  )
+  if (touchpoints.length === 0) return null
+
+  const snippets: Record<string, string> = {}
+  for (const record of touchpoints) {
+    snippets[record.snippet_field!] = record.content
   }
-}
-
-// Helper function to convert GeneratedContentRecord to ClaudeResponse
-function convertRecordToClaudeResponse(
-  record: GeneratedContentRecord
-): ClaudeResponse {
-  try {
-    return JSON.parse(record.content) as ClaudeResponse
-  } catch (error) {
-    console.error('Error parsing content from database:', error)
-    // Return a fallback object if parsing fails
-    return record.content as unknown as ClaudeResponse
+  for (const record of records) {
+    if (
+      record.variant_label &&
+      record.status === 'approved' &&
+      record.exported_field &&
+      record.exported_field !== record.snippet_field
+    ) {
+      snippets[record.exported_field] = record.content
+    }
   }
+  return snippets as unknown as ClaudeResponse
 }
 
 export const contentStorage = {
@@ -59,9 +67,7 @@ export const contentStorage = {
         return null
       }
 
-      // Return the first content record if available
-      const contentRecord = response[0]
-      const claudeResponse = contentRecord ? convertRecordToClaudeResponse(contentRecord) : null
+      const claudeResponse = convertRecordsToClaudeResponse(response)
 
       console.log('✅ [contentStorage] Content retrieved from database:', {
         leadId,
@@ -96,11 +102,15 @@ export const contentStorage = {
     }
   },
 
-  // Store content for a lead
+  // Store content for a lead as one row per touchpoint of the sequence;
+  // templateId is the prompt template version it came from, revision says
+  // who changed it and how (a manual edit unless given)
   async persistContentToStorage(
     leadId: string,
     content: ClaudeResponse,
-    touchpoint: number = 1
+    templateId?: number,
+    sequence?: SequenceTouchpoint[],
+    revision?: RevisionInfo
   ): Promise<boolean> {
     try {
       const numericId = parseInt(leadId)
@@ -112,38 +122,28 @@ export const contentStorage = {
         return false
       }
 
+      const touchpoints = toTouchpointContent(content, sequence)
+
       console.log('💾 [contentStorage] Persisting content to database:', {
         leadId: numericId,
-        touchpoint,
-        hasContent: !!content,
-        contentKeys: content ? Object.keys(content) : []
+        touchpoints: touchpoints.length,
+        fields: touchpoints.map((touchpoint) => touchpoint.snippet_field)
       })
 
-      const contentRecord = convertClaudeResponseToRecord(
+      const response = await window.api.content.saveSequence(
         numericId,
-        content,
-        touchpoint
+        touchpoints,
+        templateId,
+        revision
       )
 
-      console.log('💾 [contentStorage] Content record prepared:', {
-        lead_id: contentRecord.lead_id,
-        touchpoint_number: contentRecord.touchpoint_number,
-        content_type: contentRecord.content_type,
-        status: contentRecord.status,
-        contentLength: contentRecord.content.length
-      })
-
-      const response = await window.api.content.create(contentRecord)
-
       console.log('💾 [contentStorage] Database save response:', {
         success: !isApiError(response),
-        isError: isApiError(response),
-        responseData: response,
-        savedContentId: response.data?.id
+        savedRows: Array.isArray(response) ? response.length : 0
       })
 
-      if (isApiError(response)) {
-        console.error('Error persisting content:', response.error)
+      if (isApiError(response) || !Array.isArray(response)) {
+        console.error('Error persisting content:', response)
         return false
       }
 
@@ -228,16 +228,36 @@ export const contentStorage = {
     }
   },
 
-  // Update content status
+  // Touchpoint rows of a lead with their review state, in sequence order
+  async getTouchpoints(leadId: string): Promise<GeneratedContentRecord[]> {
+    try {
+      const response = await window.api.content.getByLead(parseInt(leadId))
+
+      if (isApiError(response) || !Array.isArray(response)) {
+        console.error('Error getting touchpoints:', response)
+        return []
+      }
+
+      return response
+        .filter((record) => record.snippet_field && !record.variant_label)
+        .sort((a, b) => a.touchpoint_number - b.touchpoint_number)
+    } catch (error) {
+      console.error('Error getting touchpoints:', error)
+      return []
+    }
+  },
+
+  // Approve or reject one touchpoint; approving stamps approved_at
   async updateContentStatus(
     contentId: number,
     status: GeneratedContentRecord['status']
   ): Promise<boolean> {
     try {
-      const response = await window.api.content.update(contentId, { status })
+      const response = await window.api.content.updateStatus(contentId, status)
 
-      if (isApiError(response)) {
-        console.error('Error updating content status:', response.error)
+      // A missing row comes back as null rather than an error
+      if (isApiError(response) || !response) {
+        console.error('Error updating content status:', response)
         return false
       }
 
@@ -247,4 +267,102 @@ export const contentStorage = {
       return false
     }
   },
+
+  // Saved versions of a lead's touchpoints, newest first
+  async getRevisions(leadId: string): Promise<ContentRevisionRecord[]> {
+    try {
+      const response = await window.api.content.getRevisions(parseInt(leadId))
+
+      if (isApiError(response) || !Array.isArray(response)) {
+        console.error('Error getting content revisions:', response)
+        return []
+      }
+
+      return response
+    } catch (error) {
+      console.error('Error getting content revisions:', error)
+      return []
+    }
+  },
+
+  // Restore a touchpoint to an earlier revision. Resolves to false on failure,
+  // null when the touchpoint already had that text
+  async revertRevision(
+    revisionId: number
+  ): Promise<ContentRevisionRecord | null | false> {
+    try {
+      const response = await window.api.content.revertRevision(revisionId)
+
+      if (isApiError(response)) {
+        console.error('Error reverting content revision:', response)
+        return false
+      }
+
+      // Content handlers return the record itself rather than a success wrapper
+      return response as unknown as ContentRevisionRecord | null
+    } catch (error) {
+      console.error('Error reverting content revision:', error)
+      return false
+    }
+  },
+
+  // A/B variants stored for a lead, optionally for one snippet only
+  async getVariants(
+    leadId: string,
+    snippetField?: string
+  ): Promise<GeneratedContentRecord[]> {
+    try {
+      const response = await window.api.content.getVariants(parseInt(leadId), snippetField)
+
+      if (isApiError(response) || !Array.isArray(response)) {
+        console.error('Error getting snippet variants:', response)
+        return []
+      }
+
+      return response
+    } catch (error) {
+      console.error('Error getting snippet variants:', error)
+      return []
+    }
+  },
+
+  // Store generated alternatives; returns the stored rows with their labels
+  async saveVariants(
+    input: SnippetVariantsInput
+  ): Promise<GeneratedContentRecord[] | null> {
+    try {
+      const response = await window.api.content.createVariants(input)
+
+      if (isApiError(response) || !Array.isArray(response)) {
+        console.error('Error saving snippet variants:', response)
+        return null
+      }
+
+      return response
+    } catch (error) {
+      console.error('Error saving snippet variants:', error)
+      return null
+    }
+  },
+
+  // Record which variants were kept and the snippet slot each is exported in
+  async keepVariants(
+    leadId: string,
+    snippetField: string,
+    kept: KeptVariant[]
+  ): Promise<GeneratedContentRecord[] | null> {
+    try {
+      const response = await window.api.content.keepVariants(parseInt(leadId), snippetField, kept)
+
+      if (isApiError(response) || !Array.isArray(response)) {
+        console.error('Error keeping snippet variants:', response)
+        return null
+      }
+
+      return response
+    } catch (error) {
+      console.error('Error keeping snippet variants:', error)
+      return null
+    }
+  },
 }
@@ -0,0 +1,81 @@
+/**
+ * Few-shot selector - picks the approved sequences Claude is shown as
+ * examples for a lead. Only sequences the team approved without edits are
+ * offered (see FewShotExamplesDAL); of those, the ones written for the same
+ * industry or title are used, pinned ones first, then the closest match and
+ * the most recently approved.
+ */
+
+// The parts of an example the selector and prompt use
+export interface FewShotExample {
+  lead_id: number
+  email?: string | null
+  company?: string | null
+  title?: string | null
+  industry?: string | null
+  status: 'auto' | 'pinned' | 'excluded' | 'retired'
+  snippets: Record<string, string>
+}
+
+export interface FewShotLead {
+  email?: string
+  title?: string
+  industry?: string
+}
+
+export const MAX_FEW_SHOT_EXAMPLES = 3
+
+const TITLE_FILLER = new Set(['of', 'the', 'and', 'for', 'in'])
+
+function normalizeIndustry(industry?: string | null): string {
+  return industry?.trim().toLowerCase() || ''
+}
+
+// "Vice President, Sales" and "VP of Sales" are the same title
+function normalizeTitle(title?: string | null): string {
+  return (title || '')
+    .toLowerCase()
+    .replace(/\bvice[\s-]+president\b/g, 'vp')
+    .replace(/&/g, ' and ')
+    .split(/[^a-z0-9]+/)
+    .filter((word) => word && !TITLE_FILLER.has(word))
+    .sort()
+    .join(' ')
+}
+
+// 2 for the same industry, 1 for the same title; 0 leaves the example out
+function matchScore(example: FewShotExample, lead: FewShotLead): number {
+  const industry = normalizeIndustry(lead.industry)
+  const title = normalizeTitle(lead.title)
+  return (
+    (industry && normalizeIndustry(example.industry) === industry ? 2 : 0) +
+    (title && normalizeTitle(example.title) === title ? 1 : 0)
+  )
+}
+
+/**
+ * The best examples for a lead, at most `limit`. The pool is expected most
+ * recently approved first, which breaks ties. The lead's own sequence is
+ * never used as an example for itself.
+ */
+export function selectFewShotExamples(
+  pool: FewShotExample[],
+  lead: FewShotLead,
+  limit: number = MAX_FEW_SHOT_EXAMPLES
+): FewShotExample[] {
+  const email = lead.email?.trim().toLowerCase()
+
+  return pool
+    .filter((example) => example.status === 'auto' || example.status === 'pinned')
+    .filter((example) => !email || example.email?.trim().toLowerCase() !== email)
+    .map((example, index) => ({ example, index, score: matchScore(example, lead) }))
+    .filter(({ score }) => score > 0)
+    .sort(
+      (a, b) =>
+        Number(b.example.status === 'pinned') - Number(a.example.status === 'pinned') ||
+        b.score - a.score ||
+        a.index - b.index
+    )
+    .slice(0, limit)
+    .map(({ example }) => example)
+}
@@ -69,4 +69,37 @@ export function getFileIcon(type: string): string {
     return '📄'
   }
   return '📎'
-}
\ No newline at end of file
+}
+// The list of attached files appended to the user prompt, and the Files API
+// ids sent with the request. Files that never reached the Files API are
+// embedded as base64 instead.
+export function describeAttachments(files: FileAttachment[]): {
+  note: string
+  fileIds: string[]
+} {
+  const fileIds: string[] = []
+  if (files.length === 0) return { note: '', fileIds }
+
+  let note = '\n\n--- ATTACHED FILES ---\n'
+  files.forEach((file, index) => {
+    if (file.file_id) {
+      // Use Files API reference
+      fileIds.push(file.file_id)
+      if (file.type.startsWith('image/')) {
+        note += `\n[Image ${index + 1}: ${file.name}]\n`
+      } else if (file.type === 'application/pdf') {
+        note += `\n[PDF ${index + 1}: ${file.name}]\n`
+      }
+    } else if (!file.uploading) {
+      // Fallback to base64 embedding
+      if (file.type.startsWith('image/')) {
+        note += `\n[Image ${index + 1}: ${file.name}]\n`
+        note += file.data + '\n'
+      } else if (file.type === 'application/pdf') {
+        note += `\n[PDF ${index + 1}: ${file.name} - Note: PDF content needs to be extracted separately]\n`
+      }
+    }
+  })
+
+  return { note, fileIds }
+}
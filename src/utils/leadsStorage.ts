@@ -59,6 +59,12 @@ function convertLeadRecordToLeadData(record: LeadRecord): LeadData {
     snippet13: record.snippet13 || undefined,
     snippet14: record.snippet14 || undefined,
     snippet15: record.snippet15 || undefined,
+    // Woodpecker export and engagement tracking
+    woodpecker_campaign_id: record.woodpecker_campaign_id || undefined,
+    export_date: record.export_date || undefined,
+    engagement_synced_at: record.engagement_synced_at || undefined,
+    // Sender chosen for this lead; its import's sender applies otherwise
+    sender_id: record.sender_id ? String(record.sender_id) : undefined,
     // Any remaining custom fields
     ...additionalFields,
     selected: false
@@ -0,0 +1,117 @@
+/**
+ * Proof validator - checks the peer proof in generated content against the
+ * case-study library. Claude is told to cite only library customers and
+ * results, but nothing stops it from inventing a well-known logo or a
+ * convincing percentage, so every company named as a customer and every
+ * statistic is looked up in the library (and in what we know about the
+ * lead) before a rep sends it.
+ *
+ * Companies are only recognised as customers after a cue such as "helped",
+ * "worked with" or "customers like". A bare "Wells Fargo cut ramp time 40%"
+ * gets its statistic flagged but not the name.
+ */
+
+// The parts of a case study a claim can be checked against
+export interface ProofPoint {
+  customer: string
+  industry?: string | null
+  metric?: string | null
+  wording: string
+  active?: boolean // inactive case studies back no claims
+}
+
+export interface UnverifiedClaims {
+  companies: string[]
+  statistics: string[]
+}
+
+// Phrases that introduce a customer: "we helped X", "teams like X, Y and Z"
+const CUSTOMER_CUE =
+  /\b(?:helped|helping|worked with|working with|work with|partnered with|partnering with|(?:customers|clients|companies|teams|organizations|firms|leaders|institutions|brands|giants) (?:like|such as|including|at))\s+/gi
+
+const NAME = "[A-Z][\\w&'’.-]*(?:\\s+(?:(?:of|the|de|&)\\s+)?[A-Z][\\w&'’.-]*)*"
+const NAME_LIST = new RegExp(`^${NAME}(?:(?:,\\s*(?:and\\s+|or\\s+)?|\\s+(?:and|or|&)\\s+)${NAME})*`)
+
+// Percentages, money, multipliers and large or abbreviated counts; small
+// bare numbers ("a 15-minute call", "within 30 days") are not claims
+const STATISTIC =
+  /(?:[$£€]\s?\d[\d,]*(?:\.\d+)?\s?(?:k|m|mm|bn?|million|billion|thousand)?\b)|(?:\b\d[\d,]*(?:\.\d+)?\s?(?:%|percent\b))|(?:\b\d+(?:\.\d+)?\s?(?:x|×)(?=\W|$))|(?:\b\d+(?:\.\d+)?\s?(?:k|million|billion)\b)|(?:\b\d{1,3}(?:,\d{3})+\b)/gi
+
+function normalizeName(name: string): string {
+  return name
+    .replace(/['’]s$/i, '')
+    .toLowerCase()
+    .replace(/[^a-z0-9&]+/g, ' ')
+    .trim()
+}
+
+function normalizeStatistic(text: string): string {
+  return text.toLowerCase().replace(/\s*percent\b/g, '%').replace(/×/g, 'x').replace(/[\s,]/g, '')
+}
+
+// Names that follow a customer cue, split out of lists
+function findCustomerNames(text: string): string[] {
+  const names: string[] = []
+  for (const cue of text.matchAll(CUSTOMER_CUE)) {
+    const list = text.slice(cue.index! + cue[0].length).match(NAME_LIST)?.[0]
+    if (!list) continue
+    list
+      .split(/,\s*(?:and\s+|or\s+)?|\s+(?:and|or|&)\s+/)
+      .map((name) => name.replace(/['’]s$/i, '').replace(/\.$/, '').trim())
+      .filter(Boolean)
+      .forEach((name) => names.push(name))
+  }
+  return names
+}
+
+/**
+ * Company names and statistics in text that neither the active library nor
+ * the known facts back up. `known` holds text the claims may come from
+ * besides the library, such as the lead's company, name and the rep's
+ * context.
+ */
+export function findUnverifiedClaims(
+  text: string,
+  library: ProofPoint[],
+  known: Array<string | null | undefined> = []
+): UnverifiedClaims {
+  const knownText = known.filter(Boolean).join('\n')
+  const active = library.filter((point) => point.active !== false)
+  const customers = active.map((point) => normalizeName(point.customer)).filter(Boolean)
+  const knownNames = normalizeName(knownText)
+  const isKnownCustomer = (name: string) => {
+    const normalized = normalizeName(name)
+    if (!normalized) return true
+    return (
+      customers.some((customer) => customer.includes(normalized) || normalized.includes(customer)) ||
+      ` ${knownNames} `.includes(` ${normalized} `)
+    )
+  }
+
+  const sources = normalizeStatistic(
+    [knownText, ...active.flatMap((point) => [point.metric, point.wording])].filter(Boolean).join('\n')
+  )
+
+  const companies = findCustomerNames(text).filter((name) => !isKnownCustomer(name))
+  const statistics = (text.match(STATISTIC) || [])
+    .map((statistic) => statistic.trim())
+    .filter((statistic) => !sources.includes(normalizeStatistic(statistic)))
+
+  return { companies: [...new Set(companies)], statistics: [...new Set(statistics)] }
+}
+
+/**
+ * The active proof points offered for a lead's industry: those for the same
+ * industry first, then the ones recorded for every industry.
+ */
+export function proofPointsForIndustry<T extends ProofPoint>(
+  library: T[],
+  industry?: string | null
+): T[] {
+  const wanted = industry?.trim().toLowerCase() || ''
+  const active = library.filter((point) => point.active !== false)
+  return [
+    ...active.filter((point) => point.industry?.trim() && point.industry.trim().toLowerCase() === wanted),
+    ...active.filter((point) => !point.industry?.trim()),
+  ]
+}
@@ -0,0 +1,281 @@
+/**
+ * Sequence definitions - the ordered touchpoints of an outreach sequence and
+ * the Woodpecker snippet slot each one is written to. The content editor,
+ * validators, Claude tool schema and Woodpecker export all read the layout
+ * from a definition instead of assuming the original seven snippets.
+ */
+
+// Woodpecker prospects carry custom fields snippet1 to snippet15
+export const MAX_SNIPPET_SLOTS = 15
+
+// Alternatives written per A/B variant request
+export const MAX_SNIPPET_VARIANTS = 3
+
+export type SnippetField = `snippet${number}`
+
+export type SequenceSnippets = Record<SnippetField, string>
+
+export interface SequenceTouchpoint {
+  slot: number // Woodpecker snippet slot (1-15) the text is stored in
+  label: string
+  channel: 'email' | 'linkedin'
+  // An email's subject line is its own entry, sent with the body that follows it
+  part: 'subject' | 'body'
+  dayOffset: number
+  // text stays on a single line; html bodies keep paragraphs and lists
+  format: 'text' | 'html'
+  minLength?: number
+  maxLength?: number
+  instructions: string // what Claude should write for this touchpoint
+  // Spare snippet slot holding an A/B variant; the campaign step gets a second version reading it
+  variantSlot?: number
+}
+
+// One step of the Woodpecker campaign built from a sequence
+export interface SnippetSequenceStep {
+  day: number
+  channel: 'email' | 'linkedin'
+  subject?: string // snippet field holding the subject line
+  body: string // snippet field holding the body
+  // Snippet fields of the B version, when the step is A/B tested
+  variant?: { subject?: string; body: string }
+}
+
+// One touchpoint of a lead's sequence, shaped like the generated_content row it is stored in
+export interface TouchpointContent {
+  touchpoint_number: number // position in the sequence, from 1
+  content_type: 'subject' | 'email' | 'linkedin'
+  snippet_field: SnippetField
+  content: string
+}
+
+// The Day 1-25 sequence the bundled email-sequence prompt is written for
+export const DEFAULT_SEQUENCE: SequenceTouchpoint[] = [
+  {
+    slot: 1,
+    label: 'Email Subject',
+    channel: 'email',
+    part: 'subject',
+    dayOffset: 1,
+    format: 'text',
+    minLength: 36,
+    maxLength: 50,
+    instructions: 'Email subject line (36-50 characters), plain text',
+  },
+  {
+    slot: 2,
+    label: 'Email Body',
+    channel: 'email',
+    part: 'body',
+    dayOffset: 1,
+    format: 'html',
+    instructions: 'Day 1 email body',
+  },
+  {
+    slot: 3,
+    label: 'LinkedIn Message',
+    channel: 'linkedin',
+    part: 'body',
+    dayOffset: 3,
+    format: 'text',
+    maxLength: 300,
+    instructions: 'LinkedIn connection message (under 300 characters), plain text',
+  },
+  {
+    slot: 4,
+    label: 'Bump Email',
+    channel: 'email',
+    part: 'body',
+    dayOffset: 7,
+    format: 'html',
+    instructions: 'Day 7 bump email body',
+  },
+  {
+    slot: 5,
+    label: 'Follow-up Email',
+    channel: 'email',
+    part: 'body',
+    dayOffset: 12,
+    format: 'html',
+    instructions: 'Day 12 follow-up email body',
+  },
+  {
+    slot: 6,
+    label: 'Bump Email 2',
+    channel: 'email',
+    part: 'body',
+    dayOffset: 17,
+    format: 'html',
+    instructions: 'Day 17 bump email body',
+  },
+  {
+    slot: 7,
+    label: 'Breakup Email',
+    channel: 'email',
+    part: 'body',
+    dayOffset: 25,
+    format: 'html',
+    instructions: 'Day 25 breakup email body',
+  },
+]
+
+export function snippetField(slot: number): SnippetField {
+  return `snippet${slot}`
+}
+
+// Sequences saved without a layout use the default one
+export function resolveSequence(sequence?: SequenceTouchpoint[] | null): SequenceTouchpoint[] {
+  return sequence && sequence.length > 0 ? sequence : DEFAULT_SEQUENCE
+}
+
+export function sequenceFields(sequence?: SequenceTouchpoint[] | null): SnippetField[] {
+  return resolveSequence(sequence).map(touchpoint => snippetField(touchpoint.slot))
+}
+
+// Spare slots kept A/B variants are exported in, next to the snippet they vary
+export function variantFields(sequence?: SequenceTouchpoint[] | null): Array<{ field: SnippetField; variantField: SnippetField }> {
+  return resolveSequence(sequence)
+    .filter(touchpoint => touchpoint.variantSlot)
+    .map(touchpoint => ({ field: snippetField(touchpoint.slot), variantField: snippetField(touchpoint.variantSlot!) }))
+}
+
+export function emptySnippets(sequence?: SequenceTouchpoint[] | null): SequenceSnippets {
+  return Object.fromEntries(sequenceFields(sequence).map(field => [field, ''])) as SequenceSnippets
+}
+
+export function touchpointContentType(touchpoint: SequenceTouchpoint): TouchpointContent['content_type'] {
+  return touchpoint.part === 'subject' ? 'subject' : touchpoint.channel
+}
+
+/**
+ * Split generated snippets into one entry per touchpoint, in sequence order.
+ * Touchpoints without text are left out so they still count as missing.
+ */
+export function toTouchpointContent(
+  snippets: Partial<SequenceSnippets>,
+  sequence?: SequenceTouchpoint[] | null
+): TouchpointContent[] {
+  return resolveSequence(sequence).flatMap((touchpoint, index) => {
+    const field = snippetField(touchpoint.slot)
+    const content = snippets[field]
+    if (typeof content !== 'string' || !content.trim()) return []
+    return [{ touchpoint_number: index + 1, content_type: touchpointContentType(touchpoint), snippet_field: field, content }]
+  })
+}
+
+/**
+ * Check a sequence before it is saved. Returns one message per problem; an
+ * empty list means the sequence can be used.
+ */
+export function validateSequenceDefinition(sequence: SequenceTouchpoint[]): string[] {
+  const errors: string[] = []
+  const slots = new Set<number>()
+
+  if (sequence.length === 0) {
+    errors.push('A sequence needs at least one touchpoint')
+  }
+
+  sequence.forEach((touchpoint, index) => {
+    const name = touchpoint.label?.trim() || `Touchpoint ${index + 1}`
+
+    if (!touchpoint.label?.trim()) {
+      errors.push(`Touchpoint ${index + 1} needs a label`)
+    }
+    if (!Number.isInteger(touchpoint.slot) || touchpoint.slot < 1 || touchpoint.slot > MAX_SNIPPET_SLOTS) {
+      errors.push(`${name} must use a snippet slot from 1 to ${MAX_SNIPPET_SLOTS}`)
+    } else if (slots.has(touchpoint.slot)) {
+      errors.push(`${name} uses snippet${touchpoint.slot}, which another touchpoint already uses`)
+    }
+    slots.add(touchpoint.slot)
+
+    if (touchpoint.variantSlot !== undefined) {
+      const used = sequence.some(other => other.slot === touchpoint.variantSlot || (other !== touchpoint && other.variantSlot === touchpoint.variantSlot))
+      if (!Number.isInteger(touchpoint.variantSlot) || touchpoint.variantSlot < 1 || touchpoint.variantSlot > MAX_SNIPPET_SLOTS) {
+        errors.push(`${name} must use a variant slot from 1 to ${MAX_SNIPPET_SLOTS}`)
+      } else if (used) {
+        errors.push(`${name} keeps its variant in snippet${touchpoint.variantSlot}, which is already in use`)
+      }
+    }
+
+    if (!Number.isInteger(touchpoint.dayOffset) || touchpoint.dayOffset < 0) {
+      errors.push(`${name} needs a day offset of 0 or more`)
+    } else if (index > 0 && touchpoint.dayOffset < sequence[index - 1].dayOffset) {
+      errors.push(`${name} comes before the previous touchpoint; keep touchpoints in day order`)
+    }
+
+    if (touchpoint.minLength && touchpoint.maxLength && touchpoint.minLength > touchpoint.maxLength) {
+      errors.push(`${name} has a minimum length above its maximum`)
+    }
+
+    if (touchpoint.part === 'subject') {
+      const next = sequence[index + 1]
+      if (touchpoint.channel !== 'email' || !next || next.part !== 'body' || next.channel !== 'email' || next.dayOffset !== touchpoint.dayOffset) {
+        errors.push(`${name} must be followed by the email body it belongs to`)
+      }
+    }
+  })
+
+  return errors
+}
+
+/**
+ * Group touchpoints into Woodpecker campaign steps: a subject line joins the
+ * email body that follows it, every other touchpoint is a step of its own.
+ * A step with a variant slot on its subject or body gets a B version; the
+ * part without one reads the same snippet in both versions.
+ */
+export function toCampaignSequence(sequence?: SequenceTouchpoint[] | null): SnippetSequenceStep[] {
+  const steps: SnippetSequenceStep[] = []
+  let subject: SequenceTouchpoint | undefined
+
+  for (const touchpoint of resolveSequence(sequence)) {
+    if (touchpoint.part === 'subject') {
+      subject = touchpoint
+      continue
+    }
+
+    const step: SnippetSequenceStep = {
+      day: touchpoint.dayOffset,
+      channel: touchpoint.channel,
+      ...(subject ? { subject: snippetField(subject.slot) } : {}),
+      body: snippetField(touchpoint.slot),
+    }
+    if (subject?.variantSlot || touchpoint.variantSlot) {
+      step.variant = {
+        ...(subject ? { subject: snippetField(subject.variantSlot ?? subject.slot) } : {}),
+        body: snippetField(touchpoint.variantSlot ?? touchpoint.slot),
+      }
+    }
+
+    steps.push(step)
+    subject = undefined
+  }
+
+  return steps
+}
+
+// Length guidance for one touchpoint, e.g. "36-50 characters"
+export function describeLengthLimits(touchpoint: SequenceTouchpoint): string | null {
+  const { minLength, maxLength } = touchpoint
+  if (minLength && maxLength) return `${minLength}-${maxLength} characters`
+  if (maxLength) return `at most ${maxLength} characters`
+  if (minLength) return `at least ${minLength} characters`
+  return null
+}
+
+/**
+ * Outline of the sequence appended to generation prompts, so the prompt
+ * asks for exactly the fields the sequence defines.
+ */
+export function describeSequence(sequence?: SequenceTouchpoint[] | null): string {
+  const lines = resolveSequence(sequence).map(touchpoint => {
+    const limits = describeLengthLimits(touchpoint)
+    const format = touchpoint.format === 'text' ? 'plain text on one line' : 'paragraphs'
+    return (
+      `- ${snippetField(touchpoint.slot)}: ${touchpoint.label}, day ${touchpoint.dayOffset} ${touchpoint.channel} ` +
+      `(${[format, limits].filter(Boolean).join(', ')}). ${touchpoint.instructions}`
+    )
+  })
+
+  return ['Write the sequence as these fields, in this order:', ...lines].join('\n')
+}
@@ -6,6 +6,50 @@ export function estimateTokens(text: string): number {
   return Math.ceil(text.length / 4)
 }
 
+// Rough output size of a seven-snippet sequence
+export const ESTIMATED_SEQUENCE_OUTPUT_TOKENS = 1000
+
+// The parts of an attached file that affect its token estimate
+export interface AttachmentTokenInfo {
+  type: string
+  size: number
+  file_id?: string
+  uploading?: boolean
+}
+
+export function estimateAttachmentTokens(files: AttachmentTokenInfo[]): number {
+  let attachmentTokens = 0
+  files.forEach((file) => {
+    if (file.file_id) {
+      // With Files API, we only pay for file references, not the full content
+      if (file.type.startsWith('image/')) {
+        // Files API charges for image analysis, estimated ~10-50 tokens per image
+        attachmentTokens += 20
+      } else if (file.type === 'application/pdf') {
+        // PDF analysis through Files API, estimated ~50-200 tokens depending on content
+        const sizeInKB = file.size / 1024
+        attachmentTokens += Math.min(Math.ceil(sizeInKB / 20), 200) // Max 200 tokens per PDF
+      }
+    } else if (!file.uploading) {
+      // File upload failed, but still show old base64 estimates to warn user
+      if (file.type.startsWith('image/')) {
+        const sizeInKB = file.size / 1024
+        if (sizeInKB < 100) {
+          attachmentTokens += 750
+        } else if (sizeInKB < 500) {
+          attachmentTokens += 1500
+        } else {
+          attachmentTokens += 3000
+        }
+      } else if (file.type === 'application/pdf') {
+        attachmentTokens += Math.ceil((file.size / 1024 / 100) * 500)
+      }
+    }
+    // Files that are uploading don't count towards tokens yet
+  })
+  return attachmentTokens
+}
+
 export interface ModelPricing {
   model: string
   displayName: string
@@ -55,6 +99,41 @@ export function calculatePrice(
   }
 }
 
+// Token counts as reported in the usage block of a Messages API response
+export interface TokenUsage {
+  input_tokens: number
+  output_tokens: number
+  cache_creation_input_tokens?: number | null
+  cache_read_input_tokens?: number | null
+}
+
+// Cache writes are billed at 1.25x the input price and cache reads at 0.1x
+const CACHE_WRITE_MULTIPLIER = 1.25
+const CACHE_READ_MULTIPLIER = 0.1
+// Message Batches are billed at half the standard price
+const BATCH_DISCOUNT = 0.5
+
+export function calculateUsageCost(
+  usage: TokenUsage,
+  model: string,
+  options: { batch?: boolean } = {}
+): number {
+  const pricing = MODEL_PRICING[model]
+  if (!pricing) {
+    return 0
+  }
+
+  const inputPrice = pricing.inputPricePerMillion / 1_000_000
+  const outputPrice = pricing.outputPricePerMillion / 1_000_000
+  const cost =
+    usage.input_tokens * inputPrice +
+    (usage.cache_creation_input_tokens || 0) * inputPrice * CACHE_WRITE_MULTIPLIER +
+    (usage.cache_read_input_tokens || 0) * inputPrice * CACHE_READ_MULTIPLIER +
+    usage.output_tokens * outputPrice
+
+  return options.batch ? cost * BATCH_DISCOUNT : cost
+}
+
 export function formatPrice(price: number): string {
   if (price < 0.01) {
     return `<$0.01`
@@ -5,6 +5,7 @@ import {
   validateWoodpeckerProspect,
   createWoodpeckerExportSummary,
 } from './woodpeckerFormatter';
+import { DEFAULT_SEQUENCE } from './sequenceDefinition';
 import type { LeadData } from '@/types/lead';
 import type { WoodpeckerProspect } from '@/services/woodpeckerService';
 
@@ -53,6 +54,23 @@ describe('woodpeckerFormatter', () => {
       expect(result.snippet7).toBe('<div>Best regards,<br/>Sales Team</div>');
     });
 
+    it('should export kept A/B variants and repeat the A text when there is none', () => {
+      const sequence = DEFAULT_SEQUENCE.map((touchpoint) =>
+        touchpoint.slot === 1 ? { ...touchpoint, variantSlot: 8 }
+          : touchpoint.slot === 2 ? { ...touchpoint, variantSlot: 9 }
+          : touchpoint
+      );
+
+      const result = formatProspectForWoodpecker(
+        mockLead,
+        { ...mockGeneratedContent, snippet8: 'A different subject', snippet9: '' },
+        { sequence }
+      );
+
+      expect(result.snippet8).toBe('A different subject');
+      expect(result.snippet9).toBe(result.snippet2);
+    });
+
     it('should handle missing fields gracefully', () => {
       const leadWithMissingFields: LeadData = {
         id: 'lead-2',
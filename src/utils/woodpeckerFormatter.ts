@@ -1,6 +1,8 @@
 import type { WoodpeckerProspect } from '@/services/woodpeckerService'
 import type { LeadData } from '@/types/lead'
 import { detectTimezone } from './timezoneDetector'
+import { sequenceFields, variantFields } from './sequenceDefinition'
+import type { SequenceTouchpoint } from './sequenceDefinition'
 
 /**
  * Convert timezone name to UTC offset string
@@ -20,20 +22,16 @@ function getUtcOffset(timezone: string): string {
   }
 }
 
+// Lead columns and one snippetN field per touchpoint of the sequence
 export interface GeneratedContent {
-  snippet1?: string
-  snippet2?: string
-  snippet3?: string
-  snippet4?: string
-  snippet5?: string
-  snippet6?: string
-  snippet7?: string
   [key: string]: string | undefined
 }
 
 export interface FormatProspectOptions {
   includeEmptySnippets?: boolean
   customFieldMapping?: Record<string, string>
+  // Touchpoints whose snippets are exported; the default sequence when omitted
+  sequence?: SequenceTouchpoint[]
 }
 
 export function formatProspectForWoodpecker(
@@ -41,7 +39,7 @@ export function formatProspectForWoodpecker(
   generatedContent?: GeneratedContent,
   options: FormatProspectOptions = {}
 ): WoodpeckerProspect {
-  const { includeEmptySnippets = false, customFieldMapping = {} } = options
+  const { includeEmptySnippets = false, customFieldMapping = {}, sequence } = options
 
   console.log('🔧 WoodpeckerFormatter: Formatting prospect', {
     leadKeys: Object.keys(lead),
@@ -145,8 +143,7 @@ export function formatProspectForWoodpecker(
 
   // Add generated content snippets with HTML validation fixes
   if (generatedContent) {
-    for (let i = 1; i <= 7; i++) {
-      const snippetKey = `snippet${i}` as keyof GeneratedContent
+    for (const snippetKey of sequenceFields(sequence)) {
       const snippetValue = generatedContent[snippetKey]
 
       if (snippetValue || includeEmptySnippets) {
@@ -155,6 +152,16 @@ export function formatProspectForWoodpecker(
         prospect[snippetKey] = fixedSnippet
       }
     }
+
+    // A/B slots fall back to the A text so leads without a kept variant send the same copy in both versions
+    for (const { field, variantField } of variantFields(sequence)) {
+      const variantValue = generatedContent[variantField]
+        ? fixHtmlValidationIssues(generatedContent[variantField]!)
+        : prospect[field]
+      if (variantValue !== undefined) {
+        prospect[variantField] = variantValue
+      }
+    }
   }
 
   // Apply custom field mappings
@@ -192,12 +199,11 @@ export function validateWoodpeckerProspect(prospect: WoodpeckerProspect): {
     errors.push('Email format is invalid')
   }
 
-  // Check snippet content for HTML validity if present
-  for (let i = 1; i <= 7; i++) {
-    const snippetKey = `snippet${i}` as keyof WoodpeckerProspect
-    const snippet = prospect[snippetKey]
-    if (snippet && typeof snippet === 'string') {
-      const htmlErrors = validateSnippetHtml(snippet, i)
+  // Check snippet content for HTML validity in whichever slots are filled
+  for (const [key, snippet] of Object.entries(prospect)) {
+    const slot = /^snippet(\d+)$/.exec(key)?.[1]
+    if (slot && snippet && typeof snippet === 'string') {
+      const htmlErrors = validateSnippetHtml(snippet, Number(slot))
       errors.push(...htmlErrors)
     }
   }
@@ -637,7 +643,8 @@ function validateSnippetHtml(html: string, snippetNumber: number): string[] {
 
 export function createWoodpeckerExportSummary(
   prospects: WoodpeckerProspect[],
-  validationResults: ReturnType<typeof validateWoodpeckerProspect>[]
+  validationResults: ReturnType<typeof validateWoodpeckerProspect>[],
+  sequence?: SequenceTouchpoint[]
 ): {
   totalProspects: number
   validProspects: number
@@ -650,8 +657,7 @@ export function createWoodpeckerExportSummary(
 
   // Count snippets
   const snippetStats: Record<string, number> = {}
-  for (let i = 1; i <= 7; i++) {
-    const snippetKey = `snippet${i}`
+  for (const snippetKey of sequenceFields(sequence)) {
     const count = prospects.filter((p) => {
       const snippet = p[snippetKey as keyof WoodpeckerProspect]
       return snippet && typeof snippet === 'string' && snippet.trim().length > 0